@@ -1,10 +1,11 @@
-import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
 import { existsSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import { AutomationEngine } from '../src/main/automation-engine'
 import { emitAutomationEvent } from '../src/main/automation-event-bus'
-import type { AutomationConfigV2 } from '../src/shared/automation-types'
+import { AUTOMATION_WEBHOOK_SIGNATURE_HEADER, signWebhookBody } from '../src/main/automation-webhook-server'
+import type { AutomationConfigV2, AutomationRunRecord } from '../src/shared/automation-types'
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) throw new Error(message)
@@ -23,21 +24,28 @@ async function main(): Promise<void> {
   const workspaceRoot = await mkdtemp(join(tmpdir(), 'constellagent-automations-smoke-'))
   const shellOutputPath = join(workspaceRoot, 'workspace-created.txt')
   const cooldownOutputPath = join(workspaceRoot, 'cooldown.txt')
+  const pipelineOutputPath = join(workspaceRoot, 'pipeline.txt')
+  const filteredOutputPath = join(workspaceRoot, 'filtered.txt')
+  const targetWorktreePath = join(workspaceRoot, 'wt-feature')
+  const targetOutputPath = join(targetWorktreePath, 'target.txt')
+  const webhookOutputPath = join(targetWorktreePath, 'webhook.txt')
   const notifications: Array<{ title: string; body: string }> = []
   const ptyWrites: Array<{ ptyId: string; input: string }> = []
+  const recordedRuns: AutomationRunRecord[] = []
 
   const fakePtyManager = {
-    getPtyIdsForWorkspace(workspaceId: string) {
-      return workspaceId === 'ws-pty' ? ['pty-1'] : []
+    getPtyIdsForWorkspace(workspaceId: string, agentType?: string) {
+      if (workspaceId !== 'ws-pty') return []
+      return agentType === 'codex' ? ['pty-codex'] : ['pty-codex', 'pty-1']
     },
     write(ptyId: string, input: string) {
       ptyWrites.push({ ptyId, input })
     },
   } as any
 
-  const engine = new AutomationEngine(fakePtyManager, {
+  const engineDeps: ConstructorParameters<typeof AutomationEngine>[1] = {
     getWindows: () => [],
-    execShellCommand: async (command, cwd) => {
+    execShellCommand: async (command, cwd, signal) => {
       if (command.startsWith('write-file ')) {
         const [, filePath, contents] = command.split(' ')
         await writeFile(join(cwd, filePath), contents, 'utf8')
@@ -50,12 +58,34 @@ async function main(): Promise<void> {
         await writeFile(target, existing + contents, 'utf8')
         return
       }
+      if (command.startsWith('exit-with ')) {
+        const [, code, stdout] = command.split(' ')
+        return { exitCode: Number(code), stdout: stdout ?? '', stderr: '' }
+      }
+      if (command.startsWith('hang ')) {
+        const [, stdout] = command.split(' ')
+        await new Promise((resolve) => signal?.addEventListener('abort', resolve, { once: true }))
+        return { exitCode: 143, stdout, stderr: '' }
+      }
       throw new Error(`Unsupported smoke command: ${command}`)
     },
     showNotification: (title, body) => {
       notifications.push({ title, body })
     },
-  })
+    findWorkspace: ({ workspaceId, projectId, branch }) =>
+      workspaceId === 'ws-feature' || (projectId === 'project-1' && branch === 'feature/target')
+        ? { id: 'ws-feature', branch: 'feature/target', worktreePath: targetWorktreePath }
+        : null,
+    recordRun: async (_repoPath, run) => {
+      recordedRuns.push(run)
+    },
+    webhookPort: 0,
+    listChangedPaths: async (_repoPath, worktreePath) => (worktreePath === targetWorktreePath ? ['docs/readme.md'] : []),
+    runPiPrompt: async (prompt, { model, cwd }) => `${model}:${prompt}:${cwd === workspaceRoot ? 'repo' : cwd}`,
+  }
+  const engine = new AutomationEngine(fakePtyManager, engineDeps)
+  // Separate engine so the cancellation cases stay under the global per-minute run limit.
+  const cancellationEngine = new AutomationEngine(fakePtyManager, engineDeps)
 
   try {
     const eventAutomation: AutomationConfigV2 = {
@@ -63,7 +93,7 @@ async function main(): Promise<void> {
       name: 'event-shell',
       projectId: 'project-1',
       trigger: { type: 'event', eventType: 'workspace:created' },
-      action: { type: 'run-shell-command', command: 'write-file workspace-created.txt fired' },
+      action: { type: 'run-shell-command', command: 'write-file workspace-created.txt {{branch}}@{{workspaceId}}' },
       enabled: true,
       repoPath: workspaceRoot,
       cooldownMs: 30_000,
@@ -79,7 +109,7 @@ async function main(): Promise<void> {
     })
 
     await waitFor(() => existsSync(shellOutputPath), 2000, 'event shell output')
-    assert((await readFile(shellOutputPath, 'utf8')) === 'fired', 'workspace-created automation did not write expected output')
+    assert((await readFile(shellOutputPath, 'utf8')) === "'main'@'ws-1'", 'workspace-created automation did not expand quoted event variables')
 
     const cooldownAutomation: AutomationConfigV2 = {
       id: 'cooldown-shell',
@@ -141,9 +171,235 @@ async function main(): Promise<void> {
     assert(ptyWrites[0]?.ptyId === 'pty-1', 'write-to-pty targeted the wrong PTY')
     assert(ptyWrites[0]?.input === 'echo smoke\\n', 'write-to-pty sent the wrong input')
 
+    const pipelineAutomation: AutomationConfigV2 = {
+      id: 'pipeline',
+      name: 'pipeline',
+      projectId: 'project-1',
+      trigger: { type: 'manual' },
+      action: { type: 'run-shell-command', command: 'exit-with 3 broken' },
+      steps: [
+        { id: 'step-1', action: { type: 'run-shell-command', command: 'exit-with 3 broken' } },
+        { id: 'step-2', runIf: 'success', action: { type: 'send-notification', title: 'unreachable', body: 'x' } },
+        { id: 'step-3', runIf: 'failed', action: { type: 'run-shell-command', command: 'write-file pipeline.txt {{prev.exitCode}}-{{steps.step-1.stdout}}' } },
+      ],
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 30_000,
+    }
+    await engine.runNow(pipelineAutomation as any)
+    await waitFor(() => existsSync(pipelineOutputPath), 2000, 'pipeline output')
+    assert((await readFile(pipelineOutputPath, 'utf8')) === "'3'-'broken'", 'pipeline did not pass step outputs forward')
+    assert(notifications.length === 1, 'pipeline ran a step whose condition was not met')
+    await waitFor(() => recordedRuns.some((run) => run.automationId === 'pipeline'), 2000, 'pipeline run history')
+    const pipelineRun = recordedRuns.find((run) => run.automationId === 'pipeline')
+    assert(pipelineRun?.status === 'success', 'pipeline run did not record the recovery step outcome')
+    assert(pipelineRun.steps[0]?.outputs?.stdout === 'broken', 'run history did not capture shell output')
+
+    await mkdir(targetWorktreePath)
+    const targetAutomation: AutomationConfigV2 = {
+      id: 'target',
+      name: 'target',
+      projectId: 'project-1',
+      trigger: { type: 'event', eventType: 'pr:changes-requested' },
+      action: { type: 'run-shell-command', command: 'write-file target.txt {{pr.number}}' },
+      runTarget: { type: 'trigger-workspace' },
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 30_000,
+    }
+    engine.upsert(targetAutomation)
+    emitAutomationEvent({
+      type: 'pr:changes-requested',
+      timestamp: Date.now(),
+      projectId: 'project-1',
+      branch: 'feature/target',
+      prInfo: {
+        number: 42,
+        state: 'open',
+        title: 'Target',
+        url: 'https://example.com/pull/42',
+        checkStatus: 'passing',
+        hasPendingComments: false,
+        pendingCommentCount: 0,
+        isBlockedByCi: false,
+        isApproved: false,
+        isChangesRequested: true,
+        updatedAt: new Date().toISOString(),
+      },
+    })
+    await waitFor(() => existsSync(targetOutputPath), 2000, 'trigger-workspace output')
+    assert((await readFile(targetOutputPath, 'utf8')) === "'42'", 'trigger-workspace automation did not run in the PR workspace')
+
+    const piAutomation: AutomationConfigV2 = {
+      id: 'pi',
+      name: 'pi',
+      projectId: 'project-1',
+      trigger: { type: 'manual' },
+      action: { type: 'run-prompt', prompt: 'summarize', agentType: 'pi-constell', model: 'composer-2' },
+      steps: [
+        { id: 'step-1', action: { type: 'run-prompt', prompt: 'summarize', agentType: 'pi-constell', model: 'composer-2' } },
+        { id: 'step-2', action: { type: 'send-notification', title: 'Pi', body: '{{prev.stdout}}' } },
+      ],
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 30_000,
+    }
+    await engine.runNow(piAutomation as any)
+    await waitFor(() => notifications.some((entry) => entry.title === 'Pi'), 2000, 'pi notification')
+    assert(notifications.find((entry) => entry.title === 'Pi')?.body === 'composer-2:summarize:repo', 'pi-constell prompt did not run headless in the repo')
+
+    const filteredAutomation: AutomationConfigV2 = {
+      id: 'filtered',
+      name: 'filtered',
+      projectId: 'project-1',
+      trigger: {
+        type: 'event',
+        eventType: 'pr:created',
+        filterGroups: [
+          [{ field: 'prLabel', value: 'skip-automation', negate: true }, { field: 'changedPath', pattern: 'src/**' }],
+          [{ field: 'prAuthor', value: 'octocat' }],
+        ],
+      },
+      action: { type: 'run-shell-command', command: 'append-file filtered.txt {{pr.authorLogin}}' },
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 0,
+    }
+    engine.upsert(filteredAutomation)
+    const createdPr = (authorLogin: string) => ({
+      type: 'pr:created' as const,
+      timestamp: Date.now(),
+      projectId: 'project-1',
+      branch: 'feature/target',
+      prInfo: {
+        number: 7,
+        state: 'open' as const,
+        title: 'Docs only',
+        url: 'https://example.com/pull/7',
+        checkStatus: 'pending' as const,
+        hasPendingComments: false,
+        pendingCommentCount: 0,
+        isBlockedByCi: false,
+        isApproved: false,
+        isChangesRequested: false,
+        updatedAt: new Date().toISOString(),
+        authorLogin,
+        labels: [],
+      },
+    })
+    emitAutomationEvent(createdPr('someone'))
+    emitAutomationEvent(createdPr('octocat'))
+    await waitFor(() => existsSync(filteredOutputPath), 2000, 'filtered output')
+    await Bun.sleep(50)
+    assert((await readFile(filteredOutputPath, 'utf8')) === "'octocat'", 'OR filter groups matched the wrong events')
+    const filterTest = await engine.testFilters(filteredAutomation)
+    assert(filterTest.length === 2 && filterTest[0].matched && !filterTest[1].matched, 'testFilters did not evaluate recent events newest first')
+    assert(filterTest[1].changedPaths?.[0] === 'docs/readme.md', 'testFilters did not report the changed files it checked')
+
+    const webhookAutomation: AutomationConfigV2 = {
+      id: 'webhook',
+      name: 'webhook',
+      projectId: 'project-1',
+      trigger: { type: 'webhook', secret: 'hook-secret', requireSignature: true },
+      action: { type: 'run-shell-command', command: 'write-file webhook.txt {{payload.commits.0.id}}' },
+      runTarget: { type: 'trigger-workspace' },
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 0,
+    }
+    engine.upsert(webhookAutomation)
+    const { baseUrl } = await engine.getWebhookInfo()
+    assert(baseUrl, 'webhook listener did not start')
+    const webhookBody = JSON.stringify({ branch: 'feature/target', commits: [{ id: 'c0ffee' }] })
+    const unsigned = await fetch(`${baseUrl}/automations/webhook`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer hook-secret' },
+      body: webhookBody,
+    })
+    assert(unsigned.status === 401, 'webhook accepted a bearer token although signatures are required')
+    const signed = await fetch(`${baseUrl}/automations/webhook`, {
+      method: 'POST',
+      headers: { [AUTOMATION_WEBHOOK_SIGNATURE_HEADER]: signWebhookBody('hook-secret', webhookBody) },
+      body: webhookBody,
+    })
+    assert(signed.status === 202, 'signed webhook request was not accepted')
+    await waitFor(() => existsSync(webhookOutputPath), 2000, 'webhook output')
+    assert((await readFile(webhookOutputPath, 'utf8')) === "'c0ffee'", 'webhook payload did not reach the action in the payload branch workspace')
+
+    const timeoutAutomation: AutomationConfigV2 = {
+      id: 'timeout',
+      name: 'timeout',
+      projectId: 'project-1',
+      trigger: { type: 'manual' },
+      action: { type: 'run-shell-command', command: 'hang partial' },
+      steps: [
+        { id: 'step-1', action: { type: 'run-shell-command', command: 'hang partial' } },
+        { id: 'step-2', runIf: 'timeout', action: { type: 'send-notification', title: 'Timed out', body: '{{prev.stdout}}' } },
+      ],
+      maxDurationMs: 50,
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 30_000,
+    }
+    await cancellationEngine.runNow(timeoutAutomation as any)
+    await waitFor(() => recordedRuns.some((run) => run.automationId === 'timeout'), 2000, 'timeout run history')
+    const timeoutRun = recordedRuns.find((run) => run.automationId === 'timeout')
+    assert(timeoutRun?.steps[0]?.status === 'timeout', 'max duration did not time out the hanging step')
+    assert(timeoutRun.steps[0]?.outputs?.stdout === 'partial', 'timed out step did not keep its partial output')
+    assert(notifications.find((entry) => entry.title === 'Timed out')?.body === 'partial', 'timeout recovery step did not run')
+
+    const stopAutomation: AutomationConfigV2 = {
+      id: 'stop',
+      name: 'stop',
+      projectId: 'project-1',
+      trigger: { type: 'manual' },
+      action: { type: 'run-shell-command', command: 'hang stopped' },
+      steps: [
+        { id: 'step-1', action: { type: 'run-shell-command', command: 'hang stopped' } },
+        { id: 'step-2', runIf: 'always', action: { type: 'send-notification', title: 'After stop', body: 'x' } },
+      ],
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 30_000,
+    }
+    const stopRun = cancellationEngine.runNow(stopAutomation as any)
+    await Bun.sleep(25)
+    assert(cancellationEngine.stop('stop'), 'stop did not find the in-flight run')
+    await stopRun
+    await waitFor(() => recordedRuns.some((run) => run.automationId === 'stop'), 2000, 'stopped run history')
+    const stoppedRun = recordedRuns.find((run) => run.automationId === 'stop')
+    assert(stoppedRun?.status === 'failed' && stoppedRun.steps[0]?.message === 'Stopped by user', 'stopped run was not marked as stopped')
+    assert(stoppedRun.steps[1]?.status === 'skipped', 'steps after a stop still ran')
+    assert(!cancellationEngine.stop('stop'), 'stop reported a run that already finished')
+
+    const idleAutomation: AutomationConfigV2 = {
+      id: 'idle-nudge',
+      name: 'idle-nudge',
+      projectId: 'project-1',
+      // 0.001 minutes keeps the smoke run fast.
+      trigger: { type: 'event', eventType: 'agent:idle', thresholdMinutes: 0.001 },
+      action: { type: 'write-to-pty', workspaceId: '{{workspaceId}}', input: 'continue after {{event.meta.thresholdMinutes}}m\\n' },
+      enabled: true,
+      repoPath: workspaceRoot,
+      cooldownMs: 30_000,
+    }
+    cancellationEngine.upsert(idleAutomation)
+    const agentEvent = { timestamp: Date.now(), projectId: 'project-1', workspaceId: 'ws-pty', agentType: 'codex' as const }
+    emitAutomationEvent({ ...agentEvent, type: 'agent:stopped' })
+    emitAutomationEvent({ ...agentEvent, type: 'agent:started' })
+    await Bun.sleep(150)
+    assert(!ptyWrites.some((write) => write.ptyId === 'pty-codex'), 'agent:idle fired after the agent resumed')
+    emitAutomationEvent({ ...agentEvent, timestamp: Date.now(), type: 'agent:stopped' })
+    await waitFor(() => ptyWrites.some((write) => write.ptyId === 'pty-codex'), 2000, 'idle nudge')
+    assert(
+      ptyWrites.find((write) => write.ptyId === 'pty-codex')?.input === 'continue after 0.001m\\n',
+      'idle nudge did not target the idle agent terminal',
+    )
+
     console.log('[automations-smoke] passed')
   } finally {
     engine.destroyAll()
+    cancellationEngine.destroyAll()
     await rm(workspaceRoot, { recursive: true, force: true })
   }
 }
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import type { AutomationEvent } from '../shared/automation-types'
+import { AgentLifecycleTimers } from './agent-lifecycle-timers'
+
+// 0.001 minutes = 60ms keeps the timers real without slowing the suite down.
+const THRESHOLD_MINUTES = 0.001
+
+function lifecycleEvent(type: 'agent:started' | 'agent:stopped', workspaceId = 'ws-1'): AutomationEvent {
+  return { type, timestamp: Date.now(), workspaceId, agentType: 'codex', projectId: 'project-1', branch: 'main' }
+}
+
+describe('AgentLifecycleTimers', () => {
+  let timers: AgentLifecycleTimers | null = null
+
+  afterEach(() => {
+    timers?.dispose()
+    timers = null
+  })
+
+  it('emits long-running and idle events once their thresholds pass', async () => {
+    const emitted: AutomationEvent[] = []
+    timers = new AgentLifecycleTimers((event) => emitted.push(event))
+    timers.setThresholds('agent:long-running', [THRESHOLD_MINUTES])
+    timers.setThresholds('agent:idle', [THRESHOLD_MINUTES])
+
+    timers.handleLifecycleEvent(lifecycleEvent('agent:started'))
+    await Bun.sleep(100)
+    timers.handleLifecycleEvent(lifecycleEvent('agent:stopped'))
+    await Bun.sleep(100)
+
+    expect(emitted.map((event) => event.type)).toEqual(['agent:long-running', 'agent:idle'])
+    expect(emitted[1]).toMatchObject({ workspaceId: 'ws-1', agentType: 'codex', branch: 'main', meta: { thresholdMinutes: THRESHOLD_MINUTES } })
+  })
+
+  it('cancels pending events when the agent changes state or its workspace closed', async () => {
+    const emitted: AutomationEvent[] = []
+    timers = new AgentLifecycleTimers((event) => emitted.push(event), (workspaceId) => workspaceId !== 'ws-closed')
+    timers.setThresholds('agent:long-running', [THRESHOLD_MINUTES * 2])
+    timers.setThresholds('agent:idle', [THRESHOLD_MINUTES])
+
+    timers.handleLifecycleEvent(lifecycleEvent('agent:started'))
+    timers.handleLifecycleEvent(lifecycleEvent('agent:stopped', 'ws-closed'))
+    await Bun.sleep(20)
+    timers.handleLifecycleEvent(lifecycleEvent('agent:started', 'ws-closed'))
+    timers.handleLifecycleEvent(lifecycleEvent('agent:stopped'))
+    await Bun.sleep(20)
+    timers.handleLifecycleEvent(lifecycleEvent('agent:started'))
+    timers.dispose()
+    timers.handleLifecycleEvent(lifecycleEvent('agent:stopped', 'ws-closed'))
+    await Bun.sleep(150)
+
+    expect(emitted).toEqual([])
+  })
+})
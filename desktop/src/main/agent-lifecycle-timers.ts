@@ -0,0 +1,72 @@
+import type { AutomationEvent, TimedAgentEventType } from '../shared/automation-types'
+
+interface AgentSession {
+  /** When the agent last started (`agent:long-running`) or stopped (`agent:idle`). */
+  since: number
+  type: TimedAgentEventType
+  source: AutomationEvent
+  timers: Array<ReturnType<typeof setTimeout>>
+}
+
+/**
+ * Turns `agent:started` / `agent:stopped` transitions into time-based events: `agent:long-running`
+ * once an agent has been working for a threshold, `agent:idle` once it has been waiting for input.
+ * Each threshold fires at most once per transition.
+ */
+export class AgentLifecycleTimers {
+  private thresholds: Record<TimedAgentEventType, number[]> = { 'agent:idle': [], 'agent:long-running': [] }
+  private sessions = new Map<string, AgentSession>()
+
+  constructor(
+    private readonly emit: (event: AutomationEvent) => void,
+    /** Idle events are dropped once the workspace has no terminal left to type into. */
+    private readonly isWorkspaceOpen: (workspaceId: string) => boolean = () => true,
+  ) {}
+
+  /** Thresholds in minutes; sessions already being timed keep their old schedule. */
+  setThresholds(type: TimedAgentEventType, minutes: number[]): void {
+    this.thresholds[type] = [...new Set(minutes.filter((value) => value > 0))].sort((a, b) => a - b)
+  }
+
+  handleLifecycleEvent(event: AutomationEvent): void {
+    if (event.type !== 'agent:started' && event.type !== 'agent:stopped') return
+    if (!event.workspaceId || !event.agentType) return
+    const key = `${event.workspaceId}:${event.agentType}`
+    this.clear(key)
+    const type: TimedAgentEventType = event.type === 'agent:started' ? 'agent:long-running' : 'agent:idle'
+    const thresholds = this.thresholds[type]
+    if (thresholds.length === 0) return
+
+    const session: AgentSession = { since: event.timestamp, type, source: event, timers: [] }
+    for (const minutes of thresholds) {
+      const delay = Math.max(0, event.timestamp + minutes * 60_000 - Date.now())
+      session.timers.push(setTimeout(() => this.fire(session, minutes), delay))
+    }
+    this.sessions.set(key, session)
+  }
+
+  dispose(): void {
+    for (const key of [...this.sessions.keys()]) this.clear(key)
+  }
+
+  private fire(session: AgentSession, minutes: number): void {
+    const { source } = session
+    if (session.type === 'agent:idle' && !this.isWorkspaceOpen(source.workspaceId!)) return
+    this.emit({
+      type: session.type,
+      timestamp: Date.now(),
+      projectId: source.projectId,
+      workspaceId: source.workspaceId,
+      agentType: source.agentType,
+      branch: source.branch,
+      meta: { thresholdMinutes: minutes, since: session.since },
+    })
+  }
+
+  private clear(key: string): void {
+    const session = this.sessions.get(key)
+    if (!session) return
+    for (const timer of session.timers) clearTimeout(timer)
+    this.sessions.delete(key)
+  }
+}
@@ -2,7 +2,7 @@ import { execFile } from 'child_process'
 import { promisify } from 'util'
 import { realpathSync } from 'fs'
 import { join, resolve } from 'path'
-import type { Client } from '@libsql/client'
+import type { Client, Row } from '@libsql/client'
 import {
   openAnnotationsDb,
   addAnnotation,
@@ -16,6 +16,28 @@ import {
 const execFileAsync = promisify(execFile)
 
 const dbHandles = new Map<string, Client>()
+const githubLinkTables = new WeakSet<Client>()
+
+/** A GitHub review thread copied into the store so the annotation CLI and agents see it. */
+export interface GithubThreadImport {
+  annotationId: string
+  repo: string
+  prNumber: number
+  threadId: string
+  /** Node id of the comment that opened the thread. */
+  commentNodeId: string
+}
+
+/** The GitHub review comment an annotation was published as. */
+export interface GithubAnnotationLink {
+  annotationId: string
+  repo: string
+  prNumber: number
+  commentId: number
+  commentNodeId: string
+  /** Body last written to GitHub, so re-publishing only PATCHes edited annotations. */
+  syncedBody: string
+}
 
 function resolveRepo(worktreePath: string): string {
   try {
@@ -71,6 +93,50 @@ async function getDb(worktreePath: string): Promise<Client> {
   return client
 }
 
+async function getGithubLinkDb(worktreePath: string): Promise<Client> {
+  const db = await getDb(worktreePath)
+  if (!githubLinkTables.has(db)) {
+    await db.execute(`CREATE TABLE IF NOT EXISTS github_review_links (
+      annotation_id TEXT PRIMARY KEY,
+      repo TEXT NOT NULL,
+      pr_number INTEGER NOT NULL,
+      comment_id INTEGER NOT NULL,
+      comment_node_id TEXT NOT NULL,
+      synced_body TEXT NOT NULL
+    )`)
+    await db.execute(`CREATE TABLE IF NOT EXISTS github_review_imports (
+      annotation_id TEXT PRIMARY KEY,
+      repo TEXT NOT NULL,
+      pr_number INTEGER NOT NULL,
+      thread_id TEXT NOT NULL,
+      comment_node_id TEXT NOT NULL
+    )`)
+    githubLinkTables.add(db)
+  }
+  return db
+}
+
+function rowToGithubLink(row: Row): GithubAnnotationLink {
+  return {
+    annotationId: String(row.annotation_id),
+    repo: String(row.repo),
+    prNumber: Number(row.pr_number),
+    commentId: Number(row.comment_id),
+    commentNodeId: String(row.comment_node_id),
+    syncedBody: String(row.synced_body),
+  }
+}
+
+function rowToGithubImport(row: Row): GithubThreadImport {
+  return {
+    annotationId: String(row.annotation_id),
+    repo: String(row.repo),
+    prNumber: Number(row.pr_number),
+    threadId: String(row.thread_id),
+    commentNodeId: String(row.comment_node_id),
+  }
+}
+
 export const AnnotationService = {
   async addComment(
     worktreePath: string,
@@ -149,6 +215,119 @@ export const AnnotationService = {
     await setResolved(db, commentId, resolved)
   },
 
+  async getGithubLinks(worktreePath: string, annotationIds: string[]): Promise<Map<string, GithubAnnotationLink>> {
+    const links = new Map<string, GithubAnnotationLink>()
+    if (annotationIds.length === 0) return links
+    const db = await getGithubLinkDb(worktreePath)
+    const result = await db.execute({
+      sql: `SELECT * FROM github_review_links WHERE annotation_id IN (${annotationIds.map(() => '?').join(', ')})`,
+      args: annotationIds,
+    })
+    for (const row of result.rows) {
+      const link = rowToGithubLink(row)
+      links.set(link.annotationId, link)
+    }
+    return links
+  },
+
+  async listGithubLinksForPr(worktreePath: string, repo: string, prNumber: number): Promise<GithubAnnotationLink[]> {
+    const db = await getGithubLinkDb(worktreePath)
+    const result = await db.execute({
+      sql: 'SELECT * FROM github_review_links WHERE repo = ? AND pr_number = ?',
+      args: [repo, prNumber],
+    })
+    return result.rows.map(rowToGithubLink)
+  },
+
+  async saveGithubLink(worktreePath: string, link: GithubAnnotationLink): Promise<void> {
+    const db = await getGithubLinkDb(worktreePath)
+    await db.execute({
+      sql: `INSERT OR REPLACE INTO github_review_links
+        (annotation_id, repo, pr_number, comment_id, comment_node_id, synced_body)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [link.annotationId, link.repo, link.prNumber, link.commentId, link.commentNodeId, link.syncedBody],
+    })
+  },
+
+  async deleteGithubLink(worktreePath: string, annotationId: string): Promise<void> {
+    const db = await getGithubLinkDb(worktreePath)
+    await db.execute({ sql: 'DELETE FROM github_review_links WHERE annotation_id = ?', args: [annotationId] })
+  },
+
+  /** Stores a GitHub review thread as an annotation and remembers where it came from. */
+  async importGithubThread(
+    worktreePath: string,
+    source: Omit<GithubThreadImport, 'annotationId'>,
+    annotation: {
+      file: string
+      side: 'new' | 'old'
+      lineStart: number
+      lineEnd: number
+      summary: string
+      rationale: string | null
+      author: string
+      resolved: boolean
+    },
+  ): Promise<string> {
+    const repoRoot = await gitRepoRoot(worktreePath)
+    const db = await getGithubLinkDb(worktreePath)
+    const added = await addAnnotation(
+      db,
+      {
+        repo_root: repoRoot,
+        worktree_path: resolveRepo(worktreePath),
+        file_path: annotation.file,
+        side: annotation.side,
+        line_start: annotation.lineStart,
+        line_end: annotation.lineEnd,
+        summary: annotation.summary,
+        rationale: annotation.rationale,
+        author: annotation.author,
+        head_sha: await gitHead(worktreePath),
+      },
+      // Outdated threads point at lines that are no longer in the diff
+      { force: true },
+    )
+    if (annotation.resolved) await setResolved(db, added.id, true)
+    await db.execute({
+      sql: `INSERT OR REPLACE INTO github_review_imports
+        (annotation_id, repo, pr_number, thread_id, comment_node_id)
+        VALUES (?, ?, ?, ?, ?)`,
+      args: [added.id, source.repo, source.prNumber, source.threadId, source.commentNodeId],
+    })
+    return added.id
+  },
+
+  /** Rewrites an imported thread's text after it was edited or replied to on GitHub. */
+  async updateImportedText(worktreePath: string, annotationId: string, summary: string, rationale: string | null): Promise<void> {
+    const db = await getDb(worktreePath)
+    await db.execute({
+      sql: 'UPDATE review_annotations SET summary = ?, rationale = ?, updated_at = ? WHERE id = ?',
+      // Same timestamp format as the package's own updates
+      args: [summary, rationale, new Date().toISOString().replace('T', ' ').replace('Z', ''), annotationId],
+    })
+  },
+
+  async listGithubImportsForPr(worktreePath: string, repo: string, prNumber: number): Promise<GithubThreadImport[]> {
+    const db = await getGithubLinkDb(worktreePath)
+    const result = await db.execute({
+      sql: 'SELECT * FROM github_review_imports WHERE repo = ? AND pr_number = ?',
+      args: [repo, prNumber],
+    })
+    return result.rows.map(rowToGithubImport)
+  },
+
+  async getGithubImport(worktreePath: string, annotationId: string): Promise<GithubThreadImport | null> {
+    const db = await getGithubLinkDb(worktreePath)
+    const result = await db.execute({ sql: 'SELECT * FROM github_review_imports WHERE annotation_id = ?', args: [annotationId] })
+    return result.rows[0] ? rowToGithubImport(result.rows[0]) : null
+  },
+
+  async deleteGithubImport(worktreePath: string, annotationId: string): Promise<void> {
+    const db = await getGithubLinkDb(worktreePath)
+    await db.execute({ sql: 'DELETE FROM github_review_imports WHERE annotation_id = ?', args: [annotationId] })
+  },
+
   cleanupAll(): void {
     for (const [, client] of dbHandles) {
       client.close()
@@ -1,35 +1,150 @@
 import * as cron from 'node-cron'
-import { exec as execCallback } from 'child_process'
-import { promisify } from 'util'
+import { spawn } from 'child_process'
+import { randomUUID } from 'crypto'
+import { constants } from 'os'
 import type { BrowserWindow } from 'electron'
 import { IPC } from '../shared/ipc-channels'
 import type {
   AutomationAction,
+  AutomationAgentType,
   AutomationConfigLike,
   AutomationConfigV2,
   AutomationEvent,
-  AutomationFilter,
+  AutomationFilterTestResult,
+  AutomationWebhookInfo,
+  AutomationRunActivityEvent,
+  AutomationRunRecord,
   AutomationRunStartedEvent,
+  AutomationRunStatus,
+  AutomationRunTarget,
   AutomationStatusEvent,
+  AutomationStep,
+  AutomationStepOutputs,
+  AutomationStepResult,
+  RunPromptAction,
+  TimedAgentEventType,
 } from '../shared/automation-types'
 import {
   DEFAULT_AUTOMATION_COOLDOWN_MS,
+  DEFAULT_AUTOMATION_WEBHOOK_PORT,
   MAX_AUTOMATION_EXECUTIONS_PER_MINUTE,
+  MAX_AUTOMATION_STEP_OUTPUT_CHARS,
+  getAgentEventThresholdMinutes,
+  getAutomationSteps,
+  isTimedAgentEventType,
   toAutomationConfigV2,
 } from '../shared/automation-types'
-import { onAutomationEvent } from './automation-event-bus'
+import {
+  buildEventTemplateContext,
+  buildStepTemplateContext,
+  renderAutomationTemplate,
+  shellQuote,
+  type AutomationTemplateContext,
+} from '../shared/automation-template'
+import {
+  filterGroupsUseChangedPaths,
+  getEventTriggerFilterGroups,
+  matchesAutomationFilterGroups,
+} from '../shared/automation-filters'
+import { emitAutomationEvent, onAutomationEvent } from './automation-event-bus'
+import { AgentLifecycleTimers } from './agent-lifecycle-timers'
+import {
+  AutomationWebhookServer,
+  verifyWebhookRequest,
+  type AutomationWebhookRequest,
+  type AutomationWebhookResponse,
+} from './automation-webhook-server'
 import { PtyManager } from './pty-manager'
 import { GitService } from './git-service'
+import { buildAdHocAgentCommand } from '../shared/plan-build-command'
 import { trustPathForClaude } from './claude-config'
-
-const execAsync = promisify(execCallback)
+import { trustPathForCodex } from './codex-config'
+import { trustPathForGemini } from './gemini-config'
 
 type AutomationWindow = Pick<BrowserWindow, 'isDestroyed' | 'webContents'>
 
+export interface AutomationShellResult {
+  exitCode: number
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Injected shells may resolve without a result; that counts as a silent, successful run.
+ * When `signal` aborts, the executor should kill the command and resolve with the output so far.
+ */
+type AutomationShellExecutor = (
+  command: string,
+  cwd: string,
+  signal?: AbortSignal,
+) => Promise<AutomationShellResult | void>
+
+/** An existing workspace checkout that a run reuses instead of creating a worktree. */
+interface AutomationTargetWorkspace {
+  id: string
+  branch: string
+  worktreePath: string
+}
+
+type AutomationWorkspaceLookup = (query: {
+  workspaceId?: string
+  projectId?: string
+  branch?: string
+}) => AutomationTargetWorkspace | null
+
+/** Files changed on a workspace's branch (relative to `baseBranch` or the repo default) plus uncommitted ones. */
+type AutomationChangedPathLister = (repoPath: string, worktreePath: string, baseBranch?: string) => Promise<string[]>
+
+type AutomationRunRecorder = (repoPath: string, run: AutomationRunRecord, retention?: number) => Promise<void>
+
+type AutomationPiRunner = (
+  prompt: string,
+  options: { model?: string; cwd: string; signal?: AbortSignal },
+) => Promise<string>
+
 interface AutomationEngineDeps {
   getWindows?: () => AutomationWindow[]
-  execShellCommand?: (command: string, cwd: string) => Promise<void>
+  execShellCommand?: AutomationShellExecutor
   showNotification?: (title: string, body: string) => void
+  findWorkspace?: AutomationWorkspaceLookup
+  runPiPrompt?: AutomationPiRunner
+  recordRun?: AutomationRunRecorder
+  listChangedPaths?: AutomationChangedPathLister
+  /** Preferred port for the webhook listener; 0 picks a random one. */
+  webhookPort?: number
+}
+
+/** Events kept in memory so the filter editor can test against them. */
+const MAX_RECENT_AUTOMATION_EVENTS = 100
+const RECENT_EVENT_TEST_LIMIT = 5
+
+/** Headless Pi runs get far longer than the 30s commit-message default. */
+const PI_AUTOMATION_TIMEOUT_MS = 30 * 60_000
+
+/** Pre-accept each CLI's folder trust prompt so unattended runs don't stall on it. */
+const AGENT_TRUST_SETUP: Partial<Record<AutomationAgentType, (dirPath: string) => Promise<void>>> = {
+  'claude-code': trustPathForClaude,
+  codex: trustPathForCodex,
+  gemini: trustPathForGemini,
+}
+
+interface StepExecution {
+  status: AutomationRunStatus
+  message?: string
+  outputs?: AutomationStepOutputs
+}
+
+/** Why a run's signal was aborted. */
+type AutomationAbortReason = 'timeout' | 'stopped'
+
+/** Bookkeeping for a run in progress, keyed by automation id. */
+interface InFlightRun {
+  triggerEvent: AutomationEvent | null
+  /** Aborted by `stop()`: cancels the current step and skips the rest. */
+  stop: AbortController
+  /** Aborted once `maxDurationMs` elapses; later steps only run if they handle `timeout`. */
+  deadline: AbortController
+  ptyIds: Set<string>
 }
 
 function getElectronWindows(): AutomationWindow[] {
@@ -42,12 +157,78 @@ function showElectronNotification(title: string, body: string): void {
   new Notification({ title, body }).show()
 }
 
-function escapeRegExp(value: string): string {
-  return value.replace(/[|\\{}()[\]^$+?.]/g, '\\$&')
+function findPersistedTargetWorkspace(query: Parameters<AutomationWorkspaceLookup>[0]): AutomationTargetWorkspace | null {
+  const { findPersistedWorkspace } = require('./persisted-state') as typeof import('./persisted-state')
+  return findPersistedWorkspace(query)
+}
+
+function recordRunInProjectDb(repoPath: string, run: AutomationRunRecord, retention?: number): Promise<void> {
+  const { AutomationRunStore } = require('./automation-run-store') as typeof import('./automation-run-store')
+  return AutomationRunStore.record(repoPath, run, retention)
+}
+
+async function runPiPromptHeadless(
+  prompt: string,
+  options: { model?: string; cwd: string; signal?: AbortSignal },
+): Promise<string> {
+  const { runPiPrompt, stripTerminalNoise } = require('./pi-run-prompt') as typeof import('./pi-run-prompt')
+  const output = await runPiPrompt(prompt, { ...options, timeoutMs: PI_AUTOMATION_TIMEOUT_MS })
+  return stripTerminalNoise(output).trim()
+}
+
+async function listWorkspaceChangedPaths(repoPath: string, worktreePath: string, baseBranch?: string): Promise<string[]> {
+  const baseRef = baseBranch ? `origin/${baseBranch}` : await GitService.getDefaultBranch(repoPath)
+  return GitService.getChangedPaths(worktreePath, baseRef)
+}
+
+function execShellCommandWithOutput(command: string, cwd: string, signal?: AbortSignal): Promise<AutomationShellResult> {
+  return new Promise((resolve, reject) => {
+    // Own process group so cancelling also kills whatever the shell spawned.
+    const child = spawn(command, { cwd, shell: true, detached: true, stdio: ['ignore', 'pipe', 'pipe'] })
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout = tailOutput(stdout + chunk.toString())
+    })
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = tailOutput(stderr + chunk.toString())
+    })
+    const kill = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGTERM')
+      } catch {
+        // Already exited.
+      }
+    }
+    if (signal?.aborted) kill()
+    signal?.addEventListener('abort', kill, { once: true })
+    child.on('error', (err) => {
+      signal?.removeEventListener('abort', kill)
+      reject(err)
+    })
+    child.on('close', (code, killSignal) => {
+      signal?.removeEventListener('abort', kill)
+      resolve({ exitCode: code ?? (killSignal ? 128 + (constants.signals[killSignal] ?? 0) : 1), stdout, stderr })
+    })
+  })
+}
+
+function tailOutput(text: string): string {
+  return text.length > MAX_AUTOMATION_STEP_OUTPUT_CHARS ? text.slice(-MAX_AUTOMATION_STEP_OUTPUT_CHARS) : text
+}
+
+function stepConditionMet(step: AutomationStep, previousStatus: AutomationRunStatus | null): boolean {
+  const condition = step.runIf ?? 'success'
+  if (condition === 'always' || previousStatus === null) return true
+  return condition === previousStatus
 }
 
-function branchPatternToRegExp(pattern: string): RegExp {
-  return new RegExp(`^${escapeRegExp(pattern).replace(/\\\*/g, '.*')}$`)
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`
 }
 
 export class AutomationEngine {
@@ -55,18 +236,36 @@ export class AutomationEngine {
   private cronJobs = new Map<string, cron.ScheduledTask>()
   private lastFiredAt = new Map<string, number>()
   private recentExecutionStarts: number[] = []
+  private inFlight = new Map<string, InFlightRun>()
+  private recentEvents: AutomationEvent[] = []
   private unsubscribeEventBus: (() => void) | null = null
   private readonly getWindows: () => AutomationWindow[]
-  private readonly execShellCommand: (command: string, cwd: string) => Promise<void>
+  private readonly execShellCommand: AutomationShellExecutor
   private readonly showNotification: (title: string, body: string) => void
+  private readonly findWorkspace: AutomationWorkspaceLookup
+  private readonly runPiPrompt: AutomationPiRunner
+  private readonly recordRun: AutomationRunRecorder
+  private readonly listChangedPaths: AutomationChangedPathLister
+  private readonly webhookPort: number
+  private readonly webhookServer = new AutomationWebhookServer((request) => this.handleWebhookRequest(request))
+  private readonly agentTimers: AgentLifecycleTimers
 
   constructor(
     private readonly ptyManager: PtyManager,
     deps: AutomationEngineDeps = {},
   ) {
     this.getWindows = deps.getWindows ?? getElectronWindows
-    this.execShellCommand = deps.execShellCommand ?? ((command, cwd) => execAsync(command, { cwd }).then(() => {}))
+    this.execShellCommand = deps.execShellCommand ?? execShellCommandWithOutput
     this.showNotification = deps.showNotification ?? showElectronNotification
+    this.findWorkspace = deps.findWorkspace ?? findPersistedTargetWorkspace
+    this.runPiPrompt = deps.runPiPrompt ?? runPiPromptHeadless
+    this.recordRun = deps.recordRun ?? recordRunInProjectDb
+    this.listChangedPaths = deps.listChangedPaths ?? listWorkspaceChangedPaths
+    this.webhookPort = deps.webhookPort ?? DEFAULT_AUTOMATION_WEBHOOK_PORT
+    this.agentTimers = new AgentLifecycleTimers(
+      emitAutomationEvent,
+      (workspaceId) => this.ptyManager.getPtyIdsForWorkspace(workspaceId).length > 0,
+    )
     this.unsubscribeEventBus = onAutomationEvent((event) => {
       void this.handleAutomationEvent(event)
     })
@@ -76,6 +275,7 @@ export class AutomationEngine {
     const config = toAutomationConfigV2(configInput)
     this.configs.set(config.id, config)
     this.unscheduleCron(config.id)
+    this.syncAgentEventThresholds()
     if (!config.enabled) return
     if (config.trigger.type === 'cron') {
       const job = cron.schedule(config.trigger.cronExpression, () => {
@@ -83,12 +283,22 @@ export class AutomationEngine {
       })
       this.cronJobs.set(config.id, job)
     }
+    if (config.trigger.type === 'webhook') {
+      void this.startWebhookServer()
+    }
+  }
+
+  /** Starts the listener on demand so the editor can show the URL before the first save. */
+  async getWebhookInfo(): Promise<AutomationWebhookInfo> {
+    const port = await this.startWebhookServer()
+    return { baseUrl: port === null ? null : `http://127.0.0.1:${port}` }
   }
 
   remove(automationId: string): void {
     this.unscheduleCron(automationId)
     this.configs.delete(automationId)
     this.lastFiredAt.delete(automationId)
+    this.syncAgentEventThresholds()
   }
 
   runNow(configInput: AutomationConfigLike): void {
@@ -97,14 +307,78 @@ export class AutomationEngine {
     void this.executeAutomation(config, { triggerEvent: null, ignoreEnabled: true, ignoreCooldown: true })
   }
 
+  /** Cancel the automation's in-flight run, killing its shell command or agent PTY. */
+  stop(automationId: string): boolean {
+    const run = this.inFlight.get(automationId)
+    if (!run) return false
+    run.stop.abort('stopped' satisfies AutomationAbortReason)
+    for (const ptyId of run.ptyIds) this.ptyManager.destroy(ptyId)
+    return true
+  }
+
   destroyAll(): void {
     for (const automationId of this.cronJobs.keys()) {
       this.unscheduleCron(automationId)
     }
+    for (const automationId of this.inFlight.keys()) {
+      this.stop(automationId)
+    }
+    this.webhookServer.stop()
+    this.agentTimers.dispose()
     this.unsubscribeEventBus?.()
     this.unsubscribeEventBus = null
   }
 
+  private async startWebhookServer(): Promise<number | null> {
+    try {
+      return await this.webhookServer.start(this.webhookPort)
+    } catch (err) {
+      console.warn('[automations] Could not start the webhook listener:', err)
+      return null
+    }
+  }
+
+  private handleWebhookRequest(request: AutomationWebhookRequest): AutomationWebhookResponse {
+    const config = this.configs.get(request.automationId)
+    if (!config || config.trigger.type !== 'webhook') {
+      return { status: 404, body: { error: 'Unknown automation' } }
+    }
+    if (!config.trigger.secret) {
+      return { status: 403, body: { error: 'No webhook secret is set; open the automation to generate one' } }
+    }
+    if (!verifyWebhookRequest(config.trigger.secret, request, config.trigger.requireSignature)) {
+      return { status: 401, body: { error: 'Invalid token or signature' } }
+    }
+    if (!config.enabled) return { status: 409, body: { error: 'Automation is disabled' } }
+    if (this.inFlight.has(config.id)) return { status: 409, body: { error: 'Automation is already running' } }
+
+    // `branch` / `workspaceId` in the payload let "Run In: Triggering Workspace" target a checkout.
+    const payload = request.payload
+    const fields = payload && typeof payload === 'object' ? payload as Record<string, unknown> : {}
+    const event: AutomationEvent = {
+      type: 'webhook:received',
+      timestamp: Date.now(),
+      projectId: config.projectId,
+      workspaceId: typeof fields.workspaceId === 'string' ? fields.workspaceId : undefined,
+      branch: typeof fields.branch === 'string' ? fields.branch : undefined,
+      payload,
+    }
+    void this.executeAutomation(config, { triggerEvent: event })
+    return { status: 202, body: { accepted: true, automationId: config.id } }
+  }
+
+  /** Only time agents against thresholds some enabled trigger is listening for. */
+  private syncAgentEventThresholds(): void {
+    const thresholds: Record<TimedAgentEventType, number[]> = { 'agent:idle': [], 'agent:long-running': [] }
+    for (const config of this.configs.values()) {
+      if (!config.enabled || config.trigger.type !== 'event') continue
+      if (!isTimedAgentEventType(config.trigger.eventType)) continue
+      thresholds[config.trigger.eventType].push(getAgentEventThresholdMinutes(config.trigger))
+    }
+    this.agentTimers.setThresholds('agent:idle', thresholds['agent:idle'])
+    this.agentTimers.setThresholds('agent:long-running', thresholds['agent:long-running'])
+  }
+
   private unscheduleCron(automationId: string): void {
     const job = this.cronJobs.get(automationId)
     if (!job) return
@@ -112,35 +386,58 @@ export class AutomationEngine {
     this.cronJobs.delete(automationId)
   }
 
+  /** Evaluate an event trigger against the most recent matching events, newest first. */
+  async testFilters(configInput: AutomationConfigLike, limit = RECENT_EVENT_TEST_LIMIT): Promise<AutomationFilterTestResult[]> {
+    const config = toAutomationConfigV2(configInput)
+    if (config.trigger.type !== 'event') return []
+    const { eventType } = config.trigger
+    const candidates = this.recentEvents
+      .filter((event) => event.type === eventType && (!event.projectId || event.projectId === config.projectId))
+      .slice(-limit)
+      .reverse()
+    const results: AutomationFilterTestResult[] = []
+    for (const event of candidates) {
+      const changedPaths = await this.changedPathsForFilters(config, event)
+      const matched = matchesAutomationFilterGroups(getEventTriggerFilterGroups(config.trigger), event, changedPaths ?? [])
+      results.push(changedPaths ? { event, matched, changedPaths } : { event, matched })
+    }
+    return results
+  }
+
   private async handleAutomationEvent(event: AutomationEvent): Promise<void> {
+    this.recentEvents.push(event)
+    if (this.recentEvents.length > MAX_RECENT_AUTOMATION_EVENTS) this.recentEvents.shift()
+    this.agentTimers.handleLifecycleEvent(event)
+
     for (const config of this.configs.values()) {
       if (!config.enabled) continue
       if (config.trigger.type !== 'event') continue
       if (config.trigger.eventType !== event.type) continue
       if (event.meta?.automationOrigin === config.id) continue
-      if (!this.matchesFilters(config.trigger.filters ?? [], event)) continue
-      await this.executeAutomation(config, { triggerEvent: event })
+      if (isTimedAgentEventType(event.type)
+        && event.meta?.thresholdMinutes !== getAgentEventThresholdMinutes(config.trigger)) continue
+      const changedPaths = await this.changedPathsForFilters(config, event)
+      if (!matchesAutomationFilterGroups(getEventTriggerFilterGroups(config.trigger), event, changedPaths ?? [])) continue
+      // Not awaited: a prompt step waits for its agent to exit, which must not hold up
+      // the other automations listening for this event
+      void this.executeAutomation(config, { triggerEvent: event })
     }
   }
 
-  private matchesFilters(filters: AutomationFilter[], event: AutomationEvent): boolean {
-    return filters.every((filter) => {
-      switch (filter.field) {
-        case 'agentType':
-          return event.agentType === filter.value
-        case 'branch': {
-          const b = event.branch
-          if (!b) return false
-          return branchPatternToRegExp(filter.pattern).test(b)
-        }
-        case 'toolName':
-          return event.toolName === filter.value
-        case 'workspaceId':
-          return event.workspaceId === filter.value
-        default:
-          return true
-      }
-    })
+  /** Files changed in the event's workspace, or null when no `changedPath` filter needs them. */
+  private async changedPathsForFilters(config: AutomationConfigV2, event: AutomationEvent): Promise<string[] | null> {
+    if (config.trigger.type !== 'event') return null
+    if (!filterGroupsUseChangedPaths(getEventTriggerFilterGroups(config.trigger))) return null
+    const workspace = event.workspaceId
+      ? this.findWorkspace({ workspaceId: event.workspaceId })
+      : this.findWorkspace({ projectId: config.projectId, branch: event.branch })
+    if (!workspace) return []
+    try {
+      return await this.listChangedPaths(config.repoPath, workspace.worktreePath, event.prInfo?.baseRefName)
+    } catch (err) {
+      console.warn(`[automations] Could not list changed files for ${config.id}:`, err)
+      return []
+    }
   }
 
   private canRunNow(config: AutomationConfigV2, ignoreCooldown: boolean): boolean {
@@ -169,51 +466,224 @@ export class AutomationEngine {
     },
   ): Promise<void> {
     if (!options.ignoreEnabled && !config.enabled) return
+    if (this.inFlight.has(config.id)) {
+      console.warn(`[automations] ${config.id} is still running, skipping`)
+      return
+    }
     if (!this.canRunNow(config, options.ignoreCooldown ?? false)) return
 
+    const inFlightRun: InFlightRun = {
+      triggerEvent: options.triggerEvent,
+      stop: new AbortController(),
+      deadline: new AbortController(),
+      ptyIds: new Set(),
+    }
+    const deadlineTimer = config.maxDurationMs && config.maxDurationMs > 0
+      ? setTimeout(() => inFlightRun.deadline.abort('timeout' satisfies AutomationAbortReason), config.maxDurationMs)
+      : null
+    this.inFlight.set(config.id, inFlightRun)
+    this.broadcastActivity({ automationId: config.id, running: true })
+
+    const startedAt = Date.now()
+    let steps: AutomationStepResult[]
     try {
-      await this.executeAction(config, options.triggerEvent)
-      this.broadcastStatus({
-        automationId: config.id,
-        status: 'success',
-        timestamp: Date.now(),
-      })
+      steps = await this.executeAction(config, inFlightRun)
+    } finally {
+      if (deadlineTimer) clearTimeout(deadlineTimer)
+      this.inFlight.delete(config.id)
+      this.broadcastActivity({ automationId: config.id, running: false })
+    }
+    // The run reports the outcome of the last step that actually ran, so a failure
+    // handled by a `runIf: 'failed'` step resolves to that recovery step's result.
+    const lastExecuted = [...steps].reverse().find((step) => step.status !== 'skipped')
+    const status: AutomationRunStatus =
+      lastExecuted && lastExecuted.status !== 'skipped' ? lastExecuted.status : 'success'
+    const run: AutomationRunRecord = {
+      id: randomUUID(),
+      automationId: config.id,
+      automationName: config.name,
+      projectId: config.projectId,
+      status,
+      startedAt,
+      finishedAt: Date.now(),
+      message: status === 'success' ? undefined : lastExecuted?.message,
+      triggerEvent: options.triggerEvent,
+      worktreePath: steps.find((step) => step.outputs?.worktreePath)?.outputs?.worktreePath,
+      ptyId: steps.find((step) => step.outputs?.ptyId)?.outputs?.ptyId,
+      steps,
+    }
+    try {
+      await this.recordRun(config.repoPath, run, config.historyRetention)
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err)
-      console.error(`[automations] ${config.id} failed:`, err)
-      this.broadcastStatus({
-        automationId: config.id,
-        status: 'failed',
-        timestamp: Date.now(),
-        message,
+      console.error(`[automations] failed to record run history for ${config.id}:`, err)
+    }
+    this.broadcastStatus({
+      automationId: config.id,
+      status,
+      timestamp: run.finishedAt,
+      message: run.message,
+      steps,
+      runId: run.id,
+    })
+  }
+
+  private async executeAction(config: AutomationConfigV2, run: InFlightRun): Promise<AutomationStepResult[]> {
+    const results: AutomationStepResult[] = []
+    const eventContext = buildEventTemplateContext(run.triggerEvent)
+    let previousStatus: AutomationRunStatus | null = null
+    let deadlineHandled = false
+    for (const step of getAutomationSteps(config)) {
+      const startedAt = Date.now()
+      if (run.stop.signal.aborted || !stepConditionMet(step, previousStatus)) {
+        results.push({ stepId: step.id, actionType: step.action.type, status: 'skipped', startedAt, finishedAt: startedAt })
+        continue
+      }
+      // The deadline passed between steps: this step times out without running, so only
+      // steps that handle `timeout` (or `always`) run after it.
+      const timedOutBeforeStart = run.deadline.signal.aborted && !deadlineHandled
+      deadlineHandled = run.deadline.signal.aborted
+      const execution = timedOutBeforeStart
+        ? this.abortedExecution(config, run.deadline.signal)
+        : await this.executeStep(config, step.action, run, {
+          ...eventContext,
+          ...buildStepTemplateContext(results),
+        })
+      deadlineHandled = deadlineHandled || run.deadline.signal.aborted
+      if (execution.status !== 'success') {
+        console.error(`[automations] ${config.id} step ${step.id} ${execution.status}:`, execution.message)
+      }
+      results.push({
+        stepId: step.id,
+        actionType: step.action.type,
+        status: execution.status,
+        startedAt,
+        finishedAt: Date.now(),
+        message: execution.message,
+        outputs: execution.outputs,
       })
+      previousStatus = execution.status
     }
+    return results
   }
 
-  private async executeAction(config: AutomationConfigV2, triggerEvent: AutomationEvent | null): Promise<void> {
-    const action = config.action
-    switch (action.type) {
-      case 'run-prompt':
-        await this.executePromptRun(config, action.prompt)
-        return
-      case 'run-shell-command':
-        await this.execShellCommand(action.command, config.repoPath)
-        return
-      case 'send-notification':
-        this.showNotification(action.title, action.body)
-        return
-      case 'write-to-pty':
-        this.executeWriteToPty(action)
+  private async executeStep(
+    config: AutomationConfigV2,
+    action: AutomationAction,
+    run: InFlightRun,
+    context: AutomationTemplateContext,
+  ): Promise<StepExecution> {
+    const render = (template: string) => renderAutomationTemplate(template, context)
+    // Once the deadline has passed, recovery steps are only cancellable by stop().
+    const signal = run.deadline.signal.aborted
+      ? run.stop.signal
+      : AbortSignal.any([run.stop.signal, run.deadline.signal])
+    try {
+      switch (action.type) {
+        case 'run-prompt': {
+          const target = this.resolveTargetWorkspace(config, run.triggerEvent)
+          return await this.executePromptRun(config, { ...action, prompt: render(action.prompt) }, target, run, signal)
+        }
+        case 'run-shell-command': {
+          // Substituted values are quoted so event data (branch names, PR titles) can't inject shell syntax.
+          const command = renderAutomationTemplate(action.command, context, { escape: shellQuote })
+          const target = this.resolveTargetWorkspace(config, run.triggerEvent)
+          const result = await this.execShellCommand(command, target?.worktreePath ?? config.repoPath, signal)
+          const outputs: AutomationStepOutputs = {
+            exitCode: result?.exitCode ?? 0,
+            stdout: tailOutput(result?.stdout ?? ''),
+            stderr: tailOutput(result?.stderr ?? ''),
+          }
+          if (signal.aborted) return this.abortedExecution(config, signal, outputs)
+          if (outputs.exitCode === 0) return { status: 'success', outputs }
+          return { status: 'failed', message: `Command exited with code ${outputs.exitCode}`, outputs }
+        }
+        case 'send-notification':
+          this.showNotification(render(action.title), render(action.body))
+          return { status: 'success' }
+        case 'write-to-pty':
+          this.executeWriteToPty({ ...action, workspaceId: render(action.workspaceId), input: render(action.input) }, run.triggerEvent)
+          return { status: 'success' }
+        default: {
+          const exhaustiveCheck: never = action
+          throw new Error(`Unsupported automation action: ${JSON.stringify(exhaustiveCheck)}`)
+        }
+      }
+    } catch (err) {
+      if (signal.aborted) return this.abortedExecution(config, signal)
+      return { status: 'failed', message: err instanceof Error ? err.message : String(err) }
+    }
+  }
+
+  private abortedExecution(config: AutomationConfigV2, signal: AbortSignal, outputs?: AutomationStepOutputs): StepExecution {
+    const reason = signal.reason as AutomationAbortReason
+    if (reason === 'timeout') {
+      return { status: 'timeout', message: `Timed out after ${formatDuration(config.maxDurationMs ?? 0)}`, outputs }
+    }
+    return { status: 'failed', message: 'Stopped by user', outputs }
+  }
+
+  /** Resolves with the PTY's exit code, or null if `signal` aborts first (the PTY is then killed). */
+  private waitForPtyExit(ptyId: string, signal: AbortSignal): Promise<number | null> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        this.ptyManager.destroy(ptyId)
+        resolve(null)
+      }
+      if (signal.aborted) {
+        onAbort()
         return
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+      this.ptyManager.onExit(ptyId, (exitCode) => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(exitCode)
+      })
+    })
+  }
+
+  /** Returns null for `new-worktree` runs; throws when the configured workspace can't be found. */
+  private resolveTargetWorkspace(
+    config: AutomationConfigV2,
+    triggerEvent: AutomationEvent | null,
+  ): AutomationTargetWorkspace | null {
+    const runTarget: AutomationRunTarget = config.runTarget ?? { type: 'new-worktree' }
+    switch (runTarget.type) {
+      case 'new-worktree':
+        return null
+      case 'workspace': {
+        const workspace = this.findWorkspace({ workspaceId: runTarget.workspaceId })
+        if (!workspace) throw new Error(`Workspace ${runTarget.workspaceId} no longer exists`)
+        return workspace
+      }
+      case 'trigger-workspace': {
+        if (!triggerEvent) throw new Error('Run has no triggering workspace')
+        const workspace = triggerEvent.workspaceId
+          ? this.findWorkspace({ workspaceId: triggerEvent.workspaceId })
+          : this.findWorkspace({ projectId: config.projectId, branch: triggerEvent.branch })
+        if (!workspace) {
+          throw new Error(`No workspace found for ${triggerEvent.workspaceId ?? triggerEvent.branch ?? triggerEvent.type}`)
+        }
+        return workspace
+      }
       default: {
-        const exhaustiveCheck: never = action
-        throw new Error(`Unsupported automation action: ${JSON.stringify(exhaustiveCheck)}`)
+        const exhaustiveCheck: never = runTarget
+        throw new Error(`Unsupported automation run target: ${JSON.stringify(exhaustiveCheck)}`)
       }
     }
   }
 
-  private executeWriteToPty(action: Extract<AutomationAction, { type: 'write-to-pty' }>): void {
-    const ptyIds = this.ptyManager.getPtyIdsForWorkspace(action.workspaceId)
+  /**
+   * Writes to the workspace's newest terminal. When the trigger came from an agent in that same
+   * workspace (e.g. `agent:idle`), that agent's terminal wins so the nudge lands in the right tab.
+   */
+  private executeWriteToPty(
+    action: Extract<AutomationAction, { type: 'write-to-pty' }>,
+    triggerEvent: AutomationEvent | null,
+  ): void {
+    const agentPtyIds = triggerEvent?.agentType && triggerEvent.workspaceId === action.workspaceId
+      ? this.ptyManager.getPtyIdsForWorkspace(action.workspaceId, triggerEvent.agentType)
+      : []
+    const ptyIds = agentPtyIds.length > 0 ? agentPtyIds : this.ptyManager.getPtyIdsForWorkspace(action.workspaceId)
     const targetPtyId = ptyIds[ptyIds.length - 1]
     if (!targetPtyId) {
       throw new Error(`No live PTY found for workspace ${action.workspaceId}`)
@@ -221,39 +691,50 @@ export class AutomationEngine {
     this.ptyManager.write(targetPtyId, action.input)
   }
 
-  private async executePromptRun(config: AutomationConfigV2, prompt: string): Promise<void> {
+  private async executePromptRun(
+    config: AutomationConfigV2,
+    action: RunPromptAction,
+    target: AutomationTargetWorkspace | null,
+    run: InFlightRun,
+    signal: AbortSignal,
+  ): Promise<StepExecution> {
+    const agentType = action.agentType ?? 'claude-code'
+    if (agentType === 'pi-constell') {
+      if (action.flags?.trim()) {
+        return { status: 'failed', message: 'Pi runs headless and takes no extra flags; remove them from this step' }
+      }
+      // Pi runs tool-less in print mode, so it never needs a worktree of its own; its reply
+      // becomes the step's stdout for later steps (e.g. a notification with {{prev.stdout}}).
+      const cwd = target?.worktreePath ?? config.repoPath
+      const stdout = await this.runPiPrompt(action.prompt, { model: action.model?.trim() || undefined, cwd, signal })
+      return { status: 'success', outputs: { worktreePath: cwd, branch: target?.branch, stdout: tailOutput(stdout) } }
+    }
+
     const win = this.getWindows()[0]
     if (!win) {
       throw new Error('No browser window available')
     }
 
-    const sanitized = config.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
-      .slice(0, 30)
-    const now = new Date()
-    const pad = (n: number) => String(n).padStart(2, '0')
-    const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
-
-    const branch = `auto/${sanitized}/${timestamp}`
-    const wtName = `auto-${sanitized}-${timestamp}`
-    const worktreePath = await GitService.createWorktree(config.repoPath, wtName, branch, true)
+    const { worktreePath, branch } = target ?? await this.createAutomationWorktree(config)
 
     try {
-      await trustPathForClaude(worktreePath)
+      await AGENT_TRUST_SETUP[agentType]?.(worktreePath)
     } catch {
       // Best-effort trust for fresh automation worktrees.
     }
 
     const shell = process.env.SHELL || '/bin/zsh'
-    const escapedPrompt = prompt.replace(/'/g, "'\\''")
+    const { command } = buildAdHocAgentCommand(agentType, action.model ?? null, action.prompt, action.flags)
     const ptyId = this.ptyManager.create(
       worktreePath,
       win.webContents,
       shell,
       undefined,
-      `claude '${escapedPrompt}'\r`,
+      `${command}\r`,
+      {
+        ...(target ? { AGENT_ORCH_WS_ID: target.id } : {}),
+        AGENT_ORCH_AGENT_TYPE: agentType,
+      },
     )
 
     const event: AutomationRunStartedEvent = {
@@ -263,10 +744,47 @@ export class AutomationEngine {
       ptyId,
       worktreePath,
       branch,
+      workspaceId: target?.id,
+      agentType,
     }
     if (!win.isDestroyed()) {
       win.webContents.send(IPC.AUTOMATION_RUN_STARTED, event)
     }
+    const outputs: AutomationStepOutputs = { worktreePath, branch, ptyId }
+    // Without a max duration the agent session is handed to the user once it launches.
+    if (!config.maxDurationMs) return { status: 'success', outputs }
+
+    run.ptyIds.add(ptyId)
+    const exitCode = await this.waitForPtyExit(ptyId, signal)
+    run.ptyIds.delete(ptyId)
+    if (exitCode === null) return this.abortedExecution(config, signal, outputs)
+    outputs.exitCode = exitCode
+    if (exitCode === 0) return { status: 'success', outputs }
+    return { status: 'failed', message: `Agent exited with code ${exitCode}`, outputs }
+  }
+
+  private async createAutomationWorktree(config: AutomationConfigV2): Promise<{ worktreePath: string; branch: string }> {
+    const sanitized = config.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 30)
+    const now = new Date()
+    const pad = (n: number) => String(n).padStart(2, '0')
+    const timestamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+
+    const branch = `auto/${sanitized}/${timestamp}`
+    const wtName = `auto-${sanitized}-${timestamp}`
+    const worktreePath = await GitService.createWorktree(config.repoPath, wtName, branch, true)
+    return { worktreePath, branch }
+  }
+
+  private broadcastActivity(event: AutomationRunActivityEvent): void {
+    for (const win of this.getWindows()) {
+      if (!win.isDestroyed()) {
+        win.webContents.send(IPC.AUTOMATION_RUN_ACTIVITY, event)
+      }
+    }
   }
 
   private broadcastStatus(event: AutomationStatusEvent): void {
@@ -0,0 +1,41 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import {
+  AUTOMATIONS_FILE_PATH,
+  parseAutomationsFile,
+  serializeAutomationsFile,
+  type ProjectAutomationsFileReadResult,
+} from '../shared/automation-file'
+import type { AutomationConfigLike } from '../shared/automation-types'
+
+function projectAutomationsFilePath(repoPath: string): string {
+  return join(repoPath, AUTOMATIONS_FILE_PATH)
+}
+
+/** Returns null when the repo has no automations file. */
+export async function readProjectAutomationsFile(repoPath: string): Promise<ProjectAutomationsFileReadResult | null> {
+  const filePath = projectAutomationsFilePath(repoPath)
+  let raw: string
+  try {
+    raw = await readFile(filePath, 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (err) {
+    return { filePath, automations: [], errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`] }
+  }
+  return { filePath, ...parseAutomationsFile(parsed) }
+}
+
+export async function writeProjectAutomationsFile(repoPath: string, configs: AutomationConfigLike[]): Promise<string> {
+  const filePath = projectAutomationsFilePath(repoPath)
+  await mkdir(dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.tmp`
+  await writeFile(tmpPath, serializeAutomationsFile(configs), 'utf-8')
+  await rename(tmpPath, filePath)
+  return filePath
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { execFile } from 'child_process'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { promisify } from 'util'
+import { AutomationRunStore } from './automation-run-store'
+import type { AutomationRunRecord } from '../shared/automation-types'
+
+const execFileAsync = promisify(execFile)
+
+let repoPath: string
+
+function makeRun(id: string, startedAt: number, overrides: Partial<AutomationRunRecord> = {}): AutomationRunRecord {
+  return {
+    id,
+    automationId: 'auto-1',
+    automationName: 'Nightly',
+    projectId: 'project-1',
+    status: 'success',
+    startedAt,
+    finishedAt: startedAt + 5,
+    triggerEvent: null,
+    steps: [],
+    ...overrides,
+  }
+}
+
+beforeEach(async () => {
+  repoPath = mkdtempSync(join(tmpdir(), 'constellagent-run-store-test-'))
+  await execFileAsync('git', ['init', '-q'], { cwd: repoPath })
+})
+
+afterEach(() => {
+  AutomationRunStore.cleanupAll()
+  rmSync(repoPath, { recursive: true, force: true })
+})
+
+describe('AutomationRunStore', () => {
+  it('pages newest-first and filters by status', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await AutomationRunStore.record(repoPath, makeRun(`run-${i}`, i * 1000, { status: i % 2 === 0 ? 'failed' : 'success' }))
+    }
+
+    const first = await AutomationRunStore.list(repoPath, 'project-1', { limit: 2 })
+    expect(first.runs.map((run) => run.id)).toEqual(['run-5', 'run-4'])
+    const second = await AutomationRunStore.list(repoPath, 'project-1', { limit: 2, before: first.nextBefore })
+    expect(second.runs.map((run) => run.id)).toEqual(['run-3', 'run-2'])
+
+    const failed = await AutomationRunStore.list(repoPath, 'project-1', { status: 'failed' })
+    expect(failed.runs.map((run) => run.id)).toEqual(['run-4', 'run-2'])
+    expect(failed.nextBefore).toBeUndefined()
+  })
+
+  it('pages through runs that share a start time without skipping any', async () => {
+    for (const id of ['run-a', 'run-b', 'run-c']) {
+      await AutomationRunStore.record(repoPath, makeRun(id, 1000))
+    }
+    await AutomationRunStore.record(repoPath, makeRun('run-old', 500))
+
+    const first = await AutomationRunStore.list(repoPath, 'project-1', { limit: 2 })
+    expect(first.runs.map((run) => run.id)).toEqual(['run-c', 'run-b'])
+    expect(first.nextBefore).toEqual({ startedAt: 1000, id: 'run-b' })
+    const second = await AutomationRunStore.list(repoPath, 'project-1', { limit: 2, before: first.nextBefore })
+    expect(second.runs.map((run) => run.id)).toEqual(['run-a', 'run-old'])
+    expect(second.nextBefore).toBeUndefined()
+  })
+
+  it('clears the history of one automation', async () => {
+    await AutomationRunStore.record(repoPath, makeRun('run-1', 1000))
+    await AutomationRunStore.record(repoPath, makeRun('other', 2000, { automationId: 'auto-2' }))
+
+    await AutomationRunStore.clear(repoPath, 'auto-1')
+    const page = await AutomationRunStore.list(repoPath, 'project-1')
+    expect(page.runs.map((run) => run.id)).toEqual(['other'])
+  })
+
+  it('keeps only the newest runs within the retention limit', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await AutomationRunStore.record(repoPath, makeRun(`run-${i}`, i * 1000), 2)
+    }
+    await AutomationRunStore.record(repoPath, makeRun('other', 500, { automationId: 'auto-2' }), 2)
+
+    const page = await AutomationRunStore.list(repoPath, 'project-1')
+    expect(page.runs.map((run) => run.id)).toEqual(['run-4', 'run-3', 'other'])
+  })
+
+  it('round-trips trigger events and step output', async () => {
+    await AutomationRunStore.record(repoPath, makeRun('run-1', 1000, {
+      status: 'failed',
+      message: 'Command exited with code 1',
+      triggerEvent: { type: 'pr:checks-failed', timestamp: 900, branch: 'feature/x' },
+      steps: [{ stepId: 'step-1', actionType: 'run-shell-command', status: 'failed', startedAt: 1000, finishedAt: 1005, outputs: { exitCode: 1, stdout: 'boom' } }],
+    }))
+
+    const [run] = (await AutomationRunStore.list(repoPath, 'project-1', { automationId: 'auto-1' })).runs
+    expect(run.triggerEvent?.branch).toBe('feature/x')
+    expect(run.steps[0].outputs?.stdout).toBe('boom')
+    expect(run.message).toBe('Command exited with code 1')
+  })
+})
@@ -0,0 +1,166 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { realpathSync } from 'fs'
+import { join, resolve } from 'path'
+import type { Client, InValue, Row } from '@libsql/client'
+import type {
+  AutomationRunHistoryPage,
+  AutomationRunHistoryQuery,
+  AutomationRunRecord,
+} from '../shared/automation-types'
+import {
+  AUTOMATION_RUN_HISTORY_PAGE_SIZE,
+  DEFAULT_AUTOMATION_RUN_RETENTION,
+} from '../shared/automation-types'
+
+const execFileAsync = promisify(execFile)
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS automation_runs (
+  id TEXT PRIMARY KEY,
+  automation_id TEXT NOT NULL,
+  automation_name TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER NOT NULL,
+  message TEXT,
+  trigger_event TEXT,
+  worktree_path TEXT,
+  pty_id TEXT,
+  steps TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_automation_runs_automation ON automation_runs(automation_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_automation_runs_project ON automation_runs(project_id, started_at);
+`
+
+const dbHandles = new Map<string, Client>()
+
+async function gitCommonDir(repoPath: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--git-common-dir'], { cwd: repoPath })
+  return realpathSync(resolve(repoPath, stdout.trim()))
+}
+
+/** One database per repository, shared by all of its worktrees (next to review-annotations.db). */
+async function getDb(repoPath: string): Promise<Client> {
+  const commonDir = await gitCommonDir(repoPath)
+  const existing = dbHandles.get(commonDir)
+  if (existing) return existing
+
+  const { createClient } = await import('@libsql/client')
+  const client = createClient({ url: `file:${join(commonDir, 'automation-runs.db')}` })
+  await client.executeMultiple(SCHEMA_SQL)
+  dbHandles.set(commonDir, client)
+  return client
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+function rowToRecord(row: Row): AutomationRunRecord {
+  return {
+    id: String(row.id),
+    automationId: String(row.automation_id),
+    automationName: String(row.automation_name),
+    projectId: String(row.project_id),
+    status: String(row.status) as AutomationRunRecord['status'],
+    startedAt: Number(row.started_at),
+    finishedAt: Number(row.finished_at),
+    message: row.message == null ? undefined : String(row.message),
+    triggerEvent: parseJson(row.trigger_event, null),
+    worktreePath: row.worktree_path == null ? undefined : String(row.worktree_path),
+    ptyId: row.pty_id == null ? undefined : String(row.pty_id),
+    steps: parseJson(row.steps, []),
+  }
+}
+
+export const AutomationRunStore = {
+  /** Insert a finished run, then drop the automation's oldest runs beyond `retention`. */
+  async record(
+    repoPath: string,
+    run: AutomationRunRecord,
+    retention = DEFAULT_AUTOMATION_RUN_RETENTION,
+  ): Promise<void> {
+    const db = await getDb(repoPath)
+    await db.execute({
+      sql: `INSERT OR REPLACE INTO automation_runs
+        (id, automation_id, automation_name, project_id, status, started_at, finished_at,
+         message, trigger_event, worktree_path, pty_id, steps)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        run.id,
+        run.automationId,
+        run.automationName,
+        run.projectId,
+        run.status,
+        run.startedAt,
+        run.finishedAt,
+        run.message ?? null,
+        run.triggerEvent ? JSON.stringify(run.triggerEvent) : null,
+        run.worktreePath ?? null,
+        run.ptyId ?? null,
+        JSON.stringify(run.steps),
+      ],
+    })
+    await db.execute({
+      sql: `DELETE FROM automation_runs WHERE automation_id = ? AND id NOT IN (
+        SELECT id FROM automation_runs WHERE automation_id = ? ORDER BY started_at DESC, id DESC LIMIT ?
+      )`,
+      args: [run.automationId, run.automationId, Math.max(1, Math.floor(retention))],
+    })
+  },
+
+  /** Newest-first page of runs for a project, optionally narrowed to one automation or status. */
+  async list(
+    repoPath: string,
+    projectId: string,
+    query: AutomationRunHistoryQuery = {},
+  ): Promise<AutomationRunHistoryPage> {
+    const db = await getDb(repoPath)
+    const limit = Math.max(1, Math.min(query.limit ?? AUTOMATION_RUN_HISTORY_PAGE_SIZE, 500))
+    const where = ['project_id = ?']
+    const args: InValue[] = [projectId]
+    if (query.automationId) {
+      where.push('automation_id = ?')
+      args.push(query.automationId)
+    }
+    if (query.status) {
+      where.push('status = ?')
+      args.push(query.status)
+    }
+    if (query.before != null) {
+      where.push('(started_at < ? OR (started_at = ? AND id < ?))')
+      args.push(query.before.startedAt, query.before.startedAt, query.before.id)
+    }
+    // Fetch one extra row to learn whether another page exists.
+    const result = await db.execute({
+      sql: `SELECT * FROM automation_runs WHERE ${where.join(' AND ')} ORDER BY started_at DESC, id DESC LIMIT ?`,
+      args: [...args, limit + 1],
+    })
+    const runs = result.rows.slice(0, limit).map(rowToRecord)
+    const last = runs[runs.length - 1]
+    return {
+      runs,
+      nextBefore: result.rows.length > limit && last ? { startedAt: last.startedAt, id: last.id } : undefined,
+    }
+  },
+
+  /** Remove all stored runs for an automation (e.g. when it is deleted). */
+  async clear(repoPath: string, automationId: string): Promise<void> {
+    const db = await getDb(repoPath)
+    await db.execute({ sql: 'DELETE FROM automation_runs WHERE automation_id = ?', args: [automationId] })
+  },
+
+  cleanupAll(): void {
+    for (const [, client] of dbHandles) {
+      client.close()
+    }
+    dbHandles.clear()
+  },
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import {
+  AUTOMATION_WEBHOOK_SIGNATURE_HEADER,
+  AutomationWebhookServer,
+  signWebhookBody,
+  verifyWebhookRequest,
+  type AutomationWebhookRequest,
+} from './automation-webhook-server'
+
+describe('verifyWebhookRequest', () => {
+  const rawBody = '{"ref":"main"}'
+
+  it('accepts a matching bearer token or HMAC signature', () => {
+    expect(verifyWebhookRequest('s3cret', { headers: { authorization: 'Bearer s3cret' }, rawBody })).toBe(true)
+    expect(verifyWebhookRequest('s3cret', {
+      headers: { [AUTOMATION_WEBHOOK_SIGNATURE_HEADER]: signWebhookBody('s3cret', rawBody) },
+      rawBody,
+    })).toBe(true)
+    expect(verifyWebhookRequest('s3cret', { headers: { authorization: 'Bearer nope' }, rawBody })).toBe(false)
+  })
+
+  it('rejects a signature over a different body and bearer tokens when signatures are required', () => {
+    expect(verifyWebhookRequest('s3cret', {
+      headers: { [AUTOMATION_WEBHOOK_SIGNATURE_HEADER]: signWebhookBody('s3cret', '{}') },
+      rawBody,
+    })).toBe(false)
+    expect(verifyWebhookRequest('s3cret', { headers: { authorization: 'Bearer s3cret' }, rawBody }, true)).toBe(false)
+  })
+
+  it('rejects every request when no secret is set', () => {
+    expect(verifyWebhookRequest('', { headers: { authorization: 'Bearer ' }, rawBody })).toBe(false)
+    expect(verifyWebhookRequest('', {
+      headers: { [AUTOMATION_WEBHOOK_SIGNATURE_HEADER]: signWebhookBody('', rawBody) },
+      rawBody,
+    })).toBe(false)
+  })
+})
+
+describe('AutomationWebhookServer', () => {
+  let server: AutomationWebhookServer | null = null
+
+  afterEach(() => {
+    server?.stop()
+    server = null
+  })
+
+  it('routes JSON posts to the handler and rejects other requests', async () => {
+    const received: AutomationWebhookRequest[] = []
+    server = new AutomationWebhookServer((request) => {
+      received.push(request)
+      return { status: 202, body: { accepted: true } }
+    })
+    const port = await server.start(0)
+    const url = `http://127.0.0.1:${port}/automations/auto%201`
+
+    const accepted = await fetch(url, { method: 'POST', body: '{"branch":"main"}' })
+    expect(accepted.status).toBe(202)
+    expect(received[0]?.automationId).toBe('auto 1')
+    expect(received[0]?.payload).toEqual({ branch: 'main' })
+
+    expect((await fetch(url, { method: 'POST', body: 'not json' })).status).toBe(400)
+    expect((await fetch(url)).status).toBe(405)
+    expect((await fetch(`http://127.0.0.1:${port}/other`, { method: 'POST' })).status).toBe(404)
+    expect((await fetch(`http://127.0.0.1:${port}/automations/%E0%A4%A`, { method: 'POST', body: '{}' })).status).toBe(400)
+    expect(received).toHaveLength(1)
+  })
+})
@@ -0,0 +1,168 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type Server, type ServerResponse } from 'http'
+
+export const AUTOMATION_WEBHOOK_SIGNATURE_HEADER = 'x-constellagent-signature-256'
+
+const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024
+const WEBHOOK_PATH_RE = /^\/automations\/([^/?#]+)\/?(?:\?.*)?$/
+
+export interface AutomationWebhookRequest {
+  automationId: string
+  headers: IncomingHttpHeaders
+  rawBody: string
+  payload: unknown
+}
+
+export interface AutomationWebhookResponse {
+  status: number
+  body: Record<string, unknown>
+}
+
+type AutomationWebhookHandler = (request: AutomationWebhookRequest) => AutomationWebhookResponse
+
+export function signWebhookBody(secret: string, rawBody: string): string {
+  return `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Accept a valid HMAC signature, or a bearer token unless `requireSignature` is set. Fails
+ * closed without a secret (e.g. an automation loaded from the shared file), since anyone can
+ * sign with an empty key.
+ */
+export function verifyWebhookRequest(
+  secret: string,
+  request: Pick<AutomationWebhookRequest, 'headers' | 'rawBody'>,
+  requireSignature = false,
+): boolean {
+  if (!secret) return false
+  const signature = request.headers[AUTOMATION_WEBHOOK_SIGNATURE_HEADER]
+  if (typeof signature === 'string') {
+    return safeEqual(signature, signWebhookBody(secret, request.rawBody))
+  }
+  if (requireSignature) return false
+  const authorization = request.headers.authorization
+  if (!authorization?.startsWith('Bearer ')) return false
+  return safeEqual(authorization.slice('Bearer '.length).trim(), secret)
+}
+
+function respond(res: ServerResponse, response: AutomationWebhookResponse): void {
+  res.writeHead(response.status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(response.body))
+}
+
+/**
+ * Loopback-only HTTP listener for `webhook` automation triggers. Authentication is left to the
+ * handler because secrets live on the automation configs.
+ */
+export class AutomationWebhookServer {
+  private server: Server | null = null
+  private starting: Promise<number> | null = null
+  private port = 0
+
+  constructor(private readonly handler: AutomationWebhookHandler) {}
+
+  /** Listens on `preferredPort`, falling back to a random port when it is taken. */
+  start(preferredPort: number): Promise<number> {
+    if (this.server) return Promise.resolve(this.port)
+    if (!this.starting) {
+      this.starting = this.listen(preferredPort)
+        .catch((err: NodeJS.ErrnoException) => {
+          if (err.code !== 'EADDRINUSE' || preferredPort === 0) throw err
+          console.warn(`[automations] Webhook port ${preferredPort} is in use, using a random port`)
+          return this.listen(0)
+        })
+        .finally(() => {
+          this.starting = null
+        })
+    }
+    return this.starting
+  }
+
+  getPort(): number | null {
+    return this.server ? this.port : null
+  }
+
+  stop(): void {
+    this.server?.close()
+    this.server = null
+    this.port = 0
+  }
+
+  private listen(port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => this.handleRequest(req, res))
+      server.once('error', reject)
+      server.listen(port, '127.0.0.1', () => {
+        const addr = server.address()
+        if (!addr || typeof addr !== 'object') {
+          reject(new Error('Failed to get webhook server address'))
+          return
+        }
+        this.server = server
+        this.port = addr.port
+        console.info(`[automations] Webhook listener on http://127.0.0.1:${this.port}`)
+        resolve(this.port)
+      })
+    })
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    const match = WEBHOOK_PATH_RE.exec(req.url ?? '')
+    if (!match) {
+      respond(res, { status: 404, body: { error: 'Not found' } })
+      return
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST')
+      respond(res, { status: 405, body: { error: 'Use POST' } })
+      return
+    }
+    let automationId: string
+    try {
+      automationId = decodeURIComponent(match[1])
+    } catch {
+      respond(res, { status: 400, body: { error: 'Malformed automation id' } })
+      return
+    }
+
+    const chunks: Buffer[] = []
+    let size = 0
+    let tooLarge = false
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_WEBHOOK_BODY_BYTES) {
+        tooLarge = true
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => {
+      if (tooLarge) {
+        respond(res, { status: 413, body: { error: 'Payload too large' } })
+        return
+      }
+      const rawBody = Buffer.concat(chunks).toString('utf8')
+      let payload: unknown = {}
+      if (rawBody.trim()) {
+        try {
+          payload = JSON.parse(rawBody)
+        } catch {
+          respond(res, { status: 400, body: { error: 'Body must be JSON' } })
+          return
+        }
+      }
+      respond(res, this.handler({
+        automationId,
+        headers: req.headers,
+        rawBody,
+        payload,
+      }))
+    })
+  }
+}
@@ -17,3 +17,16 @@ export async function saveCodexConfigText(contents: string): Promise<void> {
   await mkdir(CODEX_DIR, { recursive: true })
   await writeFile(CODEX_CONFIG_PATH, contents, 'utf-8')
 }
+
+function tomlQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/** Mark `dirPath` as trusted so `codex` skips its directory trust prompt. */
+export async function trustPathForCodex(dirPath: string): Promise<void> {
+  const text = await loadCodexConfigText()
+  const header = `[projects.${tomlQuote(dirPath)}]`
+  if (text.includes(header)) return
+  const separator = text.length === 0 || text.endsWith('\n') ? '' : '\n'
+  await saveCodexConfigText(`${text}${separator}\n${header}\ntrust_level = "trusted"\n`)
+}
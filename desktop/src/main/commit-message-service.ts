@@ -1,5 +1,10 @@
 import type { ExecFileException } from 'child_process'
-import { buildCommitMessageSnapshot, type CommitMessageSnapshot } from './git-snapshot'
+import {
+  buildCommitMessageSnapshot,
+  buildPrDescriptionSnapshot,
+  type CommitMessageSnapshot,
+  type PrDescriptionSnapshot,
+} from './git-snapshot'
 import { runPiPrompt } from './pi-run-prompt'
 
 const CONVENTIONAL_COMMIT_RE = /^[a-z]+(?:\([^)]+\))?(?:!)?:\s+.+$/i
@@ -25,6 +30,24 @@ Focus on the main intent of the change rather than listing every file.
 ${sections}`
 }
 
+function buildPrDescriptionPrompt(snapshot: PrDescriptionSnapshot): string {
+  const sections = [
+    [`Commits ahead of ${snapshot.baseRef}`, snapshot.commits],
+    [`Diff summary against ${snapshot.baseRef}`, snapshot.diffSummary],
+  ]
+    .filter(([, body]) => body.trim().length > 0)
+    .map(([title, body]) => `## ${title}\n${body}`)
+    .join('\n\n')
+
+  return `You are writing a GitHub pull request title and description from repository context that has already been collected for you.
+
+Do not inspect the repository. Do not request tools. Use only the snapshot below.
+The first line of your answer is the PR title: one short sentence, no prefix, no trailing period.
+Leave one blank line, then write the description in Markdown: a short summary paragraph followed by a bullet list of the notable changes.
+
+${sections}`
+}
+
 function extractExecErrorLine(err: unknown): string {
   const stderr =
     typeof err === 'object' && err !== null && 'stderr' in err
@@ -109,6 +132,12 @@ function normalizeCommitMessage(stdout: string): string {
   return lines[0] ?? ''
 }
 
+function parsePrDescription(stdout: string): { title: string; body: string } {
+  const [first = '', ...rest] = unwrapFence(stdout).split(/\r?\n/)
+  const title = cleanCandidate(first.replace(/^#+\s*/, '').replace(/^title:\s*/i, ''))
+  return { title, body: rest.join('\n').trim() }
+}
+
 export class CommitMessageService {
   static async generateWithPi(worktreePath: string): Promise<string> {
     const snapshot = await buildCommitMessageSnapshot(worktreePath)
@@ -124,4 +153,22 @@ export class CommitMessageService {
       throw new Error(err instanceof Error ? err.message : formatPiError(err))
     }
   }
+
+  static async generatePrDescriptionWithPi(
+    worktreePath: string,
+    baseBranch: string,
+  ): Promise<{ title: string; body: string }> {
+    const snapshot = await buildPrDescriptionSnapshot(worktreePath, baseBranch)
+
+    try {
+      const stdout = await runPiPrompt(buildPrDescriptionPrompt(snapshot))
+      const description = parsePrDescription(stdout)
+      if (!description.title) {
+        throw new Error('Pi did not return a pull request description.')
+      }
+      return description
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : formatPiError(err))
+    }
+  }
 }
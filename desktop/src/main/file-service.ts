@@ -1,4 +1,5 @@
-import { readdir, readFile as fsReadFile, writeFile as fsWriteFile, stat, rm, copyFile, mkdir, realpath } from 'fs/promises'
+import { readdir, readFile as fsReadFile, writeFile as fsWriteFile, stat, rm, copyFile, mkdir, realpath, rename, chmod } from 'fs/promises'
+import { createHash } from 'crypto'
 import { homedir } from 'os'
 import { join, basename, relative, dirname } from 'path'
 import { execFile } from 'child_process'
@@ -11,7 +12,18 @@ import {
   isAgentPlanPath,
   relativePathInWorktree,
 } from '../shared/agent-plan-path'
-import type { CodeSearchItem, CodeSearchRequest, CodeSearchResult } from '../shared/code-search-types'
+import {
+  MAX_CODE_REPLACE_MATCHES,
+  type CodeReplaceApplyRequest,
+  type CodeReplaceApplyResult,
+  type CodeReplaceFile,
+  type CodeReplacePreview,
+  type CodeReplaceRequest,
+  type CodeSearchItem,
+  type CodeSearchRequest,
+  type CodeSearchResult,
+} from '../shared/code-search-types'
+import { applyReplaceEdits, createCodeReplaceRegExp, findReplaceMatches, matchLineTexts } from '../shared/code-replace'
 import {
   buildCodeSearchPreview,
   isDeveloperCodeSearchPath,
@@ -60,6 +72,10 @@ function normalizeRootPath(pathValue: string): string {
   return pathValue.replace(/[\\/]+$/, '') || pathValue
 }
 
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex')
+}
+
 function quickOpenScoreTotal(score: { total?: number } | undefined): number {
   return score?.total ?? 0
 }
@@ -518,6 +534,14 @@ export class FileService {
     return created
   }
 
+  /** Tracked and untracked (non-ignored) source files, as searched by workspace code search. */
+  static async listDeveloperFiles(worktreePath: string): Promise<Array<{ path: string; relativePath: string }>> {
+    const files = await this.getCodeSearchFallbackFiles(worktreePath)
+    return files
+      .filter((file) => isDeveloperCodeSearchPath(file.relativePath))
+      .map(({ path, relativePath }) => ({ path, relativePath }))
+  }
+
   private static async resolveCodeSearchScopeFiles(
     worktreePath: string,
     scope: CodeSearchRequest['scope'],
@@ -900,6 +924,130 @@ export class FileService {
     }
   }
 
+  /** Text of a file worth replacing in: within the size cap and not binary; null otherwise. */
+  private static async readReplaceCandidate(filePath: string, maxFileSizeBytes: number): Promise<string | null> {
+    try {
+      const info = await stat(filePath)
+      if (!info.isFile() || info.size > maxFileSizeBytes) return null
+      const content = await fsReadFile(filePath, 'utf-8')
+      return content.includes('\0') ? null : content
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Every match of a replace in the scope, with its expanded replacement. Files in
+   * `openBuffers` are matched against that unsaved text instead of the disk.
+   */
+  static async replacePreview(worktreePath: string, request: CodeReplaceRequest): Promise<CodeReplacePreview> {
+    const normalizedPath = normalizeRootPath(worktreePath)
+    const preparedRequest = prepareCodeSearchRequest(request)
+    const empty: CodeReplacePreview = { state: 'ready', files: [], totalMatches: 0, truncated: false }
+    if (!preparedRequest.query.trim()) return empty
+
+    let regex: RegExp
+    try {
+      regex = createCodeReplaceRegExp(preparedRequest.query, preparedRequest.mode)
+    } catch (error) {
+      return { ...empty, state: 'error', error: error instanceof Error ? error.message : 'Invalid regular expression' }
+    }
+
+    const buffers = new Map((request.openBuffers ?? []).map((buffer) => [buffer.path, buffer.content]))
+    const scope = await this.resolveCodeSearchScopeFiles(normalizedPath, preparedRequest.scope)
+    const files: CodeReplaceFile[] = []
+    let totalMatches = 0
+    for (const file of scope.files) {
+      if (totalMatches >= MAX_CODE_REPLACE_MATCHES) break
+      const buffered = buffers.get(file.path)
+      const content = buffered ?? await this.readReplaceCandidate(file.path, preparedRequest.maxFileSizeBytes)
+      if (content === null) continue
+      const matches = findReplaceMatches(
+        content,
+        regex,
+        request.replacement,
+        preparedRequest.mode,
+        MAX_CODE_REPLACE_MATCHES - totalMatches,
+      )
+      if (matches.length === 0) continue
+      totalMatches += matches.length
+      files.push({
+        path: file.path,
+        relativePath: file.relativePath,
+        contentHash: hashText(content),
+        fromBuffer: buffered !== undefined,
+        matches,
+        lineTexts: matchLineTexts(content, matches),
+      })
+    }
+
+    return { state: 'ready', files, totalMatches, truncated: totalMatches >= MAX_CODE_REPLACE_MATCHES }
+  }
+
+  /**
+   * Writes a previewed replace all-or-nothing: every file is checked against the hash it
+   * was previewed with and staged next to itself before any is swapped in, and a failed
+   * swap restores the files already replaced.
+   */
+  static async applyReplacements(worktreePath: string, request: CodeReplaceApplyRequest): Promise<CodeReplaceApplyResult> {
+    const normalizedPath = normalizeRootPath(worktreePath)
+    const realRoot = await realpath(normalizedPath).catch(() => normalizedPath)
+    const planned = await Promise.all(request.files.map(async (file) => {
+      if (!relativePathInWorktree(normalizedPath, file.path)) {
+        throw new Error(`${file.path} is outside the workspace`)
+      }
+      const before = await fsReadFile(file.path, 'utf-8')
+      if (hashText(before) !== file.contentHash) {
+        throw new Error(`${basename(file.path)} changed since the preview; search again`)
+      }
+      const { mode } = await stat(file.path)
+      // Stage next to the real file and rename over it, so a symlink keeps pointing at it.
+      const target = await realpath(file.path)
+      if (!relativePathInWorktree(realRoot, target)) {
+        throw new Error(`${file.path} links outside the workspace`)
+      }
+      return { path: file.path, target, before, after: applyReplaceEdits(before, file.edits), mode, tmpPath: `${target}.replace-${process.pid}.tmp` }
+    }))
+    const byTarget = new Map<string, string>()
+    for (const file of planned) {
+      const other = byTarget.get(file.target)
+      if (other !== undefined) {
+        throw new Error(`${basename(other)} and ${basename(file.path)} are the same file; exclude one of them`)
+      }
+      byTarget.set(file.target, file.path)
+    }
+
+    const staged: typeof planned = []
+    try {
+      for (const file of planned) {
+        await fsWriteFile(file.tmpPath, file.after, 'utf-8')
+        staged.push(file)
+        await chmod(file.tmpPath, file.mode)
+      }
+    } catch (error) {
+      await Promise.all(staged.map((file) => rm(file.tmpPath, { force: true })))
+      throw error
+    }
+
+    const swapped = new Set<string>()
+    try {
+      for (const file of staged) {
+        await rename(file.tmpPath, file.target)
+        swapped.add(file.target)
+      }
+    } catch (error) {
+      await Promise.all(staged.map((file) => (
+        swapped.has(file.target)
+          ? fsWriteFile(file.target, file.before, 'utf-8').catch(() => {})
+          : rm(file.tmpPath, { force: true })
+      )))
+      throw error
+    }
+
+    if (planned.length > 0) this.invalidateQuickOpenCachesForPath(normalizedPath)
+    return { files: planned.map((file) => file.path) }
+  }
+
   private static invalidateQuickOpenCachesForPath(targetPath: string): void {
     const normalizedTarget = toPosixPath(normalizeRootPath(targetPath))
     const rootsToRefresh = new Set<string>()
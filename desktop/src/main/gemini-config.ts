@@ -0,0 +1,16 @@
+import { homedir } from 'os'
+import { join } from 'path'
+import { mkdir } from 'fs/promises'
+import { loadJsonFile, saveJsonFile } from './claude-config'
+
+export const GEMINI_DIR = join(homedir(), '.gemini')
+export const GEMINI_TRUSTED_FOLDERS_PATH = join(GEMINI_DIR, 'trustedFolders.json')
+
+/** Mark `dirPath` as a trusted folder so `gemini` starts without the folder trust dialog. */
+export async function trustPathForGemini(dirPath: string): Promise<void> {
+  const folders = await loadJsonFile<Record<string, string>>(GEMINI_TRUSTED_FOLDERS_PATH, {})
+  if (folders[dirPath] === 'TRUST_FOLDER') return
+  folders[dirPath] = 'TRUST_FOLDER'
+  await mkdir(GEMINI_DIR, { recursive: true })
+  await saveJsonFile(GEMINI_TRUSTED_FOLDERS_PATH, folders)
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { execFile } from 'child_process'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { promisify } from 'util'
+import { GitService } from './git-service'
+
+const execFileAsync = promisify(execFile)
+
+let workRoot: string
+
+async function runGit(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd })
+  return stdout.trim()
+}
+
+async function commitFile(cwd: string, file: string, content: string, message: string) {
+  writeFileSync(join(cwd, file), content)
+  await runGit(cwd, 'add', file)
+  await runGit(cwd, 'commit', '-q', '-m', message)
+}
+
+/**
+ * A clone of `origin` with a `feature` worktree whose change to `app.txt` conflicts with a
+ * later commit pushed to origin/main.
+ */
+async function makeConflictingWorktree(): Promise<{ repo: string; worktree: string }> {
+  const origin = join(workRoot, 'origin.git')
+  await execFileAsync('git', ['init', '-q', '--bare', '-b', 'main', origin])
+
+  const repo = join(workRoot, 'repo')
+  await execFileAsync('git', ['clone', '-q', origin, repo])
+  await runGit(repo, 'config', 'user.email', 'a@b')
+  await runGit(repo, 'config', 'user.name', 'Tester')
+  await runGit(repo, 'checkout', '-q', '-b', 'main')
+  await commitFile(repo, 'app.txt', 'one\n', 'first')
+  await runGit(repo, 'push', '-q', 'origin', 'main')
+
+  const worktree = join(workRoot, 'feature')
+  await runGit(repo, 'worktree', 'add', '-q', '-b', 'feature', worktree)
+  await commitFile(worktree, 'app.txt', 'feature\n', 'feature change')
+
+  await commitFile(repo, 'app.txt', 'upstream\n', 'upstream change')
+  await runGit(repo, 'push', '-q', 'origin', 'main')
+  await runGit(repo, 'reset', '-q', '--hard', 'HEAD~1')
+  return { repo, worktree }
+}
+
+beforeEach(() => {
+  workRoot = mkdtempSync(join(tmpdir(), 'constellagent-sync-test-'))
+})
+
+afterEach(() => {
+  try {
+    rmSync(workRoot, { recursive: true, force: true })
+  } catch {
+    // best-effort cleanup
+  }
+})
+
+describe('GitService.syncWorktree conflicts', () => {
+  it('leaves a merge conflict in progress and continues it once resolved', async () => {
+    const { worktree } = await makeConflictingWorktree()
+
+    const result = await GitService.syncWorktree(worktree, 'origin/main', undefined, 'merge')
+    expect(result).toMatchObject({ success: false, conflict: 'merge' })
+
+    const state = await GitService.getSyncConflicts(worktree)
+    expect(state?.operation).toBe('merge')
+    expect(state?.files).toEqual([{ path: 'app.txt', status: 'both-modified' }])
+
+    const versions = await GitService.getConflictVersions(worktree, 'app.txt')
+    expect(versions).toMatchObject({ base: 'one\n', ours: 'feature\n', theirs: 'upstream\n' })
+    expect(versions.merged).toContain('<<<<<<<')
+
+    await GitService.resolveConflictFile(worktree, 'app.txt', { content: 'both\n' })
+    expect(await GitService.continueSync(worktree, 'merge')).toEqual({ worktreePath: worktree, success: true })
+    expect(await GitService.getSyncConflicts(worktree)).toBeNull()
+    expect(readFileSync(join(worktree, 'app.txt'), 'utf-8')).toBe('both\n')
+    expect(await runGit(worktree, 'log', '-1', '--format=%P')).toContain(' ')
+  })
+
+  it('restores stashed changes when a rebase is aborted', async () => {
+    const { worktree } = await makeConflictingWorktree()
+    writeFileSync(join(worktree, 'notes.txt'), 'draft\n')
+    await runGit(worktree, 'add', 'notes.txt')
+    const before = await runGit(worktree, 'rev-parse', 'HEAD')
+
+    const result = await GitService.syncWorktree(worktree, 'origin/main', undefined, 'rebase')
+    expect(result).toMatchObject({ success: false, conflict: 'rebase' })
+    expect((await GitService.getSyncConflicts(worktree))?.operation).toBe('rebase')
+
+    expect(await GitService.abortSync(worktree, 'rebase')).toBeNull()
+    expect(await runGit(worktree, 'rev-parse', 'HEAD')).toBe(before)
+    expect(readFileSync(join(worktree, 'notes.txt'), 'utf-8')).toBe('draft\n')
+    expect(await runGit(worktree, 'stash', 'list')).toBe('')
+  })
+
+  it('drops the stash instead of popping it again when a resolved stash pop is continued', async () => {
+    const { worktree } = await makeConflictingWorktree()
+    await runGit(worktree, 'reset', '-q', '--hard', 'HEAD~1')
+    writeFileSync(join(worktree, 'app.txt'), 'local\n')
+
+    const result = await GitService.syncWorktree(worktree, 'origin/main', undefined, 'merge')
+    expect(result).toMatchObject({ success: true, stashPopConflict: true, conflict: 'stash-pop' })
+
+    await GitService.resolveConflictFile(worktree, 'app.txt', { content: 'merged\n' })
+    expect((await GitService.getSyncConflicts(worktree))?.operation).toBe('stash-pop')
+    expect(await GitService.continueSync(worktree, 'merge')).toEqual({ worktreePath: worktree, success: true })
+    expect(readFileSync(join(worktree, 'app.txt'), 'utf-8')).toBe('merged\n')
+    expect(await runGit(worktree, 'status', '--porcelain')).toBe('M app.txt')
+    expect(await runGit(worktree, 'stash', 'list')).toBe('')
+    expect(await GitService.getSyncConflicts(worktree)).toBeNull()
+  })
+
+  it('refuses to fast-forward a diverged branch without leaving anything in progress', async () => {
+    const { worktree } = await makeConflictingWorktree()
+
+    const result = await GitService.syncWorktree(worktree, 'origin/main', undefined, 'ff-only')
+    expect(result.success).toBe(false)
+    expect(result.conflict).toBeUndefined()
+    expect(result.error).toContain('fast-forwarded')
+    expect(await GitService.getSyncConflicts(worktree)).toBeNull()
+  })
+
+  it('leaves a conflicted cherry-pick of the user alone', async () => {
+    const { repo, worktree } = await makeConflictingWorktree()
+    await runGit(repo, 'fetch', '-q', 'origin')
+    await execFileAsync('git', ['cherry-pick', 'origin/main'], { cwd: worktree }).catch(() => {})
+    expect(await runGit(worktree, 'status', '--porcelain')).toContain('UU app.txt')
+
+    expect(await GitService.getSyncConflicts(worktree)).toBeNull()
+    expect(await GitService.abortSync(worktree, 'rebase')).toBeNull()
+    expect(readFileSync(join(worktree, 'app.txt'), 'utf-8')).toContain('<<<<<<<')
+  })
+})
@@ -6,7 +6,18 @@ import { promisify } from 'util'
 import { basename, dirname, isAbsolute, join, relative, resolve } from 'path'
 import type { CreateWorktreeProgress } from '../shared/workspace-creation'
 import type { GitLogEntry, WorktreeInfo } from '../shared/git-types'
-import type { SyncProgress, SyncResult } from '../shared/sync-types'
+import type {
+  SyncConflictFile,
+  SyncConflictOperation,
+  SyncConflictResolution,
+  SyncConflictState,
+  SyncConflictVersions,
+  SyncProgress,
+  SyncResult,
+  SyncStage,
+  WorktreeSyncStrategy,
+} from '../shared/sync-types'
+import { DEFAULT_WORKTREE_SYNC_STRATEGY, parseConflictStatus } from '../shared/sync-types'
 import type { WorktreeCredentialRule } from '../shared/worktree-credentials'
 import type { GitHunkActionRequest } from '../shared/git-hunk-action-types'
 import type {
@@ -39,11 +50,31 @@ export interface PrWorktreeResult {
   branch: string
 }
 
-async function git(args: string[], cwd: string): Promise<string> {
-  return spawnAndCapture('git', args, cwd, 10 * 1024 * 1024)
+interface CaptureOptions {
+  /** Keep trailing newlines, e.g. when the output is file content written back to disk. */
+  raw?: boolean
+  env?: NodeJS.ProcessEnv
+}
+
+async function git(args: string[], cwd: string, options?: CaptureOptions): Promise<string> {
+  return spawnAndCapture('git', args, cwd, 10 * 1024 * 1024, options)
+}
+
+/** Git must not open an editor for commit messages while continuing a rebase or merge. */
+const NON_INTERACTIVE_GIT_ENV: NodeJS.ProcessEnv = { ...process.env, GIT_EDITOR: 'true' }
+
+/** Graphite CLI; conflicts it stops on are ordinary git rebases. */
+async function gt(args: string[], cwd: string): Promise<string> {
+  return spawnAndCapture('gt', [...args, '--no-interactive'], cwd, 10 * 1024 * 1024, { env: NON_INTERACTIVE_GIT_ENV })
 }
 
-function spawnAndCapture(command: string, args: string[], cwd: string, maxBuffer: number): Promise<string> {
+function spawnAndCapture(
+  command: string,
+  args: string[],
+  cwd: string,
+  maxBuffer: number,
+  options: CaptureOptions = {},
+): Promise<string> {
   return new Promise((resolvePromise, rejectPromise) => {
     // Keep stdin closed explicitly. Electron dev can surface EBADF from execFile's
     // implicit stdio setup before git starts, which breaks status/worktree IPC.
@@ -51,6 +82,7 @@ function spawnAndCapture(command: string, args: string[], cwd: string, maxBuffer
       cwd,
       stdio: ['ignore', 'pipe', 'pipe'],
       windowsHide: true,
+      env: options.env ?? process.env,
     })
 
     let stdout = ''
@@ -90,7 +122,7 @@ function spawnAndCapture(command: string, args: string[], cwd: string, maxBuffer
       if (settled) return
       if (code === 0) {
         settled = true
-        resolvePromise(stdout.trimEnd())
+        resolvePromise(options.raw ? stdout : stdout.trimEnd())
         return
       }
 
@@ -270,6 +302,155 @@ function friendlyGitError(err: unknown, fallback: string): string {
   return fallback
 }
 
+const SYNC_OPERATION_LABELS: Record<SyncConflictOperation, string> = {
+  rebase: 'Rebase',
+  merge: 'Merge',
+  'stash-pop': 'Restoring stashed changes',
+}
+
+function syncFailureMessage(strategy: WorktreeSyncStrategy): string {
+  switch (strategy) {
+    case 'merge':
+      return 'Merge failed'
+    case 'ff-only':
+      return 'Branch has diverged from the default branch and cannot be fast-forwarded'
+    case 'graphite-restack':
+      return 'Graphite restack failed'
+    default:
+      return 'Rebase failed'
+  }
+}
+
+/**
+ * The stash list is shared by every worktree of a repo, so the sync stash carries the
+ * worktree path and is looked up by message rather than popped from the top.
+ */
+function syncStashMessage(worktreePath: string): string {
+  return `constellagent-sync ${worktreePath}`
+}
+
+async function findSyncStash(worktreePath: string): Promise<string | null> {
+  const output = await git(['stash', 'list', '--format=%gd%x00%gs'], worktreePath).catch(() => '')
+  const suffix = `: ${syncStashMessage(worktreePath)}`
+  for (const line of output.split('\n')) {
+    const [ref, subject] = line.split('\0')
+    if (ref && subject?.endsWith(suffix)) return ref
+  }
+  return null
+}
+
+async function popSyncStash(worktreePath: string): Promise<boolean> {
+  const ref = await findSyncStash(worktreePath)
+  if (!ref) return false
+  await git(['stash', 'pop', '-q', ref], worktreePath)
+  return true
+}
+
+/**
+ * Written when popping the sync stash stops on conflicts. Git keeps no state for a failed pop,
+ * and once every file is resolved the conflicts alone no longer show the pop is unfinished.
+ */
+const STASH_POP_MARKER = 'constellagent-sync-stash-pop'
+
+async function gitPath(worktreePath: string, name: string): Promise<string | null> {
+  const path = await git(['rev-parse', '--git-path', name], worktreePath).catch(() => '')
+  return path ? resolve(worktreePath, path) : null
+}
+
+async function setStashPopMarker(worktreePath: string, present: boolean): Promise<void> {
+  const path = await gitPath(worktreePath, STASH_POP_MARKER)
+  if (!path) return
+  if (present) await writeFile(path, `${syncStashMessage(worktreePath)}\n`, 'utf-8')
+  else await rm(path, { force: true })
+}
+
+/** Pops the sync stash if there is one; a failed pop is reported as a stash-pop conflict. */
+async function restoreSyncStash(
+  worktreePath: string,
+  report?: (stage: SyncStage, message: string) => void,
+): Promise<SyncResult | null> {
+  try {
+    await popSyncStash(worktreePath)
+    return null
+  } catch {
+    report?.('error', 'Stash pop had conflicts')
+    const conflicted = (await listConflictFiles(worktreePath)).length > 0
+    if (conflicted) await setStashPopMarker(worktreePath, true)
+    return {
+      worktreePath,
+      success: true,
+      stashPopConflict: true,
+      conflict: conflicted ? 'stash-pop' : undefined,
+    }
+  }
+}
+
+async function listConflictFiles(worktreePath: string): Promise<SyncConflictFile[]> {
+  const output = await git(['status', '--porcelain', '-z'], worktreePath, { raw: true })
+  return parseConflictStatus(output)
+}
+
+async function gitPathExists(worktreePath: string, name: string): Promise<boolean> {
+  const path = await gitPath(worktreePath, name)
+  return path !== null && existsSync(path)
+}
+
+/**
+ * Rebase or merge in progress, or a pop of the sync's stash that stopped on conflicts (resolved
+ * or not). A cherry-pick or revert stopped on conflicts is the user's own and never a sync's.
+ */
+async function detectSyncOperation(worktreePath: string): Promise<SyncConflictOperation | null> {
+  if ((await gitPathExists(worktreePath, 'rebase-merge')) || (await gitPathExists(worktreePath, 'rebase-apply'))) {
+    return 'rebase'
+  }
+  if (await gitPathExists(worktreePath, 'MERGE_HEAD')) return 'merge'
+  if ((await gitPathExists(worktreePath, 'CHERRY_PICK_HEAD')) || (await gitPathExists(worktreePath, 'REVERT_HEAD'))) {
+    return null
+  }
+  const stash = await findSyncStash(worktreePath)
+  if (!stash) return null
+  if (await gitPathExists(worktreePath, STASH_POP_MARKER)) return 'stash-pop'
+  return (await listConflictFiles(worktreePath)).length > 0 ? 'stash-pop' : null
+}
+
+/** Brings the checked-out branch up to date with the fetched default branch. */
+async function integrateUpstream(
+  worktreePath: string,
+  defaultBranch: string,
+  strategy: WorktreeSyncStrategy,
+  report: (stage: SyncStage, message: string) => void,
+): Promise<void> {
+  switch (strategy) {
+    case 'merge':
+      report('merge', `Merging ${defaultBranch}...`)
+      await git(['merge', '--no-edit', defaultBranch], worktreePath, { env: NON_INTERACTIVE_GIT_ENV })
+      return
+    case 'ff-only':
+      report('merge', `Fast-forwarding to ${defaultBranch}...`)
+      try {
+        await git(['merge', '--ff-only', defaultBranch], worktreePath)
+      } catch (err) {
+        const stderr = (err as { stderr?: string }).stderr ?? ''
+        // Drop stderr so the caller falls back to the "diverged" message.
+        if (/not possible to fast-forward/i.test(stderr)) throw new Error(stderr)
+        throw err
+      }
+      return
+    case 'graphite-restack': {
+      // Graphite restacks onto the local trunk. Move it to the fetched tip first; this is
+      // skipped when trunk is checked out somewhere, which then needs its own pull.
+      const trunk = defaultBranch.replace(/^origin\//, '')
+      await git(['fetch', 'origin', `${trunk}:${trunk}`], worktreePath).catch(() => {})
+      report('restack', 'Restacking with Graphite...')
+      await gt(['restack'], worktreePath)
+      return
+    }
+    default:
+      report('rebase', `Rebasing onto ${defaultBranch}...`)
+      await git(['rebase', defaultBranch], worktreePath, { env: NON_INTERACTIVE_GIT_ENV })
+  }
+}
+
 /** Sanitize user-facing workspace names for safe filesystem directory names */
 function sanitizeWorktreeName(name: string): string {
   const sanitized = name
@@ -1095,6 +1276,16 @@ export class GitService {
     return results
   }
 
+  /** Paths changed on this branch since it forked from `baseRef`, plus uncommitted and untracked files. */
+  static async getChangedPaths(worktreePath: string, baseRef: string): Promise<string[]> {
+    const committed = await git(['diff', '--name-only', `${baseRef}...HEAD`], worktreePath).catch(() => '')
+    const status = await this.getStatus(worktreePath)
+    return [...new Set([
+      ...committed.split('\n').filter(Boolean),
+      ...status.map((file) => file.path),
+    ])]
+  }
+
   static async getDiff(worktreePath: string, staged: boolean): Promise<FileDiff[]> {
     const args = ['diff']
     if (staged) args.push('--staged')
@@ -1310,55 +1501,53 @@ export class GitService {
     worktreePath: string,
     defaultBranch: string,
     onProgress?: (progress: SyncProgress) => void,
+    strategy: WorktreeSyncStrategy = DEFAULT_WORKTREE_SYNC_STRATEGY,
   ): Promise<SyncResult> {
     const report = (stage: SyncProgress['stage'], message: string) =>
       onProgress?.({ worktreePath, stage, message })
 
     let didStash = false
     try {
+      // A pop left unfinished by an earlier sync is not this one's
+      await setStashPopMarker(worktreePath, false)
       // Check if dirty
       report('stash', 'Checking for uncommitted changes...')
       const status = await git(['status', '--porcelain'], worktreePath)
       if (status.trim()) {
-        await git(['stash', 'push', '-m', 'constellagent-sync'], worktreePath)
-        didStash = true
+        await git(['stash', 'push', '-m', syncStashMessage(worktreePath)], worktreePath)
+        // Untracked-only changes are left in place and produce no stash entry.
+        didStash = (await findSyncStash(worktreePath)) !== null
       }
 
       // Fetch
       report('fetch', 'Fetching from origin...')
       await git(['fetch', 'origin'], worktreePath)
 
-      // Rebase
-      report('rebase', `Rebasing onto ${defaultBranch}...`)
       try {
-        await git(['rebase', defaultBranch], worktreePath)
-      } catch (rebaseErr) {
-        // Abort rebase and restore stash
-        await git(['rebase', '--abort'], worktreePath).catch(() => {})
-        if (didStash) {
-          await git(['stash', 'pop'], worktreePath).catch(() => {})
-        }
-        report('error', 'Rebase failed — aborted and restored')
-        return {
-          worktreePath,
-          success: false,
-          error: friendlyGitError(rebaseErr, 'Rebase failed'),
+        await integrateUpstream(worktreePath, defaultBranch, strategy, report)
+      } catch (integrateErr) {
+        // Conflicts stay in progress so they can be resolved and continued from the app;
+        // anything else is rolled back.
+        const operation = await detectSyncOperation(worktreePath)
+        if (operation) {
+          report('error', `${SYNC_OPERATION_LABELS[operation]} stopped on conflicts`)
+          return {
+            worktreePath,
+            success: false,
+            conflict: operation,
+            error: `${SYNC_OPERATION_LABELS[operation]} stopped on conflicts`,
+          }
         }
+        if (didStash) await popSyncStash(worktreePath).catch(() => {})
+        const error = friendlyGitError(integrateErr, syncFailureMessage(strategy))
+        report('error', error)
+        return { worktreePath, success: false, error }
       }
 
-      // Stash pop
       if (didStash) {
         report('stash-pop', 'Restoring stashed changes...')
-        try {
-          await git(['stash', 'pop'], worktreePath)
-        } catch {
-          report('error', 'Stash pop had conflicts')
-          return {
-            worktreePath,
-            success: true,
-            stashPopConflict: true,
-          }
-        }
+        const popped = await restoreSyncStash(worktreePath, report)
+        if (popped) return popped
       }
 
       report('done', 'Sync complete')
@@ -1376,6 +1565,7 @@ export class GitService {
   static async syncAllWorktrees(
     repoPath: string,
     onProgress?: (progress: SyncProgress) => void,
+    strategy: WorktreeSyncStrategy = DEFAULT_WORKTREE_SYNC_STRATEGY,
   ): Promise<SyncResult[]> {
     const defaultBranch = await GitService.getDefaultBranch(repoPath)
     const worktrees = await GitService.listWorktrees(repoPath)
@@ -1388,12 +1578,130 @@ export class GitService {
 
     const results: SyncResult[] = []
     for (const wt of toSync) {
-      const result = await GitService.syncWorktree(wt.path, defaultBranch, onProgress)
+      const result = await GitService.syncWorktree(wt.path, defaultBranch, onProgress, strategy)
       results.push(result)
     }
     return results
   }
 
+  /** The sync operation the worktree is stopped in, with its unmerged files; null when none is. */
+  static async getSyncConflicts(worktreePath: string): Promise<SyncConflictState | null> {
+    const operation = await detectSyncOperation(worktreePath)
+    if (!operation) return null
+    return { worktreePath, operation, files: await listConflictFiles(worktreePath) }
+  }
+
+  /** Base, ours and theirs from the index stages, plus the working file with its markers. */
+  static async getConflictVersions(worktreePath: string, filePath: string): Promise<SyncConflictVersions> {
+    const stage = (n: 1 | 2 | 3) => git(['show', `:${n}:${filePath}`], worktreePath, { raw: true }).catch(() => null)
+    const [base, ours, theirs, merged] = await Promise.all([
+      stage(1),
+      stage(2),
+      stage(3),
+      readFile(join(worktreePath, filePath), 'utf-8').catch(() => null),
+    ])
+    return { base, ours, theirs, merged }
+  }
+
+  /**
+   * Marks one conflicted file resolved, either by taking a whole side (a side without the
+   * file resolves to a deletion) or by writing the merged content.
+   */
+  static async resolveConflictFile(
+    worktreePath: string,
+    filePath: string,
+    resolution: SyncConflictResolution,
+  ): Promise<void> {
+    try {
+      if ('content' in resolution) {
+        await writeFile(join(worktreePath, filePath), resolution.content, 'utf-8')
+        await git(['add', '--', filePath], worktreePath)
+        return
+      }
+      const stage = resolution.take === 'ours' ? 2 : 3
+      const exists = await git(['cat-file', '-e', `:${stage}:${filePath}`], worktreePath).then(() => true, () => false)
+      if (exists) {
+        await git(['checkout', `--${resolution.take}`, '--', filePath], worktreePath)
+        await git(['add', '--', filePath], worktreePath)
+      } else {
+        await git(['rm', '-q', '--', filePath], worktreePath)
+      }
+    } catch (err) {
+      throw new Error(friendlyGitError(err, `Failed to resolve ${filePath}`))
+    }
+  }
+
+  /**
+   * Finishes the stopped operation once every file is resolved, then restores the changes
+   * stashed at the start of the sync. A later commit of the rebase can stop on new conflicts.
+   */
+  static async continueSync(
+    worktreePath: string,
+    strategy: WorktreeSyncStrategy = DEFAULT_WORKTREE_SYNC_STRATEGY,
+  ): Promise<SyncResult> {
+    const operation = await detectSyncOperation(worktreePath)
+    if (operation) {
+      if ((await listConflictFiles(worktreePath)).length > 0) {
+        throw new Error('Resolve every conflicted file before continuing')
+      }
+      try {
+        if (operation === 'rebase' && strategy === 'graphite-restack') {
+          await gt(['continue'], worktreePath)
+        } else if (operation === 'rebase') {
+          await git(['rebase', '--continue'], worktreePath, { env: NON_INTERACTIVE_GIT_ENV })
+        } else if (operation === 'merge') {
+          await git(['commit', '--no-edit'], worktreePath, { env: NON_INTERACTIVE_GIT_ENV })
+        } else {
+          // The resolved files stay as uncommitted changes, just like a clean pop.
+          await git(['reset', '-q'], worktreePath)
+          const stash = await findSyncStash(worktreePath)
+          if (stash) await git(['stash', 'drop', '-q', stash], worktreePath)
+          await setStashPopMarker(worktreePath, false)
+          return { worktreePath, success: true }
+        }
+      } catch (err) {
+        const next = await detectSyncOperation(worktreePath)
+        if (next) {
+          return {
+            worktreePath,
+            success: false,
+            conflict: next,
+            error: `${SYNC_OPERATION_LABELS[next]} stopped on conflicts`,
+          }
+        }
+        return { worktreePath, success: false, error: friendlyGitError(err, syncFailureMessage(strategy)) }
+      }
+    }
+    return (await restoreSyncStash(worktreePath)) ?? { worktreePath, success: true }
+  }
+
+  /**
+   * Abandons the stopped operation. After a rebase or merge the branch is back where it was
+   * and the stashed changes are restored; an aborted stash pop keeps the stash entry.
+   * Returns null once the worktree is back to its state before the sync.
+   */
+  static async abortSync(
+    worktreePath: string,
+    strategy: WorktreeSyncStrategy = DEFAULT_WORKTREE_SYNC_STRATEGY,
+  ): Promise<SyncResult | null> {
+    const operation = await detectSyncOperation(worktreePath)
+    try {
+      if (operation === 'rebase') {
+        if (strategy === 'graphite-restack') await gt(['abort', '--force'], worktreePath).catch(() => {})
+        if (await detectSyncOperation(worktreePath)) await git(['rebase', '--abort'], worktreePath)
+      } else if (operation === 'merge') {
+        await git(['merge', '--abort'], worktreePath)
+      } else if (operation === 'stash-pop') {
+        await git(['reset', '--hard', '-q'], worktreePath)
+        await setStashPopMarker(worktreePath, false)
+        return { worktreePath, success: false, error: 'Stashed changes were kept in `git stash list`' }
+      }
+    } catch (err) {
+      throw new Error(friendlyGitError(err, 'Failed to abort sync'))
+    }
+    return restoreSyncStash(worktreePath)
+  }
+
   static async getCommitDiff(worktreePath: string, hash: string): Promise<string> {
     try {
       return await git(['show', '--format=', '--patch', hash], worktreePath)
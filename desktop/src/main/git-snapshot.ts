@@ -83,3 +83,33 @@ export async function buildCommitMessageSnapshot(worktreePath: string): Promise<
     recentCommits: truncateSection(recentCommits, 1_000),
   }
 }
+
+/** Snapshot for PR descriptions — the branch's commits and diff against `baseBranch` (prefers `origin/<base>`). */
+export interface PrDescriptionSnapshot {
+  baseRef: string
+  commits: string
+  diffSummary: string
+}
+
+export async function buildPrDescriptionSnapshot(
+  worktreePath: string,
+  baseBranch: string,
+): Promise<PrDescriptionSnapshot> {
+  const remoteRef = `origin/${baseBranch}`
+  const hasRemoteRef = !!(await gitOrEmpty(['rev-parse', '--verify', '--quiet', remoteRef], worktreePath))
+  const baseRef = hasRemoteRef ? remoteRef : baseBranch
+  const [commits, diffSummary] = await Promise.all([
+    gitOrEmpty(['log', '--format=%s%n%b', `${baseRef}..HEAD`], worktreePath),
+    gitOrEmpty(['diff', '--stat', '--summary', '--find-renames', `${baseRef}...HEAD`], worktreePath),
+  ])
+
+  if (!commits.trim() && !diffSummary.trim()) {
+    throw new Error(`No commits ahead of ${baseRef} to describe.`)
+  }
+
+  return {
+    baseRef,
+    commits: truncateSection(commits, RECENT_COMMITS_MAX_CHARS),
+    diffSummary: truncateSection(diffSummary, SUMMARY_MAX_CHARS),
+  }
+}
@@ -10,43 +10,59 @@ function clonePrInfo(info: PrInfo): PrInfo {
 }
 
 export class GithubPollService {
-  private timer: ReturnType<typeof setInterval> | null = null
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running = false
   private previousStatuses = new Map<string, PrInfo>()
   private polling = false
 
   start(): void {
-    if (this.timer) return
-    void this.pollOnce()
-    this.timer = setInterval(() => {
-      void this.pollOnce()
-    }, POLL_INTERVAL_MS)
+    if (this.running) return
+    this.running = true
+    void this.pollAndReschedule()
   }
 
   stop(): void {
+    this.running = false
     if (this.timer) {
-      clearInterval(this.timer)
+      clearTimeout(this.timer)
       this.timer = null
     }
   }
 
+  /** The interval stretches with the shared GitHub rate-limit budget and waits out blocks. */
+  private async pollAndReschedule(): Promise<void> {
+    this.timer = null
+    await this.pollOnce()
+    if (!this.running) return
+    this.timer = setTimeout(() => {
+      void this.pollAndReschedule()
+    }, GithubService.nextPollDelay(POLL_INTERVAL_MS))
+  }
+
   private async pollOnce(): Promise<void> {
     if (this.polling) return
+    // A poll answered from cache would look like PRs vanishing; skip it instead.
+    if (GithubService.getRateLimitStatus().blockedUntil) return
     this.polling = true
     try {
-      const projects = listPersistedProjectsWithBranches()
+      const projects = listPersistedProjectsWithBranches().filter((project) => project.branches.length > 0)
       const seenKeys = new Set<string>()
 
-      for (const project of projects) {
-        if (project.branches.length === 0) continue
-        let result
+      // Issued together so projects sharing a remote are batched into one query.
+      const results = await Promise.all(projects.map(async (project) => {
         try {
-          result = await GithubService.getPrStatuses(project.repoPath, project.branches)
+          return await GithubService.getPrStatuses(project.repoPath, project.branches)
         } catch (err) {
           console.error('[automations] GitHub poll failed:', err)
-          continue
+          return null
         }
+      }))
+      if (GithubService.getRateLimitStatus().blockedUntil) return
 
-        if (!result.available) continue
+      for (let i = 0; i < projects.length; i++) {
+        const project = projects[i]
+        const result = results[i]
+        if (!result?.available) continue
 
         for (const [branch, info] of Object.entries(result.data)) {
           const key = `${project.projectId}:${branch}`
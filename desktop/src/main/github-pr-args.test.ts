@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'bun:test'
+import { buildPrCreateArgs, buildPrEditArgs, buildPrMergeArgs } from './github-pr-args'
+
+describe('buildPrCreateArgs', () => {
+  it('keeps --fill when no title is given', () => {
+    expect(buildPrCreateArgs('o/r', 'feat', 'main')).toEqual([
+      'pr', 'create', '--fill', '--repo', 'o/r', '--head', 'feat', '--base', 'main',
+    ])
+  })
+
+  it('passes title, body, draft and reviewers', () => {
+    expect(buildPrCreateArgs('o/r', 'feat', 'main', { title: ' Add cache ', draft: true, reviewers: ['alice', 'org/team'] })).toEqual([
+      'pr', 'create', '--title', 'Add cache', '--body', '', '--repo', 'o/r', '--head', 'feat', '--base', 'main',
+      '--draft', '--reviewer', 'alice,org/team',
+    ])
+  })
+})
+
+describe('buildPrMergeArgs', () => {
+  it('selects the merge method and auto-merge', () => {
+    expect(buildPrMergeArgs('o/r', 7, { method: 'squash', auto: true })).toEqual([
+      'pr', 'merge', '7', '--repo', 'o/r', '--squash', '--auto',
+    ])
+  })
+})
+
+describe('buildPrEditArgs', () => {
+  it('emits only the requested changes', () => {
+    expect(buildPrEditArgs('o/r', 7, { body: '', addLabels: ['perf', 'ui'], removeReviewers: [] })).toEqual([
+      'pr', 'edit', '7', '--repo', 'o/r', '--body', '', '--add-label', 'perf,ui',
+    ])
+    expect(buildPrEditArgs('o/r', 7, {})).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import type { CreatePrOptions, MergePrOptions, PrEdit } from '../shared/github-types'
+
+/** `gh pr create` arguments; without a title the PR is filled from the branch commits. */
+export function buildPrCreateArgs(
+  repoSlug: string,
+  headBranch: string,
+  baseBranch: string,
+  options: CreatePrOptions = {},
+): string[] {
+  const title = options.title?.trim()
+  const args = ['pr', 'create']
+  // gh requires both --title and --body to skip its interactive prompts.
+  if (title) args.push('--title', title, '--body', options.body ?? '')
+  else args.push('--fill')
+  args.push('--repo', repoSlug, '--head', headBranch, '--base', baseBranch)
+  if (options.draft) args.push('--draft')
+  if (options.reviewers && options.reviewers.length > 0) args.push('--reviewer', options.reviewers.join(','))
+  return args
+}
+
+export function buildPrMergeArgs(repoSlug: string, prNumber: number, options: MergePrOptions): string[] {
+  const args = ['pr', 'merge', String(prNumber), '--repo', repoSlug, `--${options.method}`]
+  if (options.auto) args.push('--auto')
+  return args
+}
+
+/** `gh pr edit` arguments, or null when the edit changes nothing. */
+export function buildPrEditArgs(repoSlug: string, prNumber: number, edit: PrEdit): string[] | null {
+  const args = ['pr', 'edit', String(prNumber), '--repo', repoSlug]
+  const base = args.length
+  if (edit.title !== undefined) args.push('--title', edit.title)
+  if (edit.body !== undefined) args.push('--body', edit.body)
+  const lists: Array<[string, string[] | undefined]> = [
+    ['--add-reviewer', edit.addReviewers],
+    ['--remove-reviewer', edit.removeReviewers],
+    ['--add-label', edit.addLabels],
+    ['--remove-label', edit.removeLabels],
+  ]
+  for (const [flag, names] of lists) {
+    if (names && names.length > 0) args.push(flag, names.join(','))
+  }
+  return args.length > base ? args : null
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'bun:test'
+import { GithubRateLimitBudget } from './github-rate-limit'
+
+const NOW = 1_700_000_000_000
+
+function headers(values: Record<string, string>) {
+  return { get: (name: string) => values[name] ?? null }
+}
+
+function bucketHeaders(resource: string, remaining: number, limit = 5000) {
+  return headers({
+    'x-ratelimit-resource': resource,
+    'x-ratelimit-limit': String(limit),
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(NOW / 1000 + 600),
+  })
+}
+
+describe('GithubRateLimitBudget', () => {
+  it('backs off as the scarcest bucket drains', () => {
+    const budget = new GithubRateLimitBudget(() => NOW)
+    budget.record(200, bucketHeaders('graphql', 4000), 'graphql')
+    budget.record(200, bucketHeaders('core', 4500), 'core')
+    expect(budget.backoffMultiplier()).toBe(1)
+    budget.record(200, bucketHeaders('graphql', 600), 'graphql')
+    expect(budget.backoffMultiplier()).toBe(4)
+    expect(budget.nextPollDelay(60_000)).toBe(240_000)
+  })
+
+  it('blocks until reset when the budget is exhausted and honours retry-after', () => {
+    const budget = new GithubRateLimitBudget(() => NOW)
+    expect(budget.record(403, bucketHeaders('graphql', 0), 'graphql')).toBe(true)
+    expect(budget.blockedUntil('graphql')).toBe(NOW + 600_000)
+    expect(budget.blockedUntil('core')).toBeNull()
+
+    const secondary = new GithubRateLimitBudget(() => NOW)
+    expect(secondary.record(403, headers({ 'retry-after': '30' }), 'core')).toBe(true)
+    expect(secondary.blockedUntil('graphql')).toBe(NOW + 30_000)
+    expect(secondary.record(403, headers({}), 'core')).toBe(false)
+  })
+
+  it('counts 304 responses in the snapshot', () => {
+    const budget = new GithubRateLimitBudget(() => NOW)
+    budget.record(304, bucketHeaders('core', 4999), 'core')
+    expect(budget.snapshot()).toMatchObject({ notModifiedCount: 1, blockedUntil: null, backoffMultiplier: 1 })
+  })
+})
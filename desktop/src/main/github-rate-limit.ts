@@ -0,0 +1,119 @@
+import type { GithubRateLimitBucket, GithubRateLimitStatus } from '../shared/github-types'
+
+interface HeaderSource {
+  get(name: string): string | null
+}
+
+/** Remaining-budget fraction at or below which polling slows down by the paired factor. */
+const BACKOFF_STEPS: Array<[fraction: number, multiplier: number]> = [
+  [0.05, 8],
+  [0.15, 4],
+  [0.35, 2],
+]
+
+/** Secondary limits without `retry-after` ask for "a few minutes"; wait one before retrying. */
+const SECONDARY_LIMIT_FALLBACK_MS = 60_000
+
+function parseIntHeader(headers: HeaderSource, name: string): number | null {
+  const raw = headers.get(name)
+  if (raw == null || raw.trim() === '') return null
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Tracks GitHub's rate-limit headers across every API response the main process sees and
+ * turns them into a polling backoff. Buckets are keyed by `x-ratelimit-resource`
+ * (`graphql`, `core`, …) since each refills independently.
+ */
+export class GithubRateLimitBudget {
+  private buckets = new Map<string, GithubRateLimitBucket>()
+  private secondaryBlockedUntil = 0
+  private notModifiedCount = 0
+  private coalescedLookupCount = 0
+
+  constructor(private now: () => number = Date.now) {}
+
+  /** Records the rate-limit headers of a response. Returns true when it was a rate-limit rejection. */
+  record(status: number, headers: HeaderSource, fallbackResource: string): boolean {
+    const resource = headers.get('x-ratelimit-resource') ?? fallbackResource
+    const limit = parseIntHeader(headers, 'x-ratelimit-limit')
+    const remaining = parseIntHeader(headers, 'x-ratelimit-remaining')
+    const reset = parseIntHeader(headers, 'x-ratelimit-reset')
+    if (limit != null && remaining != null && reset != null) {
+      this.buckets.set(resource, {
+        resource,
+        limit,
+        remaining,
+        used: parseIntHeader(headers, 'x-ratelimit-used') ?? limit - remaining,
+        resetAt: reset * 1000,
+        observedAt: this.now(),
+      })
+    }
+
+    if (status === 304) this.notModifiedCount++
+    if (status !== 403 && status !== 429) return false
+
+    const retryAfter = parseIntHeader(headers, 'retry-after')
+    if (retryAfter != null) {
+      this.secondaryBlockedUntil = this.now() + retryAfter * 1000
+      return true
+    }
+    if (remaining === 0) return true
+    if (status === 429) {
+      this.secondaryBlockedUntil = this.now() + SECONDARY_LIMIT_FALLBACK_MS
+      return true
+    }
+    return false
+  }
+
+  recordCoalescedLookup(): void {
+    this.coalescedLookupCount++
+  }
+
+  /** Epoch ms until which requests against `resource` will be refused, or null. */
+  blockedUntil(resource?: string): number | null {
+    const now = this.now()
+    let until = this.secondaryBlockedUntil > now ? this.secondaryBlockedUntil : 0
+    for (const bucket of this.buckets.values()) {
+      if (resource && bucket.resource !== resource) continue
+      if (bucket.remaining <= 0 && bucket.resetAt > now) until = Math.max(until, bucket.resetAt)
+    }
+    return until > 0 ? until : null
+  }
+
+  /** Polling slows down as the scarcest bucket drains; buckets past their reset count as full. */
+  backoffMultiplier(): number {
+    const now = this.now()
+    let multiplier = 1
+    for (const bucket of this.buckets.values()) {
+      if (bucket.limit <= 0 || bucket.resetAt <= now) continue
+      const fraction = bucket.remaining / bucket.limit
+      for (const [threshold, factor] of BACKOFF_STEPS) {
+        if (fraction <= threshold) {
+          multiplier = Math.max(multiplier, factor)
+          break
+        }
+      }
+    }
+    return multiplier
+  }
+
+  /** Delay before the next poll: `baseMs` scaled by the backoff, or until a block lifts. */
+  nextPollDelay(baseMs: number, resource?: string): number {
+    const blockedUntil = this.blockedUntil(resource)
+    const scaled = baseMs * this.backoffMultiplier()
+    return blockedUntil ? Math.max(scaled, blockedUntil - this.now()) : scaled
+  }
+
+  snapshot(): GithubRateLimitStatus {
+    return {
+      buckets: Array.from(this.buckets.values(), (bucket) => ({ ...bucket }))
+        .sort((a, b) => a.resource.localeCompare(b.resource)),
+      backoffMultiplier: this.backoffMultiplier(),
+      blockedUntil: this.blockedUntil(),
+      notModifiedCount: this.notModifiedCount,
+      coalescedLookupCount: this.coalescedLookupCount,
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test'
+import { PrLookupScheduler } from './github-request-scheduler'
+
+function createScheduler({ fetchDelayMs = 0, ...options }: { maxBranchesPerQuery?: number; fetchDelayMs?: number } = {}) {
+  const calls: string[][] = []
+  let coalesced = 0
+  const scheduler = new PrLookupScheduler<string, string>(
+    async (context, branches) => {
+      calls.push(branches)
+      await new Promise((resolve) => setTimeout(resolve, fetchDelayMs))
+      return Object.fromEntries(branches.map((branch) => [branch, `${context}:${branch}`]))
+    },
+    { windowMs: 5, onCoalesced: () => { coalesced++ }, ...options },
+  )
+  return { scheduler, calls, coalesced: () => coalesced }
+}
+
+describe('PrLookupScheduler', () => {
+  it('merges lookups for one repo into a single query and splits results per caller', async () => {
+    const { scheduler, calls, coalesced } = createScheduler()
+    const [a, b, other] = await Promise.all([
+      scheduler.lookup('o/r', ['feat-a', 'main'], 'ctx'),
+      scheduler.lookup('o/r', ['feat-b'], 'ctx'),
+      scheduler.lookup('o/other', ['main'], 'ctx'),
+    ])
+    expect(calls).toEqual([['feat-a', 'feat-b', 'main'], ['main']])
+    expect(a).toEqual({ 'feat-a': 'ctx:feat-a', main: 'ctx:main' })
+    expect(b).toEqual({ 'feat-b': 'ctx:feat-b' })
+    expect(other).toEqual({ main: 'ctx:main' })
+    expect(coalesced()).toBe(1)
+  })
+
+  it('joins an in-flight query that covers the requested branches', async () => {
+    const { scheduler, calls } = createScheduler({ fetchDelayMs: 30 })
+    const first = scheduler.lookup('o/r', ['a', 'b'], 'ctx')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const joined = scheduler.lookup('o/r', ['b'], 'ctx')
+    expect(await joined).toEqual({ b: 'ctx:b' })
+    await first
+    expect(calls).toEqual([['a', 'b']])
+  })
+
+  it('chunks large batches', async () => {
+    const { scheduler, calls } = createScheduler({ maxBranchesPerQuery: 2 })
+    const result = await scheduler.lookup('o/r', ['a', 'b', 'c'], 'ctx')
+    expect(calls).toEqual([['a', 'b'], ['c']])
+    expect(Object.keys(result)).toEqual(['a', 'b', 'c'])
+  })
+})
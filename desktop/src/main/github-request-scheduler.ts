@@ -0,0 +1,112 @@
+interface PendingLookup<T> {
+  branches: string[]
+  resolve: (data: Record<string, T>) => void
+  reject: (err: unknown) => void
+}
+
+interface PendingBatch<C, T> {
+  context: C
+  branches: Set<string>
+  lookups: PendingLookup<T>[]
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface InFlightBatch<T> {
+  branches: Set<string>
+  promise: Promise<Record<string, T>>
+}
+
+export interface PrLookupSchedulerOptions {
+  /** How long a lookup waits for others against the same repo before the query is sent. */
+  windowMs?: number
+  /** Branches per GraphQL query; each branch adds two aliased connections. */
+  maxBranchesPerQuery?: number
+  onCoalesced?: () => void
+}
+
+function pick<T>(data: Record<string, T>, branches: string[]): Record<string, T> {
+  const result: Record<string, T> = {}
+  for (const branch of branches) {
+    if (branch in data) result[branch] = data[branch]
+  }
+  return result
+}
+
+/**
+ * Batches PR status lookups per repository. Lookups for the same repo (from the renderer
+ * poller, the automation poller, or different projects sharing a remote) that arrive within
+ * `windowMs` share one query, and a lookup whose branches are all covered by a query already
+ * in flight joins it instead of sending another.
+ */
+export class PrLookupScheduler<C, T> {
+  private pending = new Map<string, PendingBatch<C, T>>()
+  private inFlight = new Map<string, InFlightBatch<T>[]>()
+  private windowMs: number
+  private maxBranchesPerQuery: number
+
+  constructor(
+    private fetchBatch: (context: C, branches: string[]) => Promise<Record<string, T>>,
+    private options: PrLookupSchedulerOptions = {},
+  ) {
+    this.windowMs = options.windowMs ?? 25
+    this.maxBranchesPerQuery = options.maxBranchesPerQuery ?? 20
+  }
+
+  /** `context` (repo info, token) is taken from the first lookup of each batch. */
+  lookup(repoKey: string, branches: string[], context: C): Promise<Record<string, T>> {
+    const joinable = this.inFlight.get(repoKey)?.find((batch) => branches.every((branch) => batch.branches.has(branch)))
+    if (joinable) {
+      this.options.onCoalesced?.()
+      return joinable.promise.then((data) => pick(data, branches))
+    }
+
+    return new Promise((resolve, reject) => {
+      let batch = this.pending.get(repoKey)
+      if (batch) {
+        this.options.onCoalesced?.()
+      } else {
+        batch = {
+          context,
+          branches: new Set(),
+          lookups: [],
+          timer: setTimeout(() => this.flush(repoKey), this.windowMs),
+        }
+        this.pending.set(repoKey, batch)
+      }
+      for (const branch of branches) batch.branches.add(branch)
+      batch.lookups.push({ branches, resolve, reject })
+    })
+  }
+
+  private flush(repoKey: string): void {
+    const batch = this.pending.get(repoKey)
+    if (!batch) return
+    this.pending.delete(repoKey)
+
+    const branches = Array.from(batch.branches).sort()
+    const chunks: string[][] = []
+    for (let i = 0; i < branches.length; i += this.maxBranchesPerQuery) {
+      chunks.push(branches.slice(i, i + this.maxBranchesPerQuery))
+    }
+    const promise = Promise.all(chunks.map((chunk) => this.fetchBatch(batch.context, chunk)))
+      .then((parts) => Object.assign({}, ...parts) as Record<string, T>)
+
+    const entry: InFlightBatch<T> = { branches: batch.branches, promise }
+    const entries = this.inFlight.get(repoKey) ?? []
+    entries.push(entry)
+    this.inFlight.set(repoKey, entries)
+
+    promise.then(
+      (data) => {
+        for (const lookup of batch.lookups) lookup.resolve(pick(data, lookup.branches))
+      },
+      (err) => {
+        for (const lookup of batch.lookups) lookup.reject(err)
+      },
+    ).finally(() => {
+      const remaining = (this.inFlight.get(repoKey) ?? []).filter((candidate) => candidate !== entry)
+      if (remaining.length > 0) this.inFlight.set(repoKey, remaining)
+      else this.inFlight.delete(repoKey)
+    })
+  }
+}
@@ -1,16 +1,34 @@
 import { execFile } from 'child_process'
+import { createHash } from 'crypto'
 import { promisify } from 'util'
 import type {
   PrInfo,
   PrLookupResult,
   CheckStatus,
   PrState,
+  PrReviewDecision,
+  PrReviewEvent,
+  PrReviewThread,
+  PrReviewThreadComment,
+  PrCheckRun,
+  PrCheckRunsResult,
+  CiFailureExcerpt,
+  CreatePrOptions,
+  MergePrOptions,
+  PrDetails,
+  PrEdit,
+  GithubRateLimitStatus,
   OpenPrInfo,
   ListOpenPrsResult,
 } from '../shared/github-types'
 import { parseGithubUrl } from '../shared/github-url'
 import type { GithubRepoInfo } from '../shared/github-url'
 import type { GithubCloneRepoSuggestion } from '../shared/github-clone-suggestions'
+import type { GithubReviewCommentDraft } from '../shared/github-review-mapping'
+import { extractCiFailure } from '../shared/ci-failure'
+import { buildPrCreateArgs, buildPrEditArgs, buildPrMergeArgs } from './github-pr-args'
+import { GithubRateLimitBudget } from './github-rate-limit'
+import { PrLookupScheduler } from './github-request-scheduler'
 
 const execFileAsync = promisify(execFile)
 
@@ -21,9 +39,14 @@ interface GraphqlPullRequestNode {
   url: string
   updatedAt: string
   headRefName?: string | null
+  baseRefName?: string | null
+  isDraft?: boolean | null
   author?: {
     login?: string | null
   } | null
+  labels?: {
+    nodes?: Array<{ name?: string | null } | null>
+  } | null
   reviewDecision?: string | null
   mergeStateStatus?: string | null
   commits?: {
@@ -59,23 +82,33 @@ interface GraphqlOpenPrListResponse {
   errors?: Array<{ message?: string }>
 }
 
+interface GraphqlReviewThreadPage {
+  nodes?: Array<{ isResolved?: boolean }>
+  pageInfo?: {
+    hasNextPage?: boolean
+    endCursor?: string | null
+  }
+}
+
 interface GraphqlReviewThreadsResponse {
   data?: {
     repository?: {
       pullRequest?: {
-        reviewThreads?: {
-          nodes?: Array<{ isResolved?: boolean }>
-          pageInfo?: {
-            hasNextPage?: boolean
-            endCursor?: string | null
-          }
-        }
+        reviewThreads?: GraphqlReviewThreadPage
       }
     }
   }
   errors?: Array<{ message?: string }>
 }
 
+/** First page of review threads for several PRs, aliased `p0`, `p1`, … */
+interface GraphqlBatchReviewThreadsResponse {
+  data?: {
+    repository?: Record<string, { reviewThreads?: GraphqlReviewThreadPage } | null>
+  }
+  errors?: Array<{ message?: string }>
+}
+
 interface GraphqlPrReviewCommentsResponse {
   data?: {
     repository?: {
@@ -104,17 +137,61 @@ interface GraphqlPrReviewCommentsResponse {
   errors?: Array<{ message?: string }>
 }
 
-export interface PrReviewComment {
-  id: string
-  threadId: string
-  filePath: string
+/** A PR's head commit and the unified diff of each changed file, for placing review comments. */
+export interface PrDiff {
+  headSha: string
+  /** Keyed by path; an empty patch means GitHub shows no diff (binary or too large). */
+  patches: Map<string, string>
+}
+
+export interface PrReviewCommentRef {
+  id: number
+  nodeId: string
+  path: string
+  /** Last line the comment covers; null once the diff it was left on is outdated. */
   line: number | null
-  startLine: number | null
-  diffSide: 'LEFT' | 'RIGHT'
   body: string
-  author: string
-  createdAt: string
-  resolved: boolean
+}
+
+export interface CreatedPrReview {
+  id: number
+  url: string
+  comments: PrReviewCommentRef[]
+}
+
+interface GhPrView {
+  number: number
+  url: string
+  title: string
+  body?: string | null
+  state: string
+  isDraft?: boolean
+  mergeable?: string
+  autoMergeRequest?: unknown
+  reviewRequests?: Array<{ login?: string; slug?: string; name?: string }>
+  labels?: Array<{ name: string }>
+  baseRefName?: string
+}
+
+interface RestCheckRun {
+  id: number
+  name: string
+  status: string
+  conclusion: string | null
+  details_url?: string | null
+  html_url?: string | null
+  started_at: string | null
+  completed_at: string | null
+  app?: { slug?: string } | null
+}
+
+interface RestPrReviewComment {
+  id: number
+  node_id: string
+  path: string
+  line?: number | null
+  original_line?: number | null
+  body: string
 }
 
 interface RepoResponseCache {
@@ -131,8 +208,20 @@ interface UnresolvedThreadCacheEntry {
   fetchedAt: number
 }
 
+interface RestEtagCacheEntry {
+  etag: string
+  body: unknown
+}
+
 class GithubAuthError extends Error {}
 
+class GithubRateLimitError extends Error {
+  constructor(blockedUntil: number | null) {
+    const retry = blockedUntil ? `; retry after ${new Date(blockedUntil).toLocaleTimeString()}` : ''
+    super(`GitHub API rate limit exceeded${retry}.`)
+  }
+}
+
 function ghErrorMessage(err: unknown, fallback: string): string {
   const stderr =
     typeof err === 'object' && err !== null && 'stderr' in err
@@ -180,6 +269,16 @@ export class GithubService {
   private static responseCache = new Map<string, RepoResponseCache>()
   private static openPrListCache = new Map<string, OpenPrListCache>()
   private static unresolvedThreadCache = new Map<string, UnresolvedThreadCacheEntry>()
+  private static REST_ETAG_CACHE_LIMIT = 200
+  private static restEtagCache = new Map<string, RestEtagCacheEntry>()
+  private static rateLimit = new GithubRateLimitBudget()
+  private static prLookupScheduler = new PrLookupScheduler<
+    { repoInfo: GithubRepoInfo; token: string },
+    PrInfo | null
+  >(
+    async ({ repoInfo, token }, branches) => (await GithubService.fetchRepoPrStatuses(repoInfo, branches, token)).data,
+    { onCoalesced: () => GithubService.rateLimit.recordCoalescedLookup() },
+  )
   private static authToken: string | null = null
   private static authTokenChecked = false
   private static authTokenFetchedAt = 0
@@ -279,15 +378,27 @@ export class GithubService {
     const cacheKey = this.cacheKey(repoPath, normalizedBranches)
     const cached = this.responseCache.get(cacheKey)
 
+    // While GitHub refuses requests, answer from cache; an empty result leaves badges untouched.
+    if (this.rateLimit.blockedUntil('graphql')) {
+      return { available: true, data: cached ? this.cloneData(cached.data) : {} }
+    }
+
     try {
-      const result = await this.fetchRepoPrStatuses(repoInfo, normalizedBranches, token)
-      this.setCachedResponse(cacheKey, result.data)
-      return { available: true, data: this.cloneData(result.data) }
+      const data = await this.prLookupScheduler.lookup(
+        `${repoInfo.owner}/${repoInfo.name}`.toLowerCase(),
+        normalizedBranches,
+        { repoInfo, token },
+      )
+      this.setCachedResponse(cacheKey, data)
+      return { available: true, data: this.cloneData(data) }
     } catch (err) {
       if (err instanceof GithubAuthError) {
         this.clearAuthTokenCache()
         return { available: false, error: 'not_authenticated', data: {} }
       }
+      if (err instanceof GithubRateLimitError) {
+        return { available: true, data: cached ? this.cloneData(cached.data) : {} }
+      }
       if (cached) {
         return { available: true, data: this.cloneData(cached.data) }
       }
@@ -312,6 +423,9 @@ export class GithubService {
     if (cached && Date.now() - cached.fetchedAt < this.OPEN_PR_LIST_CACHE_MS) {
       return { available: true, data: this.cloneOpenPrs(cached.data) }
     }
+    if (cached && this.rateLimit.blockedUntil('graphql')) {
+      return { available: true, data: this.cloneOpenPrs(cached.data) }
+    }
 
     try {
       const data = await this.fetchOpenPrList(repoInfo, token)
@@ -380,6 +494,7 @@ export class GithubService {
     repoPath: string,
     headBranch: string,
     baseBranch: string,
+    options: CreatePrOptions = {},
   ): Promise<{ number: number; url: string }> {
     if (!(await this.isGhAvailable())) {
       throw new Error('GitHub CLI is not installed.')
@@ -407,17 +522,7 @@ export class GithubService {
     try {
       const { stdout } = await execFileAsync(
         'gh',
-        [
-          'pr',
-          'create',
-          '--fill',
-          '--repo',
-          repoSlug,
-          '--head',
-          headBranch,
-          '--base',
-          baseBranch,
-        ],
+        buildPrCreateArgs(repoSlug, headBranch, baseBranch, options),
         { cwd: repoPath, timeout: 30_000 },
       )
       const parsed = parsePrUrl(stdout.trim())
@@ -490,6 +595,263 @@ export class GithubService {
     }
   }
 
+  static async getPrDetails(repoPath: string, prNumber: number): Promise<PrDetails> {
+    const { repoSlug } = await this.requireRestAccess(repoPath)
+    try {
+      const { stdout } = await execFileAsync(
+        'gh',
+        [
+          'pr',
+          'view',
+          String(prNumber),
+          '--repo',
+          repoSlug,
+          '--json',
+          'number,url,title,body,state,isDraft,mergeable,autoMergeRequest,reviewRequests,labels,baseRefName',
+        ],
+        { cwd: repoPath, timeout: 15_000 },
+      )
+      const view = JSON.parse(stdout.trim()) as GhPrView
+      const state = view.state.toLowerCase()
+      return {
+        number: view.number,
+        url: view.url,
+        title: view.title,
+        body: view.body ?? '',
+        state: state === 'merged' || state === 'closed' ? state : 'open',
+        isDraft: !!view.isDraft,
+        mergeable: view.mergeable === 'MERGEABLE' || view.mergeable === 'CONFLICTING' ? view.mergeable : 'UNKNOWN',
+        autoMergeEnabled: !!view.autoMergeRequest,
+        reviewers: (view.reviewRequests ?? [])
+          .map((request) => request.login ?? request.slug ?? request.name ?? '')
+          .filter(Boolean),
+        labels: (view.labels ?? []).map((label) => label.name),
+        baseRefName: view.baseRefName ?? '',
+      }
+    } catch (err) {
+      throw new Error(ghErrorMessage(err, `Failed to load PR #${prNumber}.`))
+    }
+  }
+
+  static async mergePr(repoPath: string, prNumber: number, options: MergePrOptions): Promise<void> {
+    await this.runGhPrCommand(
+      repoPath,
+      (repoSlug) => buildPrMergeArgs(repoSlug, prNumber, options),
+      options.auto ? `Failed to enable auto-merge for PR #${prNumber}.` : `Failed to merge PR #${prNumber}.`,
+    )
+  }
+
+  static async disablePrAutoMerge(repoPath: string, prNumber: number): Promise<void> {
+    await this.runGhPrCommand(
+      repoPath,
+      (repoSlug) => ['pr', 'merge', String(prNumber), '--repo', repoSlug, '--disable-auto'],
+      `Failed to disable auto-merge for PR #${prNumber}.`,
+    )
+  }
+
+  static async markPrReadyForReview(repoPath: string, prNumber: number): Promise<void> {
+    await this.runGhPrCommand(
+      repoPath,
+      (repoSlug) => ['pr', 'ready', String(prNumber), '--repo', repoSlug],
+      `Failed to mark PR #${prNumber} ready for review.`,
+    )
+  }
+
+  static async editPr(repoPath: string, prNumber: number, edit: PrEdit): Promise<void> {
+    await this.runGhPrCommand(
+      repoPath,
+      (repoSlug) => buildPrEditArgs(repoSlug, prNumber, edit),
+      `Failed to update PR #${prNumber}.`,
+    )
+  }
+
+  /** Runs a mutating `gh pr` command against origin's repo and drops cached PR state. */
+  private static async runGhPrCommand(
+    repoPath: string,
+    buildArgs: (repoSlug: string) => string[] | null,
+    failureMessage: string,
+  ): Promise<void> {
+    const { repoSlug } = await this.requireRestAccess(repoPath)
+    const args = buildArgs(repoSlug)
+    if (!args) return
+    try {
+      await execFileAsync('gh', args, { cwd: repoPath, timeout: 30_000 })
+    } catch (err) {
+      throw new Error(ghErrorMessage(err, failureMessage))
+    } finally {
+      this.invalidatePrCaches()
+    }
+  }
+
+  /** Fetches the PR's changed files (up to GitHub's 3000-file limit) and head commit. */
+  static async getPrDiff(repoPath: string, prNumber: number): Promise<PrDiff> {
+    const { repoSlug, token } = await this.requireRestAccess(repoPath)
+    const pr = await this.fetchRestJson<{ head: { sha: string } }>('GET', `/repos/${repoSlug}/pulls/${prNumber}`, token)
+    const patches = new Map<string, string>()
+    for (let page = 1; page <= 30; page++) {
+      const files = await this.fetchRestJson<Array<{ filename: string; patch?: string }>>(
+        'GET',
+        `/repos/${repoSlug}/pulls/${prNumber}/files?per_page=100&page=${page}`,
+        token,
+      )
+      for (const file of files) patches.set(file.filename, file.patch ?? '')
+      if (files.length < 100) break
+    }
+    return { headSha: pr.head.sha, patches }
+  }
+
+  /**
+   * Creates one review carrying all `comments`. `PENDING` leaves it as a draft for the reviewer
+   * to submit on GitHub; GitHub allows a single pending review per user and PR.
+   */
+  static async createPrReview(
+    repoPath: string,
+    prNumber: number,
+    review: { commitId: string; event: PrReviewEvent; body?: string; comments: GithubReviewCommentDraft[] },
+  ): Promise<CreatedPrReview> {
+    const { repoSlug, token } = await this.requireRestAccess(repoPath)
+    const created = await this.fetchRestJson<{ id: number; html_url: string }>(
+      'POST',
+      `/repos/${repoSlug}/pulls/${prNumber}/reviews`,
+      token,
+      {
+        commit_id: review.commitId,
+        ...(review.body?.trim() ? { body: review.body.trim() } : {}),
+        ...(review.event === 'PENDING' ? {} : { event: review.event }),
+        comments: review.comments,
+      },
+    )
+    // The create response carries no comment ids; list them back, every page.
+    const comments: RestPrReviewComment[] = []
+    for (let page = 1; review.comments.length > comments.length && page <= 30; page++) {
+      const batch = await this.fetchRestJson<RestPrReviewComment[]>(
+        'GET',
+        `/repos/${repoSlug}/pulls/${prNumber}/reviews/${created.id}/comments?per_page=100&page=${page}`,
+        token,
+      )
+      comments.push(...batch)
+      if (batch.length < 100) break
+    }
+    this.unresolvedThreadCache.clear()
+    return {
+      id: created.id,
+      url: created.html_url,
+      comments: comments.map((comment) => ({
+        id: comment.id,
+        nodeId: comment.node_id,
+        path: comment.path,
+        line: comment.line ?? comment.original_line ?? null,
+        body: comment.body,
+      })),
+    }
+  }
+
+  static async updatePrReviewComment(repoPath: string, commentId: number, body: string): Promise<void> {
+    const { repoSlug, token } = await this.requireRestAccess(repoPath)
+    await this.fetchRestJson('PATCH', `/repos/${repoSlug}/pulls/comments/${commentId}`, token, { body })
+  }
+
+  /** Resolves or reopens the thread a review comment belongs to. Pending reviews have no threads yet. */
+  static async setPrReviewCommentThreadResolved(
+    repoPath: string,
+    prNumber: number,
+    commentNodeId: string,
+    resolved: boolean,
+  ): Promise<void> {
+    const threads = await this.fetchPrReviewThreads(repoPath, prNumber)
+    const thread = threads.find((candidate) => candidate.comments.some((comment) => comment.id === commentNodeId))
+    if (!thread) {
+      throw new Error('Review thread not found on GitHub. Submit the pending review first.')
+    }
+    if (thread.resolved !== resolved) await this.setPrReviewThreadResolved(repoPath, thread.id, resolved)
+  }
+
+  /** Check runs reported on the PR head commit, newest GitHub ordering preserved. */
+  static async listPrCheckRuns(repoPath: string, prNumber: number): Promise<PrCheckRunsResult> {
+    const { repoSlug, token } = await this.requireRestAccess(repoPath)
+    const pr = await this.fetchRestJson<{ head: { sha: string } }>('GET', `/repos/${repoSlug}/pulls/${prNumber}`, token)
+    const checkRuns: PrCheckRun[] = []
+    for (let page = 1; page <= 5; page++) {
+      const data = await this.fetchRestJson<{ check_runs: RestCheckRun[] }>(
+        'GET',
+        `/repos/${repoSlug}/commits/${pr.head.sha}/check-runs?per_page=100&page=${page}`,
+        token,
+      )
+      for (const run of data.check_runs) {
+        checkRuns.push({
+          id: run.id,
+          name: run.name,
+          status: run.status,
+          conclusion: run.conclusion,
+          detailsUrl: run.details_url ?? run.html_url ?? null,
+          startedAt: run.started_at,
+          completedAt: run.completed_at,
+          actionsJobId: run.app?.slug === 'github-actions' ? run.id : null,
+        })
+      }
+      if (data.check_runs.length < 100) break
+    }
+    return { headSha: pr.head.sha, checkRuns }
+  }
+
+  /** Downloads a GitHub Actions job's log via `gh` and extracts the failing step. */
+  static async fetchCheckRunFailure(repoPath: string, jobId: number): Promise<CiFailureExcerpt> {
+    if (!(await this.isGhAvailable())) {
+      throw new Error('GitHub CLI is not installed.')
+    }
+    const repoSlug = await this.getRepoSlug(repoPath)
+    if (!repoSlug) {
+      throw new Error('Origin remote is not a GitHub repo.')
+    }
+    // Same as the REST calls: without `--repo`, `gh` may resolve the job against another remote.
+    const viewLog = async (flag: '--log-failed' | '--log') => {
+      const { stdout } = await execFileAsync('gh', ['run', 'view', '--job', String(jobId), '--repo', repoSlug, flag], {
+        cwd: repoPath,
+        timeout: 60_000,
+        maxBuffer: 32 * 1024 * 1024,
+      })
+      return stdout
+    }
+    try {
+      // --log-failed is empty for jobs that failed outside a step (e.g. cancelled or timed out).
+      const failedLog = await viewLog('--log-failed')
+      return extractCiFailure(failedLog.trim() ? failedLog : await viewLog('--log'))
+    } catch (err) {
+      throw new Error(ghErrorMessage(err, `Failed to download logs for job ${jobId}.`))
+    }
+  }
+
+  /** Per-bucket budgets last reported by GitHub, plus backoff and cache counters. */
+  static getRateLimitStatus(): GithubRateLimitStatus {
+    return this.rateLimit.snapshot()
+  }
+
+  /** `baseMs` stretched by the GraphQL budget's backoff, or until a rate-limit block lifts. */
+  static nextPollDelay(baseMs: number): number {
+    return this.rateLimit.nextPollDelay(baseMs, 'graphql')
+  }
+
+  /** `owner/name` of the origin remote, or null when it is not on GitHub. */
+  static async getRepoSlug(repoPath: string): Promise<string | null> {
+    const repoInfo = await this.getGithubRepoInfo(repoPath)
+    return repoInfo ? `${repoInfo.owner}/${repoInfo.name}` : null
+  }
+
+  private static async requireRestAccess(repoPath: string): Promise<{ repoSlug: string; token: string }> {
+    if (!(await this.isGhAvailable())) {
+      throw new Error('GitHub CLI is not installed.')
+    }
+    const repoInfo = await this.getGithubRepoInfo(repoPath)
+    if (!repoInfo) {
+      throw new Error('Origin remote is not a GitHub repo.')
+    }
+    const token = await this.getAuthToken()
+    if (!token) {
+      throw new Error('GitHub CLI is not authenticated.')
+    }
+    return { repoSlug: `${repoInfo.owner}/${repoInfo.name}`, token }
+  }
+
   private static async getAuthToken(): Promise<string | null> {
     const now = Date.now()
     if (
@@ -572,7 +934,7 @@ export class GithubService {
     }
 
     const data: Record<string, PrInfo | null> = {}
-    const unresolvedLookups: Promise<void>[] = []
+    const openPrs: Array<{ node: GraphqlPullRequestNode; info: PrInfo }> = []
     for (let i = 0; i < branches.length; i++) {
       const branch = branches[i]
       const openNode = repository[`b${i}Open`]?.nodes?.[0]
@@ -582,15 +944,11 @@ export class GithubService {
       data[branch] = mapped
 
       if (picked && mapped && mapped.state === 'open') {
-        unresolvedLookups.push(
-          this.attachUnresolvedReviewThreads(repoInfo, token, picked, mapped)
-        )
+        openPrs.push({ node: picked, info: mapped })
       }
     }
 
-    if (unresolvedLookups.length > 0) {
-      await Promise.allSettled(unresolvedLookups)
-    }
+    await this.attachUnresolvedReviewThreads(repoInfo, token, openPrs).catch(() => {})
 
     return { data }
   }
@@ -606,23 +964,18 @@ export class GithubService {
       ...this.mapPullRequest(node),
       state: 'open' as const,
       headRefName: node.headRefName?.trim() || `pr-${node.number}`,
-      authorLogin: node.author?.login || undefined,
     }))
 
-    const unresolvedLookups: Promise<void>[] = []
+    const openPrs: Array<{ node: GraphqlPullRequestNode; info: PrInfo }> = []
     for (let i = 0; i < nodes.length; i++) {
       const node = nodes[i]
       const mapped = data[i]
       if (node && mapped && mapped.state === 'open') {
-        unresolvedLookups.push(
-          this.attachUnresolvedReviewThreads(repoInfo, token, node, mapped)
-        )
+        openPrs.push({ node, info: mapped })
       }
     }
 
-    if (unresolvedLookups.length > 0) {
-      await Promise.allSettled(unresolvedLookups)
-    }
+    await this.attachUnresolvedReviewThreads(repoInfo, token, openPrs).catch(() => {})
 
     return data
   }
@@ -667,8 +1020,16 @@ export class GithubService {
         title
         url
         updatedAt
+        baseRefName
+        isDraft
         reviewDecision
         mergeStateStatus
+        author {
+          login
+        }
+        labels(first: 20) {
+          nodes { name }
+        }
         commits(last: 1) {
           nodes {
             commit {
@@ -699,11 +1060,16 @@ export class GithubService {
               url
               updatedAt
               headRefName
+              baseRefName
+              isDraft
               reviewDecision
               mergeStateStatus
               author {
                 login
               }
+              labels(first: 20) {
+                nodes { name }
+              }
               commits(last: 1) {
                 nodes {
                   commit {
@@ -768,6 +1134,13 @@ export class GithubService {
       isApproved: isOpen && reviewDecision === 'APPROVED',
       isChangesRequested: isOpen && reviewDecision === 'CHANGES_REQUESTED',
       updatedAt: pr.updatedAt,
+      authorLogin: pr.author?.login || undefined,
+      baseRefName: pr.baseRefName || undefined,
+      labels: (pr.labels?.nodes ?? []).flatMap((label) => (label?.name ? [label.name] : [])),
+      isDraft: pr.isDraft ?? false,
+      reviewDecision: reviewDecision
+        ? reviewDecision.toLowerCase() as PrReviewDecision
+        : null,
     }
   }
 
@@ -798,35 +1171,81 @@ export class GithubService {
     )
   }
 
+  /**
+   * Fills in unresolved review thread counts for a repo's open PRs. Cached counts are reused;
+   * the rest share one GraphQL query, and only PRs with more than a page of threads cost more.
+   */
   private static async attachUnresolvedReviewThreads(
     repoInfo: GithubRepoInfo,
     token: string,
-    prNode: GraphqlPullRequestNode,
-    info: PrInfo
+    prs: Array<{ node: GraphqlPullRequestNode; info: PrInfo }>
   ): Promise<void> {
-    const key = this.reviewThreadCacheKey(repoInfo, prNode.number, prNode.updatedAt)
-    const cached = this.unresolvedThreadCache.get(key)
-    if (
-      cached &&
-      Date.now() - cached.fetchedAt < this.UNRESOLVED_THREAD_CACHE_TTL_MS
-    ) {
-      info.pendingCommentCount = cached.count
-      info.hasPendingComments = cached.count > 0
-      return
+    const setCount = (info: PrInfo, count: number) => {
+      info.pendingCommentCount = count
+      info.hasPendingComments = count > 0
     }
+    const misses: typeof prs = []
+    for (const pr of prs) {
+      const cached = this.unresolvedThreadCache.get(
+        this.reviewThreadCacheKey(repoInfo, pr.node.number, pr.node.updatedAt)
+      )
+      if (
+        cached &&
+        Date.now() - cached.fetchedAt < this.UNRESOLVED_THREAD_CACHE_TTL_MS
+      ) {
+        setCount(pr.info, cached.count)
+      } else {
+        misses.push(pr)
+      }
+    }
+    if (misses.length === 0) return
 
-    const unresolvedCount = await this.fetchUnresolvedReviewThreadCount(repoInfo, token, prNode.number)
-    info.pendingCommentCount = unresolvedCount
-    info.hasPendingComments = unresolvedCount > 0
-    this.updateReviewThreadCache(repoInfo, prNode.number, prNode.updatedAt, unresolvedCount)
+    const variableDefs = ['$owner: String!', '$name: String!']
+    const variables: Record<string, string | number> = {
+      owner: repoInfo.owner,
+      name: repoInfo.name,
+    }
+    const fields = misses.map((pr, i) => {
+      variableDefs.push(`$n${i}: Int!`)
+      variables[`n${i}`] = pr.node.number
+      return `p${i}: pullRequest(number: $n${i}) {
+          reviewThreads(first: 100) {
+            nodes { isResolved }
+            pageInfo { hasNextPage endCursor }
+          }
+        }`
+    })
+    const query = `
+      query ReviewThreadCounts(${variableDefs.join(', ')}) {
+        repository(owner: $owner, name: $name) {
+          ${fields.join('\n')}
+        }
+      }
+    `
+    const payload = await this.fetchGraphqlJson<GraphqlBatchReviewThreadsResponse>(query, variables, token)
+    const repository = payload.data?.repository
+
+    await Promise.allSettled(misses.map(async ({ node, info }, i) => {
+      const threads = repository?.[`p${i}`]?.reviewThreads
+      if (!threads) return
+      let unresolvedCount = (threads.nodes ?? []).filter((thread) => !thread.isResolved).length
+      const cursor = threads.pageInfo?.hasNextPage ? threads.pageInfo.endCursor : null
+      if (cursor) {
+        unresolvedCount += await this.fetchUnresolvedReviewThreadCount(repoInfo, token, node.number, cursor)
+      }
+      setCount(info, unresolvedCount)
+      this.updateReviewThreadCache(repoInfo, node.number, node.updatedAt, unresolvedCount)
+    }))
   }
 
+  /** Unresolved threads from `after` onwards, for PRs whose first page did not hold them all. */
   private static async fetchUnresolvedReviewThreadCount(
     repoInfo: GithubRepoInfo,
     token: string,
-    number: number
+    number: number,
+    after: string
   ): Promise<number> {
-    let cursor: string | null = null
+    let cursor: string | null = after
     let unresolvedCount = 0
 
     while (true) {
@@ -900,6 +1319,9 @@ export class GithubService {
       clearTimeout(timeout)
     }
 
+    if (this.rateLimit.record(response.status, response.headers, 'graphql')) {
+      throw new GithubRateLimitError(this.rateLimit.blockedUntil())
+    }
     if (response.status === 401 || response.status === 403) {
       throw new GithubAuthError(`GitHub API auth failed (${response.status})`)
     }
@@ -918,10 +1340,77 @@ export class GithubService {
     return payload
   }
 
-  static async fetchPrReviewComments(
+  private static async fetchRestJson<T = unknown>(
+    method: 'GET' | 'POST' | 'PATCH',
+    path: string,
+    token: string,
+    body?: unknown,
+  ): Promise<T> {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), 15_000)
+    // Conditional GETs: a 304 reuses the cached body and does not count against the rate limit.
+    const etagKey = this.restEtagKey(token, path)
+    const cachedEtag = method === 'GET' ? this.restEtagCache.get(etagKey) : undefined
+
+    let response: Response
+    try {
+      response = await fetch(`https://api.github.com${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: 'application/vnd.github+json',
+          'Content-Type': 'application/json',
+          'User-Agent': 'constellagent-desktop',
+          'X-GitHub-Api-Version': '2022-11-28',
+          ...(cachedEtag ? { 'If-None-Match': cachedEtag.etag } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      })
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    if (this.rateLimit.record(response.status, response.headers, 'core')) {
+      throw new GithubRateLimitError(this.rateLimit.blockedUntil())
+    }
+    if (response.status === 304 && cachedEtag) {
+      return structuredClone(cachedEtag.body) as T
+    }
+    if (response.status === 401) {
+      this.clearAuthTokenCache()
+      throw new GithubAuthError(`GitHub API auth failed (${response.status})`)
+    }
+    if (!response.ok) {
+      // 422s carry the useful detail (e.g. "pull_request_review_thread.line must be part of the diff").
+      const payload = await response.json().catch(() => null) as { message?: string; errors?: unknown[] } | null
+      const details = payload?.errors?.map((error) => (typeof error === 'string' ? error : JSON.stringify(error))).join('; ')
+      throw new Error(`GitHub API request failed (${response.status})${payload?.message ? `: ${payload.message}` : ''}${details ? ` (${details})` : ''}`)
+    }
+    const payload = await response.json() as T
+    const etag = method === 'GET' ? response.headers.get('etag') : null
+    if (etag) this.setRestEtag(etagKey, { etag, body: structuredClone(payload) })
+    return payload
+  }
+
+  /** Per account as well as per path, so switching `gh` accounts never serves the other account's body. */
+  private static restEtagKey(token: string, path: string): string {
+    return `${createHash('sha256').update(token).digest('hex').slice(0, 16)}:${path}`
+  }
+
+  private static setRestEtag(key: string, entry: RestEtagCacheEntry): void {
+    this.restEtagCache.delete(key)
+    this.restEtagCache.set(key, entry)
+    if (this.restEtagCache.size > this.REST_ETAG_CACHE_LIMIT) {
+      const oldest = this.restEtagCache.keys().next().value
+      if (oldest !== undefined) this.restEtagCache.delete(oldest)
+    }
+  }
+
+  static async fetchPrReviewThreads(
     repoPath: string,
     prNumber: number,
-  ): Promise<PrReviewComment[]> {
+  ): Promise<PrReviewThread[]> {
     if (!(await this.isGhAvailable())) return []
     const repoInfo = await this.getGithubRepoInfo(repoPath)
     if (!repoInfo) return []
@@ -961,20 +1450,57 @@ export class GithubService {
     )
     const threads = data.data?.repository?.pullRequest?.reviewThreads?.nodes
     if (!threads) return []
-    return threads.flatMap((thread) =>
-      thread.comments.nodes.map((comment) => ({
-        id: comment.id,
-        threadId: thread.id,
+    return threads
+      .filter((thread) => thread.comments.nodes.length > 0)
+      .map((thread) => ({
+        id: thread.id,
         filePath: thread.path,
         line: thread.line,
         startLine: thread.startLine,
-        diffSide: (thread.diffSide === 'LEFT' ? 'LEFT' : 'RIGHT') as 'LEFT' | 'RIGHT',
-        body: comment.body,
-        author: comment.author?.login ?? 'unknown',
-        createdAt: comment.createdAt,
+        diffSide: thread.diffSide === 'LEFT' ? 'LEFT' : 'RIGHT',
         resolved: thread.isResolved,
-      })),
+        comments: thread.comments.nodes.map((comment) => ({
+          id: comment.id,
+          body: comment.body,
+          author: comment.author?.login ?? 'unknown',
+          createdAt: comment.createdAt,
+        })),
+      }))
+  }
+
+  static async replyToPrReviewThread(repoPath: string, threadId: string, body: string): Promise<PrReviewThreadComment> {
+    const { token } = await this.requireRestAccess(repoPath)
+    const data = await this.fetchGraphqlJson<{
+      data?: {
+        addPullRequestReviewThreadReply?: {
+          comment?: { id: string; body: string; author?: { login?: string | null } | null; createdAt: string } | null
+        } | null
+      }
+      errors?: Array<{ message?: string }>
+    }>(
+      `mutation($threadId: ID!, $body: String!) {
+        addPullRequestReviewThreadReply(input: { pullRequestReviewThreadId: $threadId, body: $body }) {
+          comment { id body author { login } createdAt }
+        }
+      }`,
+      { threadId, body },
+      token,
+    )
+    const comment = data.data?.addPullRequestReviewThreadReply?.comment
+    if (!comment) throw new Error('GitHub did not return the posted reply.')
+    this.unresolvedThreadCache.clear()
+    return { id: comment.id, body: comment.body, author: comment.author?.login ?? 'unknown', createdAt: comment.createdAt }
+  }
+
+  static async setPrReviewThreadResolved(repoPath: string, threadId: string, resolved: boolean): Promise<void> {
+    const { token } = await this.requireRestAccess(repoPath)
+    const mutation = resolved ? 'resolveReviewThread' : 'unresolveReviewThread'
+    await this.fetchGraphqlJson<{ errors?: Array<{ message?: string }> }>(
+      `mutation($threadId: ID!) { ${mutation}(input: { threadId: $threadId }) { thread { id } } }`,
+      { threadId },
+      token,
     )
+    this.unresolvedThreadCache.clear()
   }
 
   private static rollupStateToStatus(rollupState: string | undefined): CheckStatus {
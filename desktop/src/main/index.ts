@@ -233,7 +233,16 @@ app.on('window-all-closed', () => {
   }
 })
 
-app.on('before-quit', () => {
-  cleanupAll()
+/** Longest a quit waits for the final transcript flush. */
+const QUIT_FLUSH_TIMEOUT_MS = 3000
+let cleanedUp = false
+
+app.on('before-quit', (event) => {
+  if (cleanedUp) return
+  cleanedUp = true
+  // Hold the quit until buffered transcript output is in the store, then quit for real.
+  event.preventDefault()
   notificationWatcher?.stop()
+  const timeout = new Promise<void>((resolve) => setTimeout(resolve, QUIT_FLUSH_TIMEOUT_MS))
+  void Promise.race([cleanupAll().catch(() => {}), timeout]).then(() => app.quit())
 })
@@ -1,5 +1,5 @@
 import { ipcMain, dialog, app, BrowserWindow, clipboard, webContents, shell, type WebContents } from 'electron'
-import { join, relative } from 'path'
+import { dirname, join, relative } from 'path'
 import { mkdir, writeFile } from 'fs/promises'
 import { existsSync, mkdirSync, writeFileSync, realpathSync } from 'fs'
 import { tmpdir, homedir } from 'os'
@@ -17,6 +17,10 @@ import type { WorktreeCredentialRule } from '../shared/worktree-credentials'
 import type { GraphiteStackAction } from '../shared/graphite-types'
 import type { GitHunkActionRequest } from '../shared/git-hunk-action-types'
 import { PtyManager, type PtyWriteOpts } from './pty-manager'
+import { PtyScrollbackStore } from './pty-scrollback-store'
+import { TerminalTranscriptRecorder } from './terminal-transcript-recorder'
+import { TerminalTranscriptStore } from './terminal-transcript-store'
+import { StartupOrchestrator } from './startup-orchestrator'
 import { GitService } from './git-service'
 import { WorktreeSyncService } from './worktree-sync-service'
 import { GithubService } from './github-service'
@@ -25,20 +29,24 @@ import { LinearFffService } from './linear-fff-service'
 import type { LinearFffQuickOpenRequest } from '../shared/linear-fff-types'
 import { readPlanMeta } from './plan-meta'
 import { AutomationEngine } from './automation-engine'
-import type { AutomationConfigLike, AutomationWorkspaceEvent } from '../shared/automation-types'
+import type { AutomationConfigLike, AutomationRunHistoryQuery, AutomationWorkspaceEvent } from '../shared/automation-types'
 import { trustPathForClaude, loadClaudeSettings, saveClaudeSettings, loadJsonFile, saveJsonFile } from './claude-config'
 import { loadCodexConfigText, saveCodexConfigText, CODEX_CONFIG_PATH, CODEX_DIR } from './codex-config'
 import { loadMcpServersFromConfig, removeServerFromConfig } from './mcp-config'
 import { CLAUDE_CONFIG_PATH } from './claude-config'
 import { LspService } from './lsp/lsp-service'
+import { SymbolIndex, rankSymbols } from './symbol-index'
 import { SkillsService } from './skills-service'
 import { GraphiteService } from './graphite-service'
 import { t3codeService } from './t3code-service.js'
 import { ContextWindowService } from './context-window-service'
 import { closeAllAgentFS } from './agentfs-service'
 import { AnnotationService } from './annotation-service'
+import { ReviewGithubSync } from './review-github-sync'
+import { AutomationRunStore } from './automation-run-store'
+import { readProjectAutomationsFile, writeProjectAutomationsFile } from './automation-project-file'
 import { emitAutomationEvent, onAutomationEvent } from './automation-event-bus'
-import { lookupPersistedProjectRepo } from './persisted-state'
+import { lookupPersistedProjectRepo, lookupPersistedWorkspace } from './persisted-state'
 import { GithubPollService } from './github-poll-service'
 import { listPiModels } from './pi-models'
 import { CommitMessageService } from './commit-message-service'
@@ -47,20 +55,59 @@ import { requestAppRelaunch } from './app-relaunch'
 import { measureMainAsync } from './perf'
 import {
   deleteProjectStartupCommands,
+  getProjectPortNames,
   getProjectStartupCommands,
   getProjectStartupSettingsPath,
   listProjectStartupSettings,
+  setProjectPortNames,
   setProjectStartupCommands,
 } from './project-startup-settings'
+import { WorkspacePortAllocator } from './workspace-port-allocator'
 import { getConstellPiHost } from './pi-host-service'
 import type { ComposerAttachment } from '../shared/pi/pi-desktop-state'
+import type { CreatePrOptions, MergePrOptions, PrEdit, PublishPrReviewRequest } from '../shared/github-types'
+import type { TerminalTranscriptSearchHit, TranscriptExportFormat, TranscriptExportTarget } from '../shared/terminal-transcript'
+import type { StartupLaunchEntry } from '../shared/startup-commands'
+import { workspacePortEnv } from '../shared/workspace-ports'
+import type { SyncConflictResolution, WorktreeSyncStrategy } from '../shared/sync-types'
+import { DEFAULT_SYMBOL_SEARCH_LIMIT, type WorkspaceSymbolRequest, type WorkspaceSymbolResult } from '../shared/symbol-search-types'
+import {
+  formatTranscriptAsciicast,
+  formatTranscriptText,
+  locateTranscriptHit,
+  transcriptFileName,
+} from '../shared/terminal-transcript'
 
 const ptyManager = new PtyManager()
+const ptyScrollbackStore = new PtyScrollbackStore()
+const transcriptRecorder = new TerminalTranscriptRecorder(ptyManager, TerminalTranscriptStore)
+const startupOrchestrator = new StartupOrchestrator({
+  write: (ptyId, data) => ptyManager.write(ptyId, data),
+  onStatus: (status) => {
+    for (const win of BrowserWindow.getAllWindows()) {
+      if (!win.isDestroyed()) win.webContents.send(IPC.STARTUP_STATUS_CHANGED, status)
+    }
+  },
+})
 const worktreeSyncService = new WorktreeSyncService()
+const workspacePorts = new WorkspacePortAllocator()
+
+function broadcastWorkspacePorts(): void {
+  const allocations = workspacePorts.list()
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send(IPC.WORKSPACE_PORTS_CHANGED, allocations)
+  }
+}
 
 const automationEngine = new AutomationEngine(ptyManager)
 const githubPollService = new GithubPollService()
-const lspService = new LspService()
+const lspService = new LspService((worktreePath, problems) => {
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) win.webContents.send(IPC.LSP_PROBLEMS_CHANGED, worktreePath, problems)
+  }
+})
+
+const symbolIndex = new SymbolIndex((worktreePath) => FileService.listDeveloperFiles(worktreePath))
 
 const guestTabSwitchListeners = new Map<number, { inputListener: (...args: unknown[]) => void; destroyListener: () => void }>()
 // Clear all review annotations when a GitHub PR merges
@@ -100,6 +147,8 @@ interface FsWatcherEntry {
   timer: ReturnType<typeof setTimeout> | null
   subscribers: Map<number, FsWatchSubscriber>
   totalRefs: number
+  /** Worktree-relative paths changed since the last debounced notification. */
+  changed: Set<string>
 }
 
 // Filesystem watchers keyed by watched directory.
@@ -284,6 +333,26 @@ function isAllowedShellOpenUrl(url: string): boolean {
 }
 
 export function registerIpcHandlers(): void {
+  ptyScrollbackStore.load()
+  workspacePorts.load(join(app.getPath('userData'), 'constellagent-workspace-ports.json'))
+  lspService.setUserConfigPath(join(app.getPath('userData'), 'lsp-servers.json'))
+  lspService.setProjectTrustPath(join(app.getPath('userData'), 'lsp-trusted-projects.json'))
+  ptyManager.workspaceEnv = (workspaceId) => {
+    try {
+      const known = workspacePorts.get(workspaceId)
+      const allocation = known ?? workspacePorts.allocate(workspaceId)
+      if (!known) broadcastWorkspacePorts()
+      return workspacePortEnv(allocation)
+    } catch (err) {
+      console.warn('[workspace-ports]', err)
+      return null
+    }
+  }
+  ptyManager.onPtyData = (ptyId, data) => {
+    transcriptRecorder.handleData(ptyId, data)
+    startupOrchestrator.handleData(ptyId, data)
+  }
+
   // ── Git handlers ──
   ipcMain.handle(IPC.GIT_LIST_WORKTREES, async (_e, repoPath: string) => {
     return GitService.listWorktrees(repoPath)
@@ -468,14 +537,40 @@ export function registerIpcHandlers(): void {
     await worktreeSyncService.syncNow(projectId)
   })
 
-  ipcMain.handle(IPC.GIT_START_SYNC_POLLING, async (_e, projectId: string, repoPath: string) => {
-    worktreeSyncService.startPolling(projectId, repoPath)
-  })
+  ipcMain.handle(
+    IPC.GIT_START_SYNC_POLLING,
+    async (_e, projectId: string, repoPath: string, strategy?: WorktreeSyncStrategy) => {
+      worktreeSyncService.startPolling(projectId, repoPath, strategy)
+    },
+  )
 
   ipcMain.handle(IPC.GIT_STOP_SYNC_POLLING, async (_e, projectId: string) => {
     worktreeSyncService.stopPolling(projectId)
   })
 
+  ipcMain.handle(IPC.GIT_SYNC_GET_CONFLICTS, async (_e, worktreePath: string) => {
+    return worktreeSyncService.getConflicts(worktreePath)
+  })
+
+  ipcMain.handle(IPC.GIT_SYNC_GET_CONFLICT_VERSIONS, async (_e, worktreePath: string, filePath: string) => {
+    return GitService.getConflictVersions(worktreePath, filePath)
+  })
+
+  ipcMain.handle(
+    IPC.GIT_SYNC_RESOLVE_FILE,
+    async (_e, worktreePath: string, filePath: string, resolution: SyncConflictResolution) => {
+      await GitService.resolveConflictFile(worktreePath, filePath, resolution)
+    },
+  )
+
+  ipcMain.handle(IPC.GIT_SYNC_CONTINUE, async (_e, projectId: string, worktreePath: string) => {
+    return worktreeSyncService.continueSync(projectId, worktreePath)
+  })
+
+  ipcMain.handle(IPC.GIT_SYNC_ABORT, async (_e, projectId: string, worktreePath: string) => {
+    return worktreeSyncService.abortSync(projectId, worktreePath)
+  })
+
   ipcMain.on(IPC.GIT_SYNC_SET_BUSY, (_e, paths: unknown) => {
     if (!Array.isArray(paths)) return
     const strings = paths.filter((p): p is string => typeof p === 'string')
@@ -498,16 +593,63 @@ export function registerIpcHandlers(): void {
     return GithubService.resolvePr(repoPath, prNumber, repoSlug)
   })
 
-  ipcMain.handle(IPC.GITHUB_CREATE_PR, async (_e, repoPath: string, headBranch: string, baseBranch: string) => {
-    return GithubService.createPr(repoPath, headBranch, baseBranch)
-  })
+  ipcMain.handle(
+    IPC.GITHUB_CREATE_PR,
+    async (_e, repoPath: string, headBranch: string, baseBranch: string, options?: CreatePrOptions) => {
+      return GithubService.createPr(repoPath, headBranch, baseBranch, options)
+    },
+  )
 
   ipcMain.handle(IPC.GITHUB_REOPEN_PR, async (_e, repoPath: string, prNumber: number) => {
     return GithubService.reopenPr(repoPath, prNumber)
   })
 
-  ipcMain.handle(IPC.GITHUB_GET_PR_REVIEW_COMMENTS, async (_e, repoPath: string, prNumber: number) => {
-    return GithubService.fetchPrReviewComments(repoPath, prNumber)
+  ipcMain.handle(IPC.GITHUB_GET_RATE_LIMIT, async () => {
+    return GithubService.getRateLimitStatus()
+  })
+
+  ipcMain.handle(IPC.GITHUB_GET_PR_DETAILS, async (_e, repoPath: string, prNumber: number) => {
+    return GithubService.getPrDetails(repoPath, prNumber)
+  })
+
+  ipcMain.handle(IPC.GITHUB_MERGE_PR, async (_e, repoPath: string, prNumber: number, options: MergePrOptions) => {
+    await GithubService.mergePr(repoPath, prNumber, options)
+  })
+
+  ipcMain.handle(IPC.GITHUB_DISABLE_AUTO_MERGE, async (_e, repoPath: string, prNumber: number) => {
+    await GithubService.disablePrAutoMerge(repoPath, prNumber)
+  })
+
+  ipcMain.handle(IPC.GITHUB_MARK_PR_READY, async (_e, repoPath: string, prNumber: number) => {
+    await GithubService.markPrReadyForReview(repoPath, prNumber)
+  })
+
+  ipcMain.handle(IPC.GITHUB_EDIT_PR, async (_e, repoPath: string, prNumber: number, edit: PrEdit) => {
+    await GithubService.editPr(repoPath, prNumber, edit)
+  })
+
+  ipcMain.handle(IPC.GITHUB_GET_PR_REVIEW_THREADS, async (_e, worktreePath: string, prNumber: number) => {
+    return ReviewGithubSync.pullThreads(worktreePath, prNumber)
+  })
+
+  ipcMain.handle(IPC.GITHUB_REPLY_REVIEW_THREAD, async (_e, repoPath: string, threadId: string, body: string) => {
+    return GithubService.replyToPrReviewThread(repoPath, threadId, body)
+  })
+
+  ipcMain.handle(IPC.GITHUB_RESOLVE_REVIEW_THREAD, async (_e, repoPath: string, threadId: string, resolved: boolean) => {
+    await GithubService.setPrReviewThreadResolved(repoPath, threadId, resolved)
+  })
+
+  ipcMain.handle(IPC.GITHUB_LIST_CHECK_RUNS, async (_e, repoPath: string, prNumber: number) => {
+    return GithubService.listPrCheckRuns(repoPath, prNumber)
+  })
+
+  ipcMain.handle(IPC.GITHUB_GET_CHECK_FAILURE, async (_e, repoPath: string, jobId: number) => {
+    return GithubService.fetchCheckRunFailure(repoPath, jobId)
+  })
+
+  ipcMain.handle(IPC.GITHUB_PUBLISH_REVIEW, async (_e, worktreePath: string, request: PublishPrReviewRequest) => {
+    return ReviewGithubSync.publish(worktreePath, request)
   })
 
   ipcMain.handle(IPC.GITHUB_CLONE_SUGGESTIONS, async (_e, query: string) => {
@@ -565,11 +707,27 @@ export function registerIpcHandlers(): void {
   })
 
   // ── PTY handlers ──
-  ipcMain.handle(IPC.PTY_CREATE, async (_e, workingDir: string, shell?: string, extraEnv?: Record<string, string>) => {
-    const win = BrowserWindow.fromWebContents(_e.sender)
-    if (!win) throw new Error('No window found')
-    return ptyManager.create(workingDir, win.webContents, shell, undefined, undefined, extraEnv)
-  })
+  ipcMain.handle(
+    IPC.PTY_CREATE,
+    async (_e, workingDir: string, shell?: string, extraEnv?: Record<string, string>, initialWrite?: string) => {
+      const win = BrowserWindow.fromWebContents(_e.sender)
+      if (!win) throw new Error('No window found')
+      const workspaceId = extraEnv?.AGENT_ORCH_WS_ID
+      if (workspaceId && !workspacePorts.get(workspaceId)) {
+        // First terminal of a workspace that predates port allocation: pick up the project's named ports.
+        const { repoPath } = lookupPersistedWorkspace(workspaceId)
+        if (repoPath) {
+          try {
+            workspacePorts.allocate(workspaceId, await getProjectPortNames(repoPath))
+            broadcastWorkspacePorts()
+          } catch (err) {
+            console.warn('[workspace-ports]', err)
+          }
+        }
+      }
+      return ptyManager.create(workingDir, win.webContents, shell, undefined, initialWrite, extraEnv)
+    },
+  )
 
   ipcMain.on(IPC.PTY_WRITE, (_e, ptyId: string, data: string, opts?: PtyWriteOpts) => {
     ptyManager.write(ptyId, data, opts)
@@ -604,6 +762,81 @@ export function registerIpcHandlers(): void {
     return ptyManager.reattach(ptyId, win.webContents)
   })
 
+  ipcMain.handle(IPC.PTY_TAKE_SCROLLBACK, async (_e, previousPtyId: string) => {
+    return ptyScrollbackStore.take(previousPtyId)
+  })
+
+  // ── Terminal transcript handlers ──
+  ipcMain.on(IPC.TRANSCRIPT_SET_RECORDING, (_e, enabled: unknown) => {
+    transcriptRecorder.setEnabled(enabled === true)
+  })
+
+  ipcMain.handle(IPC.TRANSCRIPT_SEARCH, async (_e, repoPaths: string[], query: string, limit = 50) => {
+    await transcriptRecorder.flushAll()
+    const perRepo = await Promise.all(
+      repoPaths.map((repoPath) => TerminalTranscriptStore.search(repoPath, query, limit).catch(() => [])),
+    )
+    // Projects can share a repository (and so a database); keep each chunk once.
+    const hits = new Map<string, TerminalTranscriptSearchHit>()
+    for (const hit of perRepo.flat()) {
+      const key = `${hit.sessionId}:${hit.chunkId}`
+      if (!hits.has(key)) hits.set(key, hit)
+    }
+    return Array.from(hits.values()).sort((a, b) => b.at - a.at).slice(0, limit)
+  })
+
+  ipcMain.handle(
+    IPC.TRANSCRIPT_OPEN,
+    async (_e, repoPath: string, sessionId: string, chunkId: number, query: string) => {
+      const transcript = await TerminalTranscriptStore.get(repoPath, sessionId)
+      if (!transcript) throw new Error('This terminal transcript no longer exists')
+      const dir = join(tmpdir(), 'constellagent-transcripts')
+      await mkdir(dir, { recursive: true })
+      const path = join(dir, transcriptFileName(transcript.session, 'text'))
+      await writeFile(path, formatTranscriptText(transcript.chunks), 'utf-8')
+      return { path, lineNumber: locateTranscriptHit(transcript.chunks, chunkId, query) }
+    },
+  )
+
+  ipcMain.handle(IPC.TRANSCRIPT_EXPORT, async (_e, target: TranscriptExportTarget, format: TranscriptExportFormat) => {
+    await transcriptRecorder.flushAll()
+    const session = 'ptyId' in target ? transcriptRecorder.sessionFor(target.ptyId) : target
+    if (!session) {
+      throw new Error('This terminal has no recorded transcript. Turn on transcript recording in Settings first.')
+    }
+    const transcript = await TerminalTranscriptStore.get(session.repoPath, session.sessionId)
+    if (!transcript) throw new Error('This terminal transcript no longer exists')
+    const result = await dialog.showSaveDialog({
+      title: 'Export Terminal Transcript',
+      defaultPath: join(app.getPath('downloads'), transcriptFileName(transcript.session, format)),
+      filters: format === 'asciicast'
+        ? [{ name: 'asciicast', extensions: ['cast'] }]
+        : [{ name: 'Text', extensions: ['txt'] }],
+    })
+    if (result.canceled || !result.filePath) return null
+    const content = format === 'asciicast'
+      ? formatTranscriptAsciicast(transcript.session, transcript.chunks)
+      : formatTranscriptText(transcript.chunks)
+    await writeFile(result.filePath, content, 'utf-8')
+    return result.filePath
+  })
+
+  // ── Startup command handlers ──
+  ipcMain.handle(IPC.STARTUP_START, (_e, workspaceId: string, entries: StartupLaunchEntry[]) => {
+    for (const entry of entries) {
+      ptyManager.onExit(entry.ptyId, () => startupOrchestrator.handlePtyExit(entry.ptyId))
+    }
+    return startupOrchestrator.start(workspaceId, entries)
+  })
+
+  ipcMain.handle(IPC.STARTUP_RESTART, async (_e, workspaceId: string, name?: string) => {
+    await startupOrchestrator.restart(workspaceId, name)
+  })
+
+  ipcMain.handle(IPC.STARTUP_GET_STATUS, (_e, workspaceId: string) => {
+    return startupOrchestrator.getStatus(workspaceId)
+  })
+
   // ── File handlers ──
   ipcMain.handle(IPC.FS_GET_TREE, async (_e, dirPath: string) => {
     return FileService.getTree(dirPath)
@@ -679,6 +912,31 @@ export function registerIpcHandlers(): void {
     return FileService.codeSearch(worktreePath, request)
   })
 
+  ipcMain.handle(IPC.FS_REPLACE_PREVIEW, async (_e, worktreePath: string, request: import('../shared/code-search-types').CodeReplaceRequest) => {
+    return FileService.replacePreview(worktreePath, request)
+  })
+
+  ipcMain.handle(IPC.FS_APPLY_REPLACEMENTS, async (_e, worktreePath: string, request: import('../shared/code-search-types').CodeReplaceApplyRequest) => {
+    return FileService.applyReplacements(worktreePath, request)
+  })
+
+  ipcMain.handle(IPC.FS_SYMBOL_SEARCH, async (_e, worktreePath: string, request: WorkspaceSymbolRequest): Promise<WorkspaceSymbolResult> => {
+    const query = request.query.trim()
+    if (!query) return { state: 'ready', items: [] }
+    const limit = request.limit ?? DEFAULT_SYMBOL_SEARCH_LIMIT
+    try {
+      // Language servers answer for their own languages; the regex index covers the rest.
+      const lsp = await lspService.workspaceSymbols(worktreePath, query)
+      const indexed = await symbolIndex.search(worktreePath, query, { skipExtensions: lsp.extensions, limit })
+      return {
+        state: indexed.complete ? 'ready' : 'indexing',
+        items: rankSymbols(query, [...lsp.items, ...indexed.items], limit),
+      }
+    } catch (err) {
+      return { state: 'error', items: [], error: err instanceof Error ? err.message : String(err) }
+    }
+  })
+
   ipcMain.handle(IPC.FS_SEARCH_AGENT_PLANS, async (_e, worktreePath: string | string[], request: import('../shared/agent-plan-path').AgentPlanSearchRequest) => {
     return FileService.searchAgentPlanMarkdowns(worktreePath, request)
   })
@@ -751,11 +1009,15 @@ export function registerIpcHandlers(): void {
 
         const entry = fsWatchers.get(dirPath)
         if (!entry) return
+        if (filename) entry.changed.add(filename.replaceAll('\\', '/'))
 
         // Debounce: wait 500ms of quiet before notifying
         if (entry.timer) clearTimeout(entry.timer)
         entry.timer = setTimeout(() => {
           void FileService.refreshQuickOpenSearch(dirPath)
+          lspService.notifyFilesChanged(dirPath, [...entry.changed])
+          symbolIndex.invalidate(dirPath, [...entry.changed])
+          entry.changed.clear()
           for (const [id, subscriber] of entry.subscribers.entries()) {
             if (subscriber.webContents.isDestroyed()) {
               entry.totalRefs = Math.max(0, entry.totalRefs - subscriber.refs)
@@ -778,6 +1040,7 @@ export function registerIpcHandlers(): void {
         timer: null,
         subscribers: new Map([[senderId, { webContents: _e.sender, refs: 1 }]]),
         totalRefs: 1,
+        changed: new Set(),
       })
     } catch {
       // Directory may not exist or be inaccessible — ignore
@@ -827,6 +1090,10 @@ export function registerIpcHandlers(): void {
     return CommitMessageService.generateWithPi(worktreePath)
   })
 
+  ipcMain.handle(IPC.APP_GENERATE_PR_DESCRIPTION, async (_e, worktreePath: string, baseBranch: string) => {
+    return CommitMessageService.generatePrDescriptionWithPi(worktreePath, baseBranch)
+  })
+
   ipcMain.handle(
     IPC.APP_GENERATE_LINEAR_ISSUE_DRAFT,
     async (
@@ -1241,7 +1508,31 @@ export function registerIpcHandlers(): void {
   })
 
   ipcMain.handle(IPC.AUTOMATION_STOP, async (_e, automationId: string) => {
-    automationEngine.remove(automationId)
+    return automationEngine.stop(automationId)
+  })
+
+  ipcMain.handle(IPC.AUTOMATION_LIST_RUNS, async (_e, repoPath: string, projectId: string, query?: AutomationRunHistoryQuery) => {
+    return AutomationRunStore.list(repoPath, projectId, query)
+  })
+
+  ipcMain.handle(IPC.AUTOMATION_CLEAR_RUNS, async (_e, repoPath: string, automationId: string) => {
+    await AutomationRunStore.clear(repoPath, automationId)
+  })
+
+  ipcMain.handle(IPC.AUTOMATION_TEST_FILTERS, async (_e, automation: AutomationConfigLike) => {
+    return automationEngine.testFilters(automation)
+  })
+
+  ipcMain.handle(IPC.AUTOMATION_WEBHOOK_INFO, async () => {
+    return automationEngine.getWebhookInfo()
+  })
+
+  ipcMain.handle(IPC.AUTOMATION_READ_PROJECT_FILE, async (_e, repoPath: string) => {
+    return readProjectAutomationsFile(repoPath)
+  })
+
+  ipcMain.handle(IPC.AUTOMATION_WRITE_PROJECT_FILE, async (_e, repoPath: string, automations: AutomationConfigLike[]) => {
+    return writeProjectAutomationsFile(repoPath, automations)
   })
 
   ipcMain.on(IPC.AUTOMATION_WORKSPACE_EVENT, (_e, payload: AutomationWorkspaceEvent) => {
@@ -1264,6 +1555,44 @@ export function registerIpcHandlers(): void {
     return lspService.getAvailableLanguages()
   })
 
+  ipcMain.handle(IPC.LSP_RESOLVE_SERVER, async (_e, worktreePath: string, filePath: string, languageOverride?: string | null) => {
+    return lspService.resolveServer(worktreePath, filePath, languageOverride)
+  })
+
+  ipcMain.handle(IPC.LSP_LIST_SERVERS, async () => {
+    return lspService.listServers()
+  })
+
+  ipcMain.handle(IPC.LSP_RESTART_SERVER, async (_e, serverKey: string, root: string) => {
+    return lspService.restartServer(serverKey, root)
+  })
+
+  ipcMain.handle(IPC.LSP_GET_PROBLEMS, async (_e, worktreePath: string) => {
+    return lspService.getProblems(worktreePath)
+  })
+
+  ipcMain.handle(
+    IPC.LSP_GET_UNTRUSTED_PROJECT_CONFIG,
+    async (_e, worktreePath: string, filePath?: string, languageOverride?: string | null) => {
+      return lspService.getUntrustedProjectConfig(worktreePath, filePath, languageOverride)
+    },
+  )
+
+  ipcMain.handle(IPC.LSP_TRUST_PROJECT_CONFIG, async (_e, worktreePath: string, fingerprint: string) => {
+    await lspService.trustProjectConfig(worktreePath, fingerprint)
+  })
+
+  // Creates an empty config on first use so it can be opened in an editor tab
+  ipcMain.handle(IPC.LSP_GET_USER_CONFIG_PATH, async () => {
+    const configPath = lspService.getUserConfigPath()
+    if (!configPath) return null
+    if (!existsSync(configPath)) {
+      mkdirSync(dirname(configPath), { recursive: true })
+      writeFileSync(configPath, JSON.stringify({ servers: {} }, null, 2) + '\n', 'utf-8')
+    }
+    return configPath
+  })
+
   // ── App file picker ──
   ipcMain.handle(IPC.APP_SELECT_FILE, async (_e, filters?: { name: string; extensions: string[] }[]) => {
     const result = await dialog.showOpenDialog({
@@ -1397,6 +1726,9 @@ export function registerIpcHandlers(): void {
 
   ipcMain.handle(IPC.REVIEW_COMMENT_REMOVE, async (_e, worktreePath: string, commentId: string) => {
     await AnnotationService.removeComment(worktreePath, commentId)
+    await ReviewGithubSync.forget(worktreePath, commentId).catch((err) => {
+      console.warn('[review-annotations] failed to drop GitHub link:', err)
+    })
   })
 
   ipcMain.handle(IPC.REVIEW_COMMENT_CLEAR, async (_e, worktreePath: string, file?: string) => {
@@ -1405,6 +1737,10 @@ export function registerIpcHandlers(): void {
 
   ipcMain.handle(IPC.REVIEW_COMMENT_RESOLVE, async (_e, worktreePath: string, commentId: string, resolved: boolean) => {
     await AnnotationService.setResolved(worktreePath, commentId, resolved)
+    // Best effort: the local state is authoritative and GitHub may be unreachable or the review still pending.
+    await ReviewGithubSync.syncResolution(worktreePath, commentId, resolved).catch((err) => {
+      console.warn('[review-annotations] failed to sync resolution to GitHub:', err)
+    })
   })
 
   // ── T3 Code server handlers ──
@@ -1514,6 +1850,29 @@ export function registerIpcHandlers(): void {
     return getProjectStartupSettingsPath()
   })
 
+  ipcMain.handle(IPC.PROJECT_STARTUP_SETTINGS_GET_PORTS, async (_e, repoPath: string) => {
+    return await getProjectPortNames(repoPath)
+  })
+
+  ipcMain.handle(IPC.PROJECT_STARTUP_SETTINGS_SET_PORTS, async (_e, repoPath: string, ports: unknown) => {
+    return await setProjectPortNames(repoPath, ports)
+  })
+
+  // ── Workspace ports ──
+  ipcMain.handle(IPC.WORKSPACE_PORTS_ALLOCATE, async (_e, workspaceId: string, repoPath: string) => {
+    const allocation = workspacePorts.allocate(workspaceId, await getProjectPortNames(repoPath))
+    broadcastWorkspacePorts()
+    return allocation
+  })
+
+  ipcMain.handle(IPC.WORKSPACE_PORTS_RELEASE, (_e, workspaceId: string) => {
+    if (workspacePorts.release(workspaceId)) broadcastWorkspacePorts()
+  })
+
+  ipcMain.handle(IPC.WORKSPACE_PORTS_LIST, () => {
+    return workspacePorts.list()
+  })
+
   // ── Pi SDK (in-process) ──
   const piHost = getConstellPiHost()
   ipcMain.handle(IPC.PI_GET_STATE, async () => piHost.getState())
@@ -1562,17 +1921,26 @@ export function getGithubPollService(): GithubPollService {
   return githubPollService
 }
 
-/** Kill all PTY processes and stop all automation jobs. Call on app quit. */
-export function cleanupAll(): void {
+/**
+ * Kill all PTY processes and stop all automation jobs. Call on app quit; resolves once the
+ * last transcript output has been written.
+ */
+export function cleanupAll(): Promise<void> {
   worktreeSyncService.stopAll()
+  ptyScrollbackStore.save(ptyManager.snapshotScrollback())
+  const transcriptsFlushed = transcriptRecorder.stop().finally(() => TerminalTranscriptStore.cleanupAll())
+  startupOrchestrator.destroyAll()
   ptyManager.destroyAll()
   automationEngine.destroyAll()
   githubPollService.stop()
   lspService.shutdown()
+  symbolIndex.dispose()
   AnnotationService.cleanupAll()
+  AutomationRunStore.cleanupAll()
   FileService.disposeQuickOpenSearch()
   LinearFffService.disposeAll()
   t3codeService.stopAll()
   guestTabSwitchListeners.clear()
   closeAllAgentFS().catch(() => {})
+  return transcriptsFlushed
 }
@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  LSP_SERVERS,
+  findLocalServerBinary,
+  findServerForFile,
+  findServerRoot,
+  getConfigurationSection,
+  launchFieldsFingerprint,
+  mergeLspServers,
+  parseLspConfig,
+  projectLaunchFields,
+  resolveServerBinary,
+  withoutLaunchFields,
+} from './lsp-config'
+import {
+  answerConfigurationRequest,
+  createLspMessageReader,
+  encodeLspMessage,
+  prepareInitializeRequest,
+  symbolsFromWorkspaceSymbolResult,
+} from './lsp-protocol'
+
+describe('parseLspConfig', () => {
+  it('keeps valid fields and reports invalid ones', () => {
+    const { servers, errors } = parseLspConfig({
+      servers: {
+        clangd: { command: 'clangd', extensions: ['c', '.H'], args: 'nope' },
+        'bad key': { command: 'x' },
+      },
+    })
+    expect(servers.clangd).toEqual({ command: 'clangd', extensions: ['.c', '.h'] })
+    expect(errors).toEqual([
+      '"clangd".args: expected an array of strings',
+      '"bad key": server names may only use letters, digits, ".", "_" and "-"',
+    ])
+  })
+
+  it('rejects a non-object file', () => {
+    expect(parseLspConfig([]).errors).toEqual(['Expected a JSON object'])
+  })
+})
+
+describe('mergeLspServers', () => {
+  it('layers user then project config over the built-ins', () => {
+    const merged = mergeLspServers(
+      LSP_SERVERS,
+      {
+        typescript: { initializationOptions: { preferences: { quoteStyle: 'single' } }, env: { A: '1' } },
+        clangd: { command: 'clangd', extensions: ['.c', '.cpp'] },
+      },
+      {
+        typescript: { initializationOptions: { preferences: { importModuleSpecifier: 'relative' } }, env: { B: '2' } },
+        prisma: { disabled: true },
+      },
+    )
+    const ts = merged.find((s) => s.language === 'typescript')!
+    expect(ts.command).toBe('typescript-language-server')
+    expect(ts.env).toEqual({ A: '1', B: '2' })
+    expect(ts.initializationOptions).toEqual({
+      preferences: { quoteStyle: 'single', importModuleSpecifier: 'relative' },
+    })
+    expect(merged.find((s) => s.language === 'prisma')).toBeUndefined()
+    expect(merged.find((s) => s.language === 'clangd')).toEqual({
+      language: 'clangd',
+      command: 'clangd',
+      args: [],
+      extensions: ['.c', '.cpp'],
+    })
+  })
+
+  it('ignores new servers without a command or extensions', () => {
+    const merged = mergeLspServers(LSP_SERVERS, { 'ruby-lsp': { command: 'ruby-lsp' } })
+    expect(merged.map((s) => s.language)).not.toContain('ruby-lsp')
+  })
+})
+
+describe('findServerForFile', () => {
+  it('matches by extension, or by language id when overridden', () => {
+    expect(findServerForFile(LSP_SERVERS, '/w/a.TSX')?.language).toBe('typescript')
+    expect(findServerForFile(LSP_SERVERS, '/w/Makefile')).toBeNull()
+    expect(findServerForFile(LSP_SERVERS, '/w/script', 'python')?.language).toBe('python')
+    expect(findServerForFile(LSP_SERVERS, '/w/a.ts', 'plaintext')).toBeNull()
+  })
+})
+
+describe('findServerRoot', () => {
+  const files = new Set(['/w/package.json', '/w/packages/app/package.json'])
+  const exists = (path: string) => files.has(path)
+
+  it('uses the nearest marker inside the worktree', () => {
+    expect(findServerRoot('/w/packages/app/src/a.ts', '/w', ['package.json'], exists)).toBe('/w/packages/app')
+    expect(findServerRoot('/w/tools/b.ts', '/w', ['package.json'], exists)).toBe('/w')
+  })
+
+  it('falls back to the worktree without markers or outside it', () => {
+    expect(findServerRoot('/w/packages/app/a.ts', '/w', undefined, exists)).toBe('/w')
+    expect(findServerRoot('/elsewhere/a.ts', '/w', ['package.json'], exists)).toBe('/w')
+  })
+})
+
+describe('resolveServerBinary', () => {
+  const files = new Set([
+    '/w/node_modules/.bin/typescript-language-server',
+    '/w/packages/app/node_modules/.bin/typescript-language-server',
+    '/w/.venv/bin/pyright-langserver',
+    '/w/tools/clangd',
+  ])
+  const exists = (path: string) => files.has(path)
+  const onPath = async (command: string) => (command === 'gopls' ? '/usr/bin/gopls' : null)
+
+  it('prefers the nearest local bin directory, then PATH', async () => {
+    expect(await resolveServerBinary('typescript-language-server', '/w/packages/app', '/w', true, exists, onPath))
+      .toBe('/w/packages/app/node_modules/.bin/typescript-language-server')
+    expect(await resolveServerBinary('typescript-language-server', '/w/packages/lib', '/w', true, exists, onPath))
+      .toBe('/w/node_modules/.bin/typescript-language-server')
+    expect(await resolveServerBinary('pyright-langserver', '/w', '/w', true, exists, onPath)).toBe('/w/.venv/bin/pyright-langserver')
+    expect(await resolveServerBinary('gopls', '/w', '/w', true, exists, onPath)).toBe('/usr/bin/gopls')
+    expect(await resolveServerBinary('rust-analyzer', '/w', '/w', true, exists, onPath)).toBeNull()
+  })
+
+  it('skips the worktree bin directories of an untrusted repo', async () => {
+    expect(await resolveServerBinary('typescript-language-server', '/w/packages/app', '/w', false, exists, onPath)).toBeNull()
+    expect(await resolveServerBinary('gopls', '/w', '/w', false, exists, onPath)).toBe('/usr/bin/gopls')
+    expect(findLocalServerBinary('pyright-langserver', '/w', '/w', exists)).toBe('/w/.venv/bin/pyright-langserver')
+  })
+
+  it('resolves relative command paths against the worktree', async () => {
+    expect(await resolveServerBinary('./tools/clangd', '/w', '/w', true, exists, onPath)).toBe('/w/tools/clangd')
+    expect(await resolveServerBinary('./tools/missing', '/w', '/w', true, exists, onPath)).toBeNull()
+  })
+})
+
+describe('project launch fields', () => {
+  const project = {
+    python: { command: './tools/pyright', env: { NODE_OPTIONS: '--require ./x.js' }, rootMarkers: ['pyproject.toml'] },
+    go: { settings: { gopls: { staticcheck: true } } },
+  }
+
+  it('separates what runs from the rest of a project config', () => {
+    expect(projectLaunchFields(project)).toEqual({
+      python: { command: './tools/pyright', env: { NODE_OPTIONS: '--require ./x.js' } },
+    })
+    expect(withoutLaunchFields(project)).toEqual({
+      python: { rootMarkers: ['pyproject.toml'] },
+      go: { settings: { gopls: { staticcheck: true } } },
+    })
+    expect(projectLaunchFields({ go: project.go })).toEqual({})
+  })
+
+  it('fingerprints launch fields independent of key order', () => {
+    const a = launchFieldsFingerprint({ python: { command: 'x', env: { A: '1', B: '2' } } })
+    expect(launchFieldsFingerprint({ python: { env: { B: '2', A: '1' }, command: 'x' } })).toBe(a)
+    expect(launchFieldsFingerprint({ python: { command: 'y', env: { A: '1', B: '2' } } })).not.toBe(a)
+  })
+})
+
+describe('getConfigurationSection', () => {
+  const settings = { python: { analysis: { typeCheckingMode: 'strict' } }, 'rust-analyzer.check': { command: 'clippy' } }
+
+  it('walks dotted sections and prefers exact keys', () => {
+    expect(getConfigurationSection(settings, 'python.analysis')).toEqual({ typeCheckingMode: 'strict' })
+    expect(getConfigurationSection(settings, 'rust-analyzer.check')).toEqual({ command: 'clippy' })
+    expect(getConfigurationSection(settings, 'missing.section')).toBeNull()
+    expect(getConfigurationSection(undefined, 'python')).toBeNull()
+  })
+})
+
+describe('lsp protocol', () => {
+  const config = {
+    language: 'typescript',
+    command: 'typescript-language-server',
+    args: ['--stdio'],
+    extensions: ['.ts'],
+    initializationOptions: { preferences: { quoteStyle: 'single' }, maxTsServerMemory: 4096 },
+    settings: { typescript: { format: { semicolons: 'remove' } } },
+  }
+
+  it('points initialize at the server root and merges initializationOptions', () => {
+    const prepared = prepareInitializeRequest(
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: 'file:///w', initializationOptions: { maxTsServerMemory: 2048 } } },
+      config,
+      '/w/packages/app',
+    )
+    const params = prepared.params as Record<string, unknown>
+    expect(params.rootUri).toBe('file:///w/packages/app')
+    expect(params.workspaceFolders).toEqual([{ uri: 'file:///w/packages/app', name: 'app' }])
+    expect(params.initializationOptions).toEqual({ preferences: { quoteStyle: 'single' }, maxTsServerMemory: 2048 })
+    expect((params.capabilities as { workspace: unknown }).workspace).toEqual({
+      configuration: true,
+      workspaceFolders: true,
+      didChangeWatchedFiles: { dynamicRegistration: false },
+    })
+  })
+
+  it('answers workspace/configuration from settings', () => {
+    expect(answerConfigurationRequest(
+      { jsonrpc: '2.0', id: 7, method: 'workspace/configuration', params: { items: [{ section: 'typescript.format' }, {}] } },
+      config,
+    )).toEqual({ jsonrpc: '2.0', id: 7, result: [{ semicolons: 'remove' }, config.settings] })
+    expect(answerConfigurationRequest({ jsonrpc: '2.0', method: 'window/logMessage' }, config)).toBeNull()
+  })
+
+  it('reassembles framed messages split across chunks', () => {
+    const bodies: string[] = []
+    const read = createLspMessageReader((body) => bodies.push(body))
+    const framed = Buffer.from(encodeLspMessage('{"id":1,"é":true}') + encodeLspMessage('{"id":2}'))
+    read(framed.subarray(0, 10))
+    read(framed.subarray(10, 30))
+    read(framed.subarray(30))
+    expect(bodies).toEqual(['{"id":1,"é":true}', '{"id":2}'])
+  })
+})
+
+describe('symbolsFromWorkspaceSymbolResult', () => {
+  it('reads SymbolInformation and WorkspaceSymbol entries inside the worktree', () => {
+    const items = symbolsFromWorkspaceSymbolResult([
+      { name: 'Store', kind: 5, location: { uri: 'file:///w/src/store.ts', range: { start: { line: 9, character: 2 }, end: { line: 9, character: 7 } } } },
+      { name: 'load', kind: 6, containerName: 'Store', location: { uri: 'file:///w/src/store.ts' } },
+      { name: 'outside', kind: 12, location: { uri: 'file:///elsewhere/a.ts', range: { start: { line: 0, character: 0 } } } },
+      { name: 'dep', kind: 12, location: { uri: 'file:///w/node_modules/x/index.d.ts', range: { start: { line: 0, character: 0 } } } },
+    ], '/w')
+    expect(items).toEqual([
+      { name: 'Store', kind: 'class', path: '/w/src/store.ts', relativePath: 'src/store.ts', lineNumber: 10, column: 3, source: 'lsp' },
+      { name: 'load', kind: 'method', containerName: 'Store', path: '/w/src/store.ts', relativePath: 'src/store.ts', lineNumber: 1, column: 1, source: 'lsp' },
+    ])
+    expect(symbolsFromWorkspaceSymbolResult(null, '/w')).toEqual([])
+  })
+})
@@ -1,12 +1,14 @@
-import { execFileSync } from 'child_process'
+import { execFile } from 'child_process'
+import { createHash } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { dirname, extname, isAbsolute, join, relative, resolve } from 'path'
+import { promisify } from 'util'
+import type { LspConfigFile, LspServerConfig, LspServerOverride } from '../../shared/lsp-types'
+import { LSP_PROJECT_CONFIG_PATH } from '../../shared/lsp-types'
 
-export interface LspServerConfig {
-  language: string
-  command: string
-  args: string[]
-  /** File extensions this server handles */
-  extensions: string[]
-}
+export type { LspServerConfig } from '../../shared/lsp-types'
+
+const execFileAsync = promisify(execFile)
 
 export const LSP_SERVERS: LspServerConfig[] = [
   {
@@ -14,46 +16,337 @@ export const LSP_SERVERS: LspServerConfig[] = [
     command: 'pyright-langserver',
     args: ['--stdio'],
     extensions: ['.py'],
+    languageIds: ['python'],
   },
   {
     language: 'go',
     command: 'gopls',
     args: ['serve'],
     extensions: ['.go'],
+    languageIds: ['go'],
   },
   {
     language: 'rust',
     command: 'rust-analyzer',
     args: [],
     extensions: ['.rs'],
+    languageIds: ['rust'],
   },
   {
     language: 'typescript',
     command: 'typescript-language-server',
     args: ['--stdio'],
     extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+    languageIds: ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'],
   },
   {
     language: 'prisma',
     command: 'prisma-language-server',
     args: ['--stdio'],
     extensions: ['.prisma'],
+    languageIds: ['prisma'],
   },
 ]
 
-export function isServerAvailable(command: string): boolean {
+/**
+ * Worktree directories searched for a server binary before `PATH`, nearest root first. What
+ * they hold comes with the repository, so they are only searched once it is trusted.
+ */
+const LOCAL_BIN_DIRS = [join('node_modules', '.bin'), join('.venv', 'bin'), join('venv', 'bin')]
+
+const SERVER_KEY_RE = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/
+
+/** Fields of a project config that decide what gets executed; applied only in trusted repos. */
+const PROJECT_LAUNCH_FIELDS = ['command', 'args', 'env'] as const
+
+type LspLaunchOverride = Pick<LspServerOverride, (typeof PROJECT_LAUNCH_FIELDS)[number]>
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function stringList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) return null
+  return value as string[]
+}
+
+function mergeObjects(base: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(patch)) {
+    out[key] = isPlainObject(value) && isPlainObject(out[key])
+      ? mergeObjects(out[key] as Record<string, unknown>, value)
+      : value
+  }
+  return out
+}
+
+/**
+ * Validates the `servers` map of a config file. Invalid fields are dropped and reported;
+ * the rest of the entry still applies.
+ */
+export function parseLspConfig(raw: unknown): { servers: Record<string, LspServerOverride>; errors: string[] } {
+  const servers: Record<string, LspServerOverride> = {}
+  const errors: string[] = []
+  if (!isPlainObject(raw)) return { servers, errors: ['Expected a JSON object'] }
+  const file = raw as LspConfigFile
+  if (file.servers === undefined) return { servers, errors }
+  if (!isPlainObject(file.servers)) return { servers, errors: ['"servers" must be an object'] }
+
+  for (const [key, value] of Object.entries(file.servers)) {
+    if (!SERVER_KEY_RE.test(key)) {
+      errors.push(`"${key}": server names may only use letters, digits, ".", "_" and "-"`)
+      continue
+    }
+    if (!isPlainObject(value)) {
+      errors.push(`"${key}": expected an object`)
+      continue
+    }
+    const entry: LspServerOverride = {}
+    const invalid = (field: string, expected: string) => errors.push(`"${key}".${field}: expected ${expected}`)
+
+    if (value.disabled !== undefined) {
+      if (typeof value.disabled === 'boolean') entry.disabled = value.disabled
+      else invalid('disabled', 'a boolean')
+    }
+    if (value.command !== undefined) {
+      if (typeof value.command === 'string' && value.command.trim()) entry.command = value.command.trim()
+      else invalid('command', 'a non-empty string')
+    }
+    for (const field of ['args', 'extensions', 'languageIds', 'rootMarkers'] as const) {
+      if (value[field] === undefined) continue
+      const list = stringList(value[field])
+      if (!list) {
+        invalid(field, 'an array of strings')
+        continue
+      }
+      entry[field] = field === 'extensions'
+        ? list.map((ext) => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase())
+        : list
+    }
+    if (value.env !== undefined) {
+      if (isPlainObject(value.env) && Object.values(value.env).every((v) => typeof v === 'string')) {
+        entry.env = value.env as Record<string, string>
+      } else {
+        invalid('env', 'an object of strings')
+      }
+    }
+    for (const field of ['initializationOptions', 'settings'] as const) {
+      if (value[field] === undefined) continue
+      if (isPlainObject(value[field])) entry[field] = value[field] as Record<string, unknown>
+      else invalid(field, 'an object')
+    }
+    servers[key] = entry
+  }
+  return { servers, errors }
+}
+
+/**
+ * Applies config layers (user, then project) over the built-ins. Fields replace the built-in
+ * value, except `env`, `initializationOptions` and `settings`, which are deep-merged. A new
+ * server needs at least a command and extensions.
+ */
+export function mergeLspServers(
+  base: LspServerConfig[],
+  ...layers: Array<Record<string, LspServerOverride>>
+): LspServerConfig[] {
+  const servers = new Map(base.map((server) => [server.language, { ...server }]))
+  for (const layer of layers) {
+    for (const [language, override] of Object.entries(layer)) {
+      if (override.disabled) {
+        servers.delete(language)
+        continue
+      }
+      const fields: LspServerOverride = { ...override }
+      delete fields.disabled
+      const existing = servers.get(language)
+      if (!existing) {
+        if (!fields.command || !fields.extensions?.length) continue
+        servers.set(language, { args: [], ...fields, language, command: fields.command, extensions: fields.extensions })
+        continue
+      }
+      const merged: LspServerConfig = { ...existing, ...fields }
+      if (existing.env && fields.env) merged.env = { ...existing.env, ...fields.env }
+      for (const field of ['initializationOptions', 'settings'] as const) {
+        const base = existing[field]
+        const patch = fields[field]
+        if (base && patch) merged[field] = mergeObjects(base, patch)
+      }
+      servers.set(language, merged)
+    }
+  }
+  return Array.from(servers.values())
+}
+
+function readConfigFile(filePath: string | null): Record<string, LspServerOverride> {
+  if (!filePath || !existsSync(filePath)) return {}
   try {
-    execFileSync('which', [command], { encoding: 'utf-8', stdio: 'pipe' })
-    return true
+    const { servers, errors } = parseLspConfig(JSON.parse(readFileSync(filePath, 'utf-8')))
+    for (const error of errors) console.warn(`[lsp] ${filePath}: ${error}`)
+    return servers
+  } catch (err) {
+    console.warn(`[lsp] failed to read ${filePath}:`, err)
+    return {}
+  }
+}
+
+/** The worktree's checked-in overrides (`.constellagent/lsp.json`), or none. */
+export function readProjectLspConfig(worktreePath: string): Record<string, LspServerOverride> {
+  return readConfigFile(join(worktreePath, LSP_PROJECT_CONFIG_PATH))
+}
+
+/** The `command`, `args` and `env` a project config sets, by server; empty when it sets none. */
+export function projectLaunchFields(project: Record<string, LspServerOverride>): Record<string, LspLaunchOverride> {
+  const launch: Record<string, LspLaunchOverride> = {}
+  for (const [key, override] of Object.entries(project)) {
+    const fields: LspLaunchOverride = {}
+    for (const field of PROJECT_LAUNCH_FIELDS) {
+      if (override[field] !== undefined) Object.assign(fields, { [field]: override[field] })
+    }
+    if (Object.keys(fields).length > 0) launch[key] = fields
+  }
+  return launch
+}
+
+/** A project config without the fields that need the repository to be trusted. */
+export function withoutLaunchFields(project: Record<string, LspServerOverride>): Record<string, LspServerOverride> {
+  return Object.fromEntries(Object.entries(project).map(([key, override]) => {
+    const safe: LspServerOverride = { ...override }
+    for (const field of PROJECT_LAUNCH_FIELDS) delete safe[field]
+    return [key, safe]
+  }))
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (!isPlainObject(value)) return value
+  return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys(value[key])]))
+}
+
+/** Hash of the launch fields a user trusted; editing them asks for trust again. */
+export function launchFieldsFingerprint(launch: Record<string, LspLaunchOverride>): string {
+  return createHash('sha256').update(JSON.stringify(sortKeys(launch))).digest('hex')
+}
+
+/** Built-ins with the user config and, when given, the worktree's project layer applied. */
+export function loadLspServers(
+  userConfigPath: string | null,
+  project: Record<string, LspServerOverride> = {},
+): LspServerConfig[] {
+  return mergeLspServers(LSP_SERVERS, readConfigFile(userConfigPath), project)
+}
+
+/**
+ * The server for a file. With a language override from the editor only `languageIds` count,
+ * so switching a file to plain text detaches it; otherwise the extension decides.
+ */
+export function findServerForFile(
+  servers: LspServerConfig[],
+  filePath: string,
+  languageOverride?: string | null,
+): LspServerConfig | null {
+  if (languageOverride) {
+    return servers.find((server) => server.languageIds?.includes(languageOverride)) ?? null
+  }
+  const ext = extname(filePath).toLowerCase()
+  if (!ext) return null
+  return servers.find((server) => server.extensions.includes(ext)) ?? null
+}
+
+function isInside(parent: string, child: string): boolean {
+  const rel = relative(parent, child)
+  return rel === '' || (!!rel && !rel.startsWith('..') && !isAbsolute(rel))
+}
+
+/** Nearest directory between the file and the worktree root that contains a root marker. */
+export function findServerRoot(
+  filePath: string,
+  worktreePath: string,
+  rootMarkers: string[] | undefined,
+  exists: (path: string) => boolean = existsSync,
+): string {
+  const worktree = resolve(worktreePath)
+  if (!rootMarkers?.length || !isInside(worktree, resolve(filePath))) return worktree
+  let dir = dirname(resolve(filePath))
+  while (isInside(worktree, dir)) {
+    if (rootMarkers.some((marker) => exists(join(dir, marker)))) return dir
+    if (dir === worktree) break
+    dir = dirname(dir)
+  }
+  return worktree
+}
+
+async function findOnPath(command: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('which', [command], { encoding: 'utf-8' })
+    return stdout.trim() || null
   } catch {
-    return false
+    return null
+  }
+}
+
+function isCommandPath(command: string): boolean {
+  return command.includes('/') || command.includes('\\')
+}
+
+/** The worktree's own copy of a bare server command, searched from the server root up. */
+export function findLocalServerBinary(
+  command: string,
+  root: string,
+  worktreePath: string,
+  exists: (path: string) => boolean = existsSync,
+): string | null {
+  if (isCommandPath(command)) return null
+  const worktree = resolve(worktreePath)
+  let dir = isInside(worktree, resolve(root)) ? resolve(root) : worktree
+  while (true) {
+    for (const binDir of LOCAL_BIN_DIRS) {
+      const candidate = join(dir, binDir, command)
+      if (exists(candidate)) return candidate
+    }
+    if (dir === worktree) return null
+    dir = dirname(dir)
+  }
+}
+
+/**
+ * Absolute path of the server binary: paths in the config resolve against the worktree, bare
+ * names are looked up in the worktree's local bin directories (when `useLocalBins`) before
+ * `PATH`, so a trusted project's pinned `typescript-language-server` wins over a global one.
+ */
+export async function resolveServerBinary(
+  command: string,
+  root: string,
+  worktreePath: string,
+  useLocalBins: boolean,
+  exists: (path: string) => boolean = existsSync,
+  lookupPath: (command: string) => Promise<string | null> = findOnPath,
+): Promise<string | null> {
+  if (isCommandPath(command)) {
+    const absolute = resolve(worktreePath, command)
+    return exists(absolute) ? absolute : null
   }
+  return (useLocalBins ? findLocalServerBinary(command, root, worktreePath, exists) : null) ?? lookupPath(command)
 }
 
-export function getServerConfig(language: string): LspServerConfig | undefined {
-  return LSP_SERVERS.find((s) => s.language === language)
+export async function isServerAvailable(command: string): Promise<boolean> {
+  return (await findOnPath(command)) !== null
+}
+
+/** Value for one `workspace/configuration` item; a dotted section walks into `settings`. */
+export function getConfigurationSection(settings: Record<string, unknown> | undefined, section?: string): unknown {
+  if (!settings) return null
+  if (!section) return settings
+  if (section in settings) return settings[section]
+  let value: unknown = settings
+  for (const part of section.split('.')) {
+    if (!isPlainObject(value) || !(part in value)) return null
+    value = value[part]
+  }
+  return value
 }
 
-export function getAvailableLanguages(): string[] {
-  return LSP_SERVERS.filter((s) => isServerAvailable(s.command)).map((s) => s.language)
+export async function getAvailableLanguages(userConfigPath: string | null = null): Promise<string[]> {
+  const servers = loadLspServers(userConfigPath)
+  const available = await Promise.all(servers.map((s) => isServerAvailable(s.command)))
+  return servers.filter((_, index) => available[index]).map((s) => s.language)
 }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import { LspDiagnosticsStore } from './lsp-diagnostics'
+import { createWatchedFilesNotification } from './lsp-protocol'
+
+const diagnostic = (line: number, message: string) => ({
+  range: { start: { line, character: 0 }, end: { line, character: 1 } },
+  severity: 1,
+  message,
+})
+
+describe('LspDiagnosticsStore', () => {
+  it('replaces a file on each publish and reports which worktree changed', () => {
+    const store = new LspDiagnosticsStore()
+    expect(store.publish('ts:/w', '/w', { uri: 'file:///w/a.ts', diagnostics: [diagnostic(0, 'one'), diagnostic(1, 'two')] })).toBe('/w')
+    expect(store.publish('ts:/w', '/w', { uri: 'file:///w/a.ts', diagnostics: [diagnostic(4, 'three')] })).toBe('/w')
+    expect(store.problemsFor('/w').map((p) => [p.line, p.message])).toEqual([[5, 'three']])
+
+    expect(store.publish('ts:/w', '/w', { uri: 'file:///w/a.ts', diagnostics: [] })).toBe('/w')
+    expect(store.publish('ts:/w', '/w', { uri: 'file:///w/a.ts', diagnostics: [] })).toBeNull()
+    expect(store.problemsFor('/w')).toEqual([])
+  })
+
+  it('maps language-override model URIs back to the file and forgets stopped servers', () => {
+    const store = new LspDiagnosticsStore()
+    store.publish('py:/w', '/w', { uri: 'file:///w/bin/tool.__constellagent__.py', diagnostics: [diagnostic(0, 'x')] })
+    store.publish('ts:/v', '/v', { uri: 'file:///v/a.ts', diagnostics: [diagnostic(0, 'y')] })
+    expect(store.problemsFor('/w').map((p) => p.filePath)).toEqual(['/w/bin/tool'])
+
+    expect(store.clearServer('py:/w')).toBe('/w')
+    expect(store.clearServer('py:/w')).toBeNull()
+    expect(store.problemsFor('/w')).toEqual([])
+    expect(store.problemsFor('/v')).toHaveLength(1)
+  })
+})
+
+describe('createWatchedFilesNotification', () => {
+  it('reports files under the server root, skipping VCS and dependency directories', () => {
+    const notification = createWatchedFilesNotification(
+      '/w',
+      '/w/packages/api',
+      ['packages/api/src/a.ts', 'packages/api/gone.ts', 'packages/web/b.ts', '.git/index', 'packages/api/node_modules/x/y.js'],
+      (filePath) => !filePath.endsWith('gone.ts'),
+    )
+    expect(notification?.params).toEqual({
+      changes: [
+        { uri: 'file:///w/packages/api/src/a.ts', type: 2 },
+        { uri: 'file:///w/packages/api/gone.ts', type: 3 },
+      ],
+    })
+    expect(createWatchedFilesNotification('/w', '/w', ['.git/HEAD'], () => true)).toBeNull()
+  })
+})
@@ -0,0 +1,48 @@
+import { problemFromLspDiagnostic, type WorkspaceProblem } from '../../shared/workspace-problems'
+import { lspUriToFilePath } from './lsp-protocol'
+
+interface ServerDiagnostics {
+  worktreePath: string
+  files: Map<string, WorkspaceProblem[]>
+}
+
+/**
+ * Latest `textDocument/publishDiagnostics` per language server and file. Servers replace a
+ * file's whole list on every publish, so the store does the same and forgets a server's
+ * files when it stops.
+ */
+export class LspDiagnosticsStore {
+  private servers = new Map<string, ServerDiagnostics>()
+
+  /** Records a publish; returns the affected worktree, or null when nothing changed. */
+  publish(serverKey: string, worktreePath: string, params: unknown): string | null {
+    const { uri, diagnostics } = (params ?? {}) as { uri?: unknown; diagnostics?: unknown }
+    const filePath = typeof uri === 'string' ? lspUriToFilePath(uri) : null
+    if (!filePath || !Array.isArray(diagnostics)) return null
+
+    const server = this.servers.get(serverKey) ?? { worktreePath, files: new Map() }
+    this.servers.set(serverKey, server)
+    const problems = diagnostics.flatMap((diagnostic) => problemFromLspDiagnostic(filePath, diagnostic) ?? [])
+    if (problems.length > 0) {
+      server.files.set(filePath, problems)
+      return server.worktreePath
+    }
+    return server.files.delete(filePath) ? server.worktreePath : null
+  }
+
+  /** Forgets a stopped server; returns its worktree if it had reported anything. */
+  clearServer(serverKey: string): string | null {
+    const server = this.servers.get(serverKey)
+    this.servers.delete(serverKey)
+    return server && server.files.size > 0 ? server.worktreePath : null
+  }
+
+  problemsFor(worktreePath: string): WorkspaceProblem[] {
+    const problems: WorkspaceProblem[] = []
+    for (const server of this.servers.values()) {
+      if (server.worktreePath !== worktreePath) continue
+      for (const list of server.files.values()) problems.push(...list)
+    }
+    return problems
+  }
+}
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LspProjectTrust, repoRootForWorktree } from './lsp-project-trust'
+
+let root: string
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'constellagent-lsp-trust-'))
+  mkdirSync(join(root, 'repo', '.git', 'worktrees', 'feature'), { recursive: true })
+  writeFileSync(join(root, 'repo', '.git', 'worktrees', 'feature', 'commondir'), '../..\n')
+  mkdirSync(join(root, 'feature'))
+  writeFileSync(join(root, 'feature', '.git'), `gitdir: ${join(root, 'repo', '.git', 'worktrees', 'feature')}\n`)
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+describe('repoRootForWorktree', () => {
+  it('maps linked worktrees to the main checkout', async () => {
+    expect(await repoRootForWorktree(join(root, 'feature'))).toBe(join(root, 'repo'))
+    expect(await repoRootForWorktree(join(root, 'repo'))).toBe(join(root, 'repo'))
+  })
+})
+
+describe('LspProjectTrust', () => {
+  it('trusts a fingerprint for every worktree of the repo', async () => {
+    const trust = new LspProjectTrust(join(root, 'trust.json'))
+    await trust.trust(join(root, 'feature'), 'abc')
+    expect(await trust.isTrusted(join(root, 'repo'), 'abc')).toBe(true)
+    expect(await trust.isTrusted(join(root, 'repo'), 'changed')).toBe(false)
+    expect(await new LspProjectTrust(join(root, 'trust.json')).isTrusted(join(root, 'feature'), 'abc')).toBe(true)
+  })
+
+  it('keeps a repo trusted for its own binaries after its launch settings change', async () => {
+    const trust = new LspProjectTrust(join(root, 'trust.json'))
+    expect(await trust.isRepoTrusted(join(root, 'feature'))).toBe(false)
+    await trust.trust(join(root, 'repo'), 'abc')
+    expect(await trust.isRepoTrusted(join(root, 'feature'))).toBe(true)
+    expect(await trust.isTrusted(join(root, 'feature'), 'changed')).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+import { readFile } from 'fs/promises'
+import { basename, dirname, join, resolve } from 'path'
+import { loadJsonFile, saveJsonFile } from '../claude-config'
+
+/**
+ * The repository a worktree belongs to. A linked worktree's `.git` file points into the main
+ * checkout's `.git`, whose `commondir` leads back to it, so trust covers every worktree.
+ */
+export async function repoRootForWorktree(worktreePath: string): Promise<string> {
+  try {
+    const pointer = (await readFile(join(worktreePath, '.git'), 'utf-8')).match(/^gitdir:\s*(.+)$/m)
+    if (!pointer) return worktreePath
+    const gitDir = resolve(worktreePath, pointer[1].trim())
+    const commonDir = resolve(gitDir, (await readFile(join(gitDir, 'commondir'), 'utf-8')).trim())
+    return basename(commonDir) === '.git' ? dirname(commonDir) : commonDir
+  } catch {
+    // `.git` is the main checkout's directory, or not there at all
+    return worktreePath
+  }
+}
+
+/**
+ * Repositories whose project LSP config may set server commands and environment, each with
+ * the fingerprint of the launch fields the user agreed to. A trusted repository may also run
+ * the server binaries it ships (see `findLocalServerBinary`), whatever its config says now.
+ */
+export class LspProjectTrust {
+  private trusted: Promise<Record<string, string>> | null = null
+
+  constructor(private readonly filePath: string) {}
+
+  async isTrusted(worktreePath: string, fingerprint: string): Promise<boolean> {
+    const trusted = await this.load()
+    return trusted[await repoRootForWorktree(worktreePath)] === fingerprint
+  }
+
+  async isRepoTrusted(worktreePath: string): Promise<boolean> {
+    const trusted = await this.load()
+    return Object.hasOwn(trusted, await repoRootForWorktree(worktreePath))
+  }
+
+  async trust(worktreePath: string, fingerprint: string): Promise<void> {
+    const trusted = await this.load()
+    trusted[await repoRootForWorktree(worktreePath)] = fingerprint
+    await saveJsonFile(this.filePath, trusted)
+  }
+
+  private load(): Promise<Record<string, string>> {
+    this.trusted ??= loadJsonFile<Record<string, string>>(this.filePath, {})
+    return this.trusted
+  }
+}
@@ -0,0 +1,175 @@
+import { MODEL_PATH_OVERRIDE_MARKER, type LspServerConfig } from '../../shared/lsp-types'
+import { SYMBOL_KINDS, type WorkspaceSymbolItem } from '../../shared/symbol-search-types'
+import { getConfigurationSection } from './lsp-config'
+
+const HEADER_SEPARATOR = Buffer.from('\r\n\r\n')
+
+export interface JsonRpcMessage {
+  jsonrpc?: string
+  id?: number | string
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code?: number; message?: string }
+}
+
+/** Frames a JSON-RPC body with the LSP base protocol `Content-Length` header. */
+export function encodeLspMessage(body: string): string {
+  return `Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`
+}
+
+/** Stdout parser: buffers chunks and emits each complete message body. */
+export function createLspMessageReader(onMessage: (body: string) => void): (chunk: Buffer) => void {
+  let buffer = Buffer.alloc(0)
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk])
+
+    while (true) {
+      const sepIndex = buffer.indexOf(HEADER_SEPARATOR)
+      if (sepIndex === -1) break
+
+      const header = buffer.subarray(0, sepIndex).toString('utf-8')
+      const contentLengthMatch = header.match(/Content-Length:\s*(\d+)/i)
+      if (!contentLengthMatch) {
+        // Malformed header, skip
+        buffer = buffer.subarray(sepIndex + HEADER_SEPARATOR.length)
+        continue
+      }
+
+      const contentLength = parseInt(contentLengthMatch[1], 10)
+      const bodyStart = sepIndex + HEADER_SEPARATOR.length
+      if (buffer.length < bodyStart + contentLength) break // incomplete body
+
+      const body = buffer.subarray(bodyStart, bodyStart + contentLength).toString('utf-8')
+      buffer = buffer.subarray(bodyStart + contentLength)
+      onMessage(body)
+    }
+  }
+}
+
+export function parseJsonRpc(body: string): JsonRpcMessage | null {
+  try {
+    const parsed = JSON.parse(body) as unknown
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as JsonRpcMessage) : null
+  } catch {
+    return null
+  }
+}
+
+function toFileUri(path: string): string {
+  return encodeURI(`file://${path}`)
+}
+
+/** Disk path for a `file://` URI, without a language-override model suffix; null otherwise. */
+export function lspUriToFilePath(uri: string): string | null {
+  if (!uri.startsWith('file://')) return null
+  try {
+    const path = decodeURIComponent(new URL(uri).pathname)
+    const markerIndex = path.lastIndexOf(MODEL_PATH_OVERRIDE_MARKER)
+    return markerIndex === -1 ? path : path.slice(0, markerIndex)
+  } catch {
+    return null
+  }
+}
+
+const WATCH_IGNORED_DIRS = ['.git', 'node_modules']
+
+/**
+ * `workspace/didChangeWatchedFiles` for the worktree-relative paths under a server's root
+ * (VCS internals and installed dependencies skipped), or null when none apply. Files that
+ * still exist are reported as changed, the rest as deleted.
+ */
+export function createWatchedFilesNotification(
+  worktreePath: string,
+  root: string,
+  relativePaths: string[],
+  exists: (filePath: string) => boolean,
+): JsonRpcMessage | null {
+  const changes: Array<{ uri: string; type: number }> = []
+  for (const relativePath of new Set(relativePaths)) {
+    if (relativePath.split('/').some((segment) => WATCH_IGNORED_DIRS.includes(segment))) continue
+    const filePath = `${worktreePath}/${relativePath}`
+    if (filePath !== root && !filePath.startsWith(`${root}/`)) continue
+    changes.push({ uri: toFileUri(filePath), type: exists(filePath) ? 2 : 3 })
+  }
+  if (changes.length === 0) return null
+  return { jsonrpc: '2.0', method: 'workspace/didChangeWatchedFiles', params: { changes } }
+}
+
+interface LspWorkspaceSymbol {
+  name?: unknown
+  kind?: unknown
+  containerName?: unknown
+  location?: { uri?: unknown; range?: { start?: { line?: number; character?: number } } }
+}
+
+/**
+ * Items from a `workspace/symbol` result, accepting both `SymbolInformation` and
+ * `WorkspaceSymbol` (whose location may omit the range). Symbols outside the worktree or
+ * in installed dependencies are dropped; positions become 1-based.
+ */
+export function symbolsFromWorkspaceSymbolResult(result: unknown, worktreePath: string): WorkspaceSymbolItem[] {
+  if (!Array.isArray(result)) return []
+  const items: WorkspaceSymbolItem[] = []
+  for (const entry of result as LspWorkspaceSymbol[]) {
+    if (!entry || typeof entry.name !== 'string' || typeof entry.location?.uri !== 'string') continue
+    const path = lspUriToFilePath(entry.location.uri)
+    if (!path || !path.startsWith(`${worktreePath}/`)) continue
+    const relativePath = path.slice(worktreePath.length + 1)
+    if (relativePath.split('/').some((segment) => WATCH_IGNORED_DIRS.includes(segment))) continue
+    const start = entry.location.range?.start
+    items.push({
+      name: entry.name,
+      kind: (typeof entry.kind === 'number' && SYMBOL_KINDS[entry.kind - 1]) || 'variable',
+      ...(typeof entry.containerName === 'string' && entry.containerName ? { containerName: entry.containerName } : {}),
+      path,
+      relativePath,
+      lineNumber: (start?.line ?? 0) + 1,
+      column: (start?.character ?? 0) + 1,
+      source: 'lsp',
+    })
+  }
+  return items
+}
+
+/**
+ * Points the client's `initialize` at the server root and adds the configured
+ * `initializationOptions` (the client's own options win on conflicts). Advertises
+ * `workspace/configuration` so servers ask for the configured settings, and watched-file
+ * notifications, which the bridge forwards from the worktree's file watcher.
+ */
+export function prepareInitializeRequest(
+  message: JsonRpcMessage,
+  config: LspServerConfig,
+  root: string,
+): JsonRpcMessage {
+  const params = { ...((message.params as Record<string, unknown> | undefined) ?? {}) }
+  const uri = toFileUri(root)
+  params.rootUri = uri
+  params.rootPath = root
+  params.workspaceFolders = [{ uri, name: root.split(/[\\/]/).filter(Boolean).pop() ?? root }]
+  if (config.initializationOptions) {
+    const own = params.initializationOptions as Record<string, unknown> | undefined
+    params.initializationOptions = { ...config.initializationOptions, ...(own ?? {}) }
+  }
+  const capabilities = { ...((params.capabilities as Record<string, unknown> | undefined) ?? {}) }
+  capabilities.workspace = {
+    ...((capabilities.workspace as Record<string, unknown> | undefined) ?? {}),
+    configuration: true,
+    workspaceFolders: true,
+    didChangeWatchedFiles: { dynamicRegistration: false },
+  }
+  params.capabilities = capabilities
+  return { ...message, params }
+}
+
+/** Response to a server's `workspace/configuration` request, or null for any other message. */
+export function answerConfigurationRequest(message: JsonRpcMessage, config: LspServerConfig): JsonRpcMessage | null {
+  if (message.method !== 'workspace/configuration' || message.id === undefined) return null
+  const items = (message.params as { items?: Array<{ section?: string }> } | undefined)?.items ?? []
+  return {
+    jsonrpc: '2.0',
+    id: message.id,
+    result: items.map((item) => getConfigurationSection(config.settings, item.section)),
+  }
+}
@@ -1,53 +1,116 @@
 import { spawn, type ChildProcess } from 'child_process'
-import { getServerConfig, isServerAvailable } from './lsp-config'
+import type { LspServerConfig } from './lsp-config'
+
+/** A configured server bound to the directory it runs in. */
+export interface LspServerLaunch {
+  config: LspServerConfig
+  /** Absolute binary path from `resolveServerBinary`. */
+  command: string
+  root: string
+  worktreePath: string
+}
 
 interface ManagedServer {
   process: ChildProcess
-  language: string
-  workspace: string
+  launch: LspServerLaunch
+  startedAt: number
+  /** Set when the exit is ours (restart, idle release, shutdown) rather than a crash. */
+  stopping: boolean
+}
+
+interface RestartHistory {
   restartCount: number
   firstRestartTime: number
 }
 
+export interface ManagedServerInfo {
+  key: string
+  launch: LspServerLaunch
+  pid: number | null
+  startedAt: number
+  restarts: number
+}
+
 const MAX_RESTARTS = 3
 const RESTART_WINDOW_MS = 5 * 60 * 1000
 
+/**
+ * Owns the language server processes. A server is not respawned here: `onExit` tells the
+ * bridge to drop its sockets, with `reconnect` set when clients should come back (which
+ * spawns a fresh process) and cleared once a crashing server used up its restarts.
+ */
 export class LspServerManager {
   private servers = new Map<string, ManagedServer>()
+  private history = new Map<string, RestartHistory>()
   private idleShutdownTimers = new Map<string, ReturnType<typeof setTimeout>>()
 
-  private key(language: string, workspace: string): string {
-    return `${language}:${workspace}`
+  constructor(private readonly onExit: (key: string, reconnect: boolean) => void = () => {}) {}
+
+  static key(language: string, root: string): string {
+    return `${language}:${root}`
   }
 
-  getOrSpawn(language: string, workspace: string): ChildProcess | null {
-    const k = this.key(language, workspace)
+  getOrSpawn(launch: LspServerLaunch): ChildProcess | null {
+    const k = LspServerManager.key(launch.config.language, launch.root)
     this.clearIdleShutdown(k)
     const existing = this.servers.get(k)
     if (existing && !existing.process.killed) return existing.process
 
-    return this.spawn(language, workspace)
+    return this.spawn(k, launch)
   }
 
-  scheduleRelease(language: string, workspace: string, idleMs = 60_000): void {
-    const k = this.key(language, workspace)
-    this.clearIdleShutdown(k)
-    const managed = this.servers.get(k)
-    if (!managed) return
-    this.idleShutdownTimers.set(k, setTimeout(() => {
-      const live = this.servers.get(k)
+  get(key: string): ManagedServerInfo | null {
+    const managed = this.servers.get(key)
+    return managed ? this.info(key, managed) : null
+  }
+
+  list(): ManagedServerInfo[] {
+    return Array.from(this.servers, ([key, managed]) => this.info(key, managed))
+  }
+
+  /** Stops the server and asks its clients to reconnect, which starts a fresh process. */
+  restart(key: string): boolean {
+    const managed = this.servers.get(key)
+    if (!managed) return false
+    this.history.delete(key)
+    this.stop(key, managed)
+    this.onExit(key, true)
+    return true
+  }
+
+  /** Stops the server after `idleMs` unless a client comes back; `onRelease` runs once it stopped. */
+  scheduleRelease(key: string, idleMs = 60_000, onRelease?: () => void): void {
+    this.clearIdleShutdown(key)
+    if (!this.servers.has(key)) return
+    this.idleShutdownTimers.set(key, setTimeout(() => {
+      this.idleShutdownTimers.delete(key)
+      const live = this.servers.get(key)
       if (!live) return
-      live.restartCount = MAX_RESTARTS
-      this.servers.delete(k)
-      try {
-        live.process.kill()
-      } catch {
-        // best effort
-      }
-      this.idleShutdownTimers.delete(k)
+      this.stop(key, live)
+      onRelease?.()
     }, idleMs))
   }
 
+  private info(key: string, managed: ManagedServer): ManagedServerInfo {
+    return {
+      key,
+      launch: managed.launch,
+      pid: managed.process.pid ?? null,
+      startedAt: managed.startedAt,
+      restarts: this.history.get(key)?.restartCount ?? 0,
+    }
+  }
+
+  private stop(key: string, managed: ManagedServer): void {
+    managed.stopping = true
+    this.servers.delete(key)
+    try {
+      managed.process.kill()
+    } catch {
+      // best effort
+    }
+  }
+
   private clearIdleShutdown(key: string): void {
     const timer = this.idleShutdownTimers.get(key)
     if (!timer) return
@@ -55,56 +118,53 @@ export class LspServerManager {
     this.idleShutdownTimers.delete(key)
   }
 
-  private spawn(language: string, workspace: string): ChildProcess | null {
-    const config = getServerConfig(language)
-    if (!config || !isServerAvailable(config.command)) return null
-
-    const k = this.key(language, workspace)
-    this.clearIdleShutdown(k)
-    const proc = spawn(config.command, config.args, {
-      cwd: workspace,
+  private spawn(key: string, launch: LspServerLaunch): ChildProcess | null {
+    this.clearIdleShutdown(key)
+    const proc = spawn(launch.command, launch.config.args, {
+      cwd: launch.root,
       stdio: 'pipe',
-      env: { ...process.env },
+      env: { ...process.env, ...launch.config.env },
     })
 
     const managed: ManagedServer = {
       process: proc,
-      language,
-      workspace,
-      restartCount: 0,
-      firstRestartTime: 0,
+      launch,
+      startedAt: Date.now(),
+      stopping: false,
     }
 
-    proc.on('exit', (_code) => {
-      this.servers.delete(k)
-      this.maybeRestart(managed)
+    proc.on('exit', () => {
+      if (managed.stopping) return
+      if (this.servers.get(key) === managed) this.servers.delete(key)
+      this.handleCrash(key, launch)
     })
 
     proc.on('error', () => {
-      this.servers.delete(k)
+      if (this.servers.get(key) === managed) this.servers.delete(key)
     })
 
-    this.servers.set(k, managed)
+    this.servers.set(key, managed)
     return proc
   }
 
-  private maybeRestart(managed: ManagedServer): void {
+  private handleCrash(key: string, launch: LspServerLaunch): void {
     const now = Date.now()
-    if (now - managed.firstRestartTime > RESTART_WINDOW_MS) {
-      managed.restartCount = 0
-      managed.firstRestartTime = now
+    const history = this.history.get(key) ?? { restartCount: 0, firstRestartTime: now }
+    if (now - history.firstRestartTime > RESTART_WINDOW_MS) {
+      history.restartCount = 0
+      history.firstRestartTime = now
     }
-    if (managed.restartCount >= MAX_RESTARTS) {
-      console.warn(`[lsp] ${managed.language} server exceeded max restarts, not restarting`)
+    if (history.restartCount >= MAX_RESTARTS) {
+      console.warn(`[lsp] ${launch.config.language} server exceeded max restarts, not restarting`)
+      this.onExit(key, false)
       return
     }
-    managed.restartCount++
-    if (managed.restartCount === 1) managed.firstRestartTime = now
+    history.restartCount++
+    if (history.restartCount === 1) history.firstRestartTime = now
+    this.history.set(key, history)
 
-    const delay = managed.restartCount * 1000
-    setTimeout(() => {
-      this.spawn(managed.language, managed.workspace)
-    }, delay)
+    const delay = history.restartCount * 1000
+    setTimeout(() => this.onExit(key, true), delay)
   }
 
   shutdown(): void {
@@ -112,10 +172,9 @@ export class LspServerManager {
       clearTimeout(timer)
     }
     this.idleShutdownTimers.clear()
-    for (const [, managed] of this.servers) {
-      managed.restartCount = MAX_RESTARTS // prevent restart on kill
-      try { managed.process.kill() } catch {}
+    for (const [key, managed] of Array.from(this.servers)) {
+      this.stop(key, managed)
     }
-    this.servers.clear()
+    this.history.clear()
   }
 }
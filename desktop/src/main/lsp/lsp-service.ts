@@ -1,14 +1,68 @@
-import { WebSocketServer, type WebSocket } from 'ws'
+import { WebSocketServer, type RawData, type WebSocket } from 'ws'
 import { createServer, type Server } from 'http'
+import { existsSync } from 'fs'
+import { relative } from 'path'
+import type { ChildProcess } from 'child_process'
+import type { LspServerStatus, LspServerTarget, LspUntrustedProjectConfig } from '../../shared/lsp-types'
+import type { WorkspaceSymbolItem } from '../../shared/symbol-search-types'
+import type { WorkspaceProblem } from '../../shared/workspace-problems'
+import { LspDiagnosticsStore } from './lsp-diagnostics'
 import { LspServerManager } from './lsp-server-manager'
-import { getAvailableLanguages } from './lsp-config'
+import {
+  findServerForFile,
+  findServerRoot,
+  getAvailableLanguages,
+  launchFieldsFingerprint,
+  loadLspServers,
+  projectLaunchFields,
+  readProjectLspConfig,
+  findLocalServerBinary,
+  resolveServerBinary,
+  withoutLaunchFields,
+} from './lsp-config'
+import type { LspServerConfig } from './lsp-config'
+import { LspProjectTrust, repoRootForWorktree } from './lsp-project-trust'
+import {
+  answerConfigurationRequest,
+  createLspMessageReader,
+  createWatchedFilesNotification,
+  encodeLspMessage,
+  parseJsonRpc,
+  prepareInitializeRequest,
+  symbolsFromWorkspaceSymbolResult,
+  type JsonRpcMessage,
+} from './lsp-protocol'
+
+/** Close code telling renderer clients to reconnect (and reopen their documents). */
+const CLOSE_RESTARTING = 1012
+const PROBLEMS_DEBOUNCE_MS = 200
+const SYMBOL_REQUEST_TIMEOUT_MS = 1500
+
+interface ServerBridge {
+  proc: ChildProcess
+  config: LspServerConfig
+  root: string
+  worktreePath: string
+  /** Set once a client sent `initialized`; notifications before that break the protocol. */
+  initialized: boolean
+  /** Requests the service itself sent; their responses are not forwarded to clients. */
+  pending: Map<string, (message: JsonRpcMessage | null) => void>
+}
 
 export class LspService {
   private httpServer: Server | null = null
   private wss: WebSocketServer | null = null
-  private serverManager = new LspServerManager()
+  private serverManager = new LspServerManager((key, reconnect) => this.closeSockets(key, reconnect))
   private port = 0
-  private connectionCounts = new Map<string, number>()
+  private sockets = new Map<string, Set<WebSocket>>()
+  private bridges = new Map<string, ServerBridge>()
+  private diagnostics = new LspDiagnosticsStore()
+  private problemTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  private userConfigPath: string | null = null
+  private projectTrust: LspProjectTrust | null = null
+  private nextRequestId = 0
+
+  constructor(private readonly onProblemsChanged: (worktreePath: string, problems: WorkspaceProblem[]) => void = () => {}) {}
 
   async start(): Promise<number> {
     if (this.httpServer) return this.port
@@ -18,7 +72,7 @@ export class LspService {
       const wss = new WebSocketServer({ server })
 
       wss.on('connection', (ws, req) => {
-        this.handleConnection(ws, req.url ?? '')
+        void this.handleConnection(ws, req.url ?? '')
       })
 
       // Listen on dynamic port
@@ -43,100 +97,304 @@ export class LspService {
     return this.port
   }
 
-  getAvailableLanguages(): string[] {
-    return getAvailableLanguages()
+  /** User-level overrides, layered between the built-ins and each worktree's own config. */
+  setUserConfigPath(filePath: string): void {
+    this.userConfigPath = filePath
+  }
+
+  getUserConfigPath(): string | null {
+    return this.userConfigPath
+  }
+
+  /** Where the repositories trusted to launch their own language servers are recorded. */
+  setProjectTrustPath(filePath: string): void {
+    this.projectTrust = new LspProjectTrust(filePath)
+  }
+
+  getAvailableLanguages(): Promise<string[]> {
+    return getAvailableLanguages(this.userConfigPath)
+  }
+
+  /**
+   * What waits on the user trusting the repo before `filePath` is served: launch settings in
+   * the worktree's project config, and a server binary the worktree ships for that file.
+   */
+  async getUntrustedProjectConfig(
+    worktreePath: string,
+    filePath?: string,
+    languageOverride?: string | null,
+  ): Promise<LspUntrustedProjectConfig | null> {
+    const launch = projectLaunchFields(readProjectLspConfig(worktreePath))
+    const fingerprint = launchFieldsFingerprint(launch)
+    const launchServers = Object.keys(launch)
+    const servers = launchServers.length > 0 && !(await this.projectTrust?.isTrusted(worktreePath, fingerprint))
+      ? launchServers
+      : []
+
+    const binaries: string[] = []
+    if (filePath && !(await this.projectTrust?.isRepoTrusted(worktreePath))) {
+      const config = findServerForFile(await this.serversFor(worktreePath), filePath, languageOverride)
+      const local = config
+        ? findLocalServerBinary(config.command, findServerRoot(filePath, worktreePath, config.rootMarkers), worktreePath)
+        : null
+      if (local) binaries.push(relative(worktreePath, local))
+    }
+    return servers.length > 0 || binaries.length > 0 ? { servers, binaries, fingerprint } : null
+  }
+
+  /**
+   * Trusts the launch settings the user was shown (by fingerprint) and restarts the repo's
+   * running servers so they pick them up.
+   */
+  async trustProjectConfig(worktreePath: string, fingerprint: string): Promise<void> {
+    if (!this.projectTrust) return
+    await this.projectTrust.trust(worktreePath, fingerprint)
+    const repoRoot = await repoRootForWorktree(worktreePath)
+    for (const server of this.serverManager.list()) {
+      if (await repoRootForWorktree(server.launch.worktreePath) === repoRoot) this.serverManager.restart(server.key)
+    }
+  }
+
+  /** Merged server configs for a worktree; its project config's launch fields need trust. */
+  private async serversFor(worktreePath: string): Promise<LspServerConfig[]> {
+    const project = readProjectLspConfig(worktreePath)
+    const launch = projectLaunchFields(project)
+    const trusted = Object.keys(launch).length === 0
+      || !!(await this.projectTrust?.isTrusted(worktreePath, launchFieldsFingerprint(launch)))
+    return loadLspServers(this.userConfigPath, trusted ? project : withoutLaunchFields(project))
+  }
+
+  private async usesLocalBins(worktreePath: string): Promise<boolean> {
+    return !!(await this.projectTrust?.isRepoTrusted(worktreePath))
+  }
+
+  /** Which server handles a file and its root; null when none is configured or installed. */
+  async resolveServer(worktreePath: string, filePath: string, languageOverride?: string | null): Promise<LspServerTarget | null> {
+    const config = findServerForFile(await this.serversFor(worktreePath), filePath, languageOverride)
+    if (!config) return null
+    const root = findServerRoot(filePath, worktreePath, config.rootMarkers)
+    if (!(await resolveServerBinary(config.command, root, worktreePath, await this.usesLocalBins(worktreePath)))) return null
+    return { serverKey: config.language, root }
+  }
+
+  listServers(): LspServerStatus[] {
+    return this.serverManager.list().map((server) => ({
+      serverKey: server.launch.config.language,
+      root: server.launch.root,
+      worktreePath: server.launch.worktreePath,
+      command: server.launch.command,
+      pid: server.pid,
+      startedAt: server.startedAt,
+      connections: this.sockets.get(server.key)?.size ?? 0,
+      restarts: server.restarts,
+    }))
+  }
+
+  restartServer(serverKey: string, root: string): boolean {
+    return this.serverManager.restart(LspServerManager.key(serverKey, root))
+  }
+
+  /** Diagnostics last published by the worktree's running servers, for all files. */
+  getProblems(worktreePath: string): WorkspaceProblem[] {
+    return this.diagnostics.problemsFor(worktreePath)
+  }
+
+  /** Tells the worktree's servers about files changed on disk, e.g. by an agent. */
+  notifyFilesChanged(worktreePath: string, relativePaths: string[]): void {
+    if (relativePaths.length === 0) return
+    for (const bridge of this.bridges.values()) {
+      if (bridge.worktreePath !== worktreePath || !bridge.initialized) continue
+      const notification = createWatchedFilesNotification(worktreePath, bridge.root, relativePaths, existsSync)
+      if (notification) this.writeMessage(bridge.proc, JSON.stringify(notification))
+    }
+  }
+
+  /**
+   * `workspace/symbol` across the worktree's initialized servers. `extensions` lists the file
+   * extensions of servers that answered, so callers can skip them in other symbol sources.
+   */
+  async workspaceSymbols(worktreePath: string, query: string): Promise<{ items: WorkspaceSymbolItem[]; extensions: string[] }> {
+    const bridges = [...this.bridges.values()].filter((bridge) => bridge.worktreePath === worktreePath && bridge.initialized)
+    const responses = await Promise.all(bridges.map(async (bridge) => ({
+      bridge,
+      response: await this.request(bridge, 'workspace/symbol', { query }, SYMBOL_REQUEST_TIMEOUT_MS),
+    })))
+    const items: WorkspaceSymbolItem[] = []
+    const extensions = new Set<string>()
+    for (const { bridge, response } of responses) {
+      if (!response || response.error) continue
+      items.push(...symbolsFromWorkspaceSymbolResult(response.result, worktreePath))
+      for (const ext of bridge.config.extensions) extensions.add(ext)
+    }
+    return { items, extensions: [...extensions] }
+  }
+
+  /** Sends a request of the service's own; resolves null on timeout or when the server stops. */
+  private request(bridge: ServerBridge, method: string, params: unknown, timeoutMs: number): Promise<JsonRpcMessage | null> {
+    const id = `constellagent:${++this.nextRequestId}`
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => finish(null), timeoutMs)
+      const finish = (message: JsonRpcMessage | null) => {
+        clearTimeout(timer)
+        bridge.pending.delete(id)
+        resolve(message)
+      }
+      bridge.pending.set(id, finish)
+      this.writeMessage(bridge.proc, JSON.stringify({ jsonrpc: '2.0', id, method, params }))
+    })
+  }
+
+  private scheduleProblemsChanged(worktreePath: string | null): void {
+    if (!worktreePath || this.problemTimers.has(worktreePath)) return
+    this.problemTimers.set(worktreePath, setTimeout(() => {
+      this.problemTimers.delete(worktreePath)
+      this.onProblemsChanged(worktreePath, this.diagnostics.problemsFor(worktreePath))
+    }, PROBLEMS_DEBOUNCE_MS))
+  }
+
+  /** Drops a stopped server's bridge and the diagnostics it reported. */
+  private forgetServer(key: string): void {
+    const bridge = this.bridges.get(key)
+    this.bridges.delete(key)
+    for (const finish of bridge?.pending.values() ?? []) finish(null)
+    this.scheduleProblemsChanged(this.diagnostics.clearServer(key))
+  }
+
+  private closeSockets(key: string, reconnect: boolean): void {
+    this.forgetServer(key)
+    const sockets = this.sockets.get(key)
+    if (!sockets) return
+    this.sockets.delete(key)
+    for (const ws of sockets) {
+      try {
+        if (reconnect) ws.close(CLOSE_RESTARTING, 'Language server restarting')
+        else ws.close(1011, 'Language server stopped')
+      } catch {
+        // already closed
+      }
+    }
   }
 
-  private key(language: string, workspace: string): string {
-    return `${language}:${workspace}`
+  private writeMessage(proc: ChildProcess, body: string): void {
+    try {
+      proc.stdin?.write(encodeLspMessage(body))
+    } catch {
+      // Process may have died
+    }
+  }
+
+  /**
+   * One stdout reader per process; messages go to every socket bridged to it. Published
+   * diagnostics are also kept for the worktree's Problems panel.
+   */
+  private attach(key: string, proc: ChildProcess, config: LspServerConfig, root: string, worktreePath: string): ServerBridge | null {
+    const existing = this.bridges.get(key)
+    if (existing?.proc === proc) return existing
+    if (!proc.stdout) return null
+    const bridge: ServerBridge = { proc, config, root, worktreePath, initialized: false, pending: new Map() }
+    this.bridges.set(key, bridge)
+    proc.stdout.on('data', createLspMessageReader((body) => {
+      const message = parseJsonRpc(body)
+      const answer = message ? answerConfigurationRequest(message, config) : null
+      if (answer) {
+        this.writeMessage(proc, JSON.stringify(answer))
+        return
+      }
+      const own = typeof message?.id === 'string' && !message.method ? bridge.pending.get(message.id) : undefined
+      if (own) {
+        own(message)
+        return
+      }
+      if (message?.method === 'textDocument/publishDiagnostics' && this.bridges.get(key) === bridge) {
+        this.scheduleProblemsChanged(this.diagnostics.publish(key, worktreePath, message.params))
+      }
+      for (const ws of this.sockets.get(key) ?? []) {
+        if (ws.readyState === ws.OPEN) ws.send(body)
+      }
+    }))
+    return bridge
   }
 
-  private handleConnection(ws: WebSocket, url: string): void {
+  private async handleConnection(ws: WebSocket, url: string): Promise<void> {
     const params = new URL(url, 'http://localhost').searchParams
     const language = params.get('language')
-    const workspace = params.get('workspace')
+    const root = params.get('workspace')
+    const worktreePath = params.get('worktree') || root
 
-    if (!language || !workspace) {
+    if (!language || !root || !worktreePath) {
       ws.close(1008, 'Missing language or workspace parameter')
       return
     }
 
-    const lspProcess = this.serverManager.getOrSpawn(language, workspace)
-    if (!lspProcess || !lspProcess.stdin || !lspProcess.stdout) {
+    // The client sends `initialize` as soon as the socket opens; hold it while the server resolves
+    const early: string[] = []
+    const queueEarly = (data: RawData) => {
+      early.push(data.toString('utf-8'))
+    }
+    ws.on('message', queueEarly)
+    const config = (await this.serversFor(worktreePath)).find((server) => server.language === language)
+    const command = config
+      ? await resolveServerBinary(config.command, root, worktreePath, await this.usesLocalBins(worktreePath))
+      : null
+    ws.off('message', queueEarly)
+    if (ws.readyState !== ws.OPEN) return
+    const lspProcess = config && command
+      ? this.serverManager.getOrSpawn({ config, command, root, worktreePath })
+      : null
+    if (!config || !lspProcess || !lspProcess.stdin || !lspProcess.stdout) {
       ws.close(1011, `LSP server for ${language} not available`)
       return
     }
 
     // Bridge WebSocket ↔ stdio using LSP base protocol (Content-Length headers)
-    const stdout = lspProcess.stdout
-    const connectionKey = this.key(language, workspace)
-    this.connectionCounts.set(connectionKey, (this.connectionCounts.get(connectionKey) ?? 0) + 1)
-
-    // Buffer for parsing LSP messages from stdout
-    let buffer = Buffer.alloc(0)
-    const HEADER_SEPARATOR = Buffer.from('\r\n\r\n')
-
-    const onData = (chunk: Buffer): void => {
-      buffer = Buffer.concat([buffer, chunk])
-
-      // eslint-disable-next-line no-constant-condition
-      while (true) {
-        const sepIndex = buffer.indexOf(HEADER_SEPARATOR)
-        if (sepIndex === -1) break
-
-        const header = buffer.subarray(0, sepIndex).toString('utf-8')
-        const contentLengthMatch = header.match(/Content-Length:\s*(\d+)/i)
-        if (!contentLengthMatch) {
-          // Malformed header, skip
-          buffer = buffer.subarray(sepIndex + HEADER_SEPARATOR.length)
-          continue
-        }
-
-        const contentLength = parseInt(contentLengthMatch[1], 10)
-        const bodyStart = sepIndex + HEADER_SEPARATOR.length
-        if (buffer.length < bodyStart + contentLength) break // incomplete body
+    const key = LspServerManager.key(language, root)
+    const bridge = this.attach(key, lspProcess, config, root, worktreePath)
+    const sockets = this.sockets.get(key) ?? new Set<WebSocket>()
+    sockets.add(ws)
+    this.sockets.set(key, sockets)
 
-        const body = buffer.subarray(bodyStart, bodyStart + contentLength).toString('utf-8')
-        buffer = buffer.subarray(bodyStart + contentLength)
-
-        if (ws.readyState === ws.OPEN) {
-          ws.send(body)
-        }
+    const forward = (text: string) => {
+      const message = parseJsonRpc(text)
+      if (message?.method === 'initialize') {
+        this.writeMessage(lspProcess, JSON.stringify(prepareInitializeRequest(message, config, root)))
+        return
+      }
+      this.writeMessage(lspProcess, text)
+      if (message?.method === 'initialized' && bridge) bridge.initialized = true
+      if (message?.method === 'initialized' && config.settings) {
+        this.writeMessage(lspProcess, JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'workspace/didChangeConfiguration',
+          params: { settings: config.settings },
+        }))
       }
     }
-
-    stdout.on('data', onData)
-
+    for (const text of early) forward(text)
     ws.on('message', (data) => {
-      const message = typeof data === 'string' ? data : data.toString('utf-8')
-      const header = `Content-Length: ${Buffer.byteLength(message, 'utf-8')}\r\n\r\n`
-      try {
-        lspProcess.stdin!.write(header)
-        lspProcess.stdin!.write(message)
-      } catch {
-        // Process may have died
-      }
+      forward(typeof data === 'string' ? data : data.toString('utf-8'))
     })
 
-    ws.on('close', () => {
-      stdout.removeListener('data', onData)
-      const nextCount = (this.connectionCounts.get(connectionKey) ?? 1) - 1
-      if (nextCount <= 0) {
-        this.connectionCounts.delete(connectionKey)
-        this.serverManager.scheduleRelease(language, workspace)
-      } else {
-        this.connectionCounts.set(connectionKey, nextCount)
+    const detach = () => {
+      const live = this.sockets.get(key)
+      if (!live?.delete(ws)) return
+      if (live.size === 0) {
+        this.sockets.delete(key)
+        this.serverManager.scheduleRelease(key, undefined, () => this.forgetServer(key))
       }
-    })
-
-    ws.on('error', () => {
-      stdout.removeListener('data', onData)
-    })
+    }
+    ws.on('close', detach)
+    ws.on('error', detach)
   }
 
   shutdown(): void {
     this.serverManager.shutdown()
-    this.connectionCounts.clear()
+    this.sockets.clear()
+    for (const bridge of this.bridges.values()) {
+      for (const finish of bridge.pending.values()) finish(null)
+    }
+    this.bridges.clear()
+    for (const timer of this.problemTimers.values()) clearTimeout(timer)
+    this.problemTimers.clear()
     if (this.wss) {
       for (const client of this.wss.clients) {
         client.close()
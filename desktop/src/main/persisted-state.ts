@@ -59,6 +59,22 @@ export function lookupPersistedWorkspace(workspaceId: string): {
   }
 }
 
+/** Resolve a workspace's checkout by id, or by project + branch when no id is known. */
+export function findPersistedWorkspace(query: {
+  workspaceId?: string
+  projectId?: string
+  branch?: string
+}): { id: string; branch: string; worktreePath: string } | null {
+  const state = loadState()
+  const workspace = query.workspaceId
+    ? state.workspaces?.find((entry) => entry.id === query.workspaceId)
+    : query.projectId && query.branch
+      ? state.workspaces?.find((entry) => entry.projectId === query.projectId && entry.branch === query.branch)
+      : undefined
+  if (!workspace?.worktreePath) return null
+  return { id: workspace.id, branch: workspace.branch ?? '', worktreePath: workspace.worktreePath }
+}
+
 export function lookupPersistedProjectByRepoPath(repoPath: string): PersistedProjectRecord | null {
   if (!repoPath) return null
   const state = loadState()
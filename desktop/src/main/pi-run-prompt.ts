@@ -10,7 +10,7 @@ const PI_OUTPUT_IDLE_MS = 750
 
 export const PI_DEFAULT_MODEL = 'composer-2-fast'
 
-function stripTerminalNoise(text: string): string {
+export function stripTerminalNoise(text: string): string {
   return text
     .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, '')
     .replace(/\x1b\].*?(?:\x07|\x1b\\)/g, '')
@@ -20,6 +20,12 @@ function stripTerminalNoise(text: string): string {
 export interface RunPiPromptOptions {
   /** Defaults to `composer-2-fast` (same as commit messages). */
   model?: string
+  /** Defaults to the home directory. */
+  cwd?: string
+  /** Defaults to 30s, sized for short generations. */
+  timeoutMs?: number
+  /** Kills `pi` and rejects when aborted. */
+  signal?: AbortSignal
 }
 
 /**
@@ -71,7 +77,7 @@ export async function runPiPrompt(
         name: 'xterm-256color',
         cols: 80,
         rows: 24,
-        cwd: homedir(),
+        cwd: options?.cwd ?? homedir(),
         env: {
           ...process.env,
           TERM: 'xterm-256color',
@@ -92,6 +98,7 @@ export async function runPiPrompt(
       settled = true
       clearTimeout(timeoutTimer)
       clearIdleTimer()
+      options?.signal?.removeEventListener('abort', onAbort)
       try {
         proc.kill()
       } catch {
@@ -111,7 +118,13 @@ export async function runPiPrompt(
 
     const timeoutTimer = setTimeout(() => {
       finalize({ ok: false, error: new Error('Pi generation timed out.') })
-    }, PI_GENERATE_TIMEOUT_MS)
+    }, options?.timeoutMs ?? PI_GENERATE_TIMEOUT_MS)
+
+    const onAbort = (): void => {
+      finalize({ ok: false, error: new Error('Pi generation was cancelled.') })
+    }
+    if (options?.signal?.aborted) onAbort()
+    options?.signal?.addEventListener('abort', onAbort, { once: true })
 
     proc.onData((chunk) => {
       output += chunk
@@ -3,14 +3,14 @@ import { mkdir, rename, writeFile } from 'fs/promises'
 import { existsSync, realpathSync } from 'fs'
 import { dirname, join, resolve } from 'path'
 import { loadJsonFile } from './claude-config'
-
-export interface StartupCommandRecord {
-  name: string
-  command: string
-}
+import type { StartupCommand } from '../shared/startup-commands'
+import { normalizeStartupCommands } from '../shared/startup-commands'
+import { normalizePortNames } from '../shared/workspace-ports'
 
 interface ProjectStartupSettingsEntry {
-  startupCommands: StartupCommandRecord[]
+  startupCommands: StartupCommand[]
+  /** Named ports each workspace of the project gets, exported as `PORT_<NAME>`. */
+  ports?: string[]
   updatedAt: number
 }
 
@@ -32,22 +32,6 @@ function normalizeRepoKey(repoPath: string): string {
   }
 }
 
-function normalizeStartupCommands(raw: unknown): StartupCommandRecord[] {
-  if (!Array.isArray(raw)) return []
-  const out: StartupCommandRecord[] = []
-  for (const entry of raw) {
-    if (!entry || typeof entry !== 'object') continue
-    const record = entry as Record<string, unknown>
-    const command = typeof record.command === 'string' ? record.command : ''
-    if (!command.trim()) continue
-    out.push({
-      name: typeof record.name === 'string' ? record.name : '',
-      command,
-    })
-  }
-  return out
-}
-
 function projectStartupSettingsPath(): string {
   const override = process.env.CONSTELLAGENT_PROJECT_SETTINGS_PATH?.trim()
   if (override) return resolve(override)
@@ -67,10 +51,12 @@ async function loadProjectStartupSettingsFile(): Promise<ProjectStartupSettingsF
       if (!value || typeof value !== 'object') continue
       const entry = value as Record<string, unknown>
       const startupCommands = normalizeStartupCommands(entry.startupCommands)
-      if (startupCommands.length === 0) continue
+      const ports = normalizePortNames(entry.ports)
+      if (startupCommands.length === 0 && ports.length === 0) continue
       const key = normalizeRepoKey(repoPath)
       normalizedProjects[key] = {
         startupCommands,
+        ...(ports.length > 0 ? { ports } : {}),
         updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : Date.now(),
       }
     }
@@ -82,6 +68,18 @@ async function loadProjectStartupSettingsFile(): Promise<ProjectStartupSettingsF
   }
 }
 
+// Updates are load-modify-save; run them one at a time so concurrent edits do not drop each other.
+let settingsMutex = Promise.resolve()
+
+function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const next = settingsMutex.then(fn, fn)
+  settingsMutex = next.then(
+    () => undefined,
+    () => undefined,
+  )
+  return next
+}
+
 async function saveProjectStartupSettingsFile(data: ProjectStartupSettingsFile): Promise<void> {
   const filePath = projectStartupSettingsPath()
   await mkdir(dirname(filePath), { recursive: true })
@@ -90,44 +88,86 @@ async function saveProjectStartupSettingsFile(data: ProjectStartupSettingsFile):
   await rename(tmpPath, filePath)
 }
 
-export async function listProjectStartupSettings(): Promise<Record<string, StartupCommandRecord[]>> {
+export async function listProjectStartupSettings(): Promise<Record<string, StartupCommand[]>> {
   const data = await loadProjectStartupSettingsFile()
   return Object.fromEntries(
-    Object.entries(data.projects).map(([repoPath, entry]) => [repoPath, entry.startupCommands]),
+    Object.entries(data.projects)
+      .filter(([, entry]) => entry.startupCommands.length > 0)
+      .map(([repoPath, entry]) => [repoPath, entry.startupCommands]),
   )
 }
 
-export async function getProjectStartupCommands(repoPath: string): Promise<StartupCommandRecord[] | null> {
+export async function getProjectStartupCommands(repoPath: string): Promise<StartupCommand[] | null> {
   if (!repoPath.trim()) return null
   const data = await loadProjectStartupSettingsFile()
   const key = normalizeRepoKey(repoPath)
-  return data.projects[key]?.startupCommands ?? null
+  const commands = data.projects[key]?.startupCommands
+  return commands?.length ? commands : null
 }
 
-export async function setProjectStartupCommands(repoPath: string, startupCommands: unknown): Promise<StartupCommandRecord[]> {
-  const key = normalizeRepoKey(repoPath)
-  const normalizedCommands = normalizeStartupCommands(startupCommands)
+export function setProjectStartupCommands(repoPath: string, startupCommands: unknown): Promise<StartupCommand[]> {
+  return runExclusive(async () => {
+    const key = normalizeRepoKey(repoPath)
+    const normalizedCommands = normalizeStartupCommands(startupCommands)
+    const data = await loadProjectStartupSettingsFile()
+
+    const ports = data.projects[key]?.ports ?? []
+    if (normalizedCommands.length === 0 && ports.length === 0) {
+      delete data.projects[key]
+    } else {
+      data.projects[key] = {
+        startupCommands: normalizedCommands,
+        ...(ports.length > 0 ? { ports } : {}),
+        updatedAt: Date.now(),
+      }
+    }
+
+    await saveProjectStartupSettingsFile(data)
+    return normalizedCommands
+  })
+}
+
+export async function getProjectPortNames(repoPath: string): Promise<string[]> {
+  if (!repoPath.trim()) return []
   const data = await loadProjectStartupSettingsFile()
+  return data.projects[normalizeRepoKey(repoPath)]?.ports ?? []
+}
 
-  if (normalizedCommands.length === 0) {
-    delete data.projects[key]
-  } else {
-    data.projects[key] = {
-      startupCommands: normalizedCommands,
-      updatedAt: Date.now(),
+export function setProjectPortNames(repoPath: string, ports: unknown): Promise<string[]> {
+  return runExclusive(async () => {
+    const key = normalizeRepoKey(repoPath)
+    const normalizedPorts = normalizePortNames(ports)
+    const data = await loadProjectStartupSettingsFile()
+    const startupCommands = data.projects[key]?.startupCommands ?? []
+
+    if (normalizedPorts.length === 0 && startupCommands.length === 0) {
+      delete data.projects[key]
+    } else {
+      data.projects[key] = {
+        startupCommands,
+        ...(normalizedPorts.length > 0 ? { ports: normalizedPorts } : {}),
+        updatedAt: Date.now(),
+      }
     }
-  }
 
-  await saveProjectStartupSettingsFile(data)
-  return normalizedCommands
+    await saveProjectStartupSettingsFile(data)
+    return normalizedPorts
+  })
 }
 
-export async function deleteProjectStartupCommands(repoPath: string): Promise<void> {
-  const key = normalizeRepoKey(repoPath)
-  const data = await loadProjectStartupSettingsFile()
-  if (!data.projects[key]) return
-  delete data.projects[key]
-  await saveProjectStartupSettingsFile(data)
+export function deleteProjectStartupCommands(repoPath: string): Promise<void> {
+  return runExclusive(async () => {
+    const key = normalizeRepoKey(repoPath)
+    const data = await loadProjectStartupSettingsFile()
+    const entry = data.projects[key]
+    if (!entry) return
+    if (entry.ports?.length) {
+      data.projects[key] = { startupCommands: [], ports: entry.ports, updatedAt: Date.now() }
+    } else {
+      delete data.projects[key]
+    }
+    await saveProjectStartupSettingsFile(data)
+  })
 }
 
 export function getProjectStartupSettingsPath(): string {
@@ -14,6 +14,9 @@ import {
   OPENCODE_MARKER_SEGMENT,
   PI_CONSTELL_MARKER_SEGMENT,
 } from '../shared/agent-markers'
+import { ScrollbackRing, ShellCommandTracker } from './pty-scrollback'
+import type { PtyScrollbackSnapshot } from './pty-scrollback-store'
+import type { TranscriptPtyInfo } from './terminal-transcript-recorder'
 
 const TAB_TITLE_LOG = '[constellagent:tab-title]'
 
@@ -34,6 +37,10 @@ interface PtyInstance {
   oscTitleTimer: ReturnType<typeof setTimeout> | null
   /** Unterminated OSC chunks (Codex / crossterm often use ST + split writes) */
   oscTitleCarry: string
+  /** Recent raw output, saved at shutdown so the tab can show it after a restart */
+  scrollback: ScrollbackRing
+  /** Last command the shell reported through shell integration marks */
+  shellCommands: ShellCommandTracker
 }
 
 interface ProcessEntry {
@@ -226,6 +233,8 @@ export class PtyManager {
   onTitleChanged?: (ptyId: string, title: string, workspaceId: string | undefined, workingDir: string) => void
   onAgentDetected?: (ptyId: string, agentType: string) => void
   onPtyData?: (ptyId: string, data: string) => void
+  /** Extra environment for terminals of a workspace (`AGENT_ORCH_WS_ID`); explicit `extraEnv` wins. */
+  workspaceEnv?: (workspaceId: string) => Record<string, string> | null
 
   create(workingDir: string, webContents: WebContents, shell?: string, command?: string[], initialWrite?: string, extraEnv?: Record<string, string>): string {
     const id = `pty-${++this.nextId}`
@@ -240,6 +249,7 @@ export class PtyManager {
       args = []
     }
 
+    const workspaceId = extraEnv?.AGENT_ORCH_WS_ID
     const proc = pty.spawn(file, args, {
       name: 'xterm-256color',
       cols: 80,
@@ -249,12 +259,15 @@ export class PtyManager {
         ...process.env,
         TERM: 'xterm-256color',
         COLORTERM: 'truecolor',
+        ...(workspaceId ? this.workspaceEnv?.(workspaceId) : undefined),
         ...extraEnv,
       } as Record<string, string>,
     })
 
     let pendingWrite = initialWrite
     proc.onData((data) => {
+      instance.scrollback.append(data)
+      instance.shellCommands.feed(data)
       if (!instance.webContents.isDestroyed()) {
         instance.webContents.send(`${IPC.PTY_DATA}:${id}`, data)
       }
@@ -284,6 +297,8 @@ export class PtyManager {
       pendingOscTitle: null,
       oscTitleTimer: null,
       oscTitleCarry: '',
+      scrollback: new ScrollbackRing(),
+      shellCommands: new ShellCommandTracker(),
     }
 
     proc.onExit(({ exitCode }) => {
@@ -460,11 +475,14 @@ export class PtyManager {
     return Array.from(this.ptys.keys())
   }
 
-  getPtyIdsForWorkspace(workspaceId: string): string[] {
+  /** Oldest first; pass `agentType` to keep only terminals where that agent CLI was detected. */
+  getPtyIdsForWorkspace(workspaceId: string, agentType?: string): string[] {
     if (!workspaceId) return []
     const ids: string[] = []
     for (const [ptyId, instance] of this.ptys.entries()) {
-      if (instance.workspaceId === workspaceId) ids.push(ptyId)
+      if (instance.workspaceId !== workspaceId) continue
+      if (agentType && instance.agentType !== agentType) continue
+      ids.push(ptyId)
     }
     return ids
   }
@@ -642,6 +660,30 @@ export class PtyManager {
     return true
   }
 
+  /** Where a PTY runs and what it currently hosts, or null once it has exited. */
+  describe(ptyId: string): TranscriptPtyInfo | null {
+    const instance = this.ptys.get(ptyId)
+    if (!instance) return null
+    return {
+      workspaceId: instance.workspaceId,
+      workingDir: instance.workingDir,
+      agentType: instance.agentType,
+      cols: instance.cols,
+      rows: instance.rows,
+    }
+  }
+
+  /** Output and last shell command of every live PTY, for saving at shutdown. */
+  snapshotScrollback(): PtyScrollbackSnapshot[] {
+    return Array.from(this.ptys.entries(), ([ptyId, instance]) => ({
+      ptyId,
+      workspaceId: instance.workspaceId,
+      workingDir: instance.workingDir,
+      lastCommand: instance.shellCommands.lastCommand,
+      data: instance.scrollback.toString(),
+    }))
+  }
+
   destroyAll(): void {
     for (const [id] of this.ptys) {
       this.destroy(id)
@@ -0,0 +1,70 @@
+import { app } from 'electron'
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type { RestoredScrollback } from '../shared/terminal-scrollback'
+
+export interface PtyScrollbackSnapshot {
+  ptyId: string
+  workspaceId?: string
+  workingDir: string
+  lastCommand?: string
+  data: string
+}
+
+interface ScrollbackFile {
+  savedAt: number
+  terminals: PtyScrollbackSnapshot[]
+}
+
+function scrollbackFilePath(): string {
+  return join(app.getPath('userData'), 'constellagent-scrollback.json')
+}
+
+/**
+ * Terminal output saved at shutdown, keyed by the PTY ids the persisted tab layout still
+ * references. The file is consumed on load so a crash never replays a stale session.
+ */
+export class PtyScrollbackStore {
+  private previous = new Map<string, RestoredScrollback>()
+
+  load(): void {
+    const filePath = scrollbackFilePath()
+    if (!existsSync(filePath)) return
+    try {
+      const file = JSON.parse(readFileSync(filePath, 'utf-8')) as ScrollbackFile
+      for (const terminal of file.terminals ?? []) {
+        if (!terminal.data) continue
+        this.previous.set(terminal.ptyId, {
+          data: terminal.data,
+          savedAt: file.savedAt,
+          lastCommand: terminal.lastCommand,
+        })
+      }
+    } catch (err) {
+      console.error('[pty-scrollback] failed to read saved scrollback:', err)
+    }
+    try {
+      unlinkSync(filePath)
+    } catch {}
+  }
+
+  /** Hands out the previous session's output for `ptyId` once. */
+  take(ptyId: string): RestoredScrollback | null {
+    const restored = this.previous.get(ptyId) ?? null
+    this.previous.delete(ptyId)
+    return restored
+  }
+
+  save(terminals: PtyScrollbackSnapshot[]): void {
+    const file: ScrollbackFile = {
+      savedAt: Date.now(),
+      terminals: terminals.filter((terminal) => terminal.data.length > 0),
+    }
+    if (file.terminals.length === 0) return
+    try {
+      writeFileSync(scrollbackFilePath(), JSON.stringify(file))
+    } catch (err) {
+      console.error('[pty-scrollback] failed to save scrollback:', err)
+    }
+  }
+}
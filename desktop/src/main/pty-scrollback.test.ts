@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'bun:test'
+import { renderEchoedCommand, ScrollbackRing, ShellCommandTracker } from './pty-scrollback'
+
+describe('ScrollbackRing', () => {
+  it('keeps everything while under the cap', () => {
+    const ring = new ScrollbackRing(100)
+    ring.append('\x1b[32mok\x1b[0m\r\n')
+    ring.append('$ ')
+    expect(ring.toString()).toBe('\x1b[32mok\x1b[0m\r\n$ ')
+  })
+
+  it('drops whole chunks and restarts at a line boundary once trimmed', () => {
+    const ring = new ScrollbackRing(12)
+    ring.append('first line\r\n')
+    ring.append('tail of \x1b[1mx')
+    ring.append('\x1b[0m\r\nnext\r\n')
+    expect(ring.toString()).toBe('next\r\n')
+  })
+})
+
+describe('ShellCommandTracker', () => {
+  it('takes the command line reported by OSC 633;E', () => {
+    const tracker = new ShellCommandTracker()
+    tracker.feed('\x1b]633;A\x07$ \x1b]633;B\x07echo hi\r\n\x1b]633;E;echo a\\x3bb \\\\n;nonce\x07')
+    tracker.feed('\x1b]633;C\x07a;b\r\n')
+    expect(tracker.lastCommand).toBe('echo a;b \\n')
+  })
+
+  it('reads the echo between OSC 133 B and C, across chunks', () => {
+    const tracker = new ShellCommandTracker()
+    tracker.feed('\x1b]133;A\x07$ \x1b]133;B\x07npm rux\b\x1b[Kn dev\r\n\x1b]13')
+    tracker.feed('3;C\x07> dev\r\n')
+    expect(tracker.lastCommand).toBe('npm run dev')
+  })
+
+  it('ignores input typed without shell integration marks', () => {
+    const tracker = new ShellCommandTracker()
+    tracker.feed('$ sudo ls\r\nPassword:\r\n')
+    expect(tracker.lastCommand).toBeUndefined()
+    tracker.feed('\x1b]133;A\x07$ \x1b]133;B\x07\x1b]133;C\x07')
+    expect(tracker.lastCommand).toBeUndefined()
+  })
+})
+
+describe('renderEchoedCommand', () => {
+  it('applies cursor moves and deletes', () => {
+    expect(renderEchoedCommand('gti\x1b[2D\x1b[Pit\x1b[1C')).toBe('git')
+    expect(renderEchoedCommand('ls\x1b[1m -la\x1b[0m\r\n')).toBe('ls -la')
+  })
+})
@@ -0,0 +1,142 @@
+/** Per-terminal cap; roughly the last few thousand lines of agent output. */
+export const SCROLLBACK_MAX_CHARS = 256 * 1024
+
+/**
+ * Bounded buffer of raw PTY output. Whole chunks are dropped from the front so escape
+ * sequences inside a chunk survive, and a trimmed buffer is cut at its first line break.
+ */
+export class ScrollbackRing {
+  private chunks: string[] = []
+  private size = 0
+  private trimmed = false
+
+  constructor(private maxChars = SCROLLBACK_MAX_CHARS) {}
+
+  append(data: string): void {
+    if (!data) return
+    this.chunks.push(data)
+    this.size += data.length
+    while (this.size > this.maxChars && this.chunks.length > 1) {
+      this.size -= this.chunks.shift()!.length
+      this.trimmed = true
+    }
+  }
+
+  toString(): string {
+    let text = this.chunks.join('')
+    let trimmed = this.trimmed
+    // A single oversized chunk is the only way past the cap.
+    if (text.length > this.maxChars) {
+      text = text.slice(text.length - this.maxChars)
+      trimmed = true
+    }
+    if (!trimmed) return text
+    const lineStart = text.indexOf('\n')
+    return lineStart === -1 ? text : text.slice(lineStart + 1)
+  }
+}
+
+const COMMAND_ECHO_MAX_CHARS = 8192
+const SHELL_MARK_RE = /\x1b\](?:133|633);([A-Z])([^\x07\x1b]*)(?:\x07|\x1b\\)/g
+const OTHER_OSC_RE = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g
+const ECHO_TOKEN_RE = /\x1b\[([\d;?]*)([@A-Za-z])|\x1b[\s\S]?|[\s\S]/g
+
+/** Command line from an OSC 633;E payload, which escapes `\` and control bytes as `\xHH`. */
+function unescapeReportedCommand(params: string): string {
+  const escaped = params.replace(/^;/, '').split(';')[0] ?? ''
+  return escaped.replace(/\\(\\|x([0-9a-fA-F]{2}))/g, (_, ch: string, hex?: string) =>
+    hex ? String.fromCharCode(parseInt(hex, 16)) : ch)
+}
+
+/**
+ * Replays the shell's echo of a command line (cursor moves, backspaces, erases) into the
+ * text it left on screen.
+ */
+export function renderEchoedCommand(raw: string): string {
+  const lines: string[] = []
+  let line: string[] = []
+  let col = 0
+  for (const [token, params, final] of raw.replace(OTHER_OSC_RE, '').matchAll(ECHO_TOKEN_RE)) {
+    const count = Math.max(1, Number(params?.split(';')[0]) || 1)
+    if (final) {
+      if (final === 'C') col += count
+      else if (final === 'D') col = Math.max(0, col - count)
+      else if (final === 'G') col = count - 1
+      else if (final === 'K') {
+        if (params === '2') line = []
+        else if (params === '1') line = line.map((ch, i) => (i <= col ? ' ' : ch))
+        else line = line.slice(0, col)
+      } else if (final === 'P') line.splice(col, count)
+      else if (final === '@') line.splice(col, 0, ...Array<string>(count).fill(' '))
+      continue
+    }
+    if (token === '\r') col = 0
+    else if (token === '\n') {
+      lines.push(line.join(''))
+      line = []
+      col = 0
+    } else if (token === '\b') col = Math.max(0, col - 1)
+    else if (token >= ' ' && token !== '\x7f') {
+      while (line.length < col) line.push(' ')
+      line[col] = token
+      col += 1
+    }
+  }
+  lines.push(line.join(''))
+  return lines.map((text) => text.trimEnd()).join('\n').trim()
+}
+
+/**
+ * Last command the shell ran, as reported by shell integration: OSC 633;E carries the
+ * command line itself, otherwise the echo between the B (prompt end) and C (command
+ * executed) marks of OSC 133/633 is used. Typing the shell never sees or echoes, such as
+ * a password read by `sudo` or `ssh`, is never captured.
+ */
+export class ShellCommandTracker {
+  lastCommand?: string
+  private carry = ''
+  private echo: string | null = null
+  private reported: string | null = null
+
+  feed(data: string): void {
+    const text = this.carry + data
+    this.carry = ''
+    let cursor = 0
+    SHELL_MARK_RE.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = SHELL_MARK_RE.exec(text)) !== null) {
+      this.appendEcho(text.slice(cursor, match.index))
+      cursor = SHELL_MARK_RE.lastIndex
+      this.handleMark(match[1], match[2])
+    }
+    let rest = text.slice(cursor)
+    // An escape sequence split across chunks is finished by the next one
+    const openOsc = rest.lastIndexOf('\x1b]')
+    if (openOsc !== -1 && !/\x07|\x1b\\/.test(rest.slice(openOsc))) {
+      this.carry = rest.slice(openOsc).slice(-COMMAND_ECHO_MAX_CHARS)
+      rest = rest.slice(0, openOsc)
+    }
+    this.appendEcho(rest)
+  }
+
+  private appendEcho(text: string): void {
+    if (this.echo === null || !text) return
+    this.echo = (this.echo + text).slice(0, COMMAND_ECHO_MAX_CHARS)
+  }
+
+  private handleMark(kind: string, params: string): void {
+    if (kind === 'A') {
+      this.echo = null
+      this.reported = null
+    } else if (kind === 'B') {
+      this.echo = ''
+    } else if (kind === 'E') {
+      this.reported = unescapeReportedCommand(params)
+    } else if (kind === 'C') {
+      const command = (this.reported ?? (this.echo === null ? '' : renderEchoedCommand(this.echo))).trim()
+      if (command) this.lastCommand = command
+      this.echo = null
+      this.reported = null
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import { AnnotationService } from './annotation-service'
+import { GithubService } from './github-service'
+import type { PrReviewThread, PublishPrReviewRequest, PublishPrReviewResult } from '../shared/github-types'
+import { formatThreadReplies, githubAnnotationAuthor } from '../shared/github-review-threads'
+import {
+  formatAnnotationCommentBody,
+  mapAnnotationToReviewComment,
+  type GithubReviewCommentDraft,
+} from '../shared/github-review-mapping'
+
+/** Pulls per worktree, run one at a time so two views refreshing together import a thread once. */
+const pullQueues = new Map<string, Promise<unknown>>()
+
+function importedFields(thread: PrReviewThread) {
+  const [root, ...replies] = thread.comments
+  const lineEnd = thread.line ?? thread.startLine ?? 1
+  return {
+    file: thread.filePath,
+    side: thread.diffSide === 'LEFT' ? 'old' as const : 'new' as const,
+    lineStart: thread.startLine ?? lineEnd,
+    lineEnd,
+    summary: root.body,
+    rationale: formatThreadReplies(replies),
+    author: githubAnnotationAuthor(root.author),
+    resolved: thread.resolved,
+  }
+}
+
+/** One pull; see `ReviewGithubSync.pullThreads`. */
+async function pullThreadsNow(worktreePath: string, prNumber: number): Promise<PrReviewThread[]> {
+  const threads = await GithubService.fetchPrReviewThreads(worktreePath, prNumber)
+  const repo = await GithubService.getRepoSlug(worktreePath)
+  if (!repo || threads.length === 0) return threads
+
+  const [links, imports, annotations] = await Promise.all([
+    AnnotationService.listGithubLinksForPr(worktreePath, repo, prNumber),
+    AnnotationService.listGithubImportsForPr(worktreePath, repo, prNumber),
+    AnnotationService.listComments(worktreePath),
+  ])
+  const annotationByNodeId = new Map(links.map((link) => [link.commentNodeId, link.annotationId]))
+  const importByNodeId = new Map(imports.map((entry) => [entry.commentNodeId, entry]))
+  const localById = new Map(annotations.map((annotation) => [annotation.id, annotation]))
+
+  const pulled: PrReviewThread[] = []
+  for (const thread of threads) {
+    const rootId = thread.comments[0].id
+    const publishedFrom = annotationByNodeId.get(rootId)
+    const published = publishedFrom ? localById.get(publishedFrom) : undefined
+    if (published) {
+      if (published.resolved !== thread.resolved) {
+        await AnnotationService.setResolved(worktreePath, published.id, thread.resolved)
+      }
+      pulled.push({ ...thread, linkedAnnotationId: published.id })
+      continue
+    }
+
+    const fields = importedFields(thread)
+    const imported = importByNodeId.get(rootId)
+    if (!imported) {
+      const annotationId = await AnnotationService.importGithubThread(
+        worktreePath,
+        { repo, prNumber, threadId: thread.id, commentNodeId: rootId },
+        fields,
+      )
+      pulled.push({ ...thread, importedAnnotationId: annotationId })
+      continue
+    }
+    const copy = localById.get(imported.annotationId)
+    // Removed from the store (e.g. with the annotation CLI): leave it out from now on
+    if (!copy) {
+      pulled.push(thread)
+      continue
+    }
+    if (copy.summary !== fields.summary || copy.rationale !== fields.rationale) {
+      await AnnotationService.updateImportedText(worktreePath, copy.id, fields.summary, fields.rationale)
+    }
+    if (copy.resolved !== thread.resolved) await AnnotationService.setResolved(worktreePath, copy.id, thread.resolved)
+    pulled.push({ ...thread, importedAnnotationId: copy.id })
+  }
+
+  const liveRootIds = new Set(threads.map((thread) => thread.comments[0].id))
+  for (const entry of imports) {
+    if (liveRootIds.has(entry.commentNodeId)) continue
+    if (localById.has(entry.annotationId)) await AnnotationService.removeComment(worktreePath, entry.annotationId)
+    await AnnotationService.deleteGithubImport(worktreePath, entry.annotationId)
+  }
+  return pulled
+}
+
+/**
+ * Keeps local review annotations and the GitHub review comments they were published as in step.
+ * Links live next to the annotations (see `AnnotationService.saveGithubLink`), so they follow the
+ * repo across worktrees.
+ */
+export const ReviewGithubSync = {
+  async publish(worktreePath: string, request: PublishPrReviewRequest): Promise<PublishPrReviewResult> {
+    const repo = await GithubService.getRepoSlug(worktreePath)
+    if (!repo) throw new Error('Origin remote is not a GitHub repo.')
+
+    const selected = new Set(request.annotationIds)
+    const annotations = (await AnnotationService.listComments(worktreePath))
+      .filter((annotation) => selected.has(annotation.id) && !annotation.resolved)
+    const links = await AnnotationService.getGithubLinks(worktreePath, annotations.map((annotation) => annotation.id))
+
+    const result: PublishPrReviewResult = { reviewUrl: null, published: 0, updated: 0, skipped: [] }
+    const pending: Array<{ annotationId: string; draft: GithubReviewCommentDraft }> = []
+    const diff = await GithubService.getPrDiff(worktreePath, request.prNumber)
+
+    for (const annotation of annotations) {
+      const link = links.get(annotation.id)
+      if (link && link.repo === repo && link.prNumber === request.prNumber) {
+        const body = formatAnnotationCommentBody(annotation)
+        if (body === link.syncedBody) {
+          result.skipped.push({ annotationId: annotation.id, reason: 'Already published' })
+          continue
+        }
+        await GithubService.updatePrReviewComment(worktreePath, link.commentId, body)
+        await AnnotationService.saveGithubLink(worktreePath, { ...link, syncedBody: body })
+        result.updated++
+        continue
+      }
+      const mapping = mapAnnotationToReviewComment(annotation, diff.patches.get(annotation.file_path))
+      if (mapping.ok) {
+        pending.push({ annotationId: annotation.id, draft: mapping.draft })
+      } else {
+        result.skipped.push({ annotationId: annotation.id, reason: mapping.reason })
+      }
+    }
+
+    // A review with neither comments nor a body is rejected by GitHub; approvals may stand alone.
+    if (pending.length === 0 && request.event !== 'APPROVE' && !request.body?.trim()) return result
+
+    const review = await GithubService.createPrReview(worktreePath, request.prNumber, {
+      commitId: diff.headSha,
+      event: request.event,
+      body: request.body,
+      comments: pending.map((item) => item.draft),
+    })
+    result.reviewUrl = review.url
+    result.published = pending.length
+
+    // Two annotations may share a file and text; the line tells their comments apart.
+    const unclaimed = [...review.comments]
+    for (const { annotationId, draft } of pending) {
+      const index = unclaimed.findIndex((comment) =>
+        comment.path === draft.path && comment.line === draft.line && comment.body === draft.body)
+      if (index < 0) continue
+      const [comment] = unclaimed.splice(index, 1)
+      await AnnotationService.saveGithubLink(worktreePath, {
+        annotationId,
+        repo,
+        prNumber: request.prNumber,
+        commentId: comment.id,
+        commentNodeId: comment.nodeId,
+        syncedBody: draft.body,
+      })
+    }
+    return result
+  },
+
+  /**
+   * Fetches the PR's review threads and tags those published from local annotations. Every
+   * other thread is imported into the annotation store (author, resolved state and replies)
+   * and kept in step on each pull; threads deleted on GitHub drop their copy. GitHub is
+   * authoritative for resolution, so a thread resolved or reopened there is mirrored locally.
+   */
+  async pullThreads(worktreePath: string, prNumber: number): Promise<PrReviewThread[]> {
+    const previous = pullQueues.get(worktreePath) ?? Promise.resolve()
+    const pull = previous.catch(() => {}).then(() => pullThreadsNow(worktreePath, prNumber))
+    pullQueues.set(worktreePath, pull)
+    try {
+      return await pull
+    } finally {
+      if (pullQueues.get(worktreePath) === pull) pullQueues.delete(worktreePath)
+    }
+  },
+
+  /** Mirrors a local resolve/reopen onto the linked or imported GitHub thread. No-op for local-only annotations. */
+  async syncResolution(worktreePath: string, annotationId: string, resolved: boolean): Promise<void> {
+    const link = (await AnnotationService.getGithubLinks(worktreePath, [annotationId])).get(annotationId)
+    if (link) {
+      await GithubService.setPrReviewCommentThreadResolved(worktreePath, link.prNumber, link.commentNodeId, resolved)
+      return
+    }
+    const imported = await AnnotationService.getGithubImport(worktreePath, annotationId)
+    if (imported) await GithubService.setPrReviewThreadResolved(worktreePath, imported.threadId, resolved)
+  },
+
+  /** Drops the link when the local annotation is deleted; the GitHub comment is left in place. */
+  async forget(worktreePath: string, annotationId: string): Promise<void> {
+    await AnnotationService.deleteGithubLink(worktreePath, annotationId)
+  },
+}
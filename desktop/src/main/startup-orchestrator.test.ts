@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test'
+import { execFileSync } from 'child_process'
+import type { StartupLaunchEntry, StartupWorkspaceStatus } from '../shared/startup-commands'
+import { StartupOrchestrator } from './startup-orchestrator'
+
+const tick = (ms = 5) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function createOrchestrator(openPorts = new Set<number>()) {
+  const writes: Array<[string, string]> = []
+  let latest: StartupWorkspaceStatus | null = null
+  const orchestrator = new StartupOrchestrator(
+    {
+      write: (ptyId, data) => writes.push([ptyId, data]),
+      onStatus: (status) => { latest = status },
+      probePort: async (_host, port) => openPorts.has(port),
+    },
+    { shellStartDelayMs: 0, portPollMs: 2, restartBaseDelayMs: 5, restartMaxDelayMs: 20, stopTimeoutMs: 10 },
+  )
+  const states = () => Object.fromEntries(latest!.commands.map((c) => [c.name, c.state]))
+  return { orchestrator, writes, states }
+}
+
+describe('StartupOrchestrator', () => {
+  it('launches dependents only after output and port readiness', async () => {
+    const openPorts = new Set<number>()
+    const { orchestrator, writes, states } = createOrchestrator(openPorts)
+    const entries: StartupLaunchEntry[] = [
+      { name: 'web', command: 'pnpm dev', ptyId: 'p-web', dependsOn: ['api'] },
+      { name: 'db', command: 'docker compose up db', ptyId: 'p-db', readiness: { type: 'output', pattern: 'ready to accept' } },
+      { name: 'api', command: 'pnpm api', ptyId: 'p-api', dependsOn: ['db'], readiness: { type: 'port', port: 4000 } },
+    ]
+    orchestrator.start('ws', entries)
+    await tick()
+    expect(writes.map(([ptyId]) => ptyId)).toEqual(['p-db'])
+    expect(states()).toEqual({ web: 'waiting', db: 'starting', api: 'waiting' })
+
+    orchestrator.handleData('p-db', 'docker compose up db\r\n')
+    expect(states().db).toBe('starting')
+    orchestrator.handleData('p-db', '\x1b[32mdatabase system is ready to accept connections\x1b[0m\r\n')
+    await tick()
+    expect(writes.map(([ptyId]) => ptyId)).toEqual(['p-db', 'p-api'])
+
+    openPorts.add(4000)
+    await tick(20)
+    expect(states()).toEqual({ web: 'ready', db: 'ready', api: 'ready' })
+    // Commands others depend on report their exit code; leaf commands are typed as-is.
+    expect(writes[0][1]).toStartWith("sh -c 'docker compose up db\n")
+    expect(writes[0][1]).toContain('6973;%d')
+    expect(writes[2][1]).toBe('pnpm dev\n')
+  })
+
+  it('types exit-tracked commands so quotes, backslashes and trailing comments reach the shell intact', async () => {
+    const { orchestrator, writes } = createOrchestrator()
+    orchestrator.start('ws', [
+      { name: 'svc', command: "printf '%s' 'it'\\''s a\\b' # done", ptyId: 'p-svc', restart: 'always' },
+    ])
+    await tick()
+    orchestrator.dispose('ws')
+    expect(execFileSync('sh', ['-c', writes[0][1]], { encoding: 'utf-8' })).toBe("it's a\\b\x1b]6973;0\x07")
+  })
+
+  it('restarts crashed commands with backoff and fails dependents of commands that give up', async () => {
+    const { orchestrator, writes, states } = createOrchestrator()
+    orchestrator.start('ws', [
+      { name: 'worker', command: 'node worker.js', ptyId: 'p-1', restart: 'on-failure' },
+      { name: 'a', command: 'a', ptyId: 'p-2', dependsOn: ['b'] },
+      { name: 'b', command: 'b', ptyId: 'p-3', dependsOn: ['a'] },
+    ])
+    await tick()
+    expect(states()).toMatchObject({ a: 'failed', b: 'failed' })
+
+    orchestrator.handleData('p-1', '\x1b]6973;1\x07')
+    expect(states().worker).toBe('restarting')
+    await tick(20)
+    expect(writes.filter(([ptyId]) => ptyId === 'p-1')).toHaveLength(2)
+
+    orchestrator.handleData('p-1', '\x1b]6973;')
+    orchestrator.handleData('p-1', '0\x07')
+    expect(states().worker).toBe('exited')
+  })
+
+  it('restarts every command in dependency order', async () => {
+    const { orchestrator, writes, states } = createOrchestrator()
+    orchestrator.start('ws', [
+      { name: 'api', command: 'api', ptyId: 'p-api', dependsOn: ['db'] },
+      { name: 'db', command: 'db', ptyId: 'p-db', readiness: { type: 'delay', seconds: 0.01 } },
+    ])
+    await tick(30)
+    expect(states()).toEqual({ api: 'ready', db: 'ready' })
+    writes.length = 0
+
+    await orchestrator.restart('ws')
+    await tick(30)
+    expect(writes.filter(([, data]) => data !== '\x03').map(([ptyId]) => ptyId)).toEqual(['p-db', 'p-api'])
+    expect(orchestrator.getStatus('ws')!.commands.map((c) => c.restarts)).toEqual([1, 1])
+  })
+})
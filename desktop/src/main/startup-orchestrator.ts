@@ -0,0 +1,441 @@
+import { createConnection } from 'net'
+import type {
+  StartupCommandState,
+  StartupCommandStatus,
+  StartupLaunchEntry,
+  StartupWorkspaceStatus,
+} from '../shared/startup-commands'
+import { findStartupDependencyProblems } from '../shared/startup-commands'
+import { TranscriptTextDecoder } from '../shared/terminal-transcript'
+
+/**
+ * Private OSC printed after a command exits. Terminals ignore unknown OSC numbers, so it
+ * never shows in the tab.
+ */
+const EXIT_MARKER_OSC = 6973
+const EXIT_MARKER_RE = new RegExp(`\\x1b\\]${EXIT_MARKER_OSC};(\\d+)\\x07`, 'g')
+const EXIT_MARKER_PRINTF = `printf '\\033]${EXIT_MARKER_OSC};%d\\007' "$?"`
+/** 128 + SIGINT: what a command that handles Ctrl+C itself usually exits with; treated as a deliberate stop. */
+const INTERRUPTED_EXIT_CODE = 130
+const OUTPUT_TAIL_MAX_CHARS = 8 * 1024
+
+export interface StartupOrchestratorHost {
+  write(ptyId: string, data: string): void
+  onStatus(status: StartupWorkspaceStatus): void
+  probePort?(host: string, port: number): Promise<boolean>
+}
+
+export interface StartupOrchestratorOptions {
+  /** Pause before the first command is typed so the shell can print its prompt. */
+  shellStartDelayMs?: number
+  readyTimeoutMs?: number
+  portPollMs?: number
+  restartBaseDelayMs?: number
+  restartMaxDelayMs?: number
+  /** A run at least this long resets the restart backoff. */
+  stableRunMs?: number
+  /** Consecutive quick crashes before the command is given up on. */
+  maxRestarts?: number
+  /**
+   * How long a stop waits for the exit marker before relaunching anyway. `sh` usually dies with
+   * a command interrupted by Ctrl+C, so the marker often never comes.
+   */
+  stopTimeoutMs?: number
+}
+
+interface CommandRun {
+  entry: StartupLaunchEntry
+  status: StartupCommandStatus
+  /** Whether the launched command line reports its exit code back to us. */
+  tracksExit: boolean
+  timers: Set<ReturnType<typeof setTimeout>>
+  /** Pending `sleep`s, woken when the timers are cleared. */
+  sleepers: Set<() => void>
+  /** Bumped on every launch and stop so stale readiness checks and restart timers do nothing. */
+  generation: number
+  decoder: TranscriptTextDecoder
+  outputTail: string
+  markerCarry: string
+  launchedAt: number
+  quickCrashes: number
+  stopping: boolean
+  exitWaiters: Array<() => void>
+}
+
+interface WorkspaceRun {
+  workspaceId: string
+  runs: CommandRun[]
+}
+
+function probeTcpPort(host: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = createConnection({ host, port })
+    const finish = (open: boolean) => {
+      socket.destroy()
+      resolve(open)
+    }
+    socket.setTimeout(1000, () => finish(false))
+    socket.once('connect', () => finish(true))
+    socket.once('error', () => finish(false))
+  })
+}
+
+/** Quotes `text` as a single word for sh, bash, zsh and fish (which also unescapes `\\` inside single quotes). */
+function shellWord(text: string): string {
+  return `'${text.replace(/['\\]/g, (char) => `'\\${char}'`)}'`
+}
+
+/**
+ * The line typed into the terminal. Exit-tracked commands run under `sh -c` with the marker
+ * on its own line, so neither the user's shell (fish has no `$?`) nor a trailing `# comment`
+ * or `&` in the command can swallow it.
+ */
+function commandLine(run: CommandRun): string {
+  const { command } = run.entry
+  return run.tracksExit ? `sh -c ${shellWord(`${command}\n${EXIT_MARKER_PRINTF}`)}` : command
+}
+
+const SATISFIED_STATES: StartupCommandState[] = ['ready', 'exited']
+const BLOCKING_STATES: StartupCommandState[] = ['failed', 'crashed', 'stopped']
+
+/**
+ * Runs a workspace's startup commands in the terminals the renderer opened for them:
+ * each command is typed once its dependencies are ready, readiness is judged by an
+ * output regex, an open TCP port or a delay, and commands with a restart policy are
+ * relaunched with exponential backoff when they exit.
+ */
+export class StartupOrchestrator {
+  private workspaces = new Map<string, WorkspaceRun>()
+  private byPty = new Map<string, { workspace: WorkspaceRun; run: CommandRun }>()
+  private options: Required<StartupOrchestratorOptions>
+
+  constructor(private host: StartupOrchestratorHost, options: StartupOrchestratorOptions = {}) {
+    this.options = {
+      shellStartDelayMs: options.shellStartDelayMs ?? 500,
+      readyTimeoutMs: options.readyTimeoutMs ?? 120_000,
+      portPollMs: options.portPollMs ?? 500,
+      restartBaseDelayMs: options.restartBaseDelayMs ?? 1000,
+      restartMaxDelayMs: options.restartMaxDelayMs ?? 30_000,
+      stableRunMs: options.stableRunMs ?? 60_000,
+      maxRestarts: options.maxRestarts ?? 10,
+      stopTimeoutMs: options.stopTimeoutMs ?? 2000,
+    }
+  }
+
+  start(workspaceId: string, entries: StartupLaunchEntry[]): StartupWorkspaceStatus {
+    this.dispose(workspaceId)
+    const problems = findStartupDependencyProblems(entries)
+    const dependedOn = new Set(entries.flatMap((entry) => entry.dependsOn ?? []))
+    const workspace: WorkspaceRun = { workspaceId, runs: [] }
+    for (const entry of entries) {
+      const run: CommandRun = {
+        entry,
+        status: {
+          name: entry.name,
+          command: entry.command,
+          ptyId: entry.ptyId,
+          state: 'waiting',
+          restarts: 0,
+          updatedAt: Date.now(),
+        },
+        // Only commands something reacts to get the exit-code suffix, so agent tabs keep a clean command line.
+        tracksExit: Boolean(entry.restart && entry.restart !== 'never') || (Boolean(entry.name) && dependedOn.has(entry.name)),
+        timers: new Set(),
+        sleepers: new Set(),
+        generation: 0,
+        decoder: new TranscriptTextDecoder(),
+        outputTail: '',
+        markerCarry: '',
+        launchedAt: 0,
+        quickCrashes: 0,
+        stopping: false,
+        exitWaiters: [],
+      }
+      const problem = entry.name ? problems.get(entry.name) : undefined
+      if (problem) this.setState(run, 'failed', problem)
+      workspace.runs.push(run)
+      this.byPty.set(entry.ptyId, { workspace, run })
+    }
+    this.workspaces.set(workspaceId, workspace)
+    this.schedule(workspace, true)
+    return this.snapshot(workspace)
+  }
+
+  getStatus(workspaceId: string): StartupWorkspaceStatus | null {
+    const workspace = this.workspaces.get(workspaceId)
+    return workspace ? this.snapshot(workspace) : null
+  }
+
+  /** Restarts one command (dependents keep running), or every command in dependency order. */
+  async restart(workspaceId: string, name?: string): Promise<void> {
+    const workspace = this.workspaces.get(workspaceId)
+    if (!workspace) throw new Error('No startup commands are running in this workspace')
+    if (name !== undefined) {
+      const run = workspace.runs.find((candidate) => candidate.entry.name === name)
+      if (!run) throw new Error(`Unknown startup command “${name}”`)
+      await this.stopRun(run)
+      run.quickCrashes = 0
+      run.status.restarts++
+      this.launch(workspace, run, 0)
+      return
+    }
+
+    await Promise.all(workspace.runs.map((run) => this.stopRun(run)))
+    const problems = findStartupDependencyProblems(workspace.runs.map((run) => run.entry))
+    for (const run of workspace.runs) {
+      run.quickCrashes = 0
+      run.exitWaiters = []
+      if (run.status.state !== 'waiting') run.status.restarts++
+      run.status.exitCode = undefined
+      const problem = run.entry.name ? problems.get(run.entry.name) : undefined
+      if (problem) this.setState(run, 'failed', problem)
+      else this.setState(run, 'waiting')
+    }
+    this.schedule(workspace, false)
+  }
+
+  handleData(ptyId: string, data: string): void {
+    const target = this.byPty.get(ptyId)
+    if (!target) return
+    const { workspace, run } = target
+
+    if (run.tracksExit) {
+      const scan = run.markerCarry + data
+      EXIT_MARKER_RE.lastIndex = 0
+      let exitCode: number | null = null
+      for (let match = EXIT_MARKER_RE.exec(scan); match; match = EXIT_MARKER_RE.exec(scan)) {
+        exitCode = Number(match[1])
+      }
+      const lastEsc = scan.lastIndexOf('\x1b')
+      run.markerCarry = lastEsc >= 0 && scan.length - lastEsc < 32 && exitCode === null ? scan.slice(lastEsc) : ''
+      if (exitCode !== null) {
+        this.handleExit(workspace, run, exitCode)
+        return
+      }
+    }
+
+    const readiness = run.entry.readiness
+    if (run.status.state !== 'starting' || readiness?.type !== 'output') return
+    // The shell echoes the typed command; it must not satisfy a pattern that happens to appear in it.
+    const echoed = commandLine(run).split('\n')[0].trim()
+    const lines = run.decoder.push(data).split('\n').filter((line) => !echoed || !line.includes(echoed))
+    run.outputTail = (run.outputTail + lines.join('\n')).slice(-OUTPUT_TAIL_MAX_CHARS)
+    try {
+      if (new RegExp(readiness.pattern, 'm').test(run.outputTail)) this.markReady(workspace, run)
+    } catch {
+      this.fail(workspace, run, `Invalid readiness pattern /${readiness.pattern}/`)
+    }
+  }
+
+  /** The terminal closed: the command can no longer run or restart. */
+  handlePtyExit(ptyId: string): void {
+    const target = this.byPty.get(ptyId)
+    if (!target) return
+    const { workspace, run } = target
+    this.byPty.delete(ptyId)
+    this.cancel(run)
+    for (const resolve of run.exitWaiters.splice(0)) resolve()
+    this.setState(run, 'stopped', 'Terminal closed')
+    if (workspace.runs.every((candidate) => !this.byPty.has(candidate.entry.ptyId))) {
+      this.workspaces.delete(workspace.workspaceId)
+      this.emit(workspace)
+      return
+    }
+    this.schedule(workspace, false)
+  }
+
+  dispose(workspaceId: string): void {
+    const workspace = this.workspaces.get(workspaceId)
+    if (!workspace) return
+    for (const run of workspace.runs) {
+      this.cancel(run)
+      this.byPty.delete(run.entry.ptyId)
+    }
+    this.workspaces.delete(workspaceId)
+  }
+
+  destroyAll(): void {
+    for (const workspaceId of Array.from(this.workspaces.keys())) this.dispose(workspaceId)
+  }
+
+  /** Launches waiting commands whose dependencies are satisfied and fails those whose dependencies cannot be. */
+  private schedule(workspace: WorkspaceRun, initial: boolean): void {
+    const byName = new Map(workspace.runs.filter((run) => run.entry.name).map((run) => [run.entry.name, run]))
+    // A failure can cascade to commands earlier in the list, so repeat until nothing changes.
+    let failedAny = true
+    while (failedAny) {
+      failedAny = false
+      for (const run of workspace.runs) {
+        if (run.status.state !== 'waiting') continue
+        const deps = (run.entry.dependsOn ?? [])
+          .map((name) => byName.get(name))
+          .filter((dep): dep is CommandRun => !!dep)
+        const blocked = deps.find((dep) => BLOCKING_STATES.includes(dep.status.state))
+        if (blocked) {
+          this.setState(run, 'failed', `Dependency “${blocked.entry.name}” ${blocked.status.state}`, false)
+          failedAny = true
+          continue
+        }
+        const pending = deps.filter((dep) => !SATISFIED_STATES.includes(dep.status.state))
+        if (pending.length > 0) {
+          this.setState(run, 'waiting', `Waiting for ${pending.map((dep) => dep.entry.name).join(', ')}`, false)
+          continue
+        }
+        this.launch(workspace, run, initial ? this.options.shellStartDelayMs : 0)
+      }
+    }
+    this.emit(workspace)
+  }
+
+  private launch(workspace: WorkspaceRun, run: CommandRun, delayMs: number): void {
+    this.cancel(run)
+    const generation = run.generation
+    run.stopping = false
+    run.outputTail = ''
+    run.markerCarry = ''
+    run.decoder = new TranscriptTextDecoder()
+    this.setState(run, 'starting', undefined, false)
+
+    this.after(run, delayMs, () => {
+      run.launchedAt = Date.now()
+      this.host.write(run.entry.ptyId, `${commandLine(run)}\n`)
+      const readiness = run.entry.readiness
+      if (!readiness) {
+        this.markReady(workspace, run)
+        return
+      }
+      this.after(run, this.options.readyTimeoutMs, () => {
+        this.fail(workspace, run, `Not ready after ${Math.round(this.options.readyTimeoutMs / 1000)}s`)
+      })
+      if (readiness.type === 'delay') {
+        this.after(run, readiness.seconds * 1000, () => this.markReady(workspace, run))
+      } else if (readiness.type === 'port') {
+        void this.pollPort(workspace, run, generation, readiness.host ?? '127.0.0.1', readiness.port)
+      }
+    })
+  }
+
+  private async pollPort(workspace: WorkspaceRun, run: CommandRun, generation: number, host: string, port: number): Promise<void> {
+    const probe = this.host.probePort ?? probeTcpPort
+    while (run.generation === generation && run.status.state === 'starting') {
+      if (await probe(host, port)) {
+        if (run.generation === generation && run.status.state === 'starting') this.markReady(workspace, run)
+        return
+      }
+      await this.sleep(run, this.options.portPollMs)
+    }
+  }
+
+  private markReady(workspace: WorkspaceRun, run: CommandRun): void {
+    if (run.status.state !== 'starting') return
+    this.clearTimers(run)
+    this.setState(run, 'ready', undefined, false)
+    this.schedule(workspace, false)
+  }
+
+  private fail(workspace: WorkspaceRun, run: CommandRun, message: string): void {
+    this.cancel(run)
+    this.setState(run, 'failed', message, false)
+    this.schedule(workspace, false)
+  }
+
+  private handleExit(workspace: WorkspaceRun, run: CommandRun, exitCode: number): void {
+    this.cancel(run)
+    run.status.exitCode = exitCode
+    for (const resolve of run.exitWaiters.splice(0)) resolve()
+    if (run.stopping) return
+
+    const policy = run.entry.restart ?? 'never'
+    const shouldRestart = exitCode !== INTERRUPTED_EXIT_CODE
+      && (policy === 'always' || (policy === 'on-failure' && exitCode !== 0))
+    if (!shouldRestart) {
+      if (exitCode === INTERRUPTED_EXIT_CODE) this.setState(run, 'stopped', 'Interrupted', false)
+      else this.setState(run, exitCode === 0 ? 'exited' : 'crashed', `Exit code ${exitCode}`, false)
+      this.schedule(workspace, false)
+      return
+    }
+
+    if (Date.now() - run.launchedAt >= this.options.stableRunMs) run.quickCrashes = 0
+    if (run.quickCrashes >= this.options.maxRestarts) {
+      this.setState(run, 'failed', `Exited ${run.quickCrashes + 1} times in a row; not restarting`, false)
+      this.schedule(workspace, false)
+      return
+    }
+    const delayMs = Math.min(
+      this.options.restartBaseDelayMs * 2 ** run.quickCrashes,
+      this.options.restartMaxDelayMs,
+    )
+    run.quickCrashes++
+    this.setState(run, 'restarting', `Exit code ${exitCode}; restarting in ${Math.ceil(delayMs / 1000)}s`)
+    this.after(run, delayMs, () => {
+      run.status.restarts++
+      this.launch(workspace, run, 0)
+      this.emit(workspace)
+    })
+  }
+
+  /** Interrupts a command and resolves once it exits (or after a timeout when exits are not tracked). */
+  private stopRun(run: CommandRun): Promise<void> {
+    this.cancel(run)
+    const active = run.status.state === 'starting' || run.status.state === 'ready'
+    if (!active || !this.byPty.has(run.entry.ptyId)) return Promise.resolve()
+    run.stopping = true
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(done, run.tracksExit ? this.options.stopTimeoutMs : Math.min(1000, this.options.stopTimeoutMs))
+      function done(): void {
+        clearTimeout(timer)
+        resolve()
+      }
+      if (run.tracksExit) run.exitWaiters.push(done)
+      this.host.write(run.entry.ptyId, '\x03')
+    })
+  }
+
+  private after(run: CommandRun, delayMs: number, callback: () => void): void {
+    const generation = run.generation
+    const timer = setTimeout(() => {
+      run.timers.delete(timer)
+      if (run.generation === generation) callback()
+    }, delayMs)
+    run.timers.add(timer)
+  }
+
+  /** Resolves after `delayMs`, or as soon as the run's timers are cleared, so waiters never hang. */
+  private sleep(run: CommandRun, delayMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        run.sleepers.delete(wake)
+        resolve()
+      }
+      run.sleepers.add(wake)
+      this.after(run, delayMs, wake)
+    })
+  }
+
+  private clearTimers(run: CommandRun): void {
+    for (const timer of run.timers) clearTimeout(timer)
+    run.timers.clear()
+    for (const wake of Array.from(run.sleepers)) wake()
+  }
+
+  private cancel(run: CommandRun): void {
+    this.clearTimers(run)
+    run.generation++
+  }
+
+  private setState(run: CommandRun, state: StartupCommandState, message?: string, emit = true): void {
+    run.status = { ...run.status, state, message, updatedAt: Date.now() }
+    if (emit) {
+      const target = this.byPty.get(run.entry.ptyId)
+      if (target) this.emit(target.workspace)
+    }
+  }
+
+  private snapshot(workspace: WorkspaceRun): StartupWorkspaceStatus {
+    return { workspaceId: workspace.workspaceId, commands: workspace.runs.map((run) => ({ ...run.status })) }
+  }
+
+  private emit(workspace: WorkspaceRun): void {
+    this.host.onStatus(this.snapshot(workspace))
+  }
+}
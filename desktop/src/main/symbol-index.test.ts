@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test'
+import type { WorkspaceSymbolItem } from '../shared/symbol-search-types'
+import { extractSymbols, rankSymbols, scoreSymbolName } from './symbol-index'
+
+const summary = (filePath: string, text: string) =>
+  extractSymbols(filePath, text).map((s) => [s.name, s.kind, s.containerName ?? null, s.lineNumber])
+
+describe('extractSymbols', () => {
+  it('finds TypeScript declarations and class methods', () => {
+    const text = [
+      'export interface Options {',
+      '  name: string',
+      '}',
+      'export type Handler = (e: Event) => void',
+      'export default class Store {',
+      '  private items = new Map()',
+      '  async load(id: string): Promise<void> {',
+      '    if (id) {',
+      '      this.items.clear()',
+      '    }',
+      '  }',
+      '}',
+      'export const createStore = (opts: Options) => {',
+      '  describe(\'x\', () => {',
+      '  })',
+      '}',
+      'export const LIMIT = 5',
+      'function helper() {}',
+    ].join('\n')
+    expect(summary('/w/store.ts', text)).toEqual([
+      ['Options', 'interface', null, 1],
+      ['Handler', 'interface', null, 4],
+      ['Store', 'class', null, 5],
+      ['load', 'method', 'Store', 7],
+      ['createStore', 'function', null, 13],
+      ['LIMIT', 'constant', null, 17],
+      ['helper', 'function', null, 18],
+    ])
+  })
+
+  it('uses indentation for Python methods and receivers for Go methods', () => {
+    expect(summary('/w/app.py', 'MAX_SIZE = 3\nclass Repo:\n    def save(self):\n        pass\n\ndef main():\n    pass\n')).toEqual([
+      ['MAX_SIZE', 'constant', null, 1],
+      ['Repo', 'class', null, 2],
+      ['save', 'method', 'Repo', 3],
+      ['main', 'function', null, 6],
+    ])
+    expect(summary('/w/server.go', 'type Server struct {\n}\n\nfunc (s *Server) Start() error {\n}\n\nfunc New() *Server {\n}\n')).toEqual([
+      ['Server', 'struct', null, 1],
+      ['Start', 'method', 'Server', 4],
+      ['New', 'function', null, 7],
+    ])
+  })
+
+  it('puts Rust impl functions under their type and reports columns', () => {
+    const symbols = extractSymbols('/w/lib.rs', 'pub struct Parser;\n\nimpl Parser {\n    pub fn parse(&self) {}\n}\n')
+    expect(symbols.map((s) => [s.name, s.kind, s.containerName ?? null])).toEqual([
+      ['Parser', 'struct', null],
+      ['parse', 'method', 'Parser'],
+    ])
+    expect(symbols[1].column).toBe(12)
+    expect(extractSymbols('/w/notes.md', '# class Foo')).toEqual([])
+  })
+})
+
+describe('scoreSymbolName', () => {
+  it('prefers exact, then prefix, then substring, then fuzzy matches', () => {
+    const scores = ['useStore', 'usestore', 'useStoreState', 'createUseStore', 'useSharedStore'].map((name) => scoreSymbolName('useStore', name))
+    expect(scores[0]).toBeLessThan(scores[1]!)
+    expect(scores[1]).toBeLessThan(scores[2]!)
+    expect(scores[2]).toBeLessThan(scores[3]!)
+    expect(scores[3]).toBeLessThan(scores[4]!)
+    expect(scoreSymbolName('xyz', 'useStore')).toBeNull()
+  })
+})
+
+describe('rankSymbols', () => {
+  const item = (name: string, source: WorkspaceSymbolItem['source'], relativePath = 'a.ts', lineNumber = 1): WorkspaceSymbolItem => ({
+    name,
+    kind: 'function',
+    path: `/w/${relativePath}`,
+    relativePath,
+    lineNumber,
+    column: 1,
+    source,
+  })
+
+  it('drops non-matches and duplicates, keeping language server results', () => {
+    const ranked = rankSymbols('load', [
+      item('loadAll', 'index', 'b.ts'),
+      item('load', 'index'),
+      item('save', 'lsp'),
+      item('load', 'lsp'),
+    ], 10)
+    expect(ranked.map((s) => [s.name, s.source])).toEqual([['load', 'lsp'], ['loadAll', 'index']])
+  })
+})
@@ -0,0 +1,350 @@
+import { readFile, stat } from 'fs/promises'
+import { extname } from 'path'
+import type { SymbolKindName, WorkspaceSymbolItem } from '../shared/symbol-search-types'
+
+/**
+ * Regex-based symbol index for languages without a running language server. It only
+ * sees declarations at the start of a line and uses indentation to find the enclosing
+ * class, which is enough for "jump to a class or function by name" in formatted code.
+ */
+
+interface SymbolRule {
+  pattern: RegExp
+  /** Null for rules that only open a container (e.g. a Rust `impl` block). */
+  kind: SymbolKindName | null
+  /** Kind used instead when the declaration is nested in a container. */
+  memberKind?: SymbolKindName
+  /** Later declarations indented below this one get it as their container. */
+  opensContainer?: boolean
+  /** Capture group holding the name (default 1). */
+  nameGroup?: number
+  /** Capture group holding an explicit container, e.g. a Go method receiver. */
+  containerGroup?: number
+  /** Only match declarations that are not indented. */
+  topLevel?: boolean
+}
+
+export interface IndexedSymbol {
+  name: string
+  kind: SymbolKindName
+  containerName?: string
+  lineNumber: number
+  column: number
+}
+
+const JS_DECL = String.raw`^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?`
+
+const JS_RULES: SymbolRule[] = [
+  { pattern: new RegExp(String.raw`${JS_DECL}(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)`), kind: 'class', opensContainer: true },
+  { pattern: new RegExp(String.raw`${JS_DECL}interface\s+([A-Za-z_$][\w$]*)`), kind: 'interface', opensContainer: true },
+  { pattern: new RegExp(String.raw`${JS_DECL}type\s+([A-Za-z_$][\w$]*)\s*(?:<[^=]*>)?\s*=`), kind: 'interface' },
+  { pattern: new RegExp(String.raw`${JS_DECL}(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)`), kind: 'enum' },
+  { pattern: new RegExp(String.raw`${JS_DECL}(?:namespace|module)\s+([A-Za-z_$][\w$.]*)\s*\{`), kind: 'namespace', opensContainer: true },
+  { pattern: new RegExp(String.raw`${JS_DECL}(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)`), kind: 'function' },
+  {
+    pattern: /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:<[^>]*>)?\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+    kind: 'function',
+    topLevel: true,
+  },
+  { pattern: /^export\s+const\s+([A-Za-z_$][\w$]*)/, kind: 'constant', topLevel: true },
+  { pattern: /^export\s+(?:let|var)\s+([A-Za-z_$][\w$]*)/, kind: 'variable', topLevel: true },
+  {
+    pattern: /^\s+(?:(?:public|private|protected|static|readonly|override|abstract|async|get|set)\s+)*\*?([A-Za-z_$#][\w$]*)\s*(?:<[^>]*>)?\s*\([^)]*\)?\s*(?::\s*[^{=;]+)?\{\s*$/,
+    kind: 'method',
+  },
+]
+
+const PYTHON_RULES: SymbolRule[] = [
+  { pattern: /^\s*class\s+([A-Za-z_]\w*)/, kind: 'class', opensContainer: true },
+  { pattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/, kind: 'function', memberKind: 'method' },
+  { pattern: /^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/, kind: 'constant', topLevel: true },
+]
+
+const GO_RULES: SymbolRule[] = [
+  { pattern: /^func\s+\(\s*\w*\s*\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)/, kind: 'method', nameGroup: 2, containerGroup: 1 },
+  { pattern: /^func\s+([A-Za-z_]\w*)/, kind: 'function' },
+  { pattern: /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+struct\b/, kind: 'struct' },
+  { pattern: /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+interface\b/, kind: 'interface' },
+  { pattern: /^type\s+([A-Za-z_]\w*)/, kind: 'class' },
+  { pattern: /^(?:const|var)\s+([A-Za-z_]\w*)/, kind: 'constant' },
+]
+
+const RUST_VIS = String.raw`^\s*(?:pub(?:\([^)]*\))?\s+)?`
+
+const RUST_RULES: SymbolRule[] = [
+  { pattern: /^\s*impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?([A-Za-z_]\w*)/, kind: null, opensContainer: true },
+  { pattern: new RegExp(String.raw`${RUST_VIS}trait\s+([A-Za-z_]\w*)`), kind: 'interface', opensContainer: true },
+  {
+    pattern: new RegExp(String.raw`${RUST_VIS}(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+([A-Za-z_]\w*)`),
+    kind: 'function',
+    memberKind: 'method',
+  },
+  { pattern: new RegExp(String.raw`${RUST_VIS}struct\s+([A-Za-z_]\w*)`), kind: 'struct' },
+  { pattern: new RegExp(String.raw`${RUST_VIS}enum\s+([A-Za-z_]\w*)`), kind: 'enum' },
+  { pattern: new RegExp(String.raw`${RUST_VIS}mod\s+([A-Za-z_]\w*)`), kind: 'module' },
+  { pattern: new RegExp(String.raw`${RUST_VIS}type\s+([A-Za-z_]\w*)`), kind: 'typeParameter' },
+  { pattern: new RegExp(String.raw`${RUST_VIS}(?:const|static)\s+([A-Za-z_]\w*)`), kind: 'constant' },
+]
+
+const RUBY_RULES: SymbolRule[] = [
+  { pattern: /^\s*class\s+([A-Z][\w:]*)/, kind: 'class', opensContainer: true },
+  { pattern: /^\s*module\s+([A-Z][\w:]*)/, kind: 'module', opensContainer: true },
+  { pattern: /^\s*def\s+(?:self\.)?([A-Za-z_]\w*[?!=]?)/, kind: 'function', memberKind: 'method' },
+]
+
+/** Class-like declarations shared by the C-family languages; their methods aren't indexed. */
+const C_FAMILY_TYPE_RULE: SymbolRule = {
+  pattern: /^\s*(?:[a-z@][\w@]*\s+)*(?:class|interface|enum|struct|record|trait|protocol|object)\s+([A-Za-z_]\w*)/,
+  kind: 'class',
+  opensContainer: true,
+}
+
+const KOTLIN_SWIFT_RULES: SymbolRule[] = [
+  C_FAMILY_TYPE_RULE,
+  { pattern: /^\s*(?:[a-z@][\w@]*\s+)*(?:fun|func)\s+(?:<[^>]*>\s*)?(?:[\w.]+\.)?([A-Za-z_]\w*)/, kind: 'function', memberKind: 'method' },
+]
+
+const PHP_RULES: SymbolRule[] = [
+  C_FAMILY_TYPE_RULE,
+  { pattern: /^\s*(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+&?([A-Za-z_]\w*)/, kind: 'function', memberKind: 'method' },
+]
+
+const C_FAMILY_RULES: SymbolRule[] = [C_FAMILY_TYPE_RULE]
+
+const withRules = (extensions: string[], rules: SymbolRule[]) =>
+  extensions.map((ext): [string, SymbolRule[]] => [ext, rules])
+
+const RULES_BY_EXTENSION = new Map<string, SymbolRule[]>([
+  ...withRules(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'], JS_RULES),
+  ['.py', PYTHON_RULES],
+  ['.go', GO_RULES],
+  ['.rs', RUST_RULES],
+  ['.rb', RUBY_RULES],
+  ...withRules(['.kt', '.kts', '.swift'], KOTLIN_SWIFT_RULES),
+  ['.php', PHP_RULES],
+  ...withRules(['.java', '.cs', '.scala', '.c', '.h', '.cc', '.cpp', '.hpp', '.m', '.dart'], C_FAMILY_RULES),
+])
+
+const MAX_INDEXED_FILE_BYTES = 512_000
+const INDEX_CONCURRENCY = 16
+/** How long a search waits for a first build before answering with partial results. */
+const INDEX_WAIT_MS = 400
+/** Files added outside a watched worktree are picked up by relisting it this often. */
+const RELIST_INTERVAL_MS = 60_000
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'constructor'])
+
+export function isIndexableSymbolFile(filePath: string): boolean {
+  return RULES_BY_EXTENSION.has(extname(filePath).toLowerCase())
+}
+
+function indentation(line: string): number {
+  const match = /^[ \t]*/.exec(line)
+  return match ? match[0].replace(/\t/g, '    ').length : 0
+}
+
+/** Declarations in one file, in source order. */
+export function extractSymbols(filePath: string, text: string): IndexedSymbol[] {
+  const rules = RULES_BY_EXTENSION.get(extname(filePath).toLowerCase())
+  if (!rules) return []
+  const symbols: IndexedSymbol[] = []
+  const containers: Array<{ name: string; indent: number }> = []
+  const lines = text.split('\n')
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].replace(/\r$/, '')
+    if (!line.trim()) continue
+    const indent = indentation(line)
+    while (containers.length > 0 && containers[containers.length - 1].indent >= indent) containers.pop()
+
+    for (const rule of rules) {
+      if (rule.topLevel && indent > 0) continue
+      const match = rule.pattern.exec(line)
+      if (!match) continue
+      const name = match[rule.nameGroup ?? 1]
+      if (!name) continue
+      if (rule.opensContainer) containers.push({ name, indent })
+      if (!rule.kind) break
+      const container = rule.containerGroup ? match[rule.containerGroup] : containers.at(rule.opensContainer ? -2 : -1)?.name
+      // Method-looking lines outside a container are calls or control flow
+      if (rule.kind === 'method' && !container) continue
+      if (rule.kind === 'method' && KEYWORDS.has(name)) continue
+      symbols.push({
+        name,
+        kind: container && rule.memberKind ? rule.memberKind : rule.kind,
+        ...(container ? { containerName: container } : {}),
+        lineNumber: index + 1,
+        column: line.indexOf(name, indent) + 1,
+      })
+      break
+    }
+  }
+  return symbols
+}
+
+/** Lower is better; null when `name` doesn't contain the query's characters in order. */
+export function scoreSymbolName(query: string, name: string): number | null {
+  if (!query) return 0
+  if (name === query) return 0
+  const lowerName = name.toLowerCase()
+  const lowerQuery = query.toLowerCase()
+  if (lowerName === lowerQuery) return 1
+  if (lowerName.startsWith(lowerQuery)) return 2
+  const substring = lowerName.indexOf(lowerQuery)
+  if (substring >= 0) return 3 + substring / 100
+
+  let gaps = 0
+  let last = -1
+  for (const char of lowerQuery) {
+    const next = lowerName.indexOf(char, last + 1)
+    if (next < 0) return null
+    if (last >= 0) gaps += next - last - 1
+    last = next
+  }
+  return 4 + gaps / 10
+}
+
+/**
+ * Matching symbols best first: closest name match, then language server results over
+ * indexed ones, then shorter names and paths. Duplicates (same name at the same line)
+ * keep the language server's entry.
+ */
+export function rankSymbols(query: string, items: WorkspaceSymbolItem[], limit: number): WorkspaceSymbolItem[] {
+  const seen = new Set<string>()
+  const scored: Array<{ item: WorkspaceSymbolItem; score: number }> = []
+  const ordered = [...items].sort((a, b) => Number(a.source === 'index') - Number(b.source === 'index'))
+  for (const item of ordered) {
+    const key = `${item.path}:${item.lineNumber}:${item.name}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    const score = scoreSymbolName(query, item.name)
+    if (score !== null) scored.push({ item, score })
+  }
+  return scored
+    .sort((a, b) =>
+      a.score - b.score
+      || Number(a.item.source === 'index') - Number(b.item.source === 'index')
+      || a.item.name.length - b.item.name.length
+      || a.item.relativePath.length - b.item.relativePath.length
+      || a.item.relativePath.localeCompare(b.item.relativePath))
+    .slice(0, limit)
+    .map(({ item }) => item)
+}
+
+interface IndexedFile {
+  path: string
+  relativePath: string
+  mtimeMs: number
+  symbols: IndexedSymbol[]
+}
+
+interface WorktreeIndex {
+  files: Map<string, IndexedFile>
+  building: Promise<void> | null
+  /** Paths to re-read on the next search; null when the whole file list must be reloaded. */
+  stale: Set<string> | null
+  listedAt: number
+}
+
+export type SymbolIndexFileLister = (worktreePath: string) => Promise<Array<{ path: string; relativePath: string }>>
+
+export class SymbolIndex {
+  private worktrees = new Map<string, WorktreeIndex>()
+
+  constructor(private readonly listFiles: SymbolIndexFileLister) {}
+
+  /** Marks files changed on disk; they are re-read by the next search. */
+  invalidate(worktreePath: string, relativePaths: string[]): void {
+    const index = this.worktrees.get(worktreePath)
+    if (!index || index.stale === null) return
+    for (const relativePath of relativePaths) index.stale.add(relativePath)
+  }
+
+  /**
+   * Symbols matching `query` in indexed files, skipping extensions a language server
+   * already answers for. `complete` is false while the first build is still running.
+   */
+  async search(
+    worktreePath: string,
+    query: string,
+    options: { skipExtensions?: Iterable<string>; limit: number },
+  ): Promise<{ items: WorkspaceSymbolItem[]; complete: boolean }> {
+    const index = this.worktrees.get(worktreePath) ?? { files: new Map(), building: null, stale: null, listedAt: 0 }
+    this.worktrees.set(worktreePath, index)
+    if (Date.now() - index.listedAt > RELIST_INTERVAL_MS) index.stale = null
+    if (!index.building && (index.stale === null || index.stale.size > 0)) {
+      index.building = this.refresh(worktreePath, index).finally(() => {
+        index.building = null
+      })
+    }
+    const complete = index.building
+      ? await Promise.race([
+          index.building.then(() => true, () => true),
+          new Promise<boolean>((resolve) => setTimeout(() => resolve(false), INDEX_WAIT_MS)),
+        ])
+      : true
+
+    const skip = new Set(Array.from(options.skipExtensions ?? [], (ext) => ext.toLowerCase()))
+    const items: WorkspaceSymbolItem[] = []
+    for (const file of index.files.values()) {
+      if (skip.has(extname(file.path).toLowerCase())) continue
+      for (const symbol of file.symbols) {
+        if (scoreSymbolName(query, symbol.name) === null) continue
+        items.push({ ...symbol, path: file.path, relativePath: file.relativePath, source: 'index' })
+      }
+    }
+    return { items: rankSymbols(query, items, options.limit), complete }
+  }
+
+  dispose(): void {
+    this.worktrees.clear()
+  }
+
+  private async refresh(worktreePath: string, index: WorktreeIndex): Promise<void> {
+    const stale = index.stale
+    index.stale = new Set()
+    let targets: Array<{ path: string; relativePath: string }>
+    if (stale === null) {
+      index.listedAt = Date.now()
+      const files = (await this.listFiles(worktreePath)).filter((file) => isIndexableSymbolFile(file.path))
+      const listed = new Set(files.map((file) => file.relativePath))
+      for (const relativePath of index.files.keys()) {
+        if (!listed.has(relativePath)) index.files.delete(relativePath)
+      }
+      targets = files
+    } else {
+      targets = [...stale]
+        .filter((relativePath) => isIndexableSymbolFile(relativePath))
+        .map((relativePath) => ({ path: `${worktreePath}/${relativePath}`, relativePath }))
+    }
+
+    let next = 0
+    const worker = async () => {
+      while (next < targets.length) {
+        const target = targets[next++]
+        await this.indexFile(index, target)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(INDEX_CONCURRENCY, targets.length) }, worker))
+  }
+
+  private async indexFile(index: WorktreeIndex, target: { path: string; relativePath: string }): Promise<void> {
+    try {
+      const info = await stat(target.path)
+      if (!info.isFile() || info.size > MAX_INDEXED_FILE_BYTES) {
+        index.files.delete(target.relativePath)
+        return
+      }
+      if (index.files.get(target.relativePath)?.mtimeMs === info.mtimeMs) return
+      const text = await readFile(target.path, 'utf-8')
+      index.files.set(target.relativePath, {
+        path: target.path,
+        relativePath: target.relativePath,
+        mtimeMs: info.mtimeMs,
+        symbols: extractSymbols(target.path, text),
+      })
+    } catch {
+      // Deleted or unreadable
+      index.files.delete(target.relativePath)
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test'
+import type { TerminalTranscriptChunk, TerminalTranscriptSession } from '../shared/terminal-transcript'
+import { TerminalTranscriptRecorder, type TranscriptPtySource } from './terminal-transcript-recorder'
+
+function createHarness() {
+  const exitCallbacks = new Map<string, () => void>()
+  const ptys: TranscriptPtySource = {
+    describe: (ptyId) => ptyId === 'pty-1'
+      ? { workspaceId: 'ws-1', workingDir: '/repo', agentType: 'codex', cols: 80, rows: 24 }
+      : null,
+    onExit: (ptyId, callback) => exitCallbacks.set(ptyId, callback),
+  }
+  const sessions: TerminalTranscriptSession[] = []
+  const chunks: TerminalTranscriptChunk[] = []
+  const ended: Array<{ sessionId: string; agentType?: string }> = []
+  const store = {
+    startSession: async (_repoPath: string, session: TerminalTranscriptSession) => {
+      sessions.push(session)
+    },
+    appendChunks: async (_repoPath: string, _sessionId: string, added: TerminalTranscriptChunk[]) => {
+      chunks.push(...added)
+    },
+    endSession: async (_repoPath: string, sessionId: string, _endedAt: number, agentType?: string) => {
+      ended.push({ sessionId, agentType })
+    },
+  }
+  let now = 1000
+  const recorder = new TerminalTranscriptRecorder(ptys, store, () => now)
+  return { recorder, exitCallbacks, sessions, chunks, ended, advance: (ms: number) => { now += ms } }
+}
+
+describe('TerminalTranscriptRecorder', () => {
+  it('records nothing until enabled', async () => {
+    const { recorder, sessions } = createHarness()
+    recorder.handleData('pty-1', 'hello\r\n')
+    await recorder.flushAll()
+    expect(sessions).toHaveLength(0)
+  })
+
+  it('buffers stripped output with write timings and closes the session on exit', async () => {
+    const { recorder, exitCallbacks, sessions, chunks, ended, advance } = createHarness()
+    recorder.setEnabled(true)
+    recorder.handleData('pty-1', '\x1b[32m$ make\x1b[0m\r\n')
+    advance(300)
+    recorder.handleData('pty-1', 'built\r\n$ ')
+    await recorder.flushAll()
+    expect(recorder.sessionFor('pty-1')).toEqual({ repoPath: '/repo', sessionId: sessions[0].id })
+    expect(chunks).toEqual([{ at: 1000, text: '$ make\nbuilt\n', timings: [[0, 7], [300, 6]] }])
+
+    exitCallbacks.get('pty-1')!()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(chunks[1].text).toBe('$\n')
+    expect(ended).toEqual([{ sessionId: sessions[0].id, agentType: 'codex' }])
+    expect(recorder.sessionFor('pty-1')).toBeNull()
+  })
+
+  it('ignores PTYs that have already exited', async () => {
+    const { recorder, sessions } = createHarness()
+    recorder.setEnabled(true)
+    recorder.handleData('pty-2', 'late output\n')
+    await recorder.flushAll()
+    expect(sessions).toHaveLength(0)
+    await recorder.stop()
+  })
+})
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto'
+import type { TerminalTranscriptChunk, TerminalTranscriptSession } from '../shared/terminal-transcript'
+import { TranscriptTextDecoder } from '../shared/terminal-transcript'
+import type { TerminalTranscriptStore } from './terminal-transcript-store'
+
+/** How often buffered output is written; also the granularity of search hits. */
+const FLUSH_INTERVAL_MS = 2000
+/** A chunk this large is written right away instead of waiting for the timer. */
+const CHUNK_MAX_CHARS = 8 * 1024
+
+export interface TranscriptPtyInfo {
+  workspaceId?: string
+  workingDir: string
+  agentType?: string
+  cols: number
+  rows: number
+}
+
+export interface TranscriptPtySource {
+  describe(ptyId: string): TranscriptPtyInfo | null
+  onExit(ptyId: string, callback: () => void): void
+}
+
+type TranscriptSink = Pick<typeof TerminalTranscriptStore, 'startSession' | 'appendChunks' | 'endSession'>
+
+interface ActiveTranscript {
+  session: TerminalTranscriptSession
+  decoder: TranscriptTextDecoder
+  pending: TerminalTranscriptChunk | null
+  /** Store writes for this session, chained so chunks never land before their session row. */
+  queue: Promise<void>
+  failed: boolean
+}
+
+/**
+ * Opt-in recorder fed from {@link PtyManager.onPtyData}. Each PTY's output is stripped of
+ * escape sequences, buffered, and written to its repository's transcript database in
+ * timestamped chunks; a PTY outside any git repository is skipped after the first failure.
+ */
+export class TerminalTranscriptRecorder {
+  private enabled = false
+  private active = new Map<string, ActiveTranscript>()
+  private flushTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(
+    private ptys: TranscriptPtySource,
+    private store: TranscriptSink,
+    private now: () => number = Date.now,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /** Turning recording off closes every open session; output from then on is not kept. */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return
+    this.enabled = enabled
+    if (!enabled) void this.stop()
+  }
+
+  handleData(ptyId: string, data: string): void {
+    if (!this.enabled) return
+    const transcript = this.active.get(ptyId) ?? this.begin(ptyId)
+    if (!transcript || transcript.failed) return
+    const text = transcript.decoder.push(data)
+    if (!text) return
+
+    const at = this.now()
+    transcript.pending ??= { at, text: '', timings: [] }
+    transcript.pending.timings.push([at - transcript.pending.at, text.length])
+    transcript.pending.text += text
+    if (transcript.pending.text.length >= CHUNK_MAX_CHARS) this.flush(transcript)
+    this.flushTimer ??= setInterval(() => this.flushAll(), FLUSH_INTERVAL_MS)
+  }
+
+  /** Repository and session id of the PTY's open transcript, if it is being recorded. */
+  sessionFor(ptyId: string): { repoPath: string; sessionId: string } | null {
+    const transcript = this.active.get(ptyId)
+    if (!transcript || transcript.failed) return null
+    return { repoPath: transcript.session.workingDir, sessionId: transcript.session.id }
+  }
+
+  /** Writes all buffered output; resolves once the store has it. */
+  async flushAll(): Promise<void> {
+    for (const transcript of this.active.values()) this.flush(transcript)
+    await Promise.all(Array.from(this.active.values(), (transcript) => transcript.queue))
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+    const queues = Array.from(this.active.keys(), (ptyId) => this.finish(ptyId))
+    await Promise.all(queues)
+  }
+
+  private begin(ptyId: string): ActiveTranscript | null {
+    const info = this.ptys.describe(ptyId)
+    if (!info) return null
+    const session: TerminalTranscriptSession = {
+      id: randomUUID(),
+      ptyId,
+      ...info,
+      startedAt: this.now(),
+    }
+    const transcript: ActiveTranscript = {
+      session,
+      decoder: new TranscriptTextDecoder(),
+      pending: null,
+      queue: Promise.resolve(),
+      failed: false,
+    }
+    this.active.set(ptyId, transcript)
+    this.enqueue(transcript, () => this.store.startSession(session.workingDir, session))
+    this.ptys.onExit(ptyId, () => void this.finish(ptyId))
+    return transcript
+  }
+
+  private flush(transcript: ActiveTranscript): void {
+    const chunk = transcript.pending
+    if (!chunk) return
+    transcript.pending = null
+    const { workingDir, id } = transcript.session
+    this.enqueue(transcript, () => this.store.appendChunks(workingDir, id, [chunk]))
+  }
+
+  private finish(ptyId: string): Promise<void> {
+    const transcript = this.active.get(ptyId)
+    if (!transcript) return Promise.resolve()
+    this.active.delete(ptyId)
+
+    const tail = transcript.decoder.flush()
+    if (tail) {
+      const at = this.now()
+      transcript.pending ??= { at, text: '', timings: [] }
+      transcript.pending.timings.push([at - transcript.pending.at, tail.length])
+      transcript.pending.text += tail
+    }
+    this.flush(transcript)
+    // Agent detection usually lands after the session starts; record what the PTY ended up as.
+    const agentType = this.ptys.describe(ptyId)?.agentType
+    const { workingDir, id } = transcript.session
+    this.enqueue(transcript, () => this.store.endSession(workingDir, id, this.now(), agentType))
+    if (this.active.size === 0 && this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+    return transcript.queue
+  }
+
+  private enqueue(transcript: ActiveTranscript, write: () => Promise<void>): void {
+    transcript.queue = transcript.queue
+      .then(() => (transcript.failed ? undefined : write()))
+      .catch((err) => {
+        if (!transcript.failed) {
+          console.warn(`[terminal-transcript] recording stopped for ${transcript.session.ptyId}:`, err)
+        }
+        transcript.failed = true
+      })
+  }
+}
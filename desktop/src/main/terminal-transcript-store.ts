@@ -0,0 +1,209 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { realpathSync } from 'fs'
+import { join, resolve } from 'path'
+import type { Client, Row } from '@libsql/client'
+import type {
+  TerminalTranscriptChunk,
+  TerminalTranscriptSearchHit,
+  TerminalTranscriptSession,
+} from '../shared/terminal-transcript'
+import {
+  buildTranscriptMatchQuery,
+  parseTranscriptSnippet,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+} from '../shared/terminal-transcript'
+
+const execFileAsync = promisify(execFile)
+
+/** Sessions older than this are dropped whenever a new one starts in the same repository. */
+const TRANSCRIPT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS terminal_sessions (
+  id TEXT PRIMARY KEY,
+  pty_id TEXT NOT NULL,
+  workspace_id TEXT,
+  working_dir TEXT NOT NULL,
+  agent_type TEXT,
+  cols INTEGER NOT NULL,
+  rows INTEGER NOT NULL,
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER
+);
+CREATE TABLE IF NOT EXISTS terminal_chunks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  at INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  timings TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_terminal_sessions_started ON terminal_sessions(started_at);
+CREATE INDEX IF NOT EXISTS idx_terminal_chunks_session ON terminal_chunks(session_id, id);
+CREATE VIRTUAL TABLE IF NOT EXISTS terminal_chunks_fts USING fts5(
+  text, content='terminal_chunks', content_rowid='id'
+);
+CREATE TRIGGER IF NOT EXISTS terminal_chunks_fts_insert AFTER INSERT ON terminal_chunks BEGIN
+  INSERT INTO terminal_chunks_fts(rowid, text) VALUES (new.id, new.text);
+END;
+CREATE TRIGGER IF NOT EXISTS terminal_chunks_fts_delete AFTER DELETE ON terminal_chunks BEGIN
+  INSERT INTO terminal_chunks_fts(terminal_chunks_fts, rowid, text) VALUES ('delete', old.id, old.text);
+END;
+`
+
+const dbHandles = new Map<string, Client>()
+
+async function gitCommonDir(repoPath: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--git-common-dir'], { cwd: repoPath })
+  return realpathSync(resolve(repoPath, stdout.trim()))
+}
+
+/** One database per repository, shared by all of its worktrees (next to automation-runs.db). */
+async function getDb(repoPath: string): Promise<Client> {
+  const commonDir = await gitCommonDir(repoPath)
+  const existing = dbHandles.get(commonDir)
+  if (existing) return existing
+
+  const { createClient } = await import('@libsql/client')
+  const client = createClient({ url: `file:${join(commonDir, 'terminal-transcripts.db')}` })
+  await client.executeMultiple(SCHEMA_SQL)
+  dbHandles.set(commonDir, client)
+  return client
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value == null ? undefined : String(value)
+}
+
+function rowToSession(row: Row): TerminalTranscriptSession {
+  return {
+    id: String(row.id),
+    ptyId: String(row.pty_id),
+    workspaceId: optionalString(row.workspace_id),
+    workingDir: String(row.working_dir),
+    agentType: optionalString(row.agent_type),
+    cols: Number(row.cols),
+    rows: Number(row.rows),
+    startedAt: Number(row.started_at),
+    endedAt: row.ended_at == null ? undefined : Number(row.ended_at),
+  }
+}
+
+function rowToChunk(row: Row): TerminalTranscriptChunk {
+  let timings: TerminalTranscriptChunk['timings'] = []
+  try {
+    timings = JSON.parse(String(row.timings))
+  } catch {
+    // Fall back to replaying the chunk as one write.
+  }
+  return {
+    id: Number(row.id),
+    at: Number(row.at),
+    text: String(row.text),
+    timings,
+  }
+}
+
+export const TerminalTranscriptStore = {
+  /** Create a session row, pruning sessions past the retention window. */
+  async startSession(repoPath: string, session: TerminalTranscriptSession): Promise<void> {
+    const db = await getDb(repoPath)
+    const cutoff = session.startedAt - TRANSCRIPT_RETENTION_MS
+    await db.batch([
+      {
+        sql: `DELETE FROM terminal_chunks WHERE session_id IN (
+          SELECT id FROM terminal_sessions WHERE started_at < ?
+        )`,
+        args: [cutoff],
+      },
+      { sql: 'DELETE FROM terminal_sessions WHERE started_at < ?', args: [cutoff] },
+      {
+        sql: `INSERT OR REPLACE INTO terminal_sessions
+          (id, pty_id, workspace_id, working_dir, agent_type, cols, rows, started_at, ended_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          session.id,
+          session.ptyId,
+          session.workspaceId ?? null,
+          session.workingDir,
+          session.agentType ?? null,
+          session.cols,
+          session.rows,
+          session.startedAt,
+          session.endedAt ?? null,
+        ],
+      },
+    ], 'write')
+  },
+
+  async appendChunks(repoPath: string, sessionId: string, chunks: TerminalTranscriptChunk[]): Promise<void> {
+    if (chunks.length === 0) return
+    const db = await getDb(repoPath)
+    await db.batch(
+      chunks.map((chunk) => ({
+        sql: 'INSERT INTO terminal_chunks (session_id, at, text, timings) VALUES (?, ?, ?, ?)',
+        args: [sessionId, chunk.at, chunk.text, JSON.stringify(chunk.timings)],
+      })),
+      'write',
+    )
+  },
+
+  async endSession(repoPath: string, sessionId: string, endedAt: number, agentType?: string): Promise<void> {
+    const db = await getDb(repoPath)
+    await db.execute({
+      sql: 'UPDATE terminal_sessions SET ended_at = ?, agent_type = COALESCE(?, agent_type) WHERE id = ?',
+      args: [endedAt, agentType ?? null, sessionId],
+    })
+  },
+
+  /** Newest-first full-text matches; each hit is one flushed chunk of output. */
+  async search(repoPath: string, query: string, limit = 50): Promise<TerminalTranscriptSearchHit[]> {
+    const match = buildTranscriptMatchQuery(query)
+    if (!match) return []
+    const db = await getDb(repoPath)
+    const result = await db.execute({
+      sql: `SELECT c.id AS chunk_id, c.at, s.id AS session_id, s.workspace_id, s.working_dir, s.agent_type,
+          snippet(terminal_chunks_fts, 0, ?, ?, '…', 16) AS snippet
+        FROM terminal_chunks_fts
+        JOIN terminal_chunks c ON c.id = terminal_chunks_fts.rowid
+        JOIN terminal_sessions s ON s.id = c.session_id
+        WHERE terminal_chunks_fts MATCH ?
+        ORDER BY c.at DESC
+        LIMIT ?`,
+      args: [SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, Math.max(1, Math.min(limit, 500))],
+    })
+    return result.rows.map((row) => ({
+      repoPath,
+      sessionId: String(row.session_id),
+      chunkId: Number(row.chunk_id),
+      at: Number(row.at),
+      workspaceId: optionalString(row.workspace_id),
+      workingDir: String(row.working_dir),
+      agentType: optionalString(row.agent_type),
+      ...parseTranscriptSnippet(String(row.snippet ?? '')),
+    }))
+  },
+
+  /** A session and all of its output, oldest chunk first; null when it has been pruned. */
+  async get(
+    repoPath: string,
+    sessionId: string,
+  ): Promise<{ session: TerminalTranscriptSession; chunks: TerminalTranscriptChunk[] } | null> {
+    const db = await getDb(repoPath)
+    const sessions = await db.execute({ sql: 'SELECT * FROM terminal_sessions WHERE id = ?', args: [sessionId] })
+    if (sessions.rows.length === 0) return null
+    const chunks = await db.execute({
+      sql: 'SELECT * FROM terminal_chunks WHERE session_id = ? ORDER BY id',
+      args: [sessionId],
+    })
+    return { session: rowToSession(sessions.rows[0]), chunks: chunks.rows.map(rowToChunk) }
+  },
+
+  cleanupAll(): void {
+    for (const [, client] of dbHandles) {
+      client.close()
+    }
+    dbHandles.clear()
+  },
+}
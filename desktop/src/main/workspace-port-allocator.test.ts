@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { WorkspacePortAllocator } from './workspace-port-allocator'
+
+const dirs: string[] = []
+
+function tempFile(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'workspace-ports-'))
+  dirs.push(dir)
+  return join(dir, 'ports.json')
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+})
+
+describe('WorkspacePortAllocator', () => {
+  it('keeps allocations across restarts and reuses released blocks', () => {
+    const filePath = tempFile()
+    const allocator = new WorkspacePortAllocator()
+    allocator.load(filePath)
+    const a = allocator.allocate('a', ['web'])
+    const b = allocator.allocate('b')
+    expect(b.base).toBe(a.base + a.size)
+
+    const reloaded = new WorkspacePortAllocator()
+    reloaded.load(filePath)
+    expect(reloaded.get('a')).toEqual(a)
+    expect(reloaded.allocate('b')).toEqual(b)
+
+    reloaded.release('a')
+    expect(reloaded.allocate('c').base).toBe(a.base)
+  })
+
+  it('updates named ports without moving the block', () => {
+    const allocator = new WorkspacePortAllocator()
+    allocator.load(tempFile())
+    const first = allocator.allocate('a', ['web', 'api'])
+    const updated = allocator.allocate('a', ['api', 'docs'])
+    expect(updated.base).toBe(first.base)
+    expect(updated.named).toEqual({ api: first.base + 1, docs: first.base })
+    expect(allocator.allocate('a')).toBe(updated)
+  })
+})
@@ -0,0 +1,114 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import type { WorkspacePortAllocation } from '../shared/workspace-ports'
+import {
+  WORKSPACE_PORT_BLOCK_SIZE,
+  assignNamedPorts,
+  nextPortBlock,
+  normalizePortNames,
+} from '../shared/workspace-ports'
+
+interface WorkspacePortsFile {
+  version: 1
+  allocations: WorkspacePortAllocation[]
+}
+
+function normalizeAllocation(raw: unknown): WorkspacePortAllocation | null {
+  if (!raw || typeof raw !== 'object') return null
+  const record = raw as Record<string, unknown>
+  if (typeof record.workspaceId !== 'string' || !record.workspaceId) return null
+  if (typeof record.base !== 'number' || !Number.isInteger(record.base) || record.base <= 0) return null
+  const size = typeof record.size === 'number' && record.size > 0 ? record.size : WORKSPACE_PORT_BLOCK_SIZE
+  const named: Record<string, number> = {}
+  if (record.named && typeof record.named === 'object') {
+    for (const [name, port] of Object.entries(record.named as Record<string, unknown>)) {
+      if (typeof port === 'number' && port >= record.base && port < record.base + size) named[name] = port
+    }
+  }
+  return { workspaceId: record.workspaceId, base: record.base, size, named }
+}
+
+/**
+ * Hands each workspace its own block of ports and remembers it across restarts, so a
+ * worktree's dev servers come back on the same ports. Blocks never overlap between
+ * workspaces; whether some unrelated process already listens on one is not checked.
+ */
+export class WorkspacePortAllocator {
+  private allocations = new Map<string, WorkspacePortAllocation>()
+  private filePath: string | null = null
+
+  load(filePath: string): void {
+    this.filePath = filePath
+    this.allocations.clear()
+    if (!existsSync(filePath)) return
+    try {
+      const file = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<WorkspacePortsFile>
+      const bases = new Set<number>()
+      for (const raw of file.allocations ?? []) {
+        const allocation = normalizeAllocation(raw)
+        if (!allocation || bases.has(allocation.base)) continue
+        bases.add(allocation.base)
+        this.allocations.set(allocation.workspaceId, allocation)
+      }
+    } catch (err) {
+      console.error('[workspace-ports] failed to read allocations:', err)
+    }
+  }
+
+  get(workspaceId: string): WorkspacePortAllocation | null {
+    return this.allocations.get(workspaceId) ?? null
+  }
+
+  list(): WorkspacePortAllocation[] {
+    return Array.from(this.allocations.values())
+  }
+
+  /**
+   * The workspace's block, reserving one on first use. `names` (from the project settings)
+   * replaces the named ports when given; names that stay keep their port.
+   */
+  allocate(workspaceId: string, names?: string[]): WorkspacePortAllocation {
+    const existing = this.allocations.get(workspaceId)
+    if (existing) {
+      if (!names) return existing
+      const named = assignNamedPorts(existing.base, existing.size, normalizePortNames(names), existing.named)
+      if (JSON.stringify(named) === JSON.stringify(existing.named)) return existing
+      const updated = { ...existing, named }
+      this.allocations.set(workspaceId, updated)
+      this.save()
+      return updated
+    }
+
+    const base = nextPortBlock(Array.from(this.allocations.values(), (allocation) => allocation.base))
+    if (base === null) throw new Error('No free port blocks left; remove unused workspaces to release theirs')
+    const allocation: WorkspacePortAllocation = {
+      workspaceId,
+      base,
+      size: WORKSPACE_PORT_BLOCK_SIZE,
+      named: assignNamedPorts(base, WORKSPACE_PORT_BLOCK_SIZE, normalizePortNames(names ?? [])),
+    }
+    this.allocations.set(workspaceId, allocation)
+    this.save()
+    return allocation
+  }
+
+  /** Frees the workspace's block for reuse. Returns false when it had none. */
+  release(workspaceId: string): boolean {
+    if (!this.allocations.delete(workspaceId)) return false
+    this.save()
+    return true
+  }
+
+  private save(): void {
+    if (!this.filePath) return
+    const file: WorkspacePortsFile = { version: 1, allocations: this.list() }
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true })
+      const tmpPath = `${this.filePath}.tmp`
+      writeFileSync(tmpPath, JSON.stringify(file, null, 2))
+      renameSync(tmpPath, this.filePath)
+    } catch (err) {
+      console.error('[workspace-ports] failed to save allocations:', err)
+    }
+  }
+}
@@ -2,11 +2,14 @@ import { realpathSync } from 'fs'
 import { BrowserWindow } from 'electron'
 import { resolve } from 'path'
 import { IPC } from '../shared/ipc-channels'
+import type { SyncConflictState, SyncResult, WorktreeSyncStrategy } from '../shared/sync-types'
+import { DEFAULT_WORKTREE_SYNC_STRATEGY, normalizeSyncStrategy } from '../shared/sync-types'
 import type { WorktreeSyncEvent, WorkspaceSyncInfo } from '../shared/worktree-sync-types'
 import { GitService } from './git-service'
 
 type ProjectSyncState = {
   repoPath: string
+  strategy: WorktreeSyncStrategy
   syncInProgress: boolean
   pendingQueue: Set<string>
 }
@@ -63,36 +66,43 @@ export class WorktreeSyncService {
     defaultBranch: string
   ): Promise<void> {
     const key = normalizePath(worktreePath)
+    // A sync that stopped on conflicts has to be continued or aborted before the next one.
+    const pending = await GitService.getSyncConflicts(worktreePath).catch(() => null)
+    if (pending) {
+      this.mergeBroadcast(projectId, {
+        [key]: this.workspaceInfo(worktreePath, 'conflict', 'Resolve conflicts to finish the previous sync'),
+      })
+      return
+    }
     this.mergeBroadcast(projectId, { [key]: this.workspaceInfo(worktreePath, 'syncing') })
 
-    const result = await GitService.syncWorktree(worktreePath, defaultBranch)
+    const strategy = this.projects.get(projectId)?.strategy ?? DEFAULT_WORKTREE_SYNC_STRATEGY
+    const result = await GitService.syncWorktree(worktreePath, defaultBranch, undefined, strategy)
+    this.mergeBroadcast(projectId, { [key]: this.resultInfo(worktreePath, result) })
+  }
+
+  private resultInfo(worktreePath: string, result: SyncResult): WorkspaceSyncInfo {
     if (result.success) {
-      if (result.stashPopConflict) {
-        this.mergeBroadcast(projectId, {
-          [key]: this.workspaceInfo(worktreePath, 'conflict', 'Stash pop had conflicts'),
-        })
-      } else {
-        this.mergeBroadcast(projectId, { [key]: this.workspaceInfo(worktreePath, 'synced') })
-      }
-    } else {
-      const err = result.error ?? 'Sync failed'
-      const lower = err.toLowerCase()
-      const conflictish = lower.includes('conflict') || lower.includes('could not apply')
-      this.mergeBroadcast(projectId, {
-        [key]: this.workspaceInfo(worktreePath, conflictish ? 'conflict' : 'error', err),
-      })
+      return result.stashPopConflict
+        ? this.workspaceInfo(worktreePath, 'conflict', 'Stash pop had conflicts')
+        : this.workspaceInfo(worktreePath, 'synced')
     }
+    const err = result.error ?? 'Sync failed'
+    const lower = err.toLowerCase()
+    const conflictish = !!result.conflict || lower.includes('conflict') || lower.includes('could not apply')
+    return this.workspaceInfo(worktreePath, conflictish ? 'conflict' : 'error', err)
   }
 
   /**
    * Remember repo path for manual sync (sidebar ↻). No background polling.
    */
-  startPolling(projectId: string, repoPath: string): void {
+  startPolling(projectId: string, repoPath: string, strategy?: WorktreeSyncStrategy): void {
     if (this.projects.has(projectId)) {
       this.stopPolling(projectId)
     }
     const state: ProjectSyncState = {
       repoPath,
+      strategy: normalizeSyncStrategy(strategy),
       syncInProgress: false,
       pendingQueue: new Set(),
     }
@@ -156,6 +166,29 @@ export class WorktreeSyncService {
     }
   }
 
+  getConflicts(worktreePath: string): Promise<SyncConflictState | null> {
+    return GitService.getSyncConflicts(worktreePath)
+  }
+
+  /** Finish a sync that stopped on conflicts and publish the worktree's new status. */
+  async continueSync(projectId: string, worktreePath: string): Promise<SyncResult> {
+    const strategy = this.projects.get(projectId)?.strategy ?? DEFAULT_WORKTREE_SYNC_STRATEGY
+    const result = await GitService.continueSync(worktreePath, strategy)
+    this.mergeBroadcast(projectId, { [normalizePath(worktreePath)]: this.resultInfo(worktreePath, result) })
+    return result
+  }
+
+  async abortSync(projectId: string, worktreePath: string): Promise<SyncResult | null> {
+    const strategy = this.projects.get(projectId)?.strategy ?? DEFAULT_WORKTREE_SYNC_STRATEGY
+    const result = await GitService.abortSync(worktreePath, strategy)
+    this.mergeBroadcast(projectId, {
+      [normalizePath(worktreePath)]: result
+        ? this.resultInfo(worktreePath, result)
+        : this.workspaceInfo(worktreePath, 'idle', 'Sync aborted'),
+    })
+    return result
+  }
+
   setBusyWorktrees(paths: string[]): void {
     this.busyPaths = new Set(paths.map((p) => normalizePath(p)))
   }
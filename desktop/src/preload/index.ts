@@ -3,13 +3,26 @@ import { IPC } from '../shared/ipc-channels'
 import type {
   AutomationConfig,
   AutomationConfigLike,
+  AutomationFilterTestResult,
+  AutomationRunHistoryPage,
+  AutomationRunHistoryQuery,
+  AutomationRunActivityEvent,
   AutomationRunStartedEvent,
   AutomationStatusEvent,
+  AutomationWebhookInfo,
   AutomationWorkspaceEvent,
 } from '../shared/automation-types'
 import type { CreateWorktreeProgressEvent } from '../shared/workspace-creation'
+import type { ProjectAutomationsFileReadResult } from '../shared/automation-file'
 import type { CloneRepoOptions, CloneRepoProgressEvent, CloneRepoResult } from '../shared/clone-repo'
-import type { SyncProgress, SyncResult } from '../shared/sync-types'
+import type {
+  SyncConflictResolution,
+  SyncConflictState,
+  SyncConflictVersions,
+  SyncProgress,
+  SyncResult,
+  WorktreeSyncStrategy,
+} from '../shared/sync-types'
 import type { AgentPlanSearchRequest, AgentPlanSearchResult, PlanAgent } from '../shared/agent-plan-path'
 import type { PiModelOption } from '../shared/plan-build-command'
 import type { WorktreeSyncEvent } from '../shared/worktree-sync-types'
@@ -19,11 +32,43 @@ import type { HostUiResponse, PiContextUsageSnapshot } from '@pi-gui/session-dri
 import type { ContextWindowData } from '../shared/context-window-types'
 import type { QuickOpenSearchRequest, QuickOpenSearchResult } from '../shared/quick-open-types'
 import type { LinearFffQuickOpenRequest, LinearFffQuickOpenResult } from '../shared/linear-fff-types'
-import type { CodeSearchRequest, CodeSearchResult } from '../shared/code-search-types'
+import type {
+  CodeReplaceApplyRequest,
+  CodeReplaceApplyResult,
+  CodeReplacePreview,
+  CodeReplaceRequest,
+  CodeSearchRequest,
+  CodeSearchResult,
+} from '../shared/code-search-types'
+import type { WorkspaceSymbolRequest, WorkspaceSymbolResult } from '../shared/symbol-search-types'
 import type { WorktreeCredentialRule } from '../shared/worktree-credentials'
 import type { GitHunkActionRequest } from '../shared/git-hunk-action-types'
+import type { LspServerStatus, LspServerTarget, LspUntrustedProjectConfig } from '../shared/lsp-types'
+import type { WorkspaceProblem } from '../shared/workspace-problems'
 import type { ComposerAttachment } from '../shared/pi/pi-desktop-state'
 import type { GithubCloneRepoSuggestion } from '../shared/github-clone-suggestions'
+import type { RestoredScrollback } from '../shared/terminal-scrollback'
+import type { StartupCommand, StartupLaunchEntry, StartupWorkspaceStatus } from '../shared/startup-commands'
+import type { WorkspacePortAllocation } from '../shared/workspace-ports'
+import type {
+  TerminalTranscriptLocation,
+  TerminalTranscriptSearchHit,
+  TranscriptExportFormat,
+  TranscriptExportTarget,
+} from '../shared/terminal-transcript'
+import type {
+  CiFailureExcerpt,
+  CreatePrOptions,
+  GithubRateLimitStatus,
+  MergePrOptions,
+  PrCheckRunsResult,
+  PrDetails,
+  PrEdit,
+  PrReviewThread,
+  PrReviewThreadComment,
+  PublishPrReviewRequest,
+  PublishPrReviewResult,
+} from '../shared/github-types'
 
 /** Linear GraphQL via main process (renderer fetch hits CORS). Exposed on `api` and `api.app`. */
 function linearGraphql(
@@ -117,9 +162,19 @@ const api = {
     getRemoteHead: (repoPath: string) =>
       ipcRenderer.invoke(IPC.GIT_GET_REMOTE_HEAD, repoPath) as Promise<string | null>,
     syncAllWorktrees: (projectId: string) => ipcRenderer.invoke(IPC.GIT_SYNC_ALL_WORKTREES, projectId),
-    startSyncPolling: (projectId: string, repoPath: string) =>
-      ipcRenderer.invoke(IPC.GIT_START_SYNC_POLLING, projectId, repoPath),
+    startSyncPolling: (projectId: string, repoPath: string, strategy?: WorktreeSyncStrategy) =>
+      ipcRenderer.invoke(IPC.GIT_START_SYNC_POLLING, projectId, repoPath, strategy),
     stopSyncPolling: (projectId: string) => ipcRenderer.invoke(IPC.GIT_STOP_SYNC_POLLING, projectId),
+    getSyncConflicts: (worktreePath: string) =>
+      ipcRenderer.invoke(IPC.GIT_SYNC_GET_CONFLICTS, worktreePath) as Promise<SyncConflictState | null>,
+    getConflictVersions: (worktreePath: string, filePath: string) =>
+      ipcRenderer.invoke(IPC.GIT_SYNC_GET_CONFLICT_VERSIONS, worktreePath, filePath) as Promise<SyncConflictVersions>,
+    resolveConflictFile: (worktreePath: string, filePath: string, resolution: SyncConflictResolution) =>
+      ipcRenderer.invoke(IPC.GIT_SYNC_RESOLVE_FILE, worktreePath, filePath, resolution) as Promise<void>,
+    continueSync: (projectId: string, worktreePath: string) =>
+      ipcRenderer.invoke(IPC.GIT_SYNC_CONTINUE, projectId, worktreePath) as Promise<SyncResult>,
+    abortSync: (projectId: string, worktreePath: string) =>
+      ipcRenderer.invoke(IPC.GIT_SYNC_ABORT, projectId, worktreePath) as Promise<SyncResult | null>,
     setSyncBusy: (worktreePaths: string[]) => ipcRenderer.send(IPC.GIT_SYNC_SET_BUSY, worktreePaths),
     onWorktreeSyncStatus: (callback: (status: WorktreeSyncEvent) => void) => {
       const listener = (_event: Electron.IpcRendererEvent, status: WorktreeSyncEvent) => callback(status)
@@ -163,8 +218,8 @@ const api = {
   },
 
   pty: {
-    create: (workingDir: string, shell?: string, extraEnv?: Record<string, string>) =>
-      ipcRenderer.invoke(IPC.PTY_CREATE, workingDir, shell, extraEnv),
+    create: (workingDir: string, shell?: string, extraEnv?: Record<string, string>, initialWrite?: string) =>
+      ipcRenderer.invoke(IPC.PTY_CREATE, workingDir, shell, extraEnv, initialWrite),
     write: (ptyId: string, data: string, opts?: { submittedLine?: string }) =>
       ipcRenderer.send(IPC.PTY_WRITE, ptyId, data, opts),
     suggestTabTitle: (ptyId: string, line: string) =>
@@ -177,6 +232,8 @@ const api = {
       ipcRenderer.invoke(IPC.PTY_LIST) as Promise<string[]>,
     reattach: (ptyId: string) =>
       ipcRenderer.invoke(IPC.PTY_REATTACH, ptyId) as Promise<boolean>,
+    takeScrollback: (previousPtyId: string) =>
+      ipcRenderer.invoke(IPC.PTY_TAKE_SCROLLBACK, previousPtyId) as Promise<RestoredScrollback | null>,
     onData: (ptyId: string, callback: (data: string) => void) => {
       const channel = `${IPC.PTY_DATA}:${ptyId}`
       const listener = (_event: Electron.IpcRendererEvent, data: string) => callback(data)
@@ -201,6 +258,52 @@ const api = {
     },
   },
 
+  transcripts: {
+    setRecording: (enabled: boolean) =>
+      ipcRenderer.send(IPC.TRANSCRIPT_SET_RECORDING, enabled),
+    search: (repoPaths: string[], query: string, limit?: number) =>
+      ipcRenderer.invoke(IPC.TRANSCRIPT_SEARCH, repoPaths, query, limit) as Promise<TerminalTranscriptSearchHit[]>,
+    open: (repoPath: string, sessionId: string, chunkId: number, query: string) =>
+      ipcRenderer.invoke(IPC.TRANSCRIPT_OPEN, repoPath, sessionId, chunkId, query) as Promise<TerminalTranscriptLocation>,
+    /** Resolves to the saved path, or null when the save dialog was cancelled. */
+    export: (target: TranscriptExportTarget, format: TranscriptExportFormat) =>
+      ipcRenderer.invoke(IPC.TRANSCRIPT_EXPORT, target, format) as Promise<string | null>,
+  },
+
+  ports: {
+    /** Reserves the workspace's port block, refreshing its named ports from the project settings. */
+    allocate: (workspaceId: string, repoPath: string) =>
+      ipcRenderer.invoke(IPC.WORKSPACE_PORTS_ALLOCATE, workspaceId, repoPath) as Promise<WorkspacePortAllocation>,
+    release: (workspaceId: string) =>
+      ipcRenderer.invoke(IPC.WORKSPACE_PORTS_RELEASE, workspaceId) as Promise<void>,
+    list: () =>
+      ipcRenderer.invoke(IPC.WORKSPACE_PORTS_LIST) as Promise<WorkspacePortAllocation[]>,
+    onChanged: (callback: (allocations: WorkspacePortAllocation[]) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, allocations: WorkspacePortAllocation[]) => callback(allocations)
+      ipcRenderer.on(IPC.WORKSPACE_PORTS_CHANGED, listener)
+      return () => {
+        ipcRenderer.removeListener(IPC.WORKSPACE_PORTS_CHANGED, listener)
+      }
+    },
+  },
+
+  startup: {
+    /** Launches a workspace's startup commands into their already-spawned terminals. */
+    start: (workspaceId: string, entries: StartupLaunchEntry[]) =>
+      ipcRenderer.invoke(IPC.STARTUP_START, workspaceId, entries) as Promise<StartupWorkspaceStatus>,
+    restart: (workspaceId: string, name?: string) =>
+      ipcRenderer.invoke(IPC.STARTUP_RESTART, workspaceId, name) as Promise<void>,
+    getStatus: (workspaceId: string) =>
+      ipcRenderer.invoke(IPC.STARTUP_GET_STATUS, workspaceId) as Promise<StartupWorkspaceStatus | null>,
+    onStatusChanged: (callback: (status: StartupWorkspaceStatus) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, status: StartupWorkspaceStatus) => callback(status)
+      ipcRenderer.on(IPC.STARTUP_STATUS_CHANGED, listener)
+      return () => {
+        ipcRenderer.removeListener(IPC.STARTUP_STATUS_CHANGED, listener)
+      }
+    },
+  },
+
   fs: {
     getTree: (dirPath: string) =>
       ipcRenderer.invoke(IPC.FS_GET_TREE, dirPath),
@@ -219,6 +322,12 @@ const api = {
       ipcRenderer.invoke(IPC.FS_QUICK_OPEN_SEARCH, worktreePath, request) as Promise<QuickOpenSearchResult>,
     codeSearch: (worktreePath: string, request: CodeSearchRequest) =>
       ipcRenderer.invoke(IPC.FS_CODE_SEARCH, worktreePath, request) as Promise<CodeSearchResult>,
+    replacePreview: (worktreePath: string, request: CodeReplaceRequest) =>
+      ipcRenderer.invoke(IPC.FS_REPLACE_PREVIEW, worktreePath, request) as Promise<CodeReplacePreview>,
+    applyReplacements: (worktreePath: string, request: CodeReplaceApplyRequest) =>
+      ipcRenderer.invoke(IPC.FS_APPLY_REPLACEMENTS, worktreePath, request) as Promise<CodeReplaceApplyResult>,
+    symbolSearch: (worktreePath: string, request: WorkspaceSymbolRequest) =>
+      ipcRenderer.invoke(IPC.FS_SYMBOL_SEARCH, worktreePath, request) as Promise<WorkspaceSymbolResult>,
     searchAgentPlans: (worktreePath: string | string[], request: AgentPlanSearchRequest) =>
       ipcRenderer.invoke(IPC.FS_SEARCH_AGENT_PLANS, worktreePath, request) as Promise<AgentPlanSearchResult>,
     readFile: (filePath: string) =>
@@ -257,6 +366,8 @@ const api = {
     listPiModels: () => ipcRenderer.invoke(IPC.APP_LIST_PI_MODELS) as Promise<PiModelOption[]>,
     generateCommitMessage: (worktreePath: string) =>
       ipcRenderer.invoke(IPC.APP_GENERATE_COMMIT_MESSAGE, worktreePath) as Promise<string>,
+    generatePrDescription: (worktreePath: string, baseBranch: string) =>
+      ipcRenderer.invoke(IPC.APP_GENERATE_PR_DESCRIPTION, worktreePath, baseBranch) as Promise<{ title: string; body: string }>,
     generateLinearIssueDraft: (payload: {
       projectName: string
       worktreePath: string | null
@@ -366,9 +477,21 @@ const api = {
     runNow: (automation: AutomationConfigLike) =>
       ipcRenderer.invoke(IPC.AUTOMATION_RUN_NOW, automation),
     stop: (automationId: string) =>
-      ipcRenderer.invoke(IPC.AUTOMATION_STOP, automationId),
+      ipcRenderer.invoke(IPC.AUTOMATION_STOP, automationId) as Promise<boolean>,
     emitWorkspaceEvent: (payload: AutomationWorkspaceEvent) =>
       ipcRenderer.send(IPC.AUTOMATION_WORKSPACE_EVENT, payload),
+    listRuns: (repoPath: string, projectId: string, query?: AutomationRunHistoryQuery) =>
+      ipcRenderer.invoke(IPC.AUTOMATION_LIST_RUNS, repoPath, projectId, query) as Promise<AutomationRunHistoryPage>,
+    clearRuns: (repoPath: string, automationId: string) =>
+      ipcRenderer.invoke(IPC.AUTOMATION_CLEAR_RUNS, repoPath, automationId),
+    testFilters: (automation: AutomationConfigLike) =>
+      ipcRenderer.invoke(IPC.AUTOMATION_TEST_FILTERS, automation) as Promise<AutomationFilterTestResult[]>,
+    getWebhookInfo: () =>
+      ipcRenderer.invoke(IPC.AUTOMATION_WEBHOOK_INFO) as Promise<AutomationWebhookInfo>,
+    readProjectFile: (repoPath: string) =>
+      ipcRenderer.invoke(IPC.AUTOMATION_READ_PROJECT_FILE, repoPath) as Promise<ProjectAutomationsFileReadResult | null>,
+    writeProjectFile: (repoPath: string, automations: AutomationConfigLike[]) =>
+      ipcRenderer.invoke(IPC.AUTOMATION_WRITE_PROJECT_FILE, repoPath, automations) as Promise<string>,
     onRunStarted: (callback: (data: AutomationRunStartedEvent) => void) => {
       const listener = (_event: Electron.IpcRendererEvent, data: AutomationRunStartedEvent) => callback(data)
       ipcRenderer.on(IPC.AUTOMATION_RUN_STARTED, listener)
@@ -383,6 +506,13 @@ const api = {
         ipcRenderer.removeListener(IPC.AUTOMATION_STATUS_UPDATED, listener)
       }
     },
+    onRunActivity: (callback: (data: AutomationRunActivityEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, data: AutomationRunActivityEvent) => callback(data)
+      ipcRenderer.on(IPC.AUTOMATION_RUN_ACTIVITY, listener)
+      return () => {
+        ipcRenderer.removeListener(IPC.AUTOMATION_RUN_ACTIVITY, listener)
+      }
+    },
   },
 
   github: {
@@ -392,12 +522,34 @@ const api = {
       ipcRenderer.invoke(IPC.GITHUB_LIST_OPEN_PRS, repoPath),
     resolvePr: (repoPath: string, prNumber: number, repoSlug?: string) =>
       ipcRenderer.invoke(IPC.GITHUB_RESOLVE_PR, repoPath, prNumber, repoSlug) as Promise<{ branch: string; title: string; number: number }>,
-    createPr: (repoPath: string, headBranch: string, baseBranch: string) =>
-      ipcRenderer.invoke(IPC.GITHUB_CREATE_PR, repoPath, headBranch, baseBranch) as Promise<{ number: number; url: string }>,
+    createPr: (repoPath: string, headBranch: string, baseBranch: string, options?: CreatePrOptions) =>
+      ipcRenderer.invoke(IPC.GITHUB_CREATE_PR, repoPath, headBranch, baseBranch, options) as Promise<{ number: number; url: string }>,
     reopenPr: (repoPath: string, prNumber: number) =>
       ipcRenderer.invoke(IPC.GITHUB_REOPEN_PR, repoPath, prNumber) as Promise<{ number: number; url: string }>,
-    getPrReviewComments: (repoPath: string, prNumber: number) =>
-      ipcRenderer.invoke(IPC.GITHUB_GET_PR_REVIEW_COMMENTS, repoPath, prNumber) as Promise<import('../main/github-service').PrReviewComment[]>,
+    getRateLimit: () =>
+      ipcRenderer.invoke(IPC.GITHUB_GET_RATE_LIMIT) as Promise<GithubRateLimitStatus>,
+    getPrDetails: (repoPath: string, prNumber: number) =>
+      ipcRenderer.invoke(IPC.GITHUB_GET_PR_DETAILS, repoPath, prNumber) as Promise<PrDetails>,
+    mergePr: (repoPath: string, prNumber: number, options: MergePrOptions) =>
+      ipcRenderer.invoke(IPC.GITHUB_MERGE_PR, repoPath, prNumber, options) as Promise<void>,
+    disableAutoMerge: (repoPath: string, prNumber: number) =>
+      ipcRenderer.invoke(IPC.GITHUB_DISABLE_AUTO_MERGE, repoPath, prNumber) as Promise<void>,
+    markPrReady: (repoPath: string, prNumber: number) =>
+      ipcRenderer.invoke(IPC.GITHUB_MARK_PR_READY, repoPath, prNumber) as Promise<void>,
+    editPr: (repoPath: string, prNumber: number, edit: PrEdit) =>
+      ipcRenderer.invoke(IPC.GITHUB_EDIT_PR, repoPath, prNumber, edit) as Promise<void>,
+    getPrReviewThreads: (worktreePath: string, prNumber: number) =>
+      ipcRenderer.invoke(IPC.GITHUB_GET_PR_REVIEW_THREADS, worktreePath, prNumber) as Promise<PrReviewThread[]>,
+    replyToReviewThread: (repoPath: string, threadId: string, body: string) =>
+      ipcRenderer.invoke(IPC.GITHUB_REPLY_REVIEW_THREAD, repoPath, threadId, body) as Promise<PrReviewThreadComment>,
+    setReviewThreadResolved: (repoPath: string, threadId: string, resolved: boolean) =>
+      ipcRenderer.invoke(IPC.GITHUB_RESOLVE_REVIEW_THREAD, repoPath, threadId, resolved) as Promise<void>,
+    listCheckRuns: (repoPath: string, prNumber: number) =>
+      ipcRenderer.invoke(IPC.GITHUB_LIST_CHECK_RUNS, repoPath, prNumber) as Promise<PrCheckRunsResult>,
+    getCheckFailure: (repoPath: string, jobId: number) =>
+      ipcRenderer.invoke(IPC.GITHUB_GET_CHECK_FAILURE, repoPath, jobId) as Promise<CiFailureExcerpt>,
+    publishReview: (worktreePath: string, request: PublishPrReviewRequest) =>
+      ipcRenderer.invoke(IPC.GITHUB_PUBLISH_REVIEW, worktreePath, request) as Promise<PublishPrReviewResult>,
     listCloneRepoSuggestions: (query: string) =>
       ipcRenderer.invoke(IPC.GITHUB_CLONE_SUGGESTIONS, query) as Promise<GithubCloneRepoSuggestion[]>,
   },
@@ -407,6 +559,28 @@ const api = {
       ipcRenderer.invoke(IPC.LSP_GET_PORT) as Promise<number>,
     getAvailableLanguages: () =>
       ipcRenderer.invoke(IPC.LSP_GET_AVAILABLE_LANGUAGES) as Promise<string[]>,
+    resolveServer: (worktreePath: string, filePath: string, languageOverride?: string | null) =>
+      ipcRenderer.invoke(IPC.LSP_RESOLVE_SERVER, worktreePath, filePath, languageOverride) as Promise<LspServerTarget | null>,
+    listServers: () =>
+      ipcRenderer.invoke(IPC.LSP_LIST_SERVERS) as Promise<LspServerStatus[]>,
+    restartServer: (serverKey: string, root: string) =>
+      ipcRenderer.invoke(IPC.LSP_RESTART_SERVER, serverKey, root) as Promise<boolean>,
+    getUserConfigPath: () =>
+      ipcRenderer.invoke(IPC.LSP_GET_USER_CONFIG_PATH) as Promise<string | null>,
+    getProblems: (worktreePath: string) =>
+      ipcRenderer.invoke(IPC.LSP_GET_PROBLEMS, worktreePath) as Promise<WorkspaceProblem[]>,
+    getUntrustedProjectConfig: (worktreePath: string, filePath?: string, languageOverride?: string | null) =>
+      ipcRenderer.invoke(IPC.LSP_GET_UNTRUSTED_PROJECT_CONFIG, worktreePath, filePath, languageOverride) as Promise<LspUntrustedProjectConfig | null>,
+    trustProjectConfig: (worktreePath: string, fingerprint: string) =>
+      ipcRenderer.invoke(IPC.LSP_TRUST_PROJECT_CONFIG, worktreePath, fingerprint) as Promise<void>,
+    onProblemsChanged: (callback: (worktreePath: string, problems: WorkspaceProblem[]) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, worktreePath: string, problems: WorkspaceProblem[]) =>
+        callback(worktreePath, problems)
+      ipcRenderer.on(IPC.LSP_PROBLEMS_CHANGED, listener)
+      return () => {
+        ipcRenderer.removeListener(IPC.LSP_PROBLEMS_CHANGED, listener)
+      }
+    },
   },
 
   mcp: {
@@ -483,13 +657,17 @@ const api = {
 
   projectStartupSettings: {
     loadAll: () =>
-      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_LOAD_ALL) as Promise<Record<string, { name: string; command: string }[]>>,
+      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_LOAD_ALL) as Promise<Record<string, StartupCommand[]>>,
     get: (repoPath: string) =>
-      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_GET, repoPath) as Promise<Array<{ name: string; command: string }> | null>,
-    set: (repoPath: string, startupCommands: Array<{ name: string; command: string }>) =>
-      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_SET, repoPath, startupCommands) as Promise<Array<{ name: string; command: string }>>,
+      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_GET, repoPath) as Promise<StartupCommand[] | null>,
+    set: (repoPath: string, startupCommands: StartupCommand[]) =>
+      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_SET, repoPath, startupCommands) as Promise<StartupCommand[]>,
     delete: (repoPath: string) =>
       ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_DELETE, repoPath) as Promise<void>,
+    getPorts: (repoPath: string) =>
+      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_GET_PORTS, repoPath) as Promise<string[]>,
+    setPorts: (repoPath: string, ports: string[]) =>
+      ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_SET_PORTS, repoPath, ports) as Promise<string[]>,
     path: () =>
       ipcRenderer.invoke(IPC.PROJECT_STARTUP_SETTINGS_PATH) as Promise<string>,
   },
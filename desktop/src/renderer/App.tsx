@@ -19,8 +19,13 @@ import { QuickOpen } from './components/QuickOpen/QuickOpen'
 import { ChangesFileFind } from './components/QuickOpen/ChangesFileFind'
 import { PlanPalette } from './components/PlanPalette/PlanPalette'
 import { HunkReview } from './components/HunkReview/HunkReview'
+import { CiChecksPanel } from './components/CiChecks/CiChecksPanel'
 import { FloatingPanel } from './components/FloatingPanel/FloatingPanel'
 import { ConfirmDialog } from './components/Sidebar/ConfirmDialog'
+import { LspReferencesPanel } from './components/LspNavigation/LspReferencesPanel'
+import { LspRenamePreviewPanel } from './components/LspNavigation/LspRenamePreviewPanel'
+import { ProblemsPanel } from './components/Problems/ProblemsPanel'
+import { SearchReplacePanel } from './components/SearchReplace/SearchReplacePanel'
 import { ToastContainer } from './components/Toast/Toast'
 import { AddToChatButton } from './components/AddToChatButton/AddToChatButton'
 import { useShortcuts } from './hooks/useShortcuts'
@@ -127,6 +132,20 @@ export function App() {
     })
   }, [])
 
+  useEffect(() => {
+    const unsubscribe = window.api.ports.onChanged((allocations) => {
+      useAppStore.getState().setWorkspacePorts(allocations)
+    })
+    void window.api.ports.list().then((allocations) => useAppStore.getState().setWorkspacePorts(allocations))
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    return window.api.lsp.onProblemsChanged((worktreePath, problems) => {
+      useAppStore.getState().setLspProblems(worktreePath, problems)
+    })
+  }, [])
+
   // Re-merge `git worktree list` when returning to the app so CLI-created worktrees appear in the sidebar.
   useEffect(() => {
     let debounce: ReturnType<typeof setTimeout> | null = null
@@ -167,7 +186,12 @@ export function App() {
   const planPaletteVisible = useAppStore((s) => s.planPaletteVisible)
   const hunkReviewOpen = useAppStore((s) => s.hunkReviewOpen)
   const hunkReviewWorkspaceId = useAppStore((s) => s.hunkReviewWorkspaceId)
+  const ciChecksWorkspaceId = useAppStore((s) => s.ciChecksWorkspaceId)
+  const problemsPanelWorkspaceId = useAppStore((s) => s.problemsPanelWorkspaceId)
+  const searchReplace = useAppStore((s) => s.searchReplace)
   const confirmDialog = useAppStore((s) => s.confirmDialog)
+  const lspReferencesOpen = useAppStore((s) => s.lspReferences !== null)
+  const lspRenamePreviewOpen = useAppStore((s) => s.lspRenamePreview !== null)
   const dismissConfirmDialog = useAppStore((s) => s.dismissConfirmDialog)
   const appearanceThemeId = useAppStore((s) => s.settings.appearanceThemeId)
   const switchStartedAtRef = useRef<number | null>(null)
@@ -194,6 +218,15 @@ export function App() {
     ? workspaces.find((w) => w.id === activeTab.workspaceId)
     : undefined
 
+  // Catch up on diagnostics published while the renderer wasn't listening (e.g. after a reload)
+  const activeWorktreePath = workspace?.worktreePath
+  useEffect(() => {
+    if (!activeWorktreePath) return
+    void window.api.lsp.getProblems(activeWorktreePath).then((problems) => {
+      useAppStore.getState().setLspProblems(activeWorktreePath, problems)
+    })
+  }, [activeWorktreePath])
+
   useEffect(() => {
     if (prevWorkspaceIdRef.current === activeWorkspaceId) return
     prevWorkspaceIdRef.current = activeWorkspaceId
@@ -454,6 +487,17 @@ export function App() {
         const reviewWs = workspaces.find((w) => w.id === hunkReviewWorkspaceId)
         return reviewWs ? <HunkReview worktreePath={reviewWs.worktreePath} /> : null
       })()}
+      {ciChecksWorkspaceId && workspaces.some((w) => w.id === ciChecksWorkspaceId) && (
+        <CiChecksPanel workspaceId={ciChecksWorkspaceId} />
+      )}
+      {problemsPanelWorkspaceId && workspaces.some((w) => w.id === problemsPanelWorkspaceId) && (
+        <ProblemsPanel workspaceId={problemsPanelWorkspaceId} />
+      )}
+      {searchReplace && workspaces.some((w) => w.id === searchReplace.workspaceId) && (
+        <SearchReplacePanel workspaceId={searchReplace.workspaceId} initialQuery={searchReplace.initialQuery} />
+      )}
+      {lspReferencesOpen && <LspReferencesPanel worktreePath={workspace?.worktreePath} />}
+      {lspRenamePreviewOpen && <LspRenamePreviewPanel worktreePath={workspace?.worktreePath} />}
       {confirmDialog && (
         <ConfirmDialog
           title={confirmDialog.title}
@@ -4,12 +4,48 @@ import type {
   AutomationAgentType,
   AutomationConfigLike,
   AutomationEventType,
+  AutomationFilter,
+  AutomationFilterField,
+  AutomationFilterTestResult,
+  AutomationRunHistoryCursor,
+  AutomationRunRecord,
+  AutomationRunStatus,
+  AutomationRunTarget,
+  AutomationStep,
+  AutomationStepCondition,
+  AutomationStepStatus,
   AutomationTrigger,
+  EventTrigger,
 } from '../../../shared/automation-types'
-import { DEFAULT_AUTOMATION_COOLDOWN_MS } from '../../../shared/automation-types'
+import {
+  DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES,
+  DEFAULT_AUTOMATION_COOLDOWN_MS,
+  DEFAULT_AUTOMATION_RUN_RETENTION,
+  getAgentEventThresholdMinutes,
+  getAutomationSteps,
+  isTimedAgentEventType,
+} from '../../../shared/automation-types'
+import { getEventTriggerFilterGroups } from '../../../shared/automation-filters'
+import {
+  AUTOMATIONS_FILE_PATH,
+  findAutomationImportConflicts,
+  generateAutomationWebhookSecret,
+  planAutomationImport,
+  type AutomationImportResolution,
+  type ProjectAutomationsFileReadResult,
+} from '../../../shared/automation-file'
+import { BUILD_HARNESS_OPTIONS, PLAN_MODEL_PRESETS } from '../../../shared/plan-build-command'
+import {
+  buildEventTemplateContext,
+  buildSampleAutomationEvent,
+  buildStepTemplateContext,
+  renderAutomationTemplate,
+  shellQuote,
+  type AutomationTemplateContext,
+} from '../../../shared/automation-template'
 import { ChevronLeft } from 'lucide-react'
-import { useAppStore } from '../../store/app-store'
-import type { Automation } from '../../store/types'
+import { applyAutomationImport, useAppStore } from '../../store/app-store'
+import type { Automation, Workspace } from '../../store/types'
 import { FloatingPanel } from '../FloatingPanel/FloatingPanel'
 import { Tooltip } from '../Tooltip/Tooltip'
 import styles from './AutomationsPanel.module.css'
@@ -26,6 +62,8 @@ const EVENT_OPTIONS: Array<{ label: string; value: AutomationEventType }> = [
   { label: 'Agent Started', value: 'agent:started' },
   { label: 'Agent Stopped', value: 'agent:stopped' },
   { label: 'Agent Tool Used', value: 'agent:tool-used' },
+  { label: 'Agent Idle', value: 'agent:idle' },
+  { label: 'Agent Running Long', value: 'agent:long-running' },
   { label: 'PR Created', value: 'pr:created' },
   { label: 'PR Merged', value: 'pr:merged' },
   { label: 'PR Checks Failed', value: 'pr:checks-failed' },
@@ -37,6 +75,42 @@ const EVENT_OPTIONS: Array<{ label: string; value: AutomationEventType }> = [
   { label: 'Workspace Deleted', value: 'workspace:deleted' },
 ]
 
+/** Write-to-PTY target that resolves to the workspace of the event that fired the run. */
+const TRIGGER_WORKSPACE_TEMPLATE = '{{workspaceId}}'
+
+const ACTION_OPTIONS: Array<{ label: string; value: AutomationAction['type'] }> = [
+  { label: 'Run Prompt', value: 'run-prompt' },
+  { label: 'Shell Command', value: 'run-shell-command' },
+  { label: 'Notification', value: 'send-notification' },
+  { label: 'Write to PTY', value: 'write-to-pty' },
+]
+
+const STEP_CONDITION_OPTIONS: Array<{ label: string; value: AutomationStepCondition }> = [
+  { label: 'If previous succeeded', value: 'success' },
+  { label: 'If previous failed', value: 'failed' },
+  { label: 'If previous timed out', value: 'timeout' },
+  { label: 'Always', value: 'always' },
+]
+
+const IMPORT_RESOLUTION_OPTIONS: Array<{ label: string; value: AutomationImportResolution }> = [
+  { label: 'Skip', value: 'skip' },
+  { label: 'Overwrite', value: 'overwrite' },
+  { label: 'Keep both', value: 'keep-both' },
+]
+
+const RUN_TARGET_OPTIONS: Array<{ label: string; value: AutomationRunTarget['type'] }> = [
+  { label: 'New Worktree', value: 'new-worktree' },
+  { label: 'Triggering Workspace', value: 'trigger-workspace' },
+  { label: 'Workspace', value: 'workspace' },
+]
+
+const HISTORY_STATUS_OPTIONS: Array<{ label: string; value: AutomationRunStatus | 'all' }> = [
+  { label: 'All', value: 'all' },
+  { label: 'Success', value: 'success' },
+  { label: 'Failed', value: 'failed' },
+  { label: 'Timed Out', value: 'timeout' },
+]
+
 const AGENT_FILTER_OPTIONS = [
   { label: 'Claude', value: 'claude-code' },
   { label: 'Codex', value: 'codex' },
@@ -44,6 +118,28 @@ const AGENT_FILTER_OPTIONS = [
   { label: 'Cursor', value: 'cursor' },
 ] as const
 
+type FilterInputKind = 'text' | 'agent' | 'workspace' | 'draft' | 'review'
+
+const FILTER_FIELD_OPTIONS: Array<{ label: string; value: AutomationFilterField; input: FilterInputKind; placeholder?: string }> = [
+  { label: 'Agent', value: 'agentType', input: 'agent' },
+  { label: 'Branch', value: 'branch', input: 'text', placeholder: 'feature/*' },
+  { label: 'Tool Name', value: 'toolName', input: 'text', placeholder: 'Bash' },
+  { label: 'Workspace', value: 'workspaceId', input: 'workspace' },
+  { label: 'PR Author', value: 'prAuthor', input: 'text', placeholder: 'octocat' },
+  { label: 'PR Base Branch', value: 'prBaseBranch', input: 'text', placeholder: 'main' },
+  { label: 'PR Label', value: 'prLabel', input: 'text', placeholder: 'needs-review' },
+  { label: 'PR Draft', value: 'prDraft', input: 'draft' },
+  { label: 'PR Review', value: 'prReviewDecision', input: 'review' },
+  { label: 'Changed Path', value: 'changedPath', input: 'text', placeholder: 'src/**/*.ts' },
+]
+
+const REVIEW_DECISION_OPTIONS = [
+  { label: 'Approved', value: 'approved' },
+  { label: 'Changes requested', value: 'changes_requested' },
+  { label: 'Review required', value: 'review_required' },
+  { label: 'No decision', value: 'none' },
+] as const
+
 function formatLastRun(timestamp?: number): string {
   if (!timestamp) return 'Never run'
   const diff = Date.now() - timestamp
@@ -56,6 +152,186 @@ function formatLastRun(timestamp?: number): string {
   return `${days}d ago`
 }
 
+interface StepDraft {
+  id: string
+  runIf: AutomationStepCondition
+  action: AutomationAction
+}
+
+function emptyAction(type: AutomationAction['type']): AutomationAction {
+  switch (type) {
+    case 'run-prompt':
+      return { type, prompt: '' }
+    case 'run-shell-command':
+      return { type, command: '' }
+    case 'send-notification':
+      return { type, title: '', body: '' }
+    case 'write-to-pty':
+      return { type, workspaceId: '', input: '' }
+    default: {
+      const exhaustiveCheck: never = type
+      throw new Error(`Unsupported action type: ${String(exhaustiveCheck)}`)
+    }
+  }
+}
+
+function normalizeAction(action: AutomationAction): AutomationAction {
+  switch (action.type) {
+    case 'run-prompt':
+      return {
+        type: action.type,
+        prompt: action.prompt.trim(),
+        agentType: action.agentType && action.agentType !== 'claude-code' ? action.agentType : undefined,
+        model: action.model?.trim() || undefined,
+        flags: action.agentType !== 'pi-constell' ? action.flags?.trim() || undefined : undefined,
+      }
+    case 'run-shell-command':
+      return { ...action, command: action.command.trim() }
+    case 'send-notification':
+      return { ...action, title: action.title.trim(), body: action.body.trim() }
+    case 'write-to-pty':
+      return action
+    default:
+      return action
+  }
+}
+
+function isActionValid(action: AutomationAction): boolean {
+  switch (action.type) {
+    case 'run-prompt':
+      return Boolean(action.prompt.trim())
+    case 'run-shell-command':
+      return Boolean(action.command.trim())
+    case 'send-notification':
+      return Boolean(action.title.trim() && action.body.trim())
+    case 'write-to-pty':
+      return Boolean(action.workspaceId && action.input.length > 0)
+    default:
+      return false
+  }
+}
+
+function actionNameSource(action: AutomationAction): string {
+  switch (action.type) {
+    case 'run-prompt':
+      return action.prompt
+    case 'run-shell-command':
+      return action.command
+    case 'send-notification':
+      return action.title
+    case 'write-to-pty':
+      return action.input
+    default:
+      return ''
+  }
+}
+
+interface FilterDraft {
+  key: string
+  field: AutomationFilterField
+  value: string
+  negate: boolean
+}
+
+function emptyFilterDraft(field: AutomationFilterField = 'branch'): FilterDraft {
+  const value = field === 'agentType' ? 'claude-code' : field === 'prDraft' ? 'true' : field === 'prReviewDecision' ? 'approved' : ''
+  return { key: crypto.randomUUID(), field, value, negate: false }
+}
+
+function filterToDraft(filter: AutomationFilter): FilterDraft {
+  const value = 'pattern' in filter ? filter.pattern : String(filter.value)
+  return { key: crypto.randomUUID(), field: filter.field, value, negate: filter.negate ?? false }
+}
+
+function draftToFilter(draft: FilterDraft): AutomationFilter | null {
+  const value = draft.value.trim()
+  if (!value) return null
+  const negate = draft.negate ? { negate: true } : {}
+  switch (draft.field) {
+    case 'agentType':
+      return { field: 'agentType', value: value as AutomationAgentType, ...negate }
+    case 'branch':
+    case 'prBaseBranch':
+    case 'changedPath':
+      return { field: draft.field, pattern: value, ...negate }
+    case 'toolName':
+    case 'workspaceId':
+    case 'prAuthor':
+    case 'prLabel':
+      return { field: draft.field, value, ...negate }
+    case 'prDraft':
+      return { field: 'prDraft', value: value === 'true', ...negate }
+    case 'prReviewDecision':
+      return { field: 'prReviewDecision', value: value as Extract<AutomationFilter, { field: 'prReviewDecision' }>['value'], ...negate }
+  }
+}
+
+function describeFilterTestEvent(result: AutomationFilterTestResult): string {
+  const { event } = result
+  const parts = [new Date(event.timestamp).toLocaleTimeString()]
+  if (event.prInfo) parts.push(`#${event.prInfo.number} ${event.prInfo.title}`)
+  else if (event.branch) parts.push(event.branch)
+  if (event.agentType) parts.push(event.agentType)
+  if (event.toolName) parts.push(event.toolName)
+  if (result.changedPaths) parts.push(`${result.changedPaths.length} changed files`)
+  return parts.join(' · ')
+}
+
+function nextStepId(steps: StepDraft[]): string {
+  const highest = steps.reduce((max, step) => Math.max(max, Number(step.id.replace(/^step-/, '')) || 0), 0)
+  return `step-${highest + 1}`
+}
+
+function describeActionType(type: AutomationAction['type']): string {
+  return ACTION_OPTIONS.find((option) => option.value === type)?.label ?? type
+}
+
+function hasTemplateVariables(action: AutomationAction): boolean {
+  return actionTemplateFields(action).some((field) => field.includes('{{'))
+}
+
+function actionTemplateFields(action: AutomationAction): string[] {
+  switch (action.type) {
+    case 'run-prompt': return [action.prompt]
+    case 'run-shell-command': return [action.command]
+    case 'send-notification': return [action.title, action.body]
+    case 'write-to-pty': return [action.input]
+  }
+}
+
+function renderActionPreview(action: AutomationAction, context: AutomationTemplateContext): string {
+  // Mirrors AutomationEngine: only shell commands quote substituted values.
+  const escape = action.type === 'run-shell-command' ? shellQuote : undefined
+  return actionTemplateFields(action)
+    .map((field) => renderAutomationTemplate(field, context, { escape }))
+    .join('\n')
+}
+
+/** Sample variables for previewing step `index`: a representative trigger event plus placeholder outputs of earlier steps. */
+function previewTemplateContext(
+  triggerType: AutomationTrigger['type'],
+  eventType: AutomationEventType,
+  steps: StepDraft[],
+  index: number,
+): AutomationTemplateContext {
+  const event = triggerType === 'event'
+    ? buildSampleAutomationEvent(eventType)
+    : triggerType === 'webhook' ? buildSampleAutomationEvent('webhook:received') : null
+  const earlier = steps.slice(0, index).map((step) => ({
+    stepId: step.id,
+    actionType: step.action.type,
+    status: 'success' as const,
+    startedAt: 0,
+    finishedAt: 0,
+    outputs: step.action.type === 'run-shell-command'
+      ? { exitCode: 0, stdout: `<${step.id} stdout>`, stderr: '' }
+      : step.action.type === 'run-prompt'
+        ? { worktreePath: '/path/to/worktree', branch: 'auto/sample/20260101-090000' }
+        : undefined,
+  }))
+  return { ...buildEventTemplateContext(event), ...buildStepTemplateContext(earlier) }
+}
+
 function legacyPromptForAction(action: AutomationAction): string {
   return action.type === 'run-prompt' ? action.prompt : ''
 }
@@ -71,19 +347,36 @@ function toAutomationIpcConfig(automation: Automation, repoPath: string): Automa
     projectId: automation.projectId,
     trigger: automation.trigger ?? { type: 'cron', cronExpression: automation.cronExpression },
     action: automation.action ?? { type: 'run-prompt', prompt: automation.prompt },
+    steps: automation.steps,
+    runTarget: automation.runTarget,
+    historyRetention: automation.historyRetention,
+    maxDurationMs: automation.maxDurationMs,
     enabled: automation.enabled,
     repoPath,
     cooldownMs: automation.cooldownMs ?? DEFAULT_AUTOMATION_COOLDOWN_MS,
   }
 }
 
-function describeTrigger(automation: Automation): string {
+function describeTrigger(automation: Pick<Automation, 'trigger' | 'cronExpression'>): string {
   const trigger = automation.trigger
   if (!trigger || trigger.type === 'cron') return automation.cronExpression || 'Schedule'
   if (trigger.type === 'manual') return 'Manual'
+  if (trigger.type === 'webhook') return 'Webhook'
   return EVENT_OPTIONS.find((option) => option.value === trigger.eventType)?.label ?? trigger.eventType
 }
 
+function webhookCurlExample(url: string, secret: string, requireSignature: boolean): string {
+  const body = `'{"branch": "main"}'`
+  if (!requireSignature) {
+    return `curl -X POST ${url} \\\n  -H 'Authorization: Bearer ${secret}' \\\n  -d ${body}`
+  }
+  return [
+    `BODY=${body}`,
+    `SIG=$(printf '%s' "$BODY" | openssl dgst -sha256 -hmac '${secret}' | sed 's/^.* //')`,
+    `curl -X POST ${url} \\\n  -H "X-Constellagent-Signature-256: sha256=$SIG" \\\n  -d "$BODY"`,
+  ].join('\n')
+}
+
 function automationFieldId(prefix: string, suffix: string): string {
   return `automation-${prefix}-${suffix}`
 }
@@ -91,9 +384,11 @@ function automationFieldId(prefix: string, suffix: string): string {
 function AutomationList({
   onNew,
   onEdit,
+  onHistory,
 }: {
   onNew: () => void
   onEdit: (automation: Automation) => void
+  onHistory: (automation: Automation) => void
 }) {
   const automations = useAppStore((s) => s.automations)
   const projects = useAppStore((s) => s.projects)
@@ -103,6 +398,7 @@ function AutomationList({
   const dismissConfirmDialog = useAppStore((s) => s.dismissConfirmDialog)
   const workspaces = useAppStore((s) => s.workspaces)
   const deleteWorkspace = useAppStore((s) => s.deleteWorkspace)
+  const runningAutomationIds = useAppStore((s) => s.runningAutomationIds)
 
   const handleToggleEnabled = useCallback(async (automation: Automation) => {
     const project = projects.find((entry) => entry.id === automation.projectId)
@@ -122,6 +418,10 @@ function AutomationList({
     await window.api.automations.runNow(toAutomationIpcConfig(automation, project.repoPath))
   }, [projects])
 
+  const handleStop = useCallback(async (automation: Automation) => {
+    await window.api.automations.stop(automation.id)
+  }, [])
+
   const handleDelete = useCallback((automation: Automation) => {
     showConfirmDialog({
       title: 'Delete Automation',
@@ -133,11 +433,13 @@ function AutomationList({
         const runWorkspaces = workspaces.filter((workspace) => workspace.automationId === automation.id)
         for (const workspace of runWorkspaces) void deleteWorkspace(workspace.id)
         void window.api.automations.delete(automation.id)
+        const project = projects.find((entry) => entry.id === automation.projectId)
+        if (project) void window.api.automations.clearRuns(project.repoPath, automation.id)
         removeAutomation(automation.id)
         dismissConfirmDialog()
       },
     })
-  }, [deleteWorkspace, dismissConfirmDialog, removeAutomation, showConfirmDialog, workspaces])
+  }, [deleteWorkspace, dismissConfirmDialog, projects, removeAutomation, showConfirmDialog, workspaces])
 
   const statusDotClass = (status?: Automation['lastRunStatus']) => {
     if (status === 'success') return styles.statusSuccess
@@ -145,6 +447,12 @@ function AutomationList({
     return styles.statusNever
   }
 
+  const stepResultClass = (status: AutomationStepStatus) => {
+    if (status === 'success') return styles.stepResultSuccess
+    if (status === 'skipped') return styles.stepResultSkipped
+    return styles.stepResultFailed
+  }
+
   return (
     <>
       {automations.length === 0 ? (
@@ -171,11 +479,33 @@ function AutomationList({
                   <span>·</span>
                   <span>{formatLastRun(automation.lastRunAt)}</span>
                 </div>
+                {automation.lastRunSteps && automation.lastRunSteps.length > 1 && (
+                  <div className={styles.stepResults}>
+                    {automation.lastRunSteps.map((step, index) => (
+                      <span
+                        key={step.stepId}
+                        className={`${styles.stepResult} ${stepResultClass(step.status)}`}
+                        title={step.message}
+                      >
+                        {index + 1}. {describeActionType(step.actionType)} · {step.status}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </button>
               <div className={styles.rowActions}>
-                <Tooltip label="Run now">
-                  <button className={styles.runBtn} onClick={() => void handleRunNow(automation)}>Run</button>
+                <Tooltip label="Run history">
+                  <button className={styles.runBtn} onClick={() => onHistory(automation)}>History</button>
                 </Tooltip>
+                {runningAutomationIds.has(automation.id) ? (
+                  <Tooltip label="Stop the running automation">
+                    <button className={styles.runBtn} onClick={() => void handleStop(automation)}>Stop</button>
+                  </Tooltip>
+                ) : (
+                  <Tooltip label="Run now">
+                    <button className={styles.runBtn} onClick={() => void handleRunNow(automation)}>Run</button>
+                  </Tooltip>
+                )}
                 <Tooltip label={automation.enabled ? 'Disable' : 'Enable'}>
                   <button
                     className={`${styles.toggle} ${automation.enabled ? styles.toggleOn : ''}`}
@@ -196,6 +526,299 @@ function AutomationList({
   )
 }
 
+function FilterGroupsEditor({
+  groups,
+  workspaces,
+  onChange,
+  onTest,
+}: {
+  groups: FilterDraft[][]
+  workspaces: Workspace[]
+  onChange: (groups: FilterDraft[][]) => void
+  onTest: () => Promise<AutomationFilterTestResult[]>
+}) {
+  const [testResults, setTestResults] = useState<AutomationFilterTestResult[] | null>(null)
+  const [testing, setTesting] = useState(false)
+
+  const updateGroup = (groupIndex: number, group: FilterDraft[]) => {
+    const next = groups.map((current, index) => (index === groupIndex ? group : current))
+    // Drop emptied OR groups, but always keep one to add filters to.
+    const pruned = next.filter((entry, index) => entry.length > 0 || index === 0)
+    onChange(pruned.length > 0 ? pruned : [[]])
+  }
+
+  const updateDraft = (groupIndex: number, key: string, patch: Partial<Omit<FilterDraft, 'key'>>) => {
+    updateGroup(groupIndex, groups[groupIndex].map((draft) => (draft.key === key ? { ...draft, ...patch } : draft)))
+  }
+
+  const handleTest = async () => {
+    setTesting(true)
+    try {
+      setTestResults(await onTest())
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const renderValueInput = (groupIndex: number, draft: FilterDraft) => {
+    const option = FILTER_FIELD_OPTIONS.find((entry) => entry.value === draft.field)
+    const onValue = (value: string) => updateDraft(groupIndex, draft.key, { value })
+    switch (option?.input) {
+      case 'agent':
+        return (
+          <select className={styles.input} value={draft.value} onChange={(event) => onValue(event.target.value)}>
+            {AGENT_FILTER_OPTIONS.map((agent) => <option key={agent.value} value={agent.value}>{agent.label}</option>)}
+          </select>
+        )
+      case 'workspace':
+        return (
+          <select className={styles.input} value={draft.value} onChange={(event) => onValue(event.target.value)}>
+            <option value="">Select workspace…</option>
+            {workspaces.map((workspace) => <option key={workspace.id} value={workspace.id}>{workspace.name}</option>)}
+          </select>
+        )
+      case 'draft':
+        return (
+          <select className={styles.input} value={draft.value} onChange={(event) => onValue(event.target.value)}>
+            <option value="true">Is draft</option>
+            <option value="false">Ready for review</option>
+          </select>
+        )
+      case 'review':
+        return (
+          <select className={styles.input} value={draft.value} onChange={(event) => onValue(event.target.value)}>
+            {REVIEW_DECISION_OPTIONS.map((decision) => <option key={decision.value} value={decision.value}>{decision.label}</option>)}
+          </select>
+        )
+      default:
+        return (
+          <input
+            className={styles.input}
+            value={draft.value}
+            onChange={(event) => onValue(event.target.value)}
+            placeholder={option?.placeholder}
+          />
+        )
+    }
+  }
+
+  return (
+    <>
+      <div className={styles.inlineLabel}>Filters</div>
+      {groups.map((group, groupIndex) => (
+        <div key={groupIndex} className={styles.filterGroup}>
+          {groupIndex > 0 && <div className={styles.filterGroupDivider}>or</div>}
+          {group.map((draft) => (
+            <div key={draft.key} className={styles.filterRow}>
+              <select
+                className={`${styles.input} ${styles.filterField}`}
+                value={draft.field}
+                onChange={(event) => updateGroup(groupIndex, group.map((entry) => (
+                  entry.key === draft.key
+                    ? { ...emptyFilterDraft(event.target.value as AutomationFilterField), key: draft.key, negate: draft.negate }
+                    : entry
+                )))}
+              >
+                {FILTER_FIELD_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <Tooltip label={draft.negate ? 'Matches when the filter does not apply' : 'Invert this filter'}>
+                <button
+                  className={`${styles.chipBtn} ${draft.negate ? styles.chipBtnActive : ''}`}
+                  onClick={() => updateDraft(groupIndex, draft.key, { negate: !draft.negate })}
+                >
+                  Not
+                </button>
+              </Tooltip>
+              {renderValueInput(groupIndex, draft)}
+              <Tooltip label="Remove filter">
+                <button
+                  className={styles.deleteBtn}
+                  onClick={() => updateGroup(groupIndex, group.filter((entry) => entry.key !== draft.key))}
+                >
+                  ✕
+                </button>
+              </Tooltip>
+            </div>
+          ))}
+          <button className={styles.addStepBtn} onClick={() => updateGroup(groupIndex, [...group, emptyFilterDraft()])}>
+            + {group.length > 0 ? 'And' : 'Add filter'}
+          </button>
+        </div>
+      ))}
+      <div className={styles.filterActions}>
+        {groups[groups.length - 1].length > 0 && (
+          <button className={styles.addStepBtn} onClick={() => onChange([...groups, [emptyFilterDraft()]])}>+ Or group</button>
+        )}
+        <button className={styles.addStepBtn} onClick={() => void handleTest()} disabled={testing}>
+          {testing ? 'Testing…' : 'Test against recent events'}
+        </button>
+      </div>
+      {testResults && (
+        testResults.length === 0 ? (
+          <div className={styles.helperText}>No recent events of this type since the app started.</div>
+        ) : (
+          <div className={styles.filterTestResults}>
+            {testResults.map((result) => (
+              <div key={`${result.event.timestamp}-${result.event.type}`} className={styles.filterTestResult}>
+                <span className={result.matched ? styles.filterTestMatched : styles.filterTestMissed}>
+                  {result.matched ? 'Match' : 'No match'}
+                </span>
+                <span>{describeFilterTestEvent(result)}</span>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </>
+  )
+}
+
+function ActionFields({
+  fieldId,
+  action,
+  workspaces,
+  allowTriggerWorkspace,
+  previewContext,
+  onChange,
+}: {
+  fieldId: string
+  action: AutomationAction
+  workspaces: Workspace[]
+  allowTriggerWorkspace: boolean
+  previewContext: AutomationTemplateContext
+  onChange: (action: AutomationAction) => void
+}) {
+  return (
+    <>
+      <div className={styles.segmentedControl}>
+        {ACTION_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`${styles.segmentBtn} ${action.type === option.value ? styles.segmentBtnActive : ''}`}
+            onClick={() => {
+              if (action.type !== option.value) onChange(emptyAction(option.value))
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.cardBlock}>
+        {action.type === 'run-prompt' && (
+          <>
+            <textarea
+              id={fieldId}
+              className={styles.textarea}
+              value={action.prompt}
+              onChange={(event) => onChange({ ...action, prompt: event.target.value })}
+              placeholder="Review the codebase for security issues..."
+              rows={4}
+            />
+            <div className={styles.twoColGrid}>
+              <div>
+                <div className={styles.inlineLabel}>Agent</div>
+                <select
+                  className={styles.input}
+                  value={action.agentType ?? 'claude-code'}
+                  onChange={(event) => onChange({ ...action, agentType: event.target.value as AutomationAgentType, model: '' })}
+                >
+                  {BUILD_HARNESS_OPTIONS.map((option) => (
+                    <option key={option.agent} value={option.agent}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <div className={styles.inlineLabel}>Model</div>
+                <input
+                  className={styles.input}
+                  value={action.model ?? ''}
+                  onChange={(event) => onChange({ ...action, model: event.target.value })}
+                  placeholder="Default"
+                  list={`${fieldId}-models`}
+                />
+                <datalist id={`${fieldId}-models`}>
+                  {PLAN_MODEL_PRESETS[action.agentType ?? 'claude-code'].map((preset) => (
+                    <option key={preset.cliModel} value={preset.cliModel}>{preset.label}</option>
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            {action.agentType === 'pi-constell' ? (
+              <div className={styles.helperText}>
+                Pi runs headless without tools; its reply is available to later steps as {'{{prev.stdout}}'}.
+              </div>
+            ) : (
+              <div>
+                <div className={styles.inlineLabel}>Extra Flags</div>
+                <input
+                  className={styles.input}
+                  value={action.flags ?? ''}
+                  onChange={(event) => onChange({ ...action, flags: event.target.value })}
+                  placeholder="--dangerously-skip-permissions"
+                />
+              </div>
+            )}
+          </>
+        )}
+        {action.type === 'run-shell-command' && (
+          <input
+            id={fieldId}
+            className={styles.input}
+            value={action.command}
+            onChange={(event) => onChange({ ...action, command: event.target.value })}
+            placeholder="bun test"
+          />
+        )}
+        {action.type === 'send-notification' && (
+          <>
+            <input
+              id={fieldId}
+              className={styles.input}
+              value={action.title}
+              onChange={(event) => onChange({ ...action, title: event.target.value })}
+              placeholder="Checks failed"
+            />
+            <textarea
+              className={styles.textarea}
+              value={action.body}
+              onChange={(event) => onChange({ ...action, body: event.target.value })}
+              placeholder="feature/payment has failing checks."
+              rows={3}
+            />
+          </>
+        )}
+        {action.type === 'write-to-pty' && (
+          <>
+            <select id={fieldId} className={styles.input} value={action.workspaceId} onChange={(event) => onChange({ ...action, workspaceId: event.target.value })}>
+              <option value="">Select workspace</option>
+              {(allowTriggerWorkspace || action.workspaceId === TRIGGER_WORKSPACE_TEMPLATE) && (
+                <option value={TRIGGER_WORKSPACE_TEMPLATE}>Triggering workspace</option>
+              )}
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </select>
+            <textarea
+              className={styles.textarea}
+              value={action.input}
+              onChange={(event) => onChange({ ...action, input: event.target.value })}
+              placeholder="git status&#10;"
+              rows={3}
+            />
+          </>
+        )}
+        {hasTemplateVariables(action) && (
+          <div className={styles.templatePreview}>
+            <span className={styles.templatePreviewLabel}>Preview</span>
+            <pre className={styles.templatePreviewText}>{renderActionPreview(action, previewContext)}</pre>
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
 function AutomationForm({
   editingAutomation,
   onBack,
@@ -213,11 +836,13 @@ function AutomationForm({
     type: 'cron',
     cronExpression: editingAutomation?.cronExpression || SCHEDULE_PRESETS[0].cron,
   }
-  const initialAction = editingAutomation?.action ?? {
+  const initialAction: AutomationAction = editingAutomation?.action ?? {
     type: 'run-prompt',
     prompt: editingAutomation?.prompt || '',
   }
 
+  // Webhook URLs embed the id, so new automations need it before they're saved.
+  const [automationId] = useState(() => editingAutomation?.id ?? crypto.randomUUID())
   const [projectId, setProjectId] = useState(editingAutomation?.projectId || projects[0]?.id || '')
   const [name, setName] = useState(editingAutomation?.name || '')
   const [nameManuallySet, setNameManuallySet] = useState(isEditing)
@@ -231,59 +856,69 @@ function AutomationForm({
   const [eventType, setEventType] = useState<AutomationEventType>(
     initialTrigger.type === 'event' ? initialTrigger.eventType : 'agent:stopped'
   )
-  const [agentTypes, setAgentTypes] = useState<AutomationAgentType[]>(
-    initialTrigger.type === 'event'
-      ? initialTrigger.filters?.filter((filter) => filter.field === 'agentType').map((filter) => filter.value) ?? []
-      : []
+  const [thresholdMinutes, setThresholdMinutes] = useState(String(
+    initialTrigger.type === 'event' ? getAgentEventThresholdMinutes(initialTrigger) : DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES
+  ))
+  const [webhookSecret, setWebhookSecret] = useState(
+    // Loaded automations arrive without their secret; give them a fresh one rather than none.
+    initialTrigger.type === 'webhook' && initialTrigger.secret ? initialTrigger.secret : generateAutomationWebhookSecret
+  )
+  const [requireSignature, setRequireSignature] = useState(
+    initialTrigger.type === 'webhook' ? initialTrigger.requireSignature ?? false : false
   )
-  const [branchPattern, setBranchPattern] = useState(
-    initialTrigger.type === 'event'
-      ? initialTrigger.filters?.find((filter) => filter.field === 'branch')?.pattern ?? ''
-      : ''
+  const [webhookBaseUrl, setWebhookBaseUrl] = useState<string | null>(null)
+  const [filterGroups, setFilterGroups] = useState<FilterDraft[][]>(() => {
+    const groups = initialTrigger.type === 'event' ? getEventTriggerFilterGroups(initialTrigger) : []
+    return groups.length > 0 ? groups.map((group) => group.map(filterToDraft)) : [[]]
+  })
+  const [steps, setSteps] = useState<StepDraft[]>(() =>
+    getAutomationSteps({ action: initialAction, steps: editingAutomation?.steps }).map((step) => ({
+      id: step.id,
+      runIf: step.runIf ?? 'success',
+      action: step.action,
+    }))
   )
-  const [toolName, setToolName] = useState(
-    initialTrigger.type === 'event'
-      ? initialTrigger.filters?.find((filter) => filter.field === 'toolName')?.value ?? ''
-      : ''
+  const [runTargetType, setRunTargetType] = useState<AutomationRunTarget['type']>(editingAutomation?.runTarget?.type ?? 'new-worktree')
+  const [runTargetWorkspaceId, setRunTargetWorkspaceId] = useState(
+    editingAutomation?.runTarget?.type === 'workspace' ? editingAutomation.runTarget.workspaceId : ''
   )
-  const [workspaceFilterId, setWorkspaceFilterId] = useState(
-    initialTrigger.type === 'event'
-      ? initialTrigger.filters?.find((filter) => filter.field === 'workspaceId')?.value ?? ''
-      : ''
+  const [historyRetention, setHistoryRetention] = useState(String(editingAutomation?.historyRetention ?? DEFAULT_AUTOMATION_RUN_RETENTION))
+  const [maxDurationMinutes, setMaxDurationMinutes] = useState(
+    editingAutomation?.maxDurationMs ? String(Math.round(editingAutomation.maxDurationMs / 60_000)) : ''
   )
-  const [actionType, setActionType] = useState<AutomationAction['type']>(initialAction.type)
-  const [prompt, setPrompt] = useState(initialAction.type === 'run-prompt' ? initialAction.prompt : editingAutomation?.prompt || '')
-  const [shellCommand, setShellCommand] = useState(initialAction.type === 'run-shell-command' ? initialAction.command : '')
-  const [notificationTitle, setNotificationTitle] = useState(initialAction.type === 'send-notification' ? initialAction.title : '')
-  const [notificationBody, setNotificationBody] = useState(initialAction.type === 'send-notification' ? initialAction.body : '')
-  const [ptyWorkspaceId, setPtyWorkspaceId] = useState(initialAction.type === 'write-to-pty' ? initialAction.workspaceId : '')
-  const [ptyInput, setPtyInput] = useState(initialAction.type === 'write-to-pty' ? initialAction.input : '')
   const [cooldownSeconds, setCooldownSeconds] = useState(String(Math.max(1, Math.round((editingAutomation?.cooldownMs ?? DEFAULT_AUTOMATION_COOLDOWN_MS) / 1000))))
   const nameFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'name')
   const projectFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'project')
   const triggerFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'trigger')
   const actionFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'action')
   const cooldownFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'cooldown')
+  const runTargetFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'run-target')
+  const historyFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'history')
+  const maxDurationFieldId = automationFieldId(editingAutomation?.id ?? 'new', 'max-duration')
 
   const cronExpression = selectedPreset === SCHEDULE_PRESETS.length - 1
     ? customCron
     : SCHEDULE_PRESETS[selectedPreset].cron
 
   const projectWorkspaces = workspaces.filter((workspace) => workspace.projectId === projectId)
-  const nameSource = (() => {
-    switch (actionType) {
-      case 'run-prompt':
-        return prompt
-      case 'run-shell-command':
-        return shellCommand
-      case 'send-notification':
-        return notificationTitle
-      case 'write-to-pty':
-        return ptyInput
-      default:
-        return ''
+  const nameSource = actionNameSource(steps[0].action)
+  const usesRunTarget = steps.some((step) => step.action.type === 'run-prompt' || step.action.type === 'run-shell-command')
+  const hasTriggerWorkspace = triggerType === 'event' || triggerType === 'webhook'
+  const runTargetOptions = RUN_TARGET_OPTIONS.filter((option) => option.value !== 'trigger-workspace' || hasTriggerWorkspace)
+  // Only event and webhook runs have a triggering workspace; fall back when the trigger changes.
+  const effectiveRunTargetType = runTargetType === 'trigger-workspace' && !hasTriggerWorkspace ? 'new-worktree' : runTargetType
+  const webhookUrl = webhookBaseUrl ? `${webhookBaseUrl}/automations/${automationId}` : null
+
+  useEffect(() => {
+    if (triggerType !== 'webhook' || webhookBaseUrl) return
+    let cancelled = false
+    void window.api.automations.getWebhookInfo().then((info) => {
+      if (!cancelled) setWebhookBaseUrl(info.baseUrl)
+    })
+    return () => {
+      cancelled = true
     }
-  })()
+  }, [triggerType, webhookBaseUrl])
 
   useEffect(() => {
     if (!nameManuallySet && nameSource.trim()) {
@@ -292,28 +927,56 @@ function AutomationForm({
   }, [nameManuallySet, nameSource])
 
   useEffect(() => {
-    if (workspaceFilterId && !projectWorkspaces.some((workspace) => workspace.id === workspaceFilterId)) {
-      setWorkspaceFilterId('')
-    }
-    if (ptyWorkspaceId && !projectWorkspaces.some((workspace) => workspace.id === ptyWorkspaceId)) {
-      setPtyWorkspaceId('')
+    setFilterGroups((current) => {
+      const next = current.map((group) => group.filter((draft) => (
+        draft.field !== 'workspaceId' || !draft.value || projectWorkspaces.some((workspace) => workspace.id === draft.value)
+      )))
+      return next.some((group, index) => group.length !== current[index].length) ? next : current
+    })
+    if (runTargetWorkspaceId && !projectWorkspaces.some((workspace) => workspace.id === runTargetWorkspaceId)) {
+      setRunTargetWorkspaceId('')
     }
-  }, [projectWorkspaces, ptyWorkspaceId, workspaceFilterId])
+    setSteps((current) => {
+      const next = current.map((step) => {
+        const action = step.action
+        if (action.type !== 'write-to-pty' || !action.workspaceId) return step
+        if (action.workspaceId === TRIGGER_WORKSPACE_TEMPLATE) return step
+        if (projectWorkspaces.some((workspace) => workspace.id === action.workspaceId)) return step
+        return { ...step, action: { ...action, workspaceId: '' } }
+      })
+      return next.some((step, index) => step !== current[index]) ? next : current
+    })
+  }, [projectWorkspaces, runTargetWorkspaceId])
+
+  const updateStep = (stepId: string, patch: Partial<Omit<StepDraft, 'id'>>) => {
+    setSteps((current) => current.map((step) => (step.id === stepId ? { ...step, ...patch } : step)))
+  }
+
+  const addStep = () => {
+    setSteps((current) => [...current, { id: nextStepId(current), runIf: 'success', action: emptyAction('run-shell-command') }])
+  }
+
+  const removeStep = (stepId: string) => {
+    setSteps((current) => (current.length > 1 ? current.filter((step) => step.id !== stepId) : current))
+  }
 
   const buildTrigger = (): AutomationTrigger => {
     if (triggerType === 'manual') return { type: 'manual' }
+    if (triggerType === 'webhook') {
+      return requireSignature ? { type: 'webhook', secret: webhookSecret, requireSignature } : { type: 'webhook', secret: webhookSecret }
+    }
     if (triggerType === 'event') {
-      const filters = [
-        ...agentTypes.map((value) => ({ field: 'agentType' as const, value })),
-        ...(branchPattern.trim() ? [{ field: 'branch' as const, pattern: branchPattern.trim() }] : []),
-        ...(toolName.trim() ? [{ field: 'toolName' as const, value: toolName.trim() }] : []),
-        ...(workspaceFilterId ? [{ field: 'workspaceId' as const, value: workspaceFilterId }] : []),
-      ]
-      return {
-        type: 'event',
-        eventType,
-        filters: filters.length > 0 ? filters : undefined,
+      const groups = filterGroups
+        .map((group) => group.flatMap((draft) => draftToFilter(draft) ?? []))
+        .filter((group) => group.length > 0)
+      // A single group keeps the plain AND-only `filters` shape older configs use.
+      const trigger: EventTrigger = { type: 'event', eventType }
+      if (isTimedAgentEventType(eventType)) {
+        trigger.thresholdMinutes = Math.max(1, Number(thresholdMinutes || DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES))
       }
+      if (groups.length === 1) trigger.filters = groups[0]
+      if (groups.length > 1) trigger.filterGroups = groups
+      return trigger
     }
     return {
       type: 'cron',
@@ -321,40 +984,42 @@ function AutomationForm({
     }
   }
 
-  const buildAction = (): AutomationAction => {
-    switch (actionType) {
-      case 'run-prompt':
-        return { type: 'run-prompt', prompt: prompt.trim() }
-      case 'run-shell-command':
-        return { type: 'run-shell-command', command: shellCommand.trim() }
-      case 'send-notification':
-        return { type: 'send-notification', title: notificationTitle.trim(), body: notificationBody.trim() }
-      case 'write-to-pty':
-        return { type: 'write-to-pty', workspaceId: ptyWorkspaceId, input: ptyInput }
-      default: {
-        const exhaustiveCheck: never = actionType
-        throw new Error(`Unsupported action type: ${String(exhaustiveCheck)}`)
-      }
-    }
+  const buildSteps = (): AutomationStep[] =>
+    steps.map((step, index) => ({
+      id: step.id,
+      action: normalizeAction(step.action),
+      ...(index > 0 ? { runIf: step.runIf } : {}),
+    }))
+
+  const buildRunTarget = (): AutomationRunTarget | undefined => {
+    if (!usesRunTarget) return undefined
+    if (effectiveRunTargetType === 'workspace') return { type: 'workspace', workspaceId: runTargetWorkspaceId }
+    if (effectiveRunTargetType === 'trigger-workspace') return { type: 'trigger-workspace' }
+    return undefined
   }
 
   const cooldownMs = Math.max(1, Number(cooldownSeconds || '30')) * 1000
-  const triggerValid = triggerType === 'manual' || triggerType === 'event' || Boolean(cronExpression.trim())
-  const actionValid = (() => {
-    switch (actionType) {
-      case 'run-prompt':
-        return Boolean(prompt.trim())
-      case 'run-shell-command':
-        return Boolean(shellCommand.trim())
-      case 'send-notification':
-        return Boolean(notificationTitle.trim() && notificationBody.trim())
-      case 'write-to-pty':
-        return Boolean(ptyWorkspaceId && ptyInput.length > 0)
-      default:
-        return false
-    }
-  })()
-  const isValid = Boolean(projectId && name.trim() && triggerValid && actionValid && Number.isFinite(cooldownMs))
+  const retentionCount = Math.max(1, Number(historyRetention || DEFAULT_AUTOMATION_RUN_RETENTION))
+  const maxDurationMs = Number(maxDurationMinutes) > 0 ? Number(maxDurationMinutes) * 60_000 : undefined
+  const triggerValid = triggerType === 'manual' || triggerType === 'event' || triggerType === 'webhook' || Boolean(cronExpression.trim())
+  const actionValid = steps.every((step) => isActionValid(step.action))
+  const runTargetValid = !usesRunTarget || effectiveRunTargetType !== 'workspace' || Boolean(runTargetWorkspaceId)
+  const isValid = Boolean(projectId && name.trim() && triggerValid && actionValid && runTargetValid && Number.isFinite(cooldownMs))
+
+  const handleTestFilters = async (): Promise<AutomationFilterTestResult[]> => {
+    const project = projects.find((entry) => entry.id === projectId)
+    if (!project) return []
+    return window.api.automations.testFilters({
+      id: automationId,
+      name: name.trim() || 'draft',
+      projectId,
+      trigger: buildTrigger(),
+      action: buildSteps()[0].action,
+      enabled: true,
+      repoPath: project.repoPath,
+      cooldownMs,
+    })
+  }
 
   const handleSubmit = useCallback(async () => {
     if (!isValid) return
@@ -362,9 +1027,10 @@ function AutomationForm({
     if (!project) return
 
     const trigger = buildTrigger()
-    const action = buildAction()
+    const builtSteps = buildSteps()
+    const action = builtSteps[0].action
     const automation: Automation = {
-      id: editingAutomation?.id ?? crypto.randomUUID(),
+      id: automationId,
       name: name.trim(),
       projectId,
       prompt: legacyPromptForAction(action),
@@ -373,9 +1039,14 @@ function AutomationForm({
       createdAt: editingAutomation?.createdAt ?? Date.now(),
       trigger,
       action,
+      steps: builtSteps.length > 1 ? builtSteps : undefined,
+      runTarget: buildRunTarget(),
+      historyRetention: retentionCount === DEFAULT_AUTOMATION_RUN_RETENTION ? undefined : retentionCount,
+      maxDurationMs,
       cooldownMs,
       lastRunAt: editingAutomation?.lastRunAt,
       lastRunStatus: editingAutomation?.lastRunStatus,
+      lastRunSteps: editingAutomation?.lastRunSteps,
     }
 
     if (editingAutomation) {
@@ -387,7 +1058,7 @@ function AutomationForm({
     }
 
     onBack()
-  }, [actionType, addAutomation, cooldownMs, editingAutomation, isValid, name, notificationBody, notificationTitle, onBack, projectId, projects, prompt, ptyInput, ptyWorkspaceId, shellCommand, triggerType, updateAutomation])
+  }, [addAutomation, automationId, cooldownMs, editingAutomation, effectiveRunTargetType, filterGroups, retentionCount, maxDurationMs, isValid, name, onBack, projectId, projects, runTargetWorkspaceId, steps, triggerType, updateAutomation])
 
   return (
     <>
@@ -424,6 +1095,7 @@ function AutomationForm({
             { label: 'Schedule', value: 'cron' },
             { label: 'Event', value: 'event' },
             { label: 'Manual', value: 'manual' },
+            { label: 'Webhook', value: 'webhook' },
           ].map((option) => (
             <button
               key={option.value}
@@ -468,128 +1140,156 @@ function AutomationForm({
                 <option key={option.value} value={option.value}>{option.label}</option>
               ))}
             </select>
-            <div className={styles.inlineLabel}>Agent Filter</div>
-            <div className={styles.chipRow}>
-              {AGENT_FILTER_OPTIONS.map((option) => {
-                const active = agentTypes.includes(option.value)
-                return (
-                  <button
-                    key={option.value}
-                    className={`${styles.chipBtn} ${active ? styles.chipBtnActive : ''}`}
-                    onClick={() => setAgentTypes((current) => (
-                      current.includes(option.value)
-                        ? current.filter((value) => value !== option.value)
-                        : [...current, option.value]
-                    ))}
-                  >
-                    {option.label}
-                  </button>
-                )
-              })}
-            </div>
-            <div className={styles.twoColGrid}>
-              <div>
-                <div className={styles.inlineLabel}>Branch Pattern</div>
-                <input className={styles.input} value={branchPattern} onChange={(event) => setBranchPattern(event.target.value)} placeholder="feature/*" />
-              </div>
-              <div>
-                <div className={styles.inlineLabel}>Tool Name</div>
-                <input className={styles.input} value={toolName} onChange={(event) => setToolName(event.target.value)} placeholder="Bash" />
-              </div>
-            </div>
-            <div>
-              <div className={styles.inlineLabel}>Workspace Filter</div>
-              <select className={styles.input} value={workspaceFilterId} onChange={(event) => setWorkspaceFilterId(event.target.value)}>
-                <option value="">Any workspace</option>
-                {projectWorkspaces.map((workspace) => (
-                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
-                ))}
-              </select>
-            </div>
+            {isTimedAgentEventType(eventType) && (
+              <>
+                <div className={styles.cooldownRow}>
+                  <input
+                    className={styles.input}
+                    value={thresholdMinutes}
+                    onChange={(event) => setThresholdMinutes(event.target.value.replace(/[^\d]/g, ''))}
+                    placeholder={String(DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES)}
+                    aria-label="Threshold in minutes"
+                  />
+                  <span className={styles.cooldownSuffix}>minutes</span>
+                </div>
+                <div className={styles.helperText}>
+                  {eventType === 'agent:idle'
+                    ? 'Fires once an agent has been waiting for input this long. Pair with Write to PTY on the triggering workspace to nudge it.'
+                    : 'Fires once an agent has been working this long without stopping.'}
+                </div>
+              </>
+            )}
+            <FilterGroupsEditor
+              groups={filterGroups}
+              workspaces={projectWorkspaces}
+              onChange={setFilterGroups}
+              onTest={handleTestFilters}
+            />
           </div>
         )}
 
         {triggerType === 'manual' && (
           <div id={triggerFieldId} className={styles.helperText}>Manual automations only run when you click Run.</div>
         )}
-      </div>
 
-      <div className={styles.formGroup}>
-        <label className={styles.label} htmlFor={actionFieldId}>Action</label>
-        <div className={styles.segmentedControl}>
-          {[
-            { label: 'Run Prompt', value: 'run-prompt' },
-            { label: 'Shell Command', value: 'run-shell-command' },
-            { label: 'Notification', value: 'send-notification' },
-            { label: 'Write to PTY', value: 'write-to-pty' },
-          ].map((option) => (
-            <button
-              key={option.value}
-              className={`${styles.segmentBtn} ${actionType === option.value ? styles.segmentBtnActive : ''}`}
-              onClick={() => setActionType(option.value as AutomationAction['type'])}
-            >
-              {option.label}
-            </button>
-          ))}
-        </div>
-
-        <div className={styles.cardBlock}>
-          {actionType === 'run-prompt' && (
-            <textarea
-              id={actionFieldId}
-              className={styles.textarea}
-              value={prompt}
-              onChange={(event) => setPrompt(event.target.value)}
-              placeholder="Review the codebase for security issues..."
-              rows={4}
-            />
-          )}
-          {actionType === 'run-shell-command' && (
+        {triggerType === 'webhook' && (
+          <div className={styles.cardBlock}>
+            <div className={styles.inlineLabel}>URL</div>
             <input
-              id={actionFieldId}
-              className={styles.input}
-              value={shellCommand}
-              onChange={(event) => setShellCommand(event.target.value)}
-              placeholder="bun test"
+              id={triggerFieldId}
+              className={`${styles.input} ${styles.monoInput}`}
+              value={webhookUrl ?? 'Webhook listener unavailable'}
+              readOnly
+              onFocus={(event) => event.target.select()}
             />
-          )}
-          {actionType === 'send-notification' && (
-            <>
+            <div className={styles.inlineLabel}>Secret</div>
+            <div className={styles.filterRow}>
               <input
-                id={actionFieldId}
-                className={styles.input}
-                value={notificationTitle}
-                onChange={(event) => setNotificationTitle(event.target.value)}
-                placeholder="Checks failed"
-              />
-              <textarea
-                className={styles.textarea}
-                value={notificationBody}
-                onChange={(event) => setNotificationBody(event.target.value)}
-                placeholder="feature/payment has failing checks."
-                rows={3}
+                className={`${styles.input} ${styles.monoInput}`}
+                value={webhookSecret}
+                readOnly
+                onFocus={(event) => event.target.select()}
               />
-            </>
-          )}
-          {actionType === 'write-to-pty' && (
-            <>
-              <select id={actionFieldId} className={styles.input} value={ptyWorkspaceId} onChange={(event) => setPtyWorkspaceId(event.target.value)}>
-                <option value="">Select workspace</option>
-                {projectWorkspaces.map((workspace) => (
-                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
-                ))}
-              </select>
-              <textarea
-                className={styles.textarea}
-                value={ptyInput}
-                onChange={(event) => setPtyInput(event.target.value)}
-                placeholder="git status&#10;"
-                rows={3}
-              />
-            </>
+              <button className={styles.addStepBtn} onClick={() => setWebhookSecret(generateAutomationWebhookSecret())}>Regenerate</button>
+            </div>
+            <div className={styles.chipRow}>
+              <button
+                className={`${styles.chipBtn} ${requireSignature ? styles.chipBtnActive : ''}`}
+                onClick={() => setRequireSignature((current) => !current)}
+              >
+                Require HMAC signature
+              </button>
+            </div>
+            {webhookUrl && (
+              <pre className={styles.webhookExample}>{webhookCurlExample(webhookUrl, webhookSecret, requireSignature)}</pre>
+            )}
+            <div className={styles.helperText}>
+              The JSON body is available as {'{{payload.*}}'}; `branch` and `workspaceId` fields select the triggering workspace.
+              Only accepts requests from this machine.
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor={actionFieldId}>{steps.length > 1 ? 'Steps' : 'Action'}</label>
+        {steps.map((step, index) => (
+          <div key={step.id} className={styles.stepBlock}>
+            {steps.length > 1 && (
+              <div className={styles.stepHeader}>
+                <span className={styles.stepIndex}>{index + 1}</span>
+                <span className={styles.stepId}>{step.id}</span>
+                {index > 0 && (
+                  <select
+                    className={`${styles.input} ${styles.stepCondition}`}
+                    value={step.runIf}
+                    onChange={(event) => updateStep(step.id, { runIf: event.target.value as AutomationStepCondition })}
+                  >
+                    {STEP_CONDITION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                )}
+                <div className={styles.stepHeaderSpacer} />
+                <Tooltip label="Remove step">
+                  <button className={styles.deleteBtn} onClick={() => removeStep(step.id)}>✕</button>
+                </Tooltip>
+              </div>
+            )}
+            <ActionFields
+              fieldId={index === 0 ? actionFieldId : `${actionFieldId}-${step.id}`}
+              action={step.action}
+              workspaces={projectWorkspaces}
+              allowTriggerWorkspace={hasTriggerWorkspace}
+              previewContext={previewTemplateContext(triggerType, eventType, steps, index)}
+              onChange={(action) => updateStep(step.id, { action })}
+            />
+          </div>
+        ))}
+        <button className={styles.addStepBtn} onClick={addStep}>+ Add step</button>
+        {triggerType === 'event' && (
+          <div className={styles.helperText}>
+            Use event values like {'{{branch}}'}, {'{{pr.number}}'}, {'{{pr.title}}'}, {'{{agentType}}'}
+            {' '}or {'{{event.meta.<key>}}'}. Values substituted into shell commands are quoted automatically.
+          </div>
+        )}
+        {steps.length > 1 && (
+          <div className={styles.helperText}>
+            Later steps can reference earlier outputs with {'{{prev.stdout}}'}, {'{{prev.exitCode}}'},
+            {' '}{'{{prev.worktreePath}}'} or {'{{steps.step-1.stdout}}'}.
+          </div>
+        )}
+      </div>
+
+      {usesRunTarget && (
+        <div className={styles.formGroup}>
+          <label className={styles.label} htmlFor={runTargetFieldId}>Run In</label>
+          <div className={styles.segmentedControl}>
+            {runTargetOptions.map((option) => (
+              <button
+                key={option.value}
+                className={`${styles.segmentBtn} ${effectiveRunTargetType === option.value ? styles.segmentBtnActive : ''}`}
+                onClick={() => setRunTargetType(option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {effectiveRunTargetType === 'workspace' && (
+            <select id={runTargetFieldId} className={styles.input} value={runTargetWorkspaceId} onChange={(event) => setRunTargetWorkspaceId(event.target.value)}>
+              <option value="">Select workspace</option>
+              {projectWorkspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </select>
           )}
+          <div id={effectiveRunTargetType === 'workspace' ? undefined : runTargetFieldId} className={styles.helperText}>
+            {effectiveRunTargetType === 'new-worktree' && 'Prompts start in a fresh auto/<name> worktree; shell commands run in the project root.'}
+            {effectiveRunTargetType === 'trigger-workspace' && 'Runs in the workspace whose agent, PR branch or webhook payload fired the run. The run fails if no workspace matches.'}
+            {effectiveRunTargetType === 'workspace' && 'Prompts and shell commands run in this workspace and its terminal tab opens there.'}
+          </div>
         </div>
-      </div>
+      )}
 
       <div className={styles.formGroup}>
         <label className={styles.label} htmlFor={cooldownFieldId}>Cooldown</label>
@@ -605,6 +1305,37 @@ function AutomationForm({
         </div>
       </div>
 
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor={maxDurationFieldId}>Max Duration</label>
+        <div className={styles.cooldownRow}>
+          <input
+            id={maxDurationFieldId}
+            className={styles.input}
+            value={maxDurationMinutes}
+            onChange={(event) => setMaxDurationMinutes(event.target.value.replace(/[^\d]/g, ''))}
+            placeholder="No limit"
+          />
+          <span className={styles.cooldownSuffix}>minutes</span>
+        </div>
+        <div className={styles.helperText}>
+          Longer runs are killed and marked timed out. With a limit, prompt steps wait for the agent to exit.
+        </div>
+      </div>
+
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor={historyFieldId}>Run History</label>
+        <div className={styles.cooldownRow}>
+          <input
+            id={historyFieldId}
+            className={styles.input}
+            value={historyRetention}
+            onChange={(event) => setHistoryRetention(event.target.value.replace(/[^\d]/g, ''))}
+            placeholder={String(DEFAULT_AUTOMATION_RUN_RETENTION)}
+          />
+          <span className={styles.cooldownSuffix}>runs kept</span>
+        </div>
+      </div>
+
       <div className={styles.formActions}>
         <button className={styles.cancelBtn} onClick={onBack}>Cancel</button>
         <button className={styles.submitBtn} onClick={() => void handleSubmit()} disabled={!isValid}>
@@ -615,9 +1346,290 @@ function AutomationForm({
   )
 }
 
+function AutomationRepoFile({ onBack }: { onBack: () => void }) {
+  const automations = useAppStore((s) => s.automations)
+  const projects = useAppStore((s) => s.projects)
+  const addToast = useAppStore((s) => s.addToast)
+  const [projectId, setProjectId] = useState(projects[0]?.id ?? '')
+  const [busy, setBusy] = useState(false)
+  const [loaded, setLoaded] = useState<ProjectAutomationsFileReadResult | null>(null)
+  const [missing, setMissing] = useState(false)
+  const [resolutions, setResolutions] = useState<Record<string, AutomationImportResolution>>({})
+  const project = projects.find((entry) => entry.id === projectId)
+  const projectAutomations = automations.filter((automation) => automation.projectId === projectId)
+  const conflicts = loaded ? findAutomationImportConflicts(automations, projectId, loaded.automations) : []
+  const projectFieldId = automationFieldId('repo-file', 'project')
+
+  const selectProject = (nextProjectId: string) => {
+    setProjectId(nextProjectId)
+    setLoaded(null)
+    setMissing(false)
+    setResolutions({})
+  }
+
+  const handleExport = async () => {
+    if (!project) return
+    setBusy(true)
+    try {
+      const filePath = await window.api.automations.writeProjectFile(
+        project.repoPath,
+        projectAutomations.map((automation) => toAutomationIpcConfig(automation, project.repoPath)),
+      )
+      addToast({ id: crypto.randomUUID(), type: 'info', message: `Exported ${projectAutomations.length} automations to ${filePath}` })
+    } catch (err) {
+      addToast({ id: crypto.randomUUID(), type: 'error', message: `Export failed: ${err instanceof Error ? err.message : String(err)}` })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleLoad = async () => {
+    if (!project) return
+    setBusy(true)
+    try {
+      const result = await window.api.automations.readProjectFile(project.repoPath)
+      setLoaded(result)
+      setMissing(!result)
+      setResolutions({})
+    } catch (err) {
+      addToast({ id: crypto.randomUUID(), type: 'error', message: `Could not read ${AUTOMATIONS_FILE_PATH}: ${err instanceof Error ? err.message : String(err)}` })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!project || !loaded) return
+    const plan = planAutomationImport(
+      automations,
+      project.id,
+      loaded.automations,
+      (conflict) => resolutions[conflict.incoming.id] ?? 'skip',
+      () => crypto.randomUUID(),
+    )
+    setBusy(true)
+    try {
+      await applyAutomationImport(project.id, plan)
+      addToast({ id: crypto.randomUUID(), type: 'info', message: `Imported ${plan.length} automation${plan.length === 1 ? '' : 's'}` })
+      onBack()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <>
+      <button className={styles.backLink} onClick={onBack}>← Back</button>
+      <div className={styles.formTitle}>Import / Export</div>
+
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor={projectFieldId}>Project</label>
+        <select id={projectFieldId} className={styles.input} value={projectId} onChange={(event) => selectProject(event.target.value)}>
+          {projects.map((entry) => (
+            <option key={entry.id} value={entry.id}>{entry.name}</option>
+          ))}
+        </select>
+        <div className={styles.helperText}>
+          Automations are shared through {AUTOMATIONS_FILE_PATH} in the repo. Webhook secrets are never written to it.
+          {' '}Turn on auto-loading in the project's settings.
+        </div>
+      </div>
+
+      <div className={styles.formGroup}>
+        <span className={styles.label}>Export</span>
+        <button className={styles.addStepBtn} onClick={() => void handleExport()} disabled={!project || busy || projectAutomations.length === 0}>
+          Export {projectAutomations.length} automation{projectAutomations.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      <div className={styles.formGroup}>
+        <span className={styles.label}>Import</span>
+        <button className={styles.addStepBtn} onClick={() => void handleLoad()} disabled={!project || busy}>
+          Load from repo
+        </button>
+        {missing && <div className={styles.helperText}>No {AUTOMATIONS_FILE_PATH} in this project yet.</div>}
+        {loaded && loaded.errors.length > 0 && (
+          <div className={styles.filterTestResults}>
+            {loaded.errors.map((error) => (
+              <div key={error} className={styles.filterTestResult}>
+                <span className={styles.filterTestMissed}>Skipped</span>
+                <span>{error}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {loaded && loaded.automations.map((entry) => {
+          const conflict = conflicts.find((candidate) => candidate.incoming === entry)
+          return (
+            <div key={entry.id} className={styles.filterRow}>
+              <div className={styles.importEntry}>
+                <div className={styles.rowName}>{entry.name}</div>
+                <div className={styles.rowMeta}>
+                  <span>{describeTrigger({ trigger: entry.trigger, cronExpression: legacyCronForTrigger(entry.trigger) })}</span>
+                  <span>·</span>
+                  <span>
+                    {conflict
+                      ? `Conflicts with "${conflict.existingName}" (same ${conflict.reason})`
+                      : 'New'}
+                  </span>
+                </div>
+              </div>
+              {conflict && (
+                <select
+                  className={`${styles.input} ${styles.filterField}`}
+                  value={resolutions[entry.id] ?? 'skip'}
+                  onChange={(event) => setResolutions((current) => ({ ...current, [entry.id]: event.target.value as AutomationImportResolution }))}
+                >
+                  {IMPORT_RESOLUTION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {loaded && loaded.automations.length > 0 && (
+        <div className={styles.formActions}>
+          <button className={styles.cancelBtn} onClick={onBack}>Cancel</button>
+          <button className={styles.submitBtn} onClick={() => void handleImport()} disabled={busy}>Import</button>
+        </div>
+      )}
+    </>
+  )
+}
+
+function formatRunDuration(run: AutomationRunRecord): string {
+  const seconds = Math.max(0, Math.round((run.finishedAt - run.startedAt) / 1000))
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function describeRunTrigger(run: AutomationRunRecord): string {
+  const event = run.triggerEvent
+  if (!event) return 'Manual or schedule'
+  const label = EVENT_OPTIONS.find((option) => option.value === event.type)?.label ?? event.type
+  return event.branch ? `${label} · ${event.branch}` : label
+}
+
+function AutomationRunHistory({ automation }: { automation: Automation }) {
+  const project = useAppStore((s) => s.projects.find((entry) => entry.id === automation.projectId))
+  const [statusFilter, setStatusFilter] = useState<AutomationRunStatus | 'all'>('all')
+  const [runs, setRuns] = useState<AutomationRunRecord[]>([])
+  const [nextBefore, setNextBefore] = useState<AutomationRunHistoryCursor | undefined>()
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const repoPath = project?.repoPath
+
+  const loadPage = useCallback(async (before?: AutomationRunHistoryCursor) => {
+    if (!repoPath) return
+    setLoading(true)
+    try {
+      const page = await window.api.automations.listRuns(repoPath, automation.projectId, {
+        automationId: automation.id,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        before,
+      })
+      setRuns((current) => (before === undefined ? page.runs : [...current, ...page.runs]))
+      setNextBefore(page.nextBefore)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load run history')
+    } finally {
+      setLoading(false)
+    }
+  }, [automation.id, automation.projectId, repoPath, statusFilter])
+
+  useEffect(() => {
+    void loadPage()
+  }, [loadPage])
+
+  useEffect(() => {
+    return window.api.automations.onStatusUpdated((data) => {
+      if (data.automationId === automation.id) void loadPage()
+    })
+  }, [automation.id, loadPage])
+
+  return (
+    <>
+      <div className={styles.segmentedControl}>
+        {HISTORY_STATUS_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className={`${styles.segmentBtn} ${statusFilter === option.value ? styles.segmentBtnActive : ''}`}
+            onClick={() => setStatusFilter(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className={styles.helperText}>{error}</div>}
+      {!error && runs.length === 0 && !loading && (
+        <div className={styles.helperText}>No runs recorded{statusFilter === 'all' ? '' : ' with this status'} yet.</div>
+      )}
+
+      {runs.map((run) => {
+        const expanded = expandedRunId === run.id
+        return (
+          <div key={run.id} className={styles.historyRow}>
+            <button
+              type="button"
+              className={styles.historyRowHeader}
+              onClick={() => setExpandedRunId(expanded ? null : run.id)}
+              aria-expanded={expanded}
+            >
+              <span className={`${styles.statusDot} ${run.status === 'success' ? styles.statusSuccess : styles.statusFailed}`} />
+              <span className={styles.historyRowTitle}>{new Date(run.startedAt).toLocaleString()}</span>
+              <span className={styles.rowMeta}>
+                <span>{run.status}</span>
+                <span>·</span>
+                <span>{formatRunDuration(run)}</span>
+                <span>·</span>
+                <span>{describeRunTrigger(run)}</span>
+              </span>
+            </button>
+            {run.message && <div className={styles.historyMessage}>{run.message}</div>}
+            {expanded && (
+              <div className={styles.historyDetails}>
+                {run.worktreePath && <div className={styles.rowMeta}>Worktree: {run.worktreePath}</div>}
+                {run.steps.map((step, index) => (
+                  <div key={step.stepId} className={styles.historyStep}>
+                    <div className={styles.rowMeta}>
+                      <span>{index + 1}. {describeActionType(step.actionType)}</span>
+                      <span>·</span>
+                      <span>{step.status}</span>
+                      {step.outputs?.exitCode !== undefined && <span>· exit {step.outputs.exitCode}</span>}
+                      {step.outputs?.ptyId && <span>· PTY {step.outputs.ptyId}</span>}
+                    </div>
+                    {step.message && <div className={styles.historyMessage}>{step.message}</div>}
+                    {step.outputs?.stdout && <pre className={styles.historyOutput}>{step.outputs.stdout}</pre>}
+                    {step.outputs?.stderr && <pre className={`${styles.historyOutput} ${styles.historyOutputError}`}>{step.outputs.stderr}</pre>}
+                  </div>
+                ))}
+                {run.triggerEvent && (
+                  <pre className={styles.historyOutput}>{JSON.stringify(run.triggerEvent, null, 2)}</pre>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {nextBefore !== undefined && (
+        <button className={styles.addStepBtn} onClick={() => void loadPage(nextBefore)} disabled={loading}>
+          {loading ? 'Loading…' : 'Load older runs'}
+        </button>
+      )}
+    </>
+  )
+}
+
 export function AutomationsPanel() {
   const toggleAutomations = useAppStore((s) => s.toggleAutomations)
-  const [view, setView] = useState<'list' | 'form'>('list')
+  const [view, setView] = useState<'list' | 'form' | 'history' | 'repo-file'>('list')
   const [editingAutomation, setEditingAutomation] = useState<Automation | null>(null)
 
   const handleNew = useCallback(() => {
@@ -630,6 +1642,11 @@ export function AutomationsPanel() {
     setView('form')
   }, [])
 
+  const handleHistory = useCallback((automation: Automation) => {
+    setEditingAutomation(automation)
+    setView('history')
+  }, [])
+
   const handleBack = useCallback(() => {
     setEditingAutomation(null)
     setView('list')
@@ -638,7 +1655,7 @@ export function AutomationsPanel() {
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
       if (event.key !== 'Escape') return
-      if (view === 'form') {
+      if (view !== 'list') {
         handleBack()
       } else {
         toggleAutomations()
@@ -664,17 +1681,29 @@ export function AutomationsPanel() {
         <h2 className={styles.title}>Automations</h2>
         <div className={styles.titlebarSpacer} />
         {view === 'list' && (
-          <button className={styles.newBtn} onClick={handleNew}>+ New</button>
+          <>
+            <button className={styles.newBtn} onClick={() => setView('repo-file')}>Import / Export</button>
+            <button className={styles.newBtn} onClick={handleNew}>+ New</button>
+          </>
         )}
       </FloatingPanel.Titlebar>
       <FloatingPanel.Body className={styles.content}>
         <div className={styles.inner}>
           <p className={styles.subtitle}>Schedule prompts, event hooks, and repeatable workflows.</p>
-          {view === 'list' ? (
-            <AutomationList onNew={handleNew} onEdit={handleEdit} />
-          ) : (
+          {view === 'list' && (
+            <AutomationList onNew={handleNew} onEdit={handleEdit} onHistory={handleHistory} />
+          )}
+          {view === 'form' && (
             <AutomationForm editingAutomation={editingAutomation} onBack={handleBack} />
           )}
+          {view === 'repo-file' && <AutomationRepoFile onBack={handleBack} />}
+          {view === 'history' && editingAutomation && (
+            <>
+              <button className={styles.backLink} onClick={handleBack}>← Back</button>
+              <div className={styles.formTitle}>{editingAutomation.name} · Run History</div>
+              <AutomationRunHistory automation={editingAutomation} />
+            </>
+          )}
         </div>
       </FloatingPanel.Body>
     </FloatingPanel>
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { CiFailureExcerpt, PrCheckRun } from '@shared/github-types'
+import { formatCiFailureForAgent, isFailedCheckRun } from '@shared/ci-failure'
+import { useAppStore } from '../../store/app-store'
+import { resolveAgentPtyForContextInjection } from '../../store/split-helpers'
+import { wrapBracketedPaste } from '../../utils/bracketed-paste'
+import { FloatingPanel } from '../FloatingPanel/FloatingPanel'
+import styles from './CiChecksPanel.module.css'
+
+type FailureState =
+  | { status: 'loading' }
+  | { status: 'loaded'; failure: CiFailureExcerpt }
+  | { status: 'error'; message: string }
+
+function checkRunLabel(run: PrCheckRun): string {
+  if (run.status !== 'completed') return run.status === 'in_progress' ? 'Running' : 'Queued'
+  switch (run.conclusion) {
+    case 'success': return 'Passed'
+    case 'skipped': return 'Skipped'
+    case 'neutral': return 'Neutral'
+    case 'timed_out': return 'Timed out'
+    case 'cancelled': return 'Cancelled'
+    case 'action_required': return 'Action required'
+    default: return 'Failed'
+  }
+}
+
+function checkRunTone(run: PrCheckRun): string {
+  if (run.status !== 'completed') return styles.tonePending
+  if (isFailedCheckRun(run)) return styles.toneFailed
+  return run.conclusion === 'success' ? styles.tonePassed : styles.toneNeutral
+}
+
+/** Failed runs first, then running, then the rest; GitHub's order within each group. */
+function sortCheckRuns(runs: PrCheckRun[]): PrCheckRun[] {
+  const rank = (run: PrCheckRun) => (isFailedCheckRun(run) ? 0 : run.status !== 'completed' ? 1 : 2)
+  return [...runs].sort((a, b) => rank(a) - rank(b))
+}
+
+export function CiChecksPanel({ workspaceId }: { workspaceId: string }) {
+  const workspace = useAppStore((s) => s.workspaces.find((w) => w.id === workspaceId))
+  const prInfo = useAppStore((s) => (workspace ? s.prStatusMap.get(`${workspace.projectId}:${workspace.branch}`) : undefined))
+  const closeCiChecks = useAppStore((s) => s.closeCiChecks)
+  const addToast = useAppStore((s) => s.addToast)
+  const [checkRuns, setCheckRuns] = useState<PrCheckRun[] | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [failures, setFailures] = useState<Map<number, FailureState>>(() => new Map())
+
+  const worktreePath = workspace?.worktreePath
+  const prNumber = prInfo?.number
+
+  const loadFailure = useCallback(async (jobId: number) => {
+    if (!worktreePath) return
+    setFailures((prev) => new Map(prev).set(jobId, { status: 'loading' }))
+    try {
+      const failure = await window.api.github.getCheckFailure(worktreePath, jobId)
+      setFailures((prev) => new Map(prev).set(jobId, { status: 'loaded', failure }))
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to download job log'
+      setFailures((prev) => new Map(prev).set(jobId, { status: 'error', message }))
+    }
+  }, [worktreePath])
+
+  const loadCheckRuns = useCallback(async () => {
+    if (!worktreePath || prNumber == null) return
+    setLoadError(null)
+    try {
+      const result = await window.api.github.listCheckRuns(worktreePath, prNumber)
+      const sorted = sortCheckRuns(result.checkRuns)
+      setCheckRuns(sorted)
+      setFailures(new Map())
+      // Pull the log of the first failed Actions job right away; it is usually the one that matters.
+      const firstFailed = sorted.find((run) => isFailedCheckRun(run) && run.actionsJobId != null)
+      if (firstFailed?.actionsJobId != null) void loadFailure(firstFailed.actionsJobId)
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load check runs')
+    }
+  }, [worktreePath, prNumber, loadFailure])
+
+  useEffect(() => {
+    void loadCheckRuns()
+  }, [loadCheckRuns])
+
+  const sendToAgent = useCallback((run: PrCheckRun, failure: CiFailureExcerpt) => {
+    if (prNumber == null) return
+    const s = useAppStore.getState()
+    const activeTab = s.tabs.find((t) => t.id === s.activeTabId)
+    const pty = resolveAgentPtyForContextInjection({
+      tabs: s.tabs,
+      activeTabId: activeTab?.workspaceId === workspaceId ? s.activeTabId : null,
+      activeWorkspaceId: workspaceId,
+    })
+    if (!pty) {
+      addToast({ id: `ci-no-pty-${Date.now()}`, message: 'No agent terminal found', type: 'error' })
+      return
+    }
+    window.api.pty.write(pty, wrapBracketedPaste(formatCiFailureForAgent({ checkName: run.name, prNumber, failure })))
+    addToast({ id: `ci-sent-${Date.now()}`, message: `Sent "${run.name}" failure to agent`, type: 'info' })
+  }, [prNumber, workspaceId, addToast])
+
+  const failedCount = useMemo(() => checkRuns?.filter(isFailedCheckRun).length ?? 0, [checkRuns])
+
+  return (
+    <>
+      <button type="button" className={styles.backdrop} aria-label="Close CI checks" onClick={closeCiChecks} />
+      <FloatingPanel
+        variant="drawer"
+        testId="ci-checks-panel"
+        shellClassName={styles.drawerShell}
+        cardClassName={styles.drawerCard}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label="CI checks"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.stopPropagation()
+            closeCiChecks()
+          }
+        }}
+      >
+        <div className={styles.header}>
+          <span className={styles.title}>CI Checks</span>
+          {prNumber != null && <span className={styles.badge}>PR #{prNumber}</span>}
+          {failedCount > 0 && <span className={`${styles.badge} ${styles.toneFailed}`}>{failedCount} failed</span>}
+          <div className={styles.headerSpacer} />
+          <button type="button" className={styles.secondaryBtn} onClick={() => void loadCheckRuns()}>
+            Refresh
+          </button>
+          <button type="button" className={styles.closeBtn} onClick={closeCiChecks} aria-label="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className={styles.scrollArea}>
+          {prNumber == null ? (
+            <div className={styles.emptyState}>This workspace has no pull request.</div>
+          ) : loadError ? (
+            <div className={styles.emptyState}>{loadError}</div>
+          ) : checkRuns == null ? (
+            <div className={styles.emptyState} role="status" aria-busy="true">Loading checks…</div>
+          ) : checkRuns.length === 0 ? (
+            <div className={styles.emptyState}>No checks reported for the PR head commit.</div>
+          ) : (
+            checkRuns.map((run) => {
+              const failed = isFailedCheckRun(run)
+              const failure = run.actionsJobId != null ? failures.get(run.actionsJobId) : undefined
+              return (
+                <div key={run.id} className={styles.checkRow}>
+                  <div className={styles.checkHeader}>
+                    <span className={`${styles.statusPill} ${checkRunTone(run)}`}>{checkRunLabel(run)}</span>
+                    <span className={styles.checkName} title={run.name}>{run.name}</span>
+                    {failed && run.actionsJobId != null && !failure && (
+                      <button
+                        type="button"
+                        className={styles.secondaryBtn}
+                        onClick={() => void loadFailure(run.actionsJobId!)}
+                      >
+                        Show failure
+                      </button>
+                    )}
+                    {run.detailsUrl && (
+                      <button type="button" className={styles.linkBtn} onClick={() => window.open(run.detailsUrl!)}>
+                        Open
+                      </button>
+                    )}
+                  </div>
+                  {failed && run.actionsJobId == null && (
+                    <p className={styles.note}>Logs are only available for GitHub Actions jobs.</p>
+                  )}
+                  {failure?.status === 'loading' && <p className={styles.note}>Downloading log…</p>}
+                  {failure?.status === 'error' && <p className={styles.errorNote}>{failure.message}</p>}
+                  {failure?.status === 'loaded' && (
+                    <div className={styles.failure}>
+                      <div className={styles.failureMeta}>
+                        <span>
+                          {failure.failure.failingStep ? `Step: ${failure.failure.failingStep}` : 'Failing step unknown'}
+                          {failure.failure.truncated ? ' · truncated' : ''}
+                        </span>
+                        <button
+                          type="button"
+                          className={styles.primaryBtn}
+                          disabled={!failure.failure.excerpt}
+                          onClick={() => sendToAgent(run, failure.failure)}
+                        >
+                          Add to chat
+                        </button>
+                      </div>
+                      <pre className={styles.excerpt}>{failure.failure.excerpt || 'The job log is empty.'}</pre>
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+      </FloatingPanel>
+    </>
+  )
+}
@@ -4,6 +4,7 @@ import {
   type DiffAnnotation,
   type DiffAnnotationSide,
 } from '../../../shared/diff-annotation-types'
+import { isGithubAnnotationId } from '../../../shared/github-review-threads'
 import { useAppStore } from '../../store/app-store'
 import styles from './AnnotationBubble.module.css'
 
@@ -80,7 +81,7 @@ export function CommentBubble({
     if (busy) return
     setBusy(true)
     try {
-      await window.api.review.commentResolve(worktreePath, annotation.id, !annotation.resolved)
+      await setAnnotationResolved(worktreePath, annotation, !annotation.resolved)
       onChanged()
     } catch (e) {
       console.error('Review annotation resolve failed:', e)
@@ -92,13 +93,13 @@ export function CommentBubble({
     } finally {
       setBusy(false)
     }
-  }, [busy, worktreePath, annotation.id, annotation.resolved, onChanged, addToast])
+  }, [busy, worktreePath, annotation, onChanged, addToast])
 
   const end = annotationLineEnd(annotation)
   const rangeLabel =
     end !== annotation.lineNumber ? `L${annotation.lineNumber}–L${end}` : `L${annotation.lineNumber}`
   const isAgent = !!annotation.author
-  const isGithub = annotation.id.startsWith('PRR') || annotation.id.startsWith('IC_')
+  const isGithub = isGithubAnnotationId(annotation.id)
 
   const displayName = isAgent ? annotation.author! : isGithub ? annotation.author! : 'You'
   const initial = displayName.charAt(0).toUpperCase()
@@ -143,7 +144,8 @@ export function CommentBubble({
           </div>
           <p className={styles.commentBody}>{annotation.body}</p>
           {showTourDetails && <p className={styles.commentRationale}>{annotation.rationale}</p>}
-          {!isGithub && (
+          <GithubThreadReplies annotation={annotation} worktreePath={worktreePath} onChanged={onChanged} />
+          {(!isGithub || annotation.github) && (
             <div className={styles.commentActions}>
               <button
                 type="button"
@@ -153,14 +155,16 @@ export function CommentBubble({
               >
                 {annotation.resolved ? 'Unresolve' : 'Resolve'}
               </button>
-              <button
-                type="button"
-                onClick={() => void handleDelete()}
-                disabled={busy}
-                className={`${styles.commentActionBtn} ${styles.delete}`}
-              >
-                Delete
-              </button>
+              {!isGithub && (
+                <button
+                  type="button"
+                  onClick={() => void handleDelete()}
+                  disabled={busy}
+                  className={`${styles.commentActionBtn} ${styles.delete}`}
+                >
+                  Delete
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -169,6 +173,113 @@ export function CommentBubble({
   )
 }
 
+/**
+ * Threads that exist only on GitHub resolve there; local annotations resolve locally and the
+ * main process mirrors the change onto any GitHub thread they were published as.
+ */
+export async function setAnnotationResolved(
+  worktreePath: string,
+  annotation: DiffAnnotation,
+  resolved: boolean,
+): Promise<void> {
+  if (annotation.github && isGithubAnnotationId(annotation.id)) {
+    await window.api.github.setReviewThreadResolved(worktreePath, annotation.github.threadId, resolved)
+  } else {
+    await window.api.review.commentResolve(worktreePath, annotation.id, resolved)
+  }
+}
+
+/** Replies of a GitHub review thread plus a box to answer on GitHub. Renders nothing for local-only comments. */
+export function GithubThreadReplies({
+  annotation,
+  worktreePath,
+  onChanged,
+}: {
+  annotation: DiffAnnotation
+  worktreePath: string
+  onChanged: () => void
+}) {
+  const [replying, setReplying] = useState(false)
+  const [body, setBody] = useState('')
+  const [busy, setBusy] = useState(false)
+  const addToast = useAppStore((s) => s.addToast)
+  const thread = annotation.github
+
+  const submit = async () => {
+    const trimmed = body.trim()
+    if (!thread || !trimmed || busy) return
+    setBusy(true)
+    try {
+      await window.api.github.replyToReviewThread(worktreePath, thread.threadId, trimmed)
+      setBody('')
+      setReplying(false)
+      onChanged()
+    } catch (e) {
+      console.error('Failed to reply on GitHub:', e)
+      addToast({
+        id: `review-reply-err-${Date.now()}`,
+        message: annotationErrorMessage(e),
+        type: 'error',
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!thread) return null
+
+  return (
+    <div className={styles.threadReplies}>
+      {thread.replies.map((reply) => (
+        <div key={reply.id} className={styles.threadReply}>
+          <div className={styles.commentMeta}>
+            <span className={styles.authorName} style={{ color: getAvatarStyle(reply.author).text }}>
+              {reply.author}
+            </span>
+            <span className={styles.timestamp}>{formatTimeAgo(reply.createdAt)}</span>
+          </div>
+          <p className={styles.commentBody}>{reply.body}</p>
+        </div>
+      ))}
+      {replying ? (
+        <div className={styles.threadReplyComposer}>
+          <textarea
+            className={styles.composerTextarea}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Reply on GitHub..."
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setReplying(false)
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault()
+                void submit()
+              }
+            }}
+          />
+          <div className={styles.composerActions}>
+            <button
+              type="button"
+              onClick={() => void submit()}
+              disabled={busy || !body.trim()}
+              className={styles.composerSubmit}
+            >
+              Reply
+            </button>
+            <button type="button" onClick={() => setReplying(false)} className={styles.composerCancel}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" className={styles.threadReplyBtn} onClick={() => setReplying(true)}>
+          Reply on GitHub
+        </button>
+      )}
+    </div>
+  )
+}
+
 export function CommentComposer({
   worktreePath,
   filePath,
@@ -1,8 +1,10 @@
 import { useEffect, useState, useCallback, useRef, useMemo } from 'react'
 import type { DiffAnnotation } from '@shared/diff-annotation-types'
+import { mergeGithubReviewThreads } from '@shared/github-review-threads'
 import type { GitHunkActionRequest } from '@shared/git-hunk-action-types'
 import { useAppStore } from '../../store/app-store'
 import { useFileWatcher } from '../../hooks/useFileWatcher'
+import { usePrReviewThreads } from '../../hooks/usePrReviewThreads'
 import type { GitStatusSnapshot } from '../../types/working-tree-diff'
 import { isMarkdownDocumentPath } from '../../utils/markdown-path'
 import { getPreferredScrollBehavior } from '../../utils/preferred-scroll-behavior'
@@ -35,7 +37,7 @@ const AUTO_EXPAND_PATCH_LINE_BUDGET = 1500
 export function DiffViewer({ worktreePath, active, commitHash, commitMessage }: Props) {
   const [files, setFiles] = useState<DiffFileData[]>([])
   const [loading, setLoading] = useState(true)
-  const [annotations, setAnnotations] = useState<DiffAnnotation[]>([])
+  const [localAnnotations, setLocalAnnotations] = useState<DiffAnnotation[]>([])
   const [activeFile, setActiveFile] = useState<string | null>(null)
   const [viewedFilePaths, setViewedFilePaths] = useState<Set<string>>(() => new Set())
   const [expectedFileCount, setExpectedFileCount] = useState(0)
@@ -93,7 +95,7 @@ export function DiffViewer({ worktreePath, active, commitHash, commitMessage }:
   const loadAnnotations = useCallback(async () => {
     try {
       const rows = await window.api.review.commentList(worktreePath)
-      setAnnotations(
+      setLocalAnnotations(
         rows.map((r) => ({
           id: r.id,
           filePath: r.file_path,
@@ -109,7 +111,7 @@ export function DiffViewer({ worktreePath, active, commitHash, commitMessage }:
       )
     } catch (err) {
       console.error('Failed to load review annotations:', err)
-      setAnnotations([])
+      setLocalAnnotations([])
     }
   }, [worktreePath])
 
@@ -117,6 +119,17 @@ export function DiffViewer({ worktreePath, active, commitHash, commitMessage }:
     void loadAnnotations()
   }, [loadAnnotations])
 
+  // Commit diffs don't show PR review threads
+  const { threads: githubThreads, reload: reloadGithubThreads } = usePrReviewThreads(worktreePath, !commitHash)
+  const annotations = useMemo(
+    () => mergeGithubReviewThreads(localAnnotations, githubThreads),
+    [localAnnotations, githubThreads],
+  )
+  const reloadAnnotations = useCallback(() => {
+    void loadAnnotations()
+    void reloadGithubThreads()
+  }, [loadAnnotations, reloadGithubThreads])
+
   const annotationsByFile = useMemo(() => {
     const grouped = new Map<string, DiffAnnotation[]>()
     for (const annotation of annotations) {
@@ -209,47 +222,6 @@ export function DiffViewer({ worktreePath, active, commitHash, commitMessage }:
     })
   }, [loadAnnotations])
 
-  // ── GitHub PR comment loading ──
-  useEffect(() => {
-    if (commitHash) return // Don't load PR comments for commit diffs
-    let cancelled = false
-    ;(async () => {
-      try {
-        // Get current branch to look up PR
-        const branch = await window.api.git.getCurrentBranch(worktreePath)
-        if (!branch || cancelled) return
-
-        // Check prStatusMap for a PR on this branch
-        const { projects, workspaces, prStatusMap } = useAppStore.getState()
-        const ws = workspaces.find((w) => w.worktreePath === worktreePath)
-        if (!ws) return
-        const project = projects.find((p) => p.id === ws.projectId)
-        if (!project) return
-
-        const prInfo = prStatusMap.get(`${project.id}:${branch}`)
-        if (!prInfo?.number) return
-
-        const comments = await window.api.github.getPrReviewComments(worktreePath, prInfo.number)
-        if (cancelled) return
-        const mapped: DiffAnnotation[] = comments.map((c) => ({
-          id: c.id,
-          filePath: c.filePath,
-          side: c.diffSide === 'LEFT' ? ('deletions' as const) : ('additions' as const),
-          lineNumber: c.line ?? c.startLine ?? 1,
-          body: c.body,
-          rationale: undefined,
-          createdAt: c.createdAt,
-          resolved: c.resolved,
-          author: c.author,
-        }))
-        setAnnotations((prev) => [...prev, ...mapped])
-      } catch (err) {
-        console.error('Failed to load PR review comments:', err)
-      }
-    })()
-    return () => { cancelled = true }
-  }, [worktreePath, commitHash])
-
   const notifyGitFilesChanged = useCallback((paths: string[]) => {
     window.dispatchEvent(new CustomEvent('git:files-changed', {
       detail: { worktreePath, paths },
@@ -550,7 +522,7 @@ export function DiffViewer({ worktreePath, active, commitHash, commitMessage }:
             worktreePath={worktreePath}
             onOpenFile={openFileFromDiff}
             fileAnnotations={annotationsByFile.get(file.filePath) ?? []}
-            onAnnotationsChanged={loadAnnotations}
+            onAnnotationsChanged={reloadAnnotations}
             showPatchAnchorNote={!!commitHash}
             enableAcceptReject={enableAcceptReject}
             onHunkAccepted={applyHunkAction}
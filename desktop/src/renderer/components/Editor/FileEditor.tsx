@@ -8,6 +8,7 @@ import { AddToChatMarkdownSurface } from '../AddToChat/AddToChatMarkdownSurface'
 import { sendAddToChatText, isPlanSidecarPath, openPlanEditSidecar } from '../../utils/add-to-chat'
 import { isAgentPlanPath } from '../../../shared/agent-plan-path'
 import { stripYamlFrontmatterForPreview } from '../../../shared/plan-markdown-preview'
+import type { LspServerTarget } from '../../../shared/lsp-types'
 import { PlanAgentToolbar } from '../PlanAgentToolbar/PlanAgentToolbar'
 import {
   setMonacoAddToChatHandler,
@@ -27,12 +28,12 @@ import {
 import { usePrefersReducedMotion } from '../../hooks/use-prefers-reduced-motion'
 import {
   clearLspDiagnosticsForUri,
-  getLspServerKeyForPath,
   getLspTextDocumentLanguageId,
   getOrCreateClient,
   notifyDidChange,
   notifyDidClose,
   notifyDidOpen,
+  resolveLspServer,
   toFileUri,
 } from '../../services/lsp-client-manager'
 import { markPaint, measureAsync } from '../../utils/perf'
@@ -40,7 +41,10 @@ import { DEFAULT_SETTINGS } from '../../store/types'
 import {
   applyMonacoTypeScriptCompilerDefaults,
   applyMonacoTypeScriptDiagnostics,
+  applyMonacoTypeScriptNavigation,
 } from '../../utils/monaco-typescript-diagnostics'
+import { attachLspNavigation } from '../../services/lsp-navigation'
+import { installEditorProblemTracking } from '../../services/editor-problems'
 import { ensureMonacoPrismaLanguage } from '../../utils/monaco-prisma-language'
 
 // Monaco themes + compiler defaults once; diagnostics follow Settings (see FileEditor effect).
@@ -61,6 +65,7 @@ loader.init().then((monaco) => {
     applyMonacoTypeScriptCompilerDefaults(monaco)
   }
   applyMonacoTypeScriptDiagnostics(monaco, DEFAULT_SETTINGS.editorMonacoSemanticDiagnostics)
+  installEditorProblemTracking(monaco)
 })
 
 interface Props {
@@ -121,10 +126,9 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
     [effectiveLanguage, filePath, languageOverride],
   )
   const fileUri = useMemo(() => toFileUri(modelPath), [modelPath])
-  const effectiveLspServerKey = useMemo(
-    () => getLspServerKeyForPath(filePath, effectiveLanguage),
-    [filePath, effectiveLanguage],
-  )
+  const [lspTarget, setLspTarget] = useState<LspServerTarget | null>(null)
+  const effectiveLspServerKey = lspTarget?.serverKey ?? null
+  const lspRoot = lspTarget?.root ?? null
   const effectiveLspDocumentLanguage = useMemo(
     () => getLspTextDocumentLanguageId(filePath, effectiveLanguage),
     [filePath, effectiveLanguage],
@@ -137,6 +141,19 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
     if (worktreePath && TS_JS_MONACO_LANGUAGES.has(effectiveLanguage)) return false
     return true
   }, [effectiveLanguage, editorMonacoSemanticDiagnostics, worktreePath])
+  useEffect(() => {
+    if (!worktreePath) {
+      setLspTarget(null)
+      return
+    }
+    let cancelled = false
+    void resolveLspServer(worktreePath, filePath, languageOverride).then((target) => {
+      if (!cancelled) setLspTarget(target)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, languageOverride, worktreePath])
   const lspSessionRef = useRef<{
     serverKey: string
     workspace: string
@@ -202,6 +219,13 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
       // Render hover/suggest/context widgets outside the editor's clipping
       // boundary so the rounded floating-card chrome doesn't cut them off.
       fixedOverflowWidgets: true,
+      // Monaco's peek widget can't load files that aren't open; jump to the first result
+      // (a tab) instead. Find All References/Implementations list every result in a drawer.
+      gotoLocation: {
+        multipleDefinitions: 'goto',
+        multipleTypeDefinitions: 'goto',
+        multipleImplementations: 'goto',
+      },
     }),
     [editorFontSize, prefersReducedMotion],
   )
@@ -225,6 +249,28 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
     }
   }, [shouldEnableMonacoSemanticDiagnostics])
 
+  // While this tab is active and an LSP server serves its TS/JS file, navigation and rename
+  // come from the server rather than Monaco's single-file worker.
+  useEffect(() => {
+    if (!active) return
+    const workerNavigationEnabled = !(lspTarget && TS_JS_MONACO_LANGUAGES.has(effectiveLanguage))
+    void loader.init().then((monaco) => applyMonacoTypeScriptNavigation(monaco, workerNavigationEnabled))
+  }, [active, effectiveLanguage, lspTarget])
+
+  useEffect(() => {
+    const ed = editorInstance
+    if (!ed) return
+    let disposed = false
+    let navigation: { dispose: () => void } | null = null
+    void loader.init().then((monaco) => {
+      if (!disposed) navigation = attachLspNavigation(monaco, ed)
+    })
+    return () => {
+      disposed = true
+      navigation?.dispose()
+    }
+  }, [editorInstance])
+
   // Git gutter decorations (no-op when worktreePath is undefined or editor not mounted)
   useGitGutter(editorInstance, filePath, worktreePath)
 
@@ -361,7 +407,7 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
   useEffect(() => {
     const currentSession = lspSessionRef.current
     const contentReady = content !== null
-    if (!contentReady || !worktreePath || !effectiveLspServerKey) {
+    if (!contentReady || !worktreePath || !effectiveLspServerKey || !lspRoot) {
       if (currentSession) closeLspSession(currentSession)
       else void clearLspDiagnosticsForUri(fileUri)
       return
@@ -370,7 +416,7 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
     const needsReopen =
       !currentSession ||
       currentSession.serverKey !== effectiveLspServerKey ||
-      currentSession.workspace !== worktreePath ||
+      currentSession.workspace !== lspRoot ||
       currentSession.uri !== fileUri ||
       currentSession.documentLanguage !== effectiveLspDocumentLanguage
 
@@ -380,7 +426,7 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
 
     let cancelled = false
     const lspStartedAt = performance.now()
-    measureAsync('editor:lsp-attach', () => getOrCreateClient(effectiveLspServerKey, worktreePath), {
+    measureAsync('editor:lsp-attach', () => getOrCreateClient(effectiveLspServerKey, lspRoot, worktreePath), {
       filePath,
       worktreePath,
       language: effectiveLspServerKey,
@@ -388,7 +434,7 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
       if (cancelled || !client) return
       const nextSession = {
         serverKey: effectiveLspServerKey,
-        workspace: worktreePath,
+        workspace: lspRoot,
         uri: fileUri,
         documentLanguage: effectiveLspDocumentLanguage,
       }
@@ -413,7 +459,7 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
       if (
         liveSession &&
         liveSession.serverKey === effectiveLspServerKey &&
-        liveSession.workspace === worktreePath &&
+        liveSession.workspace === lspRoot &&
         liveSession.uri === fileUri &&
         liveSession.documentLanguage === effectiveLspDocumentLanguage
       ) {
@@ -426,6 +472,7 @@ export const FileEditor = forwardRef<FileEditorHandle, Props>(function FileEdito
     effectiveLspDocumentLanguage,
     effectiveLspServerKey,
     fileUri,
+    lspRoot,
     worktreePath,
   ])
 
@@ -1,7 +1,9 @@
 import { useState, useCallback, useMemo, type MouseEvent } from 'react'
 import type { DiffAnnotation } from '../../../shared/diff-annotation-types'
 import { annotationLineEnd } from '../../../shared/diff-annotation-types'
+import { isGithubAnnotationId } from '../../../shared/github-review-threads'
 import { useAppStore } from '../../store/app-store'
+import { GithubThreadReplies, setAnnotationResolved } from '../Editor/AnnotationBubble'
 import styles from './AnnotationsSummary.module.css'
 
 interface Props {
@@ -77,7 +79,7 @@ function AnnotationRow({
   const [busy, setBusy] = useState(false)
   const addToast = useAppStore((s) => s.addToast)
   const isAgent = !!annotation.author
-  const isGithub = annotation.id.startsWith('PRR') || annotation.id.startsWith('IC_')
+  const isGithub = isGithubAnnotationId(annotation.id)
   const end = annotationLineEnd(annotation)
   const lineLabel =
     end !== annotation.lineNumber ? `L${annotation.lineNumber}–${end}` : `L${annotation.lineNumber}`
@@ -92,14 +94,14 @@ function AnnotationRow({
     if (busy) return
     setBusy(true)
     try {
-      await window.api.review.commentResolve(worktreePath, annotation.id, !annotation.resolved)
+      await setAnnotationResolved(worktreePath, annotation, !annotation.resolved)
       onChanged()
     } catch (e) {
       addToast({ id: `ann-resolve-${Date.now()}`, message: 'Failed to resolve', type: 'error' })
     } finally {
       setBusy(false)
     }
-  }, [busy, worktreePath, annotation.id, annotation.resolved, onChanged, addToast])
+  }, [busy, worktreePath, annotation, onChanged, addToast])
 
   const handleDelete = useCallback(async () => {
     if (busy) return
@@ -120,7 +122,7 @@ function AnnotationRow({
 
   const handleRowClick = useCallback(
     (e: MouseEvent<HTMLDivElement>) => {
-      if ((e.target as HTMLElement).closest('button, input')) return
+      if ((e.target as HTMLElement).closest('button, input, textarea')) return
       jump()
     },
     [jump],
@@ -167,7 +169,8 @@ function AnnotationRow({
             {annotation.resolved && <span className={styles.resolvedBadge}>Resolved</span>}
           </div>
           <p className={styles.body}>{annotation.body}</p>
-          {!isGithub && (
+          <GithubThreadReplies annotation={annotation} worktreePath={worktreePath} onChanged={onChanged} />
+          {(!isGithub || annotation.github) && (
             <div className={styles.actions}>
               <button
                 type="button"
@@ -177,14 +180,16 @@ function AnnotationRow({
               >
                 {annotation.resolved ? 'Unresolve' : 'Resolve'}
               </button>
-              <button
-                type="button"
-                onClick={() => void handleDelete()}
-                disabled={busy}
-                className={`${styles.actionBtn} ${styles.deleteBtn}`}
-              >
-                Delete
-              </button>
+              {!isGithub && (
+                <button
+                  type="button"
+                  onClick={() => void handleDelete()}
+                  disabled={busy}
+                  className={`${styles.actionBtn} ${styles.deleteBtn}`}
+                >
+                  Delete
+                </button>
+              )}
             </div>
           )}
         </div>
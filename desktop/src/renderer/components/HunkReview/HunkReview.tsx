@@ -1,8 +1,11 @@
 import { useEffect, useState, useCallback, useRef, useMemo, type CSSProperties, type PointerEvent as ReactPointerEvent } from 'react'
 import type { DiffAnnotation } from '@shared/diff-annotation-types'
 import type { GitHunkActionRequest } from '@shared/git-hunk-action-types'
+import type { PrReviewEvent } from '@shared/github-types'
+import { isGithubAnnotationId, mergeGithubReviewThreads } from '@shared/github-review-threads'
 import { useAppStore } from '../../store/app-store'
 import { useFileWatcher } from '../../hooks/useFileWatcher'
+import { usePrReviewThreads } from '../../hooks/usePrReviewThreads'
 import { isMarkdownDocumentPath } from '../../utils/markdown-path'
 import type { DiffFileData } from '../../types/working-tree-diff'
 import { DiffFileSection, FileStrip } from '../Editor/DiffFileSection'
@@ -34,7 +37,7 @@ interface TourStep {
 }
 
 function isGithubAnnotation(annotation: DiffAnnotation) {
-  return annotation.id.startsWith('PRR') || annotation.id.startsWith('IC_')
+  return isGithubAnnotationId(annotation.id)
 }
 
 function reviewToDiffAnnotations(
@@ -70,7 +73,7 @@ function clampPanelWidth(width: number, viewportWidth = getViewportWidth()) {
 export function HunkReview({ worktreePath }: Props) {
   const [files, setFiles] = useState<DiffFileData[]>([])
   const [loading, setLoading] = useState(true)
-  const [annotations, setAnnotations] = useState<DiffAnnotation[]>([])
+  const [localAnnotations, setLocalAnnotations] = useState<DiffAnnotation[]>([])
   const [reviewMode, setReviewMode] = useState<ReviewMode>('annotations')
   const [activeTourStepId, setActiveTourStepId] = useState<string | null>(null)
   const [activeFile, setActiveFile] = useState<string | null>(null)
@@ -109,6 +112,12 @@ export function HunkReview({ worktreePath }: Props) {
     }
   }, [files])
 
+  const { prNumber, threads: githubThreads, reload: reloadGithubThreads } = usePrReviewThreads(worktreePath)
+  const annotations = useMemo(
+    () => mergeGithubReviewThreads(localAnnotations, githubThreads),
+    [localAnnotations, githubThreads],
+  )
+
   // ── Comment selection state ──
 
   const humanAnnotations = useMemo(
@@ -117,6 +126,8 @@ export function HunkReview({ worktreePath }: Props) {
   )
 
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [publishEvent, setPublishEvent] = useState<PrReviewEvent>('PENDING')
+  const [publishing, setPublishing] = useState(false)
 
   const tourSteps = useMemo(
     () => annotations
@@ -235,6 +246,36 @@ export function HunkReview({ worktreePath }: Props) {
 
   const selectedCount = selectedIds.size
 
+  const publishToGithub = useCallback(async () => {
+    if (prNumber == null) return
+    setPublishing(true)
+    try {
+      const result = await window.api.github.publishReview(worktreePath, {
+        prNumber,
+        annotationIds: [...selectedIds],
+        event: publishEvent,
+      })
+      const parts = [`${result.published} published`]
+      if (result.updated > 0) parts.push(`${result.updated} updated`)
+      if (result.skipped.length > 0) parts.push(`${result.skipped.length} skipped`)
+      const firstSkip = result.skipped.find((skip) => skip.reason !== 'Already published')
+      addToast({
+        id: `review-publish-${Date.now()}`,
+        message: `GitHub review: ${parts.join(', ')}${firstSkip ? ` — ${firstSkip.reason}` : ''}`,
+        type: firstSkip ? 'warning' : 'info',
+      })
+      void reloadGithubThreads()
+    } catch (err) {
+      addToast({
+        id: `review-publish-${Date.now()}`,
+        message: err instanceof Error ? err.message : 'Failed to publish review to GitHub',
+        type: 'error',
+      })
+    } finally {
+      setPublishing(false)
+    }
+  }, [prNumber, worktreePath, selectedIds, publishEvent, addToast, reloadGithubThreads])
+
   const handleSelectTourStep = useCallback((stepId: string) => {
     setActiveTourStepId(stepId)
   }, [])
@@ -338,13 +379,18 @@ export function HunkReview({ worktreePath }: Props) {
   const loadAnnotations = useCallback(async () => {
     try {
       const rows = await window.api.review.commentList(worktreePath)
-      setAnnotations(reviewToDiffAnnotations(rows))
+      setLocalAnnotations(reviewToDiffAnnotations(rows))
     } catch (err) {
       console.error('Failed to load review annotations:', err)
-      setAnnotations([])
+      setLocalAnnotations([])
     }
   }, [worktreePath])
 
+  const reloadAnnotations = useCallback(() => {
+    void loadAnnotations()
+    void reloadGithubThreads()
+  }, [loadAnnotations, reloadGithubThreads])
+
   useEffect(() => {
     void loadAnnotations()
   }, [loadAnnotations])
@@ -356,43 +402,6 @@ export function HunkReview({ worktreePath }: Props) {
     })
   }, [loadAnnotations])
 
-  // ── GitHub PR comment loading ──
-  useEffect(() => {
-    let cancelled = false
-    ;(async () => {
-      try {
-        const branch = await window.api.git.getCurrentBranch(worktreePath)
-        if (!branch || cancelled) return
-
-        const { projects, workspaces, prStatusMap } = useAppStore.getState()
-        const ws = workspaces.find((w) => w.worktreePath === worktreePath)
-        if (!ws) return
-        const project = projects.find((p) => p.id === ws.projectId)
-        if (!project) return
-
-        const prInfo = prStatusMap.get(`${project.id}:${branch}`)
-        if (!prInfo?.number) return
-
-        const comments = await window.api.github.getPrReviewComments(worktreePath, prInfo.number)
-        if (cancelled) return
-        const mapped: DiffAnnotation[] = comments.map((c) => ({
-          id: c.id,
-          filePath: c.filePath,
-          side: c.diffSide === 'LEFT' ? ('deletions' as const) : ('additions' as const),
-          lineNumber: c.line ?? c.startLine ?? 1,
-          body: c.body,
-          createdAt: c.createdAt,
-          resolved: c.resolved,
-          author: c.author,
-        }))
-        setAnnotations((prev) => [...prev, ...mapped])
-      } catch (err) {
-        console.error('Failed to load PR review comments:', err)
-      }
-    })()
-    return () => { cancelled = true }
-  }, [worktreePath])
-
   const notifyGitFilesChanged = useCallback((paths: string[]) => {
     window.dispatchEvent(new CustomEvent('git:files-changed', {
       detail: { worktreePath, paths },
@@ -697,6 +706,29 @@ export function HunkReview({ worktreePath }: Props) {
               Inline
             </button>
           </div>
+          {reviewMode === 'annotations' && prNumber != null && (
+            <>
+              <select
+                className={styles.publishEvent}
+                value={publishEvent}
+                onChange={(e) => setPublishEvent(e.target.value as PrReviewEvent)}
+                aria-label="GitHub review type"
+              >
+                <option value="PENDING">Pending review</option>
+                <option value="COMMENT">Comment</option>
+                <option value="APPROVE">Approve</option>
+                <option value="REQUEST_CHANGES">Request changes</option>
+              </select>
+              <button
+                className={styles.selectAllBtn}
+                disabled={publishing || (selectedCount === 0 && publishEvent !== 'APPROVE')}
+                onClick={() => void publishToGithub()}
+                title={`Publish selected comments to PR #${prNumber}`}
+              >
+                {publishing ? 'Publishing…' : 'Publish to GitHub'}
+              </button>
+            </>
+          )}
           {reviewMode === 'annotations' && (
             <button
               className={styles.submitBtn}
@@ -741,7 +773,7 @@ export function HunkReview({ worktreePath }: Props) {
           <AnnotationsSummary
             annotations={annotations}
             worktreePath={worktreePath}
-            onAnnotationsChanged={loadAnnotations}
+            onAnnotationsChanged={reloadAnnotations}
             selectedIds={selectedIds}
             onToggleComment={toggleComment}
             onJumpToAnnotation={scrollToAnnotationInDiff}
@@ -782,7 +814,7 @@ export function HunkReview({ worktreePath }: Props) {
                     worktreePath={worktreePath}
                     onOpenFile={openFileFromDiff}
                     fileAnnotations={annotationsByFile.get(f.filePath) ?? []}
-                    onAnnotationsChanged={loadAnnotations}
+                    onAnnotationsChanged={reloadAnnotations}
                     showPatchAnchorNote={false}
                     activeTourAnnotationId={reviewMode === 'tour' ? (activeTourStepId ?? undefined) : undefined}
                     tourMode={reviewMode === 'tour'}
@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { readCurrentText } from '../../services/lsp-navigation'
+import { displayPath, groupLocationsByFile } from '../../services/lsp-workspace-edit'
+import { FloatingPanel } from '../FloatingPanel/FloatingPanel'
+import styles from './LspNavigation.module.css'
+
+export function LspReferencesPanel({ worktreePath }: { worktreePath?: string }) {
+  const references = useAppStore((s) => s.lspReferences)
+  const closeLspReferences = useAppStore((s) => s.closeLspReferences)
+  const openFileTab = useAppStore((s) => s.openFileTab)
+  const [fileLines, setFileLines] = useState<Map<string, string[]>>(() => new Map())
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  const groups = useMemo(() => groupLocationsByFile(references?.locations ?? []), [references])
+
+  useEffect(() => {
+    panelRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    void Promise.all(groups.map(async (group) => [group.filePath, await readCurrentText(group.filePath).catch(() => null)] as const))
+      .then((entries) => {
+        if (cancelled) return
+        setFileLines(new Map(entries.flatMap(([filePath, text]) => (text === null ? [] : [[filePath, text.split('\n')]]))))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [groups])
+
+  if (!references) return null
+  const title = references.kind === 'references' ? 'References' : 'Implementations'
+
+  return (
+    <>
+      <button type="button" className={styles.backdrop} aria-label={`Close ${title.toLowerCase()}`} onClick={closeLspReferences} />
+      <FloatingPanel
+        ref={panelRef}
+        variant="drawer"
+        testId="lsp-references-panel"
+        shellClassName={styles.drawerShell}
+        cardClassName={styles.drawerCard}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.stopPropagation()
+            closeLspReferences()
+          }
+        }}
+      >
+        <div className={styles.header}>
+          <span className={styles.title}>{title}</span>
+          {references.symbol && <span className={styles.badge}>{references.symbol}</span>}
+          <span className={styles.count}>
+            {references.locations.length} in {groups.length === 1 ? '1 file' : `${groups.length} files`}
+          </span>
+          <div className={styles.headerSpacer} />
+          <button type="button" className={styles.closeBtn} onClick={closeLspReferences} aria-label="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className={styles.scrollArea}>
+          {groups.length === 0 ? (
+            <div className={styles.emptyState}>No {title.toLowerCase()} found.</div>
+          ) : (
+            groups.map((group) => (
+              <div key={group.filePath} className={styles.fileGroup}>
+                <div className={styles.fileHeader} title={group.filePath}>
+                  <span className={styles.filePath}>{displayPath(group.filePath, worktreePath)}</span>
+                  <span className={styles.count}>{group.locations.length}</span>
+                </div>
+                {group.locations.map((location) => {
+                  const { line, character } = location.range.start
+                  return (
+                    <button
+                      key={`${line}:${character}`}
+                      type="button"
+                      className={styles.locationRow}
+                      onClick={() => {
+                        openFileTab(group.filePath, { initialPosition: { lineNumber: line + 1, column: character + 1 } })
+                        closeLspReferences()
+                      }}
+                    >
+                      <span className={styles.lineNumber}>{line + 1}</span>
+                      <span className={styles.lineText}>{fileLines.get(group.filePath)?.[line]?.trim() ?? ''}</span>
+                    </button>
+                  )
+                })}
+              </div>
+            ))
+          )}
+        </div>
+      </FloatingPanel>
+    </>
+  )
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { applyRenameEdits, readCurrentText, undoRenameEdits } from '../../services/lsp-navigation'
+import { displayPath, previewLineEdits } from '../../services/lsp-workspace-edit'
+import { FloatingPanel } from '../FloatingPanel/FloatingPanel'
+import styles from './LspNavigation.module.css'
+
+type LinePreview = ReturnType<typeof previewLineEdits>
+
+export function LspRenamePreviewPanel({ worktreePath }: { worktreePath?: string }) {
+  const preview = useAppStore((s) => s.lspRenamePreview)
+  const closeLspRenamePreview = useAppStore((s) => s.closeLspRenamePreview)
+  const addToast = useAppStore((s) => s.addToast)
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set())
+  const [lines, setLines] = useState<Map<string, LinePreview>>(() => new Map())
+  const [applying, setApplying] = useState(false)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    panelRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    if (!preview) return
+    let cancelled = false
+    setExcluded(new Set())
+    setApplying(false)
+    void Promise.all(preview.files.map(async (file) => {
+      const text = await readCurrentText(file.filePath).catch(() => null)
+      return [file.filePath, text === null ? [] : previewLineEdits(text, file.edits)] as const
+    })).then((entries) => {
+      if (!cancelled) setLines(new Map(entries))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [preview])
+
+  if (!preview) return null
+  const selected = preview.files.filter((file) => !excluded.has(file.filePath))
+  const editCount = selected.reduce((sum, file) => sum + file.edits.length, 0)
+
+  const toggle = (filePath: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) next.delete(filePath)
+      else next.add(filePath)
+      return next
+    })
+  }
+
+  const apply = async () => {
+    setApplying(true)
+    try {
+      const applied = await applyRenameEdits(selected)
+      closeLspRenamePreview()
+      addToast({
+        id: `lsp-rename-${Date.now()}`,
+        message: `Renamed ${preview.oldName || 'symbol'} to ${preview.newName} in ${applied.files.length === 1 ? '1 file' : `${applied.files.length} files`}`,
+        type: 'info',
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            void undoRenameEdits(applied).then((skipped) => {
+              if (skipped.length === 0) return
+              addToast({
+                id: `lsp-rename-undo-${Date.now()}`,
+                message: `Left ${skipped.length === 1 ? '1 file' : `${skipped.length} files`} alone because they changed after the rename`,
+                type: 'warning',
+              })
+            })
+          },
+        },
+      })
+    } catch (err) {
+      setApplying(false)
+      addToast({
+        id: `lsp-rename-error-${Date.now()}`,
+        message: err instanceof Error ? `Rename failed: ${err.message}` : 'Rename failed',
+        type: 'error',
+      })
+    }
+  }
+
+  return (
+    <>
+      <button type="button" className={styles.backdrop} aria-label="Cancel rename" onClick={closeLspRenamePreview} />
+      <FloatingPanel
+        ref={panelRef}
+        variant="drawer"
+        testId="lsp-rename-preview"
+        shellClassName={styles.drawerShell}
+        cardClassName={styles.drawerCard}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Rename preview"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.stopPropagation()
+            closeLspRenamePreview()
+          }
+        }}
+      >
+        <div className={styles.header}>
+          <span className={styles.title}>Rename</span>
+          {preview.oldName && <span className={styles.badge}>{preview.oldName}</span>}
+          <span className={styles.count}>→</span>
+          <span className={styles.badge}>{preview.newName}</span>
+          <div className={styles.headerSpacer} />
+          <button type="button" className={styles.closeBtn} onClick={closeLspRenamePreview} aria-label="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className={styles.scrollArea}>
+          {preview.unsupported > 0 && (
+            <p className={styles.note}>
+              The language server also asked to create, rename or delete files; only text edits are applied.
+            </p>
+          )}
+          {preview.files.map((file) => (
+            <div key={file.filePath} className={styles.fileGroup}>
+              <label className={styles.fileHeader} title={file.filePath}>
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(file.filePath)}
+                  onChange={() => toggle(file.filePath)}
+                />
+                <span className={styles.filePath}>{displayPath(file.filePath, worktreePath)}</span>
+                <span className={styles.count}>{file.edits.length}</span>
+              </label>
+              {!excluded.has(file.filePath) && lines.get(file.filePath)?.map((line) => (
+                <div key={line.line} className={styles.editRow}>
+                  <span className={styles.lineNumber}>{line.line + 1}</span>
+                  <span className={styles.lineText}>
+                    <span className={styles.removed}>{line.before}</span>
+                    <span className={styles.added}>{line.after}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className={styles.footer}>
+          <span className={styles.count}>
+            {editCount} {editCount === 1 ? 'edit' : 'edits'} in {selected.length === 1 ? '1 file' : `${selected.length} files`}
+            {' · '}open files stay unsaved, others are written to disk
+          </span>
+          <div className={styles.headerSpacer} />
+          <button type="button" className={styles.secondaryBtn} onClick={closeLspRenamePreview}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={styles.primaryBtn}
+            disabled={applying || selected.length === 0}
+            onClick={() => void apply()}
+          >
+            {applying ? 'Applying…' : 'Apply'}
+          </button>
+        </div>
+      </FloatingPanel>
+    </>
+  )
+}
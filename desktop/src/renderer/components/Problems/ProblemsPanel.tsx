@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  countProblems,
+  formatProblemsForAgent,
+  groupProblemsByFile,
+  type ProblemSeverity,
+  type WorkspaceProblem,
+} from '@shared/workspace-problems'
+import { useAppStore } from '../../store/app-store'
+import { resolveAgentPtyForContextInjection } from '../../store/split-helpers'
+import { useWorkspaceProblems } from '../../services/editor-problems'
+import { displayPath } from '../../services/lsp-workspace-edit'
+import { wrapBracketedPaste } from '../../utils/bracketed-paste'
+import { FloatingPanel } from '../FloatingPanel/FloatingPanel'
+import styles from './ProblemsPanel.module.css'
+
+type SeverityFilter = 'errors' | 'warnings' | 'infos'
+
+function severityFilter(severity: ProblemSeverity): SeverityFilter {
+  return severity === 'error' ? 'errors' : severity === 'warning' ? 'warnings' : 'infos'
+}
+
+function severityTone(severity: ProblemSeverity): string {
+  if (severity === 'error') return styles.toneError
+  return severity === 'warning' ? styles.toneWarning : styles.toneInfo
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+export function ProblemsPanel({ workspaceId }: { workspaceId: string }) {
+  const workspace = useAppStore((s) => s.workspaces.find((w) => w.id === workspaceId))
+  const closeProblemsPanel = useAppStore((s) => s.closeProblemsPanel)
+  const openFileTab = useAppStore((s) => s.openFileTab)
+  const addToast = useAppStore((s) => s.addToast)
+  const worktreePath = workspace?.worktreePath
+  const problems = useWorkspaceProblems(worktreePath)
+  const [hidden, setHidden] = useState<Set<SeverityFilter>>(() => new Set())
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    panelRef.current?.focus()
+  }, [])
+
+  const counts = useMemo(() => countProblems(problems), [problems])
+  const groups = useMemo(
+    () => groupProblemsByFile(problems.filter((problem) => !hidden.has(severityFilter(problem.severity)))),
+    [problems, hidden],
+  )
+
+  const toggle = (filter: SeverityFilter) => {
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (next.has(filter)) next.delete(filter)
+      else next.add(filter)
+      return next
+    })
+  }
+
+  const openProblem = (problem: WorkspaceProblem) => {
+    openFileTab(problem.filePath, { initialPosition: { lineNumber: problem.line, column: problem.column } })
+    closeProblemsPanel()
+  }
+
+  const sendToAgent = useCallback(() => {
+    const s = useAppStore.getState()
+    const activeTab = s.tabs.find((t) => t.id === s.activeTabId)
+    const pty = resolveAgentPtyForContextInjection({
+      tabs: s.tabs,
+      activeTabId: activeTab?.workspaceId === workspaceId ? s.activeTabId : null,
+      activeWorkspaceId: workspaceId,
+    })
+    if (!pty) {
+      addToast({ id: `problems-no-pty-${Date.now()}`, message: 'No agent terminal found', type: 'error' })
+      return
+    }
+    const total = groups.reduce((sum, group) => sum + group.problems.length, 0)
+    window.api.pty.write(pty, wrapBracketedPaste(formatProblemsForAgent(groups, worktreePath)))
+    addToast({ id: `problems-sent-${Date.now()}`, message: `Sent ${plural(total, 'problem')} to agent`, type: 'info' })
+  }, [addToast, groups, workspaceId, worktreePath])
+
+  const filters: Array<{ filter: SeverityFilter; label: string; count: number; tone: string }> = [
+    { filter: 'errors', label: plural(counts.errors, 'error'), count: counts.errors, tone: styles.toneError },
+    { filter: 'warnings', label: plural(counts.warnings, 'warning'), count: counts.warnings, tone: styles.toneWarning },
+    { filter: 'infos', label: `${counts.infos} info`, count: counts.infos, tone: styles.toneInfo },
+  ]
+
+  return (
+    <>
+      <button type="button" className={styles.backdrop} aria-label="Close problems" onClick={closeProblemsPanel} />
+      <FloatingPanel
+        ref={panelRef}
+        variant="drawer"
+        testId="problems-panel"
+        shellClassName={styles.drawerShell}
+        cardClassName={styles.drawerCard}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Problems"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.stopPropagation()
+            closeProblemsPanel()
+          }
+        }}
+      >
+        <div className={styles.header}>
+          <span className={styles.title}>Problems</span>
+          {workspace && <span className={styles.badge}>{workspace.name}</span>}
+          {filters.map(({ filter, label, count, tone }) => (
+            <button
+              key={filter}
+              type="button"
+              className={`${styles.filterPill} ${count > 0 && !hidden.has(filter) ? tone : ''}`}
+              aria-pressed={!hidden.has(filter)}
+              onClick={() => toggle(filter)}
+            >
+              {label}
+            </button>
+          ))}
+          <div className={styles.headerSpacer} />
+          <button
+            type="button"
+            className={styles.primaryBtn}
+            disabled={groups.length === 0}
+            onClick={sendToAgent}
+          >
+            Add to chat
+          </button>
+          <button type="button" className={styles.closeBtn} onClick={closeProblemsPanel} aria-label="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className={styles.scrollArea}>
+          {problems.length === 0 ? (
+            <div className={styles.emptyState}>
+              No problems reported. Language servers start when a file of their language is opened.
+            </div>
+          ) : groups.length === 0 ? (
+            <div className={styles.emptyState}>All problems are filtered out.</div>
+          ) : (
+            groups.map((group) => (
+              <div key={group.filePath} className={styles.fileGroup}>
+                <div className={styles.fileHeader} title={group.filePath}>
+                  <span className={styles.filePath}>{displayPath(group.filePath, worktreePath)}</span>
+                  {group.counts.errors > 0 && <span className={`${styles.count} ${styles.toneError}`}>{group.counts.errors}</span>}
+                  {group.counts.warnings > 0 && <span className={`${styles.count} ${styles.toneWarning}`}>{group.counts.warnings}</span>}
+                  {group.counts.infos > 0 && <span className={`${styles.count} ${styles.toneInfo}`}>{group.counts.infos}</span>}
+                </div>
+                {group.problems.map((problem, index) => (
+                  <button
+                    key={`${problem.line}:${problem.column}:${index}`}
+                    type="button"
+                    className={styles.problemRow}
+                    onClick={() => openProblem(problem)}
+                  >
+                    <span className={`${styles.severityDot} ${severityTone(problem.severity)}`} aria-label={problem.severity} />
+                    <span className={styles.message}>{problem.message}</span>
+                    {(problem.source || problem.code) && (
+                      <span className={styles.origin}>{[problem.source, problem.code].filter(Boolean).join(' ')}</span>
+                    )}
+                    <span className={styles.position}>
+                      {problem.line}:{problem.column}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </FloatingPanel>
+    </>
+  )
+}
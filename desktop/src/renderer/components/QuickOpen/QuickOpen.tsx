@@ -1,8 +1,26 @@
 import { useEffect, useState, useCallback, useRef } from 'react'
+import {
+  Box,
+  Braces,
+  Component,
+  FileCode,
+  Hash,
+  Key,
+  ListOrdered,
+  Package,
+  Parentheses,
+  SquareFunction,
+  Type,
+  Variable,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react'
 import { useAppStore } from '../../store/app-store'
 import { isMarkdownDocumentPath } from '../../utils/markdown-path'
 import type { QuickOpenSearchItem, QuickOpenSearchResult } from '../../../shared/quick-open-types'
 import type { CodeSearchItem, CodeSearchResult } from '../../../shared/code-search-types'
+import type { TerminalTranscriptSearchHit } from '../../../shared/terminal-transcript'
+import type { SymbolKindName, WorkspaceSymbolItem } from '../../../shared/symbol-search-types'
 import { getPreferredScrollBehavior } from '../../utils/preferred-scroll-behavior'
 import styles from './QuickOpen.module.css'
 
@@ -14,8 +32,12 @@ const QUICK_OPEN_LIMIT = 50
 const FILE_SIDE_LIMIT = 25
 const CODE_SIDE_LIMIT = 25
 const SEARCH_DEBOUNCE_MS = 80
+/** Queries starting with this search recorded terminal output across every project instead of files. */
+const TERMINAL_QUERY_PREFIX = '$'
+/** Queries starting with this search workspace symbols (language servers, then the regex index). */
+const SYMBOL_QUERY_PREFIX = '#'
 
-/** Unified row rendered by the palette: either a file-name hit or a code-content hit. */
+/** Unified row rendered by the palette: a file-name, code-content, terminal or symbol hit. */
 type PaletteItem =
   | {
       kind: 'file'
@@ -37,9 +59,40 @@ type PaletteItem =
       matchRanges?: [number, number][]
       order: number
     }
+  | {
+      kind: 'terminal'
+      hit: TerminalTranscriptSearchHit
+      label: string
+    }
+  | {
+      kind: 'symbol'
+      symbol: WorkspaceSymbolItem
+    }
 
 type CodeSideState = 'idle' | 'ready' | 'indexing' | 'error'
 
+const SYMBOL_KIND_ICONS: Partial<Record<SymbolKindName, LucideIcon>> = {
+  file: FileCode,
+  module: Package,
+  namespace: Braces,
+  package: Package,
+  class: Component,
+  method: SquareFunction,
+  property: Key,
+  field: Key,
+  constructor: SquareFunction,
+  enum: ListOrdered,
+  interface: Type,
+  function: SquareFunction,
+  variable: Variable,
+  constant: Hash,
+  enumMember: ListOrdered,
+  struct: Box,
+  event: Zap,
+  operator: Parentheses,
+  typeParameter: Type,
+}
+
 function fuzzyMatch(query: string, target: string): number[] | null {
   const lowerQuery = query.trim().toLowerCase()
   if (!lowerQuery) return []
@@ -122,6 +175,8 @@ export function QuickOpen({ worktreePath }: Props) {
   const [query, setQuery] = useState(() => quickOpenInitialQuery ?? '')
   const [fileResults, setFileResults] = useState<QuickOpenSearchItem[]>([])
   const [codeResults, setCodeResults] = useState<CodeSearchItem[]>([])
+  const [terminalResults, setTerminalResults] = useState<TerminalTranscriptSearchHit[]>([])
+  const [symbolResults, setSymbolResults] = useState<WorkspaceSymbolItem[]>([])
   const [selectedIndex, setSelectedIndex] = useState(0)
   const [searchState, setSearchState] = useState<QuickOpenSearchResult['state']>('ready')
   const [codeState, setCodeState] = useState<CodeSideState>('idle')
@@ -133,9 +188,15 @@ export function QuickOpen({ worktreePath }: Props) {
   const openFileTab = useAppStore((s) => s.openFileTab)
   const openMarkdownPreview = useAppStore((s) => s.openMarkdownPreview)
   const closeQuickOpen = useAppStore((s) => s.closeQuickOpen)
+  const openSearchReplace = useAppStore((s) => s.openSearchReplace)
+  const activeWorkspaceId = useAppStore((s) => s.activeWorkspaceId)
   const activeTabId = useAppStore((s) => s.activeTabId)
   const tabs = useAppStore((s) => s.tabs)
   const codeSearchSetting = useAppStore((s) => s.settings.quickOpenCodeSearchEnabled)
+  const transcriptsEnabled = useAppStore((s) => s.settings.recordTerminalTranscripts)
+  const projects = useAppStore((s) => s.projects)
+  const workspaces = useAppStore((s) => s.workspaces)
+  const addToast = useAppStore((s) => s.addToast)
 
   const editorFindFilePath = editorFindContext?.filePath ?? null
   const inEditorFindMode = editorFindFilePath !== null
@@ -143,6 +204,13 @@ export function QuickOpen({ worktreePath }: Props) {
   // render them unconditionally; outside editor-find the settings toggle gates
   // both the code request and the surface area.
   const codeSearchEnabled = inEditorFindMode || codeSearchSetting
+  // Editor-find queries are literal text, so `$` and `#` only switch modes in the worktree-wide palette.
+  const terminalQuery = !inEditorFindMode && query.startsWith(TERMINAL_QUERY_PREFIX)
+    ? query.slice(TERMINAL_QUERY_PREFIX.length).trim()
+    : null
+  const symbolQuery = !inEditorFindMode && query.startsWith(SYMBOL_QUERY_PREFIX)
+    ? query.slice(SYMBOL_QUERY_PREFIX.length).trim()
+    : null
   const activeTab = tabs.find((tab) => tab.id === activeTabId)
   // fff reads from disk; flag unsaved edits so we can warn + de-rank code rows.
   const editorFileTab = inEditorFindMode
@@ -178,7 +246,60 @@ export function QuickOpen({ worktreePath }: Props) {
     const trimmed = issuedQuery.trim()
     const runCodeSearch = codeSearchEnabled && trimmed.length > 0
 
+    const runTerminalSearch = (text: string) => {
+      const repoPaths = projects.map((project) => project.repoPath)
+      const searchPromise = text
+        ? window.api.transcripts.search(repoPaths, text, QUICK_OPEN_LIMIT)
+        : Promise.resolve([])
+      void searchPromise.then(
+        (hits) => {
+          if (cancelled || requestId !== requestIdRef.current) return
+          resolvedQueryRef.current = issuedQuery
+          setTerminalResults(hits)
+          setSearchState('ready')
+          setHasLoaded(true)
+        },
+        () => {
+          if (cancelled || requestId !== requestIdRef.current) return
+          resolvedQueryRef.current = issuedQuery
+          setTerminalResults([])
+          setSearchState('error')
+          setHasLoaded(true)
+        },
+      )
+    }
+
+    const runSymbolSearch = (text: string) => {
+      const searchPromise = text
+        ? window.api.fs.symbolSearch(worktreePath, { query: text, limit: QUICK_OPEN_LIMIT })
+        : Promise.resolve({ state: 'ready' as const, items: [] })
+      void searchPromise.then(
+        (result) => {
+          if (cancelled || requestId !== requestIdRef.current) return
+          resolvedQueryRef.current = issuedQuery
+          setSymbolResults(result.items)
+          setSearchState(result.state)
+          setHasLoaded(true)
+        },
+        () => {
+          if (cancelled || requestId !== requestIdRef.current) return
+          resolvedQueryRef.current = issuedQuery
+          setSymbolResults([])
+          setSearchState('error')
+          setHasLoaded(true)
+        },
+      )
+    }
+
     const runSearch = () => {
+      if (terminalQuery !== null) {
+        runTerminalSearch(terminalQuery)
+        return
+      }
+      if (symbolQuery !== null) {
+        runSymbolSearch(symbolQuery)
+        return
+      }
       const filePromise: Promise<QuickOpenSearchResult> = window.api.fs.quickOpenSearch(worktreePath, {
         query: issuedQuery,
         limit: runCodeSearch ? FILE_SIDE_LIMIT : QUICK_OPEN_LIMIT,
@@ -229,7 +350,7 @@ export function QuickOpen({ worktreePath }: Props) {
       cancelled = true
       window.clearTimeout(timeout)
     }
-  }, [query, worktreePath, currentFile, codeSearchEnabled, editorFindFilePath])
+  }, [query, worktreePath, currentFile, codeSearchEnabled, editorFindFilePath, terminalQuery, symbolQuery, projects])
 
   useEffect(() => {
     setSelectedIndex(0)
@@ -239,7 +360,11 @@ export function QuickOpen({ worktreePath }: Props) {
   // the file and wants in-file hits; flip to files-first when the buffer is
   // dirty so disk-stale code rows don't sit above fresh file hits.
   const codeFirst = inEditorFindMode && !editorFileDirty
-  const combinedResults = buildCombinedResults(fileResults, codeResults, { codeFirst })
+  const combinedResults = terminalQuery !== null
+    ? buildTerminalResults(terminalResults, workspaces)
+    : symbolQuery !== null
+      ? symbolResults.map((symbol) => ({ kind: 'symbol' as const, symbol }))
+      : buildCombinedResults(fileResults, codeResults, { codeFirst })
 
   useEffect(() => {
     if (combinedResults.length === 0) {
@@ -256,11 +381,39 @@ export function QuickOpen({ worktreePath }: Props) {
     if (item) item.scrollIntoView({ block: 'nearest', behavior: getPreferredScrollBehavior() })
   }, [selectedIndex])
 
-  const openSelected = useCallback(() => {
-    if (resolvedQueryRef.current !== query) return
-    const item = combinedResults[selectedIndex]
-    if (!item) return
-    if (item.kind === 'code') {
+  const openTerminalHit = useCallback(async (hit: TerminalTranscriptSearchHit) => {
+    try {
+      const location = await window.api.transcripts.open(hit.repoPath, hit.sessionId, hit.chunkId, terminalQuery ?? '')
+      openFileTab(location.path, { initialPosition: { lineNumber: location.lineNumber, column: 1 } })
+    } catch (err) {
+      addToast({
+        id: crypto.randomUUID(),
+        type: 'error',
+        message: `Could not open transcript: ${err instanceof Error ? err.message : String(err)}`,
+      })
+    }
+  }, [addToast, openFileTab, terminalQuery])
+
+  // Exports from the store by session id, so sessions whose terminal has closed can be saved too.
+  const exportTerminalHit = useCallback(async (hit: TerminalTranscriptSearchHit) => {
+    try {
+      const filePath = await window.api.transcripts.export({ repoPath: hit.repoPath, sessionId: hit.sessionId }, 'text')
+      if (filePath) addToast({ id: crypto.randomUUID(), type: 'info', message: `Exported transcript to ${filePath}` })
+    } catch (err) {
+      addToast({
+        id: crypto.randomUUID(),
+        type: 'error',
+        message: `Export failed: ${err instanceof Error ? err.message : String(err)}`,
+      })
+    }
+  }, [addToast])
+
+  const openItem = useCallback((item: PaletteItem) => {
+    if (item.kind === 'terminal') {
+      void openTerminalHit(item.hit)
+    } else if (item.kind === 'symbol') {
+      openPath(item.symbol.path, { initialPosition: { lineNumber: item.symbol.lineNumber, column: item.symbol.column } })
+    } else if (item.kind === 'code') {
       // In editor-find mode all code rows point at the pinned file; this is a
       // no-op for that case but keeps intent explicit if fff ever returns rows
       // from elsewhere (e.g. symlinked paths).
@@ -270,7 +423,13 @@ export function QuickOpen({ worktreePath }: Props) {
       openPath(item.path)
     }
     closeQuickOpen()
-  }, [closeQuickOpen, openPath, query, combinedResults, selectedIndex, editorFindFilePath])
+  }, [closeQuickOpen, openPath, openTerminalHit, editorFindFilePath])
+
+  const openSelected = useCallback(() => {
+    if (resolvedQueryRef.current !== query) return
+    const item = combinedResults[selectedIndex]
+    if (item) openItem(item)
+  }, [openItem, query, combinedResults, selectedIndex])
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -278,6 +437,19 @@ export function QuickOpen({ worktreePath }: Props) {
       closeQuickOpen()
       return
     }
+    if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.code === 'KeyH' && activeWorkspaceId) {
+      e.preventDefault()
+      const seed = terminalQuery !== null || symbolQuery !== null ? '' : query
+      closeQuickOpen()
+      openSearchReplace(activeWorkspaceId, seed)
+      return
+    }
+    const selectedItem = combinedResults[selectedIndex]
+    if ((e.metaKey || e.ctrlKey) && e.code === 'KeyE' && selectedItem?.kind === 'terminal') {
+      e.preventDefault()
+      void exportTerminalHit(selectedItem.hit)
+      return
+    }
     if (e.key === 'ArrowDown') {
       e.preventDefault()
       setSelectedIndex((index) => Math.min(index + 1, combinedResults.length - 1))
@@ -292,10 +464,26 @@ export function QuickOpen({ worktreePath }: Props) {
       e.preventDefault()
       openSelected()
     }
-  }, [closeQuickOpen, openSelected, combinedResults.length])
+  }, [closeQuickOpen, openSelected, exportTerminalHit, combinedResults, selectedIndex, activeWorkspaceId, openSearchReplace, query, terminalQuery, symbolQuery])
 
   const emptyMessage = !hasLoaded
     ? null
+    : terminalQuery !== null
+      ? searchState === 'error'
+        ? 'Terminal history search unavailable'
+        : !terminalQuery
+          ? transcriptsEnabled
+            ? 'Search recorded terminal output…'
+            : 'Turn on “Record terminal transcripts” in Settings to search terminal output'
+          : 'No matching terminal output'
+    : symbolQuery !== null
+      ? searchState === 'error'
+        ? 'Symbol search unavailable'
+        : !symbolQuery
+          ? 'Type a symbol name…'
+          : searchState === 'indexing'
+            ? 'Indexing symbols…'
+            : 'No matching symbols'
     : searchState === 'indexing'
       ? 'Indexing files...'
       : searchState === 'error'
@@ -316,7 +504,14 @@ export function QuickOpen({ worktreePath }: Props) {
   const dirtyFindHint = inEditorFindMode && editorFileDirty
     ? 'Unsaved edits in this file aren’t searched'
     : null
-  const footerMessage = dirtyFindHint ?? codeFooter
+  const symbolFooter = symbolQuery && hasLoaded && searchState === 'indexing' && symbolResults.length > 0
+    ? 'Indexing symbols…'
+    : null
+  const footerMessage = terminalQuery !== null
+    ? terminalResults.length > 0 ? '⌘E exports the selected session as text' : null
+    : symbolQuery !== null
+      ? symbolFooter
+      : dirtyFindHint ?? codeFooter
 
   const inputPlaceholder = inEditorFindMode
     ? 'Find in this file or open another...'
@@ -358,20 +553,63 @@ export function QuickOpen({ worktreePath }: Props) {
             </div>
           ) : (
             combinedResults.map((item, index) => {
-              const key = item.kind === 'code'
-                ? `code:${item.path}:${item.lineNumber}:${item.column}`
-                : `file:${item.path}`
               const selected = index === selectedIndex
               const onClick = () => {
                 if (resolvedQueryRef.current !== query) return
-                if (item.kind === 'code') {
-                  const targetPath = editorFindFilePath ?? item.path
-                  openPath(targetPath, { initialPosition: { lineNumber: item.lineNumber, column: item.column } })
-                } else {
-                  openPath(item.path)
-                }
-                closeQuickOpen()
+                openItem(item)
               }
+              if (item.kind === 'terminal') {
+                return (
+                  <div
+                    key={`terminal:${item.hit.sessionId}:${item.hit.chunkId}`}
+                    className={`${styles.resultItem} ${selected ? styles.selected : ''} ${styles.resultItemCode}`}
+                    onClick={onClick}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                  >
+                    <span className={styles.resultIcon}>·</span>
+                    <span className={`${styles.resultKind} ${styles.resultKindCode}`}>term</span>
+                    <div className={styles.resultMeta}>
+                      <span className={styles.resultHeadline}>
+                        <span className={styles.resultPath}>
+                          <span className={styles.resultName}>{item.label}</span>
+                        </span>
+                        <span className={styles.resultLine}>{new Date(item.hit.at).toLocaleString()}</span>
+                      </span>
+                      <HighlightedPreview preview={item.hit.preview} matchRanges={item.hit.matchRanges} />
+                    </div>
+                  </div>
+                )
+              }
+              if (item.kind === 'symbol') {
+                const { symbol } = item
+                const KindIcon = SYMBOL_KIND_ICONS[symbol.kind] ?? Variable
+                return (
+                  <div
+                    key={`symbol:${symbol.path}:${symbol.lineNumber}:${symbol.column}:${symbol.name}`}
+                    className={`${styles.resultItem} ${selected ? styles.selected : ''} ${styles.resultItemSymbol}`}
+                    onClick={onClick}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                  >
+                    <span className={styles.symbolIcon} title={symbol.kind}>
+                      <KindIcon size={13} strokeWidth={1.75} />
+                    </span>
+                    <div className={styles.resultMeta}>
+                      <span className={styles.resultHeadline}>
+                        <HighlightedPath text={symbol.name} query={symbolQuery ?? ''} />
+                        {symbol.containerName && (
+                          <span className={styles.symbolContainer}>{symbol.containerName}</span>
+                        )}
+                        <span className={styles.resultLine}>
+                          {symbol.relativePath}:{symbol.lineNumber}
+                        </span>
+                      </span>
+                    </div>
+                  </div>
+                )
+              }
+              const key = item.kind === 'code'
+                ? `code:${item.path}:${item.lineNumber}:${item.column}`
+                : `file:${item.path}`
               return (
                 <div
                   key={key}
@@ -411,6 +649,22 @@ export function QuickOpen({ worktreePath }: Props) {
   )
 }
 
+/** Terminal history rows, labelled with the workspace (or directory) the output came from. */
+function buildTerminalResults(
+  hits: TerminalTranscriptSearchHit[],
+  workspaces: Array<{ id: string; name: string }>,
+): PaletteItem[] {
+  return hits.slice(0, QUICK_OPEN_LIMIT).map((hit) => {
+    const workspace = hit.workspaceId ? workspaces.find((w) => w.id === hit.workspaceId) : undefined
+    const base = workspace?.name ?? hit.workingDir.split('/').filter(Boolean).pop() ?? hit.workingDir
+    return {
+      kind: 'terminal' as const,
+      hit,
+      label: hit.agentType && hit.agentType !== 'unknown' ? `${base} · ${hit.agentType}` : base,
+    }
+  })
+}
+
 /**
  * Merge file-name and code-content hits into a single list.
  *
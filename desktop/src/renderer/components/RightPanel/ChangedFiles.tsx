@@ -1,8 +1,9 @@
-import { useEffect, useState, useCallback, useRef } from 'react'
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
 import { Columns2 } from 'lucide-react'
 import { useAppStore } from '../../store/app-store'
 import { STATUS_LABELS } from '../../../shared/status-labels'
 import { useFileWatcher } from '../../hooks/useFileWatcher'
+import { useWorkspaceProblems } from '../../services/editor-problems'
 import { Tooltip } from '../Tooltip/Tooltip'
 import { PiIcon } from '../Icons/PiIcon'
 import styles from './RightPanel.module.css'
@@ -57,6 +58,19 @@ export function ChangedFiles({ worktreePath, workspaceId, isActive }: Props) {
   const setGhAvailability = useAppStore((s) => s.setGhAvailability)
   const updateWorkspaceBranch = useAppStore((s) => s.updateWorkspaceBranch)
   const setProjectDefaultBranch = useAppStore((s) => s.setProjectDefaultBranch)
+  const openProblemsPanel = useAppStore((s) => s.openProblemsPanel)
+  const problems = useWorkspaceProblems(worktreePath)
+  /** Error counts keyed by worktree-relative path, like `FileStatus.path`. */
+  const errorCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const problem of problems) {
+      if (problem.severity !== 'error' || !problem.filePath.startsWith(`${worktreePath}/`)) continue
+      const relativePath = problem.filePath.slice(worktreePath.length + 1)
+      counts.set(relativePath, (counts.get(relativePath) ?? 0) + 1)
+    }
+    return counts
+  }, [problems, worktreePath])
+  const openProblems = useCallback(() => openProblemsPanel(workspaceId), [openProblemsPanel, workspaceId])
 
   const workspace = workspaces.find((ws) => ws.id === workspaceId)
   const project = workspace ? projects.find((p) => p.id === workspace.projectId) : undefined
@@ -629,6 +643,8 @@ export function ChangedFiles({ worktreePath, workspaceId, isActive }: Props) {
               actionTitle="Unstage"
               onOpenDiff={openDiff}
               onOpenFullDiff={openFullDiff}
+              errorCount={errorCounts.get(file.path) ?? 0}
+              onOpenProblems={openProblems}
             />
           ))}
         </div>
@@ -681,6 +697,8 @@ export function ChangedFiles({ worktreePath, workspaceId, isActive }: Props) {
               onDiscard={() => discardFiles(file)}
               onOpenDiff={openDiff}
               onOpenFullDiff={openFullDiff}
+              errorCount={errorCounts.get(file.path) ?? 0}
+              onOpenProblems={openProblems}
             />
           ))}
         </div>
@@ -705,6 +723,8 @@ function FileRow({
   onDiscard,
   onOpenDiff,
   onOpenFullDiff,
+  errorCount,
+  onOpenProblems,
 }: {
   file: FileStatus
   busy: boolean
@@ -714,6 +734,8 @@ function FileRow({
   onDiscard?: () => void
   onOpenDiff: (path: string) => void
   onOpenFullDiff: (file: FileStatus) => void
+  errorCount: number
+  onOpenProblems: () => void
 }) {
   const parts = file.path.split('/')
   const fileName = parts.pop()
@@ -725,12 +747,23 @@ function FileRow({
         {STATUS_LABELS[file.status]}
       </span>
       <span
-        className={styles.changePath}
+        className={`${styles.changePath} ${errorCount > 0 ? styles.changePathError : ''}`}
         onClick={() => onOpenDiff(file.path)}
       >
         {dir && <span className={styles.changeDir}>{dir}</span>}
         {fileName}
       </span>
+      {errorCount > 0 && (
+        <Tooltip label={`${errorCount} error${errorCount === 1 ? '' : 's'} — open Problems`}>
+          <button
+            className={styles.changeProblems}
+            onClick={(e) => { e.stopPropagation(); onOpenProblems() }}
+            aria-label={`${errorCount} error${errorCount === 1 ? '' : 's'}, open Problems`}
+          >
+            {errorCount}
+          </button>
+        </Tooltip>
+      )}
       <span className={styles.fileActions}>
         <Tooltip label="Open side-by-side diff">
           <button
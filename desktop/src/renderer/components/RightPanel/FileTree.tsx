@@ -7,7 +7,9 @@ import { isMarkdownDocumentPath } from '../../utils/markdown-path'
 import { SHARED_FILE_TREE_ICONS } from '../../utils/file-presentation'
 import { buildFileTreeSnapshot, readExpandedDirectoryPaths, type FileNode, type FileTreeSnapshot } from './file-tree-adapter'
 import { fileTreeActions } from './file-tree-actions'
-import { ensureLetterBadgeSheet, findTreeShadowRoot } from './file-tree-shadow-css'
+import { useWorkspaceProblems } from '../../services/editor-problems'
+import { filesWithErrors } from '@shared/workspace-problems'
+import { ensureLetterBadgeSheet, findTreeShadowRoot, setProblemHighlightSheet } from './file-tree-shadow-css'
 import styles from './RightPanel.module.css'
 
 interface Props {
@@ -195,6 +197,13 @@ export function FileTree({ worktreePath, isActive }: Props) {
   const [namePrompt, setNamePrompt] = useState<null | { kind: 'file' | 'folder' }>(null)
   /** Matches absolute paths on FileNode rows from main (realpath); may differ from `worktreePath` when symlinks/casing differ. */
   const [treeRoot, setTreeRoot] = useState(worktreePath)
+  const problems = useWorkspaceProblems(worktreePath)
+  const errorPaths = useMemo(
+    () => [...filesWithErrors(problems)].flatMap((filePath) => toRelativePath(worktreePath, filePath) ?? []),
+    [problems, worktreePath],
+  )
+  const errorPathsRef = useRef(errorPaths)
+  errorPathsRef.current = errorPaths
 
   const { model } = useFileTree({
     dragAndDrop: {
@@ -354,6 +363,7 @@ export function FileTree({ worktreePath, isActive }: Props) {
       const root = findTreeShadowRoot(container)
       if (!root) return false
       ensureLetterBadgeSheet(root)
+      setProblemHighlightSheet(root, errorPathsRef.current)
       return true
     }
 
@@ -366,6 +376,11 @@ export function FileTree({ worktreePath, isActive }: Props) {
     return () => observer.disconnect()
   }, [isLoaded])
 
+  useEffect(() => {
+    if (!isLoaded) return
+    setProblemHighlightSheet(findTreeShadowRoot(treeContainerRef.current), errorPaths)
+  }, [errorPaths, isLoaded])
+
   // Wire header toolbar actions (collapse-all / new file / new folder / search)
   // without coupling SidePanelHost to pierre or the store.
   // Do not use window.prompt — Electron's renderer does not show native prompts; it returns null.
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'bun:test'
 import { readFileSync } from 'node:fs'
 import { fileURLToPath } from 'node:url'
+import { buildProblemHighlightCss } from './file-tree-shadow-css'
 
 /**
  * Smoke test for the shadow-DOM letter badge stylesheet. We can't easily
@@ -64,3 +65,21 @@ describe('file-tree-shadow-css letter badges', () => {
     )
   })
 })
+
+describe('buildProblemHighlightCss', () => {
+  it('colors files with errors and their ancestor directories, underlining only the files', () => {
+    const css = buildProblemHighlightCss(['src/app/main.ts', 'README.md'])
+    const [colorRule, underlineRule] = css.split('}\n').filter(Boolean)
+    for (const path of ['src/app/main.ts', 'README.md', 'src/', 'src/app/']) {
+      expect(colorRule).toContain(`[data-item-path="${path}"]`)
+    }
+    expect(colorRule).toContain('var(--trees-git-deleted-color')
+    expect(underlineRule).toContain('[data-item-path="src/app/main.ts"]')
+    expect(underlineRule).not.toContain('[data-item-path="src/"]')
+  })
+
+  it('escapes quotes in paths and is empty without errors', () => {
+    expect(buildProblemHighlightCss(['a"b.ts'])).toContain('[data-item-path="a\\"b.ts"]')
+    expect(buildProblemHighlightCss([])).toBe('')
+  })
+})
@@ -1,6 +1,7 @@
 /**
  * Stylesheet injected into pierre/trees' shadow root to render M/A/D/R/U
- * letter badges in place of pierre's default colored dot on changed rows.
+ * letter badges in place of pierre's default colored dot on changed rows,
+ * plus a per-tree sheet that marks files with diagnostics errors.
  *
  * All colors resolve through pierre's own `--trees-item-git-status-color`
  * cascade (which we re-point at our theme preset's `--accent-*` tokens
@@ -100,6 +101,52 @@ export function ensureLetterBadgeSheet(root: ShadowRoot | null | undefined): voi
   root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet]
 }
 
+function quoteAttributeValue(value: string): string {
+  return `"${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`
+}
+
+/**
+ * Rules coloring the rows of files with errors, and of every directory above
+ * them, so collapsed folders still point at the problem. Paths are
+ * worktree-relative, matching pierre's `data-item-path` (directories end in `/`).
+ */
+export function buildProblemHighlightCss(relativePaths: Iterable<string>): string {
+  const files = new Set(relativePaths)
+  if (files.size === 0) return ''
+  const directories = new Set<string>()
+  for (const filePath of files) {
+    const segments = filePath.split('/')
+    for (let index = 1; index < segments.length; index++) {
+      directories.add(`${segments.slice(0, index).join('/')}/`)
+    }
+  }
+  const selector = (path: string) => `[data-item-path=${quoteAttributeValue(path)}] [data-item-section='content']`
+  const rows = [...files, ...directories].map(selector).join(',\n')
+  return `${rows} {\n  color: var(--trees-git-deleted-color, currentColor);\n}\n`
+    + `${Array.from(files, selector).join(',\n')} {\n  text-decoration: underline wavy;\n  text-decoration-thickness: 1px;\n}\n`
+}
+
+const problemSheets = new WeakMap<ShadowRoot, CSSStyleSheet>()
+
+/**
+ * Replace the problem-highlight stylesheet of the given shadow root (adopting
+ * it on first use). An empty list clears the highlights.
+ */
+export function setProblemHighlightSheet(root: ShadowRoot | null | undefined, relativePaths: Iterable<string>): void {
+  if (!root || typeof CSSStyleSheet === 'undefined') return
+  let sheet = problemSheets.get(root)
+  try {
+    if (!sheet) {
+      sheet = new CSSStyleSheet()
+      problemSheets.set(root, sheet)
+    }
+    sheet.replaceSync(buildProblemHighlightCss(relativePaths))
+  } catch {
+    return
+  }
+  if (!root.adoptedStyleSheets.includes(sheet)) root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet]
+}
+
 /**
  * Find the shadow root of pierre/trees' host element by walking up from any
  * descendant node inside it, or by probing the tree container for a shadow
@@ -0,0 +1,375 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type {
+  CodeReplaceFile,
+  CodeReplacePreview,
+  CodeSearchMode,
+  CodeSearchScope,
+} from '@shared/code-search-types'
+import { previewReplaceLines, type ReplacePreviewSegment } from '@shared/code-replace'
+import { useAppStore } from '../../store/app-store'
+import { applyCodeReplacements, collectUnsavedBuffers } from '../../services/code-replace'
+import { FloatingPanel } from '../FloatingPanel/FloatingPanel'
+import styles from './SearchReplacePanel.module.css'
+
+const PREVIEW_DEBOUNCE_MS = 250
+const EMPTY_PREVIEW: CodeReplacePreview = { state: 'ready', files: [], totalMatches: 0, truncated: false }
+
+const SCOPES: Array<{ kind: CodeSearchScope['kind']; label: string }> = [
+  { kind: 'workspace', label: 'Workspace' },
+  { kind: 'activeFile', label: 'Active file' },
+  { kind: 'changeSet', label: 'Changed files' },
+]
+
+function matchKey(file: CodeReplaceFile, index: number): string {
+  return `${file.path}:${index}`
+}
+
+function plural(count: number, noun: string, pluralNoun = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : pluralNoun}`
+}
+
+function segmentClass(kind: ReplacePreviewSegment['kind']): string | undefined {
+  return kind === 'removed' ? styles.removed : kind === 'added' ? styles.added : undefined
+}
+
+/** Preview segments; with `inline`, each removed match is followed by its replacement. */
+function Segments({ segments, inline }: { segments: ReplacePreviewSegment[]; inline?: ReplacePreviewSegment[] }) {
+  const addition = inline?.find((segment) => segment.kind === 'added')
+  return (
+    <>
+      {segments.flatMap((segment, index) => [
+        <span key={index} className={segmentClass(segment.kind)}>{segment.text}</span>,
+        ...(addition && segment.kind === 'removed'
+          ? [<span key={`${index}+`} className={styles.added}>{addition.text}</span>]
+          : []),
+      ])}
+    </>
+  )
+}
+
+export function SearchReplacePanel({ workspaceId, initialQuery }: { workspaceId: string; initialQuery: string }) {
+  const workspace = useAppStore((s) => s.workspaces.find((w) => w.id === workspaceId))
+  const closeSearchReplace = useAppStore((s) => s.closeSearchReplace)
+  const addToast = useAppStore((s) => s.addToast)
+  const activeFilePath = useAppStore((s) => {
+    const tab = s.tabs.find((t) => t.id === s.activeTabId)
+    return tab?.type === 'file' && tab.workspaceId === workspaceId ? tab.filePath : null
+  })
+  const worktreePath = workspace?.worktreePath
+  const [query, setQuery] = useState(initialQuery)
+  const [replacement, setReplacement] = useState('')
+  const [mode, setMode] = useState<CodeSearchMode>('plain')
+  const [scopeKind, setScopeKind] = useState<CodeSearchScope['kind']>('workspace')
+  const [preview, setPreview] = useState<CodeReplacePreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set())
+  const [diffFiles, setDiffFiles] = useState<Set<string>>(() => new Set())
+  const [applying, setApplying] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const buffersRef = useRef<Map<string, string>>(new Map())
+  const requestIdRef = useRef(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [])
+
+  useEffect(() => {
+    if (!worktreePath) return
+    const requestId = ++requestIdRef.current
+    if (!query.trim()) {
+      setPreview(null)
+      setLoading(false)
+      return
+    }
+    setLoading(true)
+    const timeout = window.setTimeout(() => {
+      void (async () => {
+        let scope: CodeSearchScope = { kind: 'workspace' }
+        if (scopeKind === 'activeFile') {
+          if (!activeFilePath) return EMPTY_PREVIEW
+          scope = { kind: 'activeFile', filePath: activeFilePath }
+        } else if (scopeKind === 'changeSet') {
+          const statuses = await window.api.git.getStatus(worktreePath) as Array<{ path: string; status: string }>
+          scope = {
+            kind: 'changeSet',
+            filePaths: statuses.filter((file) => file.status !== 'deleted').map((file) => `${worktreePath}/${file.path}`),
+          }
+        }
+        const buffers = await collectUnsavedBuffers(worktreePath)
+        const result = await window.api.fs.replacePreview(worktreePath, {
+          query,
+          replacement,
+          mode,
+          scope,
+          openBuffers: Array.from(buffers, ([path, content]) => ({ path, content })),
+        })
+        if (requestId === requestIdRef.current) buffersRef.current = buffers
+        return result
+      })().then(
+        (result) => {
+          if (requestId !== requestIdRef.current) return
+          setPreview(result)
+          setLoading(false)
+        },
+        (err: unknown) => {
+          if (requestId !== requestIdRef.current) return
+          setPreview({ ...EMPTY_PREVIEW, state: 'error', error: err instanceof Error ? err.message : String(err) })
+          setLoading(false)
+        },
+      )
+    }, PREVIEW_DEBOUNCE_MS)
+    return () => window.clearTimeout(timeout)
+  }, [worktreePath, query, replacement, mode, scopeKind, activeFilePath, refreshKey])
+
+  // A new search starts with every match included
+  useEffect(() => {
+    setExcluded(new Set())
+  }, [query, mode, scopeKind])
+
+  const files = preview?.files ?? []
+  const selected = useMemo(() => files
+    .map((file) => ({
+      file,
+      edits: file.matches
+        .filter((_, index) => !excluded.has(matchKey(file, index)))
+        .map(({ start, end, replacement: text }) => ({ start, end, replacement: text })),
+    }))
+    .filter(({ edits }) => edits.length > 0), [files, excluded])
+  const selectedCount = selected.reduce((sum, { edits }) => sum + edits.length, 0)
+
+  const toggleMatch = (file: CodeReplaceFile, index: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev)
+      const key = matchKey(file, index)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const toggleFile = (file: CodeReplaceFile, include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev)
+      file.matches.forEach((_, index) => {
+        if (include) next.delete(matchKey(file, index))
+        else next.add(matchKey(file, index))
+      })
+      return next
+    })
+  }
+
+  const toggleDiff = (filePath: string) => {
+    setDiffFiles((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) next.delete(filePath)
+      else next.add(filePath)
+      return next
+    })
+  }
+
+  const apply = async () => {
+    if (!worktreePath || selected.length === 0) return
+    setApplying(true)
+    try {
+      const applied = await applyCodeReplacements(worktreePath, selected, buffersRef.current)
+      closeSearchReplace()
+      const fileCount = applied.written.length + applied.buffered.length
+      addToast({
+        id: `replace-${Date.now()}`,
+        message: `Replaced ${plural(selectedCount, 'match', 'matches')} in ${plural(fileCount, 'file')}`
+          + (applied.buffered.length > 0 ? ` (${applied.buffered.length} left unsaved in open tabs)` : ''),
+        type: 'info',
+      })
+    } catch (err) {
+      setApplying(false)
+      setRefreshKey((key) => key + 1)
+      addToast({
+        id: `replace-error-${Date.now()}`,
+        message: err instanceof Error ? `Replace failed: ${err.message}` : 'Replace failed',
+        type: 'error',
+      })
+    }
+  }
+
+  const emptyMessage = !query.trim()
+    ? 'Type text to find. In regex mode, use $1 or $<name> in the replacement.'
+    : loading && !preview
+      ? 'Searching…'
+      : preview?.state === 'error'
+        ? preview.error ?? 'Search failed'
+        : scopeKind === 'activeFile' && !activeFilePath
+          ? 'Open a file in this workspace to search it.'
+          : 'No matches.'
+
+  return (
+    <>
+      <button type="button" className={styles.backdrop} aria-label="Close replace" onClick={closeSearchReplace} />
+      <FloatingPanel
+        variant="drawer"
+        testId="search-replace-panel"
+        shellClassName={styles.drawerShell}
+        cardClassName={styles.drawerCard}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Replace in files"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.stopPropagation()
+            closeSearchReplace()
+          }
+        }}
+      >
+        <div className={styles.header}>
+          <span className={styles.title}>Replace in files</span>
+          {workspace && <span className={styles.badge}>{workspace.name}</span>}
+          <div className={styles.headerSpacer} />
+          <button type="button" className={styles.closeBtn} onClick={closeSearchReplace} aria-label="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className={styles.form}>
+          <div className={styles.inputRow}>
+            <input
+              ref={inputRef}
+              className={styles.input}
+              placeholder="Find"
+              value={query}
+              spellCheck={false}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <button
+              type="button"
+              className={styles.modeToggle}
+              aria-pressed={mode === 'regex'}
+              title="Use regular expression"
+              onClick={() => setMode((prev) => (prev === 'regex' ? 'plain' : 'regex'))}
+            >
+              .*
+            </button>
+          </div>
+          <input
+            className={styles.input}
+            placeholder="Replace"
+            value={replacement}
+            spellCheck={false}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault()
+                void apply()
+              }
+            }}
+          />
+          <div className={styles.scopeRow}>
+            {SCOPES.map(({ kind, label }) => (
+              <button
+                key={kind}
+                type="button"
+                className={styles.scopePill}
+                aria-pressed={scopeKind === kind}
+                onClick={() => setScopeKind(kind)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={styles.scrollArea}>
+          {files.length === 0 ? (
+            <div className={styles.emptyState}>{emptyMessage}</div>
+          ) : (
+            files.map((file) => {
+              const includedCount = file.matches.filter((_, index) => !excluded.has(matchKey(file, index))).length
+              const showDiff = diffFiles.has(file.path)
+              return (
+                <div key={file.path} className={styles.fileGroup}>
+                  <div className={styles.fileHeader} title={file.path}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Replace in ${file.relativePath}`}
+                      checked={includedCount === file.matches.length}
+                      ref={(el) => {
+                        if (el) el.indeterminate = includedCount > 0 && includedCount < file.matches.length
+                      }}
+                      onChange={() => toggleFile(file, includedCount < file.matches.length)}
+                    />
+                    <span className={styles.filePath}>{file.relativePath}</span>
+                    {file.fromBuffer && <span className={styles.unsavedBadge}>unsaved</span>}
+                    <span className={styles.count}>
+                      {includedCount}/{file.matches.length}
+                    </span>
+                    <button
+                      type="button"
+                      className={styles.diffToggle}
+                      aria-pressed={showDiff}
+                      onClick={() => toggleDiff(file.path)}
+                    >
+                      Diff
+                    </button>
+                  </div>
+                  {showDiff
+                    ? previewReplaceLines(file.lineTexts, file.matches, (index) => !excluded.has(matchKey(file, index)))
+                        .filter((line) => line.before.some((segment) => segment.kind === 'removed'))
+                        .map((line) => (
+                          <div key={line.lineNumber} className={styles.diffLine}>
+                            <div className={`${styles.diffRow} ${styles.diffRemoved}`}>
+                              <span className={styles.lineNumber}>{line.lineNumber}</span>
+                              <span className={styles.diffSign}>-</span>
+                              <span className={styles.lineText}><Segments segments={line.before} /></span>
+                            </div>
+                            <div className={`${styles.diffRow} ${styles.diffAdded}`}>
+                              <span className={styles.lineNumber}>{line.lineNumber}</span>
+                              <span className={styles.diffSign}>+</span>
+                              <span className={styles.lineText}><Segments segments={line.after} /></span>
+                            </div>
+                          </div>
+                        ))
+                    : file.matches.map((match, index) => {
+                        const [line] = previewReplaceLines(file.lineTexts, [match])
+                        return (
+                          <label key={index} className={styles.matchRow}>
+                            <input
+                              type="checkbox"
+                              checked={!excluded.has(matchKey(file, index))}
+                              onChange={() => toggleMatch(file, index)}
+                            />
+                            <span className={styles.lineNumber}>{match.lineNumber}</span>
+                            <span className={styles.lineText}>
+                              <Segments segments={line.before} inline={line.after} />
+                            </span>
+                          </label>
+                        )
+                      })}
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        <div className={styles.footer}>
+          <span className={styles.summary}>
+            {preview?.truncated && <span className={styles.warning}>Showing the first {plural(preview.totalMatches, 'match', 'matches')}. </span>}
+            {plural(selectedCount, 'replacement')} in {plural(selected.length, 'file')}
+            {' · '}files with unsaved edits are changed in their tab, others on disk
+          </span>
+          <div className={styles.headerSpacer} />
+          <button type="button" className={styles.secondaryBtn} onClick={closeSearchReplace}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={styles.primaryBtn}
+            disabled={applying || loading || selectedCount === 0}
+            onClick={() => void apply()}
+          >
+            {applying ? 'Replacing…' : 'Replace'}
+          </button>
+        </div>
+      </FloatingPanel>
+    </>
+  )
+}
@@ -17,6 +17,8 @@ import {
   normalizeLinearIssuesPriorityPreset,
 } from '../../store/types'
 import type { PlanAgent } from '../../../shared/agent-plan-path'
+import type { GithubRateLimitStatus } from '../../../shared/github-types'
+import { LSP_PROJECT_CONFIG_PATH, type LspServerStatus } from '../../../shared/lsp-types'
 import { BUILD_HARNESS_OPTIONS, PLAN_MODEL_PRESETS } from '../../../shared/plan-build-command'
 import {
   getDefaultWorktreeCredentialRules,
@@ -35,6 +37,7 @@ const SHORTCUTS = [
   { action: 'Find in file (when code editor is focused)', keys: '⌘F' },
   { action: 'Find in changed files (diff tab, or Changes panel focused)', keys: '⌘F' },
   { action: 'Quick open file (when editor not focused)', keys: '⌘F' },
+  { action: 'Replace in files (from Quick Open, uses its query)', keys: '⇧⌘H' },
   { action: 'New terminal', keys: '⌘T' },
   { action: 'Close pane / tab', keys: '⌘W' },
   { action: 'Close all tabs', keys: '⇧⌘W' },
@@ -775,6 +778,187 @@ function McpServerCard({ server, onDelete, onOpenConfig }: {
   )
 }
 
+const GITHUB_RATE_LIMIT_REFRESH_MS = 10_000
+
+function formatResetTime(epochMs: number): string {
+  return new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+function GithubApiSection() {
+  const [status, setStatus] = useState<GithubRateLimitStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      window.api.github.getRateLimit()
+        .then((next) => { if (!cancelled) setStatus(next) })
+        .catch(() => {})
+    }
+    load()
+    const timer = setInterval(load, GITHUB_RATE_LIMIT_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [])
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionTitle}>GitHub API</div>
+      <div className={styles.sectionHint}>
+        PR status polling shares one rate-limit budget across all projects and slows down as it drains.
+      </div>
+      {status?.blockedUntil && (
+        <div className={styles.inlineHint}>
+          GitHub is refusing requests until {formatResetTime(status.blockedUntil)}. PR badges show cached data until then.
+        </div>
+      )}
+      {!status || status.buckets.length === 0 ? (
+        <div className={styles.emptyHint}>No GitHub API requests made yet.</div>
+      ) : (
+        status.buckets.map((bucket) => (
+          <div key={bucket.resource} className={styles.row}>
+            <div className={styles.rowText}>
+              <div className={styles.rowLabel}>{bucket.resource === 'core' ? 'REST' : bucket.resource === 'graphql' ? 'GraphQL' : bucket.resource}</div>
+              <div className={styles.rowDescription}>
+                {bucket.remaining.toLocaleString()} of {bucket.limit.toLocaleString()} remaining · resets at {formatResetTime(bucket.resetAt)}
+              </div>
+            </div>
+          </div>
+        ))
+      )}
+      {status && (
+        <div className={styles.row}>
+          <div className={styles.rowText}>
+            <div className={styles.rowLabel}>Polling</div>
+            <div className={styles.rowDescription}>
+              {status.backoffMultiplier > 1 ? `Slowed ${status.backoffMultiplier}× to save budget` : 'Normal interval'}
+              {' · '}{status.coalescedLookupCount.toLocaleString()} lookups batched
+              {' · '}{status.notModifiedCount.toLocaleString()} served by ETag
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const LSP_STATUS_REFRESH_MS = 5_000
+
+function formatUptime(startedAt: number): string {
+  const minutes = Math.floor((Date.now() - startedAt) / 60_000)
+  if (minutes < 1) return 'just started'
+  if (minutes < 60) return `up ${minutes}m`
+  return `up ${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function LanguageServersSection() {
+  const workspaces = useAppStore((s) => s.workspaces)
+  const openFileTab = useAppStore((s) => s.openFileTab)
+  const toggleSettings = useAppStore((s) => s.toggleSettings)
+  const [servers, setServers] = useState<LspServerStatus[]>([])
+  const [restarting, setRestarting] = useState<string | null>(null)
+
+  const load = () => {
+    window.api.lsp.listServers().then(setServers).catch(() => {})
+  }
+
+  useEffect(() => {
+    load()
+    const timer = setInterval(load, LSP_STATUS_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  const groups = useMemo(() => {
+    const byWorktree = new Map<string, LspServerStatus[]>()
+    for (const server of servers) {
+      byWorktree.set(server.worktreePath, [...(byWorktree.get(server.worktreePath) ?? []), server])
+    }
+    return Array.from(byWorktree, ([worktreePath, list]) => ({
+      worktreePath,
+      name: workspaces.find((ws) => ws.worktreePath === worktreePath)?.name ?? worktreePath,
+      servers: list,
+    }))
+  }, [servers, workspaces])
+
+  const restart = async (server: LspServerStatus) => {
+    const key = `${server.serverKey}:${server.root}`
+    setRestarting(key)
+    try {
+      await window.api.lsp.restartServer(server.serverKey, server.root)
+    } finally {
+      setRestarting(null)
+      load()
+    }
+  }
+
+  const openUserConfig = async () => {
+    const path = await window.api.lsp.getUserConfigPath()
+    if (!path) return
+    openFileTab(path)
+    toggleSettings()
+  }
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionTitle}>Language Servers</div>
+      <div className={styles.sectionHint}>
+        Servers start when a file they handle is opened. Override or add servers for all projects in your
+        user config, or per repo in {LSP_PROJECT_CONFIG_PATH}; binaries in the worktree&apos;s node_modules/.bin
+        or virtualenv win over PATH.
+      </div>
+      {groups.length === 0 ? (
+        <div className={styles.emptyHint}>No language servers running.</div>
+      ) : (
+        groups.map((group) => (
+          <div key={group.worktreePath}>
+            <div className={styles.rowLabel}>{group.name}</div>
+            {group.servers.map((server) => {
+              const key = `${server.serverKey}:${server.root}`
+              const relativeRoot = server.root.startsWith(`${group.worktreePath}/`)
+                ? server.root.slice(group.worktreePath.length + 1)
+                : null
+              return (
+                <div key={key} className={styles.row}>
+                  <div className={styles.rowText}>
+                    <div className={styles.rowLabel}>
+                      {server.serverKey}{relativeRoot ? ` · ${relativeRoot}` : ''}
+                    </div>
+                    <div className={styles.rowDescription}>
+                      {server.command}
+                      {server.pid !== null && ` · pid ${server.pid}`}
+                      {' · '}{formatUptime(server.startedAt)}
+                      {' · '}{server.connections === 1 ? '1 client' : `${server.connections} clients`}
+                      {server.restarts > 0 && ` · crashed ${server.restarts}×`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className={styles.actionBtn}
+                    onClick={() => void restart(server)}
+                    disabled={restarting === key}
+                  >
+                    {restarting === key ? 'Restarting...' : 'Restart'}
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        ))
+      )}
+      <div className={styles.row}>
+        <div className={styles.rowText}>
+          <div className={styles.rowLabel}>User config</div>
+          <div className={styles.rowDescription}>Command, args, env, extensions, initializationOptions, settings and root markers</div>
+        </div>
+        <button type="button" className={styles.actionBtn} onClick={() => void openUserConfig()}>
+          Open
+        </button>
+      </div>
+    </div>
+  )
+}
+
 function LinearSettingsSection({
   apiKey,
   onKeyChange,
@@ -1253,6 +1437,10 @@ export function SettingsPanel() {
           />
         </div>
 
+        <GithubApiSection />
+
+        <LanguageServersSection />
+
         <div className={styles.section}>
           <div className={styles.sectionTitle}>MCP Servers</div>
           <McpServersSection />
@@ -1269,6 +1457,20 @@ export function SettingsPanel() {
             value={settings.sessionResumeEnabled}
             onChange={(v) => update('sessionResumeEnabled', v)}
           />
+
+          <ToggleRow
+            label="Relaunch last terminal command"
+            description="After a restart, terminals show their previous output; also re-run the last command each shell reported through shell integration (OSC 133/633)"
+            value={settings.relaunchTerminalCommandOnRestore}
+            onChange={(v) => update('relaunchTerminalCommandOnRestore', v)}
+          />
+
+          <ToggleRow
+            label="Record terminal transcripts"
+            description="Store terminal output in the project database so it can be searched from Quick Open (start with $) and exported"
+            value={settings.recordTerminalTranscripts}
+            onChange={(v) => update('recordTerminalTranscripts', v)}
+          />
         </div>
 
         <WorktreeCredentialsSection />
@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { PrDetails, PrMergeMethod } from '../../../shared/github-types'
+import { buildPrEdit, parseNameList } from '../../../shared/github-pr-edit'
+import { useAppStore } from '../../store/app-store'
+import { normalizeWorkspaceBranch } from '../../store/workspace-branch'
+import { useExitAnimation } from '../../hooks/useExitAnimation'
+import styles from './PrDialog.module.css'
+
+/** Match `constellagent-dialog-*--exiting` duration (`--duration-exit` in design-tokens). */
+const EXIT_MS = 140
+
+const PR_POLL_HINT_EVENT = 'constellagent:pr-poll-hint'
+
+const MERGE_METHOD_LABELS: Record<PrMergeMethod, string> = {
+  squash: 'Squash and merge',
+  merge: 'Create a merge commit',
+  rebase: 'Rebase and merge',
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message.trim()) return err.message.trim()
+  return fallback
+}
+
+interface Props {
+  workspaceId: string
+  onClose: () => void
+  /** Called after the PR was merged right away (not queued for auto-merge). */
+  onMerged: (workspace: { id: string; name: string }) => void
+}
+
+/**
+ * Creates the workspace branch's PR, or manages the open one: edit metadata, mark ready,
+ * merge now or toggle auto-merge.
+ */
+export function PrDialog({ workspaceId, onClose, onMerged }: Props) {
+  const workspace = useAppStore((s) => s.workspaces.find((w) => w.id === workspaceId))
+  const project = useAppStore((s) => (workspace ? s.projects.find((p) => p.id === workspace.projectId) : undefined))
+  const prInfo = useAppStore((s) => (workspace ? s.prStatusMap.get(`${workspace.projectId}:${workspace.branch}`) : undefined))
+  const setPrStatuses = useAppStore((s) => s.setPrStatuses)
+  const setGhAvailability = useAppStore((s) => s.setGhAvailability)
+  const addToast = useAppStore((s) => s.addToast)
+
+  const [open, setOpen] = useState(true)
+  const { shouldRender, animating } = useExitAnimation(open, EXIT_MS)
+  const exiting = animating === 'exit'
+
+  // Fixed at open: status polls after create/merge must not flip the dialog's mode mid-exit.
+  const [initialPr] = useState(prInfo)
+  const managing = initialPr?.state === 'open'
+  const worktreePath = workspace?.worktreePath ?? ''
+  const branch = normalizeWorkspaceBranch(workspace?.branch ?? '')
+
+  const [details, setDetails] = useState<PrDetails | null>(null)
+  const [baseBranch, setBaseBranch] = useState('')
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [reviewers, setReviewers] = useState('')
+  const [labels, setLabels] = useState('')
+  const [draft, setDraft] = useState(false)
+  const [mergeMethod, setMergeMethod] = useState<PrMergeMethod>('squash')
+  const [busyLabel, setBusyLabel] = useState('')
+  const [error, setError] = useState('')
+  const busy = !!busyLabel
+
+  // Load once per dialog; later PR status polls must not clobber in-progress edits.
+  useEffect(() => {
+    if (!project) return
+    let cancelled = false
+    if (managing && initialPr) {
+      window.api.github.getPrDetails(worktreePath, initialPr.number)
+        .then((loaded) => {
+          if (cancelled) return
+          setDetails(loaded)
+          setTitle(loaded.title)
+          setBody(loaded.body)
+          setReviewers(loaded.reviewers.join(', '))
+          setLabels(loaded.labels.join(', '))
+        })
+        .catch((err) => {
+          if (!cancelled) setError(errorMessage(err, `Failed to load PR #${initialPr.number}`))
+        })
+    } else {
+      window.api.git.getDefaultBranch(project.repoPath)
+        .then((resolved) => {
+          if (!cancelled) setBaseBranch(normalizeWorkspaceBranch(resolved))
+        })
+        .catch(() => {})
+    }
+    return () => { cancelled = true }
+  }, [])
+
+  const animateExit = useCallback(() => {
+    if (exiting || busy) return
+    setOpen(false)
+  }, [exiting, busy])
+
+  useEffect(() => {
+    if (!shouldRender) onClose()
+  }, [shouldRender, onClose])
+
+  const refreshPrStatus = useCallback(async () => {
+    if (!project || !branch) return
+    try {
+      const result = await window.api.github.getPrStatuses(project.repoPath, [branch])
+      setGhAvailability(project.id, result.available)
+      if (result.available) setPrStatuses(project.id, result.data)
+    } catch {
+      // Best-effort; the global poller keeps PR badges fresh.
+    }
+    window.dispatchEvent(new CustomEvent(PR_POLL_HINT_EVENT, {
+      detail: { worktreePath, branch, kind: 'pr' },
+    }))
+  }, [project, branch, worktreePath, setGhAvailability, setPrStatuses])
+
+  const run = useCallback(async (label: string, fallback: string, action: () => Promise<void>) => {
+    setBusyLabel(label)
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      console.error('[PrDialog] action failed:', err)
+      setError(errorMessage(err, fallback))
+    } finally {
+      setBusyLabel('')
+    }
+  }, [])
+
+  const handleGenerate = useCallback(() => {
+    void run('Generating…', 'Failed to generate a PR description', async () => {
+      const generated = await window.api.app.generatePrDescription(worktreePath, baseBranch)
+      setTitle(generated.title)
+      setBody(generated.body)
+    })
+  }, [run, worktreePath, baseBranch])
+
+  const handleCreate = useCallback(() => {
+    void run('Creating PR…', 'Failed to create pull request', async () => {
+      await window.api.git.pushCurrentBranch(worktreePath)
+      const created = await window.api.github.createPr(worktreePath, branch, baseBranch, {
+        title: title.trim() || undefined,
+        body,
+        draft,
+        reviewers: parseNameList(reviewers),
+      })
+      await refreshPrStatus()
+      addToast({ id: crypto.randomUUID(), message: `PR #${created.number} opened`, type: 'info' })
+      if (created.url) window.open(created.url, '_blank')
+      setOpen(false)
+    })
+  }, [run, worktreePath, branch, baseBranch, title, body, draft, reviewers, refreshPrStatus, addToast])
+
+  const handleSave = useCallback(() => {
+    if (!details) return
+    const edit = buildPrEdit(details, {
+      title,
+      body,
+      reviewers: parseNameList(reviewers),
+      labels: parseNameList(labels),
+    })
+    if (!edit) return
+    void run('Saving…', 'Failed to update pull request', async () => {
+      await window.api.github.editPr(worktreePath, details.number, edit)
+      setDetails(await window.api.github.getPrDetails(worktreePath, details.number))
+      await refreshPrStatus()
+      addToast({ id: crypto.randomUUID(), message: `PR #${details.number} updated`, type: 'info' })
+    })
+  }, [details, title, body, reviewers, labels, run, worktreePath, refreshPrStatus, addToast])
+
+  const handleMarkReady = useCallback(() => {
+    if (!details) return
+    void run('Marking ready…', 'Failed to mark pull request ready', async () => {
+      await window.api.github.markPrReady(worktreePath, details.number)
+      setDetails({ ...details, isDraft: false })
+      await refreshPrStatus()
+    })
+  }, [details, run, worktreePath, refreshPrStatus])
+
+  const handleMerge = useCallback((auto: boolean) => {
+    if (!details || !workspace) return
+    void run(auto ? 'Enabling auto-merge…' : 'Merging…', 'Failed to merge pull request', async () => {
+      await window.api.github.mergePr(worktreePath, details.number, { method: mergeMethod, auto })
+      await refreshPrStatus()
+      if (auto) {
+        setDetails({ ...details, autoMergeEnabled: true })
+        addToast({ id: crypto.randomUUID(), message: `Auto-merge enabled for PR #${details.number}`, type: 'info' })
+        return
+      }
+      addToast({ id: crypto.randomUUID(), message: `PR #${details.number} merged`, type: 'info' })
+      setOpen(false)
+      onMerged({ id: workspace.id, name: workspace.name })
+    })
+  }, [details, workspace, run, worktreePath, mergeMethod, refreshPrStatus, addToast, onMerged])
+
+  const handleDisableAutoMerge = useCallback(() => {
+    if (!details) return
+    void run('Disabling auto-merge…', 'Failed to disable auto-merge', async () => {
+      await window.api.github.disableAutoMerge(worktreePath, details.number)
+      setDetails({ ...details, autoMergeEnabled: false })
+      await refreshPrStatus()
+    })
+  }, [details, run, worktreePath, refreshPrStatus])
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') animateExit()
+  }, [animateExit])
+
+  if (!shouldRender || !workspace || !project) {
+    return null
+  }
+
+  const hasEdits = !!details && !!buildPrEdit(details, {
+    title,
+    body,
+    reviewers: parseNameList(reviewers),
+    labels: parseNameList(labels),
+  })
+
+  return (
+    <div
+      className={`${styles.overlay} constellagent-dialog-overlay ${exiting ? 'constellagent-dialog-overlay--exiting' : ''}`}
+      onClick={animateExit}
+    >
+      <div
+        className={`${styles.dialog} constellagent-dialog-body ${exiting ? 'constellagent-dialog-body--exiting' : ''}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        data-testid="pr-dialog"
+      >
+        <div className={styles.titleRow}>
+          <div className={styles.title}>
+            {managing && initialPr ? `Pull request #${initialPr.number}` : 'Create pull request'}
+          </div>
+          {details?.isDraft && <span className={styles.statePill}>Draft</span>}
+          {details?.autoMergeEnabled && <span className={styles.statePill}>Auto-merge on</span>}
+          {details?.mergeable === 'CONFLICTING' && <span className={styles.statePill}>Conflicts</span>}
+        </div>
+
+        {!managing && (
+          <div className={styles.note}>
+            {branch} → {baseBranch || '…'}
+          </div>
+        )}
+
+        <label className={styles.label}>Title</label>
+        <input
+          className={styles.input}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          disabled={busy || (managing && !details)}
+          placeholder={managing ? '' : 'Leave empty to fill from commits'}
+          autoFocus
+        />
+
+        <div className={styles.labelRow}>
+          <span>Description</span>
+          {!managing && (
+            <button
+              type="button"
+              className={styles.linkBtn}
+              onClick={handleGenerate}
+              disabled={busy || !baseBranch}
+            >
+              Generate
+            </button>
+          )}
+        </div>
+        <textarea
+          className={styles.textarea}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          disabled={busy || (managing && !details)}
+          spellCheck={false}
+        />
+
+        <label className={styles.label}>Reviewers</label>
+        <input
+          className={styles.input}
+          value={reviewers}
+          onChange={(e) => setReviewers(e.target.value)}
+          disabled={busy || (managing && !details)}
+          placeholder="login, org/team"
+        />
+
+        {managing ? (
+          <>
+            <label className={styles.label}>Labels</label>
+            <input
+              className={styles.input}
+              value={labels}
+              onChange={(e) => setLabels(e.target.value)}
+              disabled={busy || !details}
+              placeholder="bug, enhancement"
+            />
+          </>
+        ) : (
+          <label className={styles.checkboxRow}>
+            <input type="checkbox" checked={draft} onChange={(e) => setDraft(e.target.checked)} disabled={busy} />
+            Open as draft
+          </label>
+        )}
+
+        {managing && details && (
+          <div className={styles.section}>
+            <label className={styles.label}>Merge</label>
+            {details.isDraft ? (
+              <div className={styles.mergeRow}>
+                <span className={styles.note}>Draft pull requests cannot be merged.</span>
+                <button type="button" className={styles.secondaryBtn} onClick={handleMarkReady} disabled={busy}>
+                  Mark ready for review
+                </button>
+              </div>
+            ) : (
+              <div className={styles.mergeRow}>
+                <select
+                  className={styles.select}
+                  value={mergeMethod}
+                  onChange={(e) => setMergeMethod(e.target.value as PrMergeMethod)}
+                  disabled={busy}
+                >
+                  {(Object.keys(MERGE_METHOD_LABELS) as PrMergeMethod[]).map((method) => (
+                    <option key={method} value={method}>{MERGE_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+                {details.autoMergeEnabled ? (
+                  <button type="button" className={styles.secondaryBtn} onClick={handleDisableAutoMerge} disabled={busy}>
+                    Disable auto-merge
+                  </button>
+                ) : (
+                  <button type="button" className={styles.secondaryBtn} onClick={() => handleMerge(true)} disabled={busy}>
+                    Auto-merge
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className={styles.primaryBtn}
+                  onClick={() => handleMerge(false)}
+                  disabled={busy || details.mergeable === 'CONFLICTING'}
+                >
+                  Merge
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {busyLabel && <div className={styles.note} role="status">{busyLabel}</div>}
+        {error && <div className={styles.error}>{error}</div>}
+
+        <div className={styles.actions}>
+          {managing && details && (
+            <button
+              type="button"
+              className={styles.secondaryBtn}
+              onClick={() => window.open(details.url, '_blank')}
+            >
+              Open on GitHub
+            </button>
+          )}
+          <button type="button" className={styles.cancelBtn} onClick={animateExit} disabled={busy || exiting}>
+            Close
+          </button>
+          {managing ? (
+            <button type="button" className={styles.primaryBtn} onClick={handleSave} disabled={busy || !hasEdits}>
+              Save
+            </button>
+          ) : (
+            <button type="button" className={styles.primaryBtn} onClick={handleCreate} disabled={busy || !baseBranch}>
+              Create PR
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
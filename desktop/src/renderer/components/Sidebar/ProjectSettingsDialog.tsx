@@ -1,13 +1,19 @@
-import { useState, useCallback, useLayoutEffect, useRef, useEffect } from 'react'
+import { useState, useCallback, useLayoutEffect, useRef, useEffect, useMemo } from 'react'
 import { useAppStore } from '../../store/app-store'
 import type {
   Project,
   PrLinkProvider,
   StartupCommand,
-  WaitCondition,
+  StartupReadiness,
+  StartupRestartPolicy,
 } from '../../store/types'
 import styles from './ProjectSettingsDialog.module.css'
 import { maybeShowStaleMainToast } from '../../utils/ipc-stale-main'
+import { AUTOMATIONS_FILE_PATH } from '../../../shared/automation-file'
+import { findStartupDependencyProblems, normalizeStartupCommands } from '../../../shared/startup-commands'
+import { WORKSPACE_PORT_BLOCK_SIZE, normalizePortNames, portEnvName } from '../../../shared/workspace-ports'
+import type { WorktreeSyncStrategy } from '../../../shared/sync-types'
+import { WORKTREE_SYNC_STRATEGY_LABELS, normalizeSyncStrategy } from '../../../shared/sync-types'
 
 interface CommandWithId extends StartupCommand {
   _id: number
@@ -17,7 +23,11 @@ interface Props {
   project: Project
   onSave: (settings: {
     startupCommands: StartupCommand[]
+    /** Null while the saved names have not loaded; leave them unchanged. */
+    ports: string[] | null
     prLinkProvider: PrLinkProvider
+    autoLoadAutomations: boolean
+    syncStrategy: WorktreeSyncStrategy
   }) => void
   onCancel: () => void
 }
@@ -26,21 +36,26 @@ function getRendererApi(): Window['api'] | null {
   return (window as Window & { api?: Window['api'] }).api ?? null
 }
 
-function normalizeStartupCommands(list: StartupCommand[] | undefined): StartupCommand[] {
-  if (!list?.length) return []
-  return list
-    .filter((c) => c.command?.trim())
-    .map((c) => ({ name: c.name ?? '', command: c.command }))
+const DEFAULT_READINESS: Record<StartupReadiness['type'], StartupReadiness> = {
+  output: { type: 'output', pattern: '' },
+  port: { type: 'port', port: 0 },
+  delay: { type: 'delay', seconds: 3 },
 }
 
 interface StartupCommandRowProps {
   cmd: StartupCommand
+  /** Named commands this one can depend on. */
+  otherNames: string[]
+  problem?: string
   expanded: boolean
   autoFocusCommand: boolean
   isDragging: boolean
   isDropTarget: boolean
   onNameChange: (value: string) => void
   onCommandChange: (value: string) => void
+  onDependencyToggle: (name: string) => void
+  onReadinessChange: (readiness: StartupReadiness | undefined) => void
+  onRestartChange: (restart: StartupRestartPolicy) => void
   onRemove: () => void
   onToggleExpand: () => void
   onDragStart: (e: React.DragEvent) => void
@@ -52,12 +67,17 @@ interface StartupCommandRowProps {
 
 function StartupCommandRow({
   cmd,
+  otherNames,
+  problem,
   expanded,
   autoFocusCommand,
   isDragging,
   isDropTarget,
   onNameChange,
   onCommandChange,
+  onDependencyToggle,
+  onReadinessChange,
+  onRestartChange,
   onRemove,
   onToggleExpand,
   onDragStart,
@@ -77,6 +97,10 @@ function StartupCommandRow({
     el.style.height = `${Math.min(Math.max(el.scrollHeight, 72), 280)}px`
   }, [expanded, cmd.command])
 
+  const readiness = cmd.readiness
+  // Dependencies on names that no longer exist stay visible so they can be removed.
+  const dependencyNames = Array.from(new Set([...otherNames, ...(cmd.dependsOn ?? [])]))
+
   const blockClass = [
     styles.commandBlock,
     isDragging ? styles.commandBlockDragging : '',
@@ -145,6 +169,86 @@ function StartupCommandRow({
           autoFocus={autoFocusCommand}
         />
       )}
+      {dependencyNames.length > 0 && (
+        <div className={styles.waitRow}>
+          <span className={styles.waitLabel}>Start after</span>
+          <div className={styles.dependencyChips}>
+            {dependencyNames.map((name) => {
+              const active = cmd.dependsOn?.includes(name) ?? false
+              return (
+                <button
+                  key={name}
+                  type="button"
+                  className={`${styles.dependencyChip} ${active ? styles.dependencyChipActive : ''}`}
+                  aria-pressed={active}
+                  onClick={() => onDependencyToggle(name)}
+                >
+                  {name}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+      <div className={styles.waitRow}>
+        <span className={styles.waitLabel}>Ready when</span>
+        <select
+          className={styles.waitSelect}
+          value={readiness?.type ?? 'immediate'}
+          onChange={(e) => {
+            const type = e.target.value
+            onReadinessChange(type === 'immediate' ? undefined : DEFAULT_READINESS[type as StartupReadiness['type']])
+          }}
+        >
+          <option value="immediate">Started</option>
+          <option value="output">Output matches</option>
+          <option value="port">Port is open</option>
+          <option value="delay">After a delay</option>
+        </select>
+        {readiness?.type === 'output' && (
+          <input
+            className={styles.conditionInput}
+            value={readiness.pattern}
+            onChange={(e) => onReadinessChange({ type: 'output', pattern: e.target.value })}
+            placeholder="regex, e.g. ready in \d+ms"
+            spellCheck={false}
+          />
+        )}
+        {readiness?.type === 'port' && (
+          <input
+            className={styles.conditionInput}
+            type="number"
+            min={1}
+            max={65535}
+            value={readiness.port || ''}
+            onChange={(e) => onReadinessChange({ type: 'port', port: Number(e.target.value) || 0 })}
+            placeholder="3000"
+          />
+        )}
+        {readiness?.type === 'delay' && (
+          <>
+            <input
+              className={styles.conditionInput}
+              type="number"
+              min={0}
+              value={readiness.seconds}
+              onChange={(e) => onReadinessChange({ type: 'delay', seconds: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <span className={styles.waitLabel}>s</span>
+          </>
+        )}
+        <span className={`${styles.waitLabel} ${styles.restartLabel}`}>Restart</span>
+        <select
+          className={styles.waitSelect}
+          value={cmd.restart ?? 'never'}
+          onChange={(e) => onRestartChange(e.target.value as StartupRestartPolicy)}
+        >
+          <option value="never">Never</option>
+          <option value="on-failure">On failure</option>
+          <option value="always">Always</option>
+        </select>
+      </div>
+      {problem && <div className={styles.commandProblem}>{problem}</div>}
     </div>
   )
 }
@@ -163,9 +267,14 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
   const [startupOpen, setStartupOpen] = useState(() => (project.startupCommands?.length ?? 0) > 0)
   const [syncing, setSyncing] = useState(false)
   const [startupSettingsPath, setStartupSettingsPath] = useState('')
+  const [portNames, setPortNames] = useState<string | null>(null)
   const [prLinkProvider, setPrLinkProvider] = useState<PrLinkProvider>(
     project.prLinkProvider ?? 'github'
   )
+  const [autoLoadAutomations, setAutoLoadAutomations] = useState(project.autoLoadAutomations ?? false)
+  const [syncStrategy, setSyncStrategy] = useState<WorktreeSyncStrategy>(() =>
+    normalizeSyncStrategy(project.syncStrategy),
+  )
   const enabledSkills = Array.isArray(settings.skills) ? settings.skills.filter((s) => s?.enabled) : []
   const enabledSubagents = Array.isArray(settings.subagents) ? settings.subagents.filter((s) => s?.enabled) : []
 
@@ -212,31 +321,54 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
     })
   }, [])
 
-  const handleChange = useCallback((id: number, field: keyof StartupCommand, value: string) => {
+  const handleChange = useCallback((id: number, field: 'name' | 'command', value: string) => {
+    setCommands((prev) => {
+      const renamed = field === 'name' ? prev.find((cmd) => cmd._id === id)?.name : undefined
+      return prev.map((cmd) => {
+        if (cmd._id === id) return { ...cmd, [field]: value }
+        // Keep dependencies pointing at a command while it is being renamed.
+        if (renamed && cmd.dependsOn?.includes(renamed)) {
+          return { ...cmd, dependsOn: cmd.dependsOn.map((dep) => (dep === renamed ? value : dep)).filter(Boolean) }
+        }
+        return cmd
+      })
+    })
+  }, [])
+
+  const handleDependencyToggle = useCallback((id: number, name: string) => {
     setCommands((prev) =>
-      prev.map((cmd) => (cmd._id === id ? { ...cmd, [field]: value } : cmd))
+      prev.map((cmd) => {
+        if (cmd._id !== id) return cmd
+        const current = cmd.dependsOn ?? []
+        const dependsOn = current.includes(name) ? current.filter((dep) => dep !== name) : [...current, name]
+        const { dependsOn: _previous, ...rest } = cmd
+        return dependsOn.length > 0 ? { ...rest, dependsOn } : rest
+      })
     )
   }, [])
 
-  const handleWaitForChange = useCallback((id: number, waitFor: string) => {
+  const handleReadinessChange = useCallback((id: number, readiness: StartupReadiness | undefined) => {
     setCommands((prev) =>
       prev.map((cmd) => {
         if (cmd._id !== id) return cmd
-        if (!waitFor) {
-          const { waitFor: _wf, waitCondition: _wc, ...rest } = cmd
-          return rest as CommandWithId
-        }
-        return { ...cmd, waitFor, waitCondition: cmd.waitCondition ?? { type: 'delay', seconds: 3 } }
+        const { readiness: _previous, ...rest } = cmd
+        return readiness ? { ...rest, readiness } : rest
       })
     )
   }, [])
 
-  const handleConditionChange = useCallback((id: number, condition: WaitCondition) => {
+  const handleRestartChange = useCallback((id: number, restart: StartupRestartPolicy) => {
     setCommands((prev) =>
-      prev.map((cmd) => (cmd._id === id ? { ...cmd, waitCondition: condition } : cmd))
+      prev.map((cmd) => {
+        if (cmd._id !== id) return cmd
+        const { restart: _previous, ...rest } = cmd
+        return restart === 'never' ? rest : { ...rest, restart }
+      })
     )
   }, [])
 
+  const dependencyProblems = useMemo(() => findStartupDependencyProblems(commands), [commands])
+
   const handleReorder = useCallback((fromId: number, toId: number) => {
     if (fromId === toId) return
     setCommands((prev) => {
@@ -285,9 +417,12 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
     const normalized = normalizeStartupCommands(stripped)
     onSave({
       startupCommands: normalized.length > 0 ? normalized : [],
+      ports: portNames === null ? null : normalizePortNames(portNames.split(/[\s,]+/)),
       prLinkProvider,
+      autoLoadAutomations,
+      syncStrategy,
     })
-  }, [commands, onSave, prLinkProvider])
+  }, [autoLoadAutomations, commands, onSave, portNames, prLinkProvider, syncStrategy])
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -297,6 +432,21 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
   )
 
   const configuredStartupCount = commands.filter((c) => c.command.trim()).length
+  const portEnvPreview = normalizePortNames((portNames ?? '').split(/[\s,]+/)).map(portEnvName)
+
+  useEffect(() => {
+    let cancelled = false
+    const api = getRendererApi()
+    if (!api?.projectStartupSettings?.getPorts) return
+    void api.projectStartupSettings.getPorts(project.repoPath).then((names) => {
+      if (!cancelled) setPortNames(names.join(', '))
+    }).catch((err) => {
+      maybeShowStaleMainToast(err, addToast)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [project.repoPath])
 
   useEffect(() => {
     let cancelled = false
@@ -347,7 +497,8 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
             <div className={styles.hint}>
               Each row opens its own tab. To run steps in order in one tab, use{' '}
               <code className={styles.inlineCode}>&&</code> (for example{' '}
-              <code className={styles.inlineCode}>pnpm install && pnpm dev</code>).
+              <code className={styles.inlineCode}>pnpm install && pnpm dev</code>). A command that
+              starts after another waits until that one is ready; a failed dependency keeps it from starting.
             </div>
             <div className={styles.storageHint}>
               Saved outside the repo in{' '}
@@ -359,12 +510,19 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
                 <StartupCommandRow
                   key={cmd._id}
                   cmd={cmd}
+                  otherNames={commands
+                    .filter((other) => other._id !== cmd._id && other.name.trim())
+                    .map((other) => other.name)}
+                  problem={cmd.name ? dependencyProblems.get(cmd.name) : undefined}
                   expanded={expandedCommandRows.has(cmd._id)}
                   autoFocusCommand={draggedId === null && i === commands.length - 1}
                   isDragging={draggedId === cmd._id}
                   isDropTarget={dropTargetId === cmd._id && draggedId !== cmd._id}
                   onNameChange={(v) => handleChange(cmd._id, 'name', v)}
                   onCommandChange={(v) => handleChange(cmd._id, 'command', v)}
+                  onDependencyToggle={(name) => handleDependencyToggle(cmd._id, name)}
+                  onReadinessChange={(readiness) => handleReadinessChange(cmd._id, readiness)}
+                  onRestartChange={(restart) => handleRestartChange(cmd._id, restart)}
                   onRemove={() => handleRemove(cmd._id)}
                   onToggleExpand={() => toggleCommandExpand(cmd._id, cmd.command)}
                   onDragStart={(e) => handleDragStart(cmd._id, e)}
@@ -380,6 +538,36 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
                 <span>Add command</span>
               </button>
             </div>
+
+            <label className={styles.label}>Ports</label>
+            <div className={styles.hint}>
+              Every workspace gets its own {WORKSPACE_PORT_BLOCK_SIZE} ports. Terminals see the first as{' '}
+              <code className={styles.inlineCode}>PORT</code>
+              {portEnvPreview.length > 0 ? (
+                <>
+                  {' '}and each name below as{' '}
+                  {portEnvPreview.map((envName, i) => (
+                    <span key={envName}>
+                      {i > 0 && ', '}
+                      <code className={styles.inlineCode}>{envName}</code>
+                    </span>
+                  ))}
+                </>
+              ) : (
+                <>; name ports below to get one variable each</>
+              )}
+              . Changes apply to terminals opened afterwards.
+            </div>
+            <div className={styles.commandRow}>
+              <input
+                className={styles.input}
+                value={portNames ?? ''}
+                onChange={(e) => setPortNames(e.target.value)}
+                placeholder={portNames === null ? 'Loading…' : 'web, api, db'}
+                disabled={portNames === null}
+                spellCheck={false}
+              />
+            </div>
           </>
         )}
 
@@ -397,6 +585,36 @@ export function ProjectSettingsDialog({ project, onSave, onCancel }: Props) {
           <option value="devinreview">Devin Review</option>
         </select>
 
+        <label className={styles.label}>Worktree Sync</label>
+        <div className={styles.hint}>
+          How the sidebar sync brings each worktree up to date with the default branch. Conflicts stay
+          open until you continue or abort them from the workspace menu.
+        </div>
+        <select
+          className={styles.selectInput}
+          value={syncStrategy}
+          onChange={(e) => setSyncStrategy(e.target.value as WorktreeSyncStrategy)}
+        >
+          {(Object.keys(WORKTREE_SYNC_STRATEGY_LABELS) as WorktreeSyncStrategy[]).map((strategy) => (
+            <option key={strategy} value={strategy}>
+              {WORKTREE_SYNC_STRATEGY_LABELS[strategy]}
+            </option>
+          ))}
+        </select>
+
+        <label className={styles.label}>Repo Automations</label>
+        <div className={styles.hint}>
+          Automations checked in at <code className={styles.inlineCode}>{AUTOMATIONS_FILE_PATH}</code>.
+        </div>
+        <select
+          className={styles.selectInput}
+          value={autoLoadAutomations ? 'auto' : 'manual'}
+          onChange={(e) => setAutoLoadAutomations(e.target.value === 'auto')}
+        >
+          <option value="manual">Import manually from Automations</option>
+          <option value="auto">Load when the project opens</option>
+        </select>
+
         <label className={styles.label}>Skills & Subagents</label>
         <div className={styles.hint}>
           Sync enabled skills and subagents to this project's agent directories.
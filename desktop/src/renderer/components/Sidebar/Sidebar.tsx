@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef, useMemo, type ReactNode } from "react";
-import { useAppStore } from "../../store/app-store";
+import { loadRepoAutomationsForProject, useAppStore } from "../../store/app-store";
 import {
   DEFAULT_SIDEBAR_ACTION_ORDER,
   type AgentType,
@@ -11,10 +11,17 @@ import {
 import { getRenderableProjectWorkspaces } from "../../store/sidebar-navigation";
 import type { CreateWorktreeProgressEvent } from "../../../shared/workspace-creation";
 import type { OpenPrInfo, GithubLookupError } from "../../../shared/github-types";
+import { normalizeStartupCommands, type StartupLaunchEntry } from "../../../shared/startup-commands";
+import { formatWorkspacePorts, workspacePortEnv } from "../../../shared/workspace-ports";
+import { countProblems } from "../../../shared/workspace-problems";
+import { useWorkspaceProblems } from "../../services/editor-problems";
 import { WorkspaceDialog } from "./WorkspaceDialog";
 import { ProjectSettingsDialog } from "./ProjectSettingsDialog";
 import { GraphiteStack } from "./GraphiteStack";
 import { BranchAndPrLauncher } from "./BranchAndPrLauncher";
+import { PrDialog } from "./PrDialog";
+import { StartupStatusDialog } from "./StartupStatusDialog";
+import { SyncConflictDialog } from "./SyncConflictDialog";
 import { AddProjectDialog } from "./AddProjectDialog";
 
 import { Tooltip } from "../Tooltip/Tooltip";
@@ -185,10 +192,12 @@ function PrReviewDecisionIcon({
 }
 
 function WorkspaceMeta({
+  workspaceId,
   projectId,
   branch,
   showBranch,
 }: {
+  workspaceId: string;
   projectId: string;
   branch: string;
   showBranch: boolean;
@@ -200,6 +209,7 @@ function WorkspaceMeta({
   const prLinkProvider = useAppStore(
     (s) => s.projects.find((p) => p.id === projectId)?.prLinkProvider ?? "github",
   );
+  const openCiChecks = useAppStore((s) => s.openCiChecks);
   const hasPr = !!(ghAvailable && prInfo !== undefined && prInfo !== null);
 
   if (!hasPr && !showBranch) return null;
@@ -255,7 +265,11 @@ function WorkspaceMeta({
               {isCiPending && (
                 <span
                   className={`${styles.prBadge} ${styles.prCiPending}`}
-                  title="CI checks running"
+                  title="CI checks running — click for details"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openCiChecks(workspaceId);
+                  }}
                 >
                   CI
                 </span>
@@ -263,7 +277,11 @@ function WorkspaceMeta({
               {isBlockedByCi && (
                 <span
                   className={`${styles.prBadge} ${styles.prBlockedCi}`}
-                  title="CI checks failing"
+                  title="CI checks failing — click for details"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openCiChecks(workspaceId);
+                  }}
                 >
                   CI
                 </span>
@@ -271,7 +289,11 @@ function WorkspaceMeta({
               {isCiPassing && (
                 <span
                   className={`${styles.prBadge} ${styles.prCiPassing}`}
-                  title="CI checks passing"
+                  title="CI checks passing — click for details"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openCiChecks(workspaceId);
+                  }}
                 >
                   CI
                 </span>
@@ -286,7 +308,64 @@ function WorkspaceMeta({
   );
 }
 
-function WorkspaceSyncIndicator({ workspaceId }: { workspaceId: string }) {
+function WorkspacePortsIndicator({ workspaceId }: { workspaceId: string }) {
+  const allocation = useAppStore((s) => s.workspacePorts.get(workspaceId));
+  if (!allocation) return null;
+
+  const env = Object.entries(workspacePortEnv(allocation))
+    .filter(([name]) => name.startsWith("PORT"))
+    .map(([name, port]) => `${name}=${port}`)
+    .join("  ");
+  return (
+    <Tooltip label={`Ports ${allocation.base}–${allocation.base + allocation.size - 1} · ${env}`}>
+      <span className={styles.workspacePorts}>{formatWorkspacePorts(allocation)}</span>
+    </Tooltip>
+  );
+}
+
+function WorkspaceProblemsIndicator({
+  workspaceId,
+  worktreePath,
+}: {
+  workspaceId: string;
+  worktreePath: string;
+}) {
+  const problems = useWorkspaceProblems(worktreePath);
+  const openProblemsPanel = useAppStore((s) => s.openProblemsPanel);
+  const counts = useMemo(() => countProblems(problems), [problems]);
+  if (counts.errors === 0 && counts.warnings === 0) return null;
+
+  const label = [
+    counts.errors > 0 ? `${counts.errors} error${counts.errors === 1 ? "" : "s"}` : "",
+    counts.warnings > 0 ? `${counts.warnings} warning${counts.warnings === 1 ? "" : "s"}` : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+  return (
+    <Tooltip label={`${label} — click to open Problems`}>
+      <span
+        className={styles.workspaceProblems}
+        role="button"
+        aria-label={`Open problems: ${label}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          openProblemsPanel(workspaceId);
+        }}
+      >
+        {counts.errors > 0 && <span className={styles.workspaceProblemsErrors}>✕ {counts.errors}</span>}
+        {counts.warnings > 0 && <span className={styles.workspaceProblemsWarnings}>⚠ {counts.warnings}</span>}
+      </span>
+    </Tooltip>
+  );
+}
+
+function WorkspaceSyncIndicator({
+  workspaceId,
+  onOpenConflicts,
+}: {
+  workspaceId: string;
+  onOpenConflicts: () => void;
+}) {
   const info = useAppStore((s) => s.worktreeSyncStatus.get(workspaceId));
   const [hideSynced, setHideSynced] = useState(false);
 
@@ -315,6 +394,22 @@ function WorkspaceSyncIndicator({ workspaceId }: { workspaceId: string }) {
             ? "Sync conflict"
             : "Sync error");
 
+  if (info.status === "conflict") {
+    return (
+      <Tooltip label={`${tip} — click to resolve`}>
+        <span
+          className={`${styles.syncIndicator} ${styles.syncIndicatorError} ${styles.syncIndicatorClickable}`}
+          role="button"
+          aria-label="Resolve sync conflicts"
+          onClick={(e) => {
+            e.stopPropagation();
+            onOpenConflicts();
+          }}
+        />
+      </Tooltip>
+    );
+  }
+
   if (info.status === "queued") {
     return (
       <Tooltip label={tip}>
@@ -397,6 +492,9 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
   const lastActiveWorkspaceByProjectId = useAppStore((s) => s.lastActiveWorkspaceByProjectId);
 
   const [contextMenu, setContextMenu] = useState<{ wsId: string; x: number; y: number } | null>(null);
+  const [prDialogWsId, setPrDialogWsId] = useState<string | null>(null);
+  const [startupStatusWsId, setStartupStatusWsId] = useState<string | null>(null);
+  const [syncConflictWsId, setSyncConflictWsId] = useState<string | null>(null);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [editingWorkspaceId, setEditingWorkspaceId] = useState<string | null>(
     null,
@@ -519,6 +617,13 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
         projectId: project.id,
       });
 
+      // Reserve the port block before any terminal spawns so every one inherits it.
+      try {
+        await window.api.ports.allocate(wsId, project.repoPath);
+      } catch (err) {
+        maybeShowStaleMainToast(err, addToast);
+      }
+
       let startupSettings =
         project.startupCommands ?? [];
       try {
@@ -530,14 +635,7 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
         maybeShowStaleMainToast(err, addToast);
       }
 
-      const commands: StartupCommand[] = startupSettings
-        .filter((cmd) => typeof cmd.command === 'string' && cmd.command.trim())
-        .map((cmd) => ({
-          name: typeof cmd.name === 'string' ? cmd.name : '',
-          command: cmd.command,
-          waitFor: cmd.waitFor,
-          waitCondition: cmd.waitCondition,
-        }))
+      const commands: StartupCommand[] = normalizeStartupCommands(startupSettings)
 
       // Pre-trust worktree in Claude Code if any command uses claude
       if (commands.some((c) => c.command.trim().startsWith("claude"))) {
@@ -560,7 +658,7 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
       } else {
         // Create all PTYs upfront
         let firstTabId: string | null = null;
-        const ptyMap = new Map<string, string>(); // command name -> ptyId
+        const ptyIds: string[] = [];
 
         for (const cmd of commands) {
           const agentType = cmd.command.startsWith("codex")
@@ -576,7 +674,7 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
             AGENT_ORCH_WS_ID: wsId,
             AGENT_ORCH_AGENT_TYPE: agentType,
           });
-          if (cmd.name) ptyMap.set(cmd.name, ptyId);
+          ptyIds.push(ptyId);
           const tabId = crypto.randomUUID();
           if (!firstTabId) firstTabId = tabId;
           addTab({
@@ -611,67 +709,11 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
           return finalCmd;
         };
 
-        // Launch commands with dependency awareness
-        const launched = new Set<string>();
-        const launchPromises = new Map<string, Promise<void>>();
-
-        const launchCmd = (cmd: typeof commands[0]): Promise<void> => {
-          const name = cmd.name;
-          if (name && launchPromises.has(name)) return launchPromises.get(name)!;
-
-          const promise = (async () => {
-            const ptyId = name ? ptyMap.get(name) : undefined;
-            if (!ptyId) return;
-
-            // Wait for dependency if any
-            if (cmd.waitFor && cmd.waitCondition) {
-              const depPtyId = ptyMap.get(cmd.waitFor);
-              const depCmd = commands.find((c) => c.name === cmd.waitFor);
-
-              // Ensure dependency launches first
-              if (depCmd) {
-                await launchCmd(depCmd);
-              }
-
-              if (depPtyId && cmd.waitCondition.type === 'delay') {
-                await new Promise<void>((resolve) =>
-                  setTimeout(resolve, cmd.waitCondition!.type === 'delay'
-                    ? (cmd.waitCondition as { type: 'delay'; seconds: number }).seconds * 1000
-                    : 0)
-                );
-              } else if (depPtyId && cmd.waitCondition.type === 'output') {
-                const pattern = (cmd.waitCondition as { type: 'output'; pattern: string }).pattern;
-                await new Promise<void>((resolve) => {
-                  const timeout = setTimeout(resolve, 60000); // 60s safety timeout
-                  const cleanup = window.api.pty.onData(depPtyId, (data: string) => {
-                    if (data.includes(pattern)) {
-                      clearTimeout(timeout);
-                      cleanup();
-                      resolve();
-                    }
-                  });
-                });
-              }
-            } else {
-              // No dependency — just wait for shell init
-              await new Promise<void>((resolve) => setTimeout(resolve, 500));
-            }
-
-            if (!launched.has(name)) {
-              launched.add(name);
-              const finalCmd = await resolveFinalCmd(cmd);
-              window.api.pty.write(ptyId, finalCmd + "\n");
-            }
-          })();
-
-          if (name) launchPromises.set(name, promise);
-          return promise;
-        };
-
-        // Launch all commands (dependency resolution happens internally)
-        for (const cmd of commands) {
-          launchCmd(cmd);
-        }
+        // Main types each command once its dependencies are ready and restarts it per its policy
+        const entries: StartupLaunchEntry[] = await Promise.all(
+          commands.map(async (cmd, i) => ({ ...cmd, command: await resolveFinalCmd(cmd), ptyId: ptyIds[i] })),
+        );
+        void window.api.startup.start(wsId, entries).catch((err) => maybeShowStaleMainToast(err, addToast));
 
         // Activate the first terminal tab
         if (firstTabId) setActiveTab(firstTabId);
@@ -989,6 +1031,31 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
     [projects],
   );
 
+  const handlePrMerged = useCallback(
+    (ws: { id: string; name: string }) => {
+      showConfirmDialog({
+        title: "Pull Request Merged",
+        message: `The pull request for "${ws.name}" was merged. Delete the workspace and remove its git worktree from disk?`,
+        confirmLabel: "Delete",
+        destructive: true,
+        onConfirm: () => {
+          deleteWorkspace(ws.id);
+          dismissConfirmDialog();
+        },
+      });
+    },
+    [showConfirmDialog, deleteWorkspace, dismissConfirmDialog],
+  );
+
+  const contextMenuWorkspace = contextMenu
+    ? workspaces.find((w) => w.id === contextMenu.wsId)
+    : undefined;
+  const contextMenuPr = useAppStore((s) =>
+    contextMenuWorkspace
+      ? s.prStatusMap.get(`${contextMenuWorkspace.projectId}:${contextMenuWorkspace.branch}`)
+      : undefined,
+  );
+
   const projectPrModalProject = openProjectPrPopoverId
     ? (projects.find((p) => p.id === openProjectPrPopoverId) ?? null)
     : null;
@@ -1300,11 +1367,17 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
                           )}
                           <span className={styles.workspaceMetaRow}>
                             <WorkspaceMeta
+                              workspaceId={ws.id}
                               projectId={ws.projectId}
                               branch={ws.branch}
                               showBranch={!!showMeta}
                             />
-                            <WorkspaceSyncIndicator workspaceId={ws.id} />
+                            <WorkspaceSyncIndicator
+                              workspaceId={ws.id}
+                              onOpenConflicts={() => setSyncConflictWsId(ws.id)}
+                            />
+                            <WorkspacePortsIndicator workspaceId={ws.id} />
+                            <WorkspaceProblemsIndicator workspaceId={ws.id} worktreePath={ws.worktreePath} />
                           </span>
                           <GraphiteStack
                             workspaceId={ws.id}
@@ -1643,11 +1716,26 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
       {editingProject && (
         <ProjectSettingsDialog
           project={editingProject}
-          onSave={({ startupCommands, prLinkProvider }) => {
+          onSave={({ startupCommands, ports, prLinkProvider, autoLoadAutomations, syncStrategy }) => {
             updateProject(editingProject.id, {
               startupCommands,
               prLinkProvider,
+              autoLoadAutomations,
+              syncStrategy,
             });
+            if (ports) {
+              const { id: projectId, repoPath } = editingProject;
+              void window.api.projectStartupSettings.setPorts(repoPath, ports)
+                .then(() => Promise.all(
+                  workspaces
+                    .filter((ws) => ws.projectId === projectId)
+                    .map((ws) => window.api.ports.allocate(ws.id, repoPath)),
+                ))
+                .catch((err) => maybeShowStaleMainToast(err, addToast));
+            }
+            if (autoLoadAutomations && !editingProject.autoLoadAutomations) {
+              void loadRepoAutomationsForProject(editingProject.id);
+            }
             setEditingProject(null);
           }}
           onCancel={() => setEditingProject(null)}
@@ -1706,10 +1794,81 @@ export function Sidebar({ embedded = false, showTitleArea = true }: { embedded?:
             >
               OpenCode
             </button>
+            <button
+              className={styles.actionButton}
+              style={{ width: '100%', textAlign: 'left', borderRadius: 0 }}
+              onClick={() => {
+                setContextMenu(null);
+                setStartupStatusWsId(contextMenu.wsId);
+              }}
+            >
+              Startup commands…
+            </button>
+            <button
+              className={styles.actionButton}
+              style={{ width: '100%', textAlign: 'left', borderRadius: 0 }}
+              onClick={() => {
+                setContextMenu(null);
+                setSyncConflictWsId(contextMenu.wsId);
+              }}
+            >
+              Resolve sync conflicts…
+            </button>
+            {contextMenuWorkspace && (
+              <>
+                <div style={{ padding: '4px 12px', fontSize: 'var(--text-xs)', color: 'var(--text-tertiary)', fontWeight: 600 }}>
+                  Pull request
+                </div>
+                <button
+                  className={styles.actionButton}
+                  style={{ width: '100%', textAlign: 'left', borderRadius: 0 }}
+                  onClick={() => {
+                    setContextMenu(null);
+                    setPrDialogWsId(contextMenuWorkspace.id);
+                  }}
+                >
+                  {contextMenuPr?.state === 'open' ? `Manage PR #${contextMenuPr.number}…` : 'Create pull request…'}
+                </button>
+                {contextMenuPr && (
+                  <button
+                    className={styles.actionButton}
+                    style={{ width: '100%', textAlign: 'left', borderRadius: 0 }}
+                    onClick={() => {
+                      setContextMenu(null);
+                      openPrUrl(contextMenuWorkspace.projectId, contextMenuPr.url);
+                    }}
+                  >
+                    Open PR #{contextMenuPr.number} in browser
+                  </button>
+                )}
+              </>
+            )}
           </div>
         </div>
       )}
 
+      {prDialogWsId && (
+        <PrDialog
+          workspaceId={prDialogWsId}
+          onClose={() => setPrDialogWsId(null)}
+          onMerged={handlePrMerged}
+        />
+      )}
+
+      {startupStatusWsId && (
+        <StartupStatusDialog
+          workspaceId={startupStatusWsId}
+          onClose={() => setStartupStatusWsId(null)}
+        />
+      )}
+
+      {syncConflictWsId && (
+        <SyncConflictDialog
+          workspaceId={syncConflictWsId}
+          onClose={() => setSyncConflictWsId(null)}
+        />
+      )}
+
     </div>
   );
 }
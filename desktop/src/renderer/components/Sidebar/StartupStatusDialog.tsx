@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { StartupCommandState, StartupWorkspaceStatus } from '../../../shared/startup-commands'
+import { useAppStore } from '../../store/app-store'
+import { useExitAnimation } from '../../hooks/useExitAnimation'
+import styles from './StartupStatusDialog.module.css'
+
+/** Match `constellagent-dialog-*--exiting` duration (`--duration-exit` in design-tokens). */
+const EXIT_MS = 140
+
+const STATE_LABELS: Record<StartupCommandState, string> = {
+  waiting: 'Waiting',
+  starting: 'Starting',
+  ready: 'Ready',
+  exited: 'Exited',
+  crashed: 'Crashed',
+  restarting: 'Restarting',
+  stopped: 'Stopped',
+  failed: 'Failed',
+}
+
+const STATE_CLASSES: Partial<Record<StartupCommandState, string>> = {
+  ready: styles.stateReady,
+  exited: styles.stateReady,
+  crashed: styles.stateError,
+  failed: styles.stateError,
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message.trim()) return err.message.trim()
+  return fallback
+}
+
+interface Props {
+  workspaceId: string
+  onClose: () => void
+}
+
+/** Live state of a workspace's startup commands, with per-command and workspace-wide restarts. */
+export function StartupStatusDialog({ workspaceId, onClose }: Props) {
+  const workspace = useAppStore((s) => s.workspaces.find((w) => w.id === workspaceId))
+  const [status, setStatus] = useState<StartupWorkspaceStatus | null>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const [open, setOpen] = useState(true)
+  const { shouldRender, animating } = useExitAnimation(open, EXIT_MS)
+  const exiting = animating === 'exit'
+
+  useEffect(() => {
+    let cancelled = false
+    const unsubscribe = window.api.startup.onStatusChanged((next) => {
+      if (next.workspaceId === workspaceId) setStatus(next)
+    })
+    window.api.startup.getStatus(workspaceId)
+      .then((initial) => {
+        if (!cancelled && initial) setStatus(initial)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(errorMessage(err, 'Failed to load startup commands'))
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true)
+      })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [workspaceId])
+
+  const animateExit = useCallback(() => {
+    if (exiting) return
+    setOpen(false)
+  }, [exiting])
+
+  useEffect(() => {
+    if (!shouldRender) onClose()
+  }, [shouldRender, onClose])
+
+  const handleRestart = useCallback((name?: string) => {
+    setBusy(true)
+    setError('')
+    window.api.startup.restart(workspaceId, name)
+      .catch((err) => {
+        console.error('[StartupStatusDialog] restart failed:', err)
+        setError(errorMessage(err, 'Failed to restart'))
+      })
+      .finally(() => setBusy(false))
+  }, [workspaceId])
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') animateExit()
+  }, [animateExit])
+
+  if (!shouldRender || !workspace) return null
+
+  const commands = status?.commands ?? []
+  const running = commands.some((command) => command.state !== 'stopped')
+
+  return (
+    <div
+      className={`${styles.overlay} constellagent-dialog-overlay ${exiting ? 'constellagent-dialog-overlay--exiting' : ''}`}
+      onClick={animateExit}
+    >
+      <div
+        className={`${styles.dialog} constellagent-dialog-body ${exiting ? 'constellagent-dialog-body--exiting' : ''}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        tabIndex={-1}
+      >
+        <div className={styles.title}>Startup commands · {workspace.name}</div>
+
+        {commands.length === 0 ? (
+          <div className={styles.note}>
+            {loaded ? 'No startup commands are running in this workspace.' : 'Loading…'}
+          </div>
+        ) : (
+          <div className={styles.list}>
+            {commands.map((command) => (
+              <div key={command.ptyId} className={styles.row}>
+                <div className={styles.rowMain}>
+                  <span className={styles.name}>{command.name || command.command}</span>
+                  <span className={`${styles.statePill} ${STATE_CLASSES[command.state] ?? ''}`}>
+                    {STATE_LABELS[command.state]}
+                    {command.exitCode !== undefined && command.state !== 'ready' ? ` (${command.exitCode})` : ''}
+                  </span>
+                  {command.restarts > 0 && (
+                    <span className={styles.meta}>
+                      {command.restarts} {command.restarts === 1 ? 'restart' : 'restarts'}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    className={styles.secondaryBtn}
+                    onClick={() => handleRestart(command.name || undefined)}
+                    disabled={busy || !command.name || command.state === 'stopped'}
+                    title={command.name ? undefined : 'Name this command in project settings to restart it on its own'}
+                  >
+                    Restart
+                  </button>
+                </div>
+                {command.message && <div className={styles.message}>{command.message}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.cancelBtn} onClick={animateExit}>
+            Close
+          </button>
+          <button
+            type="button"
+            className={styles.primaryBtn}
+            onClick={() => handleRestart()}
+            disabled={busy || !running}
+          >
+            Restart all
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
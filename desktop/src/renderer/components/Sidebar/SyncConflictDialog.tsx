@@ -0,0 +1,383 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react'
+import { loader } from '@monaco-editor/react'
+import type { editor } from 'monaco-editor'
+import type {
+  SyncConflictFileStatus,
+  SyncConflictResolution,
+  SyncConflictState,
+  SyncConflictVersions,
+} from '../../../shared/sync-types'
+import { conflictSideLabels } from '../../../shared/sync-types'
+import { useAppStore } from '../../store/app-store'
+import { useExitAnimation } from '../../hooks/useExitAnimation'
+import { usePrefersReducedMotion } from '../../hooks/use-prefers-reduced-motion'
+import { ensureAppearanceMonacoThemes, getAppearanceMonacoThemeName } from '../../theme/appearance'
+import { getLanguage } from '../../utils/language-map'
+import styles from './SyncConflictDialog.module.css'
+
+/** Match `constellagent-dialog-*--exiting` duration (`--duration-exit` in design-tokens). */
+const EXIT_MS = 140
+
+type CompareSide = 'base' | 'ours' | 'theirs'
+
+type MonacoApi = Awaited<ReturnType<typeof loader.init>>
+
+const STATUS_LABELS: Record<SyncConflictFileStatus, string> = {
+  'both-modified': 'Both modified',
+  'both-added': 'Both added',
+  'both-deleted': 'Both deleted',
+  'added-by-us': 'Added by ours',
+  'added-by-them': 'Added by theirs',
+  'deleted-by-us': 'Deleted by ours',
+  'deleted-by-them': 'Deleted by theirs',
+}
+
+const CONFLICT_MARKER_RE = /^(<{7}|>{7})( |$)/m
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message.trim()) return err.message.trim()
+  return fallback
+}
+
+interface Props {
+  workspaceId: string
+  onClose: () => void
+}
+
+/**
+ * Finishes a worktree sync that stopped on conflicts. Each conflicted file opens in a diff
+ * editor: the left pane shows the base, ours or theirs version, the right pane is the working
+ * file and can be edited before it is marked resolved.
+ */
+export function SyncConflictDialog({ workspaceId, onClose }: Props) {
+  const workspace = useAppStore((s) => s.workspaces.find((w) => w.id === workspaceId))
+  const addToast = useAppStore((s) => s.addToast)
+  const appearanceThemeId = useAppStore((s) => s.settings.appearanceThemeId)
+  const editorFontSize = useAppStore((s) => s.settings.editorFontSize)
+  const prefersReducedMotion = usePrefersReducedMotion()
+  const worktreePath = workspace?.worktreePath ?? ''
+
+  const [conflicts, setConflicts] = useState<SyncConflictState | null>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [loadedFile, setLoadedFile] = useState<{ path: string; versions: SyncConflictVersions } | null>(null)
+  const [side, setSide] = useState<CompareSide>('theirs')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const [open, setOpen] = useState(true)
+  const { shouldRender, animating } = useExitAnimation(open, EXIT_MS)
+  const exiting = animating === 'exit'
+
+  const instanceId = useId().replace(/:/g, '')
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const monacoRef = useRef<MonacoApi | null>(null)
+  const diffRef = useRef<editor.IStandaloneDiffEditor | null>(null)
+  const originalModelRef = useRef<editor.ITextModel | null>(null)
+  const modifiedModelRef = useRef<editor.ITextModel | null>(null)
+  const modelSeqRef = useRef(0)
+  const [editorReady, setEditorReady] = useState(false)
+
+  const loadConflicts = useCallback(async () => {
+    if (!worktreePath) return
+    try {
+      const next = await window.api.git.getSyncConflicts(worktreePath)
+      setConflicts(next)
+      setSelectedPath((prev) => {
+        const files = next?.files ?? []
+        if (prev && files.some((file) => file.path === prev)) return prev
+        return files[0]?.path ?? null
+      })
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load conflicts'))
+    } finally {
+      setLoaded(true)
+    }
+  }, [worktreePath])
+
+  useEffect(() => {
+    void loadConflicts()
+  }, [loadConflicts])
+
+  useEffect(() => {
+    setLoadedFile(null)
+    if (!selectedPath || !worktreePath) return
+    let cancelled = false
+    window.api.git.getConflictVersions(worktreePath, selectedPath)
+      .then((versions) => {
+        if (!cancelled) setLoadedFile({ path: selectedPath, versions })
+      })
+      .catch((err) => {
+        if (!cancelled) setError(errorMessage(err, 'Failed to read the conflicted file'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedPath, worktreePath])
+
+  // Imperative `createDiffEditor`, as in FullFileDiffEditor; models are swapped in place so
+  // edits to the working file survive switching the compared side.
+  useEffect(() => {
+    let live = true
+    void loader.init().then((monaco) => {
+      if (!live || !containerRef.current) return
+      monacoRef.current = monaco
+      ensureAppearanceMonacoThemes(monaco.editor)
+      diffRef.current = monaco.editor.createDiffEditor(containerRef.current, {
+        originalEditable: false,
+        renderSideBySide: true,
+        ignoreTrimWhitespace: false,
+        renderMarginRevertIcon: false,
+        fontFamily: "'SF Mono', Menlo, 'Cascadia Code', monospace",
+        minimap: { enabled: false },
+        scrollbar: { verticalScrollbarSize: 6, horizontalScrollbarSize: 6 },
+        padding: { top: 8, bottom: 8 },
+        automaticLayout: true,
+        glyphMargin: false,
+        lineNumbersMinChars: 2,
+        lineDecorationsWidth: 4,
+        fixedOverflowWidgets: true,
+      })
+      setEditorReady(true)
+    })
+    return () => {
+      live = false
+      diffRef.current?.dispose()
+      diffRef.current = null
+      originalModelRef.current?.dispose()
+      modifiedModelRef.current?.dispose()
+      originalModelRef.current = null
+      modifiedModelRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const monaco = monacoRef.current
+    if (!editorReady || !monaco) return
+    monaco.editor.setTheme(getAppearanceMonacoThemeName(appearanceThemeId))
+    diffRef.current?.updateOptions({
+      fontSize: editorFontSize,
+      cursorBlinking: prefersReducedMotion ? 'solid' : 'smooth',
+      smoothScrolling: !prefersReducedMotion,
+    })
+  }, [appearanceThemeId, editorFontSize, editorReady, prefersReducedMotion])
+
+  const replaceModel = useCallback((pane: 'original' | 'modified', filePath: string, content: string) => {
+    const monaco = monacoRef.current
+    const diffEditor = diffRef.current
+    if (!monaco || !diffEditor) return
+    const ref = pane === 'original' ? originalModelRef : modifiedModelRef
+    const uri = monaco.Uri.parse(
+      `inmemory://cga-conflict/${pane}/${instanceId}/${++modelSeqRef.current}/${encodeURIComponent(filePath)}`,
+    )
+    const previous = ref.current
+    ref.current = monaco.editor.createModel(content, getLanguage(filePath), uri)
+    const original = originalModelRef.current
+    const modified = modifiedModelRef.current
+    if (original && modified) diffEditor.setModel({ original, modified })
+    previous?.dispose()
+  }, [instanceId])
+
+  useEffect(() => {
+    if (editorReady && loadedFile) replaceModel('modified', loadedFile.path, loadedFile.versions.merged ?? '')
+  }, [editorReady, loadedFile, replaceModel])
+
+  useEffect(() => {
+    if (editorReady && loadedFile) replaceModel('original', loadedFile.path, loadedFile.versions[side] ?? '')
+  }, [editorReady, loadedFile, replaceModel, side])
+
+  const animateExit = useCallback(() => {
+    if (exiting) return
+    setOpen(false)
+  }, [exiting])
+
+  useEffect(() => {
+    if (!shouldRender) onClose()
+  }, [shouldRender, onClose])
+
+  const runAction = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true)
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      console.error('[SyncConflictDialog] action failed:', err)
+      setError(errorMessage(err, fallback))
+    } finally {
+      setBusy(false)
+    }
+  }, [])
+
+  const resolveSelected = useCallback((resolution: SyncConflictResolution) => {
+    if (!selectedPath) return
+    void runAction(async () => {
+      await window.api.git.resolveConflictFile(worktreePath, selectedPath, resolution)
+      await loadConflicts()
+    }, `Failed to resolve ${selectedPath}`)
+  }, [loadConflicts, runAction, selectedPath, worktreePath])
+
+  const handleMarkResolved = useCallback(() => {
+    const content = modifiedModelRef.current?.getValue()
+    if (content === undefined) return
+    if (CONFLICT_MARKER_RE.test(content)) {
+      setError('Remove the conflict markers before marking the file resolved')
+      return
+    }
+    resolveSelected({ content })
+  }, [resolveSelected])
+
+  const handleContinue = useCallback(() => {
+    if (!workspace) return
+    void runAction(async () => {
+      const result = await window.api.git.continueSync(workspace.projectId, worktreePath)
+      if (result.conflict) {
+        await loadConflicts()
+        setError(result.error ?? 'The sync stopped on more conflicts')
+        return
+      }
+      if (!result.success) throw new Error(result.error ?? 'Failed to continue the sync')
+      addToast({ id: crypto.randomUUID(), message: `Synced ${workspace.name}`, type: 'info' })
+      animateExit()
+    }, 'Failed to continue the sync')
+  }, [addToast, animateExit, loadConflicts, runAction, workspace, worktreePath])
+
+  const handleAbort = useCallback(() => {
+    if (!workspace) return
+    void runAction(async () => {
+      const result = await window.api.git.abortSync(workspace.projectId, worktreePath)
+      if (result?.error) addToast({ id: crypto.randomUUID(), message: result.error, type: 'warning' })
+      animateExit()
+    }, 'Failed to abort the sync')
+  }, [addToast, animateExit, runAction, workspace, worktreePath])
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') animateExit()
+  }, [animateExit])
+
+  if (!shouldRender || !workspace) return null
+
+  const files = conflicts?.files ?? []
+  const labels = conflicts ? conflictSideLabels(conflicts.operation) : null
+  const sideLabels: Record<CompareSide, string> = {
+    base: 'Base',
+    ours: labels?.ours ?? 'Ours',
+    theirs: labels?.theirs ?? 'Theirs',
+  }
+  const versions = loadedFile?.versions ?? null
+  const showEditor = files.length > 0 && !!selectedPath
+
+  return (
+    <div
+      className={`${styles.overlay} constellagent-dialog-overlay ${exiting ? 'constellagent-dialog-overlay--exiting' : ''}`}
+      onClick={animateExit}
+    >
+      <div
+        className={`${styles.dialog} constellagent-dialog-body ${exiting ? 'constellagent-dialog-body--exiting' : ''}`}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-modal="true"
+        tabIndex={-1}
+      >
+        <div className={styles.title}>Sync conflicts · {workspace.name}</div>
+
+        {!conflicts ? (
+          <div className={styles.note}>
+            {loaded ? 'No sync is waiting on conflicts in this workspace.' : 'Loading…'}
+          </div>
+        ) : files.length === 0 ? (
+          <div className={styles.note}>All files are resolved. Continue to finish the sync.</div>
+        ) : null}
+
+        <div className={styles.body} style={showEditor ? undefined : { display: 'none' }}>
+          <div className={styles.fileList}>
+            {files.map((file) => (
+              <button
+                key={file.path}
+                type="button"
+                className={`${styles.fileRow} ${file.path === selectedPath ? styles.fileRowActive : ''}`}
+                onClick={() => setSelectedPath(file.path)}
+                title={file.path}
+              >
+                <span className={styles.filePath}>{file.path}</span>
+                <span className={styles.fileStatus}>{STATUS_LABELS[file.status]}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className={styles.compare}>
+            <div className={styles.paneHeader}>
+              <div className={styles.sideTabs} role="tablist">
+                {(['base', 'ours', 'theirs'] as CompareSide[]).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    role="tab"
+                    aria-selected={side === option}
+                    className={`${styles.sideTab} ${side === option ? styles.sideTabActive : ''}`}
+                    onClick={() => setSide(option)}
+                  >
+                    {sideLabels[option]}
+                    {versions && versions[option] === null ? ' (none)' : ''}
+                  </button>
+                ))}
+              </div>
+              <span className={styles.paneLabel}>Result (editable)</span>
+            </div>
+            <div ref={containerRef} className={styles.editor} />
+            <div className={styles.fileActions}>
+              <button
+                type="button"
+                className={styles.secondaryBtn}
+                onClick={() => resolveSelected({ take: 'ours' })}
+                disabled={busy || !versions}
+              >
+                Use {sideLabels.ours.toLowerCase()}
+              </button>
+              <button
+                type="button"
+                className={styles.secondaryBtn}
+                onClick={() => resolveSelected({ take: 'theirs' })}
+                disabled={busy || !versions}
+              >
+                Use {sideLabels.theirs.toLowerCase()}
+              </button>
+              <button
+                type="button"
+                className={styles.secondaryBtn}
+                onClick={handleMarkResolved}
+                disabled={busy || !versions}
+              >
+                Mark resolved
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.cancelBtn} onClick={animateExit}>
+            Close
+          </button>
+          <button
+            type="button"
+            className={styles.dangerBtn}
+            onClick={handleAbort}
+            disabled={busy || !conflicts}
+          >
+            Abort sync
+          </button>
+          <button
+            type="button"
+            className={styles.primaryBtn}
+            onClick={handleContinue}
+            disabled={busy || !conflicts || files.length > 0}
+          >
+            Continue sync
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
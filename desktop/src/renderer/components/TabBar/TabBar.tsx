@@ -2,10 +2,11 @@ import { useCallback, useMemo, useRef, useState } from 'react'
 import { useAppStore } from '../../store/app-store'
 import type { Tab, AgentType } from '../../store/types'
 import { resolveEditor } from '../../store/types'
-import { getAllPtyIds } from '../../store/split-helpers'
+import { getAllPtyIds, resolvePtyForTerminalTab } from '../../store/split-helpers'
 import { CONSTELLAGENT_PATH_MIME, CONSTELLAGENT_TAB_MIME } from '../../utils/add-to-chat'
 import { Tooltip } from '../Tooltip/Tooltip'
 import { GEMINI_TAB_LABEL } from '../../../shared/gemini-tab-title'
+import type { TranscriptExportFormat } from '../../../shared/terminal-transcript'
 import { GeminiIcon } from '../Icons/GeminiIcon'
 import { CursorIcon } from '../Icons/CursorIcon'
 import { OpenCodeIcon } from '../Icons/OpenCodeIcon'
@@ -93,6 +94,7 @@ export function TabBar() {
   const [dragOverTabId, setDragOverTabId] = useState<string | null>(null)
   const [reorderDropIndex, setReorderDropIndex] = useState<number | null>(null)
   const [draggingTabId, setDraggingTabId] = useState<string | null>(null)
+  const [tabMenu, setTabMenu] = useState<{ ptyId: string; x: number; y: number } | null>(null)
   /** Same pattern as Sidebar `draggingWorkspaceIdRef` — Electron needs sync ref for dragOver. */
   const draggingTabIdRef = useRef<string | null>(null)
   const leftSidePanelOpen = useAppStore((s) => s.sidePanels.left.open)
@@ -131,6 +133,20 @@ export function TabBar() {
     return getFileGitBadge(statusMap.get(relPath))
   }, [workspaces, gitFileStatuses])
 
+  const exportTranscript = useCallback(async (ptyId: string, format: TranscriptExportFormat) => {
+    setTabMenu(null)
+    try {
+      const filePath = await window.api.transcripts.export({ ptyId }, format)
+      if (filePath) addToast({ id: crypto.randomUUID(), type: 'info', message: `Exported transcript to ${filePath}` })
+    } catch (err) {
+      addToast({
+        id: crypto.randomUUID(),
+        type: 'error',
+        message: `Export failed: ${err instanceof Error ? err.message : String(err)}`,
+      })
+    }
+  }, [addToast])
+
   const editor = useMemo(() => resolveEditor(settings), [settings])
 
   const canAcceptTabMerge = useCallback((targetTab: Tab, sourceId: string | null): boolean => {
@@ -305,6 +321,12 @@ export function TabBar() {
                 e.dataTransfer.setData('text/plain', tab.id)
                 e.dataTransfer.effectAllowed = 'move'
               }}
+              onContextMenu={tab.type === 'terminal'
+                ? (e) => {
+                    e.preventDefault()
+                    setTabMenu({ ptyId: resolvePtyForTerminalTab(tab), x: e.clientX, y: e.clientY })
+                  }
+                : undefined}
               onDragEnd={endTabDrag}
               onDragOver={(e) => handleTabDragOver(tab, e)}
               onDragLeave={(e) => handleTabDragLeave(tab.id, e)}
@@ -425,6 +447,36 @@ export function TabBar() {
 
       {/* Spacer last so “open in editor” sits with other actions, not flush against the right sidebar */}
       <div className={styles.dragSpacer} />
+
+      {tabMenu && (
+        <div className={styles.tabMenuOverlay} onClick={() => setTabMenu(null)}>
+          <div
+            className={styles.tabMenu}
+            style={{ left: tabMenu.x, top: tabMenu.y }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              type="button"
+              className={styles.tabMenuItem}
+              disabled={!settings.recordTerminalTranscripts}
+              onClick={() => void exportTranscript(tabMenu.ptyId, 'text')}
+            >
+              Export transcript as text…
+            </button>
+            <button
+              type="button"
+              className={styles.tabMenuItem}
+              disabled={!settings.recordTerminalTranscripts}
+              onClick={() => void exportTranscript(tabMenu.ptyId, 'asciicast')}
+            >
+              Export transcript as asciicast…
+            </button>
+            {!settings.recordTerminalTranscripts && (
+              <div className={styles.tabMenuHint}>Turn on transcript recording in Settings</div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
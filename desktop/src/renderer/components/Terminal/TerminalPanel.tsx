@@ -5,6 +5,8 @@ import { WebLinksAddon } from '@xterm/addon-web-links'
 import { useAppStore } from '../../store/app-store'
 import { getAppearanceTerminalTheme } from '../../theme/appearance'
 import { CONSTELLAGENT_PATH_MIME, wrapBracketedPaste } from '../../utils/add-to-chat'
+import { takeRestoredScrollback } from '../../utils/restored-scrollback'
+import { formatRestoredScrollback } from '../../../shared/terminal-scrollback'
 import styles from './TerminalPanel.module.css'
 
 const TAB_TITLE_LOG = '[constellagent:tab-title]'
@@ -119,6 +121,10 @@ export function TerminalPanel({ ptyId, active, inSplit, paneId, onFocus, isFocus
         term.loadAddon(webLinksAddon)
         term.open(termDiv)
 
+        // First mount after an app restart: replay the previous session above the new prompt.
+        const restored = takeRestoredScrollback(ptyId)
+        if (restored) term.write(formatRestoredScrollback(restored))
+
         // ⌘1–9: xterm can see the keydown before/without the same capture path as `useShortcuts`
         // in some Electron focus cases — handle here so project switching always works from PTY focus.
         term.attachCustomKeyEventHandler((ev: KeyboardEvent) => {
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { PrReviewThread } from '@shared/github-types'
+import { useAppStore } from '../store/app-store'
+
+/**
+ * Loads the GitHub review threads of the PR open for `worktreePath`'s current branch.
+ * `reload` re-fetches after replying or resolving; it is a no-op until a PR is known.
+ */
+export function usePrReviewThreads(worktreePath: string, enabled = true): {
+  prNumber: number | null
+  threads: PrReviewThread[]
+  reload: () => Promise<void>
+} {
+  const [prNumber, setPrNumber] = useState<number | null>(null)
+  const [threads, setThreads] = useState<PrReviewThread[]>([])
+  const prNumberRef = useRef<number | null>(null)
+
+  const fetchThreads = useCallback(async (number: number) => {
+    try {
+      const next = await window.api.github.getPrReviewThreads(worktreePath, number)
+      if (prNumberRef.current === number) setThreads(next)
+    } catch (err) {
+      console.error('Failed to load PR review threads:', err)
+    }
+  }, [worktreePath])
+
+  useEffect(() => {
+    prNumberRef.current = null
+    setPrNumber(null)
+    setThreads([])
+    if (!enabled) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const branch = await window.api.git.getCurrentBranch(worktreePath)
+        if (!branch || cancelled) return
+
+        const { projects, workspaces, prStatusMap } = useAppStore.getState()
+        const ws = workspaces.find((w) => w.worktreePath === worktreePath)
+        if (!ws) return
+        const project = projects.find((p) => p.id === ws.projectId)
+        if (!project) return
+
+        const prInfo = prStatusMap.get(`${project.id}:${branch}`)
+        if (!prInfo?.number || cancelled) return
+        prNumberRef.current = prInfo.number
+        setPrNumber(prInfo.number)
+        await fetchThreads(prInfo.number)
+      } catch (err) {
+        console.error('Failed to load PR review threads:', err)
+      }
+    })()
+    return () => {
+      cancelled = true
+      prNumberRef.current = null
+    }
+  }, [worktreePath, enabled, fetchThreads])
+
+  const reload = useCallback(async () => {
+    if (prNumberRef.current != null) await fetchThreads(prNumberRef.current)
+  }, [fetchThreads])
+
+  return { prNumber, threads, reload }
+}
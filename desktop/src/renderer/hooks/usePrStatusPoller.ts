@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react'
-import type { PrLookupResult } from '@shared/github-types'
+import type { GithubRateLimitStatus, PrLookupResult } from '@shared/github-types'
 import { useAppStore } from '../store/app-store'
 import {
   isStableWorkspaceBranch,
@@ -15,6 +15,13 @@ const PENDING_BURST_MS = 60_000
 const PR_POLL_HINT_EVENT = 'constellagent:pr-poll-hint'
 const BACKGROUND_WORKSPACE_BATCH = 2
 
+/** Stretch `intervalMs` by the main process's rate-limit backoff, or wait out a block. */
+function applyRateLimitBackoff(intervalMs: number, status: GithubRateLimitStatus | null): number {
+  if (!status) return intervalMs
+  const scaled = intervalMs * status.backoffMultiplier
+  return status.blockedUntil ? Math.max(scaled, status.blockedUntil - Date.now()) : scaled
+}
+
 function buildPolledWorkspaceList<T extends { id: string; projectId: string }>(
   workspaces: T[],
   activeWorkspaceId: string | null,
@@ -45,6 +52,7 @@ export function usePrStatusPoller(): void {
   const queuedImmediateRef = useRef(false)
   const burstUntilRef = useRef(0)
   const backgroundCursorRef = useRef(0)
+  const rateLimitRef = useRef<GithubRateLimitStatus | null>(null)
 
   useEffect(() => {
     let disposed = false
@@ -56,7 +64,10 @@ export function usePrStatusPoller(): void {
       if (until > burstUntilRef.current) burstUntilRef.current = until
     }
 
-    const nextIntervalMs = () => (inBurst() ? FAST_POLL_INTERVAL : NORMAL_POLL_INTERVAL)
+    const nextIntervalMs = () => applyRateLimitBackoff(
+      inBurst() ? FAST_POLL_INTERVAL : NORMAL_POLL_INTERVAL,
+      rateLimitRef.current,
+    )
 
     async function pollAll(): Promise<{ hasPendingChecks: boolean }> {
       const {
@@ -164,6 +175,7 @@ export function usePrStatusPoller(): void {
 
       const settled = await Promise.allSettled(fetches)
       const hasPendingChecks = settled.some((item) => item.status === 'fulfilled' && item.value)
+      rateLimitRef.current = await window.api.github.getRateLimit().catch(() => null)
       return { hasPendingChecks }
     }
 
@@ -455,6 +455,12 @@ export function useShortcuts() {
         store.activatePanel('changes')
         return
       }
+      // Cmd+Shift+H — replace in files (Quick Open handles it itself to pass its query along)
+      if (shift && !alt && e.code === 'KeyH' && !store.quickOpenVisible && store.activeWorkspaceId) {
+        consume()
+        store.openSearchReplace(store.activeWorkspaceId)
+        return
+      }
       // Cmd+Option+G — git panel (routes to the side that owns Git)
       if (!shift && alt && e.code === 'KeyG') {
         consume()
@@ -0,0 +1,73 @@
+/**
+ * Project-wide replace from the renderer side: files with unsaved edits in an open tab are
+ * matched and edited in their Monaco model (left unsaved, undoable with Cmd+Z); every other
+ * file is rewritten by the main process in one all-or-nothing step.
+ */
+
+import type { CodeReplaceEdit, CodeReplaceFile } from '@shared/code-search-types'
+import { useAppStore } from '../store/app-store'
+import { findOpenModel } from './lsp-navigation'
+
+/** Unsaved text of the worktree's dirty file tabs, keyed by path. */
+export async function collectUnsavedBuffers(worktreePath: string): Promise<Map<string, string>> {
+  const paths = new Set<string>()
+  for (const tab of useAppStore.getState().tabs) {
+    if (tab.type === 'file' && tab.unsaved && tab.filePath.startsWith(`${worktreePath}/`)) paths.add(tab.filePath)
+  }
+  const buffers = new Map<string, string>()
+  if (paths.size === 0) return buffers
+  const monaco = await import('monaco-editor')
+  for (const filePath of paths) {
+    const model = findOpenModel(monaco, filePath)
+    if (model) buffers.set(filePath, model.getValue())
+  }
+  return buffers
+}
+
+export interface AppliedReplace {
+  /** Files rewritten on disk. */
+  written: string[]
+  /** Files edited in their open tab and left unsaved. */
+  buffered: string[]
+}
+
+/**
+ * Applies the included matches of a preview. `buffers` is the unsaved text the preview was
+ * computed from; if any tab or file changed since, nothing is applied.
+ */
+export async function applyCodeReplacements(
+  worktreePath: string,
+  files: Array<{ file: CodeReplaceFile; edits: CodeReplaceEdit[] }>,
+  buffers: Map<string, string>,
+): Promise<AppliedReplace> {
+  const monaco = await import('monaco-editor')
+  const bufferTargets = files.filter(({ file }) => file.fromBuffer).map((target) => {
+    const model = findOpenModel(monaco, target.file.path)
+    if (!model || model.getValue() !== buffers.get(target.file.path)) {
+      throw new Error(`${target.file.relativePath} changed since the preview; search again`)
+    }
+    return { ...target, model }
+  })
+
+  const diskFiles = files.filter(({ file }) => !file.fromBuffer)
+  const written = diskFiles.length > 0
+    ? (await window.api.fs.applyReplacements(worktreePath, {
+        files: diskFiles.map(({ file, edits }) => ({ path: file.path, contentHash: file.contentHash, edits })),
+      })).files
+    : []
+
+  for (const { model, edits } of bufferTargets) {
+    model.pushStackElement()
+    model.pushEditOperations([], edits.map((edit) => {
+      const start = model.getPositionAt(edit.start)
+      const end = model.getPositionAt(edit.end)
+      return {
+        range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+        text: edit.replacement,
+      }
+    }), () => null)
+    model.pushStackElement()
+  }
+
+  return { written, buffered: bufferTargets.map(({ file }) => file.path) }
+}
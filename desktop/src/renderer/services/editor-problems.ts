@@ -0,0 +1,79 @@
+/**
+ * Feeds the Problems panel with markers from Monaco's own language workers (the built-in
+ * TypeScript/JavaScript diagnostics). Language server markers are skipped: the main
+ * process already collects those for every file, open or not.
+ */
+
+import type * as Monaco from 'monaco-editor'
+import { useMemo } from 'react'
+import { useAppStore } from '../store/app-store'
+import { getFilePathFromModelPath } from '../utils/language-map'
+import { dedupeProblems, type ProblemSeverity, type WorkspaceProblem } from '@shared/workspace-problems'
+import { LSP_MARKER_OWNER_PREFIX } from './lsp-client-manager'
+
+type MonacoApi = typeof Monaco
+
+let installed = false
+
+function toSeverity(monaco: MonacoApi, severity: Monaco.MarkerSeverity): ProblemSeverity {
+  switch (severity) {
+    case monaco.MarkerSeverity.Error:
+      return 'error'
+    case monaco.MarkerSeverity.Warning:
+      return 'warning'
+    case monaco.MarkerSeverity.Info:
+      return 'info'
+    default:
+      return 'hint'
+  }
+}
+
+function markerCode(code: Monaco.editor.IMarker['code']): string | undefined {
+  if (code === undefined) return undefined
+  return typeof code === 'string' ? code : code.value
+}
+
+function syncMarkers(monaco: MonacoApi, resource: Monaco.Uri): void {
+  if (resource.scheme !== 'file') return
+  const filePath = getFilePathFromModelPath(resource.path)
+  const problems: WorkspaceProblem[] = monaco.editor
+    .getModelMarkers({ resource })
+    .filter((marker) => !marker.owner.startsWith(LSP_MARKER_OWNER_PREFIX))
+    .map((marker) => ({
+      filePath,
+      line: marker.startLineNumber,
+      column: marker.startColumn,
+      endLine: marker.endLineNumber,
+      endColumn: marker.endColumn,
+      severity: toSeverity(monaco, marker.severity),
+      message: marker.message,
+      ...(marker.source ? { source: marker.source } : {}),
+      ...(markerCode(marker.code) ? { code: markerCode(marker.code) } : {}),
+    }))
+  useAppStore.getState().setEditorProblems(filePath, problems)
+}
+
+export function installEditorProblemTracking(monaco: MonacoApi): void {
+  if (installed) return
+  installed = true
+  monaco.editor.onDidChangeMarkers((resources) => {
+    for (const resource of resources) syncMarkers(monaco, resource)
+  })
+  monaco.editor.onWillDisposeModel((model) => {
+    if (model.uri.scheme === 'file') useAppStore.getState().setEditorProblems(getFilePathFromModelPath(model.uri.path), [])
+  })
+}
+
+/** Language server and editor diagnostics for files inside `worktreePath`, duplicates dropped. */
+export function useWorkspaceProblems(worktreePath: string | undefined): WorkspaceProblem[] {
+  const lspProblems = useAppStore((s) => (worktreePath ? s.lspProblems.get(worktreePath) : undefined))
+  const editorProblems = useAppStore((s) => s.editorProblems)
+  return useMemo(() => {
+    if (!worktreePath) return []
+    const prefix = `${worktreePath}/`
+    const fromEditor = Array.from(editorProblems)
+      .filter(([filePath]) => filePath.startsWith(prefix))
+      .flatMap(([, problems]) => problems)
+    return dedupeProblems([...(lspProblems ?? []), ...fromEditor])
+  }, [worktreePath, lspProblems, editorProblems])
+}
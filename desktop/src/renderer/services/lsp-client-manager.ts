@@ -1,19 +1,19 @@
 /**
  * LSP Client Manager — connects Monaco editors to LSP servers via WebSocket.
- * Singleton that manages one client per (language, workspace) pair.
+ * Singleton that manages one client per (server, root) pair; which server and root
+ * a file uses is decided by the main process from the merged LSP config.
  * All initialization is async and non-blocking — editor mounts immediately.
  */
 
+import { LSP_PROJECT_CONFIG_PATH, type LspServerTarget, type LspUntrustedProjectConfig } from '../../shared/lsp-types'
+import { useAppStore } from '../store/app-store'
 import type { MonacoLanguageId } from '../utils/language-map'
 import { getLanguage } from '../utils/language-map'
 
-/** Spawn keys matching main-process `LSP_SERVERS[].language` in `lsp-config.ts`. */
-const LSP_LANGUAGES = new Set(['python', 'go', 'rust', 'typescript', 'prisma'] as const)
-
-const TS_JS_MONACO_LANGS = new Set(['typescript', 'typescriptreact', 'javascript', 'javascriptreact'])
-const LSP_MARKER_OWNER_PREFIX = 'lsp:'
-
-export type LspServerKey = 'python' | 'go' | 'rust' | 'typescript' | 'prisma'
+/** Owner prefix of the markers set from language server diagnostics. */
+export const LSP_MARKER_OWNER_PREFIX = 'lsp:'
+/** Close code the bridge uses when a server restarts; clients reconnect and reopen documents. */
+const CLOSE_RESTARTING = 1012
 
 interface LspDiagnostic {
   range: {
@@ -32,31 +32,106 @@ interface LspClient {
   pendingRequests: Map<number, { resolve: (result: unknown) => void; reject: (err: Error) => void }>
   nextId: number
   disposed: boolean
-  documentVersions: Map<string, number>
+  documents: Map<string, OpenDocument>
+  /** Resolves with the server's capabilities once `initialize` has been answered. */
+  initialized: Promise<Record<string, unknown>>
+}
+
+interface OpenDocument {
+  languageId: string
+  version: number
+  text: string
 }
 
 const clients = new Map<string, LspClient>()
 const initPromises = new Map<string, Promise<LspClient | null>>()
+const markerOwners = new Set<string>()
+/** Open document path (as Monaco sees it) → the client it was opened on and its LSP URI. */
+const documentOwners = new Map<string, { key: string; uri: string }>()
 let monacoImportPromise: Promise<typeof import('monaco-editor')> | null = null
+/** Worktree → the user's answer about trusting its language server settings and binaries, asked once per session. */
+const projectTrustDecisions = new Map<string, Promise<void>>()
 
 function clientKey(language: string, workspace: string): string {
   return `${language}:${workspace}`
 }
 
-export function isLspLanguage(language: string): boolean {
-  return LSP_LANGUAGES.has(language)
-}
-
-/** LSP process / WebSocket key for this file (e.g. all TS/JS Monaco langs share `typescript`). */
-export function getLspServerKeyForPath(
+/**
+ * LSP server and root for this file (e.g. all TS/JS files share `typescript`), or null when
+ * no configured server handles it or its binary is missing.
+ */
+export async function resolveLspServer(
+  worktreePath: string,
   filePath: string,
   languageOverride?: MonacoLanguageId | null,
-): LspServerKey | null {
-  const lang = languageOverride ?? getLanguage(filePath)
-  if (TS_JS_MONACO_LANGS.has(lang)) return 'typescript'
-  if (lang === 'prisma' || filePath.toLowerCase().endsWith('.prisma')) return 'prisma'
-  if (LSP_LANGUAGES.has(lang)) return lang
-  return null
+): Promise<LspServerTarget | null> {
+  try {
+    await decideProjectTrust(worktreePath, filePath, languageOverride ?? null)
+    return await window.api.lsp.resolveServer(worktreePath, filePath, languageOverride)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Asks before a worktree's project config may choose the commands and environment its
+ * language servers run with, or its own server binaries may run; until then the built-in
+ * and user settings and `PATH` are used. Asked at most once per worktree per session.
+ */
+function decideProjectTrust(worktreePath: string, filePath: string, languageOverride: string | null): Promise<void> {
+  const pending = projectTrustDecisions.get(worktreePath)
+  if (pending) {
+    // Another file's check found nothing to ask; this one may still find a server binary
+    return pending.then(() => (
+      projectTrustDecisions.has(worktreePath) ? undefined : decideProjectTrust(worktreePath, filePath, languageOverride)
+    ))
+  }
+  const decision = window.api.lsp.getUntrustedProjectConfig(worktreePath, filePath, languageOverride)
+    .then((untrusted) => {
+      if (untrusted) return askProjectTrust(worktreePath, untrusted)
+      projectTrustDecisions.delete(worktreePath)
+    })
+    .catch(() => {
+      projectTrustDecisions.delete(worktreePath)
+    })
+  projectTrustDecisions.set(worktreePath, decision)
+  return decision
+}
+
+function askProjectTrust(worktreePath: string, untrusted: LspUntrustedProjectConfig): Promise<void> {
+  return new Promise((resolve) => {
+    const { showConfirmDialog, dismissConfirmDialog } = useAppStore.getState()
+    let trusted = false
+    const dialog = {
+      title: 'Trust language server settings?',
+      message: [
+        untrusted.servers.length > 0
+          ? `${LSP_PROJECT_CONFIG_PATH} in this repository sets the command or environment for: ${untrusted.servers.join(', ')}.`
+          : null,
+        untrusted.binaries.length > 0
+          ? `This repository ships its own language server: ${untrusted.binaries.join(', ')}.`
+          : null,
+        'These run as soon as a matching file is opened.',
+      ].filter(Boolean).join(' '),
+      confirmLabel: 'Trust',
+      tip: 'Only trust repositories you know. Otherwise the built-in and user settings and servers on your PATH are used; you will be asked again if these settings change.',
+      onConfirm: () => {
+        trusted = true
+        dismissConfirmDialog()
+      },
+    }
+    // Cancel (or any other dialog replacing this one) keeps the repository untrusted
+    const unsubscribe = useAppStore.subscribe((state) => {
+      if (state.confirmDialog === dialog) return
+      unsubscribe()
+      if (!trusted) {
+        resolve()
+        return
+      }
+      void window.api.lsp.trustProjectConfig(worktreePath, untrusted.fingerprint).catch(() => {}).finally(resolve)
+    })
+    showConfirmDialog(dialog)
+  })
 }
 
 /** `languageId` for `textDocument/didOpen` (must match what each server expects). */
@@ -73,7 +148,12 @@ export function toFileUri(filePath: string): string {
   return encodeURI(`file://${filePath}`)
 }
 
-export async function getOrCreateClient(language: string, workspace: string): Promise<LspClient | null> {
+/** `workspace` is the server root; `worktreePath` is where the config and binaries are looked up. */
+export async function getOrCreateClient(
+  language: string,
+  workspace: string,
+  worktreePath: string,
+): Promise<LspClient | null> {
   const key = clientKey(language, workspace)
 
   const existing = clients.get(key)
@@ -83,7 +163,7 @@ export async function getOrCreateClient(language: string, workspace: string): Pr
   const pending = initPromises.get(key)
   if (pending) return pending
 
-  const promise = initClient(language, workspace, key)
+  const promise = initClient(language, workspace, worktreePath, key)
   initPromises.set(key, promise)
   try {
     return await promise
@@ -92,20 +172,28 @@ export async function getOrCreateClient(language: string, workspace: string): Pr
   }
 }
 
-async function initClient(language: string, workspace: string, key: string): Promise<LspClient | null> {
+async function initClient(
+  language: string,
+  workspace: string,
+  worktreePath: string,
+  key: string,
+): Promise<LspClient | null> {
   try {
     const port = await window.api.lsp.getPort()
     if (!port) return null
 
-    const ws = new WebSocket(`ws://127.0.0.1:${port}?language=${language}&workspace=${encodeURIComponent(workspace)}`)
+    const params = new URLSearchParams({ language, workspace, worktree: worktreePath })
+    const ws = new WebSocket(`ws://127.0.0.1:${port}?${params}`)
 
+    let resolveInitialized: (capabilities: Record<string, unknown>) => void = () => {}
     const client: LspClient = {
       ws,
       ready: false,
       pendingRequests: new Map(),
       nextId: 1,
       disposed: false,
-      documentVersions: new Map(),
+      documents: new Map(),
+      initialized: new Promise((resolve) => { resolveInitialized = resolve }),
     }
 
     return await new Promise<LspClient | null>((resolve) => {
@@ -128,11 +216,20 @@ async function initClient(language: string, workspace: string, key: string): Pro
               completion: { completionItem: { snippetSupport: true } },
               hover: { contentFormat: ['markdown', 'plaintext'] },
               publishDiagnostics: { relatedInformation: true },
+              definition: { linkSupport: true },
+              typeDefinition: { linkSupport: true },
+              implementation: { linkSupport: true },
+              references: {},
+              rename: { prepareSupport: true },
+            },
+            workspace: {
+              workspaceEdit: { documentChanges: true },
             },
           },
-        }).then(() => {
+        }).then((result) => {
           sendNotification(client, 'initialized', {})
-        }).catch(() => {})
+          resolveInitialized((result as { capabilities?: Record<string, unknown> } | null)?.capabilities ?? {})
+        }).catch(() => resolveInitialized({}))
 
         resolve(client)
       }
@@ -143,10 +240,14 @@ async function initClient(language: string, workspace: string, key: string): Pro
         resolve(null)
       }
 
-      ws.onclose = () => {
+      ws.onclose = (event) => {
+        const wasOpen = !client.disposed
         client.disposed = true
         rejectPendingRequests(client, new Error('LSP socket closed'))
-        clients.delete(key)
+        if (clients.get(key) === client) clients.delete(key)
+        if (wasOpen && event.code === CLOSE_RESTARTING && client.documents.size > 0) {
+          void reopenDocuments(language, workspace, worktreePath, client.documents)
+        }
       }
 
       ws.onmessage = (event) => {
@@ -170,6 +271,60 @@ async function initClient(language: string, workspace: string, key: string): Pro
   }
 }
 
+/** Reconnects after a server restart and replays the documents the old client had open. */
+async function reopenDocuments(
+  language: string,
+  workspace: string,
+  worktreePath: string,
+  documents: Map<string, OpenDocument>,
+): Promise<void> {
+  const client = await getOrCreateClient(language, workspace, worktreePath)
+  if (!client) return
+  for (const [uri, doc] of documents) {
+    if (client.documents.has(uri)) continue
+    client.documents.set(uri, { ...doc, version: 1 })
+    documentOwners.set(documentPath(uri), { key: clientKey(language, workspace), uri })
+    sendNotification(client, 'textDocument/didOpen', {
+      textDocument: { uri, languageId: doc.languageId, version: 1, text: doc.text },
+    })
+  }
+}
+
+function documentPath(uri: string): string {
+  try {
+    return decodeURIComponent(new URL(uri).pathname)
+  } catch {
+    return uri
+  }
+}
+
+/**
+ * Sends a request about an open document to the server it was opened on. `path` is the
+ * Monaco model path; the document's LSP URI is passed to `buildParams`. Resolves null when
+ * no server has the document open or the server lacks `capability`.
+ */
+export async function requestForDocument(
+  path: string,
+  capability: string,
+  method: string,
+  buildParams: (uri: string) => unknown,
+): Promise<unknown> {
+  const owner = documentOwners.get(path)
+  const client = owner ? clients.get(owner.key) : undefined
+  if (!owner || !client || client.disposed) return null
+  const capabilities = await client.initialized
+  if (!capabilities[capability]) return null
+  return sendRequest(client, method, buildParams(owner.uri))
+}
+
+/** The server's capability entry for an open document (e.g. `renameProvider`), if any. */
+export async function getDocumentCapability(path: string, capability: string): Promise<unknown> {
+  const owner = documentOwners.get(path)
+  const client = owner ? clients.get(owner.key) : undefined
+  if (!owner || !client || client.disposed) return undefined
+  return (await client.initialized)[capability]
+}
+
 function rejectPendingRequests(client: LspClient, error: Error): void {
   for (const [, pending] of client.pendingRequests) {
     pending.reject(error)
@@ -210,7 +365,9 @@ function toMarkerSeverity(monacoSeverity: number | undefined): 1 | 2 | 4 | 8 {
 }
 
 function markerOwner(language: string): string {
-  return `${LSP_MARKER_OWNER_PREFIX}${language}`
+  const owner = `${LSP_MARKER_OWNER_PREFIX}${language}`
+  markerOwners.add(owner)
+  return owner
 }
 
 async function loadMonaco() {
@@ -255,7 +412,7 @@ export async function clearLspDiagnosticsForUri(uri: string, language?: string |
   const monaco = await loadMonaco()
   const model = monaco.editor.getModel(monaco.Uri.parse(uri))
   if (!model) return
-  const owners = language ? [markerOwner(language)] : Array.from(LSP_LANGUAGES, (key) => markerOwner(key))
+  const owners = language ? [markerOwner(language)] : Array.from(markerOwners)
   for (const owner of owners) {
     monaco.editor.setModelMarkers(model, owner, [])
   }
@@ -267,7 +424,8 @@ export function notifyDidOpen(language: string, workspace: string, uri: string,
   const client = clients.get(key)
   if (!client || client.disposed) return
 
-  client.documentVersions.set(uri, 1)
+  client.documents.set(uri, { languageId, version: 1, text })
+  documentOwners.set(documentPath(uri), { key, uri })
   sendNotification(client, 'textDocument/didOpen', {
     textDocument: { uri, languageId, version: 1, text },
   })
@@ -278,10 +436,10 @@ export function notifyDidChange(language: string, workspace: string, uri: string
   const key = clientKey(language, workspace)
   const client = clients.get(key)
   if (!client || client.disposed) return
-  const previousVersion = client.documentVersions.get(uri)
-  if (previousVersion == null) return
-  const version = previousVersion + 1
-  client.documentVersions.set(uri, version)
+  const doc = client.documents.get(uri)
+  if (!doc) return
+  const version = doc.version + 1
+  client.documents.set(uri, { ...doc, version, text })
   sendNotification(client, 'textDocument/didChange', {
     textDocument: { uri, version },
     contentChanges: [{ text }],
@@ -291,17 +449,18 @@ export function notifyDidChange(language: string, workspace: string, uri: string
 /** Notify the LSP server that a file was closed */
 export function notifyDidClose(language: string, workspace: string, uri: string): void {
   const key = clientKey(language, workspace)
+  if (documentOwners.get(documentPath(uri))?.key === key) documentOwners.delete(documentPath(uri))
   const client = clients.get(key)
   if (!client || client.disposed) {
     void clearLspDiagnosticsForUri(uri, language)
     return
   }
 
-  client.documentVersions.delete(uri)
+  client.documents.delete(uri)
   sendNotification(client, 'textDocument/didClose', {
     textDocument: { uri },
   })
-  if (client.documentVersions.size === 0) {
+  if (client.documents.size === 0) {
     closeClient(key, client)
   }
   void clearLspDiagnosticsForUri(uri, language)
@@ -0,0 +1,285 @@
+/**
+ * Cross-file LSP navigation for Monaco: definition / type definition / implementation
+ * results open (or focus) `FileEditor` tabs, "Find All References" fills the references
+ * drawer, and rename goes through the rename preview so files that aren't open in a tab
+ * are edited on disk.
+ */
+
+import type * as Monaco from 'monaco-editor'
+import type { editor, IDisposable } from 'monaco-editor'
+import { useAppStore } from '../store/app-store'
+import type { LspReferencesState } from '../store/types'
+import { getFilePathFromModelPath } from '../utils/language-map'
+import { getDocumentCapability, requestForDocument } from './lsp-client-manager'
+import {
+  applyTextEdits,
+  normalizeLocations,
+  workspaceEditToFileEdits,
+  type FileLocation,
+  type FileTextEdits,
+  type LspRange,
+  type LspTextEdit,
+} from './lsp-workspace-edit'
+
+type MonacoApi = typeof Monaco
+
+let installedMonaco: MonacoApi | null = null
+/** Monaco language ids that already have our providers registered. */
+const registeredLanguages = new Set<string>()
+
+function toLspPosition(position: Monaco.IPosition) {
+  return { line: position.lineNumber - 1, character: position.column - 1 }
+}
+
+function toMonacoRange(range: LspRange): Monaco.IRange {
+  return {
+    startLineNumber: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLineNumber: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  }
+}
+
+function toMonacoLocations(monaco: MonacoApi, locations: FileLocation[]): Monaco.languages.Location[] {
+  return locations.map((location) => ({
+    uri: monaco.Uri.file(location.filePath),
+    range: toMonacoRange(location.range),
+  }))
+}
+
+async function requestLocations(model: editor.ITextModel, position: Monaco.IPosition, capability: string, method: string) {
+  const result = await requestForDocument(model.uri.path, capability, method, (uri) => ({
+    textDocument: { uri },
+    position: toLspPosition(position),
+  })).catch(() => null)
+  return result == null ? null : normalizeLocations(result)
+}
+
+/** Open Monaco model for a file on disk, including models of language-overridden tabs. */
+export function findOpenModel(monaco: MonacoApi, filePath: string): editor.ITextModel | null {
+  return monaco.editor.getModels().find((model) => (
+    model.uri.scheme === 'file' && getFilePathFromModelPath(model.uri.path) === filePath
+  )) ?? null
+}
+
+function registerLanguageProviders(monaco: MonacoApi, languageId: string): void {
+  if (registeredLanguages.has(languageId)) return
+  registeredLanguages.add(languageId)
+  // Per language rather than '*': a wildcard selector ranks below language-specific providers.
+  monaco.languages.registerDefinitionProvider(languageId, {
+    provideDefinition: async (model, position) => {
+      const locations = await requestLocations(model, position, 'definitionProvider', 'textDocument/definition')
+      return locations ? toMonacoLocations(monaco, locations) : null
+    },
+  })
+  monaco.languages.registerTypeDefinitionProvider(languageId, {
+    provideTypeDefinition: async (model, position) => {
+      const locations = await requestLocations(model, position, 'typeDefinitionProvider', 'textDocument/typeDefinition')
+      return locations ? toMonacoLocations(monaco, locations) : null
+    },
+  })
+  monaco.languages.registerImplementationProvider(languageId, {
+    provideImplementation: async (model, position) => {
+      const locations = await requestLocations(model, position, 'implementationProvider', 'textDocument/implementation')
+      return locations ? toMonacoLocations(monaco, locations) : null
+    },
+  })
+  monaco.languages.registerRenameProvider(languageId, {
+    resolveRenameLocation: async (model, position) => {
+      const renameProvider = await getDocumentCapability(model.uri.path, 'renameProvider')
+      if (!renameProvider) return null
+      const word = model.getWordAtPosition(position)
+      const wordLocation = word
+        ? {
+            range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn),
+            text: word.word,
+          }
+        : null
+      if (typeof renameProvider !== 'object' || !(renameProvider as { prepareProvider?: boolean }).prepareProvider) {
+        return wordLocation
+      }
+      const prepared = await requestForDocument(model.uri.path, 'renameProvider', 'textDocument/prepareRename', (uri) => ({
+        textDocument: { uri },
+        position: toLspPosition(position),
+      })).catch(() => null) as LspRange | { range: LspRange; placeholder: string } | { defaultBehavior: boolean } | null
+      if (!prepared) {
+        return {
+          range: monaco.Range.fromPositions(position),
+          text: '',
+          rejectReason: 'This element can’t be renamed.',
+        }
+      }
+      if ('defaultBehavior' in prepared) return wordLocation
+      const range = 'range' in prepared ? prepared.range : prepared
+      return {
+        range: toMonacoRange(range),
+        text: 'placeholder' in prepared ? prepared.placeholder : model.getValueInRange(toMonacoRange(range)),
+      }
+    },
+    provideRenameEdits: async (model, position, newName) => {
+      const result = await requestForDocument(model.uri.path, 'renameProvider', 'textDocument/rename', (uri) => ({
+        textDocument: { uri },
+        position: toLspPosition(position),
+        newName,
+      }))
+      if (result === null) return null
+      const { files, unsupported } = workspaceEditToFileEdits(result as Parameters<typeof workspaceEditToFileEdits>[0])
+      if (files.length === 0) return { edits: [], rejectReason: 'Nothing to rename.' }
+      const word = model.getWordAtPosition(position)
+      useAppStore.getState().showLspRenamePreview({ oldName: word?.word ?? '', newName, files, unsupported })
+      // Applied from the preview instead; Monaco can only edit models that are open.
+      return { edits: [] }
+    },
+  })
+}
+
+/**
+ * One-time Monaco setup: navigation into another file opens it in a tab at the target
+ * position instead of being dropped by the standalone editor.
+ */
+export function installLspNavigation(monaco: MonacoApi): void {
+  if (installedMonaco) return
+  installedMonaco = monaco
+  monaco.editor.registerEditorOpener({
+    openCodeEditor: (source, resource, selectionOrPosition) => {
+      if (resource.scheme !== 'file') return false
+      if (source.getModel()?.uri.toString() === resource.toString()) return false
+      const start = selectionOrPosition && 'startLineNumber' in selectionOrPosition
+        ? { lineNumber: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+        : selectionOrPosition ?? { lineNumber: 1, column: 1 }
+      useAppStore.getState().openFileTab(getFilePathFromModelPath(resource.path), {
+        initialPosition: { lineNumber: start.lineNumber, column: start.column },
+      })
+      return true
+    },
+  })
+}
+
+async function showLocationList(ed: editor.ICodeEditor, kind: LspReferencesState['kind']): Promise<void> {
+  const model = ed.getModel()
+  const position = ed.getPosition()
+  if (!model || !position) return
+  const [capability, method] = kind === 'references'
+    ? ['referencesProvider', 'textDocument/references']
+    : ['implementationProvider', 'textDocument/implementation']
+  const result = await requestForDocument(model.uri.path, capability, method, (uri) => ({
+    textDocument: { uri },
+    position: toLspPosition(position),
+    ...(kind === 'references' ? { context: { includeDeclaration: true } } : {}),
+  })).catch(() => null)
+  const state = useAppStore.getState()
+  if (result === null) {
+    state.addToast({ id: `lsp-${kind}-${Date.now()}`, message: `No language server provides ${kind} for this file`, type: 'info' })
+    return
+  }
+  state.showLspReferences({
+    kind,
+    symbol: model.getWordAtPosition(position)?.word ?? '',
+    locations: normalizeLocations(result),
+  })
+}
+
+/** Registers the LSP providers for an editor's language and adds the location list actions. */
+export function attachLspNavigation(monaco: MonacoApi, ed: editor.IStandaloneCodeEditor): IDisposable {
+  installLspNavigation(monaco)
+  const register = () => {
+    const languageId = ed.getModel()?.getLanguageId()
+    if (languageId) registerLanguageProviders(monaco, languageId)
+  }
+  register()
+  const disposables = [
+    ed.onDidChangeModel(register),
+    ed.onDidChangeModelLanguage(register),
+    ed.addAction({
+      id: 'constellagent.lsp.findAllReferences',
+      label: 'Find All References',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.6,
+      run: (target) => showLocationList(target, 'references'),
+    }),
+    ed.addAction({
+      id: 'constellagent.lsp.findAllImplementations',
+      label: 'Find All Implementations',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.7,
+      run: (target) => showLocationList(target, 'implementations'),
+    }),
+  ]
+  return {
+    dispose: () => {
+      for (const disposable of disposables) disposable.dispose()
+    },
+  }
+}
+
+/** Current text of a file: the open tab's (possibly unsaved) model, else the file on disk. */
+export async function readCurrentText(filePath: string): Promise<string | null> {
+  const model = installedMonaco ? findOpenModel(installedMonaco, filePath) : null
+  if (model) return model.getValue()
+  return await window.api.fs.readFile(filePath) as string | null
+}
+
+/** What a rename changed, kept so the toast's Undo can restore it. */
+export interface AppliedRename {
+  files: Array<{ filePath: string; before: string; after: string; model: editor.ITextModel | null }>
+}
+
+function toEditOperations(model: editor.ITextModel, edits: LspTextEdit[]): editor.IIdentifiedSingleEditOperation[] {
+  return edits.map((edit) => ({ range: model.validateRange(toMonacoRange(edit.range)), text: edit.newText }))
+}
+
+/**
+ * Applies a rename: files open in a tab are edited in their model (undoable with Cmd+Z and
+ * left unsaved), others are rewritten on disk through `fs.writeFile`.
+ */
+export async function applyRenameEdits(files: FileTextEdits[]): Promise<AppliedRename> {
+  const monaco = installedMonaco ?? await import('monaco-editor')
+  // Read every closed file first so a missing one fails the rename before anything changes
+  const targets = await Promise.all(files.map(async (file) => {
+    const model = findOpenModel(monaco, file.filePath)
+    if (model) return { file, model, before: model.getValue() }
+    const before = await window.api.fs.readFile(file.filePath) as string | null
+    if (before === null) throw new Error(`${file.filePath} no longer exists`)
+    return { file, model: null, before }
+  }))
+  const applied: AppliedRename = { files: [] }
+  for (const { file, model, before } of targets) {
+    if (model) {
+      model.pushStackElement()
+      model.pushEditOperations([], toEditOperations(model, file.edits), () => null)
+      model.pushStackElement()
+      applied.files.push({ filePath: file.filePath, before, after: model.getValue(), model })
+      continue
+    }
+    const after = applyTextEdits(before, file.edits)
+    await window.api.fs.writeFile(file.filePath, after)
+    applied.files.push({ filePath: file.filePath, before, after, model: null })
+  }
+  return applied
+}
+
+/** Reverts an applied rename; files changed since are left alone and returned. */
+export async function undoRenameEdits(applied: AppliedRename): Promise<string[]> {
+  const skipped: string[] = []
+  for (const file of applied.files) {
+    if (file.model) {
+      if (file.model.isDisposed() || file.model.getValue() !== file.after) {
+        skipped.push(file.filePath)
+        continue
+      }
+      file.model.pushStackElement()
+      file.model.pushEditOperations([], [{ range: file.model.getFullModelRange(), text: file.before }], () => null)
+      file.model.pushStackElement()
+      continue
+    }
+    const current = await window.api.fs.readFile(file.filePath) as string | null
+    if (current !== file.after) {
+      skipped.push(file.filePath)
+      continue
+    }
+    await window.api.fs.writeFile(file.filePath, file.before)
+  }
+  return skipped
+}
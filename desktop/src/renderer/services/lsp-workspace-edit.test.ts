@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  applyTextEdits,
+  groupLocationsByFile,
+  lspUriToFilePath,
+  normalizeLocations,
+  previewLineEdits,
+  workspaceEditToFileEdits,
+} from './lsp-workspace-edit'
+
+const range = (line: number, start: number, end = start) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+})
+
+describe('lspUriToFilePath', () => {
+  it('decodes file URIs and strips language override suffixes', () => {
+    expect(lspUriToFilePath('file:///w/my%20dir/a.ts')).toBe('/w/my dir/a.ts')
+    expect(lspUriToFilePath('file:///w/script.__constellagent__.py')).toBe('/w/script')
+    expect(lspUriToFilePath('untitled:Untitled-1')).toBeNull()
+  })
+})
+
+describe('normalizeLocations', () => {
+  it('accepts a single location, location arrays and location links', () => {
+    expect(normalizeLocations({ uri: 'file:///w/a.ts', range: range(1, 2) })).toEqual([
+      { filePath: '/w/a.ts', range: range(1, 2) },
+    ])
+    expect(normalizeLocations([
+      { targetUri: 'file:///w/b.ts', targetRange: range(0, 0, 20), targetSelectionRange: range(0, 9, 12) },
+      { uri: 'https://example.com/x.ts', range: range(0, 0) },
+    ])).toEqual([{ filePath: '/w/b.ts', range: range(0, 9, 12) }])
+    expect(normalizeLocations(null)).toEqual([])
+  })
+})
+
+describe('groupLocationsByFile', () => {
+  it('sorts files and positions', () => {
+    const grouped = groupLocationsByFile([
+      { filePath: '/w/b.ts', range: range(3, 0) },
+      { filePath: '/w/a.ts', range: range(9, 1) },
+      { filePath: '/w/a.ts', range: range(2, 4) },
+    ])
+    expect(grouped.map((g) => [g.filePath, g.locations.map((l) => l.range.start.line)])).toEqual([
+      ['/w/a.ts', [2, 9]],
+      ['/w/b.ts', [3]],
+    ])
+  })
+})
+
+describe('workspaceEditToFileEdits', () => {
+  it('reads changes and documentChanges, counting file operations as unsupported', () => {
+    expect(workspaceEditToFileEdits({
+      changes: { 'file:///w/a.ts': [{ range: range(0, 0, 3), newText: 'bar' }] },
+    })).toEqual({ files: [{ filePath: '/w/a.ts', edits: [{ range: range(0, 0, 3), newText: 'bar' }] }], unsupported: 0 })
+
+    const result = workspaceEditToFileEdits({
+      documentChanges: [
+        { textDocument: { uri: 'file:///w/a.ts', version: 3 }, edits: [{ range: range(0, 0, 3), newText: 'bar' }] },
+        { kind: 'rename' },
+        { textDocument: { uri: 'file:///w/b.ts', version: null }, edits: [] },
+      ],
+    })
+    expect(result.files.map((f) => f.filePath)).toEqual(['/w/a.ts'])
+    expect(result.unsupported).toBe(1)
+  })
+})
+
+describe('applyTextEdits', () => {
+  it('applies edits back to front regardless of their order', () => {
+    const text = 'const foo = 1\nfoo + foo\n'
+    expect(applyTextEdits(text, [
+      { range: range(0, 6, 9), newText: 'bar' },
+      { range: range(1, 6, 9), newText: 'bar' },
+      { range: range(1, 0, 3), newText: 'bar' },
+    ])).toBe('const bar = 1\nbar + bar\n')
+  })
+
+  it('keeps same-position inserts in order and clamps past line ends', () => {
+    expect(applyTextEdits('ab', [
+      { range: range(0, 1), newText: 'X' },
+      { range: range(0, 1), newText: 'Y' },
+    ])).toBe('aXYb')
+    expect(applyTextEdits('ab\ncd', [{ range: range(0, 99), newText: '!' }])).toBe('ab!\ncd')
+    expect(applyTextEdits('ab', [{ range: { start: { line: 0, character: 2 }, end: { line: 5, character: 0 } }, newText: '\n' }])).toBe('ab\n')
+  })
+})
+
+describe('previewLineEdits', () => {
+  it('shows each touched line before and after', () => {
+    const text = 'import { foo } from "./a"\n\nfoo(foo)\n'
+    expect(previewLineEdits(text, [
+      { range: range(2, 4, 7), newText: 'bar' },
+      { range: range(0, 9, 12), newText: 'bar' },
+      { range: range(2, 0, 3), newText: 'bar' },
+    ])).toEqual([
+      { line: 0, before: 'import { foo } from "./a"', after: 'import { bar } from "./a"' },
+      { line: 2, before: 'foo(foo)', after: 'bar(bar)' },
+    ])
+  })
+})
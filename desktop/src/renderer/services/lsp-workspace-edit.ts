@@ -0,0 +1,196 @@
+/**
+ * Pure helpers for LSP navigation results and `WorkspaceEdit`s: converting server URIs to
+ * files on disk, flattening location results, and applying text edits to file contents.
+ */
+
+import { getFilePathFromModelPath } from '../utils/language-map'
+
+export interface LspPosition {
+  line: number
+  character: number
+}
+
+export interface LspRange {
+  start: LspPosition
+  end: LspPosition
+}
+
+export interface LspTextEdit {
+  range: LspRange
+  newText: string
+}
+
+interface LspLocation {
+  uri: string
+  range: LspRange
+}
+
+interface LspLocationLink {
+  targetUri: string
+  targetRange: LspRange
+  targetSelectionRange?: LspRange
+}
+
+interface LspTextDocumentEdit {
+  textDocument: { uri: string; version?: number | null }
+  edits: LspTextEdit[]
+}
+
+export interface LspWorkspaceEdit {
+  changes?: Record<string, LspTextEdit[]>
+  /** `TextDocumentEdit`s, possibly mixed with create/rename/delete file operations. */
+  documentChanges?: Array<LspTextDocumentEdit | { kind: string }>
+}
+
+export interface FileLocation {
+  filePath: string
+  range: LspRange
+}
+
+export interface FileTextEdits {
+  filePath: string
+  edits: LspTextEdit[]
+}
+
+/** Disk path for a `file://` URI (editor language-override suffixes stripped), else null. */
+export function lspUriToFilePath(uri: string): string | null {
+  if (!uri.startsWith('file://')) return null
+  try {
+    return getFilePathFromModelPath(decodeURIComponent(new URL(uri).pathname))
+  } catch {
+    return null
+  }
+}
+
+function isRange(value: unknown): value is LspRange {
+  const range = value as LspRange | null
+  return !!range && typeof range.start?.line === 'number' && typeof range.end?.line === 'number'
+}
+
+/** Flattens `Location | Location[] | LocationLink[] | null` into file locations. */
+export function normalizeLocations(result: unknown): FileLocation[] {
+  const entries = Array.isArray(result) ? result : result ? [result] : []
+  const locations: FileLocation[] = []
+  for (const entry of entries) {
+    const link = entry as LspLocationLink
+    const location = entry as LspLocation
+    const uri = typeof link.targetUri === 'string' ? link.targetUri : location.uri
+    const range = typeof link.targetUri === 'string' ? (link.targetSelectionRange ?? link.targetRange) : location.range
+    const filePath = typeof uri === 'string' ? lspUriToFilePath(uri) : null
+    if (filePath && isRange(range)) locations.push({ filePath, range })
+  }
+  return locations
+}
+
+/** Locations grouped per file, files and positions in order. */
+export function groupLocationsByFile(locations: FileLocation[]): Array<{ filePath: string; locations: FileLocation[] }> {
+  const byFile = new Map<string, FileLocation[]>()
+  for (const location of locations) {
+    byFile.set(location.filePath, [...(byFile.get(location.filePath) ?? []), location])
+  }
+  return Array.from(byFile, ([filePath, list]) => ({
+    filePath,
+    locations: [...list].sort((a, b) => comparePositions(a.range.start, b.range.start)),
+  })).sort((a, b) => a.filePath.localeCompare(b.filePath))
+}
+
+/**
+ * Text edits per file. File create/rename/delete operations are not applied and only
+ * counted, so callers can refuse or warn about a partially supported edit.
+ */
+export function workspaceEditToFileEdits(edit: LspWorkspaceEdit | null | undefined): {
+  files: FileTextEdits[]
+  unsupported: number
+} {
+  const byFile = new Map<string, LspTextEdit[]>()
+  let unsupported = 0
+  const add = (uri: string, edits: LspTextEdit[]) => {
+    const filePath = lspUriToFilePath(uri)
+    if (!filePath) {
+      unsupported++
+      return
+    }
+    byFile.set(filePath, [...(byFile.get(filePath) ?? []), ...edits])
+  }
+
+  if (edit?.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ('textDocument' in change) add(change.textDocument.uri, change.edits)
+      else unsupported++
+    }
+  } else if (edit?.changes) {
+    for (const [uri, edits] of Object.entries(edit.changes)) add(uri, edits)
+  }
+
+  return {
+    files: Array.from(byFile, ([filePath, edits]) => ({ filePath, edits })).filter((file) => file.edits.length > 0),
+    unsupported,
+  }
+}
+
+function comparePositions(a: LspPosition, b: LspPosition): number {
+  return a.line - b.line || a.character - b.character
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) starts.push(i + 1)
+  }
+  return starts
+}
+
+function offsetAt(text: string, starts: number[], position: LspPosition): number {
+  if (position.line >= starts.length) return text.length
+  const start = starts[position.line]
+  const end = position.line + 1 < starts.length ? starts[position.line + 1] - 1 : text.length
+  return Math.min(start + Math.max(0, position.character), end)
+}
+
+/** Applies non-overlapping LSP text edits (UTF-16 positions) to `text`. */
+export function applyTextEdits(text: string, edits: LspTextEdit[]): string {
+  const starts = lineStarts(text)
+  const resolved = edits
+    .map((edit, index) => ({
+      start: offsetAt(text, starts, edit.range.start),
+      end: offsetAt(text, starts, edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    // Later edits first; same-position inserts keep their given order
+    .sort((a, b) => b.start - a.start || b.index - a.index)
+  let result = text
+  for (const edit of resolved) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end)
+  }
+  return result
+}
+
+/** Worktree-relative path for list headers; files outside the worktree stay absolute. */
+export function displayPath(filePath: string, worktreePath?: string): string {
+  return worktreePath && filePath.startsWith(`${worktreePath}/`) ? filePath.slice(worktreePath.length + 1) : filePath
+}
+
+/** Before/after of each line touched by `edits`, for the rename preview. */
+export function previewLineEdits(
+  text: string,
+  edits: LspTextEdit[],
+): Array<{ line: number; before: string; after: string }> {
+  const lines = text.split('\n')
+  const byLine = new Map<number, LspTextEdit[]>()
+  for (const edit of edits) {
+    byLine.set(edit.range.start.line, [...(byLine.get(edit.range.start.line) ?? []), edit])
+  }
+  return Array.from(byLine, ([line, lineEdits]) => {
+    const lastLine = Math.max(...lineEdits.map((edit) => edit.range.end.line))
+    const before = lines.slice(line, lastLine + 1).join('\n')
+    const shifted = lineEdits.map((edit) => ({
+      newText: edit.newText,
+      range: {
+        start: { line: edit.range.start.line - line, character: edit.range.start.character },
+        end: { line: edit.range.end.line - line, character: edit.range.end.character },
+      },
+    }))
+    return { line, before: before.trim(), after: applyTextEdits(before, shifted).trim() }
+  }).sort((a, b) => a.line - b.line)
+}
@@ -109,7 +109,17 @@ import {
   type AutomationConfigLike,
   type AutomationTrigger,
 } from '../../shared/automation-types'
+import {
+  AUTOMATIONS_FILE_PATH,
+  generateAutomationWebhookSecret,
+  planAutomationImport,
+  type AutomationImportPlanItem,
+  type ProjectAutomationsFileReadResult,
+} from '../../shared/automation-file'
 import { normalizeWorktreeCredentialRules } from '../../shared/worktree-credentials'
+import { normalizeStartupCommands, startupCommandsEqual } from '../../shared/startup-commands'
+import { DEFAULT_WORKTREE_SYNC_STRATEGY, normalizeSyncStrategy } from '../../shared/sync-types'
+import { stashRestoredScrollback } from '../utils/restored-scrollback'
 
 const DEFAULT_PR_LINK_PROVIDER = 'github' as const
 
@@ -124,15 +134,9 @@ const LEGACY_REMOVED_SETTING_KEYS = [
   'linearResolverDefaultSource',
 ] as const
 
-/** Strip unknown persisted fields (e.g. legacy waitFor / waitCondition). */
+/** Validate persisted startup commands, migrating legacy waitFor / waitCondition. */
 function normalizeHydratedStartupCommands(raw: Project['startupCommands']): StartupCommand[] | undefined {
-  if (!raw?.length) return undefined
-  const out: StartupCommand[] = []
-  for (const c of raw) {
-    const command = typeof c.command === 'string' ? c.command : ''
-    if (!command.trim()) continue
-    out.push({ name: typeof c.name === 'string' ? c.name : '', command })
-  }
+  const out = normalizeStartupCommands(raw)
   return out.length > 0 ? out : undefined
 }
 
@@ -190,18 +194,10 @@ function normalizeProject(project: Project): Project {
   } else {
     delete normalized.graphitePreferredTrunk
   }
-  return normalized
-}
-
-function startupCommandsEqual(a: StartupCommand[] | undefined, b: StartupCommand[] | undefined): boolean {
-  const left = normalizeHydratedStartupCommands(a) ?? []
-  const right = normalizeHydratedStartupCommands(b) ?? []
-  if (left.length !== right.length) return false
-  for (let i = 0; i < left.length; i += 1) {
-    if (left[i]?.name !== right[i]?.name) return false
-    if (left[i]?.command !== right[i]?.command) return false
+  if (normalizeSyncStrategy(project.syncStrategy) === DEFAULT_WORKTREE_SYNC_STRATEGY) {
+    delete normalized.syncStrategy
   }
-  return true
+  return normalized
 }
 
 function setProjectStartupCommandsInStore(projectId: string, startupCommands: StartupCommand[] | undefined): void {
@@ -329,9 +325,14 @@ function normalizeRendererAutomation(raw: Partial<Automation> & { id: string; na
     createdAt: raw.createdAt ?? Date.now(),
     trigger,
     action,
+    steps: raw.steps && raw.steps.length > 0 ? raw.steps : undefined,
+    runTarget: raw.runTarget,
+    historyRetention: raw.historyRetention,
+    maxDurationMs: raw.maxDurationMs,
     cooldownMs: raw.cooldownMs ?? DEFAULT_AUTOMATION_COOLDOWN_MS,
     lastRunAt: raw.lastRunAt,
     lastRunStatus: raw.lastRunStatus,
+    lastRunSteps: raw.lastRunSteps,
   }
 }
 
@@ -342,12 +343,96 @@ function toAutomationIpcConfig(automation: Automation, repoPath: string): Automa
     projectId: automation.projectId,
     trigger: automation.trigger ?? { type: 'cron', cronExpression: automation.cronExpression },
     action: automation.action ?? { type: 'run-prompt', prompt: automation.prompt },
+    steps: automation.steps,
+    runTarget: automation.runTarget,
+    historyRetention: automation.historyRetention,
+    maxDurationMs: automation.maxDurationMs,
     enabled: automation.enabled,
     repoPath,
     cooldownMs: automation.cooldownMs ?? DEFAULT_AUTOMATION_COOLDOWN_MS,
   }
 }
 
+/**
+ * Writes an import plan into the store and (re)schedules each automation in main. With
+ * `keepEnabledState`, overwritten automations keep their local enabled toggle.
+ */
+export async function applyAutomationImport(
+  projectId: string,
+  plan: AutomationImportPlanItem[],
+  options: { keepEnabledState?: boolean } = {},
+): Promise<void> {
+  const project = useAppStore.getState().projects.find((entry) => entry.id === projectId)
+  if (!project) return
+  for (const { entry, replacesId } of plan) {
+    const store = useAppStore.getState()
+    const existing = replacesId ? store.automations.find((automation) => automation.id === replacesId) : undefined
+    // Secrets aren't checked in: keep the local one, or mint one for a new webhook automation.
+    const trigger = entry.trigger.type === 'webhook' && !entry.trigger.secret
+      ? {
+          ...entry.trigger,
+          secret: existing?.trigger?.type === 'webhook' ? existing.trigger.secret : generateAutomationWebhookSecret(),
+        }
+      : entry.trigger
+    const fields = {
+      name: entry.name,
+      projectId,
+      prompt: legacyPromptForAction(entry.action),
+      cronExpression: legacyCronForTrigger(trigger),
+      enabled: existing && options.keepEnabledState ? existing.enabled : entry.enabled,
+      trigger,
+      action: entry.action,
+      steps: entry.steps,
+      runTarget: entry.runTarget,
+      historyRetention: entry.historyRetention,
+      maxDurationMs: entry.maxDurationMs,
+      cooldownMs: entry.cooldownMs,
+    }
+    if (existing) {
+      store.updateAutomation(existing.id, fields)
+    } else {
+      store.addAutomation({ id: entry.id, createdAt: Date.now(), ...fields })
+    }
+    const automation = useAppStore.getState().automations.find((candidate) => candidate.id === entry.id)
+    if (!automation) continue
+    if (automation.enabled) {
+      await window.api.automations.create(toAutomationIpcConfig(automation, project.repoPath))
+    } else {
+      await window.api.automations.delete(automation.id)
+    }
+  }
+}
+
+/** Pulls the repo's checked-in automations into the store for projects that opted in. The file wins on conflicts. */
+export async function loadRepoAutomationsForProject(projectId: string): Promise<void> {
+  const project = useAppStore.getState().projects.find((entry) => entry.id === projectId)
+  if (!project?.autoLoadAutomations) return
+  let result: ProjectAutomationsFileReadResult | null
+  try {
+    result = await window.api.automations.readProjectFile(project.repoPath)
+  } catch (err) {
+    console.warn(`[automations] Could not read ${AUTOMATIONS_FILE_PATH} for ${project.name}:`, err)
+    return
+  }
+  if (!result) return
+  if (result.errors.length > 0) {
+    console.warn(`[automations] Skipped invalid entries in ${result.filePath}:`, result.errors)
+    useAppStore.getState().addToast({
+      id: crypto.randomUUID(),
+      type: 'warning',
+      message: `${project.name}: skipped ${result.errors.length} invalid automation${result.errors.length === 1 ? '' : 's'} in ${AUTOMATIONS_FILE_PATH}`,
+    })
+  }
+  const plan = planAutomationImport(
+    useAppStore.getState().automations,
+    project.id,
+    result.automations,
+    () => 'overwrite',
+    () => crypto.randomUUID(),
+  )
+  await applyAutomationImport(project.id, plan, { keepEnabledState: true })
+}
+
 /** Drop plan→terminal entries when the terminal tab no longer exists (e.g. bulk tab removal). */
 function planBuildMapForTabs(map: Record<string, string>, tabs: Tab[]): Record<string, string> {
   const terminalIds = new Set(
@@ -406,6 +491,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   sidePanels: DEFAULT_SIDE_PANEL_LAYOUT,
   panelDockDrag: null,
   collapsedProjectIds: new Set<string>(),
+  runningAutomationIds: new Set<string>(),
   lastActiveWorkspaceByProjectId: {},
   lastSavedTabId: null,
   workspaceDialogProjectId: null,
@@ -423,6 +509,13 @@ export const useAppStore = create<AppState>((set, get) => ({
   planPaletteVisible: false,
   hunkReviewOpen: false,
   hunkReviewWorkspaceId: null,
+  ciChecksWorkspaceId: null,
+  lspReferences: null,
+  lspRenamePreview: null,
+  problemsPanelWorkspaceId: null,
+  searchReplace: null,
+  lspProblems: new Map(),
+  editorProblems: new Map(),
   unreadWorkspaceIds: new Set<string>(),
   activeClaudeWorkspaceIds: new Set<string>(),
   prStatusMap: new Map(),
@@ -432,6 +525,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   workingTreeDiffSnapshots: new Map(),
   worktreeSyncStatus: new Map(),
   graphiteStacks: new Map(),
+  workspacePorts: new Map(),
   graphiteStackExpanded: false,
   lastKnownRemoteHead: {},
   activeMonacoEditor: null,
@@ -452,8 +546,9 @@ export const useAppStore = create<AppState>((set, get) => ({
       normalizedProject.repoPath,
       normalizedProject.startupCommands,
     )
-    void window.api.git.startSyncPolling(project.id, project.repoPath)
+    void window.api.git.startSyncPolling(project.id, project.repoPath, normalizedProject.syncStrategy)
     void reconcileGitWorktreesForStore(project.id)
+    void loadRepoAutomationsForProject(project.id)
   },
 
   removeProject: (id) => {
@@ -555,6 +650,7 @@ export const useAppStore = create<AppState>((set, get) => ({
         branch: workspace.branch,
         meta: workspace.automationId ? { automationOrigin: workspace.automationId } : undefined,
       })
+      void window.api.ports.release(workspace.id)
     }
     set((s) => {
       const newWorkspaces = s.workspaces.filter((w) => w.id !== id)
@@ -1817,6 +1913,14 @@ export const useAppStore = create<AppState>((set, get) => ({
           : p,
       ),
     }))
+
+    const updated = get().projects.find((project) => project.id === id)
+    if (
+      updated &&
+      (partial.repoPath !== undefined || ('syncStrategy' in partial && partial.syncStrategy !== existing?.syncStrategy))
+    ) {
+      void window.api.git.startSyncPolling(updated.id, updated.repoPath, updated.syncStrategy)
+    }
   },
 
   deleteProject: async (projectId) => {
@@ -1972,6 +2076,34 @@ export const useAppStore = create<AppState>((set, get) => ({
     })
   },
   closeHunkReview: () => set({ hunkReviewOpen: false, hunkReviewWorkspaceId: null }),
+  openCiChecks: (workspaceId) => set({ ciChecksWorkspaceId: workspaceId, hunkReviewOpen: false, hunkReviewWorkspaceId: null }),
+  closeCiChecks: () => set({ ciChecksWorkspaceId: null }),
+  showLspReferences: (references) => set({ lspReferences: references }),
+  closeLspReferences: () => set({ lspReferences: null }),
+  showLspRenamePreview: (preview) => set({ lspRenamePreview: preview }),
+  closeLspRenamePreview: () => set({ lspRenamePreview: null }),
+  openProblemsPanel: (workspaceId) => set({ problemsPanelWorkspaceId: workspaceId }),
+  closeProblemsPanel: () => set({ problemsPanelWorkspaceId: null }),
+  openSearchReplace: (workspaceId, initialQuery = '') => set({ searchReplace: { workspaceId, initialQuery } }),
+  closeSearchReplace: () => set({ searchReplace: null }),
+
+  setLspProblems: (worktreePath, problems) =>
+    set((s) => {
+      if (problems.length === 0 && !s.lspProblems.has(worktreePath)) return s
+      const lspProblems = new Map(s.lspProblems)
+      if (problems.length > 0) lspProblems.set(worktreePath, problems)
+      else lspProblems.delete(worktreePath)
+      return { lspProblems }
+    }),
+
+  setEditorProblems: (filePath, problems) =>
+    set((s) => {
+      if (problems.length === 0 && !s.editorProblems.has(filePath)) return s
+      const editorProblems = new Map(s.editorProblems)
+      if (problems.length > 0) editorProblems.set(filePath, problems)
+      else editorProblems.delete(filePath)
+      return { editorProblems }
+    }),
   submitHunkReview: async (selectedCommentIds?: Set<string>) => {
     const s = get()
     const ws = s.workspaces.find((w) => w.id === s.hunkReviewWorkspaceId)
@@ -2241,6 +2373,9 @@ export const useAppStore = create<AppState>((set, get) => ({
       return { graphiteStacks: next }
     }),
 
+  setWorkspacePorts: (allocations) =>
+    set({ workspacePorts: new Map(allocations.map((allocation) => [allocation.workspaceId, allocation])) }),
+
   toggleGraphiteStackExpanded: () =>
     set((s) => ({ graphiteStackExpanded: !s.graphiteStackExpanded })),
 
@@ -2257,6 +2392,15 @@ export const useAppStore = create<AppState>((set, get) => ({
   removeAutomation: (id) =>
     set((s) => ({ automations: s.automations.filter((a) => a.id !== id) })),
 
+  setAutomationRunning: (id, running) =>
+    set((s) => {
+      if (s.runningAutomationIds.has(id) === running) return {}
+      const next = new Set(s.runningAutomationIds)
+      if (running) next.add(id)
+      else next.delete(id)
+      return { runningAutomationIds: next }
+    }),
+
   addSkill: (skill) =>
     set((s) => ({ settings: { ...s.settings, skills: [...s.settings.skills, skill] } })),
   removeSkill: (id) =>
@@ -2709,6 +2853,11 @@ useAppStore.subscribe((state, prevState) => {
   window.api.git.setSyncBusy(paths)
 })
 
+useAppStore.subscribe((state, prevState) => {
+  if (state.settings.recordTerminalTranscripts === prevState.settings.recordTerminalTranscripts) return
+  window.api.transcripts.setRecording(state.settings.recordTerminalTranscripts)
+})
+
 // Flush state to disk synchronously when the window is closing.
 // Uses sendSync + writeFileSync so the write completes before the renderer is destroyed.
 window.addEventListener('beforeunload', () => {
@@ -2772,7 +2921,12 @@ export async function hydrateFromDisk(): Promise<void> {
         const ws = store.workspaces.find((w) => w.id === dead.workspaceId)
         if (!ws) continue
         try {
-          const newPtyId = await window.api.pty.create(ws.worktreePath, shell, { AGENT_ORCH_WS_ID: ws.id })
+          const restored = await window.api.pty.takeScrollback(dead.ptyId).catch(() => null)
+          const relaunch = store.settings.relaunchTerminalCommandOnRestore && restored?.lastCommand
+            ? `${restored.lastCommand}\r`
+            : undefined
+          const newPtyId = await window.api.pty.create(ws.worktreePath, shell, { AGENT_ORCH_WS_ID: ws.id }, relaunch)
+          if (restored) stashRestoredScrollback(newPtyId, restored)
           const idx = updatedTabs.findIndex((t) => t.id === dead.id)
           // Collapse splits on respawn — start fresh with a single terminal
           if (idx !== -1) updatedTabs[idx] = { ...dead, ptyId: newPtyId, splitRoot: undefined, focusedPaneId: undefined }
@@ -2825,7 +2979,7 @@ export async function hydrateFromDisk(): Promise<void> {
 
   const state = useAppStore.getState()
   for (const project of state.projects) {
-    void window.api.git.startSyncPolling(project.id, project.repoPath)
+    void window.api.git.startSyncPolling(project.id, project.repoPath, project.syncStrategy)
   }
   {
     const paths = [...state.activeClaudeWorkspaceIds]
@@ -2833,6 +2987,7 @@ export async function hydrateFromDisk(): Promise<void> {
       .filter((p): p is string => Boolean(p))
     window.api.git.setSyncBusy(paths)
   }
+  window.api.transcripts.setRecording(state.settings.recordTerminalTranscripts)
 
   // Schedule all enabled automations on startup
   for (const automation of state.automations) {
@@ -2841,14 +2996,31 @@ export async function hydrateFromDisk(): Promise<void> {
     if (!project) continue
     window.api.automations.create(toAutomationIpcConfig(automation, project.repoPath))
   }
+  for (const project of state.projects) {
+    void loadRepoAutomationsForProject(project.id)
+  }
 
   // Listen for automation run-started events from main process
   window.api.automations.onRunStarted((data) => {
     const store = useAppStore.getState()
-    const { automationId, automationName, projectId, ptyId, worktreePath, branch } = data
+    const { automationId, automationName, projectId, ptyId, worktreePath, branch, workspaceId, agentType } = data
     const project = store.projects.find((p) => p.id === projectId)
     if (!project) return
 
+    // Runs targeting an existing workspace open their terminal tab there
+    if (workspaceId && store.workspaces.some((w) => w.id === workspaceId)) {
+      store.addTab({
+        id: crypto.randomUUID(),
+        workspaceId,
+        type: 'terminal',
+        title: automationName,
+        ptyId,
+        agentType,
+      })
+      store.updateAutomation(automationId, { lastRunAt: Date.now(), lastRunStatus: 'success' })
+      return
+    }
+
     // Create workspace for the run
     const now = new Date()
     const timestamp = now.toLocaleDateString('en-US', {
@@ -2873,6 +3045,7 @@ export async function hydrateFromDisk(): Promise<void> {
       type: 'terminal',
       title: automationName,
       ptyId,
+      agentType,
     })
 
     // Update automation lastRunAt
@@ -2883,6 +3056,11 @@ export async function hydrateFromDisk(): Promise<void> {
     useAppStore.getState().updateAutomation(data.automationId, {
       lastRunAt: data.timestamp,
       lastRunStatus: data.status,
+      lastRunSteps: data.steps,
     })
   })
+
+  window.api.automations.onRunActivity((data) => {
+    useAppStore.getState().setAutomationRunning(data.automationId, data.running)
+  })
 }
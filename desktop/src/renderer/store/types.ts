@@ -3,25 +3,27 @@ import type { LinearIssueNode } from '../linear/linear-api'
 import type { PrInfo } from '@shared/github-types'
 import type { WorkspaceSyncInfo } from '@shared/worktree-sync-types'
 import type { ContextWindowData } from '@shared/context-window-types'
-import type { AutomationAction, AutomationTrigger, AutomationRunStatus } from '../../shared/automation-types'
+import type {
+  AutomationAction,
+  AutomationTrigger,
+  AutomationRunStatus,
+  AutomationRunTarget,
+  AutomationStep,
+  AutomationStepResult,
+} from '../../shared/automation-types'
 import type { WorktreeCredentialRule } from '../../shared/worktree-credentials'
 import type { GraphiteStackInfo } from '../../shared/graphite-types'
 import type { AppearanceThemeId } from '../theme/appearance'
 import type { EditorLanguageOverride } from '../utils/language-map'
+import type { WorkspaceProblem } from '../../shared/workspace-problems'
 import type { GitStatusSnapshot, WorkingTreeDiffSnapshot, WorkingTreeFileStatus } from '../types/working-tree-diff'
 import { getDefaultWorktreeCredentialRules } from '../../shared/worktree-credentials'
+import type { StartupCommand } from '../../shared/startup-commands'
+import type { WorkspacePortAllocation } from '../../shared/workspace-ports'
+import type { WorktreeSyncStrategy } from '../../shared/sync-types'
+import type { FileLocation, FileTextEdits } from '../services/lsp-workspace-edit'
 
-/** Used with `waitFor`: how long / how to wait after the dependency before starting this command */
-export type WaitCondition =
-  | { type: 'delay'; seconds: number }
-  | { type: 'output'; pattern: string }
-
-export interface StartupCommand {
-  name: string
-  command: string
-  waitFor?: string          // name of another StartupCommand to wait on
-  waitCondition?: WaitCondition
-}
+export type { StartupCommand, StartupReadiness, StartupRestartPolicy } from '../../shared/startup-commands'
 
 export interface Automation {
   id: string
@@ -33,9 +35,14 @@ export interface Automation {
   createdAt: number
   trigger?: AutomationTrigger
   action?: AutomationAction
+  steps?: AutomationStep[]
+  runTarget?: AutomationRunTarget
+  historyRetention?: number
+  maxDurationMs?: number
   cooldownMs?: number
   lastRunAt?: number
   lastRunStatus?: AutomationRunStatus
+  lastRunSteps?: AutomationStepResult[]
 }
 
 export interface SkillEntry {
@@ -63,6 +70,10 @@ export interface Project {
   prLinkProvider?: PrLinkProvider
   graphiteNewBranchSource?: GraphiteNewBranchSource
   graphitePreferredTrunk?: string | null
+  /** Load `.constellagent/automations.json` from the repo whenever the project is opened. */
+  autoLoadAutomations?: boolean
+  /** How the sidebar sync brings worktrees up to date; rebase when unset. */
+  syncStrategy?: WorktreeSyncStrategy
 }
 
 export interface Workspace {
@@ -415,6 +426,10 @@ export interface Settings {
   mcpServers: McpServer[]
   agentMcpAssignments: AgentMcpAssignments
   sessionResumeEnabled: boolean
+  /** After an app restart, re-run the last shell command in terminals restored with scrollback. */
+  relaunchTerminalCommandOnRestore: boolean
+  /** Record ANSI-stripped terminal output into each project's database for Quick Open search and export. */
+  recordTerminalTranscripts: boolean
   worktreeCredentialRules: WorktreeCredentialRule[]
   skills: SkillEntry[]
   subagents: SubagentEntry[]
@@ -477,6 +492,8 @@ export const DEFAULT_SETTINGS: Settings = {
   mcpServers: [],
   agentMcpAssignments: { 'claude-code': [], 'codex': [], 'gemini': [], 'cursor': [], 'opencode': [], 'pi-constell': [] },
   sessionResumeEnabled: true,
+  relaunchTerminalCommandOnRestore: false,
+  recordTerminalTranscripts: false,
   worktreeCredentialRules: getDefaultWorktreeCredentialRules(),
   skills: [],
   subagents: [],
@@ -505,6 +522,22 @@ export interface Toast {
   action?: { label: string; onClick: () => void }
 }
 
+/** "Find all references" / "Find all implementations" results shown in the references drawer. */
+export interface LspReferencesState {
+  kind: 'references' | 'implementations'
+  symbol: string
+  locations: FileLocation[]
+}
+
+/** A language server rename waiting for confirmation in the rename preview. */
+export interface LspRenamePreview {
+  oldName: string
+  newName: string
+  files: FileTextEdits[]
+  /** File create/rename/delete operations in the edit, which are not applied. */
+  unsupported: number
+}
+
 export interface ConfirmDialogState {
   title: string
   message: string
@@ -540,6 +573,8 @@ export interface AppState {
   collapsedProjectIds: Set<string>
   /** Ephemeral: most recently active workspace per project for project hotkeys. */
   lastActiveWorkspaceByProjectId: Record<string, string>
+  /** Ephemeral: automations with a run in flight in the main process. */
+  runningAutomationIds: Set<string>
   lastSavedTabId: string | null
   workspaceDialogProjectId: string | null
   settings: Settings
@@ -569,6 +604,18 @@ export interface AppState {
   planPaletteVisible: boolean
   hunkReviewOpen: boolean
   hunkReviewWorkspaceId: string | null
+  /** Workspace whose PR check runs are shown in the CI checks drawer. */
+  ciChecksWorkspaceId: string | null
+  lspReferences: LspReferencesState | null
+  lspRenamePreview: LspRenamePreview | null
+  /** Workspace whose diagnostics are shown in the Problems drawer. */
+  problemsPanelWorkspaceId: string | null
+  /** Open search-and-replace drawer, with the query it was seeded with. */
+  searchReplace: { workspaceId: string; initialQuery: string } | null
+  /** Diagnostics published by language servers, keyed by worktree path. */
+  lspProblems: Map<string, WorkspaceProblem[]>
+  /** Markers from Monaco's own workers (e.g. TypeScript) for open files, keyed by file path. */
+  editorProblems: Map<string, WorkspaceProblem[]>
   unreadWorkspaceIds: Set<string>
   activeClaudeWorkspaceIds: Set<string>
   prStatusMap: Map<string, PrInfo | null>
@@ -581,6 +628,8 @@ export interface AppState {
   worktreeSyncStatus: Map<string, WorkspaceSyncInfo>
   /** Graphite stack info per workspace (ephemeral; filled by poller). */
   graphiteStacks: Map<string, GraphiteStackInfo>
+  /** Port block per workspace id (owned by main; mirrored from `ports.onChanged`). */
+  workspacePorts: Map<string, WorkspacePortAllocation>
   graphiteStackExpanded: boolean
   /** Last seen `git ls-remote origin HEAD` hash per project (background poller) */
   lastKnownRemoteHead: Record<string, string>
@@ -712,6 +761,18 @@ export interface AppState {
   closePlanPalette: () => void
   toggleHunkReview: () => Promise<void>
   closeHunkReview: () => void
+  openCiChecks: (workspaceId: string) => void
+  closeCiChecks: () => void
+  showLspReferences: (references: LspReferencesState) => void
+  closeLspReferences: () => void
+  showLspRenamePreview: (preview: LspRenamePreview) => void
+  closeLspRenamePreview: () => void
+  openProblemsPanel: (workspaceId: string) => void
+  closeProblemsPanel: () => void
+  openSearchReplace: (workspaceId: string, initialQuery?: string) => void
+  closeSearchReplace: () => void
+  setLspProblems: (worktreePath: string, problems: WorkspaceProblem[]) => void
+  setEditorProblems: (filePath: string, problems: WorkspaceProblem[]) => void
   submitHunkReview: (selectedCommentIds?: Set<string>) => Promise<void>
 
   // Add to Chat actions
@@ -743,6 +804,7 @@ export interface AppState {
   setProjectDefaultBranch: (projectId: string, branch: string) => void
   setWorktreeSyncStatus: (projectId: string, workspaces: Record<string, WorkspaceSyncInfo>) => void
   setGraphiteStack: (workspaceId: string, stack: GraphiteStackInfo | null) => void
+  setWorkspacePorts: (allocations: WorkspacePortAllocation[]) => void
   toggleGraphiteStackExpanded: () => void
   setContextWindowData: (data: ContextWindowData | null) => void
 
@@ -750,6 +812,7 @@ export interface AppState {
   addAutomation: (automation: Automation) => void
   updateAutomation: (id: string, partial: Partial<Omit<Automation, 'id'>>) => void
   removeAutomation: (id: string) => void
+  setAutomationRunning: (id: string, running: boolean) => void
 
   // Skills & Subagents actions
   addSkill: (skill: SkillEntry) => void
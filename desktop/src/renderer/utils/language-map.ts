@@ -1,3 +1,5 @@
+import { MODEL_PATH_OVERRIDE_MARKER } from '../../shared/lsp-types'
+
 export type MonacoLanguageId =
   | 'typescript'
   | 'typescriptreact'
@@ -147,5 +149,11 @@ export function getEffectiveModelPath(
   if (!override) return filePath
   const extension = LANGUAGE_EXTENSION_MAP[effectiveLanguage]
   if (!extension) return filePath
-  return `${filePath}.__constellagent__.${extension}`
+  return `${filePath}${MODEL_PATH_OVERRIDE_MARKER}${extension}`
+}
+
+/** Inverse of `getEffectiveModelPath`: the file on disk behind a Monaco model path. */
+export function getFilePathFromModelPath(modelPath: string): string {
+  const markerIndex = modelPath.lastIndexOf(MODEL_PATH_OVERRIDE_MARKER)
+  return markerIndex === -1 ? modelPath : modelPath.slice(0, markerIndex)
 }
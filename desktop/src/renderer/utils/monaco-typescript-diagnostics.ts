@@ -36,3 +36,29 @@ export function applyMonacoTypeScriptCompilerDefaults(monaco: typeof import('mon
   tsNs.typescriptDefaults.setCompilerOptions(compilerOptions)
   tsNs.javascriptDefaults.setCompilerOptions(compilerOptions)
 }
+
+/**
+ * The worker's definitions, references and rename only see open models. While a language
+ * server serves the active file they are turned off so its cross-file results are not mixed
+ * with (or outranked by) the worker's.
+ */
+export function applyMonacoTypeScriptNavigation(
+  monaco: typeof import('monaco-editor'),
+  workerNavigationEnabled: boolean,
+): void {
+  const tsNs = monaco.languages.typescript as any
+  for (const defaults of [tsNs.typescriptDefaults, tsNs.javascriptDefaults]) {
+    const current = defaults.modeConfiguration
+    if (
+      current.definitions === workerNavigationEnabled &&
+      current.references === workerNavigationEnabled &&
+      current.rename === workerNavigationEnabled
+    ) continue
+    defaults.setModeConfiguration({
+      ...current,
+      definitions: workerNavigationEnabled,
+      references: workerNavigationEnabled,
+      rename: workerNavigationEnabled,
+    })
+  }
+}
@@ -0,0 +1,14 @@
+import type { RestoredScrollback } from '../../shared/terminal-scrollback'
+
+/** Previous-session output waiting for the terminal tab that respawned its PTY to mount. */
+const pending = new Map<string, RestoredScrollback>()
+
+export function stashRestoredScrollback(ptyId: string, restored: RestoredScrollback): void {
+  pending.set(ptyId, restored)
+}
+
+export function takeRestoredScrollback(ptyId: string): RestoredScrollback | null {
+  const restored = pending.get(ptyId) ?? null
+  pending.delete(ptyId)
+  return restored
+}
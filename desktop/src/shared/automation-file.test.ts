@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  parseAutomationsFile,
+  planAutomationImport,
+  serializeAutomationsFile,
+  type AutomationFileEntry,
+} from './automation-file'
+import type { AutomationConfigV2 } from './automation-types'
+
+const webhookConfig: AutomationConfigV2 = {
+  id: 'deploy-hook',
+  name: 'Deploy hook',
+  projectId: 'project-1',
+  repoPath: '/repo',
+  trigger: { type: 'webhook', secret: 's3cret' },
+  action: { type: 'send-notification', title: 'Deploy', body: '{{payload.ref}}' },
+  enabled: true,
+  cooldownMs: 30_000,
+}
+
+function entry(id: string, name: string): AutomationFileEntry {
+  return { id, name, trigger: { type: 'manual' }, action: { type: 'run-shell-command', command: 'bun test' }, enabled: true }
+}
+
+describe('parseAutomationsFile', () => {
+  it('round-trips exported configs without the project binding or webhook secret', () => {
+    const text = serializeAutomationsFile([webhookConfig])
+    expect(text).not.toContain('s3cret')
+    expect(text).not.toContain('/repo')
+    const { automations, errors } = parseAutomationsFile(JSON.parse(text))
+    expect(errors).toEqual([])
+    expect(automations).toEqual([{
+      id: 'deploy-hook',
+      name: 'Deploy hook',
+      trigger: { type: 'webhook', secret: '' },
+      action: { type: 'send-notification', title: 'Deploy', body: '{{payload.ref}}' },
+      enabled: true,
+      cooldownMs: 30_000,
+    }])
+  })
+
+  it('migrates legacy cron prompts and reports invalid entries without dropping the rest', () => {
+    const { automations, errors } = parseAutomationsFile({
+      version: 1,
+      automations: [
+        { id: 'nightly', name: 'Nightly', prompt: 'Summarize', cronExpression: '0 9 * * *', enabled: false },
+        { id: 'bad', name: 'Bad', trigger: { type: 'event', eventType: 'pr:exploded' }, action: { type: 'run-prompt', prompt: 'x' } },
+        { id: 'nightly', name: 'Copy', trigger: { type: 'manual' }, action: { type: 'run-shell-command', command: 'ls' } },
+      ],
+    })
+    expect(automations).toEqual([{
+      id: 'nightly',
+      name: 'Nightly',
+      trigger: { type: 'cron', cronExpression: '0 9 * * *' },
+      action: { type: 'run-prompt', prompt: 'Summarize' },
+      enabled: false,
+    }])
+    expect(errors).toEqual([
+      'automations[1].trigger.eventType: unknown event "pr:exploded"',
+      'automations[2].id: duplicate id "nightly"',
+    ])
+  })
+
+  it('rejects extra flags on Pi prompt steps', () => {
+    const { automations, errors } = parseAutomationsFile({
+      version: 1,
+      automations: [
+        { id: 'pi', name: 'Pi', trigger: { type: 'manual' }, action: { type: 'run-prompt', prompt: 'x', agentType: 'pi-constell', flags: '--yolo' } },
+      ],
+    })
+    expect(automations).toEqual([])
+    expect(errors).toEqual(['automations[0].action.flags: Pi runs headless and takes no extra flags'])
+  })
+})
+
+describe('planAutomationImport', () => {
+  const existing = [
+    { id: 'lint', name: 'Lint', projectId: 'project-1' },
+    { id: 'tests', name: 'Tests', projectId: 'project-1' },
+    { id: 'shared-id', name: 'Elsewhere', projectId: 'project-2' },
+  ]
+
+  it('applies each conflict resolution and re-ids entries owned by other projects', () => {
+    let nextId = 0
+    const plan = planAutomationImport(
+      existing,
+      'project-1',
+      [entry('lint', 'Lint v2'), entry('tests-2', 'Tests'), entry('fresh', 'Lint'), entry('shared-id', 'Shared')],
+      (conflict) => (conflict.incoming.id === 'lint' ? 'overwrite' : conflict.incoming.id === 'tests-2' ? 'keep-both' : 'skip'),
+      () => `new-${++nextId}`,
+    )
+    expect(plan.map((item) => [item.entry.id, item.entry.name, item.replacesId])).toEqual([
+      ['lint', 'Lint v2', 'lint'],
+      ['tests-2', 'Tests (2)', undefined],
+      ['new-1', 'Shared', undefined],
+    ])
+  })
+})
@@ -0,0 +1,357 @@
+import type {
+  AutomationAction,
+  AutomationAgentType,
+  AutomationConfigLike,
+  AutomationConfigV2,
+  AutomationEventType,
+  AutomationFilter,
+  AutomationFilterField,
+  AutomationRunTarget,
+  AutomationStep,
+  AutomationStepCondition,
+  AutomationTrigger,
+} from './automation-types'
+import { isAutomationConfigV2, toAutomationConfigV2 } from './automation-types'
+
+/** Checked-in automations, relative to the project's repo root. */
+export const AUTOMATIONS_FILE_PATH = '.constellagent/automations.json'
+export const AUTOMATIONS_FILE_VERSION = 1
+
+/** An automation as stored in the repo: project-independent, so teammates can load it into their own project. */
+export type AutomationFileEntry = Omit<AutomationConfigV2, 'projectId' | 'repoPath'>
+
+export interface AutomationsFile {
+  version: typeof AUTOMATIONS_FILE_VERSION
+  automations: AutomationFileEntry[]
+}
+
+export interface AutomationsFileParseResult {
+  automations: AutomationFileEntry[]
+  /** One message per rejected entry (or for the whole file); valid entries are still returned. */
+  errors: string[]
+}
+
+export interface ProjectAutomationsFileReadResult extends AutomationsFileParseResult {
+  /** Absolute path of the file that was read. */
+  filePath: string
+}
+
+/**
+ * What to do with an incoming automation whose id, or name within the project, already exists:
+ * replace the existing one, import it alongside under a new id, or leave it out.
+ */
+export type AutomationImportResolution = 'overwrite' | 'keep-both' | 'skip'
+
+export interface AutomationImportConflict {
+  incoming: AutomationFileEntry
+  existingId: string
+  existingName: string
+  reason: 'id' | 'name'
+}
+
+interface ExistingAutomation {
+  id: string
+  name: string
+  projectId: string
+}
+
+const EVENT_TYPES = new Set<AutomationEventType>([
+  'agent:started',
+  'agent:stopped',
+  'agent:tool-used',
+  'agent:idle',
+  'agent:long-running',
+  'pr:created',
+  'pr:merged',
+  'pr:checks-failed',
+  'pr:checks-passed',
+  'pr:approved',
+  'pr:changes-requested',
+  'pr:comments-received',
+  'workspace:created',
+  'workspace:deleted',
+])
+
+const AGENT_TYPES = new Set<AutomationAgentType>(['claude-code', 'codex', 'gemini', 'cursor', 'opencode', 'pi-constell'])
+const STEP_CONDITIONS = new Set<AutomationStepCondition>(['always', 'success', 'failed', 'timeout'])
+const PATTERN_FILTER_FIELDS = new Set<AutomationFilterField>(['branch', 'prBaseBranch', 'changedPath'])
+const STRING_FILTER_FIELDS = new Set<AutomationFilterField>(['agentType', 'toolName', 'workspaceId', 'prAuthor', 'prLabel', 'prReviewDecision'])
+
+class AutomationFileError extends Error {}
+
+function fail(path: string, message: string): never {
+  throw new AutomationFileError(`${path}: ${message}`)
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) fail(path, 'expected an object')
+  return value as Record<string, unknown>
+}
+
+function requireString(record: Record<string, unknown>, key: string, path: string): string {
+  const value = record[key]
+  if (typeof value !== 'string') fail(`${path}.${key}`, 'expected a string')
+  return value
+}
+
+function optionalString(record: Record<string, unknown>, key: string, path: string): string | undefined {
+  const value = record[key]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') fail(`${path}.${key}`, 'expected a string')
+  return value
+}
+
+function optionalPositiveNumber(record: Record<string, unknown>, key: string, path: string): number | undefined {
+  const value = record[key]
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) fail(`${path}.${key}`, 'expected a positive number')
+  return value
+}
+
+function parseFilter(value: unknown, path: string): AutomationFilter {
+  const record = asRecord(value, path)
+  const field = requireString(record, 'field', path) as AutomationFilterField
+  if (record.negate !== undefined && typeof record.negate !== 'boolean') fail(`${path}.negate`, 'expected a boolean')
+  if (PATTERN_FILTER_FIELDS.has(field)) requireString(record, 'pattern', path)
+  else if (STRING_FILTER_FIELDS.has(field)) requireString(record, 'value', path)
+  else if (field === 'prDraft') {
+    if (typeof record.value !== 'boolean') fail(`${path}.value`, 'expected a boolean')
+  } else fail(`${path}.field`, `unknown filter field "${field}"`)
+  return record as unknown as AutomationFilter
+}
+
+function parseFilterList(value: unknown, path: string): AutomationFilter[] {
+  if (!Array.isArray(value)) fail(path, 'expected an array')
+  return value.map((filter, index) => parseFilter(filter, `${path}[${index}]`))
+}
+
+function parseTrigger(value: unknown, path: string): AutomationTrigger {
+  const record = asRecord(value, path)
+  switch (record.type) {
+    case 'cron':
+      return { type: 'cron', cronExpression: requireString(record, 'cronExpression', path) }
+    case 'manual':
+      return { type: 'manual' }
+    case 'webhook': {
+      // Secrets are never checked in; each importer gets a fresh one.
+      const secret = optionalString(record, 'secret', path) ?? ''
+      return record.requireSignature === true ? { type: 'webhook', secret, requireSignature: true } : { type: 'webhook', secret }
+    }
+    case 'event': {
+      const eventType = requireString(record, 'eventType', path) as AutomationEventType
+      if (!EVENT_TYPES.has(eventType)) fail(`${path}.eventType`, `unknown event "${eventType}"`)
+      return {
+        type: 'event',
+        eventType,
+        filters: record.filters === undefined ? undefined : parseFilterList(record.filters, `${path}.filters`),
+        filterGroups: record.filterGroups === undefined
+          ? undefined
+          : (Array.isArray(record.filterGroups) ? record.filterGroups : fail(`${path}.filterGroups`, 'expected an array'))
+            .map((group, index) => parseFilterList(group, `${path}.filterGroups[${index}]`)),
+        thresholdMinutes: optionalPositiveNumber(record, 'thresholdMinutes', path),
+      }
+    }
+    default:
+      fail(`${path}.type`, `unknown trigger type "${String(record.type)}"`)
+  }
+}
+
+function parseAction(value: unknown, path: string): AutomationAction {
+  const record = asRecord(value, path)
+  switch (record.type) {
+    case 'run-prompt': {
+      const agentType = optionalString(record, 'agentType', path) as AutomationAgentType | undefined
+      if (agentType && !AGENT_TYPES.has(agentType)) fail(`${path}.agentType`, `unknown agent "${agentType}"`)
+      const flags = optionalString(record, 'flags', path)
+      if (agentType === 'pi-constell' && flags?.trim()) fail(`${path}.flags`, 'Pi runs headless and takes no extra flags')
+      return {
+        type: 'run-prompt',
+        prompt: requireString(record, 'prompt', path),
+        agentType,
+        model: optionalString(record, 'model', path),
+        flags,
+      }
+    }
+    case 'run-shell-command':
+      return { type: 'run-shell-command', command: requireString(record, 'command', path) }
+    case 'send-notification':
+      return { type: 'send-notification', title: requireString(record, 'title', path), body: requireString(record, 'body', path) }
+    case 'write-to-pty':
+      return { type: 'write-to-pty', workspaceId: requireString(record, 'workspaceId', path), input: requireString(record, 'input', path) }
+    default:
+      fail(`${path}.type`, `unknown action type "${String(record.type)}"`)
+  }
+}
+
+function parseSteps(value: unknown, path: string): AutomationStep[] {
+  if (!Array.isArray(value)) fail(path, 'expected an array')
+  return value.map((entry, index) => {
+    const stepPath = `${path}[${index}]`
+    const record = asRecord(entry, stepPath)
+    const runIf = optionalString(record, 'runIf', stepPath) as AutomationStepCondition | undefined
+    if (runIf && !STEP_CONDITIONS.has(runIf)) fail(`${stepPath}.runIf`, `unknown condition "${runIf}"`)
+    return { id: requireString(record, 'id', stepPath), action: parseAction(record.action, `${stepPath}.action`), runIf }
+  })
+}
+
+function parseRunTarget(value: unknown, path: string): AutomationRunTarget {
+  const record = asRecord(value, path)
+  switch (record.type) {
+    case 'new-worktree':
+    case 'trigger-workspace':
+      return { type: record.type }
+    case 'workspace':
+      return { type: 'workspace', workspaceId: requireString(record, 'workspaceId', path) }
+    default:
+      fail(`${path}.type`, `unknown run target "${String(record.type)}"`)
+  }
+}
+
+/** Validates one entry against AutomationConfigV2, migrating legacy `{ prompt, cronExpression }` entries first. */
+function parseEntry(value: unknown, path: string): AutomationFileEntry {
+  const raw = asRecord(value, path)
+  const id = requireString(raw, 'id', path)
+  const name = requireString(raw, 'name', path)
+  if (!id.trim()) fail(`${path}.id`, 'must not be empty')
+  let record = raw
+  if (!isAutomationConfigV2(raw as unknown as AutomationConfigLike)) {
+    const { trigger, action } = toAutomationConfigV2({
+      id,
+      name,
+      projectId: '',
+      repoPath: '',
+      prompt: requireString(raw, 'prompt', path),
+      cronExpression: requireString(raw, 'cronExpression', path),
+      enabled: raw.enabled !== false,
+    })
+    record = { ...raw, trigger, action }
+  }
+  if (record.enabled !== undefined && typeof record.enabled !== 'boolean') fail(`${path}.enabled`, 'expected a boolean')
+
+  const entry: AutomationFileEntry = {
+    id,
+    name,
+    trigger: parseTrigger(record.trigger, `${path}.trigger`),
+    action: parseAction(record.action, `${path}.action`),
+    enabled: record.enabled !== false,
+  }
+  if (record.steps !== undefined) entry.steps = parseSteps(record.steps, `${path}.steps`)
+  if (record.runTarget !== undefined) entry.runTarget = parseRunTarget(record.runTarget, `${path}.runTarget`)
+  entry.historyRetention = optionalPositiveNumber(record, 'historyRetention', path)
+  entry.maxDurationMs = optionalPositiveNumber(record, 'maxDurationMs', path)
+  entry.cooldownMs = optionalPositiveNumber(record, 'cooldownMs', path)
+  return stripUndefined(entry)
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+/**
+ * Parses `.constellagent/automations.json`. Unknown or malformed entries are reported in `errors`
+ * and skipped so one bad entry doesn't block the rest of the file.
+ */
+export function parseAutomationsFile(raw: unknown): AutomationsFileParseResult {
+  if (!raw || typeof raw !== 'object') return { automations: [], errors: ['File must contain a JSON object'] }
+  const record = raw as Record<string, unknown>
+  if (record.version !== undefined && record.version !== AUTOMATIONS_FILE_VERSION) {
+    return { automations: [], errors: [`Unsupported automations file version ${String(record.version)}`] }
+  }
+  if (!Array.isArray(record.automations)) return { automations: [], errors: ['"automations" must be an array'] }
+
+  const automations: AutomationFileEntry[] = []
+  const errors: string[] = []
+  const seenIds = new Set<string>()
+  record.automations.forEach((value, index) => {
+    try {
+      const entry = parseEntry(value, `automations[${index}]`)
+      if (seenIds.has(entry.id)) fail(`automations[${index}].id`, `duplicate id "${entry.id}"`)
+      seenIds.add(entry.id)
+      automations.push(entry)
+    } catch (err) {
+      if (!(err instanceof AutomationFileError)) throw err
+      errors.push(err.message)
+    }
+  })
+  return { automations, errors }
+}
+
+/** 32 random bytes, hex encoded. */
+export function generateAutomationWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/** Drops the project binding and webhook secret so the entry is safe to check in. */
+export function toAutomationFileEntry(config: AutomationConfigLike): AutomationFileEntry {
+  const { projectId: _projectId, repoPath: _repoPath, ...entry } = toAutomationConfigV2(config)
+  const trigger = entry.trigger.type === 'webhook' ? { ...entry.trigger, secret: '' } : entry.trigger
+  return stripUndefined({ ...entry, trigger })
+}
+
+export function serializeAutomationsFile(configs: AutomationConfigLike[]): string {
+  const file: AutomationsFile = { version: AUTOMATIONS_FILE_VERSION, automations: configs.map(toAutomationFileEntry) }
+  return `${JSON.stringify(file, null, 2)}\n`
+}
+
+/** Incoming entries that collide with one of the project's automations by id or, failing that, by name. */
+export function findAutomationImportConflicts(
+  existing: ExistingAutomation[],
+  projectId: string,
+  incoming: AutomationFileEntry[],
+): AutomationImportConflict[] {
+  const projectAutomations = existing.filter((automation) => automation.projectId === projectId)
+  const conflicts: AutomationImportConflict[] = []
+  for (const entry of incoming) {
+    const byId = projectAutomations.find((automation) => automation.id === entry.id)
+    const match = byId ?? projectAutomations.find((automation) => automation.name === entry.name)
+    if (!match) continue
+    conflicts.push({ incoming: entry, existingId: match.id, existingName: match.name, reason: byId ? 'id' : 'name' })
+  }
+  return conflicts
+}
+
+export interface AutomationImportPlanItem {
+  entry: AutomationFileEntry
+  /** Set when the entry overwrites this existing automation (its id is kept). */
+  replacesId?: string
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name
+  let suffix = 2
+  while (taken.has(`${name} (${suffix})`)) suffix++
+  return `${name} (${suffix})`
+}
+
+/**
+ * Resolves every incoming entry to what should be written to the store. Entries whose id is
+ * already used by another project get a fresh id, since automation ids are global.
+ */
+export function planAutomationImport(
+  existing: ExistingAutomation[],
+  projectId: string,
+  incoming: AutomationFileEntry[],
+  resolve: (conflict: AutomationImportConflict) => AutomationImportResolution,
+  createId: () => string,
+): AutomationImportPlanItem[] {
+  const conflicts = new Map(findAutomationImportConflicts(existing, projectId, incoming).map((conflict) => [conflict.incoming, conflict]))
+  const takenIds = new Set(existing.map((automation) => automation.id))
+  const takenNames = new Set(existing.filter((automation) => automation.projectId === projectId).map((automation) => automation.name))
+  const plan: AutomationImportPlanItem[] = []
+  for (const entry of incoming) {
+    const conflict = conflicts.get(entry)
+    const resolution = conflict ? resolve(conflict) : null
+    if (resolution === 'skip') continue
+    if (conflict && resolution === 'overwrite') {
+      plan.push({ entry: { ...entry, id: conflict.existingId }, replacesId: conflict.existingId })
+      continue
+    }
+    const id = takenIds.has(entry.id) ? createId() : entry.id
+    const name = uniqueName(entry.name, takenNames)
+    takenIds.add(id)
+    takenNames.add(name)
+    plan.push({ entry: { ...entry, id, name } })
+  }
+  return plan
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  getEventTriggerFilterGroups,
+  matchesAutomationFilterGroups,
+  pathGlobToRegExp,
+} from './automation-filters'
+import { buildSampleAutomationEvent } from './automation-template'
+import type { AutomationEvent } from './automation-types'
+
+function prEvent(overrides: Partial<NonNullable<AutomationEvent['prInfo']>> = {}): AutomationEvent {
+  const event = buildSampleAutomationEvent('pr:created')
+  return { ...event, prInfo: { ...event.prInfo!, ...overrides } }
+}
+
+describe('pathGlobToRegExp', () => {
+  it('matches bare file globs at any depth', () => {
+    expect(pathGlobToRegExp('*.md').test('docs/guide/intro.md')).toBe(true)
+    expect(pathGlobToRegExp('*.md').test('README.md')).toBe(true)
+  })
+
+  it('keeps single stars within one directory', () => {
+    expect(pathGlobToRegExp('src/*.ts').test('src/main.ts')).toBe(true)
+    expect(pathGlobToRegExp('src/*.ts').test('src/main/ipc.ts')).toBe(false)
+    expect(pathGlobToRegExp('src/**/*.ts').test('src/main/ipc.ts')).toBe(true)
+    expect(pathGlobToRegExp('src/**/*.ts').test('src/index.ts')).toBe(true)
+  })
+})
+
+describe('matchesAutomationFilterGroups', () => {
+  it('matches PR fields and honours negation', () => {
+    const event = prEvent({ authorLogin: 'Octocat', baseRefName: 'release/1.2', labels: ['Needs QA'], isDraft: false })
+
+    expect(matchesAutomationFilterGroups([[
+      { field: 'prAuthor', value: 'octocat' },
+      { field: 'prBaseBranch', pattern: 'release/*' },
+      { field: 'prLabel', value: 'needs qa' },
+      { field: 'prDraft', value: true, negate: true },
+    ]], event)).toBe(true)
+    expect(matchesAutomationFilterGroups([[{ field: 'prAuthor', value: 'octocat', negate: true }]], event)).toBe(false)
+  })
+
+  it('passes when any OR group matches', () => {
+    const event = prEvent({ reviewDecision: null })
+    const groups = [
+      [{ field: 'prReviewDecision' as const, value: 'approved' as const }],
+      [{ field: 'prReviewDecision' as const, value: 'none' as const }, { field: 'changedPath' as const, pattern: 'src/**' }],
+    ]
+
+    expect(matchesAutomationFilterGroups(groups, event, ['docs/a.md'])).toBe(false)
+    expect(matchesAutomationFilterGroups(groups, event, ['src/main/ipc.ts'])).toBe(true)
+  })
+
+  it('folds legacy filters into one group and prefers explicit groups', () => {
+    expect(getEventTriggerFilterGroups({ type: 'event', eventType: 'pr:created' })).toEqual([])
+    expect(getEventTriggerFilterGroups({
+      type: 'event',
+      eventType: 'pr:created',
+      filters: [{ field: 'branch', pattern: 'main' }],
+    })).toEqual([[{ field: 'branch', pattern: 'main' }]])
+    expect(getEventTriggerFilterGroups({
+      type: 'event',
+      eventType: 'pr:created',
+      filters: [{ field: 'branch', pattern: 'main' }],
+      filterGroups: [[{ field: 'toolName', value: 'Bash' }], []],
+    })).toEqual([[{ field: 'toolName', value: 'Bash' }]])
+  })
+})
@@ -0,0 +1,92 @@
+import type { AutomationEvent, AutomationFilter, EventTrigger } from './automation-types'
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[|\\{}()[\]^$+*?.]/g, '\\$&')
+}
+
+/** `*` matches any run of characters, including `/` (so `feature/*` covers nested branches). */
+export function branchPatternToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${escapeRegExp(pattern).replace(/\\\*/g, '.*')}$`)
+}
+
+/**
+ * Gitignore-style path glob: `**` spans directories, `*` and `?` stay within one segment,
+ * and patterns without a `/` match the file name at any depth.
+ */
+export function pathGlobToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.trim().replace(/^\.?\//, '')
+  const anchored = trimmed.includes('/') ? trimmed : `**/${trimmed}`
+  let source = ''
+  for (let i = 0; i < anchored.length; i++) {
+    const char = anchored[i]
+    if (char === '*' && anchored[i + 1] === '*') {
+      const followedBySlash = anchored[i + 2] === '/'
+      source += followedBySlash ? '(?:.*/)?' : '.*'
+      i += followedBySlash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/** Filter groups to evaluate, folding the legacy AND-only `filters` list into a single group. */
+export function getEventTriggerFilterGroups(trigger: EventTrigger): AutomationFilter[][] {
+  const groups = trigger.filterGroups?.filter((group) => group.length > 0)
+  if (groups && groups.length > 0) return groups
+  return trigger.filters && trigger.filters.length > 0 ? [trigger.filters] : []
+}
+
+/** Changed files are looked up with git, so callers only fetch them when a filter needs them. */
+export function filterGroupsUseChangedPaths(groups: AutomationFilter[][]): boolean {
+  return groups.some((group) => group.some((filter) => filter.field === 'changedPath'))
+}
+
+function testFilter(filter: AutomationFilter, event: AutomationEvent, changedPaths: string[]): boolean {
+  const pr = event.prInfo
+  switch (filter.field) {
+    case 'agentType':
+      return event.agentType === filter.value
+    case 'branch':
+      return Boolean(event.branch) && branchPatternToRegExp(filter.pattern).test(event.branch!)
+    case 'toolName':
+      return event.toolName === filter.value
+    case 'workspaceId':
+      return event.workspaceId === filter.value
+    case 'prAuthor':
+      return Boolean(pr?.authorLogin) && pr!.authorLogin!.toLowerCase() === filter.value.toLowerCase()
+    case 'prBaseBranch':
+      return Boolean(pr?.baseRefName) && branchPatternToRegExp(filter.pattern).test(pr!.baseRefName!)
+    case 'prLabel':
+      return (pr?.labels ?? []).some((label) => label.toLowerCase() === filter.value.toLowerCase())
+    case 'prDraft':
+      return Boolean(pr) && (pr!.isDraft ?? false) === filter.value
+    case 'prReviewDecision':
+      return Boolean(pr) && (pr!.reviewDecision ?? 'none') === filter.value
+    case 'changedPath': {
+      const matcher = pathGlobToRegExp(filter.pattern)
+      return changedPaths.some((path) => matcher.test(path))
+    }
+    default:
+      return true
+  }
+}
+
+export function matchesAutomationFilter(filter: AutomationFilter, event: AutomationEvent, changedPaths: string[] = []): boolean {
+  const matched = testFilter(filter, event, changedPaths)
+  return filter.negate ? !matched : matched
+}
+
+/** An empty group list matches every event. */
+export function matchesAutomationFilterGroups(
+  groups: AutomationFilter[][],
+  event: AutomationEvent,
+  changedPaths: string[] = [],
+): boolean {
+  if (groups.length === 0) return true
+  return groups.some((group) => group.every((filter) => matchesAutomationFilter(filter, event, changedPaths)))
+}
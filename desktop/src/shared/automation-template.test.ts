@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  buildEventTemplateContext,
+  buildSampleAutomationEvent,
+  buildStepTemplateContext,
+  renderAutomationTemplate,
+  shellQuote,
+} from './automation-template'
+
+describe('renderAutomationTemplate', () => {
+  it('expands nested paths and blanks unknown variables', () => {
+    const result = renderAutomationTemplate('{{ prev.exitCode }} in {{steps.step-1.worktreePath}}{{missing.value}}', {
+      prev: { exitCode: 2 },
+      steps: { 'step-1': { worktreePath: '/tmp/wt' } },
+    })
+
+    expect(result).toBe('2 in /tmp/wt')
+  })
+
+  it('does not stringify objects for partial paths', () => {
+    expect(renderAutomationTemplate('[{{steps}}]', { steps: { a: 'b' } })).toBe('[]')
+  })
+
+  it('ignores inherited properties', () => {
+    const result = renderAutomationTemplate('[{{event.constructor}}{{event.toString}}{{event.type.length}}]', {
+      event: { type: 'push' },
+    })
+
+    expect(result).toBe('[]')
+  })
+
+  it('escapes every substituted value when asked', () => {
+    const result = renderAutomationTemplate('git checkout {{branch}}', { branch: "x'; rm -rf ~" }, { escape: shellQuote })
+
+    expect(result).toBe("git checkout 'x'\\''; rm -rf ~'")
+  })
+})
+
+describe('buildStepTemplateContext', () => {
+  it('points prev at the last step that ran', () => {
+    const context = buildStepTemplateContext([
+      { stepId: 'step-1', actionType: 'run-shell-command', status: 'failed', startedAt: 0, finishedAt: 1, outputs: { exitCode: 1, stdout: 'boom' } },
+      { stepId: 'step-2', actionType: 'send-notification', status: 'skipped', startedAt: 1, finishedAt: 1 },
+    ])
+
+    expect(renderAutomationTemplate('{{prev.status}}:{{prev.stdout}}:{{steps.step-2.status}}', context)).toBe('failed:boom:skipped')
+  })
+})
+
+describe('buildEventTemplateContext', () => {
+  it('exposes PR fields, top-level shortcuts and event meta', () => {
+    const context = buildEventTemplateContext({
+      ...buildSampleAutomationEvent('pr:checks-failed'),
+      branch: 'fix/login',
+      meta: { reviewer: 'octocat' },
+    })
+
+    expect(renderAutomationTemplate('#{{pr.number}} {{pr.checkStatus}} {{branch}} {{event.type}} {{event.meta.reviewer}}', context))
+      .toBe('#123 failing fix/login pr:checks-failed octocat')
+  })
+
+  it('renders event variables as empty for manual and cron runs', () => {
+    expect(renderAutomationTemplate('[{{pr.number}}{{branch}}]', buildEventTemplateContext(null))).toBe('[]')
+  })
+})
+
+describe('webhook payload variables', () => {
+  it('exposes nested JSON payload fields and array indexes', () => {
+    const context = buildEventTemplateContext(buildSampleAutomationEvent('webhook:received'))
+
+    expect(renderAutomationTemplate('{{payload.ref}} {{payload.commits.0.id}} [{{payload.commits}}]', context))
+      .toBe('refs/heads/feature/sample abc123 []')
+  })
+})
@@ -0,0 +1,150 @@
+import type {
+  AutomationEvent,
+  AutomationEventType,
+  AutomationStepOutputs,
+  AutomationStepResult,
+} from './automation-types'
+import { DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES, isTimedAgentEventType } from './automation-types'
+
+export type AutomationTemplateValue = string | number | boolean | null | undefined
+
+export interface AutomationTemplateContext {
+  [key: string]: AutomationTemplateValue | AutomationTemplateContext
+}
+
+const TEMPLATE_VARIABLE_RE = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+function lookupTemplatePath(context: AutomationTemplateContext, path: string): AutomationTemplateValue {
+  let current: AutomationTemplateValue | AutomationTemplateContext = context
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object' || !Object.hasOwn(current, segment)) return undefined
+    current = current[segment]
+  }
+  return typeof current === 'object' && current !== null ? undefined : current
+}
+
+/** POSIX single-quote a value so it is passed to the shell as one literal word. */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`
+}
+
+/**
+ * Expand `{{path.to.value}}` placeholders; unknown paths expand to an empty string.
+ * `escape` runs on every substituted value (e.g. `shellQuote` for command actions).
+ */
+export function renderAutomationTemplate(
+  template: string,
+  context: AutomationTemplateContext,
+  options: { escape?: (value: string) => string } = {},
+): string {
+  return template.replace(TEMPLATE_VARIABLE_RE, (_match, path: string) => {
+    const value = lookupTemplatePath(context, path)
+    const text = value === undefined || value === null ? '' : String(value)
+    return options.escape ? options.escape(text) : text
+  })
+}
+
+/** JSON payloads become nested template values; arrays are indexed (`{{payload.commits.0.id}}`). */
+function toTemplateValue(value: unknown): AutomationTemplateValue | AutomationTemplateContext {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return value as AutomationTemplateValue
+  }
+  if (typeof value !== 'object') return undefined
+  const context: AutomationTemplateContext = {}
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    context[key] = toTemplateValue(entry)
+  }
+  return context
+}
+
+/**
+ * Template variables for the event that triggered a run. Common fields are exposed
+ * both at the top level (`{{branch}}`, `{{pr.number}}`) and under `event.*`.
+ */
+export function buildEventTemplateContext(event: AutomationEvent | null): AutomationTemplateContext {
+  if (!event) return { event: {}, pr: {}, payload: {} }
+  // Labels are joined so `{{pr.labels}}` renders as plain text.
+  const pr: AutomationTemplateContext = event.prInfo
+    ? { ...event.prInfo, labels: event.prInfo.labels?.join(', ') }
+    : {}
+  const fields = {
+    type: event.type,
+    timestamp: event.timestamp,
+    projectId: event.projectId,
+    workspaceId: event.workspaceId,
+    agentType: event.agentType,
+    branch: event.branch,
+    toolName: event.toolName,
+  }
+  const payload = toTemplateValue(event.payload)
+  return {
+    ...fields,
+    pr,
+    payload: payload ?? {},
+    event: { ...fields, meta: { ...(event.meta ?? {}) }, pr },
+  }
+}
+
+/** Representative event used to preview templates in the automation editor. */
+export function buildSampleAutomationEvent(type: AutomationEventType): AutomationEvent {
+  const event: AutomationEvent = {
+    type,
+    timestamp: Date.now(),
+    projectId: 'sample-project',
+    workspaceId: 'sample-workspace',
+    branch: 'feature/sample',
+    meta: {},
+  }
+  if (type.startsWith('agent:')) {
+    event.agentType = 'claude-code'
+    if (type === 'agent:tool-used') event.toolName = 'Bash'
+    if (isTimedAgentEventType(type)) {
+      event.meta = { thresholdMinutes: DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES, since: event.timestamp - DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES * 60_000 }
+    }
+  }
+  if (type === 'webhook:received') {
+    event.payload = { ref: 'refs/heads/feature/sample', commits: [{ id: 'abc123', message: 'Sample commit' }] }
+  }
+  if (type.startsWith('pr:')) {
+    event.prInfo = {
+      number: 123,
+      state: type === 'pr:merged' ? 'merged' : 'open',
+      title: 'Sample pull request',
+      url: 'https://github.com/owner/repo/pull/123',
+      checkStatus: type === 'pr:checks-failed' ? 'failing' : 'passing',
+      hasPendingComments: type === 'pr:comments-received',
+      pendingCommentCount: type === 'pr:comments-received' ? 2 : 0,
+      isBlockedByCi: type === 'pr:checks-failed',
+      isApproved: type === 'pr:approved',
+      isChangesRequested: type === 'pr:changes-requested',
+      updatedAt: new Date(event.timestamp).toISOString(),
+      authorLogin: 'octocat',
+      baseRefName: 'main',
+      labels: ['automation'],
+      isDraft: false,
+      reviewDecision: type === 'pr:approved' ? 'approved' : type === 'pr:changes-requested' ? 'changes_requested' : 'review_required',
+    }
+  }
+  return event
+}
+
+function stepTemplateValues(result: AutomationStepResult): AutomationTemplateContext {
+  const outputs: AutomationStepOutputs = result.outputs ?? {}
+  return {
+    status: result.status,
+    message: result.message,
+    ...outputs,
+  }
+}
+
+/** Template variables exposed by earlier pipeline steps: `prev.*` and `steps.<id>.*`. */
+export function buildStepTemplateContext(results: AutomationStepResult[]): AutomationTemplateContext {
+  const steps: AutomationTemplateContext = {}
+  let prev: AutomationTemplateContext = {}
+  for (const result of results) {
+    const values = stepTemplateValues(result)
+    steps[result.stepId] = values
+    if (result.status !== 'skipped') prev = values
+  }
+  return { steps, prev }
+}
@@ -1,8 +1,10 @@
-import type { PrInfo } from './github-types'
+import type { PrInfo, PrReviewDecision } from './github-types'
 
 export type AutomationAgentType = 'claude-code' | 'codex' | 'gemini' | 'cursor' | 'opencode' | 'pi-constell'
 
-export type AgentEventType = 'agent:started' | 'agent:stopped' | 'agent:tool-used'
+/** Raised by the automation engine once an agent has been waiting for input, or working, for a trigger's threshold. */
+export type TimedAgentEventType = 'agent:idle' | 'agent:long-running'
+export type AgentEventType = 'agent:started' | 'agent:stopped' | 'agent:tool-used' | TimedAgentEventType
 export type GitHubEventType =
   | 'pr:created'
   | 'pr:merged'
@@ -12,7 +14,9 @@ export type GitHubEventType =
   | 'pr:changes-requested'
   | 'pr:comments-received'
 export type WorkspaceEventType = 'workspace:created' | 'workspace:deleted'
-export type AutomationEventType = AgentEventType | GitHubEventType | WorkspaceEventType
+/** Only raised for the webhook automation that was called; event triggers can't subscribe to it. */
+export type WebhookEventType = 'webhook:received'
+export type AutomationEventType = AgentEventType | GitHubEventType | WorkspaceEventType | WebhookEventType
 
 export interface CronTrigger {
   type: 'cron'
@@ -22,44 +26,131 @@ export interface CronTrigger {
 export interface EventTrigger {
   type: 'event'
   eventType: AutomationEventType
+  /** Every filter must match. */
   filters?: AutomationFilter[]
+  /** OR groups: the event must match every filter of at least one group. Takes precedence over `filters`. */
+  filterGroups?: AutomationFilter[][]
+  /** For `agent:idle` / `agent:long-running`; defaults to DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES. */
+  thresholdMinutes?: number
 }
 
 export interface ManualTrigger {
   type: 'manual'
 }
 
-export type AutomationTrigger = CronTrigger | EventTrigger | ManualTrigger
+/**
+ * Fired by `POST /automations/<id>` on the local webhook listener. Callers authenticate with
+ * `Authorization: Bearer <secret>` or an `X-Constellagent-Signature-256: sha256=<hmac>` of the body.
+ */
+export interface WebhookTrigger {
+  type: 'webhook'
+  secret: string
+  /** Reject bearer-token requests; only HMAC-signed bodies are accepted. */
+  requireSignature?: boolean
+}
+
+export type AutomationTrigger = CronTrigger | EventTrigger | ManualTrigger | WebhookTrigger
 
-export interface AgentTypeFilter {
+interface AutomationFilterBase {
+  /** Invert the match, e.g. "author is not dependabot[bot]". */
+  negate?: boolean
+}
+
+export interface AgentTypeFilter extends AutomationFilterBase {
   field: 'agentType'
   value: AutomationAgentType
 }
 
-export interface BranchPatternFilter {
+export interface BranchPatternFilter extends AutomationFilterBase {
   field: 'branch'
   pattern: string
 }
 
-export interface ToolNameFilter {
+export interface ToolNameFilter extends AutomationFilterBase {
   field: 'toolName'
   value: string
 }
 
-export interface WorkspaceIdFilter {
+export interface WorkspaceIdFilter extends AutomationFilterBase {
   field: 'workspaceId'
   value: string
 }
 
+export interface PrAuthorFilter extends AutomationFilterBase {
+  field: 'prAuthor'
+  /** GitHub login, compared case-insensitively. */
+  value: string
+}
+
+export interface PrBaseBranchFilter extends AutomationFilterBase {
+  field: 'prBaseBranch'
+  pattern: string
+}
+
+export interface PrLabelFilter extends AutomationFilterBase {
+  field: 'prLabel'
+  /** Matches when the PR carries this label (case-insensitive). */
+  value: string
+}
+
+export interface PrDraftFilter extends AutomationFilterBase {
+  field: 'prDraft'
+  value: boolean
+}
+
+export interface PrReviewDecisionFilter extends AutomationFilterBase {
+  field: 'prReviewDecision'
+  /** `none` matches PRs without a review decision. */
+  value: PrReviewDecision | 'none'
+}
+
+export interface ChangedPathFilter extends AutomationFilterBase {
+  field: 'changedPath'
+  /**
+   * Glob matched against the files changed in the event's workspace (branch commits since the
+   * base plus uncommitted files). Globs without a `/` match file names at any depth.
+   */
+  pattern: string
+}
+
 export type AutomationFilter =
   | AgentTypeFilter
   | BranchPatternFilter
   | ToolNameFilter
   | WorkspaceIdFilter
+  | PrAuthorFilter
+  | PrBaseBranchFilter
+  | PrLabelFilter
+  | PrDraftFilter
+  | PrReviewDecisionFilter
+  | ChangedPathFilter
+
+export type AutomationFilterField = AutomationFilter['field']
+
+export const DEFAULT_AUTOMATION_WEBHOOK_PORT = 47_823
+
+export interface AutomationWebhookInfo {
+  /** e.g. `http://127.0.0.1:47823`; null when the listener could not start. */
+  baseUrl: string | null
+}
+
+/** Outcome of testing a trigger's filters against a recently seen event. */
+export interface AutomationFilterTestResult {
+  event: AutomationEvent
+  matched: boolean
+  /** Changed files the `changedPath` filters were checked against, when any were used. */
+  changedPaths?: string[]
+}
 
 export interface RunPromptAction {
   type: 'run-prompt'
   prompt: string
+  /** Defaults to `claude-code`. `pi-constell` runs headless through `pi --print` instead of a PTY. */
+  agentType?: AutomationAgentType
+  /** Preset label or raw CLI model id, resolved like plan builds. */
+  model?: string
+  /** Extra CLI arguments inserted before the prompt, e.g. `--dangerously-skip-permissions`. */
+  flags?: string
 }
 
 export interface RunShellCommandAction {
@@ -85,6 +176,49 @@ export type AutomationAction =
   | SendNotificationAction
   | WriteToPtyAction
 
+/**
+ * Where prompt and shell actions run. `new-worktree` (the default) creates a fresh
+ * `auto/<name>/<timestamp>` worktree per prompt run; the others reuse an existing workspace.
+ */
+export type AutomationRunTarget =
+  | { type: 'new-worktree' }
+  | { type: 'trigger-workspace' }
+  | { type: 'workspace'; workspaceId: string }
+
+export type AutomationRunStatus = 'success' | 'failed' | 'timeout'
+
+/** Outcome of the previously executed step that a pipeline step requires before it runs. */
+export type AutomationStepCondition = 'always' | AutomationRunStatus
+
+export interface AutomationStep {
+  id: string
+  action: AutomationAction
+  /** Defaults to `success`: the step only runs after the previous step succeeded. */
+  runIf?: AutomationStepCondition
+}
+
+/** Values a step exposes to later steps as `{{prev.*}}` / `{{steps.<id>.*}}` template variables. */
+export interface AutomationStepOutputs {
+  worktreePath?: string
+  branch?: string
+  ptyId?: string
+  exitCode?: number
+  stdout?: string
+  stderr?: string
+}
+
+export type AutomationStepStatus = AutomationRunStatus | 'skipped'
+
+export interface AutomationStepResult {
+  stepId: string
+  actionType: AutomationAction['type']
+  status: AutomationStepStatus
+  startedAt: number
+  finishedAt: number
+  message?: string
+  outputs?: AutomationStepOutputs
+}
+
 export interface AutomationConfig {
   id: string
   name: string
@@ -102,6 +236,19 @@ export interface AutomationConfigV2 {
   projectId: string
   trigger: AutomationTrigger
   action: AutomationAction
+  /**
+   * Ordered pipeline. When present it replaces `action`, which then mirrors the
+   * first step so older readers still see a sensible single action.
+   */
+  steps?: AutomationStep[]
+  runTarget?: AutomationRunTarget
+  /** Runs kept in the project's history for this automation; defaults to DEFAULT_AUTOMATION_RUN_RETENTION. */
+  historyRetention?: number
+  /**
+   * Wall-clock limit for a run. When set, prompt steps also wait for their agent PTY to
+   * exit and the PTY is killed if the limit is reached; otherwise they finish at launch.
+   */
+  maxDurationMs?: number
   enabled: boolean
   repoPath: string
   cooldownMs?: number
@@ -124,6 +271,8 @@ export interface AutomationEvent {
   toolName?: string
   prInfo?: PrInfo
   meta?: AutomationEventMeta
+  /** Parsed JSON body of a `webhook:received` event. */
+  payload?: unknown
 }
 
 export interface AutomationWorkspaceEvent {
@@ -142,19 +291,72 @@ export interface AutomationRunStartedEvent {
   ptyId: string
   worktreePath: string
   branch: string
+  /** Set when the run reused an existing workspace; the renderer adds the tab there. */
+  workspaceId?: string
+  agentType?: AutomationAgentType
 }
 
-export type AutomationRunStatus = 'success' | 'failed' | 'timeout'
-
 export interface AutomationStatusEvent {
   automationId: string
   status: AutomationRunStatus
   timestamp: number
   message?: string
+  steps?: AutomationStepResult[]
+  /** History record id, so open history views can refresh. */
+  runId?: string
+}
+
+/** Sent when a run starts and finishes, so the UI can offer Stop while it is in flight. */
+export interface AutomationRunActivityEvent {
+  automationId: string
+  running: boolean
+}
+
+/** One execution as stored in the project's run history. */
+export interface AutomationRunRecord {
+  id: string
+  automationId: string
+  automationName: string
+  projectId: string
+  status: AutomationRunStatus
+  startedAt: number
+  finishedAt: number
+  message?: string
+  triggerEvent: AutomationEvent | null
+  /** First worktree / PTY any step reported, for jumping to the run. */
+  worktreePath?: string
+  ptyId?: string
+  /** Per-step results, including captured shell output. */
+  steps: AutomationStepResult[]
+}
+
+/** Position of a run in newest-first history order; the id breaks ties between runs started in the same millisecond. */
+export interface AutomationRunHistoryCursor {
+  startedAt: number
+  id: string
+}
+
+export interface AutomationRunHistoryQuery {
+  automationId?: string
+  status?: AutomationRunStatus
+  /** Page cursor: only runs ordered after this one. */
+  before?: AutomationRunHistoryCursor
+  limit?: number
+}
+
+export interface AutomationRunHistoryPage {
+  runs: AutomationRunRecord[]
+  /** Pass as `before` to fetch the next page; absent on the last page. */
+  nextBefore?: AutomationRunHistoryCursor
 }
 
 export const DEFAULT_AUTOMATION_COOLDOWN_MS = 30_000
+export const DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES = 10
 export const MAX_AUTOMATION_EXECUTIONS_PER_MINUTE = 10
+export const DEFAULT_AUTOMATION_RUN_RETENTION = 200
+export const AUTOMATION_RUN_HISTORY_PAGE_SIZE = 50
+/** Captured stdout/stderr per shell step is truncated to the trailing characters. */
+export const MAX_AUTOMATION_STEP_OUTPUT_CHARS = 64 * 1024
 
 export function isAutomationConfigV2(config: AutomationConfigLike): config is AutomationConfigV2 {
   return 'trigger' in config && 'action' in config
@@ -179,3 +381,18 @@ export function toAutomationConfigV2(config: AutomationConfigLike): AutomationCo
     cooldownMs: config.cooldownMs,
   }
 }
+
+export function getAutomationSteps(config: Pick<AutomationConfigV2, 'action' | 'steps'>): AutomationStep[] {
+  if (config.steps && config.steps.length > 0) return config.steps
+  return [{ id: 'step-1', action: config.action }]
+}
+
+export function isTimedAgentEventType(type: AutomationEventType): type is TimedAgentEventType {
+  return type === 'agent:idle' || type === 'agent:long-running'
+}
+
+export function getAgentEventThresholdMinutes(trigger: Pick<EventTrigger, 'thresholdMinutes'>): number {
+  return trigger.thresholdMinutes && trigger.thresholdMinutes > 0
+    ? trigger.thresholdMinutes
+    : DEFAULT_AGENT_EVENT_THRESHOLD_MINUTES
+}
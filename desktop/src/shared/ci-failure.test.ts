@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test'
+import { extractCiFailure, isFailedCheckRun } from './ci-failure'
+
+const LOG = [
+  'test\tSet up job\t2026-03-01T10:00:00.0000000Z Current runner version: 2.317.0',
+  'test\tRun bun test\t2026-03-01T10:00:01.0000000Z ##[group]Run bun test',
+  'test\tRun bun test\t2026-03-01T10:00:01.1000000Z bun test v1.2.0',
+  'test\tRun bun test\t2026-03-01T10:00:02.0000000Z ##[endgroup]',
+  'test\tRun bun test\t2026-03-01T10:00:03.0000000Z src/a.test.ts:',
+  'test\tRun bun test\t2026-03-01T10:00:03.1000000Z \u001b[31m(fail)\u001b[0m adds numbers',
+  'test\tRun bun test\t2026-03-01T10:00:03.2000000Z error: expect(received).toBe(expected)',
+  'test\tRun bun test\t2026-03-01T10:00:03.3000000Z  1 fail',
+  'test\tRun bun test\t2026-03-01T10:00:04.0000000Z ##[error]Process completed with exit code 1.',
+  '',
+].join('\n')
+
+describe('extractCiFailure', () => {
+  it('finds the failing step and starts just before the first error line', () => {
+    expect(extractCiFailure(LOG)).toEqual({
+      failingStep: 'Run bun test',
+      excerpt: [
+        'bun test v1.2.0',
+        'src/a.test.ts:',
+        '(fail) adds numbers',
+        'error: expect(received).toBe(expected)',
+        ' 1 fail',
+        'Error: Process completed with exit code 1.',
+      ].join('\n'),
+      truncated: false,
+    })
+  })
+
+  it('caps the excerpt and reports truncation', () => {
+    const failure = extractCiFailure(LOG, 2)
+    expect(failure.excerpt).toBe('bun test v1.2.0\nsrc/a.test.ts:')
+    expect(failure.truncated).toBe(true)
+  })
+})
+
+describe('isFailedCheckRun', () => {
+  it('treats timeouts and cancellations as failures but not skips', () => {
+    expect(isFailedCheckRun({ conclusion: 'timed_out' })).toBe(true)
+    expect(isFailedCheckRun({ conclusion: 'skipped' })).toBe(false)
+    expect(isFailedCheckRun({ conclusion: null })).toBe(false)
+  })
+})
@@ -0,0 +1,68 @@
+import type { CiFailureExcerpt, PrCheckRun } from './github-types'
+
+const FAILED_CONCLUSIONS = new Set(['failure', 'timed_out', 'cancelled', 'action_required', 'startup_failure'])
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z ?/
+const ANSI_RE = /\x1b\[[0-9;]*[A-Za-z]/g
+const FAILURE_RE = /\b(error|failed|failure|fail|exception|panic|fatal)\b/i
+const EXIT_CODE_RE = /^##\[error\]Process completed with exit code/
+const CONTEXT_BEFORE = 5
+const DEFAULT_MAX_LINES = 40
+
+export function isFailedCheckRun(run: Pick<PrCheckRun, 'conclusion'>): boolean {
+  return run.conclusion != null && FAILED_CONCLUSIONS.has(run.conclusion)
+}
+
+interface JobLogLine {
+  step: string
+  text: string
+}
+
+/** Splits `gh run view --log` output (`job<TAB>step<TAB>timestamp text`) into cleaned lines. */
+function parseJobLog(log: string): JobLogLine[] {
+  const lines: JobLogLine[] = []
+  for (const raw of log.split(/\r?\n/)) {
+    const parts = raw.split('\t')
+    const step = parts.length >= 3 ? parts[1] : ''
+    const text = (parts.length >= 3 ? parts.slice(2).join('\t') : raw).replace(TIMESTAMP_RE, '').replace(ANSI_RE, '')
+    if (text.startsWith('##[group]') || text.startsWith('##[endgroup]')) continue
+    lines.push({ step, text })
+  }
+  while (lines.length > 0 && !lines[lines.length - 1].text.trim()) lines.pop()
+  return lines
+}
+
+/**
+ * Picks the failing step of a job log and the lines that explain it: the step holding the first
+ * `##[error]` annotation, starting a few lines before its first error-looking line. The trailing
+ * "Process completed with exit code" annotation is only used as a fallback anchor.
+ */
+export function extractCiFailure(log: string, maxLines = DEFAULT_MAX_LINES): CiFailureExcerpt {
+  const lines = parseJobLog(log)
+  if (lines.length === 0) return { failingStep: null, excerpt: '', truncated: false }
+
+  const annotated = lines.find((line) => line.text.startsWith('##[error]'))
+  const failingStep = (annotated ?? lines[lines.length - 1]).step
+  const stepLines = lines.filter((line) => line.step === failingStep).map((line) => line.text)
+
+  let anchor = stepLines.findIndex((text) => FAILURE_RE.test(text) && !EXIT_CODE_RE.test(text))
+  if (anchor < 0) anchor = stepLines.findIndex((text) => text.startsWith('##[error]'))
+  const start = anchor < 0 ? Math.max(0, stepLines.length - maxLines) : Math.max(0, anchor - CONTEXT_BEFORE)
+  const excerpt = stepLines
+    .slice(start, start + maxLines)
+    .map((text) => text.replace(/^##\[error\]/, 'Error: '))
+  return {
+    failingStep: failingStep || null,
+    excerpt: excerpt.join('\n'),
+    truncated: start > 0 || start + maxLines < stepLines.length,
+  }
+}
+
+export function formatCiFailureForAgent(params: {
+  checkName: string
+  prNumber: number
+  failure: CiFailureExcerpt
+}): string {
+  const { checkName, prNumber, failure } = params
+  const step = failure.failingStep ? ` at step "${failure.failingStep}"` : ''
+  return `CI check "${checkName}" failed${step} on PR #${prNumber}. Log excerpt:\n\`\`\`\n${failure.excerpt}\n\`\`\`\n`
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  applyReplaceEdits,
+  createCodeReplaceRegExp,
+  expandReplacement,
+  findReplaceMatches,
+  matchLineTexts,
+  previewReplaceLines,
+} from './code-replace'
+
+describe('createCodeReplaceRegExp', () => {
+  it('escapes plain queries and uses smart case', () => {
+    expect('a.b axb'.match(createCodeReplaceRegExp('a.b', 'plain'))).toEqual(['a.b'])
+    expect('Foo foo'.match(createCodeReplaceRegExp('foo', 'plain'))).toEqual(['Foo', 'foo'])
+    expect('Foo foo'.match(createCodeReplaceRegExp('Foo', 'plain'))).toEqual(['Foo'])
+    expect(() => createCodeReplaceRegExp('(', 'regex')).toThrow()
+  })
+})
+
+describe('expandReplacement', () => {
+  it('expands numbered and named groups like String.replace', () => {
+    const match = /(?<key>\w+)=(\w+)/.exec('a=b')!
+    expect(expandReplacement('$2=$1 $<key> $& $$ $3 $0', match)).toBe('b=a a a=b $ $3 $0')
+    expect(expandReplacement('$10', /(x)/.exec('x')!)).toBe('x0')
+  })
+})
+
+describe('findReplaceMatches', () => {
+  it('reports offsets, positions and expanded replacements per line', () => {
+    const text = 'const a = get(1)\r\nconst b = get(22)\n'
+    const matches = findReplaceMatches(text, createCodeReplaceRegExp('get\\((\\d+)\\)', 'regex'), 'fetch($1)', 'regex', 10)
+    expect(matches.map((m) => [m.lineNumber, m.column, m.matchText, m.replacement])).toEqual([
+      [1, 11, 'get(1)', 'fetch(1)'],
+      [2, 11, 'get(22)', 'fetch(22)'],
+    ])
+    expect(text.slice(matches[1].start, matches[1].end)).toBe('get(22)')
+    expect(findReplaceMatches(text, createCodeReplaceRegExp('get', 'plain'), '$1', 'plain', 1)).toHaveLength(1)
+    expect(findReplaceMatches('x', createCodeReplaceRegExp('x', 'plain'), '$1', 'plain', 5)[0].replacement).toBe('$1')
+  })
+
+  it('handles empty regex matches without looping', () => {
+    const matches = findReplaceMatches('ab\ncd', createCodeReplaceRegExp('^', 'regex'), '> ', 'regex', 10)
+    expect(applyReplaceEdits('ab\ncd', matches.map((m) => ({ start: m.start, end: m.end, replacement: m.replacement })))).toBe('> ab\n> cd')
+  })
+})
+
+describe('applyReplaceEdits', () => {
+  it('applies edits in any order and rejects overlaps', () => {
+    expect(applyReplaceEdits('one two', [
+      { start: 4, end: 7, replacement: '2' },
+      { start: 0, end: 3, replacement: '1' },
+    ])).toBe('1 2')
+    expect(() => applyReplaceEdits('abc', [
+      { start: 0, end: 2, replacement: '' },
+      { start: 1, end: 3, replacement: '' },
+    ])).toThrow()
+  })
+})
+
+describe('previewReplaceLines', () => {
+  it('shows included matches as removed/added and excluded ones as context', () => {
+    const text = 'foo bar foo\nbaz'
+    const matches = findReplaceMatches(text, createCodeReplaceRegExp('foo', 'plain'), 'qux', 'plain', 10)
+    const lineTexts = matchLineTexts(text, matches)
+    expect(lineTexts).toEqual({ 1: 'foo bar foo' })
+    const [line] = previewReplaceLines(lineTexts, matches, (index) => index === 1)
+    expect(line.lineNumber).toBe(1)
+    expect(line.matchIndexes).toEqual([0, 1])
+    expect(line.before).toEqual([
+      { text: 'foo', kind: 'context' },
+      { text: ' bar ', kind: 'context' },
+      { text: 'foo', kind: 'removed' },
+    ])
+    expect(line.after.map((segment) => segment.text).join('')).toBe('foo bar qux')
+  })
+
+  it('clips long context around the match', () => {
+    const text = `${'a'.repeat(200)}needle${'b'.repeat(200)}`
+    const matches = findReplaceMatches(text, createCodeReplaceRegExp('needle', 'plain'), 'pin', 'plain', 10)
+    const [line] = previewReplaceLines(matchLineTexts(text, matches), matches)
+    expect(line.after.map((segment) => segment.text)).toEqual([`…${'a'.repeat(60)}`, 'pin', `${'b'.repeat(120)}…`])
+  })
+})
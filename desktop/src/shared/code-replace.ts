@@ -0,0 +1,152 @@
+import type { CodeReplaceEdit, CodeReplaceMatch, CodeSearchMode } from './code-search-types'
+
+const PREVIEW_CONTEXT_CHARS = 60
+
+export interface ReplacePreviewSegment {
+  text: string
+  kind: 'context' | 'removed' | 'added'
+}
+
+export interface ReplacePreviewLine {
+  lineNumber: number
+  /** Indexes into the file's matches that fall on this line. */
+  matchIndexes: number[]
+  before: ReplacePreviewSegment[]
+  after: ReplacePreviewSegment[]
+}
+
+/**
+ * Search pattern for a replace, with code search's smart case: an all-lowercase query
+ * matches case-insensitively. Throws on an invalid regex.
+ */
+export function createCodeReplaceRegExp(query: string, mode: CodeSearchMode): RegExp {
+  const source = mode === 'regex' ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(source, query === query.toLowerCase() ? 'gi' : 'g')
+}
+
+/**
+ * Expands `$$`, `$&`, `$1`…`$99` and `$<name>` in a replacement the way
+ * `String.prototype.replace` does; unknown references stay literal.
+ */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+  const groupCount = match.length - 1
+  return template.replace(/\$(\$|&|<([^>]*)>|\d{1,2})/g, (token, ref: string, name: string | undefined) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return match[0]
+    if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token
+    // `$12` means group 1 followed by "2" when there is no twelfth group
+    const twoDigit = ref.length === 2 && Number(ref) <= groupCount
+    const index = twoDigit ? Number(ref) : Number(ref[0])
+    if (index < 1 || index > groupCount) return token
+    return (match[index] ?? '') + (ref.length === 2 && !twoDigit ? ref[1] : '')
+  })
+}
+
+/**
+ * Matches of `regex` in `text`, line by line like code search, each with its replacement.
+ * Plain-mode replacements are literal; regex mode expands capture groups.
+ */
+export function findReplaceMatches(
+  text: string,
+  regex: RegExp,
+  replacement: string,
+  mode: CodeSearchMode,
+  limit: number,
+): CodeReplaceMatch[] {
+  const matches: CodeReplaceMatch[] = []
+  const lines = text.split('\n')
+  let offset = 0
+  for (let index = 0; index < lines.length && matches.length < limit; index += 1) {
+    const raw = lines[index]
+    const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw
+    regex.lastIndex = 0
+    let match: RegExpExecArray | null
+    while (matches.length < limit && (match = regex.exec(line)) !== null) {
+      matches.push({
+        start: offset + match.index,
+        end: offset + match.index + match[0].length,
+        lineNumber: index + 1,
+        column: match.index + 1,
+        matchText: match[0],
+        replacement: mode === 'regex' ? expandReplacement(replacement, match) : replacement,
+      })
+      if (match[0].length === 0) regex.lastIndex += 1
+    }
+    offset += raw.length + 1
+  }
+  return matches
+}
+
+/** Applies replace edits (offsets into `text`); throws if they overlap or run past the end. */
+export function applyReplaceEdits(text: string, edits: CodeReplaceEdit[]): string {
+  let result = ''
+  let cursor = 0
+  for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+    if (edit.start < cursor || edit.end < edit.start || edit.end > text.length) {
+      throw new Error('Replacements overlap or fall outside the file')
+    }
+    result += text.slice(cursor, edit.start) + edit.replacement
+    cursor = edit.end
+  }
+  return result + text.slice(cursor)
+}
+
+/** Text of each line holding a match (without line endings), keyed by 1-based line number. */
+export function matchLineTexts(text: string, matches: CodeReplaceMatch[]): Record<number, string> {
+  const lines = text.split('\n')
+  const texts: Record<number, string> = {}
+  for (const match of matches) {
+    texts[match.lineNumber] ??= (lines[match.lineNumber - 1] ?? '').replace(/\r$/, '')
+  }
+  return texts
+}
+
+function clipContext(text: string, position: 'leading' | 'between' | 'trailing'): string {
+  if (text.length <= PREVIEW_CONTEXT_CHARS * 2) return text
+  if (position === 'leading') return `…${text.slice(-PREVIEW_CONTEXT_CHARS)}`
+  if (position === 'trailing') return `${text.slice(0, PREVIEW_CONTEXT_CHARS * 2)}…`
+  return `${text.slice(0, PREVIEW_CONTEXT_CHARS)}…${text.slice(-PREVIEW_CONTEXT_CHARS)}`
+}
+
+/**
+ * Before/after segments for each line with a match. Excluded matches stay as context on
+ * both sides, so the preview shows exactly what applying will change. Long stretches of
+ * context are clipped around the matches.
+ */
+export function previewReplaceLines(
+  lineTexts: Record<number, string>,
+  matches: CodeReplaceMatch[],
+  isIncluded: (index: number) => boolean = () => true,
+): ReplacePreviewLine[] {
+  const byLine = new Map<number, number[]>()
+  matches.forEach((match, index) => {
+    byLine.set(match.lineNumber, [...(byLine.get(match.lineNumber) ?? []), index])
+  })
+  return Array.from(byLine, ([lineNumber, matchIndexes]) => {
+    const line = lineTexts[lineNumber] ?? ''
+    const before: ReplacePreviewSegment[] = []
+    const after: ReplacePreviewSegment[] = []
+    const pushContext = (text: string, position: 'leading' | 'between' | 'trailing') => {
+      if (!text) return
+      const clipped = clipContext(text, position)
+      before.push({ text: clipped, kind: 'context' })
+      after.push({ text: clipped, kind: 'context' })
+    }
+    let cursor = 0
+    for (const index of matchIndexes) {
+      const match = matches[index]
+      const from = match.column - 1
+      pushContext(line.slice(cursor, from), cursor === 0 ? 'leading' : 'between')
+      if (isIncluded(index)) {
+        before.push({ text: match.matchText, kind: 'removed' })
+        after.push({ text: match.replacement, kind: 'added' })
+      } else {
+        before.push({ text: match.matchText, kind: 'context' })
+        after.push({ text: match.matchText, kind: 'context' })
+      }
+      cursor = from + match.matchText.length
+    }
+    pushContext(line.slice(cursor), 'trailing')
+    return { lineNumber, matchIndexes, before, after }
+  }).sort((a, b) => a.lineNumber - b.lineNumber)
+}
@@ -48,3 +48,61 @@ export const MAX_CODE_SEARCH_MAX_MATCHES_PER_FILE = 25
 export const DEFAULT_CODE_SEARCH_MAX_FILE_SIZE_BYTES = 1_000_000
 export const MAX_CODE_SEARCH_MAX_FILE_SIZE_BYTES = 2_000_000
 export const DEFAULT_CODE_SEARCH_PREVIEW_CHARS = 220
+
+export interface CodeReplaceRequest {
+  query: string
+  replacement: string
+  scope?: CodeSearchScope
+  mode?: CodeSearchMode
+  /** Unsaved text of files open in editor tabs; matched instead of the file on disk. */
+  openBuffers?: Array<{ path: string; content: string }>
+}
+
+export interface CodeReplaceMatch {
+  /** UTF-16 offsets of the match in the file text. */
+  start: number
+  end: number
+  lineNumber: number
+  column: number
+  matchText: string
+  /** Replacement with regex capture groups (`$1`, `$<name>`, `$&`) expanded. */
+  replacement: string
+}
+
+export interface CodeReplaceFile {
+  path: string
+  relativePath: string
+  /** Hash of the text the matches were computed against; applying refuses once it changes. */
+  contentHash: string
+  /** True when the matches come from an open tab's unsaved buffer rather than the disk. */
+  fromBuffer: boolean
+  matches: CodeReplaceMatch[]
+  /** Text of each matched line, keyed by line number, for previews. */
+  lineTexts: Record<number, string>
+}
+
+export interface CodeReplacePreview {
+  state: 'ready' | 'error'
+  files: CodeReplaceFile[]
+  totalMatches: number
+  /** True when the match cap stopped the scan early. */
+  truncated: boolean
+  error?: string
+}
+
+export interface CodeReplaceEdit {
+  start: number
+  end: number
+  replacement: string
+}
+
+export interface CodeReplaceApplyRequest {
+  files: Array<{ path: string; contentHash: string; edits: CodeReplaceEdit[] }>
+}
+
+export interface CodeReplaceApplyResult {
+  /** Files written, in request order. */
+  files: string[]
+}
+
+export const MAX_CODE_REPLACE_MATCHES = 5000
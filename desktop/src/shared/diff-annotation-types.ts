@@ -21,6 +21,21 @@ export interface DiffAnnotation {
   resolved: boolean
   /** Set by coding agents (e.g. "constellagent"). Absent for human-authored comments. */
   author?: string
+  /** Present when the comment is (or was published as) a GitHub PR review thread. */
+  github?: DiffAnnotationGithubThread
+}
+
+export interface DiffAnnotationGithubReply {
+  id: string
+  author: string
+  body: string
+  createdAt: string
+}
+
+export interface DiffAnnotationGithubThread {
+  threadId: string
+  /** Comments after the one that opened the thread, oldest first. */
+  replies: DiffAnnotationGithubReply[]
 }
 
 export type DiffAnnotationAddInput = Pick<DiffAnnotation, 'filePath' | 'side' | 'lineNumber' | 'body'> & {
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'bun:test'
+import { buildPrEdit, parseNameList } from './github-pr-edit'
+
+const current = { title: 'Add cache', body: 'Body', reviewers: ['alice', 'org/platform'], labels: ['perf'] }
+
+describe('parseNameList', () => {
+  it('accepts commas, spaces and @ prefixes', () => {
+    expect(parseNameList(' @alice, bob  org/platform,bob ')).toEqual(['alice', 'bob', 'org/platform'])
+  })
+})
+
+describe('buildPrEdit', () => {
+  it('returns only the changed fields with reviewer and label deltas', () => {
+    expect(buildPrEdit(current, { ...current, reviewers: ['org/platform', 'carol'], labels: [] })).toEqual({
+      addReviewers: ['carol'],
+      removeReviewers: ['alice'],
+      removeLabels: ['perf'],
+    })
+  })
+
+  it('returns null when nothing changed and ignores a blanked title', () => {
+    expect(buildPrEdit(current, { ...current })).toBeNull()
+    expect(buildPrEdit(current, { ...current, title: '  ' })).toBeNull()
+  })
+})
@@ -0,0 +1,28 @@
+import type { PrDetails, PrEdit } from './github-types'
+
+/** Splits a comma/whitespace separated list of logins or labels, dropping `@` prefixes and duplicates. */
+export function parseNameList(input: string): string[] {
+  const names = input
+    .split(/[\s,]+/)
+    .map((name) => name.trim().replace(/^@/, ''))
+    .filter(Boolean)
+  return [...new Set(names)]
+}
+
+type EditablePrFields = Pick<PrDetails, 'title' | 'body' | 'reviewers' | 'labels'>
+
+/** The `PrEdit` that turns `current` into `next`, or null when nothing changed. */
+export function buildPrEdit(current: EditablePrFields, next: EditablePrFields): PrEdit | null {
+  const edit: PrEdit = {}
+  if (next.title.trim() && next.title.trim() !== current.title) edit.title = next.title.trim()
+  if (next.body !== current.body) edit.body = next.body
+  const addReviewers = next.reviewers.filter((name) => !current.reviewers.includes(name))
+  const removeReviewers = current.reviewers.filter((name) => !next.reviewers.includes(name))
+  const addLabels = next.labels.filter((name) => !current.labels.includes(name))
+  const removeLabels = current.labels.filter((name) => !next.labels.includes(name))
+  if (addReviewers.length > 0) edit.addReviewers = addReviewers
+  if (removeReviewers.length > 0) edit.removeReviewers = removeReviewers
+  if (addLabels.length > 0) edit.addLabels = addLabels
+  if (removeLabels.length > 0) edit.removeLabels = removeLabels
+  return Object.keys(edit).length > 0 ? edit : null
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test'
+import { mapAnnotationToReviewComment, parsePatchCommentableLines } from './github-review-mapping'
+
+const PATCH = [
+  '@@ -10,4 +10,5 @@ export function main() {',
+  '   const a = 1',
+  '-  const b = 2',
+  '+  const b = 3',
+  '+  const c = 4',
+  '   return a',
+  '\\ No newline at end of file',
+].join('\n')
+
+function annotation(side: 'old' | 'new', lineStart: number, lineEnd = lineStart) {
+  return { file_path: 'src/main.ts', side, line_start: lineStart, line_end: lineEnd, summary: 'Rename this', rationale: null }
+}
+
+describe('parsePatchCommentableLines', () => {
+  it('tracks old and new line numbers through context, removed and added lines', () => {
+    const lines = parsePatchCommentableLines(PATCH)
+    expect([...lines.LEFT]).toEqual([10, 11, 12])
+    expect([...lines.RIGHT]).toEqual([10, 11, 12, 13])
+  })
+})
+
+describe('mapAnnotationToReviewComment', () => {
+  it('maps sides and multi-line ranges onto the diff', () => {
+    expect(mapAnnotationToReviewComment(annotation('old', 11), PATCH)).toEqual({
+      ok: true,
+      draft: { path: 'src/main.ts', body: 'Rename this', line: 11, side: 'LEFT' },
+    })
+    expect(mapAnnotationToReviewComment(annotation('new', 11, 12), PATCH)).toEqual({
+      ok: true,
+      draft: { path: 'src/main.ts', body: 'Rename this', line: 12, side: 'RIGHT', start_line: 11, start_side: 'RIGHT' },
+    })
+  })
+
+  it('rejects lines outside the diff and files the PR does not touch', () => {
+    expect(mapAnnotationToReviewComment(annotation('new', 12, 20), PATCH).ok).toBe(false)
+    expect(mapAnnotationToReviewComment(annotation('old', 13), PATCH).ok).toBe(false)
+    expect(mapAnnotationToReviewComment(annotation('new', 10), undefined)).toEqual({
+      ok: false,
+      reason: 'src/main.ts is not changed in this pull request',
+    })
+  })
+})
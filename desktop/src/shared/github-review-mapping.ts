@@ -0,0 +1,88 @@
+import type { ReviewComment } from './review-types'
+
+export type GithubDiffSide = 'LEFT' | 'RIGHT'
+
+/** A review comment in the shape GitHub's create-review endpoint expects. */
+export interface GithubReviewCommentDraft {
+  path: string
+  body: string
+  line: number
+  side: GithubDiffSide
+  start_line?: number
+  start_side?: GithubDiffSide
+}
+
+export type AnnotationReviewCommentMapping =
+  | { ok: true; draft: GithubReviewCommentDraft }
+  | { ok: false; reason: string }
+
+/** Lines GitHub accepts comments on, per side, for one file's unified diff `patch`. */
+export interface CommentableLines {
+  LEFT: Set<number>
+  RIGHT: Set<number>
+}
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/
+
+/**
+ * Walks the hunks of a PR file patch. Context lines are commentable on both sides, removed
+ * lines only on LEFT (old) and added lines only on RIGHT (new).
+ */
+export function parsePatchCommentableLines(patch: string): CommentableLines {
+  const lines: CommentableLines = { LEFT: new Set(), RIGHT: new Set() }
+  let oldLine = 0
+  let newLine = 0
+  let inHunk = false
+  for (const row of patch.split('\n')) {
+    const header = HUNK_HEADER_RE.exec(row)
+    if (header) {
+      oldLine = Number(header[1])
+      newLine = Number(header[2])
+      inHunk = true
+      continue
+    }
+    if (!inHunk || row.startsWith('\\')) continue
+    if (row.startsWith('-')) {
+      lines.LEFT.add(oldLine++)
+    } else if (row.startsWith('+')) {
+      lines.RIGHT.add(newLine++)
+    } else {
+      lines.LEFT.add(oldLine++)
+      lines.RIGHT.add(newLine++)
+    }
+  }
+  return lines
+}
+
+export function formatAnnotationCommentBody(comment: Pick<ReviewComment, 'summary' | 'rationale'>): string {
+  const rationale = comment.rationale?.trim()
+  return rationale ? `${comment.summary.trim()}\n\n${rationale}` : comment.summary.trim()
+}
+
+/**
+ * Maps a local annotation onto the PR diff. Multi-line ranges must lie entirely inside the
+ * diff on the annotation's side, since GitHub rejects comments that leave a hunk.
+ */
+export function mapAnnotationToReviewComment(
+  comment: Pick<ReviewComment, 'file_path' | 'side' | 'line_start' | 'line_end' | 'summary' | 'rationale'>,
+  patch: string | undefined,
+): AnnotationReviewCommentMapping {
+  if (patch === undefined) return { ok: false, reason: `${comment.file_path} is not changed in this pull request` }
+  if (!patch) return { ok: false, reason: `${comment.file_path} has no reviewable diff (binary or too large)` }
+  const side: GithubDiffSide = comment.side === 'old' ? 'LEFT' : 'RIGHT'
+  const start = Math.min(comment.line_start, comment.line_end)
+  const end = Math.max(comment.line_start, comment.line_end)
+  const commentable = parsePatchCommentableLines(patch)[side]
+  for (let line = start; line <= end; line++) {
+    if (!commentable.has(line)) {
+      const label = start === end ? `Line ${start} is` : `Lines ${start}–${end} are`
+      return { ok: false, reason: `${label} outside the pull request diff of ${comment.file_path} (${comment.side} side)` }
+    }
+  }
+  const draft: GithubReviewCommentDraft = { path: comment.file_path, body: formatAnnotationCommentBody(comment), line: end, side }
+  if (start !== end) {
+    draft.start_line = start
+    draft.start_side = side
+  }
+  return { ok: true, draft }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test'
+import type { DiffAnnotation } from './diff-annotation-types'
+import type { PrReviewThread } from './github-types'
+import { formatThreadReplies, mergeGithubReviewThreads } from './github-review-threads'
+
+const local: DiffAnnotation = {
+  id: 'local-1',
+  filePath: 'src/app.ts',
+  side: 'additions',
+  lineNumber: 4,
+  body: 'Extract this',
+  createdAt: '2026-01-01T00:00:00Z',
+  resolved: false,
+}
+
+function thread(id: string, overrides: Partial<PrReviewThread> = {}): PrReviewThread {
+  return {
+    id,
+    filePath: 'src/app.ts',
+    line: 12,
+    startLine: 10,
+    diffSide: 'LEFT',
+    resolved: false,
+    comments: [
+      { id: `PRRC_${id}`, body: 'Why?', author: 'octocat', createdAt: '2026-01-02T00:00:00Z' },
+      { id: `PRRC_${id}_reply`, body: 'Because', author: 'hubot', createdAt: '2026-01-03T00:00:00Z' },
+    ],
+    ...overrides,
+  }
+}
+
+describe('mergeGithubReviewThreads', () => {
+  it('adds unlinked threads as ranged annotations with their replies', () => {
+    const [, added] = mergeGithubReviewThreads([local], [thread('T1')])
+    expect(added).toEqual({
+      id: 'PRRC_T1',
+      filePath: 'src/app.ts',
+      side: 'deletions',
+      lineNumber: 10,
+      lineEnd: 12,
+      body: 'Why?',
+      createdAt: '2026-01-02T00:00:00Z',
+      resolved: false,
+      author: 'octocat',
+      github: {
+        threadId: 'T1',
+        replies: [{ id: 'PRRC_T1_reply', body: 'Because', author: 'hubot', createdAt: '2026-01-03T00:00:00Z' }],
+      },
+    })
+  })
+
+  it('attaches threads published from a local annotation instead of duplicating them', () => {
+    const merged = mergeGithubReviewThreads([local], [thread('T2', { linkedAnnotationId: 'local-1', resolved: true })])
+    expect(merged).toHaveLength(1)
+    expect(merged[0].id).toBe('local-1')
+    expect(merged[0].resolved).toBe(true)
+    expect(merged[0].github?.threadId).toBe('T2')
+    expect(merged[0].github?.replies.map((reply) => reply.author)).toEqual(['hubot'])
+  })
+
+  it('shows imported threads in place of their stored copy', () => {
+    const stored: DiffAnnotation = { ...local, id: 'imported-1', body: 'Why?', author: '@octocat' }
+    const merged = mergeGithubReviewThreads([local, stored], [thread('T3', { importedAnnotationId: 'imported-1' })])
+    expect(merged.map((annotation) => annotation.id)).toEqual(['local-1', 'PRRC_T3'])
+  })
+})
+
+describe('formatThreadReplies', () => {
+  it('lists replies with their authors', () => {
+    expect(formatThreadReplies(thread('T4').comments.slice(1))).toBe('@hubot: Because')
+    expect(formatThreadReplies([])).toBeNull()
+  })
+})
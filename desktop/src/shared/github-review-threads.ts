@@ -0,0 +1,65 @@
+import type { DiffAnnotation } from './diff-annotation-types'
+import type { PrReviewThread, PrReviewThreadComment } from './github-types'
+
+/** GitHub review comment node ids (`PRRC_…`, older `IC_…`); local annotation ids are UUIDs. */
+export function isGithubAnnotationId(id: string): boolean {
+  return id.startsWith('PRR') || id.startsWith('IC_')
+}
+
+/** Author of an imported thread's annotation, marked as a GitHub handle. */
+export function githubAnnotationAuthor(login: string): string {
+  return `@${login}`
+}
+
+/** A thread's replies as the rationale of its imported annotation, or null without replies. */
+export function formatThreadReplies(replies: PrReviewThreadComment[]): string | null {
+  if (replies.length === 0) return null
+  return replies.map((reply) => `${githubAnnotationAuthor(reply.author)}: ${reply.body}`).join('\n\n')
+}
+
+function threadToAnnotation(thread: PrReviewThread): DiffAnnotation {
+  const [root, ...replies] = thread.comments
+  const lineEnd = thread.line ?? thread.startLine ?? 1
+  const lineNumber = thread.startLine ?? lineEnd
+  return {
+    id: root.id,
+    filePath: thread.filePath,
+    side: thread.diffSide === 'LEFT' ? 'deletions' : 'additions',
+    lineNumber,
+    lineEnd: lineEnd > lineNumber ? lineEnd : undefined,
+    body: root.body,
+    createdAt: root.createdAt,
+    resolved: thread.resolved,
+    author: root.author,
+    github: { threadId: thread.id, replies },
+  }
+}
+
+/**
+ * Folds PR review threads into the local annotation list. Threads published from a local
+ * annotation attach their replies to it, and threads imported into the store replace their
+ * stored copy, so neither shows up twice.
+ */
+export function mergeGithubReviewThreads(local: DiffAnnotation[], threads: PrReviewThread[]): DiffAnnotation[] {
+  if (threads.length === 0) return local
+  const linked = new Map<string, PrReviewThread>()
+  const imported = new Set<string>()
+  const merged: DiffAnnotation[] = []
+  for (const thread of threads) {
+    if (thread.linkedAnnotationId) linked.set(thread.linkedAnnotationId, thread)
+    if (thread.importedAnnotationId) imported.add(thread.importedAnnotationId)
+  }
+  for (const annotation of local) {
+    if (imported.has(annotation.id)) continue
+    const thread = linked.get(annotation.id)
+    merged.push(thread
+      ? { ...annotation, resolved: thread.resolved, github: { threadId: thread.id, replies: thread.comments.slice(1) } }
+      : annotation)
+  }
+  const localIds = new Set(local.map((annotation) => annotation.id))
+  for (const thread of threads) {
+    if (thread.linkedAnnotationId && localIds.has(thread.linkedAnnotationId)) continue
+    merged.push(threadToAnnotation(thread))
+  }
+  return merged
+}
@@ -2,6 +2,8 @@ export type PrState = 'open' | 'merged' | 'closed'
 
 export type CheckStatus = 'pending' | 'passing' | 'failing' | 'none'
 
+export type PrReviewDecision = 'approved' | 'changes_requested' | 'review_required'
+
 export type GithubLookupError = 'gh_not_installed' | 'not_authenticated' | 'not_github_repo'
 
 export interface PrInfo {
@@ -16,6 +18,11 @@ export interface PrInfo {
   isApproved: boolean
   isChangesRequested: boolean
   updatedAt: string
+  authorLogin?: string
+  baseRefName?: string
+  labels?: string[]
+  isDraft?: boolean
+  reviewDecision?: PrReviewDecision | null
 }
 
 export interface PrLookupResult {
@@ -26,7 +33,6 @@ export interface PrLookupResult {
 
 export interface OpenPrInfo extends PrInfo {
   headRefName: string
-  authorLogin?: string
 }
 
 export interface ListOpenPrsResult {
@@ -34,3 +40,141 @@ export interface ListOpenPrsResult {
   error?: GithubLookupError
   data: OpenPrInfo[]
 }
+
+/** `PENDING` leaves the review as a draft on GitHub for the reviewer to submit from the web UI. */
+export type PrReviewEvent = 'PENDING' | 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES'
+
+export interface PublishPrReviewRequest {
+  prNumber: number
+  /** Local review annotation ids; resolved ones are ignored. */
+  annotationIds: string[]
+  event: PrReviewEvent
+  body?: string
+}
+
+export interface PublishPrReviewResult {
+  /** Null when nothing new had to be posted (e.g. only edits to already-published comments). */
+  reviewUrl: string | null
+  published: number
+  /** Previously published annotations whose GitHub comment was edited to match. */
+  updated: number
+  skipped: Array<{ annotationId: string; reason: string }>
+}
+
+export interface PrReviewThreadComment {
+  /** GraphQL node id (`PRRC_…`). */
+  id: string
+  body: string
+  author: string
+  createdAt: string
+}
+
+export interface PrReviewThread {
+  id: string
+  filePath: string
+  /** Last line of the commented range; null once the thread is outdated. */
+  line: number | null
+  startLine: number | null
+  diffSide: 'LEFT' | 'RIGHT'
+  resolved: boolean
+  /** Oldest first; the first comment opened the thread. */
+  comments: PrReviewThreadComment[]
+  /** Local annotation this thread was published from, if any. */
+  linkedAnnotationId?: string
+  /**
+   * Annotation the thread was imported as, so the annotation CLI and agents see it. The UI
+   * shows the thread instead of that copy.
+   */
+  importedAnnotationId?: string
+}
+
+/** One check run on the PR head commit. */
+export interface PrCheckRun {
+  id: number
+  name: string
+  /** `queued`, `in_progress`, `completed`, … as reported by the Checks API. */
+  status: string
+  /** Null until the run completes. */
+  conclusion: string | null
+  detailsUrl: string | null
+  startedAt: string | null
+  completedAt: string | null
+  /** GitHub Actions job id (same as the check run id); null for external CI apps, whose logs we can't fetch. */
+  actionsJobId: number | null
+}
+
+export interface PrCheckRunsResult {
+  headSha: string
+  checkRuns: PrCheckRun[]
+}
+
+export interface CiFailureExcerpt {
+  failingStep: string | null
+  excerpt: string
+  /** The failing step logged more than the excerpt shows. */
+  truncated: boolean
+}
+
+export type PrMergeMethod = 'squash' | 'merge' | 'rebase'
+
+export interface CreatePrOptions {
+  /** Without a title the PR is filled from the branch commits (`gh pr create --fill`). */
+  title?: string
+  body?: string
+  draft?: boolean
+  reviewers?: string[]
+}
+
+export interface MergePrOptions {
+  method: PrMergeMethod
+  /** Queue the merge for when required checks and reviews pass instead of merging now. */
+  auto?: boolean
+}
+
+/** Fields to change on a PR; omitted fields and empty lists are left alone. */
+export interface PrEdit {
+  title?: string
+  body?: string
+  addReviewers?: string[]
+  removeReviewers?: string[]
+  addLabels?: string[]
+  removeLabels?: string[]
+}
+
+export interface PrDetails {
+  number: number
+  url: string
+  title: string
+  body: string
+  state: PrState
+  isDraft: boolean
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN'
+  autoMergeEnabled: boolean
+  /** Logins (users) and slugs (teams) with a pending review request. */
+  reviewers: string[]
+  labels: string[]
+  baseRefName: string
+}
+
+/** One GitHub API rate-limit bucket (`x-ratelimit-resource`), as last reported by a response. */
+export interface GithubRateLimitBucket {
+  resource: string
+  limit: number
+  remaining: number
+  used: number
+  /** Epoch ms when the bucket refills. */
+  resetAt: number
+  observedAt: number
+}
+
+export interface GithubRateLimitStatus {
+  buckets: GithubRateLimitBucket[]
+  /** Factor applied to PR polling intervals; 1 while the budget is healthy. */
+  backoffMultiplier: number
+  /** Epoch ms until which GitHub refuses requests (exhausted budget or secondary limit). */
+  blockedUntil: number | null
+  /** REST requests answered with 304 Not Modified; these are free. */
+  notModifiedCount: number
+  /** PR status lookups that were folded into another caller's GraphQL query. */
+  coalescedLookupCount: number
+}
@@ -35,6 +35,12 @@ export const IPC = {
   /** Register project repo for manual worktree sync (sidebar); no background polling */
   GIT_START_SYNC_POLLING: 'git:start-sync-polling',
   GIT_STOP_SYNC_POLLING: 'git:stop-sync-polling',
+  /** Sync stopped on conflicts: list files, read their versions, resolve, continue or abort. */
+  GIT_SYNC_GET_CONFLICTS: 'git:sync-get-conflicts',
+  GIT_SYNC_GET_CONFLICT_VERSIONS: 'git:sync-get-conflict-versions',
+  GIT_SYNC_RESOLVE_FILE: 'git:sync-resolve-file',
+  GIT_SYNC_CONTINUE: 'git:sync-continue',
+  GIT_SYNC_ABORT: 'git:sync-abort',
   GIT_CHECK_IS_REPO: 'git:check-is-repo',
   /** Canonical project repo root, anchored at the primary checkout when possible. */
   GIT_GET_PROJECT_REPO_ANCHOR: 'git:get-project-repo-anchor',
@@ -63,17 +69,37 @@ export const IPC = {
   PTY_DESTROY: 'pty:destroy',
   PTY_LIST: 'pty:list',
   PTY_REATTACH: 'pty:reattach',
+  /** Output saved at the last shutdown for a PTY id referenced by the persisted tab layout. */
+  PTY_TAKE_SCROLLBACK: 'pty:take-scrollback',
   PTY_DATA: 'pty:data', // prefix for events: `pty:data:{id}`
   PTY_TITLE_CHANGED: 'pty:title-changed',
   PTY_AGENT_DETECTED: 'pty:agent-detected',
   /** Renderer → main: current input line on Enter (xterm often sends only \\r to PTY) */
   PTY_SUGGEST_TAB_TITLE: 'pty:suggest-tab-title',
 
+  // Terminal transcripts (opt-in recording of PTY output into the project database)
+  TRANSCRIPT_SET_RECORDING: 'transcript:set-recording',
+  TRANSCRIPT_SEARCH: 'transcript:search',
+  /** Writes a session's plain text to a temp file and returns where a search hit lands in it. */
+  TRANSCRIPT_OPEN: 'transcript:open',
+  TRANSCRIPT_EXPORT: 'transcript:export',
+
+  // Project startup commands (dependency ordering, readiness checks, restart policies)
+  STARTUP_START: 'startup:start',
+  /** Restarts one command by name, or every command of the workspace. */
+  STARTUP_RESTART: 'startup:restart',
+  STARTUP_GET_STATUS: 'startup:get-status',
+  /** Main → renderer: a workspace's command states changed */
+  STARTUP_STATUS_CHANGED: 'startup:status-changed',
+
   // File operations
   FS_GET_TREE: 'fs:get-tree',
   FS_GET_TREE_WITH_STATUS: 'fs:get-tree-with-status',
   FS_QUICK_OPEN_SEARCH: 'fs:quick-open-search',
   FS_CODE_SEARCH: 'fs:code-search',
+  FS_SYMBOL_SEARCH: 'fs:symbol-search',
+  FS_REPLACE_PREVIEW: 'fs:replace-preview',
+  FS_APPLY_REPLACEMENTS: 'fs:apply-replacements',
   FS_SEARCH_AGENT_PLANS: 'fs:search-agent-plans',
   FS_READ_FILE: 'fs:read-file',
   FS_WRITE_FILE: 'fs:write-file',
@@ -102,6 +128,8 @@ export const IPC = {
   APP_LIST_PI_MODELS: 'app:list-pi-models',
   /** Generate a commit message from current uncommitted changes using PI. */
   APP_GENERATE_COMMIT_MESSAGE: 'app:generate-commit-message',
+  /** Draft a PR title/body from the branch's commits against its base using PI. */
+  APP_GENERATE_PR_DESCRIPTION: 'app:generate-pr-description',
   /** Draft Linear issue title/body via Pi (optional worktree grounding). */
   APP_GENERATE_LINEAR_ISSUE_DRAFT: 'app:generate-linear-issue-draft',
   /** Draft Linear project update body via Pi. */
@@ -131,7 +159,14 @@ export const IPC = {
   AUTOMATION_STOP: 'automation:stop',
   AUTOMATION_RUN_STARTED: 'automation:run-started',
   AUTOMATION_STATUS_UPDATED: 'automation:status-updated',
+  AUTOMATION_RUN_ACTIVITY: 'automation:run-activity',
   AUTOMATION_WORKSPACE_EVENT: 'automation:workspace-event',
+  AUTOMATION_LIST_RUNS: 'automation:list-runs',
+  AUTOMATION_CLEAR_RUNS: 'automation:clear-runs',
+  AUTOMATION_TEST_FILTERS: 'automation:test-filters',
+  AUTOMATION_WEBHOOK_INFO: 'automation:webhook-info',
+  AUTOMATION_READ_PROJECT_FILE: 'automation:read-project-file',
+  AUTOMATION_WRITE_PROJECT_FILE: 'automation:write-project-file',
 
   // GitHub operations
   GITHUB_GET_PR_STATUSES: 'github:get-pr-statuses',
@@ -139,12 +174,31 @@ export const IPC = {
   GITHUB_RESOLVE_PR: 'github:resolve-pr',
   GITHUB_CREATE_PR: 'github:create-pr',
   GITHUB_REOPEN_PR: 'github:reopen-pr',
-  GITHUB_GET_PR_REVIEW_COMMENTS: 'github:get-pr-review-comments',
+  GITHUB_GET_PR_DETAILS: 'github:get-pr-details',
+  GITHUB_GET_RATE_LIMIT: 'github:get-rate-limit',
+  GITHUB_MERGE_PR: 'github:merge-pr',
+  GITHUB_DISABLE_AUTO_MERGE: 'github:disable-auto-merge',
+  GITHUB_MARK_PR_READY: 'github:mark-pr-ready',
+  GITHUB_EDIT_PR: 'github:edit-pr',
+  GITHUB_GET_PR_REVIEW_THREADS: 'github:get-pr-review-threads',
+  GITHUB_REPLY_REVIEW_THREAD: 'github:reply-review-thread',
+  GITHUB_RESOLVE_REVIEW_THREAD: 'github:resolve-review-thread',
+  GITHUB_LIST_CHECK_RUNS: 'github:list-check-runs',
+  GITHUB_GET_CHECK_FAILURE: 'github:get-check-failure',
+  GITHUB_PUBLISH_REVIEW: 'github:publish-review',
   GITHUB_CLONE_SUGGESTIONS: 'github:clone-suggestions',
 
   // LSP operations
   LSP_GET_PORT: 'lsp:get-port',
   LSP_GET_AVAILABLE_LANGUAGES: 'lsp:get-available-languages',
+  LSP_RESOLVE_SERVER: 'lsp:resolve-server',
+  LSP_LIST_SERVERS: 'lsp:list-servers',
+  LSP_RESTART_SERVER: 'lsp:restart-server',
+  LSP_GET_USER_CONFIG_PATH: 'lsp:get-user-config-path',
+  LSP_GET_PROBLEMS: 'lsp:get-problems',
+  LSP_PROBLEMS_CHANGED: 'lsp:problems-changed',
+  LSP_GET_UNTRUSTED_PROJECT_CONFIG: 'lsp:get-untrusted-project-config',
+  LSP_TRUST_PROJECT_CONFIG: 'lsp:trust-project-config',
 
   // Clipboard operations
   CLIPBOARD_SAVE_IMAGE: 'clipboard:save-image',
@@ -216,6 +270,16 @@ export const IPC = {
   PROJECT_STARTUP_SETTINGS_SET: 'project-startup-settings:set',
   PROJECT_STARTUP_SETTINGS_DELETE: 'project-startup-settings:delete',
   PROJECT_STARTUP_SETTINGS_PATH: 'project-startup-settings:path',
+  PROJECT_STARTUP_SETTINGS_GET_PORTS: 'project-startup-settings:get-ports',
+  PROJECT_STARTUP_SETTINGS_SET_PORTS: 'project-startup-settings:set-ports',
+
+  // Per-workspace port blocks (exported to every terminal of the workspace)
+  /** Reserves the workspace's block (or refreshes its named ports from the project settings). */
+  WORKSPACE_PORTS_ALLOCATE: 'workspace-ports:allocate',
+  WORKSPACE_PORTS_RELEASE: 'workspace-ports:release',
+  WORKSPACE_PORTS_LIST: 'workspace-ports:list',
+  /** Main → renderer: full allocation list after any change */
+  WORKSPACE_PORTS_CHANGED: 'workspace-ports:changed',
 
   // Pi SDK (in-process agent UI; catalog + session data under app userData only)
   PI_GET_STATE: 'pi:get-state',
@@ -0,0 +1,65 @@
+/** Checked-in language server overrides, relative to the worktree root. */
+export const LSP_PROJECT_CONFIG_PATH = '.constellagent/lsp.json'
+
+/**
+ * Separates a file path from the extension suffix of its Monaco model when the editor
+ * language is overridden; language servers see (and report on) the suffixed path.
+ */
+export const MODEL_PATH_OVERRIDE_MARKER = '.__constellagent__.'
+
+export interface LspServerConfig {
+  /** Server key; the built-ins use their language name. */
+  language: string
+  command: string
+  args: string[]
+  /** File extensions this server handles */
+  extensions: string[]
+  /** Monaco language ids served when a file's language is overridden in the editor. */
+  languageIds?: string[]
+  env?: Record<string, string>
+  /** Merged into the client's `initialize` request. */
+  initializationOptions?: Record<string, unknown>
+  /** Pushed with `workspace/didChangeConfiguration` and used to answer `workspace/configuration`. */
+  settings?: Record<string, unknown>
+  /**
+   * Files or directories marking a project root. The nearest ancestor of an opened file that
+   * has one becomes the server's root, so each package of a monorepo gets its own server.
+   * Without markers the server runs at the worktree root.
+   */
+  rootMarkers?: string[]
+}
+
+/** One entry under `servers` in a user or project config file; `disabled` drops the server. */
+export type LspServerOverride = Partial<Omit<LspServerConfig, 'language'>> & { disabled?: boolean }
+
+export interface LspConfigFile {
+  servers?: Record<string, LspServerOverride>
+}
+
+/** What a worktree wants to run that waits on the user trusting the repository. */
+export interface LspUntrustedProjectConfig {
+  /** Servers whose `command`, `args` or `env` in the project config are ignored until then. */
+  servers: string[]
+  /** Server binaries inside the worktree (relative paths), used instead of `PATH` once trusted. */
+  binaries: string[]
+  /** Identifies the settings the user is shown; trusting records it. */
+  fingerprint: string
+}
+
+/** The server that handles a file and the directory it runs in. */
+export interface LspServerTarget {
+  serverKey: string
+  root: string
+}
+
+export interface LspServerStatus {
+  serverKey: string
+  root: string
+  worktreePath: string
+  /** Resolved binary, e.g. the worktree's `node_modules/.bin` copy. */
+  command: string
+  pid: number | null
+  startedAt: number
+  connections: number
+  restarts: number
+}
@@ -290,11 +290,15 @@ export function buildPlanAgentCommand(
   return { command: parts.join(' ') }
 }
 
-/** Build the CLI command for an ad-hoc prompt (e.g. Linear issue text) in the given harness. */
+/**
+ * Build the CLI command for an ad-hoc prompt (e.g. Linear issue text) in the given harness.
+ * `extraArgs` is inserted verbatim before the prompt (user-authored flags such as `--yolo`).
+ */
 export function buildAdHocAgentCommand(
   agent: PlanAgent,
   modelLabel: string | null,
   prompt: string,
+  extraArgs?: string,
 ): BuildCommandResult {
   const cli = AGENT_CLI[agent]
   const cliModel = modelLabel?.trim()
@@ -303,6 +307,7 @@ export function buildAdHocAgentCommand(
   const body = prompt.trim() || ' '
   const parts = [cli]
   if (cliModel) parts.push('--model', cliModel)
+  if (extraArgs?.trim()) parts.push(extraArgs.trim())
   parts.push(shellEscape(body))
   return { command: parts.join(' ') }
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'bun:test'
+import { findStartupDependencyProblems, normalizeStartupCommands } from './startup-commands'
+
+describe('normalizeStartupCommands', () => {
+  it('migrates legacy waitFor / waitCondition onto dependsOn and the dependency', () => {
+    expect(normalizeStartupCommands([
+      { name: 'db', command: 'docker compose up' },
+      { name: 'web', command: 'pnpm dev', waitFor: 'db', waitCondition: { type: 'output', pattern: 'ready (5432)' } },
+      { name: 'blank', command: '  ' },
+    ])).toEqual([
+      { name: 'db', command: 'docker compose up', readiness: { type: 'output', pattern: 'ready \\(5432\\)' } },
+      { name: 'web', command: 'pnpm dev', dependsOn: ['db'] },
+    ])
+  })
+
+  it('drops invalid readiness checks and restart policies', () => {
+    expect(normalizeStartupCommands([
+      { name: 'a', command: 'a', readiness: { type: 'port', port: 70000 }, restart: 'sometimes' },
+      { name: 'b', command: 'b', readiness: { type: 'port', port: 3000, host: ' ' }, restart: 'always' },
+    ])).toEqual([
+      { name: 'a', command: 'a' },
+      { name: 'b', command: 'b', readiness: { type: 'port', port: 3000 }, restart: 'always' },
+    ])
+  })
+})
+
+describe('findStartupDependencyProblems', () => {
+  it('reports unknown dependencies and cycles', () => {
+    const problems = findStartupDependencyProblems([
+      { name: 'a', command: 'a', dependsOn: ['b'] },
+      { name: 'b', command: 'b', dependsOn: ['a'] },
+      { name: 'c', command: 'c', dependsOn: ['nope'] },
+      { name: 'd', command: 'd', dependsOn: ['c'] },
+    ])
+    expect(problems.get('a')).toBe('Dependency cycle: a → b → a')
+    expect(problems.get('b')).toBe('Dependency cycle: a → b → a')
+    expect(problems.get('c')).toBe('Unknown dependency “nope”')
+    expect(problems.has('d')).toBe(false)
+  })
+})
@@ -0,0 +1,162 @@
+/** When a startup command counts as ready, releasing the commands that depend on it. */
+export type StartupReadiness =
+  | { type: 'output'; pattern: string }
+  | { type: 'port'; port: number; host?: string }
+  | { type: 'delay'; seconds: number }
+
+/** `on-failure` restarts after a non-zero exit; `always` also after a clean one. Ctrl+C never restarts. */
+export type StartupRestartPolicy = 'never' | 'on-failure' | 'always'
+
+export interface StartupCommand {
+  name: string
+  command: string
+  /** Names of commands that must be ready before this one is launched. */
+  dependsOn?: string[]
+  /** Omitted: ready as soon as the command has been typed into its shell. */
+  readiness?: StartupReadiness
+  restart?: StartupRestartPolicy
+}
+
+export type StartupCommandState =
+  | 'waiting'
+  | 'starting'
+  | 'ready'
+  | 'exited'
+  | 'crashed'
+  | 'restarting'
+  | 'stopped'
+  | 'failed'
+
+export interface StartupCommandStatus {
+  name: string
+  command: string
+  ptyId: string
+  state: StartupCommandState
+  restarts: number
+  exitCode?: number
+  /** Why the command is waiting, failed or restarting. */
+  message?: string
+  updatedAt: number
+}
+
+export interface StartupWorkspaceStatus {
+  workspaceId: string
+  commands: StartupCommandStatus[]
+}
+
+/** A command bound to the terminal it runs in; `command` has session-resume flags already applied. */
+export interface StartupLaunchEntry extends StartupCommand {
+  ptyId: string
+}
+
+const RESTART_POLICIES: StartupRestartPolicy[] = ['never', 'on-failure', 'always']
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function normalizeReadiness(raw: unknown): StartupReadiness | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const record = raw as Record<string, unknown>
+  if (record.type === 'output' && typeof record.pattern === 'string' && record.pattern.trim()) {
+    return { type: 'output', pattern: record.pattern }
+  }
+  if (record.type === 'port' && typeof record.port === 'number' && record.port > 0 && record.port < 65536) {
+    const host = typeof record.host === 'string' && record.host.trim() ? record.host.trim() : undefined
+    return host ? { type: 'port', port: Math.floor(record.port), host } : { type: 'port', port: Math.floor(record.port) }
+  }
+  if (record.type === 'delay' && typeof record.seconds === 'number' && record.seconds >= 0) {
+    return { type: 'delay', seconds: record.seconds }
+  }
+  return undefined
+}
+
+/**
+ * Validates persisted startup commands. Legacy `waitFor` / `waitCondition` (set on the
+ * dependent command) becomes `dependsOn` plus a readiness check on the dependency; a legacy
+ * output condition was a substring match, so its pattern is escaped.
+ */
+export function normalizeStartupCommands(raw: unknown): StartupCommand[] {
+  if (!Array.isArray(raw)) return []
+  const out: StartupCommand[] = []
+  const legacyReadiness = new Map<string, StartupReadiness>()
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const record = entry as Record<string, unknown>
+    const command = typeof record.command === 'string' ? record.command : ''
+    if (!command.trim()) continue
+    const normalized: StartupCommand = {
+      name: typeof record.name === 'string' ? record.name : '',
+      command,
+    }
+
+    const dependsOn = Array.isArray(record.dependsOn)
+      ? record.dependsOn.filter((name): name is string => typeof name === 'string' && name.trim() !== '')
+      : []
+    if (typeof record.waitFor === 'string' && record.waitFor.trim() && !dependsOn.includes(record.waitFor)) {
+      dependsOn.push(record.waitFor)
+      const legacy = normalizeReadiness(record.waitCondition)
+      if (legacy && !legacyReadiness.has(record.waitFor)) {
+        legacyReadiness.set(
+          record.waitFor,
+          legacy.type === 'output' ? { type: 'output', pattern: escapeRegExp(legacy.pattern) } : legacy,
+        )
+      }
+    }
+    if (dependsOn.length > 0) normalized.dependsOn = Array.from(new Set(dependsOn))
+
+    const readiness = normalizeReadiness(record.readiness)
+    if (readiness) normalized.readiness = readiness
+    if (RESTART_POLICIES.includes(record.restart as StartupRestartPolicy) && record.restart !== 'never') {
+      normalized.restart = record.restart as StartupRestartPolicy
+    }
+    out.push(normalized)
+  }
+
+  for (const command of out) {
+    const legacy = legacyReadiness.get(command.name)
+    if (legacy && !command.readiness) command.readiness = legacy
+  }
+  return out
+}
+
+export function startupCommandsEqual(a: StartupCommand[] | undefined, b: StartupCommand[] | undefined): boolean {
+  return JSON.stringify(normalizeStartupCommands(a ?? [])) === JSON.stringify(normalizeStartupCommands(b ?? []))
+}
+
+/**
+ * Problems that keep commands from launching, keyed by command name: dependencies on names
+ * that do not exist (or on the command itself) and dependency cycles.
+ */
+export function findStartupDependencyProblems(commands: StartupCommand[]): Map<string, string> {
+  const problems = new Map<string, string>()
+  const byName = new Map(commands.filter((c) => c.name).map((c) => [c.name, c]))
+
+  for (const command of commands) {
+    for (const dep of command.dependsOn ?? []) {
+      if (dep === command.name) problems.set(command.name, 'Depends on itself')
+      else if (!byName.has(dep)) problems.set(command.name, `Unknown dependency “${dep}”`)
+    }
+  }
+
+  const visiting = new Set<string>()
+  const done = new Set<string>()
+  const visit = (name: string, path: string[]): void => {
+    if (done.has(name)) return
+    if (visiting.has(name)) {
+      const cycle = path.slice(path.indexOf(name))
+      for (const member of cycle) {
+        if (!problems.has(member)) problems.set(member, `Dependency cycle: ${[...cycle, name].join(' → ')}`)
+      }
+      return
+    }
+    visiting.add(name)
+    for (const dep of byName.get(name)?.dependsOn ?? []) {
+      if (byName.has(dep) && dep !== name) visit(dep, [...path, name])
+    }
+    visiting.delete(name)
+    done.add(name)
+  }
+  for (const name of byName.keys()) visit(name, [])
+  return problems
+}
@@ -0,0 +1,58 @@
+/** LSP `SymbolKind` names, in protocol order (kind `n` is entry `n - 1`). */
+export const SYMBOL_KINDS = [
+  'file',
+  'module',
+  'namespace',
+  'package',
+  'class',
+  'method',
+  'property',
+  'field',
+  'constructor',
+  'enum',
+  'interface',
+  'function',
+  'variable',
+  'constant',
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object',
+  'key',
+  'null',
+  'enumMember',
+  'struct',
+  'event',
+  'operator',
+  'typeParameter',
+] as const
+
+export type SymbolKindName = (typeof SYMBOL_KINDS)[number]
+
+export interface WorkspaceSymbolItem {
+  name: string
+  kind: SymbolKindName
+  /** Enclosing class, module or receiver, when known. */
+  containerName?: string
+  path: string
+  relativePath: string
+  lineNumber: number
+  column: number
+  /** `lsp` for results from a running language server, `index` for the built-in regex index. */
+  source: 'lsp' | 'index'
+}
+
+export interface WorkspaceSymbolRequest {
+  query: string
+  limit?: number
+}
+
+export interface WorkspaceSymbolResult {
+  /** `indexing` while the fallback index is still reading files; results may be partial. */
+  state: 'ready' | 'indexing' | 'error'
+  items: WorkspaceSymbolItem[]
+  error?: string
+}
+
+export const DEFAULT_SYMBOL_SEARCH_LIMIT = 50
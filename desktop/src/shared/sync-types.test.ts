@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'bun:test'
+import { conflictSideLabels, normalizeSyncStrategy, parseConflictStatus } from './sync-types'
+
+describe('parseConflictStatus', () => {
+  it('keeps unmerged entries and skips rename sources', () => {
+    const output = [
+      'UU src/app.ts',
+      ' M README.md',
+      'R  new-name.ts',
+      'UU old-name.ts',
+      'DU removed.ts',
+      'AA both added.txt',
+      '?? scratch.txt',
+      '',
+    ].join('\0')
+    expect(parseConflictStatus(output)).toEqual([
+      { path: 'src/app.ts', status: 'both-modified' },
+      { path: 'removed.ts', status: 'deleted-by-us' },
+      { path: 'both added.txt', status: 'both-added' },
+    ])
+  })
+})
+
+describe('normalizeSyncStrategy', () => {
+  it('falls back to rebase for unknown values', () => {
+    expect(normalizeSyncStrategy('merge')).toBe('merge')
+    expect(normalizeSyncStrategy('graphite-restack')).toBe('graphite-restack')
+    expect(normalizeSyncStrategy('squash')).toBe('rebase')
+    expect(normalizeSyncStrategy(undefined)).toBe('rebase')
+    expect(normalizeSyncStrategy('toString')).toBe('rebase')
+    expect(normalizeSyncStrategy('constructor')).toBe('rebase')
+  })
+})
+
+describe('conflictSideLabels', () => {
+  it('treats upstream as ours during a rebase', () => {
+    expect(conflictSideLabels('rebase').ours).toBe('Upstream')
+    expect(conflictSideLabels('merge').ours).toBe('Your branch')
+  })
+})
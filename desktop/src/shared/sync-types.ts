@@ -1,4 +1,34 @@
-export type SyncStage = 'stash' | 'fetch' | 'rebase' | 'stash-pop' | 'done' | 'error' | 'skip'
+export type SyncStage =
+  | 'stash'
+  | 'fetch'
+  | 'rebase'
+  | 'merge'
+  | 'restack'
+  | 'stash-pop'
+  | 'done'
+  | 'error'
+  | 'skip'
+
+/** How a worktree's branch picks up the default branch during sync. Set per project. */
+export type WorktreeSyncStrategy = 'rebase' | 'merge' | 'ff-only' | 'graphite-restack'
+
+export const DEFAULT_WORKTREE_SYNC_STRATEGY: WorktreeSyncStrategy = 'rebase'
+
+export const WORKTREE_SYNC_STRATEGY_LABELS: Record<WorktreeSyncStrategy, string> = {
+  rebase: 'Rebase',
+  merge: 'Merge',
+  'ff-only': 'Fast-forward only',
+  'graphite-restack': 'Graphite restack',
+}
+
+export function normalizeSyncStrategy(raw: unknown): WorktreeSyncStrategy {
+  return typeof raw === 'string' && Object.hasOwn(WORKTREE_SYNC_STRATEGY_LABELS, raw)
+    ? (raw as WorktreeSyncStrategy)
+    : DEFAULT_WORKTREE_SYNC_STRATEGY
+}
+
+/** The git operation a sync stopped in; it stays in progress until continued or aborted. */
+export type SyncConflictOperation = 'rebase' | 'merge' | 'stash-pop'
 
 export interface SyncProgress {
   worktreePath: string
@@ -12,4 +42,82 @@ export interface SyncResult {
   skipped?: boolean
   error?: string
   stashPopConflict?: boolean
+  /** Set when the sync stopped on conflicts instead of being rolled back. */
+  conflict?: SyncConflictOperation
+}
+
+export type SyncConflictFileStatus =
+  | 'both-modified'
+  | 'both-added'
+  | 'both-deleted'
+  | 'added-by-us'
+  | 'added-by-them'
+  | 'deleted-by-us'
+  | 'deleted-by-them'
+
+export interface SyncConflictFile {
+  path: string
+  status: SyncConflictFileStatus
+}
+
+export interface SyncConflictState {
+  worktreePath: string
+  operation: SyncConflictOperation
+  /** Files still unmerged; empty once everything is marked resolved. */
+  files: SyncConflictFile[]
+}
+
+/** Contents of one conflicted file; null where that side does not have the file. */
+export interface SyncConflictVersions {
+  base: string | null
+  ours: string | null
+  theirs: string | null
+  /** Working tree file, including conflict markers. */
+  merged: string | null
+}
+
+export type SyncConflictResolution = { take: 'ours' | 'theirs' } | { content: string }
+
+const UNMERGED_STATUS: Record<string, SyncConflictFileStatus> = {
+  UU: 'both-modified',
+  AA: 'both-added',
+  DD: 'both-deleted',
+  AU: 'added-by-us',
+  UA: 'added-by-them',
+  DU: 'deleted-by-us',
+  UD: 'deleted-by-them',
+}
+
+/** Unmerged entries from `git status --porcelain -z`. */
+export function parseConflictStatus(output: string): SyncConflictFile[] {
+  const files: SyncConflictFile[] = []
+  const entries = output.split('\0')
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (entry.length < 4) continue
+    const code = entry.slice(0, 2)
+    // Renames and copies carry their source path as the next entry.
+    if (code[0] === 'R' || code[0] === 'C') {
+      i++
+      continue
+    }
+    const status = UNMERGED_STATUS[code]
+    if (status) files.push({ path: entry.slice(3), status })
+  }
+  return files
+}
+
+/**
+ * What git's "ours" and "theirs" stand for in each operation. A rebase replays the branch on
+ * top of upstream, so "ours" is upstream there, the opposite of a merge.
+ */
+export function conflictSideLabels(operation: SyncConflictOperation): { ours: string; theirs: string } {
+  switch (operation) {
+    case 'rebase':
+      return { ours: 'Upstream', theirs: 'Your changes' }
+    case 'merge':
+      return { ours: 'Your branch', theirs: 'Incoming' }
+    case 'stash-pop':
+      return { ours: 'Synced', theirs: 'Stashed changes' }
+  }
 }
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'bun:test'
+import { formatRestoredScrollback } from './terminal-scrollback'
+
+describe('formatRestoredScrollback', () => {
+  it('strips mode switches and terminal queries, then appends a divider', () => {
+    const formatted = formatRestoredScrollback({
+      data: '\x1b[?1049h\x1b[?2004h$ ls\r\nREADME.md\x1b[6n\x1b]11;?\x07\x1b[c\r\n\x1b[?1049l',
+      savedAt: 0,
+    })
+    expect(formatted.startsWith('$ ls\r\nREADME.md\r\n\x1b[0m\x1b[2m── previous session · ')).toBe(true)
+    expect(formatted.endsWith('──\x1b[0m\r\n\r\n')).toBe(true)
+  })
+})
@@ -0,0 +1,29 @@
+/** A terminal's output from the previous app session, handed to the tab that replaces it. */
+export interface RestoredScrollback {
+  /** Raw PTY output, ANSI sequences included. */
+  data: string
+  /** Epoch ms when the app shut down. */
+  savedAt: number
+  /** Last command the shell reported through shell integration (OSC 133/633), if any. */
+  lastCommand?: string
+}
+
+// Sequences that would change xterm's modes (alt screen, mouse, bracketed paste, hidden cursor)
+// or make it answer a query into the new shell if replayed.
+const PRIVATE_MODE_RE = /\x1b\[\?[\d;]*[hl]/g
+const DEVICE_QUERY_RE = /\x1b\[[>=]?[\d;]*[cn]/g
+const OSC_QUERY_RE = /\x1b\][0-9]+;\?(?:\x07|\x1b\\)/g
+
+/**
+ * Makes saved output safe to replay into a fresh xterm and appends a dimmed divider so the
+ * previous session is visually separate from the new shell's prompt.
+ */
+export function formatRestoredScrollback(restored: RestoredScrollback): string {
+  const body = restored.data
+    .replace(PRIVATE_MODE_RE, '')
+    .replace(DEVICE_QUERY_RE, '')
+    .replace(OSC_QUERY_RE, '')
+  const savedAt = new Date(restored.savedAt).toLocaleString()
+  const separator = body.endsWith('\n') ? '' : '\r\n'
+  return `${body}\x1b[0m${separator}\x1b[2m── previous session · ${savedAt} ──\x1b[0m\r\n\r\n`
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  buildTranscriptMatchQuery,
+  formatTranscriptAsciicast,
+  locateTranscriptHit,
+  parseTranscriptSnippet,
+  TranscriptTextDecoder,
+  type TerminalTranscriptChunk,
+} from './terminal-transcript'
+
+describe('TranscriptTextDecoder', () => {
+  it('strips escape sequences, including ones split across writes', () => {
+    const decoder = new TranscriptTextDecoder()
+    expect(decoder.push('\x1b[1;32mok\x1b[0m \x1b]0;title')).toBe('')
+    expect(decoder.push('\x07done\x1b[')).toBe('')
+    expect(decoder.push('K\r')).toBe('')
+    expect(decoder.push('\n')).toBe('ok done\n')
+  })
+
+  it('keeps only the final state of lines rewritten with carriage returns', () => {
+    const decoder = new TranscriptTextDecoder()
+    expect(decoder.push('10%\r50%\r100%\r\nnext')).toBe('100%\n')
+    expect(decoder.push(' lin\bne')).toBe('')
+    expect(decoder.flush()).toBe('next line\n')
+  })
+})
+
+describe('transcript search helpers', () => {
+  it('quotes terms and prefix-matches the last one', () => {
+    expect(buildTranscriptMatchQuery('  npm "run  tes')).toBe('"npm" "run" "tes"*')
+    expect(buildTranscriptMatchQuery('  ')).toBeNull()
+  })
+
+  it('turns snippet marks into highlight ranges on a single line', () => {
+    expect(parseTranscriptSnippet('  \u0002npm\u0003 ERR!\ncode \u0002E404\u0003')).toEqual({
+      preview: 'npm ERR! code E404',
+      matchRanges: [[0, 3], [14, 18]],
+    })
+  })
+
+  it('locates the line of the first matching term within the hit chunk', () => {
+    const chunks: TerminalTranscriptChunk[] = [
+      { id: 1, at: 0, text: 'a\nb\n', timings: [] },
+      { id: 2, at: 10, text: 'c\nnpm ERR! oops\n', timings: [] },
+    ]
+    expect(locateTranscriptHit(chunks, 2, 'err')).toBe(4)
+    expect(locateTranscriptHit(chunks, 2, 'missing')).toBe(3)
+  })
+})
+
+describe('formatTranscriptAsciicast', () => {
+  it('writes a v2 header and one event per recorded write', () => {
+    const cast = formatTranscriptAsciicast(
+      { id: 's', ptyId: 'pty-1', workingDir: '/repo', cols: 120, rows: 30, startedAt: 1_000_000 },
+      [{ at: 1_000_500, text: '$ ls\nREADME.md\n', timings: [[0, 5], [250, 10]] }],
+    )
+    const [header, ...events] = cast.trimEnd().split('\n').map((line) => JSON.parse(line))
+    expect(header).toEqual({ version: 2, width: 120, height: 30, timestamp: 1000, env: { TERM: 'xterm-256color' } })
+    expect(events).toEqual([[0.5, 'o', '$ ls\r\n'], [0.75, 'o', 'README.md\r\n']])
+  })
+})
@@ -0,0 +1,252 @@
+export type TranscriptExportFormat = 'text' | 'asciicast'
+
+/** What to export: the session a live terminal tab is recording, or any stored session (e.g. a Quick Open hit). */
+export type TranscriptExportTarget = { ptyId: string } | { repoPath: string; sessionId: string }
+
+/** One recorded run of a PTY, from its first output until it exits or recording stops. */
+export interface TerminalTranscriptSession {
+  id: string
+  ptyId: string
+  workspaceId?: string
+  workingDir: string
+  agentType?: string
+  cols: number
+  rows: number
+  startedAt: number
+  endedAt?: number
+}
+
+/**
+ * ANSI-stripped output flushed together. `timings` keeps the original write boundaries as
+ * `[ms after at, chars]` so asciicast exports replay at the recorded pace.
+ */
+export interface TerminalTranscriptChunk {
+  id?: number
+  at: number
+  text: string
+  timings: Array<[offsetMs: number, length: number]>
+}
+
+export interface TerminalTranscriptSearchHit {
+  repoPath: string
+  sessionId: string
+  chunkId: number
+  at: number
+  workspaceId?: string
+  workingDir: string
+  agentType?: string
+  preview: string
+  matchRanges: [number, number][]
+}
+
+/** Where a search hit lands in the plain-text export opened from Quick Open. */
+export interface TerminalTranscriptLocation {
+  path: string
+  lineNumber: number
+}
+
+/** Longest unterminated line kept before it is emitted anyway (spinners, TUIs that never print `\n`). */
+const LINE_MAX_CHARS = 16 * 1024
+/** An escape sequence still open after this many chars is junk; drop it rather than buffer forever. */
+const ESCAPE_CARRY_MAX = 4096
+
+/**
+ * Index just past the escape sequence starting at `start`, or -1 while it is still incomplete.
+ * Covers CSI, OSC (BEL or ST terminated), DCS/SOS/PM/APC strings, charset selection and
+ * plain two-byte escapes.
+ */
+function escapeSequenceEnd(input: string, start: number): number {
+  const kind = input[start + 1]
+  if (kind === undefined) return -1
+  if (kind === '[') {
+    let i = start + 2
+    while (i < input.length && input[i] >= ' ' && input[i] <= '?') i++
+    return i < input.length ? i + 1 : -1
+  }
+  if (kind === ']' || kind === 'P' || kind === 'X' || kind === '^' || kind === '_') {
+    for (let i = start + 2; i < input.length; i++) {
+      if (kind === ']' && input[i] === '\x07') return i + 1
+      if (input[i] === '\x1b' && input[i + 1] === '\\') return i + 2
+    }
+    return -1
+  }
+  if (kind === '(' || kind === ')' || kind === '*' || kind === '+') {
+    return start + 2 < input.length ? start + 3 : -1
+  }
+  return start + 2
+}
+
+/**
+ * Turns raw PTY output into searchable text. Escape sequences are removed (one split across
+ * writes is held until it completes), `\r` rewinds the current line the way a terminal would,
+ * and only finished lines are returned so progress bars collapse to their final state.
+ */
+export class TranscriptTextDecoder {
+  private carry = ''
+  private line = ''
+
+  push(data: string): string {
+    const input = this.carry + data
+    this.carry = ''
+    let out = ''
+    let i = 0
+    while (i < input.length) {
+      const ch = input[i]
+      if (ch === '\x1b') {
+        const end = escapeSequenceEnd(input, i)
+        if (end === -1) {
+          const pending = input.slice(i)
+          if (pending.length <= ESCAPE_CARRY_MAX) this.carry = pending
+          break
+        }
+        i = end
+        continue
+      }
+      if (ch === '\n') {
+        out += `${this.line.trimEnd()}\n`
+        this.line = ''
+      } else if (ch === '\r') {
+        // Hold a trailing CR: the LF that makes it a plain line break may arrive in the next write.
+        if (i + 1 === input.length) {
+          this.carry = ch
+          break
+        }
+        if (input[i + 1] !== '\n') this.line = ''
+      } else if (ch === '\b') {
+        this.line = this.line.slice(0, -1)
+      } else if (ch === '\t' || (ch >= ' ' && ch !== '\x7f')) {
+        this.line += ch
+        if (this.line.length >= LINE_MAX_CHARS) {
+          out += `${this.line}\n`
+          this.line = ''
+        }
+      }
+      i++
+    }
+    return out
+  }
+
+  /** Emits the unfinished last line, e.g. the prompt left on screen when the shell exits. */
+  flush(): string {
+    const rest = this.line.trimEnd()
+    this.carry = ''
+    this.line = ''
+    return rest ? `${rest}\n` : ''
+  }
+}
+
+/**
+ * FTS5 query for free-form input: every word must appear, the last one as a prefix so results
+ * narrow while typing. Quotes keep punctuation in user input from being read as FTS syntax.
+ */
+export function buildTranscriptMatchQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter(Boolean)
+  if (terms.length === 0) return null
+  return terms
+    .map((term, index) => (index === terms.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(' ')
+}
+
+/** Marks passed to FTS5 `snippet()` around each matched term. */
+export const SNIPPET_MATCH_START = '\u0002'
+export const SNIPPET_MATCH_END = '\u0003'
+
+/** Splits an FTS5 snippet into single-line preview text and highlight ranges. */
+export function parseTranscriptSnippet(snippet: string): { preview: string; matchRanges: [number, number][] } {
+  let preview = ''
+  const matchRanges: [number, number][] = []
+  let start = -1
+  for (const ch of snippet.replace(/\s+/g, ' ')) {
+    if (ch === SNIPPET_MATCH_START) {
+      start = preview.length
+    } else if (ch === SNIPPET_MATCH_END) {
+      if (start >= 0 && preview.length > start) matchRanges.push([start, preview.length])
+      start = -1
+    } else {
+      preview += ch
+    }
+  }
+  const leading = preview.length - preview.trimStart().length
+  return {
+    preview: preview.trim(),
+    matchRanges: matchRanges.map(([start, end]) => [Math.max(0, start - leading), end - leading]),
+  }
+}
+
+export function formatTranscriptText(chunks: TerminalTranscriptChunk[]): string {
+  return chunks.map((chunk) => chunk.text).join('')
+}
+
+/**
+ * 1-based line of the plain-text export where `chunkId` first mentions a query term,
+ * falling back to the chunk's first line.
+ */
+export function locateTranscriptHit(chunks: TerminalTranscriptChunk[], chunkId: number, query: string): number {
+  let lineNumber = 1
+  for (const chunk of chunks) {
+    if (chunk.id !== chunkId) {
+      lineNumber += countNewlines(chunk.text)
+      continue
+    }
+    const lower = chunk.text.toLowerCase()
+    const offsets = query
+      .toLowerCase()
+      .split(/\s+/)
+      .map((term) => term.replace(/"/g, ''))
+      .filter(Boolean)
+      .map((term) => lower.indexOf(term))
+      .filter((offset) => offset >= 0)
+    if (offsets.length > 0) lineNumber += countNewlines(chunk.text.slice(0, Math.min(...offsets)))
+    return lineNumber
+  }
+  return 1
+}
+
+function countNewlines(text: string): number {
+  let count = 0
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++
+  return count
+}
+
+/**
+ * asciicast v2 (https://docs.asciinema.org/manual/asciicast/v2/): a JSON header line, then one
+ * `[seconds, "o", text]` event per recorded write. Output is the stripped text, so players show
+ * it uncoloured; newlines become CRLF since players emulate a raw terminal.
+ */
+export function formatTranscriptAsciicast(
+  session: TerminalTranscriptSession,
+  chunks: TerminalTranscriptChunk[],
+): string {
+  const header: Record<string, unknown> = {
+    version: 2,
+    width: session.cols,
+    height: session.rows,
+    timestamp: Math.floor(session.startedAt / 1000),
+    env: { TERM: 'xterm-256color' },
+  }
+  if (session.agentType) header.title = session.agentType
+  const lines = [JSON.stringify(header)]
+
+  for (const chunk of chunks) {
+    let offset = 0
+    const timings = chunk.timings.length > 0 ? chunk.timings : [[0, chunk.text.length] as [number, number]]
+    for (const [offsetMs, length] of timings) {
+      const text = chunk.text.slice(offset, offset + length)
+      offset += length
+      if (!text) continue
+      const seconds = Math.max(0, chunk.at + offsetMs - session.startedAt) / 1000
+      lines.push(JSON.stringify([Number(seconds.toFixed(6)), 'o', text.replace(/\n/g, '\r\n')]))
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/** Default file name for an export, e.g. `terminal-2026-10-19T09-30-00.cast`. */
+export function transcriptFileName(session: TerminalTranscriptSession, format: TranscriptExportFormat): string {
+  const stamp = new Date(session.startedAt).toISOString().slice(0, 19).replace(/:/g, '-')
+  const label = session.agentType && session.agentType !== 'unknown' ? session.agentType : 'terminal'
+  return `${label}-${stamp}.${format === 'asciicast' ? 'cast' : 'txt'}`
+}
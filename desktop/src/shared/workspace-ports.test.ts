@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  WORKSPACE_PORT_RANGE_START,
+  assignNamedPorts,
+  nextPortBlock,
+  normalizePortNames,
+  workspacePortEnv,
+} from './workspace-ports'
+
+describe('normalizePortNames', () => {
+  it('keeps valid names once per environment variable', () => {
+    expect(normalizePortNames(['web', ' api-server ', 'API_SERVER', '9lives', 'db', 42])).toEqual([
+      'web',
+      'api-server',
+      'db',
+    ])
+  })
+})
+
+describe('nextPortBlock', () => {
+  it('fills the lowest gap', () => {
+    expect(nextPortBlock([])).toBe(WORKSPACE_PORT_RANGE_START)
+    expect(nextPortBlock([WORKSPACE_PORT_RANGE_START, WORKSPACE_PORT_RANGE_START + 20])).toBe(WORKSPACE_PORT_RANGE_START + 10)
+  })
+})
+
+describe('assignNamedPorts', () => {
+  it('keeps existing ports when names are added or removed', () => {
+    const first = assignNamedPorts(20000, 10, ['web', 'api', 'db'])
+    expect(first).toEqual({ web: 20000, api: 20001, db: 20002 })
+    expect(assignNamedPorts(20000, 10, ['docs', 'db', 'web'], first)).toEqual({ db: 20002, web: 20000, docs: 20001 })
+  })
+})
+
+describe('workspacePortEnv', () => {
+  it('exports the block and each named port', () => {
+    expect(workspacePortEnv({ workspaceId: 'ws', base: 20010, size: 10, named: { web: 20010, 'api-server': 20011 } })).toEqual({
+      PORT: '20010',
+      CONSTELLAGENT_PORT_BASE: '20010',
+      CONSTELLAGENT_PORT_COUNT: '10',
+      PORT_WEB: '20010',
+      PORT_API_SERVER: '20011',
+    })
+  })
+})
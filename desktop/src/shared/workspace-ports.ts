@@ -0,0 +1,109 @@
+/**
+ * First port handed out to workspaces. Kept below the ephemeral ranges of Linux (32768+) and
+ * macOS / Windows (49152+) so outgoing connections never collide with a dev server.
+ */
+export const WORKSPACE_PORT_RANGE_START = 20000
+export const WORKSPACE_PORT_RANGE_END = 32000
+export const WORKSPACE_PORT_BLOCK_SIZE = 10
+
+/** A contiguous block of ports reserved for one workspace; named ports come from the project settings file. */
+export interface WorkspacePortAllocation {
+  workspaceId: string
+  base: number
+  size: number
+  named: Record<string, number>
+}
+
+const PORT_NAME_RE = /^[A-Za-z][A-Za-z0-9_-]*$/
+
+/** Environment variable carrying a named port, e.g. `api-server` → `PORT_API_SERVER`. */
+export function portEnvName(name: string): string {
+  return `PORT_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`
+}
+
+/**
+ * Valid, unique port names in declaration order. Names that map to the same environment
+ * variable keep the first; the list is capped at one block.
+ */
+export function normalizePortNames(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return []
+  const out: string[] = []
+  const envNames = new Set<string>()
+  for (const entry of raw) {
+    if (typeof entry !== 'string') continue
+    const name = entry.trim()
+    if (!PORT_NAME_RE.test(name)) continue
+    const envName = portEnvName(name)
+    if (envNames.has(envName)) continue
+    envNames.add(envName)
+    out.push(name)
+    if (out.length === WORKSPACE_PORT_BLOCK_SIZE) break
+  }
+  return out
+}
+
+/** Lowest block start not already taken, or null once the range is exhausted. */
+export function nextPortBlock(takenBases: Iterable<number>): number | null {
+  const taken = new Set(takenBases)
+  for (
+    let base = WORKSPACE_PORT_RANGE_START;
+    base + WORKSPACE_PORT_BLOCK_SIZE <= WORKSPACE_PORT_RANGE_END;
+    base += WORKSPACE_PORT_BLOCK_SIZE
+  ) {
+    if (!taken.has(base)) return base
+  }
+  return null
+}
+
+/**
+ * Maps names onto ports of the block. A name that already had a port keeps it, so adding or
+ * removing a name in the project settings never moves the others.
+ */
+export function assignNamedPorts(
+  base: number,
+  size: number,
+  names: string[],
+  previous: Record<string, number> = {},
+): Record<string, number> {
+  const named: Record<string, number> = {}
+  const used = new Set<number>()
+  for (const name of names) {
+    const port = previous[name]
+    if (port !== undefined && port >= base && port < base + size && !used.has(port)) {
+      named[name] = port
+      used.add(port)
+    }
+  }
+  let next = base
+  for (const name of names) {
+    if (named[name] !== undefined) continue
+    while (used.has(next)) next++
+    if (next >= base + size) break
+    named[name] = next
+    used.add(next)
+  }
+  return named
+}
+
+/**
+ * Environment for every terminal of the workspace. `PORT` is the first port of the block, which
+ * most dev servers pick up on their own; each named port is exported as `PORT_<NAME>`.
+ */
+export function workspacePortEnv(allocation: WorkspacePortAllocation): Record<string, string> {
+  const env: Record<string, string> = {
+    PORT: String(allocation.base),
+    CONSTELLAGENT_PORT_BASE: String(allocation.base),
+    CONSTELLAGENT_PORT_COUNT: String(allocation.size),
+  }
+  for (const [name, port] of Object.entries(allocation.named)) {
+    env[portEnvName(name)] = String(port)
+  }
+  return env
+}
+
+/** Short label for the sidebar, e.g. `20010–20019` or `web 20010 · api 20011`. */
+export function formatWorkspacePorts(allocation: WorkspacePortAllocation): string {
+  const named = Object.entries(allocation.named)
+  if (named.length === 0) return `${allocation.base}–${allocation.base + allocation.size - 1}`
+  return named.map(([name, port]) => `${name} ${port}`).join(' · ')
+}
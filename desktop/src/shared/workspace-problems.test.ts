@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  dedupeProblems,
+  filesWithErrors,
+  formatProblemsForAgent,
+  groupProblemsByFile,
+  problemFromLspDiagnostic,
+  type WorkspaceProblem,
+} from './workspace-problems'
+
+const problem = (filePath: string, line: number, severity: WorkspaceProblem['severity'], message = 'bad'): WorkspaceProblem => ({
+  filePath,
+  line,
+  column: 1,
+  endLine: line,
+  endColumn: 4,
+  severity,
+  message,
+})
+
+describe('problemFromLspDiagnostic', () => {
+  it('converts positions to 1-based and maps severities', () => {
+    expect(problemFromLspDiagnostic('/w/a.ts', {
+      range: { start: { line: 2, character: 4 }, end: { line: 2, character: 9 } },
+      severity: 2,
+      message: 'unused',
+      source: 'ts',
+      code: 6133,
+    })).toEqual({
+      filePath: '/w/a.ts',
+      line: 3,
+      column: 5,
+      endLine: 3,
+      endColumn: 10,
+      severity: 'warning',
+      message: 'unused',
+      source: 'ts',
+      code: '6133',
+    })
+  })
+
+  it('treats a missing severity as an error and rejects malformed diagnostics', () => {
+    expect(problemFromLspDiagnostic('/w/a.ts', { range: { start: { line: 0, character: 0 } }, message: 'x' })?.severity).toBe('error')
+    expect(problemFromLspDiagnostic('/w/a.ts', { message: 'x' })).toBeNull()
+  })
+})
+
+describe('groupProblemsByFile', () => {
+  it('puts files with errors first and sorts each file by severity then line', () => {
+    const groups = groupProblemsByFile([
+      problem('/w/a.ts', 9, 'warning'),
+      problem('/w/b.ts', 5, 'warning'),
+      problem('/w/b.ts', 7, 'error'),
+      problem('/w/a.ts', 2, 'warning'),
+    ])
+    expect(groups.map((g) => g.filePath)).toEqual(['/w/b.ts', '/w/a.ts'])
+    expect(groups[0].problems.map((p) => p.line)).toEqual([7, 5])
+    expect(groups[0].counts).toEqual({ errors: 1, warnings: 1, infos: 0 })
+    expect(groups[1].problems.map((p) => p.line)).toEqual([2, 9])
+  })
+})
+
+describe('dedupeProblems', () => {
+  it('drops the same message reported twice at one position', () => {
+    const lsp = problem('/w/a.ts', 1, 'error', 'Cannot find name')
+    expect(dedupeProblems([lsp, { ...lsp, source: 'ts' }, problem('/w/a.ts', 1, 'error', 'other')])).toHaveLength(2)
+  })
+})
+
+describe('filesWithErrors', () => {
+  it('ignores files with only warnings', () => {
+    expect([...filesWithErrors([problem('/w/a.ts', 1, 'warning'), problem('/w/b.ts', 1, 'error')])]).toEqual(['/w/b.ts'])
+  })
+})
+
+describe('formatProblemsForAgent', () => {
+  it('lists worktree-relative locations and caps the list', () => {
+    const groups = groupProblemsByFile([
+      { ...problem('/w/src/a.ts', 3, 'error', 'Type mismatch\nmore detail'), source: 'ts', code: '2322' },
+      problem('/w/src/a.ts', 8, 'warning', 'unused'),
+    ])
+    expect(formatProblemsForAgent(groups, '/w')).toBe(
+      'Please fix these 2 problems reported in the workspace:\n```\n'
+      + 'src/a.ts:3:1 error (ts 2322): Type mismatch\nsrc/a.ts:8:1 warning: unused\n```\n',
+    )
+    expect(formatProblemsForAgent(groups, '/w', 1)).toContain('src/a.ts:3:1 error (ts 2322): Type mismatch\n… and 1 more\n')
+  })
+})
@@ -0,0 +1,123 @@
+export type ProblemSeverity = 'error' | 'warning' | 'info' | 'hint'
+
+/** One diagnostic, with 1-based line/column like Monaco markers. */
+export interface WorkspaceProblem {
+  filePath: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  severity: ProblemSeverity
+  message: string
+  source?: string
+  code?: string
+}
+
+export interface ProblemCounts {
+  errors: number
+  warnings: number
+  infos: number
+}
+
+export interface ProblemFileGroup {
+  filePath: string
+  problems: WorkspaceProblem[]
+  counts: ProblemCounts
+}
+
+const SEVERITY_ORDER: Record<ProblemSeverity, number> = { error: 0, warning: 1, info: 2, hint: 3 }
+const LSP_SEVERITIES: ProblemSeverity[] = ['error', 'warning', 'info', 'hint']
+
+interface LspDiagnostic {
+  range?: { start?: { line?: number; character?: number }; end?: { line?: number; character?: number } }
+  severity?: number
+  message?: unknown
+  source?: unknown
+  code?: unknown
+}
+
+/** Converts a `publishDiagnostics` diagnostic (0-based, severity 1–4) to a problem for `filePath`. */
+export function problemFromLspDiagnostic(filePath: string, diagnostic: LspDiagnostic): WorkspaceProblem | null {
+  const start = diagnostic.range?.start
+  const end = diagnostic.range?.end
+  if (typeof start?.line !== 'number' || typeof diagnostic.message !== 'string') return null
+  return {
+    filePath,
+    line: start.line + 1,
+    column: (start.character ?? 0) + 1,
+    endLine: (end?.line ?? start.line) + 1,
+    endColumn: (end?.character ?? start.character ?? 0) + 1,
+    // Servers may omit severity; the spec leaves it to the client, and editors show errors
+    severity: LSP_SEVERITIES[(diagnostic.severity ?? 1) - 1] ?? 'error',
+    message: diagnostic.message,
+    ...(typeof diagnostic.source === 'string' && diagnostic.source ? { source: diagnostic.source } : {}),
+    ...(typeof diagnostic.code === 'string' || typeof diagnostic.code === 'number' ? { code: String(diagnostic.code) } : {}),
+  }
+}
+
+function compareProblems(a: WorkspaceProblem, b: WorkspaceProblem): number {
+  return SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.line - b.line || a.column - b.column
+}
+
+/**
+ * Drops problems reported twice for the same spot — e.g. by a language server and the
+ * editor's own TypeScript worker — keeping the first.
+ */
+export function dedupeProblems(problems: WorkspaceProblem[]): WorkspaceProblem[] {
+  const seen = new Set<string>()
+  return problems.filter((problem) => {
+    const key = `${problem.filePath}:${problem.line}:${problem.column}:${problem.message}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+export function countProblems(problems: WorkspaceProblem[]): ProblemCounts {
+  const counts: ProblemCounts = { errors: 0, warnings: 0, infos: 0 }
+  for (const problem of problems) {
+    if (problem.severity === 'error') counts.errors++
+    else if (problem.severity === 'warning') counts.warnings++
+    else counts.infos++
+  }
+  return counts
+}
+
+/** Problems per file, files with errors first, then by path; each file's list by severity and position. */
+export function groupProblemsByFile(problems: WorkspaceProblem[]): ProblemFileGroup[] {
+  const byFile = new Map<string, WorkspaceProblem[]>()
+  for (const problem of problems) {
+    const list = byFile.get(problem.filePath)
+    if (list) list.push(problem)
+    else byFile.set(problem.filePath, [problem])
+  }
+  return Array.from(byFile, ([filePath, list]) => ({
+    filePath,
+    problems: [...list].sort(compareProblems),
+    counts: countProblems(list),
+  })).sort((a, b) => Number(b.counts.errors > 0) - Number(a.counts.errors > 0) || a.filePath.localeCompare(b.filePath))
+}
+
+/** Files with at least one error, for tree and changed-file highlights. */
+export function filesWithErrors(problems: WorkspaceProblem[]): Set<string> {
+  return new Set(problems.filter((problem) => problem.severity === 'error').map((problem) => problem.filePath))
+}
+
+/** Problems as `path:line:col severity: message` lines for an agent prompt, at most `maxProblems` of them. */
+export function formatProblemsForAgent(groups: ProblemFileGroup[], worktreePath?: string, maxProblems = 200): string {
+  const lines: string[] = []
+  let total = 0
+  for (const group of groups) {
+    const filePath = worktreePath && group.filePath.startsWith(`${worktreePath}/`)
+      ? group.filePath.slice(worktreePath.length + 1)
+      : group.filePath
+    for (const problem of group.problems) {
+      total++
+      if (lines.length >= maxProblems) continue
+      const origin = [problem.source, problem.code].filter(Boolean).join(' ')
+      lines.push(`${filePath}:${problem.line}:${problem.column} ${problem.severity}${origin ? ` (${origin})` : ''}: ${problem.message.split('\n')[0]}`)
+    }
+  }
+  if (total > lines.length) lines.push(`… and ${total - lines.length} more`)
+  return `Please fix ${total === 1 ? 'this problem' : `these ${total} problems`} reported in the workspace:\n\`\`\`\n${lines.join('\n')}\n\`\`\`\n`
+}